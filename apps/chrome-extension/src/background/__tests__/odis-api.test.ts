@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+interface ClerkSession {
+  getToken: () => Promise<string | null>;
+}
+
+const { session, outbound } = vi.hoisted(() => ({
+  session: { current: null as ClerkSession | null },
+  outbound: {
+    prepareDischargeSummary: { mutate: vi.fn() },
+    updateDischargeSummary: { mutate: vi.fn() },
+    approveAndSchedule: { mutate: vi.fn() },
+  },
+}));
+
+vi.mock("@clerk/chrome-extension/background", () => ({
+  createClerkClient: vi.fn(async () => ({ session: session.current })),
+}));
+
+vi.mock("@trpc/client", () => ({
+  createTRPCClient: vi.fn(() => ({ outbound })),
+  httpBatchLink: vi.fn(),
+}));
+
+import { AUTH_REQUIRED_ERROR } from "@odis-ai/extension/shared";
+import {
+  prepareDischargeSummary,
+  sendDischarge,
+  updateDischargeSummary,
+} from "../odis-api";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  session.current = { getToken: vi.fn(async () => "session-token") };
+});
+
+describe("odis-api discharge flow", () => {
+  it("prepares the case's discharge summary", async () => {
+    outbound.prepareDischargeSummary.mutate.mockResolvedValue({
+      id: "summary-1",
+      content: "Rest for two days.",
+      created_at: "2026-03-10T22:30:00Z",
+    });
+
+    await expect(prepareDischargeSummary("case-1")).resolves.toEqual({
+      id: "summary-1",
+      content: "Rest for two days.",
+    });
+    expect(outbound.prepareDischargeSummary.mutate).toHaveBeenCalledWith({
+      caseId: "case-1",
+    });
+  });
+
+  it("saves the edited summary by id", async () => {
+    outbound.updateDischargeSummary.mutate.mockResolvedValue({
+      id: "summary-1",
+      content: "Rest for three days.",
+    });
+
+    await updateDischargeSummary("case-1", {
+      id: "summary-1",
+      content: "Rest for three days.",
+    });
+
+    expect(outbound.updateDischargeSummary.mutate).toHaveBeenCalledWith({
+      caseId: "case-1",
+      summaryId: "summary-1",
+      content: "Rest for three days.",
+    });
+  });
+
+  it("schedules the discharge through approveAndSchedule", async () => {
+    outbound.approveAndSchedule.mutate.mockResolvedValue({
+      success: true,
+      callScheduled: true,
+      emailScheduled: false,
+      callScheduledFor: "2026-03-12T17:00:00Z",
+      emailScheduledFor: null,
+    });
+
+    await expect(
+      sendDischarge({
+        caseId: "case-1",
+        phoneEnabled: true,
+        emailEnabled: false,
+      }),
+    ).resolves.toEqual({
+      callScheduled: true,
+      emailScheduled: false,
+      callScheduledFor: "2026-03-12T17:00:00Z",
+      emailScheduledFor: null,
+    });
+    expect(outbound.approveAndSchedule.mutate).toHaveBeenCalledWith({
+      caseId: "case-1",
+      phoneEnabled: true,
+      emailEnabled: false,
+    });
+  });
+
+  it("asks for sign-in instead of calling the API when signed out", async () => {
+    session.current = null;
+
+    await expect(
+      sendDischarge({
+        caseId: "case-1",
+        phoneEnabled: true,
+        emailEnabled: false,
+      }),
+    ).rejects.toThrow(AUTH_REQUIRED_ERROR);
+    expect(outbound.approveAndSchedule.mutate).not.toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,7 @@
  * - Message routing between content scripts and popup
  * - Auth state management
  * - Storage operations
+ * - ODIS API calls for the consultation discharge panel
  */
 
 import {
@@ -17,7 +18,17 @@ import {
   clearAuthToken,
   getDashboardUrl,
 } from "@odis-ai/extension/shared";
-import type { ExtensionSettings } from "@odis-ai/extension/shared";
+import type {
+  DischargeSummaryDraft,
+  ExtensionSettings,
+  SendDischargeRequest,
+} from "@odis-ai/extension/shared";
+import {
+  getConsultationDischarge,
+  prepareDischargeSummary,
+  sendDischarge,
+  updateDischargeSummary,
+} from "./odis-api";
 
 console.log("[ODIS Extension] Service worker initialized");
 
@@ -65,6 +76,28 @@ const messageHandler = createMessageHandler({
     // Could notify popup or trigger other actions
     return successResponse(undefined);
   },
+
+  GET_CONSULTATION_DISCHARGE: async (payload) => {
+    const { consultationId } = payload as { consultationId: string };
+    return successResponse(await getConsultationDischarge(consultationId));
+  },
+
+  PREPARE_DISCHARGE_SUMMARY: async (payload) => {
+    const { caseId } = payload as { caseId: string };
+    return successResponse(await prepareDischargeSummary(caseId));
+  },
+
+  UPDATE_DISCHARGE_SUMMARY: async (payload) => {
+    const { caseId, summary } = payload as {
+      caseId: string;
+      summary: DischargeSummaryDraft;
+    };
+    return successResponse(await updateDischargeSummary(caseId, summary));
+  },
+
+  SEND_DISCHARGE: async (payload) => {
+    return successResponse(await sendDischarge(payload as SendDischargeRequest));
+  },
 });
 
 // Register message listener
@@ -65,13 +65,13 @@ export async function sendToActiveIdexxTab<T>(
  * Update badge to indicate extension state
  */
 export async function updateBadge(state: "active" | "inactive" | "error"): Promise<void> {
-  const config: Record<string, { text: string; color: string }> = {
+  const config: Record<typeof state, { text: string; color: string }> = {
     active: { text: "", color: "#22c55e" },
     inactive: { text: "OFF", color: "#6b7280" },
     error: { text: "!", color: "#ef4444" },
   };
 
-  const { text, color } = config[state] ?? config.inactive;
+  const { text, color } = config[state];
 
   await chrome.action.setBadgeText({ text });
   await chrome.action.setBadgeBackgroundColor({ color });
@@ -0,0 +1,126 @@
+/**
+ * ODIS web API client for the service worker
+ *
+ * Content scripts can't call the API directly (page CORS), so they message
+ * the background, which calls the web app's tRPC routers with the signed-in
+ * user's Clerk session token.
+ */
+
+import { createClerkClient } from "@clerk/chrome-extension/background";
+import { createTRPCClient, httpBatchLink } from "@trpc/client";
+import {
+  AUTH_REQUIRED_ERROR,
+  getApiBaseUrl,
+  getClerkPublishableKey,
+} from "@odis-ai/extension/shared";
+import type {
+  ConsultationDischarge,
+  DischargeSummaryDraft,
+  SendDischargeRequest,
+  SendDischargeResult,
+} from "@odis-ai/extension/shared";
+import type { AppRouter } from "@odis-ai/shared/api-types";
+
+/**
+ * Get a fresh Clerk session token, or null when signed out
+ */
+async function getSessionToken(): Promise<string | null> {
+  const clerk = await createClerkClient({
+    publishableKey: getClerkPublishableKey(),
+  });
+  if (!clerk.session) return null;
+  return clerk.session.getToken();
+}
+
+/**
+ * Create a tRPC client authenticated as the signed-in user
+ *
+ * Throws AUTH_REQUIRED_ERROR when nobody is signed in.
+ */
+async function createApiClient() {
+  const token = await getSessionToken();
+  if (!token) {
+    throw new Error(AUTH_REQUIRED_ERROR);
+  }
+
+  return createTRPCClient<AppRouter>({
+    links: [
+      httpBatchLink({
+        url: `${getApiBaseUrl()}/trpc`,
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+    ],
+  });
+}
+
+/**
+ * Look up the ODIS case for an IDEXX Neo consultation and its discharge state
+ */
+export async function getConsultationDischarge(
+  consultationId: string,
+): Promise<ConsultationDischarge> {
+  const api = await createApiClient();
+
+  const match = await api.outbound.findByConsultationId.query({
+    consultationId,
+  });
+  if (!match.found || !match.caseId) {
+    return { found: false };
+  }
+
+  const preview = await api.outbound.getDischargePreview.query({
+    caseId: match.caseId,
+  });
+  return {
+    found: true,
+    ...preview,
+    summary: preview.summary
+      ? { id: preview.summary.id, content: preview.summary.content }
+      : null,
+  };
+}
+
+/**
+ * Get the case's discharge summary, generating it if needed
+ */
+export async function prepareDischargeSummary(
+  caseId: string,
+): Promise<DischargeSummaryDraft> {
+  const api = await createApiClient();
+  const summary = await api.outbound.prepareDischargeSummary.mutate({
+    caseId,
+  });
+  return { id: summary.id, content: summary.content };
+}
+
+/**
+ * Save an edited discharge summary
+ */
+export async function updateDischargeSummary(
+  caseId: string,
+  summary: DischargeSummaryDraft,
+): Promise<DischargeSummaryDraft> {
+  const api = await createApiClient();
+  const updated = await api.outbound.updateDischargeSummary.mutate({
+    caseId,
+    summaryId: summary.id,
+    content: summary.content,
+  });
+  return { id: updated.id, content: updated.content };
+}
+
+/**
+ * Schedule the discharge call and/or email for a case
+ */
+export async function sendDischarge(
+  request: SendDischargeRequest,
+): Promise<SendDischargeResult> {
+  const api = await createApiClient();
+  const result = await api.outbound.approveAndSchedule.mutate(request);
+  return {
+    callScheduled: result.callScheduled,
+    emailScheduled: result.emailScheduled,
+    callScheduledFor: result.callScheduledFor,
+    emailScheduledFor: result.emailScheduledFor,
+  };
+}
@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ConsultationDischarge } from "@odis-ai/extension/shared";
+
+const { sendMessage, provider } = vi.hoisted(() => ({
+  sendMessage: vi.fn(),
+  provider: {
+    insertNote: vi.fn(),
+    undoLastInsert: vi.fn(),
+  },
+}));
+
+vi.mock("@odis-ai/extension/shared", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@odis-ai/extension/shared")>()),
+  sendMessage,
+}));
+
+vi.mock("@odis-ai/integrations/pims", () => ({
+  pimsRegistry: { getActiveProvider: () => provider },
+}));
+
+import { mountDischargePanel, unmountDischargePanel } from "../discharge-panel";
+
+const discharge: ConsultationDischarge = {
+  found: true,
+  caseId: "case-1",
+  caseStatus: "ongoing",
+  patient: {
+    name: "Max",
+    species: "dog",
+    ownerName: "Jane Smith",
+    hasPhone: true,
+    hasEmail: false,
+  },
+  summary: { id: "summary-1", content: "Rest for two days." },
+  call: null,
+  email: null,
+  soapNote: {
+    subjective: "  Vomiting since Monday.  ",
+    objective: null,
+    assessment: "   ",
+    plan: "Bland diet.",
+  },
+};
+
+function panelText(): string {
+  return (
+    document.querySelector("#odis-discharge-panel")?.shadowRoot?.textContent ??
+    ""
+  );
+}
+
+function textarea(): HTMLTextAreaElement {
+  const match = document
+    .querySelector("#odis-discharge-panel")
+    ?.shadowRoot?.querySelector("textarea");
+  if (!match) throw new Error("No summary textarea");
+  return match;
+}
+
+function button(label: string): HTMLButtonElement {
+  const root = document.querySelector("#odis-discharge-panel")?.shadowRoot;
+  const match = Array.from(root?.querySelectorAll("button") ?? []).find(
+    (element) => element.textContent === label,
+  );
+  if (!match) throw new Error(`No "${label}" button`);
+  return match;
+}
+
+async function mountReady(data: ConsultationDischarge = discharge) {
+  sendMessage.mockResolvedValueOnce({ success: true, data });
+  mountDischargePanel("12345");
+  await vi.waitFor(() => expect(panelText()).toContain("Discharge summary"));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  unmountDischargePanel();
+});
+
+describe("discharge panel", () => {
+  it("loads the discharge for the consultation", async () => {
+    await mountReady();
+
+    expect(sendMessage).toHaveBeenCalledWith("GET_CONSULTATION_DISCHARGE", {
+      consultationId: "12345",
+    });
+    expect(panelText()).toContain("Max · Jane Smith");
+  });
+
+  it("asks the user to sign in when the session expired", async () => {
+    sendMessage.mockResolvedValueOnce({
+      success: false,
+      error: "Not authenticated",
+    });
+    mountDischargePanel("12345");
+
+    await vi.waitFor(() => expect(panelText()).toContain("Sign in"));
+  });
+
+  it("explains when the consultation has no case yet", async () => {
+    sendMessage.mockResolvedValueOnce({
+      success: true,
+      data: { found: false },
+    });
+    mountDischargePanel("12345");
+
+    await vi.waitFor(() =>
+      expect(panelText()).toContain("No ODIS case for this consultation"),
+    );
+  });
+
+  it("writes only the filled-in SOAP sections to the chart", async () => {
+    provider.insertNote.mockResolvedValue(true);
+    await mountReady();
+
+    button("Insert SOAP notes").click();
+
+    await vi.waitFor(() =>
+      expect(provider.insertNote).toHaveBeenCalledWith(
+        "Subjective:\nVomiting since Monday.\n\nPlan:\nBland diet.",
+      ),
+    );
+    await vi.waitFor(() => expect(panelText()).toContain("Undo insert"));
+  });
+
+  it("hides the SOAP action when every section is blank", async () => {
+    await mountReady({
+      ...discharge,
+      soapNote: {
+        subjective: null,
+        objective: " ",
+        assessment: null,
+        plan: "",
+      },
+    });
+
+    expect(() => button("Insert SOAP notes")).toThrow();
+    expect(panelText()).toContain("Insert discharge instructions");
+  });
+
+  it("reports when the notes editor can't be found", async () => {
+    provider.insertNote.mockResolvedValue(false);
+    await mountReady();
+
+    button("Insert discharge instructions").click();
+
+    await vi.waitFor(() =>
+      expect(panelText()).toContain(
+        "Couldn't find the consultation notes editor",
+      ),
+    );
+    expect(provider.insertNote).toHaveBeenCalledWith("Rest for two days.");
+    expect(panelText()).not.toContain("Undo insert");
+  });
+});
+
+describe("discharge send flow", () => {
+  it("generates a summary when the case has none", async () => {
+    sendMessage.mockResolvedValueOnce({
+      success: true,
+      data: { ...discharge, summary: null },
+    });
+    mountDischargePanel("12345");
+    await vi.waitFor(() =>
+      expect(panelText()).toContain("No discharge summary yet"),
+    );
+    sendMessage.mockResolvedValueOnce({
+      success: true,
+      data: { id: "summary-2", content: "Keep the ear dry." },
+    });
+
+    button("Generate discharge summary").click();
+
+    await vi.waitFor(() => expect(textarea().value).toBe("Keep the ear dry."));
+    expect(sendMessage).toHaveBeenLastCalledWith("PREPARE_DISCHARGE_SUMMARY", {
+      caseId: "case-1",
+    });
+  });
+
+  it("saves the edited summary before scheduling the discharge", async () => {
+    await mountReady();
+    sendMessage
+      .mockResolvedValueOnce({
+        success: true,
+        data: { id: "summary-1", content: "Rest for three days." },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: {
+          callScheduled: true,
+          emailScheduled: false,
+          callScheduledFor: "2026-03-12T17:00:00Z",
+        },
+      })
+      .mockResolvedValueOnce({ success: true, data: discharge });
+
+    textarea().value = "Rest for three days.";
+    textarea().dispatchEvent(new Event("input"));
+    button("Send discharge").click();
+
+    await vi.waitFor(() => expect(panelText()).toContain("Call scheduled for"));
+    expect(sendMessage.mock.calls.map(([type]) => type)).toEqual([
+      "GET_CONSULTATION_DISCHARGE",
+      "UPDATE_DISCHARGE_SUMMARY",
+      "SEND_DISCHARGE",
+      "GET_CONSULTATION_DISCHARGE",
+    ]);
+    expect(sendMessage).toHaveBeenCalledWith("UPDATE_DISCHARGE_SUMMARY", {
+      caseId: "case-1",
+      summary: { id: "summary-1", content: "Rest for three days." },
+    });
+    expect(sendMessage).toHaveBeenCalledWith("SEND_DISCHARGE", {
+      caseId: "case-1",
+      phoneEnabled: true,
+      emailEnabled: false,
+    });
+  });
+
+  it("sends straight away when the summary wasn't edited", async () => {
+    await mountReady();
+    sendMessage
+      .mockResolvedValueOnce({
+        success: true,
+        data: { callScheduled: false, emailScheduled: false },
+      })
+      .mockResolvedValueOnce({ success: true, data: discharge });
+
+    button("Send discharge").click();
+
+    await vi.waitFor(() =>
+      expect(panelText()).toContain("Nothing was scheduled"),
+    );
+    expect(sendMessage).not.toHaveBeenCalledWith(
+      "UPDATE_DISCHARGE_SUMMARY",
+      expect.anything(),
+    );
+  });
+
+  it("doesn't send when saving the edits fails", async () => {
+    await mountReady();
+    sendMessage.mockResolvedValueOnce({
+      success: false,
+      error: "Summary is locked",
+    });
+
+    textarea().value = "Rest for three days.";
+    textarea().dispatchEvent(new Event("input"));
+    button("Send discharge").click();
+
+    await vi.waitFor(() => expect(panelText()).toContain("Summary is locked"));
+    expect(sendMessage).not.toHaveBeenCalledWith(
+      "SEND_DISCHARGE",
+      expect.anything(),
+    );
+  });
+
+  it("shows the error when scheduling fails", async () => {
+    await mountReady();
+    sendMessage.mockResolvedValueOnce({
+      success: false,
+      error: "Clinic has no outbound phone number",
+    });
+
+    button("Send discharge").click();
+
+    await vi.waitFor(() =>
+      expect(panelText()).toContain("Clinic has no outbound phone number"),
+    );
+    expect(button("Send discharge").disabled).toBe(false);
+  });
+});
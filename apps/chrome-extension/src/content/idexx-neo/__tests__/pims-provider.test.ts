@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IdexxNeoPimsProvider } from "../pims-provider";
+
+function addTextArea(id: string, value = ""): HTMLTextAreaElement {
+  const textarea = document.createElement("textarea");
+  textarea.id = id;
+  textarea.value = value;
+  document.body.append(textarea);
+  return textarea;
+}
+
+describe("IdexxNeoPimsProvider.insertNote", () => {
+  let provider: IdexxNeoPimsProvider;
+
+  beforeEach(async () => {
+    // jsdom has no editing commands, so writes take the direct path
+    document.execCommand = () => false;
+    provider = new IdexxNeoPimsProvider();
+    await provider.initialize();
+  });
+
+  afterEach(() => {
+    provider.cleanup();
+    document.body.replaceChildren();
+  });
+
+  it("appends to the consultation notes editor", async () => {
+    const notes = addTextArea("notes", "Exam normal.");
+
+    await expect(provider.insertNote("Discharged home.")).resolves.toBe(true);
+    expect(notes.value).toBe("Exam normal.\n\nDischarged home.");
+  });
+
+  it("ignores other fields the user focused last", async () => {
+    const notes = addTextArea("notes");
+    const weight = addTextArea("weight", "12.4");
+    weight.focus();
+
+    await expect(provider.insertNote("Discharged home.")).resolves.toBe(true);
+    expect(weight.value).toBe("12.4");
+    expect(notes.value).toBe("Discharged home.");
+  });
+
+  it("refuses when the page has no notes editor", async () => {
+    const weight = addTextArea("weight", "12.4");
+    weight.focus();
+
+    await expect(provider.insertNote("Discharged home.")).resolves.toBe(false);
+    expect(weight.value).toBe("12.4");
+  });
+
+  it("never writes into the extension's own fields", async () => {
+    const panel = document.createElement("div");
+    panel.setAttribute("data-odis-extension", "");
+    const ownField = document.createElement("textarea");
+    ownField.id = "notes";
+    panel.append(ownField);
+    document.body.append(panel);
+
+    await expect(provider.insertNote("Discharged home.")).resolves.toBe(false);
+    expect(ownField.value).toBe("");
+  });
+
+  it("restores the notes on undo", async () => {
+    const notes = addTextArea("notes", "Exam normal.");
+
+    await provider.insertNote("Discharged home.");
+    await expect(provider.undoLastInsert()).resolves.toBe(true);
+    expect(notes.value).toBe("Exam normal.");
+  });
+});
@@ -0,0 +1,605 @@
+/**
+ * ODIS discharge panel for IDEXX Neo consultation pages
+ *
+ * Shows the ODIS case status for the open consultation and lets the tech
+ * preview and edit the AI discharge summary, then schedule the discharge
+ * call and/or email without leaving IDEXX. The summary, SOAP note and
+ * discharge call summary can also be written into the consultation editor
+ * through the active PIMS provider. Rendered in a shadow root so IDEXX
+ * styles don't leak in.
+ */
+
+import { AUTH_REQUIRED_ERROR, sendMessage } from "@odis-ai/extension/shared";
+import { pimsRegistry } from "@odis-ai/integrations/pims";
+import type {
+  ConsultationDischarge,
+  DischargePreview,
+  DischargeSummaryDraft,
+  SendDischargeRequest,
+  SendDischargeResult,
+} from "@odis-ai/extension/shared";
+
+type PanelState =
+  | { kind: "loading" }
+  | { kind: "signed_out" }
+  | { kind: "not_found" }
+  | { kind: "error"; message: string }
+  | {
+      kind: "ready";
+      discharge: DischargePreview;
+      draft: string;
+      phoneEnabled: boolean;
+      emailEnabled: boolean;
+      busy: "generating" | "saving" | "sending" | null;
+      notice: string | null;
+      error: string | null;
+      /** Whether the last chart write can be undone */
+      canUndo: boolean;
+    };
+
+const PANEL_STYLES = `
+  :host { all: initial; }
+  .panel {
+    position: fixed; top: 80px; right: 16px; z-index: 10000;
+    width: 340px; max-height: calc(100vh - 120px); overflow-y: auto;
+    background: #fff; border: 1px solid #e5e7eb; border-radius: 8px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+    font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    color: #111827;
+  }
+  .header {
+    display: flex; align-items: center; justify-content: space-between;
+    padding: 10px 12px; background: #3b82f6; color: #fff;
+    border-radius: 8px 8px 0 0; cursor: pointer; font-weight: 600;
+  }
+  .panel.collapsed .body { display: none; }
+  .panel.collapsed .header { border-radius: 8px; }
+  .body { padding: 12px; display: flex; flex-direction: column; gap: 10px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .status { display: flex; flex-direction: column; gap: 2px; font-size: 13px; }
+  .badge {
+    align-self: flex-start; padding: 2px 8px; border-radius: 999px;
+    background: #eff6ff; color: #1d4ed8; font-size: 12px; font-weight: 600;
+  }
+  textarea {
+    width: 100%; min-height: 180px; box-sizing: border-box; padding: 8px;
+    border: 1px solid #d1d5db; border-radius: 6px; font: inherit; resize: vertical;
+  }
+  .row { display: flex; gap: 12px; align-items: center; }
+  .actions { display: flex; flex-wrap: wrap; gap: 6px; }
+  button {
+    padding: 6px 12px; border-radius: 6px; border: 1px solid #3b82f6;
+    background: #3b82f6; color: #fff; font: inherit; font-weight: 500; cursor: pointer;
+  }
+  button.secondary { background: #fff; color: #3b82f6; }
+  button:disabled { opacity: 0.5; cursor: default; }
+  .notice { padding: 8px; border-radius: 6px; background: #f0fdf4; color: #166534; }
+  .error { padding: 8px; border-radius: 6px; background: #fef2f2; color: #991b1b; }
+`;
+
+let host: HTMLDivElement | null = null;
+let content: HTMLDivElement | null = null;
+let consultationId: string | null = null;
+let state: PanelState = { kind: "loading" };
+let collapsed = false;
+
+/**
+ * Show the panel for a consultation, replacing any previous one
+ */
+export function mountDischargePanel(id: string): void {
+  if (host && consultationId === id) return;
+
+  unmountDischargePanel();
+  consultationId = id;
+
+  host = document.createElement("div");
+  host.setAttribute("data-odis-extension", "true");
+  host.id = "odis-discharge-panel";
+
+  const shadow = host.attachShadow({ mode: "open" });
+  const style = document.createElement("style");
+  style.textContent = PANEL_STYLES;
+  content = document.createElement("div");
+  shadow.append(style, content);
+  document.body.appendChild(host);
+
+  void loadDischarge();
+}
+
+/**
+ * Remove the panel from the page
+ */
+export function unmountDischargePanel(): void {
+  host?.remove();
+  host = null;
+  content = null;
+  consultationId = null;
+  state = { kind: "loading" };
+}
+
+/**
+ * Fetch the consultation's case and discharge state from ODIS
+ */
+async function loadDischarge(notice: string | null = null): Promise<void> {
+  const id = consultationId;
+  if (!id) return;
+
+  if (state.kind !== "ready") {
+    setState({ kind: "loading" });
+  }
+
+  const response = await sendMessage<
+    { consultationId: string },
+    ConsultationDischarge
+  >("GET_CONSULTATION_DISCHARGE", { consultationId: id });
+
+  // The user navigated to another consultation while this was loading
+  if (id !== consultationId) return;
+
+  if (!response.success || !response.data) {
+    setState(
+      response.error === AUTH_REQUIRED_ERROR
+        ? { kind: "signed_out" }
+        : { kind: "error", message: response.error ?? "Failed to load case" },
+    );
+    return;
+  }
+
+  const discharge = response.data;
+  if (!discharge.found) {
+    setState({ kind: "not_found" });
+    return;
+  }
+
+  setState({
+    kind: "ready",
+    discharge,
+    draft: discharge.summary?.content ?? "",
+    phoneEnabled: discharge.patient.hasPhone,
+    emailEnabled: discharge.patient.hasEmail,
+    busy: null,
+    notice,
+    error: null,
+    canUndo: false,
+  });
+}
+
+function setState(next: PanelState): void {
+  state = next;
+  render();
+}
+
+function updateReady(
+  updates: Partial<Extract<PanelState, { kind: "ready" }>>,
+): void {
+  if (state.kind !== "ready") return;
+  setState({ ...state, ...updates });
+}
+
+async function generateSummary(caseId: string): Promise<void> {
+  updateReady({ busy: "generating", error: null, notice: null });
+
+  const response = await sendMessage<{ caseId: string }, DischargeSummaryDraft>(
+    "PREPARE_DISCHARGE_SUMMARY",
+    { caseId },
+  );
+
+  if (state.kind !== "ready") return;
+  if (!response.success || !response.data) {
+    updateReady({
+      busy: null,
+      error: response.error ?? "Failed to generate summary",
+    });
+    return;
+  }
+
+  updateReady({
+    busy: null,
+    draft: response.data.content,
+    discharge: { ...state.discharge, summary: response.data },
+  });
+}
+
+/**
+ * Save the edited summary; returns false if saving failed
+ */
+async function saveSummary(): Promise<boolean> {
+  if (state.kind !== "ready" || !state.discharge.summary) return false;
+  const { discharge, draft } = state;
+  if (!discharge.summary || draft === discharge.summary.content) return true;
+
+  updateReady({ busy: "saving", error: null, notice: null });
+
+  const response = await sendMessage<
+    { caseId: string; summary: DischargeSummaryDraft },
+    DischargeSummaryDraft
+  >("UPDATE_DISCHARGE_SUMMARY", {
+    caseId: discharge.caseId,
+    summary: { id: discharge.summary.id, content: draft },
+  });
+
+  if (state.kind !== "ready") return false;
+  if (!response.success || !response.data) {
+    updateReady({
+      busy: null,
+      error: response.error ?? "Failed to save summary",
+    });
+    return false;
+  }
+
+  updateReady({
+    busy: null,
+    draft: response.data.content,
+    discharge: { ...state.discharge, summary: response.data },
+  });
+  return true;
+}
+
+async function sendDischarge(): Promise<void> {
+  if (state.kind !== "ready") return;
+  if (!(await saveSummary())) return;
+  if (state.kind !== "ready") return;
+
+  const request: SendDischargeRequest = {
+    caseId: state.discharge.caseId,
+    phoneEnabled: state.phoneEnabled,
+    emailEnabled: state.emailEnabled,
+  };
+  updateReady({ busy: "sending", error: null, notice: null });
+
+  const response = await sendMessage<SendDischargeRequest, SendDischargeResult>(
+    "SEND_DISCHARGE",
+    request,
+  );
+
+  if (!response.success || !response.data) {
+    updateReady({
+      busy: null,
+      error: response.error ?? "Failed to schedule discharge",
+    });
+    return;
+  }
+
+  await loadDischarge(describeSendResult(response.data));
+}
+
+/**
+ * Append text to the open IDEXX consultation note
+ */
+async function writeToChart(text: string): Promise<void> {
+  const provider = pimsRegistry.getActiveProvider();
+  const inserted = (await provider?.insertNote(text)) ?? false;
+
+  updateReady(
+    inserted
+      ? {
+          canUndo: true,
+          error: null,
+          notice: "Added to the chart. Review it, then save in IDEXX.",
+        }
+      : {
+          canUndo: false,
+          notice: null,
+          error:
+            "Couldn't find the consultation notes editor. Open the notes and try again.",
+        },
+  );
+}
+
+async function undoChartWrite(): Promise<void> {
+  const provider = pimsRegistry.getActiveProvider();
+  const undone = (await provider?.undoLastInsert?.()) ?? false;
+
+  updateReady({
+    canUndo: false,
+    notice: undone ? "Chart edit undone" : null,
+    error: undone ? null : "The edited note is no longer open",
+  });
+}
+
+function formatSoapNote(
+  soap: NonNullable<DischargePreview["soapNote"]>,
+): string {
+  const sections: [string, string | null][] = [
+    ["Subjective", soap.subjective],
+    ["Objective", soap.objective],
+    ["Assessment", soap.assessment],
+    ["Plan", soap.plan],
+  ];
+  return sections
+    .flatMap(([label, text]) => {
+      const trimmed = text?.trim();
+      return trimmed ? [`${label}:\n${trimmed}`] : [];
+    })
+    .join("\n\n");
+}
+
+function formatCallSummary(
+  call: NonNullable<DischargePreview["call"]>,
+): string {
+  return `ODIS discharge call (${formatDate(call.endedAt)}):\n${call.summary ?? ""}`;
+}
+
+function describeSendResult(result: SendDischargeResult): string {
+  const parts: string[] = [];
+  if (result.callScheduled) {
+    parts.push(`Call scheduled for ${formatDate(result.callScheduledFor)}`);
+  }
+  if (result.emailScheduled) {
+    parts.push(`Email scheduled for ${formatDate(result.emailScheduledFor)}`);
+  }
+  return parts.length > 0 ? parts.join(". ") : "Nothing was scheduled";
+}
+
+function formatDate(iso: string | null | undefined): string {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, " ");
+}
+
+/**
+ * Create an element with text or child nodes
+ */
+function h<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  props: Partial<HTMLElementTagNameMap[K]> = {},
+  children: (Node | string | null)[] = [],
+): HTMLElementTagNameMap[K] {
+  const element = Object.assign(document.createElement(tag), props);
+  for (const child of children) {
+    if (child !== null) element.append(child);
+  }
+  return element;
+}
+
+function renderBody(): Node[] {
+  switch (state.kind) {
+    case "loading":
+      return [
+        h("div", { className: "muted", textContent: "Loading ODIS case…" }),
+      ];
+    case "signed_out":
+      return [
+        h("div", {
+          className: "muted",
+          textContent:
+            "Sign in from the ODIS AI toolbar button to send discharges.",
+        }),
+      ];
+    case "not_found":
+      return [
+        h("div", {
+          className: "muted",
+          textContent:
+            "No ODIS case for this consultation yet. It appears after the next IDEXX sync.",
+        }),
+      ];
+    case "error":
+      return [
+        h("div", { className: "error", textContent: state.message }),
+        h("button", {
+          className: "secondary",
+          textContent: "Retry",
+          onclick: () => void loadDischarge(),
+        }),
+      ];
+    case "ready":
+      return renderReady(state);
+  }
+}
+
+function renderReady(ready: Extract<PanelState, { kind: "ready" }>): Node[] {
+  const { discharge, busy } = ready;
+  const nodes: Node[] = [];
+
+  nodes.push(
+    h("div", { className: "status" }, [
+      h("strong", {
+        textContent: [discharge.patient.name, discharge.patient.ownerName]
+          .filter(Boolean)
+          .join(" · "),
+      }),
+      h("span", {
+        className: "badge",
+        textContent: formatStatus(discharge.caseStatus ?? "draft"),
+      }),
+      discharge.call
+        ? h("span", {
+            textContent: `Call: ${formatStatus(discharge.call.status)} · ${formatDate(discharge.call.endedAt ?? discharge.call.scheduledFor)}`,
+          })
+        : null,
+      discharge.email
+        ? h("span", {
+            textContent: `Email: ${formatStatus(discharge.email.status)} · ${formatDate(discharge.email.sentAt ?? discharge.email.scheduledFor)}`,
+          })
+        : null,
+    ]),
+  );
+
+  if (ready.notice)
+    nodes.push(h("div", { className: "notice", textContent: ready.notice }));
+  if (ready.error)
+    nodes.push(h("div", { className: "error", textContent: ready.error }));
+
+  if (!discharge.summary) {
+    nodes.push(
+      h("div", {
+        className: "muted",
+        textContent: "No discharge summary yet.",
+      }),
+      h("button", {
+        textContent:
+          busy === "generating" ? "Generating…" : "Generate discharge summary",
+        disabled: busy !== null,
+        onclick: () => void generateSummary(discharge.caseId),
+      }),
+      ...renderChartActions(ready),
+    );
+    return nodes;
+  }
+
+  const saveButton = h("button", {
+    className: "secondary",
+    textContent: busy === "saving" ? "Saving…" : "Save edits",
+    disabled: busy !== null || ready.draft === discharge.summary.content,
+    onclick: () => void saveSummary(),
+  });
+
+  const textarea = h("textarea", {
+    value: ready.draft,
+    disabled: busy !== null,
+    oninput: () => {
+      // Update the draft without re-rendering so the cursor stays put
+      ready.draft = textarea.value;
+      saveButton.disabled = ready.draft === discharge.summary?.content;
+    },
+  });
+
+  const checkbox = (
+    label: string,
+    checked: boolean,
+    available: boolean,
+    key: "phoneEnabled" | "emailEnabled",
+  ) =>
+    h("label", { className: available ? "" : "muted" }, [
+      h("input", {
+        type: "checkbox",
+        checked: checked && available,
+        disabled: !available || busy !== null,
+        onchange: (event: Event) => {
+          ready[key] = (event.target as HTMLInputElement).checked;
+        },
+      }),
+      ` ${label}`,
+    ]);
+
+  nodes.push(
+    h("div", { className: "muted", textContent: "Discharge summary" }),
+    textarea,
+    h("div", { className: "row" }, [
+      checkbox(
+        "Call",
+        ready.phoneEnabled,
+        discharge.patient.hasPhone,
+        "phoneEnabled",
+      ),
+      checkbox(
+        "Email",
+        ready.emailEnabled,
+        discharge.patient.hasEmail,
+        "emailEnabled",
+      ),
+    ]),
+    h("div", { className: "row" }, [
+      saveButton,
+      h("button", {
+        textContent: busy === "sending" ? "Scheduling…" : "Send discharge",
+        disabled:
+          busy !== null ||
+          (!discharge.patient.hasPhone && !discharge.patient.hasEmail),
+        onclick: () => void sendDischarge(),
+      }),
+    ]),
+    ...renderChartActions(ready),
+  );
+
+  return nodes;
+}
+
+/**
+ * Buttons that write ODIS notes into the IDEXX consultation editor
+ */
+function renderChartActions(
+  ready: Extract<PanelState, { kind: "ready" }>,
+): Node[] {
+  const { discharge, busy } = ready;
+  const { call, soapNote } = discharge;
+  const actions: HTMLButtonElement[] = [];
+
+  if (discharge.summary) {
+    actions.push(
+      h("button", {
+        className: "secondary",
+        textContent: "Insert discharge instructions",
+        disabled: busy !== null,
+        onclick: () => void writeToChart(ready.draft),
+      }),
+    );
+  }
+
+  if (soapNote && formatSoapNote(soapNote)) {
+    actions.push(
+      h("button", {
+        className: "secondary",
+        textContent: "Insert SOAP notes",
+        disabled: busy !== null,
+        onclick: () => void writeToChart(formatSoapNote(soapNote)),
+      }),
+    );
+  }
+
+  if (call?.status === "completed" && call.summary) {
+    actions.push(
+      h("button", {
+        className: "secondary",
+        textContent: "Copy call summary to chart",
+        disabled: busy !== null,
+        onclick: () => void writeToChart(formatCallSummary(call)),
+      }),
+    );
+  }
+
+  if (ready.canUndo) {
+    actions.push(
+      h("button", {
+        className: "secondary",
+        textContent: "Undo insert",
+        onclick: () => void undoChartWrite(),
+      }),
+    );
+  }
+
+  if (actions.length === 0) return [];
+
+  return [
+    h("div", { className: "muted", textContent: "Write to chart" }),
+    h("div", { className: "actions" }, actions),
+  ];
+}
+
+function render(): void {
+  if (!content) return;
+
+  const panel = h(
+    "div",
+    { className: collapsed ? "panel collapsed" : "panel" },
+    [
+      h(
+        "div",
+        {
+          className: "header",
+          onclick: () => {
+            collapsed = !collapsed;
+            render();
+          },
+        },
+        [
+          h("span", { textContent: "ODIS AI Discharge" }),
+          h("span", { textContent: collapsed ? "▸" : "▾" }),
+        ],
+      ),
+      h("div", { className: "body" }, renderBody()),
+    ],
+  );
+
+  content.replaceChildren(panel);
+}
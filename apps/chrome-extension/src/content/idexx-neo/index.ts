@@ -5,12 +5,16 @@
  * - DOM observation for patient data
  * - UI enhancements and overlays
  * - Data extraction from IDEXX Neo pages
+ * - The discharge panel on consultation pages
  */
 
-import { IDEXX_SELECTORS } from "./selectors";
+import { IDEXX_SELECTORS, getConsultationId } from "./selectors";
 import { extractPatientData } from "./ui-overrides";
+import { mountDischargePanel, unmountDischargePanel } from "./discharge-panel";
 import type { IdexxPatientData } from "./types";
 import { sendMessage } from "@odis-ai/extension/shared";
+import { pimsRegistry } from "@odis-ai/integrations/pims";
+import { idexxNeoProvider } from "./pims-provider";
 
 let observer: MutationObserver | null = null;
 let lastDetectedData: IdexxPatientData | null = null;
@@ -21,8 +25,13 @@ let lastDetectedData: IdexxPatientData | null = null;
 export function initIdexxNeoOverrides(): void {
   console.log("[ODIS Extension] Initializing IDEXX Neo overrides");
 
+  // Register the PIMS provider used to write notes into the chart
+  pimsRegistry.register(idexxNeoProvider);
+  void idexxNeoProvider.initialize();
+
   // Initial scan
   scanForPatientData();
+  syncDischargePanel();
 
   // Set up mutation observer for dynamic content
   observer = new MutationObserver((mutations) => {
@@ -35,6 +44,7 @@ export function initIdexxNeoOverrides(): void {
 
     if (hasRelevantChanges) {
       scanForPatientData();
+      syncDischargePanel();
     }
   });
 
@@ -56,6 +66,8 @@ export function cleanupIdexxNeoOverrides(): void {
   }
 
   // Remove any injected UI elements
+  unmountDischargePanel();
+  pimsRegistry.unregister(idexxNeoProvider.name);
   document
     .querySelectorAll("[data-odis-extension]")
     .forEach((el) => el.remove());
@@ -83,6 +95,22 @@ function scanForPatientData(): void {
   }
 }
 
+/**
+ * Show the discharge panel on consultation pages and hide it elsewhere
+ *
+ * IDEXX Neo is a single-page app, so this runs on every DOM change to catch
+ * navigation between consultations.
+ */
+function syncDischargePanel(): void {
+  const consultationId = getConsultationId();
+
+  if (consultationId) {
+    mountDischargePanel(consultationId);
+  } else {
+    unmountDischargePanel();
+  }
+}
+
 // Re-export for external use
 export { IDEXX_SELECTORS };
 export type { IdexxPatientData };
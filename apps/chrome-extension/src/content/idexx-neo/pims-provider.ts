@@ -0,0 +1,385 @@
+/**
+ * IDEXX Neo PIMS provider
+ *
+ * Browser-side IPimsProvider for IDEXX Neo. Reads consultation data from
+ * IDEXX's same-origin page-data endpoint (using the user's IDEXX session)
+ * and writes notes into the open consultation editor.
+ */
+
+import type {
+  IPimsProvider,
+  PimsAppointment,
+  PimsClient,
+  PimsConsultation,
+  PimsConsultationStatus,
+  PimsPatient,
+} from "@odis-ai/integrations/pims";
+import { IDEXX_SELECTORS, getConsultationId } from "./selectors";
+
+/**
+ * Subset of IDEXX's /consultations/{id}/page-data response used here
+ */
+interface IdexxConsultationPageData {
+  consultation: {
+    id: number;
+    reason?: string;
+    notes?: string;
+    dischargeSummary?: string;
+    date: string;
+    status?: string;
+  };
+  patient: { id: number; name: string; species?: string; breed?: string };
+  client: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    phone?: string;
+    email?: string;
+  };
+}
+
+type EditorElement = HTMLElement | HTMLTextAreaElement;
+
+/**
+ * Editor contents captured before a write, for undo
+ */
+interface EditorSnapshot {
+  editor: EditorElement;
+  value: string;
+}
+
+const STATUS_MAP: Record<string, PimsConsultationStatus> = {
+  scheduled: "scheduled",
+  "checked in": "checked_in",
+  "in progress": "in_progress",
+  completed: "completed",
+  closed: "completed",
+  cancelled: "cancelled",
+};
+
+function isTextArea(element: EditorElement): element is HTMLTextAreaElement {
+  return element instanceof HTMLTextAreaElement;
+}
+
+function isEditable(element: Element | null): element is EditorElement {
+  if (!element || element.closest("[data-odis-extension]")) return false;
+  return (
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLElement && element.isContentEditable)
+  );
+}
+
+/**
+ * Only the consultation notes editor is written to; other fields on the
+ * page (weights, prescriptions, client details) are never touched
+ */
+function isNotesEditor(element: Element | null): element is EditorElement {
+  return isEditable(element) && element.matches(IDEXX_SELECTORS.editor.notes);
+}
+
+function readEditor(editor: EditorElement): string {
+  return isTextArea(editor) ? editor.value : editor.innerHTML;
+}
+
+/**
+ * Overwrite the editor's contents and let IDEXX's form state know
+ */
+function writeEditor(editor: EditorElement, value: string): void {
+  if (isTextArea(editor)) {
+    editor.value = value;
+  } else {
+    editor.innerHTML = value;
+  }
+  editor.dispatchEvent(new Event("input", { bubbles: true }));
+  editor.dispatchEvent(new Event("change", { bubbles: true }));
+}
+
+/**
+ * Insert text at the end of the editor, or replace everything
+ *
+ * Uses the browser's insertText command so the change lands on the editor's
+ * native undo stack (Ctrl+Z) and fires the events IDEXX listens for; falls
+ * back to a direct write if the command is unavailable.
+ */
+function insertText(
+  editor: EditorElement,
+  text: string,
+  mode: "append" | "replace",
+): void {
+  editor.focus();
+
+  if (isTextArea(editor)) {
+    const start = mode === "replace" ? 0 : editor.value.length;
+    editor.setSelectionRange(start, editor.value.length);
+  } else {
+    const range = document.createRange();
+    range.selectNodeContents(editor);
+    if (mode === "append") range.collapse(false);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }
+
+  if (document.execCommand("insertText", false, text)) return;
+
+  if (isTextArea(editor)) {
+    const current = mode === "replace" ? "" : editor.value;
+    writeEditor(editor, current + text);
+  } else {
+    if (mode === "replace") editor.replaceChildren();
+    const lines = text.split("\n");
+    lines.forEach((line, index) => {
+      if (index > 0) editor.append(document.createElement("br"));
+      editor.append(line);
+    });
+    editor.dispatchEvent(new Event("input", { bubbles: true }));
+  }
+}
+
+export class IdexxNeoPimsProvider implements IPimsProvider {
+  readonly name = "idexx";
+  readonly displayName = "IDEXX Neo";
+  readonly urlPatterns = ["https://*.idexxneo.com/*", "http://localhost:*/*"];
+
+  private pageDataCache = new Map<string, IdexxConsultationPageData>();
+  private lastFocusedEditor: EditorElement | null = null;
+  private lastSnapshot: EditorSnapshot | null = null;
+
+  /** Remember the last notes editor the user worked in; our panel steals focus */
+  private handleFocusIn = (event: FocusEvent): void => {
+    const target = event.target as Element | null;
+    if (isNotesEditor(target)) {
+      this.lastFocusedEditor = target;
+    }
+  };
+
+  async initialize(): Promise<void> {
+    document.addEventListener("focusin", this.handleFocusIn, true);
+  }
+
+  cleanup(): void {
+    document.removeEventListener("focusin", this.handleFocusIn, true);
+    this.lastFocusedEditor = null;
+    this.lastSnapshot = null;
+    this.pageDataCache.clear();
+  }
+
+  // ============================================
+  // Detection
+  // ============================================
+
+  isActive(): boolean {
+    return (
+      window.location.hostname.endsWith(".idexxneo.com") ||
+      window.location.hostname === "localhost"
+    );
+  }
+
+  isOnConsultationPage(): boolean {
+    return this.getCurrentConsultationId() !== null;
+  }
+
+  isOnSchedulePage(): boolean {
+    return (
+      window.location.pathname.includes("/appointments") ||
+      document.querySelector(IDEXX_SELECTORS.page.schedule) !== null
+    );
+  }
+
+  getCurrentConsultationId(): string | null {
+    return getConsultationId();
+  }
+
+  // ============================================
+  // Data Fetching
+  // ============================================
+
+  async getConsultation(id: string): Promise<PimsConsultation | null> {
+    const data = await this.fetchPageData(id);
+    if (!data) return null;
+
+    return {
+      id,
+      patientId: String(data.patient.id),
+      clientId: String(data.client.id),
+      date: data.consultation.date,
+      reason: data.consultation.reason,
+      notes: data.consultation.notes,
+      dischargeSummary: data.consultation.dischargeSummary,
+      status:
+        STATUS_MAP[data.consultation.status?.toLowerCase() ?? ""] ??
+        "in_progress",
+      providers: [],
+    };
+  }
+
+  /**
+   * Patients are only available through a consultation already loaded in
+   * this tab
+   */
+  async getPatient(id: string): Promise<PimsPatient | null> {
+    for (const data of this.pageDataCache.values()) {
+      if (String(data.patient.id) === id) {
+        return {
+          id,
+          name: data.patient.name,
+          species: data.patient.species ?? "",
+          breed: data.patient.breed ?? "",
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Clients are only available through a consultation already loaded in
+   * this tab
+   */
+  async getClient(id: string): Promise<PimsClient | null> {
+    for (const data of this.pageDataCache.values()) {
+      if (String(data.client.id) === id) {
+        return this.mapClient(data);
+      }
+    }
+    return null;
+  }
+
+  async getClientByConsultation(
+    consultationId: string,
+  ): Promise<PimsClient | null> {
+    const data = await this.fetchPageData(consultationId);
+    return data ? this.mapClient(data) : null;
+  }
+
+  /**
+   * Appointments are synced server-side (`@odis-ai/integrations/idexx`);
+   * the browser provider doesn't list them
+   */
+  async getAppointments(): Promise<PimsAppointment[]> {
+    return [];
+  }
+
+  // ============================================
+  // UI Integration
+  // ============================================
+
+  getMenuBarContainer(): HTMLElement | null {
+    return document.querySelector<HTMLElement>(IDEXX_SELECTORS.actions.toolbar);
+  }
+
+  isMenuBarInjected(): boolean {
+    return (
+      this.getMenuBarContainer()?.querySelector("[data-odis-extension]") != null
+    );
+  }
+
+  // ============================================
+  // Actions
+  // ============================================
+
+  /**
+   * Append content to the consultation notes editor, separated from
+   * existing notes by a blank line
+   *
+   * Returns false when the page has no notes editor.
+   */
+  async insertNote(content: string): Promise<boolean> {
+    const editor = this.findEditor();
+    if (!editor) return false;
+
+    const existing = isTextArea(editor)
+      ? editor.value
+      : (editor.textContent ?? "");
+    const separator = existing.trim() ? "\n\n" : "";
+
+    this.lastSnapshot = { editor, value: readEditor(editor) };
+    insertText(editor, separator + content, "append");
+    return true;
+  }
+
+  async applyTemplate(template: string): Promise<boolean> {
+    const editor = this.findEditor();
+    if (!editor) return false;
+
+    this.lastSnapshot = { editor, value: readEditor(editor) };
+    insertText(editor, template, "replace");
+    return true;
+  }
+
+  async undoLastInsert(): Promise<boolean> {
+    const snapshot = this.lastSnapshot;
+    this.lastSnapshot = null;
+
+    if (!snapshot?.editor.isConnected) return false;
+
+    writeEditor(snapshot.editor, snapshot.value);
+    return true;
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * The notes editor the user last worked in, else the first one on the page
+   */
+  private findEditor(): EditorElement | null {
+    if (this.lastFocusedEditor?.isConnected) {
+      return this.lastFocusedEditor;
+    }
+
+    for (const element of document.querySelectorAll(
+      IDEXX_SELECTORS.editor.notes,
+    )) {
+      if (isNotesEditor(element)) return element;
+    }
+    return null;
+  }
+
+  private async fetchPageData(
+    consultationId: string,
+  ): Promise<IdexxConsultationPageData | null> {
+    const cached = this.pageDataCache.get(consultationId);
+    if (cached) return cached;
+
+    try {
+      const response = await fetch(
+        `${window.location.origin}/consultations/${consultationId}/page-data`,
+        {
+          credentials: "include",
+          headers: {
+            Accept: "application/json",
+            "X-Requested-With": "XMLHttpRequest",
+          },
+        },
+      );
+      if (!response.ok) return null;
+
+      const data =
+        (await response.json()) as Partial<IdexxConsultationPageData> | null;
+      if (!data?.consultation || !data.patient || !data.client) return null;
+
+      this.pageDataCache.set(consultationId, data as IdexxConsultationPageData);
+      return data as IdexxConsultationPageData;
+    } catch (error) {
+      console.error("[ODIS Extension] Failed to fetch consultation:", error);
+      return null;
+    }
+  }
+
+  private mapClient(data: IdexxConsultationPageData): PimsClient {
+    const { client } = data;
+    return {
+      id: String(client.id),
+      firstName: client.firstName,
+      lastName: client.lastName,
+      fullName: `${client.firstName} ${client.lastName}`.trim(),
+      email: client.email,
+      phones: client.phone
+        ? [{ type: "other", number: client.phone, isPrimary: true }]
+        : [],
+    };
+  }
+}
+
+export const idexxNeoProvider = new IdexxNeoPimsProvider();
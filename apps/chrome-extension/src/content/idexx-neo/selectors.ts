@@ -54,6 +54,17 @@ export const IDEXX_SELECTORS = {
     dischargeSummary: '[data-testid="discharge-summary"], .discharge-summary',
     /** Main content area */
     mainContent: '#main-content, [role="main"], main',
+    /** Appointment calendar / schedule view */
+    schedule: '[data-testid="appointment-calendar"], .appointment-calendar',
+  },
+
+  /**
+   * Note editor selectors (for writing notes back into the chart)
+   */
+  editor: {
+    /** Consultation notes / clinical record editor */
+    notes:
+      '[data-testid="consultation-notes"] [contenteditable="true"], .consultation-notes [contenteditable="true"], .cke_editable, textarea#notes',
   },
 
   /**
@@ -84,3 +95,17 @@ export function getTextFromSelector(selector: string): string | null {
   const element = document.querySelector(selector);
   return element?.textContent?.trim() ?? null;
 }
+
+/**
+ * Get the IDEXX Neo consultation ID from a consultation page URL
+ *
+ * @example
+ * getConsultationId("https://us.idexxneo.com/consultations/12345/details")
+ * // Returns: "12345"
+ */
+export function getConsultationId(
+  url: string = window.location.href
+): string | null {
+  const match = /\/consultations\/(\d+)/.exec(url);
+  return match?.[1] ?? null;
+}
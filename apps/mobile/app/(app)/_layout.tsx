@@ -1,7 +1,14 @@
 import { Tabs } from "expo-router";
 import { Home, Briefcase, Settings, User } from "lucide-react-native";
+import {
+  usePushNotificationRouting,
+  usePushRegistration,
+} from "@/hooks/use-push-notifications";
 
 export default function AppLayout() {
+  usePushRegistration();
+  usePushNotificationRouting();
+
   return (
     <Tabs
       screenOptions={{
@@ -1,37 +1,88 @@
-import { View, Text, ScrollView, TouchableOpacity } from "react-native";
+import { useMemo } from "react";
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from "react-native";
 import { useLocalSearchParams, Stack, useRouter } from "expo-router";
-import { ArrowLeft, Phone, MessageSquare } from "lucide-react-native";
+import { ArrowLeft, Phone, MessageSquare, FileAudio } from "lucide-react-native";
 import { Card, Button } from "@odis-ai/mobile/ui";
-
-// Mock data - will be replaced with API call
-const MOCK_CASE_DETAILS = {
-  id: "1",
-  patientName: "Max",
-  patientSpecies: "Dog",
-  patientBreed: "Golden Retriever",
-  ownerName: "John Smith",
-  ownerPhone: "+1 (555) 123-4567",
-  visitType: "Wellness Check",
-  status: "pending",
-  scheduledAt: "Today at 2:00 PM",
-  veterinarian: "Dr. Sarah Wilson",
-  notes: "Annual wellness exam. Owner mentioned Max has been scratching more than usual.",
-  dischargeInstructions:
-    "Continue regular diet. Apply flea prevention medication monthly. Schedule dental cleaning in 3 months.",
-};
+import { OfflineBanner } from "@/components/api";
+import { CaseStatusBadge } from "@/components/cases";
+import { toCaseDetailView } from "@/lib/cases";
+import { api } from "@/lib/trpc";
 
 export default function CaseDetail() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
+  const utils = api.useUtils();
+
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+  } = api.cases.getCaseDetail.useQuery({ id }, { enabled: !!id });
+  const caseData = useMemo(() => (data ? toCaseDetailView(data) : null), [data]);
 
-  // TODO: Fetch case by id from API
-  const caseData = MOCK_CASE_DETAILS;
+  const triggerDischarge = api.cases.triggerDischarge.useMutation({
+    onSuccess: (result) => {
+      Alert.alert(
+        "Discharge call scheduled",
+        result.warnings.length > 0 ? result.warnings.join("\n") : undefined,
+      );
+    },
+    onError: (error) => {
+      Alert.alert("Couldn't start call", error.message);
+    },
+    onSettled: () => {
+      void utils.cases.invalidate();
+    },
+  });
 
   const handleInitiateCall = () => {
-    // TODO: Trigger discharge call via API
-    console.log("Initiating call for case:", id);
+    if (!caseData?.patientId) return;
+
+    if (!caseData.ownerPhone) {
+      Alert.alert("Phone number required", "Add the owner's phone number on the web dashboard first.");
+      return;
+    }
+
+    // While offline the mutation is paused and queued; it is sent when the
+    // device reconnects, even after an app restart
+    triggerDischarge.mutate({
+      caseId: caseData.id,
+      patientId: caseData.patientId,
+      patientData: {
+        ownerName: caseData.ownerName,
+        ownerPhone: caseData.ownerPhone,
+      },
+      dischargeType: "call",
+    });
   };
 
+  if (!caseData) {
+    return (
+      <View className="flex-1 items-center justify-center bg-background p-4">
+        <Stack.Screen options={{ headerShown: true, headerTitle: "Case" }} />
+        {isLoading ? (
+          <ActivityIndicator color="#0d3d38" />
+        ) : (
+          <>
+            <Text className="mb-4 text-muted-foreground">
+              {isError ? "Couldn't load this case." : "Case not found."}
+            </Text>
+            <Button variant="outline" onPress={() => void refetch()}>
+              <Text className="font-semibold text-primary">Try Again</Text>
+            </Button>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  const callDisabled = triggerDischarge.isPending || caseData.status === "in_progress";
+  const reviewableCall =
+    caseData.latestCall?.status === "completed" || caseData.latestCall?.status === "failed"
+      ? caseData.latestCall
+      : null;
+
   return (
     <>
       <Stack.Screen
@@ -46,6 +97,8 @@ export default function CaseDetail() {
         }}
       />
       <ScrollView className="flex-1 bg-background" contentContainerStyle={{ padding: 16 }}>
+        <OfflineBanner />
+
         {/* Patient Info */}
         <Card className="mb-4">
           <Text className="mb-2 text-lg font-semibold text-foreground">
@@ -58,11 +111,11 @@ export default function CaseDetail() {
             </View>
             <View className="flex-row justify-between">
               <Text className="text-muted-foreground">Species</Text>
-              <Text className="font-medium text-foreground">{caseData.patientSpecies}</Text>
+              <Text className="font-medium text-foreground">{caseData.patientSpecies ?? "–"}</Text>
             </View>
             <View className="flex-row justify-between">
               <Text className="text-muted-foreground">Breed</Text>
-              <Text className="font-medium text-foreground">{caseData.patientBreed}</Text>
+              <Text className="font-medium text-foreground">{caseData.patientBreed ?? "–"}</Text>
             </View>
           </View>
         </Card>
@@ -79,7 +132,7 @@ export default function CaseDetail() {
             </View>
             <View className="flex-row justify-between">
               <Text className="text-muted-foreground">Phone</Text>
-              <Text className="font-medium text-primary">{caseData.ownerPhone}</Text>
+              <Text className="font-medium text-primary">{caseData.ownerPhone ?? "–"}</Text>
             </View>
           </View>
         </Card>
@@ -96,38 +149,56 @@ export default function CaseDetail() {
             </View>
             <View className="flex-row justify-between">
               <Text className="text-muted-foreground">Scheduled</Text>
-              <Text className="font-medium text-foreground">{caseData.scheduledAt}</Text>
+              <Text className="font-medium text-foreground">{caseData.scheduledAt || "–"}</Text>
             </View>
-            <View className="flex-row justify-between">
-              <Text className="text-muted-foreground">Veterinarian</Text>
-              <Text className="font-medium text-foreground">{caseData.veterinarian}</Text>
+            <View className="flex-row items-center justify-between">
+              <Text className="text-muted-foreground">Discharge Call</Text>
+              <CaseStatusBadge status={caseData.status} />
             </View>
           </View>
         </Card>
 
         {/* Notes */}
-        <Card className="mb-4">
-          <Text className="mb-2 text-lg font-semibold text-foreground">Notes</Text>
-          <Text className="text-foreground">{caseData.notes}</Text>
-        </Card>
+        {caseData.notes && (
+          <Card className="mb-4">
+            <Text className="mb-2 text-lg font-semibold text-foreground">Notes</Text>
+            <Text className="text-foreground">{caseData.notes}</Text>
+          </Card>
+        )}
 
         {/* Discharge Instructions */}
         <Card className="mb-6">
           <Text className="mb-2 text-lg font-semibold text-foreground">
             Discharge Instructions
           </Text>
-          <Text className="text-foreground">{caseData.dischargeInstructions}</Text>
+          <Text className="text-foreground">
+            {caseData.dischargeInstructions ?? "Generated when the discharge call is scheduled."}
+          </Text>
         </Card>
 
         {/* Action Buttons */}
         <View className="gap-3">
-          <Button onPress={handleInitiateCall}>
+          <Button onPress={handleInitiateCall} disabled={callDisabled}>
             <Phone color="#ffffff" size={18} />
             <Text className="ml-2 font-semibold text-primary-foreground">
-              Initiate Discharge Call
+              {triggerDischarge.isPaused
+                ? "Call Queued (Offline)"
+                : triggerDischarge.isPending
+                  ? "Scheduling Call…"
+                  : "Initiate Discharge Call"}
             </Text>
           </Button>
 
+          {reviewableCall && (
+            <Button
+              variant="outline"
+              onPress={() => router.push(`/(app)/cases/calls/${reviewableCall.id}`)}
+            >
+              <FileAudio color="#0d3d38" size={18} />
+              <Text className="ml-2 font-semibold text-primary">Review Call</Text>
+            </Button>
+          )}
+
           <Button variant="outline">
             <MessageSquare color="#0d3d38" size={18} />
             <Text className="ml-2 font-semibold text-primary">
@@ -26,6 +26,12 @@ export default function CasesLayout() {
           title: "Case Details",
         }}
       />
+      <Stack.Screen
+        name="calls/[callId]"
+        options={{
+          title: "Call Review",
+        }}
+      />
     </Stack>
   );
 }
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useLocalSearchParams, Stack, useRouter } from "expo-router";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  CalendarPlus,
+  AlertTriangle,
+} from "lucide-react-native";
+import { format } from "date-fns";
+import { Card, Button } from "@odis-ai/mobile/ui";
+import { OfflineBanner } from "@/components/api";
+import {
+  CallInsights,
+  CallPlaybackControls,
+  FollowUpForm,
+  PlainTranscript,
+  SyncedTranscript,
+} from "@/components/call-review";
+import { useCallPlayback } from "@/hooks/use-call-playback";
+import { api } from "@/lib/trpc";
+
+export default function CallReview() {
+  const { callId } = useLocalSearchParams<{ callId: string }>();
+  const router = useRouter();
+  const utils = api.useUtils();
+  const [showFollowUp, setShowFollowUp] = useState(false);
+
+  const {
+    data: call,
+    isLoading,
+    isError,
+    refetch,
+  } = api.outbound.getCallReview.useQuery({ callId }, { enabled: !!callId });
+  const player = useCallPlayback(
+    call?.recordingUrl ?? null,
+    call?.durationSeconds,
+  );
+
+  const markReviewed = api.outbound.markCallReviewed.useMutation({
+    onError: (error) => {
+      Alert.alert("Couldn't update review", error.message);
+    },
+    onSettled: () => {
+      void utils.outbound.getCallReview.invalidate({ callId });
+    },
+  });
+
+  const scheduleFollowUp = api.outbound.scheduleFollowUp.useMutation({
+    onSuccess: (result) => {
+      setShowFollowUp(false);
+      Alert.alert(
+        "Follow-up scheduled",
+        result.scheduledFor
+          ? `Calling ${format(new Date(result.scheduledFor), "EEE, MMM d 'at' h:mm a")}`
+          : undefined,
+      );
+    },
+    onError: (error) => {
+      Alert.alert("Couldn't schedule follow-up", error.message);
+    },
+    onSettled: () => {
+      void utils.cases.invalidate();
+    },
+  });
+
+  if (!call) {
+    return (
+      <View className="bg-background flex-1 items-center justify-center p-4">
+        <Stack.Screen
+          options={{ headerShown: true, headerTitle: "Call Review" }}
+        />
+        {isLoading ? (
+          <ActivityIndicator color="#0d3d38" />
+        ) : (
+          <>
+            <Text className="text-muted-foreground mb-4">
+              {isError ? "Couldn't load this call." : "Call not found."}
+            </Text>
+            <Button variant="outline" onPress={() => void refetch()}>
+              <Text className="text-primary font-semibold">Try Again</Text>
+            </Button>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  const isReviewed = !!call.reviewedAt;
+  const hasTimedTranscript = call.transcriptMessages.length > 0;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: call.patient.name,
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} className="mr-4">
+              <ArrowLeft color="#171717" size={24} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      <ScrollView
+        className="bg-background flex-1"
+        contentContainerStyle={{ padding: 16 }}
+      >
+        <OfflineBanner />
+
+        {/* Call summary */}
+        <Card className="mb-4">
+          <Text className="text-foreground text-lg font-semibold">
+            {call.callType === "follow-up"
+              ? "Follow-up Call"
+              : "Discharge Call"}
+          </Text>
+          <Text className="text-muted-foreground mb-2">
+            {[
+              call.patient.ownerName,
+              call.endedAt && format(new Date(call.endedAt), "MMM d, h:mm a"),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </Text>
+          {call.summary && (
+            <Text className="text-foreground">{call.summary}</Text>
+          )}
+        </Card>
+
+        {/* Attention */}
+        {call.attentionSeverity && call.attentionTypes.length > 0 && (
+          <Card className="border-destructive/30 mb-4 border">
+            <View className="mb-1 flex-row items-center gap-2">
+              <AlertTriangle color="#dc2626" size={18} />
+              <Text className="text-destructive font-semibold">
+                Needs attention ({call.attentionSeverity})
+              </Text>
+            </View>
+            <Text className="text-foreground">
+              {call.attentionSummary ??
+                call.attentionTypes.map((t) => t.replace(/_/g, " ")).join(", ")}
+            </Text>
+          </Card>
+        )}
+
+        {/* Recording */}
+        <Card className="mb-4">
+          <Text className="text-foreground mb-3 text-lg font-semibold">
+            Recording
+          </Text>
+          {call.recordingUrl ? (
+            <CallPlaybackControls player={player} />
+          ) : (
+            <Text className="text-muted-foreground">
+              No recording for this call.
+            </Text>
+          )}
+        </Card>
+
+        {/* Transcript */}
+        <Card className="mb-4">
+          <Text className="text-foreground mb-3 text-lg font-semibold">
+            Transcript
+          </Text>
+          {hasTimedTranscript ? (
+            <SyncedTranscript
+              messages={call.transcriptMessages}
+              currentTime={player.currentTime}
+              onSeek={(time) => {
+                player.seek(time);
+                if (!player.isPlaying) player.togglePlay();
+              }}
+            />
+          ) : (
+            <PlainTranscript transcript={call.plainTranscript ?? ""} />
+          )}
+        </Card>
+
+        <CallInsights
+          callOutcomeData={call.callOutcomeData}
+          medicationComplianceData={call.medicationComplianceData}
+          petHealthData={call.petHealthData}
+        />
+
+        {/* Follow-up */}
+        {showFollowUp && call.caseId && (
+          <Card className="mb-4">
+            <Text className="text-foreground mb-3 text-lg font-semibold">
+              Schedule Follow-up
+            </Text>
+            <FollowUpForm
+              caseId={call.caseId}
+              isSubmitting={scheduleFollowUp.isPending}
+              onSubmit={(input) => scheduleFollowUp.mutate(input)}
+              onCancel={() => setShowFollowUp(false)}
+            />
+          </Card>
+        )}
+
+        {/* Actions */}
+        <View className="mt-2 gap-3">
+          <Button
+            variant={isReviewed ? "outline" : "default"}
+            disabled={markReviewed.isPending}
+            onPress={() =>
+              markReviewed.mutate({ callId: call.id, reviewed: !isReviewed })
+            }
+          >
+            <CheckCircle2
+              color={isReviewed ? "#0d3d38" : "#ffffff"}
+              size={18}
+            />
+            <Text
+              className={`ml-2 font-semibold ${isReviewed ? "text-primary" : "text-primary-foreground"}`}
+            >
+              {isReviewed
+                ? `Reviewed ${format(new Date(call.reviewedAt!), "MMM d")} · Undo`
+                : "Mark Reviewed"}
+            </Text>
+          </Button>
+
+          {call.caseId && !showFollowUp && (
+            <Button variant="outline" onPress={() => setShowFollowUp(true)}>
+              <CalendarPlus color="#0d3d38" size={18} />
+              <Text className="text-primary ml-2 font-semibold">
+                Schedule Follow-up
+              </Text>
+            </Button>
+          )}
+        </View>
+      </ScrollView>
+    </>
+  );
+}
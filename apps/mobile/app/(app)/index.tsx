@@ -1,17 +1,32 @@
-import { View, Text, ScrollView, RefreshControl } from "react-native";
+import { View, Text, ScrollView, RefreshControl, TouchableOpacity } from "react-native";
 import { useUser } from "@clerk/clerk-expo";
-import { useState, useCallback } from "react";
+import { Link } from "expo-router";
 import { Card } from "@odis-ai/mobile/ui";
+import { OfflineBanner } from "@/components/api";
+import { CaseStatusBadge } from "@/components/cases";
+import { useTodayCases } from "@/hooks/use-today-cases";
+import { api } from "@/lib/trpc";
+
+const RECENT_CASES_LIMIT = 5;
+
+function formatStat(value: number | undefined, suffix = "") {
+  return value === undefined ? "–" : `${value}${suffix}`;
+}
 
 export default function Dashboard() {
   const { user } = useUser();
-  const [refreshing, setRefreshing] = useState(false);
+  const stats = api.dashboard.getTodayStats.useQuery();
+  const todayCases = useTodayCases();
+
+  const pendingCount = todayCases.data
+    ? todayCases.cases.filter((c) => c.status === "pending").length
+    : undefined;
 
-  const onRefresh = useCallback(() => {
-    setRefreshing(true);
-    // TODO: Fetch dashboard data
-    setTimeout(() => setRefreshing(false), 1000);
-  }, []);
+  const refreshing = stats.isRefetching || todayCases.isRefetching;
+  const onRefresh = () => {
+    void stats.refetch();
+    void todayCases.refetch();
+  };
 
   return (
     <ScrollView
@@ -21,10 +36,12 @@ export default function Dashboard() {
         <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
       }
     >
+      <OfflineBanner />
+
       {/* Welcome */}
       <View className="mb-6">
         <Text className="text-2xl font-bold text-foreground">
-          Welcome back, {user?.firstName || "there"}!
+          Welcome back, {user?.firstName ?? "there"}!
         </Text>
         <Text className="mt-1 text-muted-foreground">
           Here's what's happening today
@@ -35,54 +52,65 @@ export default function Dashboard() {
       <View className="mb-6 flex-row flex-wrap gap-4">
         <Card className="flex-1 min-w-[140px]">
           <Text className="text-sm text-muted-foreground">Pending Calls</Text>
-          <Text className="mt-1 text-2xl font-bold text-foreground">12</Text>
+          <Text className="mt-1 text-2xl font-bold text-foreground">
+            {formatStat(pendingCount)}
+          </Text>
         </Card>
         <Card className="flex-1 min-w-[140px]">
           <Text className="text-sm text-muted-foreground">Completed Today</Text>
-          <Text className="mt-1 text-2xl font-bold text-primary">24</Text>
+          <Text className="mt-1 text-2xl font-bold text-primary">
+            {formatStat(stats.data?.outbound.today.completed)}
+          </Text>
         </Card>
       </View>
 
       <View className="mb-6 flex-row flex-wrap gap-4">
         <Card className="flex-1 min-w-[140px]">
           <Text className="text-sm text-muted-foreground">Success Rate</Text>
-          <Text className="mt-1 text-2xl font-bold text-foreground">94%</Text>
+          <Text className="mt-1 text-2xl font-bold text-foreground">
+            {formatStat(stats.data?.outbound.today.successRate, "%")}
+          </Text>
         </Card>
         <Card className="flex-1 min-w-[140px]">
-          <Text className="text-sm text-muted-foreground">Avg Duration</Text>
-          <Text className="mt-1 text-2xl font-bold text-foreground">2:45</Text>
+          <Text className="text-sm text-muted-foreground">Inbound Calls</Text>
+          <Text className="mt-1 text-2xl font-bold text-foreground">
+            {formatStat(stats.data?.inbound.today.total)}
+          </Text>
         </Card>
       </View>
 
-      {/* Recent Activity */}
+      {/* Today's Cases */}
       <View className="mb-4">
         <Text className="mb-3 text-lg font-semibold text-foreground">
-          Recent Activity
+          Today's Cases
         </Text>
-        <Card>
-          <View className="flex-row items-center justify-between">
-            <View>
-              <Text className="font-medium text-foreground">Max - Wellness Check</Text>
-              <Text className="text-sm text-muted-foreground">Completed 10 min ago</Text>
-            </View>
-            <View className="rounded-full bg-green-100 px-2 py-1">
-              <Text className="text-xs font-medium text-green-700">Success</Text>
-            </View>
-          </View>
-        </Card>
+        {todayCases.cases.length === 0 && (
+          <Card>
+            <Text className="text-muted-foreground">
+              {todayCases.isLoading ? "Loading cases…" : "No cases today"}
+            </Text>
+          </Card>
+        )}
+        {todayCases.cases.slice(0, RECENT_CASES_LIMIT).map((item) => (
+          <Link key={item.id} href={`/(app)/cases/${item.id}` as const} asChild>
+            <TouchableOpacity activeOpacity={0.7}>
+              <Card className="mb-3">
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-1">
+                    <Text className="font-medium text-foreground">
+                      {item.patientName} - {item.visitType}
+                    </Text>
+                    <Text className="text-sm text-muted-foreground">
+                      {item.ownerName} • {item.scheduledAt}
+                    </Text>
+                  </View>
+                  <CaseStatusBadge status={item.status} />
+                </View>
+              </Card>
+            </TouchableOpacity>
+          </Link>
+        ))}
       </View>
-
-      <Card>
-        <View className="flex-row items-center justify-between">
-          <View>
-            <Text className="font-medium text-foreground">Luna - Post-Surgery</Text>
-            <Text className="text-sm text-muted-foreground">Scheduled for 2:00 PM</Text>
-          </View>
-          <View className="rounded-full bg-blue-100 px-2 py-1">
-            <Text className="text-xs font-medium text-blue-700">Pending</Text>
-          </View>
-        </View>
-      </Card>
     </ScrollView>
   );
 }
@@ -3,11 +3,24 @@ import { Stack, useRouter } from "expo-router";
 import { useUser, useClerk } from "@clerk/clerk-expo";
 import { LogOut, User, Mail, Building2, ChevronRight } from "lucide-react-native";
 import { Card, Button } from "@odis-ai/mobile/ui";
+import { api } from "@/lib/trpc";
+import { getExistingPushToken } from "@/lib/push-notifications";
 
 export default function Profile() {
   const { user } = useUser();
   const { signOut } = useClerk();
   const router = useRouter();
+  const unregisterDevice = api.settings.pushNotifications.unregisterDevice.useMutation();
+
+  const signOutDevice = async () => {
+    // Stop this device receiving the clinic's pushes once signed out
+    const token = await getExistingPushToken().catch(() => null);
+    if (token) {
+      await unregisterDevice.mutateAsync({ token }).catch(() => undefined);
+    }
+    await signOut();
+    router.replace("/(auth)/sign-in");
+  };
 
   const handleSignOut = () => {
     Alert.alert("Sign Out", "Are you sure you want to sign out?", [
@@ -15,10 +28,7 @@ export default function Profile() {
       {
         text: "Sign Out",
         style: "destructive",
-        onPress: async () => {
-          await signOut();
-          router.replace("/(auth)/sign-in");
-        },
+        onPress: () => void signOutDevice(),
       },
     ]);
   };
@@ -42,7 +52,7 @@ export default function Profile() {
             </Text>
           </View>
           <Text className="text-xl font-bold text-foreground">
-            {user?.fullName || "User"}
+            {user?.fullName ?? "User"}
           </Text>
           <Text className="mt-1 text-muted-foreground">
             {user?.primaryEmailAddress?.emailAddress}
@@ -59,7 +69,7 @@ export default function Profile() {
             <View className="flex-1">
               <Text className="text-sm text-muted-foreground">Full Name</Text>
               <Text className="font-medium text-foreground">
-                {user?.fullName || "Not set"}
+                {user?.fullName ?? "Not set"}
               </Text>
             </View>
           </View>
@@ -68,7 +78,7 @@ export default function Profile() {
             <View className="flex-1">
               <Text className="text-sm text-muted-foreground">Email</Text>
               <Text className="font-medium text-foreground">
-                {user?.primaryEmailAddress?.emailAddress || "Not set"}
+                {user?.primaryEmailAddress?.emailAddress ?? "Not set"}
               </Text>
             </View>
           </View>
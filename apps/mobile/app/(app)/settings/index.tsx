@@ -1,14 +1,31 @@
 import { View, Text, ScrollView, TouchableOpacity, Switch } from "react-native";
 import { useState } from "react";
 import { Stack } from "expo-router";
-import { Bell, Moon, Volume2, ChevronRight } from "lucide-react-native";
+import { Bell, Moon, Volume2, ChevronRight, Clock } from "lucide-react-native";
 import { Card } from "@odis-ai/mobile/ui";
+import { api, type RouterOutputs } from "@/lib/trpc";
+
+type PushSubscriptionPreferences =
+  RouterOutputs["settings"]["pushNotifications"]["getPushNotificationSettings"]["subscription"];
 
 export default function Settings() {
-  const [pushNotifications, setPushNotifications] = useState(true);
+  const utils = api.useUtils();
+  const pushSettings = api.settings.pushNotifications.getPushNotificationSettings.useQuery();
+  const updatePushSubscription =
+    api.settings.pushNotifications.updatePushSubscription.useMutation({
+      onSuccess: () => utils.settings.pushNotifications.getPushNotificationSettings.invalidate(),
+    });
   const [soundEffects, setSoundEffects] = useState(true);
   const [darkMode, setDarkMode] = useState(false);
 
+  const subscription = pushSettings.data?.subscription;
+  const onCallShiftCount = pushSettings.data?.shifts.length ?? 0;
+
+  const updateSubscription = (changes: Partial<PushSubscriptionPreferences>) => {
+    if (!subscription) return;
+    updatePushSubscription.mutate({ subscription: { ...subscription, ...changes } });
+  };
+
   return (
     <>
       <Stack.Screen
@@ -24,14 +41,37 @@ export default function Settings() {
           Notifications
         </Text>
         <Card className="mb-6">
-          <View className="flex-row items-center justify-between py-1">
+          <View className="flex-row items-center justify-between border-b border-border py-3">
             <View className="flex-row items-center gap-3">
               <Bell color="#6b7280" size={20} />
               <Text className="text-foreground">Push Notifications</Text>
             </View>
             <Switch
-              value={pushNotifications}
-              onValueChange={setPushNotifications}
+              value={subscription?.isEnabled ?? false}
+              onValueChange={(isEnabled) => updateSubscription({ isEnabled })}
+              disabled={!subscription || updatePushSubscription.isPending}
+              trackColor={{ false: "#d1d5db", true: "#0d3d38" }}
+              thumbColor="#ffffff"
+            />
+          </View>
+          <View className="flex-row items-center justify-between py-3">
+            <View className="flex-1 flex-row items-center gap-3 pr-3">
+              <Clock color="#6b7280" size={20} />
+              <View className="flex-1">
+                <Text className="text-foreground">Only When On Call</Text>
+                <Text className="text-xs text-muted-foreground">
+                  {onCallShiftCount > 0
+                    ? `${onCallShiftCount} on-call shift${onCallShiftCount === 1 ? "" : "s"} per week`
+                    : "No on-call shifts set"}
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={subscription?.onlyWhenOnCall ?? false}
+              onValueChange={(onlyWhenOnCall) => updateSubscription({ onlyWhenOnCall })}
+              disabled={
+                !subscription?.isEnabled || updatePushSubscription.isPending
+              }
               trackColor={{ false: "#d1d5db", true: "#0d3d38" }}
               thumbColor="#ffffff"
             />
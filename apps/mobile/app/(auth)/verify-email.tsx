@@ -5,8 +5,8 @@ import {
   TextInput,
   TouchableOpacity,
   ActivityIndicator,
-  NativeSyntheticEvent,
-  TextInputKeyPressEventData,
+  type NativeSyntheticEvent,
+  type TextInputKeyPressEventData,
 } from "react-native";
 import { useSignUp } from "@clerk/clerk-expo";
 import { useRouter } from "expo-router";
@@ -39,7 +39,7 @@ export default function VerifyEmail() {
 
     // Auto-submit when complete
     if (newCode.every((d) => d) && newCode.join("").length === CODE_LENGTH) {
-      handleVerify(newCode.join(""));
+      void handleVerify(newCode.join(""));
     }
   };
 
@@ -55,7 +55,7 @@ export default function VerifyEmail() {
   const handleVerify = async (verificationCode?: string) => {
     if (!isLoaded) return;
 
-    const codeToVerify = verificationCode || code.join("");
+    const codeToVerify = verificationCode ?? code.join("");
     if (codeToVerify.length !== CODE_LENGTH) return;
 
     setLoading(true);
@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import { Slot, useRouter, useSegments } from "expo-router";
 import { ClerkProvider, ClerkLoaded, useAuth } from "@clerk/clerk-expo";
 import { tokenCache } from "@/lib/clerk";
+import { ApiProvider } from "@/components/api";
 import { StatusBar } from "expo-status-bar";
 import "../src/styles/global.css";
 
@@ -38,8 +39,10 @@ export default function RootLayout() {
   return (
     <ClerkProvider tokenCache={tokenCache} publishableKey={CLERK_PUBLISHABLE_KEY}>
       <ClerkLoaded>
-        <StatusBar style="dark" />
-        <AuthGate />
+        <ApiProvider>
+          <StatusBar style="dark" />
+          <AuthGate />
+        </ApiProvider>
       </ClerkLoaded>
     </ClerkProvider>
   );
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { useAuth } from "@clerk/clerk-expo";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
+import { api, createVanillaClient, getTRPCClientLinks } from "@/lib/trpc";
+import {
+  CACHE_MAX_AGE_MS,
+  createQueryClient,
+  queryPersister,
+  setOfflineMutationDefaults,
+} from "@/lib/query-client";
+
+/**
+ * tRPC + React Query provider with a persisted cache
+ *
+ * Cached queries are restored from AsyncStorage on launch so case lists
+ * open without a connection. Mutations queued while offline are restored
+ * too and replayed once the device is back online.
+ */
+export function ApiProvider({ children }: { children: React.ReactNode }) {
+  const { userId } = useAuth();
+
+  // Remount on sign-in/sign-out so the in-memory cache starts empty
+  return (
+    <UserApiProvider key={userId ?? "signed-out"} userId={userId ?? null}>
+      {children}
+    </UserApiProvider>
+  );
+}
+
+function UserApiProvider({
+  userId,
+  children,
+}: {
+  userId: string | null;
+  children: React.ReactNode;
+}) {
+  const { getToken } = useAuth();
+
+  const [queryClient] = useState(() => {
+    const client = createQueryClient();
+    setOfflineMutationDefaults(client, createVanillaClient(getToken));
+    return client;
+  });
+  const [trpcClient] = useState(() =>
+    api.createClient({ links: getTRPCClientLinks(getToken) }),
+  );
+
+  return (
+    <api.Provider client={trpcClient} queryClient={queryClient}>
+      <PersistQueryClientProvider
+        client={queryClient}
+        persistOptions={{
+          persister: queryPersister,
+          maxAge: CACHE_MAX_AGE_MS,
+          // Another user signing in on this device must not see the
+          // previous user's cached cases
+          buster: userId ?? "signed-out",
+        }}
+        onSuccess={() => {
+          void queryClient.resumePausedMutations();
+        }}
+      >
+        {children}
+      </PersistQueryClientProvider>
+    </api.Provider>
+  );
+}
@@ -0,0 +1,2 @@
+export { ApiProvider } from "./api-provider";
+export { OfflineBanner } from "./offline-banner";
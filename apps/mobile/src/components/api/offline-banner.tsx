@@ -0,0 +1,37 @@
+import { useSyncExternalStore } from "react";
+import { View, Text } from "react-native";
+import { onlineManager, useMutationState } from "@tanstack/react-query";
+import { CloudOff } from "lucide-react-native";
+
+function useIsOnline() {
+  return useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline(),
+  );
+}
+
+/**
+ * Shown while offline, or while queued actions are waiting to be sent
+ */
+export function OfflineBanner() {
+  const isOnline = useIsOnline();
+  const queued = useMutationState({
+    filters: { status: "pending", predicate: (m) => m.state.isPaused },
+  }).length;
+
+  if (isOnline && queued === 0) return null;
+
+  const actions = `${queued} queued action${queued === 1 ? "" : "s"}`;
+  const message = isOnline
+    ? `Sending ${actions}…`
+    : queued > 0
+      ? `Offline. Showing saved data; ${actions} will send when you're back online.`
+      : "Offline. Showing saved data.";
+
+  return (
+    <View className="mb-4 flex-row items-center gap-2 rounded-lg bg-yellow-100 px-3 py-2">
+      <CloudOff color="#a16207" size={16} />
+      <Text className="flex-1 text-sm text-yellow-700">{message}</Text>
+    </View>
+  );
+}
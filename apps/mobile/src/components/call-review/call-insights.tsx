@@ -0,0 +1,149 @@
+import { View, Text } from "react-native";
+import { Card } from "@odis-ai/mobile/ui";
+
+/**
+ * Structured outputs saved for a call (`call-outcome`,
+ * `medication-compliance`, `pet-health`); every field is optional
+ */
+interface CallOutcomeData {
+  call_outcome?: string;
+  conversation_stage_reached?: string;
+  owner_available?: boolean;
+}
+
+interface MedicationComplianceData {
+  medication_discussed?: boolean;
+  medication_compliance?: string;
+  medication_issues?: string[];
+}
+
+interface PetHealthData {
+  pet_recovery_status?: string;
+  symptoms_reported?: string[];
+  new_concerns_raised?: boolean;
+}
+
+interface CallInsightsProps {
+  callOutcomeData: unknown;
+  medicationComplianceData: unknown;
+  petHealthData: unknown;
+}
+
+function humanize(value: string | undefined): string | null {
+  if (!value) return null;
+  const text = value.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function yesNo(value: boolean | undefined): string | null {
+  if (value === undefined) return null;
+  return value ? "Yes" : "No";
+}
+
+function InsightRow({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <View className="flex-row justify-between gap-4">
+      <Text className="text-muted-foreground">{label}</Text>
+      <Text className="text-foreground flex-1 text-right font-medium">
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+/**
+ * Cards for the call's outcome, medication compliance and pet health
+ */
+export function CallInsights({
+  callOutcomeData,
+  medicationComplianceData,
+  petHealthData,
+}: CallInsightsProps) {
+  const outcome = callOutcomeData as CallOutcomeData | null;
+  const medication =
+    medicationComplianceData as MedicationComplianceData | null;
+  const health = petHealthData as PetHealthData | null;
+
+  if (!outcome && !medication && !health) {
+    return null;
+  }
+
+  return (
+    <>
+      {outcome && (
+        <Card className="mb-4">
+          <Text className="text-foreground mb-2 text-lg font-semibold">
+            Call Outcome
+          </Text>
+          <View className="gap-2">
+            <InsightRow
+              label="Outcome"
+              value={humanize(outcome.call_outcome)}
+            />
+            <InsightRow
+              label="Reached"
+              value={humanize(outcome.conversation_stage_reached)}
+            />
+            <InsightRow
+              label="Owner available"
+              value={yesNo(outcome.owner_available)}
+            />
+          </View>
+        </Card>
+      )}
+
+      {medication && (
+        <Card className="mb-4">
+          <Text className="text-foreground mb-2 text-lg font-semibold">
+            Medication
+          </Text>
+          <View className="gap-2">
+            <InsightRow
+              label="Discussed"
+              value={yesNo(medication.medication_discussed)}
+            />
+            <InsightRow
+              label="Compliance"
+              value={humanize(medication.medication_compliance)}
+            />
+            <InsightRow
+              label="Issues"
+              value={
+                medication.medication_issues?.length
+                  ? medication.medication_issues.join(", ")
+                  : null
+              }
+            />
+          </View>
+        </Card>
+      )}
+
+      {health && (
+        <Card className="mb-4">
+          <Text className="text-foreground mb-2 text-lg font-semibold">
+            Pet Health
+          </Text>
+          <View className="gap-2">
+            <InsightRow
+              label="Recovery"
+              value={humanize(health.pet_recovery_status)}
+            />
+            <InsightRow
+              label="Symptoms"
+              value={
+                health.symptoms_reported?.length
+                  ? health.symptoms_reported.join(", ")
+                  : null
+              }
+            />
+            <InsightRow
+              label="New concerns"
+              value={yesNo(health.new_concerns_raised)}
+            />
+          </View>
+        </Card>
+      )}
+    </>
+  );
+}
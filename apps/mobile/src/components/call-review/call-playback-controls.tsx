@@ -0,0 +1,120 @@
+import { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Play, Pause, RotateCcw, RotateCw } from "lucide-react-native";
+import type { AudioPlayerState } from "@odis-ai/shared/ui/media/call-player/types";
+import {
+  formatTime,
+  generateWaveformBars,
+} from "@odis-ai/shared/ui/media/call-player/utils";
+
+const BAR_COUNT = 48;
+const WAVEFORM_HEIGHT = 48;
+
+interface CallPlaybackControlsProps {
+  player: AudioPlayerState;
+}
+
+/**
+ * Waveform scrubber with play, skip and speed controls
+ *
+ * Tap anywhere on the waveform to seek there.
+ */
+export function CallPlaybackControls({ player }: CallPlaybackControlsProps) {
+  const [width, setWidth] = useState(0);
+  const bars = useMemo(
+    () => generateWaveformBars(player.duration, BAR_COUNT),
+    [player.duration],
+  );
+  const progress =
+    player.duration > 0 ? player.currentTime / player.duration : 0;
+
+  return (
+    <View>
+      <Pressable
+        onLayout={(e) => setWidth(e.nativeEvent.layout.width)}
+        onPress={(e) => {
+          if (width > 0)
+            player.seek((e.nativeEvent.locationX / width) * player.duration);
+        }}
+        className="flex-row items-center justify-between"
+        style={{ height: WAVEFORM_HEIGHT }}
+        accessibilityRole="adjustable"
+        accessibilityLabel="Recording position"
+        accessibilityValue={{
+          min: 0,
+          max: Math.round(player.duration),
+          now: Math.round(player.currentTime),
+        }}
+      >
+        {bars.map((bar, index) => (
+          <View
+            key={index}
+            className={
+              index / BAR_COUNT < progress ? "bg-primary" : "bg-border"
+            }
+            style={{
+              width: 3,
+              borderRadius: 2,
+              height: Math.max(2, bar * WAVEFORM_HEIGHT),
+            }}
+          />
+        ))}
+      </Pressable>
+
+      <View className="mt-1 flex-row justify-between">
+        <Text className="text-muted-foreground text-xs">
+          {formatTime(player.currentTime)}
+        </Text>
+        <Text className="text-muted-foreground text-xs">
+          {formatTime(player.duration)}
+        </Text>
+      </View>
+
+      <View className="mt-3 flex-row items-center justify-center gap-8">
+        <TouchableOpacity
+          onPress={() => player.skip(-10)}
+          accessibilityLabel="Back 10 seconds"
+        >
+          <RotateCcw color="#171717" size={24} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={player.togglePlay}
+          className="bg-primary h-14 w-14 items-center justify-center rounded-full"
+          accessibilityLabel={player.isPlaying ? "Pause" : "Play"}
+        >
+          {player.isLoading && !player.isPlaying ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : player.isPlaying ? (
+            <Pause color="#ffffff" size={24} />
+          ) : (
+            <Play color="#ffffff" size={24} />
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => player.skip(10)}
+          accessibilityLabel="Forward 10 seconds"
+        >
+          <RotateCw color="#171717" size={24} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={player.cyclePlaybackRate}
+          className="border-border w-12 items-center rounded-md border py-1"
+          accessibilityLabel="Playback speed"
+        >
+          <Text className="text-foreground text-sm font-semibold">
+            {player.playbackRate}x
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
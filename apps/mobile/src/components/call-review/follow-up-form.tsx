@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { Button, Input, cn } from "@odis-ai/mobile/ui";
+import type { RouterInputs } from "@/lib/trpc";
+
+type FollowUpInput = RouterInputs["outbound"]["scheduleFollowUp"];
+type FollowUpReason = FollowUpInput["reason"];
+
+const REASONS: { value: FollowUpReason; label: string }[] = [
+  { value: "recheck", label: "Recheck" },
+  { value: "suture_removal", label: "Suture removal" },
+  { value: "lab_results", label: "Lab results" },
+  { value: "medication_complete", label: "Medication done" },
+];
+
+const DAY_OPTIONS = [3, 7, 10, 14];
+
+interface FollowUpFormProps {
+  caseId: string;
+  isSubmitting: boolean;
+  onSubmit: (input: FollowUpInput) => void;
+  onCancel: () => void;
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className={cn(
+        "rounded-full border px-3 py-1.5",
+        selected ? "border-primary bg-primary" : "border-border",
+      )}
+    >
+      <Text
+        className={selected ? "text-primary-foreground" : "text-foreground"}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Pick a reason and delay for a follow-up call on the case
+ */
+export function FollowUpForm({
+  caseId,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: FollowUpFormProps) {
+  const [reason, setReason] = useState<FollowUpReason>("recheck");
+  const [daysAfterVisit, setDaysAfterVisit] = useState(7);
+  const [labResultsSummary, setLabResultsSummary] = useState("");
+
+  const needsLabSummary = reason === "lab_results" && !labResultsSummary.trim();
+
+  return (
+    <View className="gap-3">
+      <Text className="text-muted-foreground text-sm font-semibold">
+        Reason
+      </Text>
+      <View className="flex-row flex-wrap gap-2">
+        {REASONS.map((option) => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={reason === option.value}
+            onPress={() => setReason(option.value)}
+          />
+        ))}
+      </View>
+
+      <Text className="text-muted-foreground text-sm font-semibold">
+        Days after visit
+      </Text>
+      <View className="flex-row flex-wrap gap-2">
+        {DAY_OPTIONS.map((days) => (
+          <Chip
+            key={days}
+            label={`${days} days`}
+            selected={daysAfterVisit === days}
+            onPress={() => setDaysAfterVisit(days)}
+          />
+        ))}
+      </View>
+
+      {reason === "lab_results" && (
+        <Input
+          label="Results to share"
+          placeholder="e.g. Bloodwork normal, kidney values improved"
+          value={labResultsSummary}
+          onChangeText={setLabResultsSummary}
+          multiline
+        />
+      )}
+
+      <View className="flex-row gap-3">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onPress={onCancel}
+          disabled={isSubmitting}
+        >
+          <Text className="text-primary font-semibold">Cancel</Text>
+        </Button>
+        <Button
+          className="flex-1"
+          disabled={isSubmitting || needsLabSummary}
+          onPress={() =>
+            onSubmit({
+              caseId,
+              reason,
+              daysAfterVisit,
+              labResultsSummary:
+                reason === "lab_results" ? labResultsSummary.trim() : undefined,
+            })
+          }
+        >
+          <Text className="text-primary-foreground font-semibold">
+            {isSubmitting ? "Scheduling…" : "Schedule"}
+          </Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,4 @@
+export { CallPlaybackControls } from "./call-playback-controls";
+export { SyncedTranscript, PlainTranscript } from "./synced-transcript";
+export { CallInsights } from "./call-insights";
+export { FollowUpForm } from "./follow-up-form";
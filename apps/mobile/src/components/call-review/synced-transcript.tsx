@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useRef } from "react";
+import { View, Text, ScrollView, TouchableOpacity } from "react-native";
+import { Bot, User } from "lucide-react-native";
+import { cn } from "@odis-ai/mobile/ui";
+import type { TranscriptMessage } from "@odis-ai/shared/types";
+import {
+  findActiveMessageIndex,
+  formatTime,
+  getMessageStartTime,
+  parseTranscript,
+} from "@odis-ai/shared/ui/media/call-player/utils";
+
+/** Pause auto-scroll this long after the user scrolls the transcript */
+const USER_SCROLL_PAUSE_MS = 3000;
+
+interface SyncedTranscriptProps {
+  messages: TranscriptMessage[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * Timed transcript that follows playback
+ *
+ * The message being spoken is highlighted and kept in view; tapping a
+ * message seeks the recording to it.
+ */
+export function SyncedTranscript({
+  messages,
+  currentTime,
+  onSeek,
+}: SyncedTranscriptProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const offsets = useRef(new Map<number, number>());
+  const userScrolledAt = useRef(0);
+
+  const activeIndex = useMemo(
+    () => findActiveMessageIndex(messages, currentTime),
+    [messages, currentTime],
+  );
+
+  useEffect(() => {
+    if (activeIndex === -1) return;
+    if (Date.now() - userScrolledAt.current < USER_SCROLL_PAUSE_MS) return;
+
+    const y = offsets.current.get(activeIndex);
+    if (y !== undefined) {
+      scrollRef.current?.scrollTo({ y: Math.max(0, y - 80), animated: true });
+    }
+  }, [activeIndex]);
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      nestedScrollEnabled
+      style={{ maxHeight: 360 }}
+      onScrollBeginDrag={() => {
+        userScrolledAt.current = Date.now();
+      }}
+    >
+      {messages.map((msg, index) => {
+        const isActive = index === activeIndex;
+        const isAssistant = msg.role === "assistant";
+        const time = getMessageStartTime(msg);
+
+        return (
+          <TouchableOpacity
+            key={index}
+            onLayout={(e) => offsets.current.set(index, e.nativeEvent.layout.y)}
+            onPress={() => onSeek(time)}
+            className={cn(
+              "mb-2 flex-row gap-3 rounded-lg p-3",
+              isActive && "bg-primary/10",
+            )}
+          >
+            <View
+              className={cn(
+                "h-7 w-7 items-center justify-center rounded-full",
+                isAssistant ? "bg-primary/15" : "bg-blue-100",
+              )}
+            >
+              {isAssistant ? (
+                <Bot color="#0d3d38" size={14} />
+              ) : (
+                <User color="#1d4ed8" size={14} />
+              )}
+            </View>
+            <View className="flex-1">
+              <View className="mb-1 flex-row justify-between">
+                <Text className="text-muted-foreground text-xs font-semibold">
+                  {isAssistant ? "Assistant" : "Owner"}
+                </Text>
+                <Text
+                  className={cn(
+                    "text-xs",
+                    isActive ? "text-primary" : "text-muted-foreground",
+                  )}
+                >
+                  {formatTime(time)}
+                </Text>
+              </View>
+              <Text
+                className={
+                  isActive ? "text-foreground font-medium" : "text-foreground"
+                }
+              >
+                {msg.message}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+interface PlainTranscriptProps {
+  transcript: string;
+}
+
+/**
+ * Untimed transcript, for calls without timed messages
+ */
+export function PlainTranscript({ transcript }: PlainTranscriptProps) {
+  const lines = useMemo(() => parseTranscript(transcript), [transcript]);
+
+  if (lines.length === 0) {
+    return (
+      <Text className="text-muted-foreground">No transcript available</Text>
+    );
+  }
+
+  return (
+    <View className="gap-3">
+      {lines.map((line, index) => (
+        <View key={index}>
+          {line.speaker !== "Other" && (
+            <Text className="text-muted-foreground mb-1 text-xs font-semibold">
+              {line.speaker === "AI" ? "Assistant" : "Owner"}
+            </Text>
+          )}
+          <Text className="text-foreground">{line.text}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,40 @@
+import { View, Text } from "react-native";
+import type { DischargeStatus } from "@/lib/cases";
+
+function getStatusStyle(status: DischargeStatus) {
+  switch (status) {
+    case "completed":
+      return { bg: "bg-green-100", text: "text-green-700" };
+    case "in_progress":
+      return { bg: "bg-yellow-100", text: "text-yellow-700" };
+    case "failed":
+      return { bg: "bg-red-100", text: "text-red-700" };
+    default:
+      return { bg: "bg-blue-100", text: "text-blue-700" };
+  }
+}
+
+function getStatusLabel(status: DischargeStatus) {
+  switch (status) {
+    case "completed":
+      return "Completed";
+    case "in_progress":
+      return "In Progress";
+    case "failed":
+      return "Failed";
+    default:
+      return "Pending";
+  }
+}
+
+export function CaseStatusBadge({ status }: { status: DischargeStatus }) {
+  const statusStyle = getStatusStyle(status);
+
+  return (
+    <View className={`rounded-full px-2 py-0.5 ${statusStyle.bg}`}>
+      <Text className={`text-xs font-medium ${statusStyle.text}`}>
+        {getStatusLabel(status)}
+      </Text>
+    </View>
+  );
+}
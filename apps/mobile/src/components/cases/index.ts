@@ -0,0 +1 @@
+export { CaseStatusBadge } from "./case-status-badge";
@@ -0,0 +1,76 @@
+import { useCallback, useEffect } from "react";
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import type { AudioPlayerState } from "@odis-ai/shared/ui/media/call-player/types";
+import {
+  clampTime,
+  getNextPlaybackRate,
+} from "@odis-ai/shared/ui/media/call-player/utils";
+
+/**
+ * Call recording playback backed by expo-audio
+ *
+ * Returns the same state and controls as the web call player's
+ * useAudioPlayer, so the shared transcript sync helpers work unchanged.
+ */
+export function useCallPlayback(
+  audioUrl: string | null,
+  initialDuration?: number | null,
+): AudioPlayerState {
+  const player = useAudioPlayer(audioUrl ? { uri: audioUrl } : null, 250);
+  const status = useAudioPlayerStatus(player);
+
+  const duration =
+    status.duration > 0 ? status.duration : (initialDuration ?? 0);
+
+  // Rewind when playback finishes so play starts over
+  useEffect(() => {
+    if (status.didJustFinish) {
+      player.pause();
+      void player.seekTo(0);
+    }
+  }, [status.didJustFinish, player]);
+
+  const togglePlay = useCallback(() => {
+    if (status.playing) {
+      player.pause();
+    } else {
+      player.play();
+    }
+  }, [player, status.playing]);
+
+  const seek = useCallback(
+    (time: number) => {
+      void player.seekTo(clampTime(time, duration));
+    },
+    [player, duration],
+  );
+
+  const skip = useCallback(
+    (seconds: number) => {
+      void player.seekTo(clampTime(status.currentTime + seconds, duration));
+    },
+    [player, status.currentTime, duration],
+  );
+
+  const toggleMute = useCallback(() => {
+    player.muted = !status.mute;
+  }, [player, status.mute]);
+
+  const cyclePlaybackRate = useCallback(() => {
+    player.setPlaybackRate(getNextPlaybackRate(status.playbackRate));
+  }, [player, status.playbackRate]);
+
+  return {
+    isPlaying: status.playing,
+    currentTime: status.currentTime,
+    duration,
+    isMuted: status.mute,
+    playbackRate: status.playbackRate,
+    isLoading: !!audioUrl && (!status.isLoaded || status.isBuffering),
+    togglePlay,
+    seek,
+    skip,
+    toggleMute,
+    cyclePlaybackRate,
+  };
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef } from "react";
+import { useRouter } from "expo-router";
+import * as Notifications from "expo-notifications";
+import { api } from "@/lib/trpc";
+import { getPushRegistration } from "@/lib/push-notifications";
+
+/**
+ * Register this device for push notifications once per session
+ *
+ * Runs inside the signed-in app. Registration is idempotent server-side,
+ * so re-registering on each launch keeps the token fresh.
+ */
+export function usePushRegistration() {
+  const { mutate: registerDevice } =
+    api.settings.pushNotifications.registerDevice.useMutation();
+  const registered = useRef(false);
+
+  useEffect(() => {
+    if (registered.current) return;
+    registered.current = true;
+
+    void getPushRegistration()
+      .then((registration) => {
+        if (registration.status !== "granted") return;
+        registerDevice({
+          token: registration.token,
+          platform: registration.platform,
+          deviceName: registration.deviceName,
+        });
+      })
+      .catch((error) => {
+        console.warn("Push registration failed", error);
+      });
+  }, [registerDevice]);
+}
+
+function getNotificationUrl(
+  response: Notifications.NotificationResponse,
+): string | null {
+  const url = response.notification.request.content.data?.url;
+  return typeof url === "string" ? url : null;
+}
+
+/**
+ * Open the screen a tapped notification points to (`data.url`)
+ */
+export function usePushNotificationRouting() {
+  const router = useRouter();
+
+  useEffect(() => {
+    let active = true;
+
+    // App launched from a notification
+    void Notifications.getLastNotificationResponseAsync().then((response) => {
+      const url = response && getNotificationUrl(response);
+      if (active && url) router.push(url);
+    });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(
+      (response) => {
+        const url = getNotificationUrl(response);
+        if (url) router.push(url);
+      },
+    );
+
+    return () => {
+      active = false;
+      subscription.remove();
+    };
+  }, [router]);
+}
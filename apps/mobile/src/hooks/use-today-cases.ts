@@ -0,0 +1,22 @@
+import { useMemo } from "react";
+import { api } from "@/lib/trpc";
+import { getTodayKey, toCaseListItem } from "@/lib/cases";
+
+/**
+ * Today's cases for the signed-in user's clinic
+ *
+ * Shared by the dashboard and case list so both read the same cached query.
+ */
+export function useTodayCases() {
+  const query = api.cases.listMyCasesToday.useQuery({
+    date: getTodayKey(),
+    fetchAll: true,
+  });
+
+  const cases = useMemo(
+    () => (query.data?.cases ?? []).map(toCaseListItem),
+    [query.data],
+  );
+
+  return { ...query, cases };
+}
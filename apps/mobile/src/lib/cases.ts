@@ -0,0 +1,140 @@
+import { format } from "date-fns";
+
+/**
+ * Case shapes used by the mobile screens
+ *
+ * The tRPC outputs for cases are deeply nested Supabase joins whose inferred
+ * types exceed the TS recursion limit, so screens map them to these first.
+ */
+
+export type DischargeStatus =
+  "pending" | "in_progress" | "completed" | "failed";
+
+interface CasePatient {
+  id: string;
+  name: string;
+  species?: string | null;
+  breed?: string | null;
+  owner_name?: string | null;
+  owner_email?: string | null;
+  owner_phone?: string | null;
+}
+
+interface CaseCall {
+  id: string;
+  status: string | null;
+  scheduled_for?: string | null;
+  ended_at?: string | null;
+  ended_reason?: string | null;
+  duration_seconds?: number | null;
+  success_evaluation?: string | null;
+  summary?: string | null;
+}
+
+interface CaseRow {
+  id: string;
+  status: string | null;
+  type?: string | null;
+  created_at: string | null;
+  scheduled_at: string | null;
+  patients?: CasePatient[] | CasePatient | null;
+  discharge_summaries?: { content: string | null }[] | null;
+  soap_notes?: { subjective?: string | null }[] | null;
+  scheduled_discharge_calls?: CaseCall[] | null;
+}
+
+export interface CaseListItem {
+  id: string;
+  patientName: string;
+  ownerName: string;
+  visitType: string;
+  status: DischargeStatus;
+  scheduledAt: string;
+}
+
+export interface CaseDetailView extends CaseListItem {
+  patientId: string | null;
+  patientSpecies: string | null;
+  patientBreed: string | null;
+  ownerPhone: string | null;
+  ownerEmail: string | null;
+  notes: string | null;
+  dischargeInstructions: string | null;
+  latestCall: CaseCall | null;
+}
+
+/**
+ * Today's date in the format listMyCasesToday expects (YYYY-MM-DD)
+ */
+export function getTodayKey(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+function getPatient(row: CaseRow): CasePatient | null {
+  if (Array.isArray(row.patients)) return row.patients[0] ?? null;
+  return row.patients ?? null;
+}
+
+function getDischargeStatus(call: CaseCall | null): DischargeStatus {
+  switch (call?.status) {
+    case "completed":
+      return "completed";
+    case "failed":
+    case "cancelled":
+      return "failed";
+    case "in_progress":
+    case "ringing":
+      return "in_progress";
+    default:
+      return "pending";
+  }
+}
+
+function formatVisitType(row: CaseRow): string {
+  const type = row.type ?? "";
+  if (!type) return "Visit";
+  return type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, " ");
+}
+
+function formatTime(value: string | null): string {
+  return value ? format(new Date(value), "h:mm a") : "";
+}
+
+/**
+ * Map a listMyCasesToday case to a list row
+ */
+export function toCaseListItem(raw: unknown): CaseListItem {
+  const row = raw as CaseRow;
+  const patient = getPatient(row);
+  const latestCall = row.scheduled_discharge_calls?.[0] ?? null;
+
+  return {
+    id: row.id,
+    patientName: patient?.name ?? "Unknown patient",
+    ownerName: patient?.owner_name ?? "Unknown owner",
+    visitType: formatVisitType(row),
+    status: getDischargeStatus(latestCall),
+    scheduledAt: formatTime(row.scheduled_at ?? row.created_at),
+  };
+}
+
+/**
+ * Map a getCaseDetail result to the detail screen's view
+ */
+export function toCaseDetailView(raw: unknown): CaseDetailView {
+  const row = raw as CaseRow;
+  const patient = getPatient(row);
+  const latestCall = row.scheduled_discharge_calls?.[0] ?? null;
+
+  return {
+    ...toCaseListItem(raw),
+    patientId: patient?.id ?? null,
+    patientSpecies: patient?.species ?? null,
+    patientBreed: patient?.breed ?? null,
+    ownerPhone: patient?.owner_phone ?? null,
+    ownerEmail: patient?.owner_email ?? null,
+    notes: row.soap_notes?.[0]?.subjective ?? null,
+    dischargeInstructions: row.discharge_summaries?.[0]?.content ?? null,
+    latestCall,
+  };
+}
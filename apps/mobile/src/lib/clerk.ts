@@ -18,12 +18,10 @@ const createTokenCache = (): TokenCache => {
         console.warn("SecureStore saveToken error");
       }
     },
-    clearToken: async (key: string) => {
-      try {
-        await SecureStore.deleteItemAsync(key);
-      } catch {
+    clearToken: (key: string) => {
+      SecureStore.deleteItemAsync(key).catch(() => {
         console.warn("SecureStore clearToken error");
-      }
+      });
     },
   };
 };
@@ -0,0 +1,96 @@
+import { Platform } from "react-native";
+import Constants from "expo-constants";
+import * as Device from "expo-device";
+import * as Notifications from "expo-notifications";
+
+/**
+ * Android channels, matching the `channelId`s the server sends
+ */
+const ANDROID_CHANNELS = [
+  {
+    id: "emergencies",
+    name: "Emergencies",
+    importance: Notifications.AndroidImportance.MAX,
+  },
+  {
+    id: "attention",
+    name: "Calls needing attention",
+    importance: Notifications.AndroidImportance.HIGH,
+  },
+] as const;
+
+// Show notifications while the app is in the foreground too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+export type PushRegistration =
+  | {
+      status: "granted";
+      token: string;
+      platform: "ios" | "android";
+      deviceName: string | null;
+    }
+  | { status: "denied" | "unsupported" };
+
+async function getExpoPushToken(): Promise<string> {
+  const projectId =
+    Constants.expoConfig?.extra?.eas?.projectId ??
+    Constants.easConfig?.projectId;
+  const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+  return data;
+}
+
+/**
+ * Ask for permission and get this device's Expo push token
+ *
+ * Push tokens are only issued to physical devices.
+ */
+export async function getPushRegistration(): Promise<PushRegistration> {
+  if (
+    !Device.isDevice ||
+    (Platform.OS !== "ios" && Platform.OS !== "android")
+  ) {
+    return { status: "unsupported" };
+  }
+
+  if (Platform.OS === "android") {
+    await Promise.all(
+      ANDROID_CHANNELS.map(({ id, ...channel }) =>
+        Notifications.setNotificationChannelAsync(id, channel),
+      ),
+    );
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status !== Notifications.PermissionStatus.GRANTED) {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== Notifications.PermissionStatus.GRANTED) {
+    return { status: "denied" };
+  }
+
+  return {
+    status: "granted",
+    token: await getExpoPushToken(),
+    platform: Platform.OS,
+    deviceName: Device.deviceName,
+  };
+}
+
+/**
+ * The Expo push token, if permission was already granted
+ */
+export async function getExistingPushToken(): Promise<string | null> {
+  if (!Device.isDevice) return null;
+
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status !== Notifications.PermissionStatus.GRANTED) return null;
+
+  return getExpoPushToken();
+}
@@ -0,0 +1,58 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import { QueryClient, onlineManager } from "@tanstack/react-query";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import { getMutationKey, getQueryKey } from "@trpc/react-query";
+import { api, type RouterInputs, type VanillaClient } from "./trpc";
+
+/**
+ * How long cached data stays usable offline. Persisted queries older than
+ * this are dropped on restore.
+ */
+export const CACHE_MAX_AGE_MS = 1000 * 60 * 60 * 24; // 24 hours
+
+// React Query pauses queries and mutations while offline and resumes them
+// when this flips back to online
+onlineManager.setEventListener((setOnline) =>
+  NetInfo.addEventListener((state) => {
+    setOnline(!!state.isConnected && state.isInternetReachable !== false);
+  }),
+);
+
+export function createQueryClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        // Must be at least maxAge, or queries are garbage collected before
+        // they can be persisted
+        gcTime: CACHE_MAX_AGE_MS,
+        staleTime: 1000 * 30,
+      },
+    },
+  });
+}
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: "odis-query-cache",
+  throttleTime: 1000,
+});
+
+/**
+ * Register mutation functions for mutations that can be queued offline
+ *
+ * Paused mutations are persisted without their mutationFn, so after an app
+ * restart they can only be replayed through these defaults.
+ */
+export function setOfflineMutationDefaults(
+  queryClient: QueryClient,
+  client: VanillaClient,
+) {
+  queryClient.setMutationDefaults(getMutationKey(api.cases.triggerDischarge), {
+    mutationFn: (input: RouterInputs["cases"]["triggerDischarge"]) =>
+      client.cases.triggerDischarge.mutate(input),
+    // Replayed mutations have no screen callbacks, so refresh here
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: getQueryKey(api.cases) }),
+  });
+}
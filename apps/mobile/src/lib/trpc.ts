@@ -0,0 +1,43 @@
+import { createTRPCReact } from "@trpc/react-query";
+import { createTRPCClient, httpBatchLink } from "@trpc/client";
+import type { AppRouter } from "@odis-ai/shared/api-types";
+
+export type { RouterInputs, RouterOutputs } from "@odis-ai/shared/api-types";
+
+export const api = createTRPCReact<AppRouter>();
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL;
+
+if (!API_URL) {
+  throw new Error("Missing EXPO_PUBLIC_API_URL");
+}
+
+type GetToken = () => Promise<string | null>;
+
+/**
+ * Links for the web app's tRPC API
+ *
+ * The Clerk session token is sent as a Bearer token, which the web app's
+ * Clerk middleware accepts in place of the session cookie.
+ */
+export function getTRPCClientLinks(getToken: GetToken) {
+  return [
+    httpBatchLink({
+      url: `${API_URL}/api/trpc`,
+      async headers() {
+        const token = await getToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
+  ];
+}
+
+/**
+ * Vanilla client for replaying mutations outside of React
+ * (see setOfflineMutationDefaults)
+ */
+export function createVanillaClient(getToken: GetToken) {
+  return createTRPCClient<AppRouter>({ links: getTRPCClientLinks(getToken) });
+}
+
+export type VanillaClient = ReturnType<typeof createVanillaClient>;
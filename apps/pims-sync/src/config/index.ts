@@ -36,12 +36,22 @@ const envSchema = z.object({
     .default("true"),
   SYNC_TIMEOUT_MS: z.coerce.number().default(300000), // 5 minutes
 
+  // ezyVet API (override for sandbox/regional hosts)
+  EZYVET_API_URL: z.string().url().default("https://api.ezyvet.com"),
+
   // Scheduler configuration
   ENABLE_SCHEDULER: z
     .string()
     .transform((val) => val !== "false")
     .default("true"),
 
+  // Job queue worker configuration
+  ENABLE_SYNC_WORKER: z
+    .string()
+    .transform((val) => val !== "false")
+    .default("true"),
+  SYNC_WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(1),
+
   // AI configuration (for discharge summary and call intelligence generation)
   ANTHROPIC_API_KEY: z.string().optional(),
 });
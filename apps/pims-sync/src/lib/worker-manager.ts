@@ -0,0 +1,17 @@
+/**
+ * Worker Manager - Singleton accessor for sync job worker instance
+ *
+ * Used to share worker instance between main.ts and health routes
+ */
+
+import type { SyncJobWorker } from "../queue";
+
+let workerInstance: SyncJobWorker | null = null;
+
+export function setWorkerInstance(worker: SyncJobWorker | null): void {
+  workerInstance = worker;
+}
+
+export function getWorkerInstance(): SyncJobWorker | null {
+  return workerInstance;
+}
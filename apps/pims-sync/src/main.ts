@@ -13,13 +13,13 @@
  */
 
 import express from "express";
-import type { IPimsProvider } from "@odis-ai/domain/sync";
 import { config, SERVICE_INFO } from "./config";
 import { logger } from "./lib/logger";
 import { setupRoutes } from "./routes";
-import { PersistenceService } from "./services/persistence.service";
 import { setSchedulerInstance } from "./lib/scheduler-manager";
+import { setWorkerInstance } from "./lib/worker-manager";
 import { createSupabaseServiceClient } from "./lib/supabase";
+import { SyncJobQueue, SyncJobWorker, SYNC_JOB_HANDLERS } from "./queue";
 // SyncScheduler is dynamically imported only when ENABLE_SCHEDULER=true
 // to avoid loading node-cron dependency when not needed
 import type { SyncScheduler } from "./scheduler";
@@ -56,7 +56,8 @@ app.get("/", (req, res) => {
           method: "POST",
           path: "/api/sync/inbound",
           auth: "X-API-Key header",
-          description: "Sync appointments from PIMS to database",
+          description:
+            "Enqueue appointment sync from PIMS to database (returns jobId)",
           body: {
             startDate: "YYYY-MM-DD (optional, flat format)",
             endDate: "YYYY-MM-DD (optional, flat format)",
@@ -86,8 +87,34 @@ app.get("/", (req, res) => {
           description: "Reconcile local cases with PIMS source of truth",
           body: {
             lookbackDays: "number (default: 7)",
+            dryRun: "boolean (optional, result holds the plan only)",
+          },
+        },
+        reconcileApply: {
+          method: "POST",
+          path: "/api/sync/reconcile/apply",
+          auth: "X-API-Key header",
+          description: "Apply selected actions from a dry-run reconciliation",
+          body: {
+            previewJobId: "string (dry-run reconcile job)",
+            actionIds: "string[] (optional, default: all actions)",
+          },
+        },
+        reconcileUndo: {
+          method: "POST",
+          path: "/api/sync/reconcile/undo",
+          auth: "X-API-Key header",
+          description: "Restore cases soft-deleted by a reconciliation run",
+          body: {
+            runId: "string (the run's syncId)",
           },
         },
+        job: {
+          method: "GET",
+          path: "/api/sync/jobs/:id",
+          auth: "X-API-Key header",
+          description: "Sync job status and result",
+        },
         full: {
           method: "POST",
           path: "/api/sync/full",
@@ -140,49 +167,6 @@ app.use(
   },
 );
 
-// Provider factory for scheduler
-async function createProviderForScheduler(
-  clinicId: string,
-): Promise<IPimsProvider> {
-  // Get credentials
-  const persistence = new PersistenceService();
-  const credentialResult = await persistence.getClinicCredentials(clinicId);
-
-  if (!credentialResult) {
-    throw new Error(`No credentials found for clinic ${clinicId}`);
-  }
-
-  // Import browser and provider
-  const { BrowserService } = await import("@odis-ai/integrations/idexx");
-  const { IdexxProvider } = await import("@odis-ai/integrations/idexx");
-
-  // Create browser service
-  const browserService = new BrowserService({
-    headless: config.HEADLESS,
-    defaultTimeout: config.SYNC_TIMEOUT_MS,
-  });
-
-  // Launch browser
-  await browserService.launch();
-
-  // Create provider
-  const provider = new IdexxProvider({
-    browserService,
-    debug: config.NODE_ENV === "development",
-  });
-
-  // Authenticate
-  const credentials = {
-    username: credentialResult.credentials.username,
-    password: credentialResult.credentials.password,
-    companyId: credentialResult.credentials.companyId,
-  };
-
-  await provider.authenticate(credentials);
-
-  return provider;
-}
-
 // Initialize AI client if API key is configured
 if (config.ANTHROPIC_API_KEY) {
   void (async () => {
@@ -206,8 +190,9 @@ if (config.ANTHROPIC_API_KEY) {
   );
 }
 
-// Initialize scheduler (if enabled)
+// Initialize scheduler and job worker (if enabled)
 let scheduler: SyncScheduler | null = null;
+let worker: SyncJobWorker | null = null;
 
 // Start server
 const server = app.listen(config.PORT, config.HOST, () => {
@@ -215,6 +200,19 @@ const server = app.listen(config.PORT, config.HOST, () => {
     `${SERVICE_INFO.NAME} started at http://${config.HOST}:${config.PORT} (${config.NODE_ENV})`,
   );
 
+  // Start job worker if enabled
+  if (config.ENABLE_SYNC_WORKER) {
+    worker = new SyncJobWorker(
+      new SyncJobQueue(createSupabaseServiceClient()),
+      SYNC_JOB_HANDLERS,
+      { concurrency: config.SYNC_WORKER_CONCURRENCY },
+    );
+    worker.start();
+    setWorkerInstance(worker);
+  } else {
+    logger.info("Sync job worker disabled (ENABLE_SYNC_WORKER=false)");
+  }
+
   // Start scheduler if enabled (async, but not blocking server start)
   if (config.ENABLE_SCHEDULER) {
     void (async () => {
@@ -222,7 +220,7 @@ const server = app.listen(config.PORT, config.HOST, () => {
         // Dynamic import to avoid loading node-cron when scheduler is disabled
         const { SyncScheduler } = await import("./scheduler");
         const supabase = createSupabaseServiceClient();
-        scheduler = new SyncScheduler(supabase, createProviderForScheduler);
+        scheduler = new SyncScheduler(supabase, new SyncJobQueue(supabase));
         await scheduler.start();
         setSchedulerInstance(scheduler);
         logger.info("Per-clinic scheduler enabled and started");
@@ -262,6 +260,11 @@ async function gracefulShutdown(signal: string): Promise<void> {
       logger.info("Scheduler stopped");
     }
 
+    // Let running jobs finish; anything cut off is requeued on lease expiry
+    if (worker) {
+      await worker.stop();
+    }
+
     logger.info("Graceful shutdown complete");
     process.exit(0);
   } catch (error) {
@@ -0,0 +1,212 @@
+/**
+ * Tests for SyncJobQueue
+ * - enqueue: dedupe lookups scoped to the clinic and job type
+ * - fail: retry with backoff vs dead-letter
+ * - settle: guarded by the worker's lease
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@odis-ai/shared/types";
+import { SyncJobQueue, getRetryDelayMs } from "../job-queue";
+import type { SyncJob } from "../types";
+
+interface QueryResult {
+  data: unknown;
+  error: { code?: string; message: string } | null;
+}
+
+/**
+ * Supabase stub: each query resolves with the next queued result for its
+ * table and records the calls made on it
+ */
+function makeSupabase(results: Record<string, QueryResult[]>) {
+  const queries: Array<{
+    table: string;
+    calls: Array<[string, ...unknown[]]>;
+  }> = [];
+
+  const from = vi.fn((table: string) => {
+    const query = { table, calls: [] as Array<[string, ...unknown[]]> };
+    queries.push(query);
+    const next = () => results[table]?.shift() ?? { data: null, error: null };
+
+    const builder: Record<string, unknown> = {
+      then: (
+        resolve: (value: QueryResult) => unknown,
+        reject: (reason: unknown) => unknown,
+      ) => Promise.resolve(next()).then(resolve, reject),
+    };
+    for (const method of ["insert", "update", "select", "eq"]) {
+      builder[method] = (...args: unknown[]) => {
+        query.calls.push([method, ...args]);
+        return builder;
+      };
+    }
+    for (const method of ["single", "maybeSingle"]) {
+      builder[method] = async () => {
+        query.calls.push([method]);
+        return next();
+      };
+    }
+    return builder;
+  });
+
+  return {
+    supabase: { from } as unknown as SupabaseClient<Database>,
+    queries,
+  };
+}
+
+const job: SyncJob = {
+  id: "job-1",
+  clinicId: "clinic-1",
+  type: "outbound_cases",
+  payload: { clinicId: "clinic-1" },
+  attempts: 1,
+  maxAttempts: 3,
+  startedAt: "2026-03-10T17:00:00.000Z",
+};
+
+describe("SyncJobQueue.enqueue", () => {
+  it("returns the new job's ID", async () => {
+    const { supabase } = makeSupabase({
+      pims_sync_jobs: [{ data: { id: "job-new" }, error: null }],
+    });
+
+    await expect(
+      new SyncJobQueue(supabase).enqueue("outbound_cases", "clinic-1", {}),
+    ).resolves.toEqual({ id: "job-new", deduplicated: false });
+  });
+
+  it("looks up a duplicate only within the same clinic and job type", async () => {
+    const { supabase, queries } = makeSupabase({
+      pims_sync_jobs: [
+        { data: null, error: { code: "23505", message: "duplicate key" } },
+        { data: { id: "job-existing" }, error: null },
+      ],
+    });
+
+    const result = await new SyncJobQueue(supabase).enqueue(
+      "outbound_cases",
+      "clinic-1",
+      {},
+      { dedupeKey: "schedule:tick" },
+    );
+
+    expect(result).toEqual({ id: "job-existing", deduplicated: true });
+    expect(queries[1]?.calls).toEqual(
+      expect.arrayContaining([
+        ["eq", "clinic_id", "clinic-1"],
+        ["eq", "job_type", "outbound_cases"],
+        ["eq", "dedupe_key", "schedule:tick"],
+      ]),
+    );
+  });
+
+  it("throws when the insert fails for another reason", async () => {
+    const { supabase } = makeSupabase({
+      pims_sync_jobs: [
+        { data: null, error: { code: "42501", message: "denied" } },
+      ],
+    });
+
+    await expect(
+      new SyncJobQueue(supabase).enqueue(
+        "outbound_cases",
+        "clinic-1",
+        {},
+        {
+          dedupeKey: "schedule:tick",
+        },
+      ),
+    ).rejects.toThrow("Failed to enqueue sync job: denied");
+  });
+});
+
+describe("SyncJobQueue.fail", () => {
+  it("requeues retryable failures with backoff", async () => {
+    const { supabase, queries } = makeSupabase({
+      pims_sync_jobs: [{ data: [{ id: "job-1" }], error: null }],
+    });
+
+    const outcome = await new SyncJobQueue(supabase).fail(
+      job,
+      "worker-1",
+      "IDEXX timed out",
+      true,
+    );
+
+    expect(outcome).toBe("retrying");
+    const update = queries[0]?.calls.find(([method]) => method === "update");
+    expect(update?.[1]).toMatchObject({
+      status: "queued",
+      last_error: "IDEXX timed out",
+      locked_by: null,
+    });
+    expect(queries[1]?.table).toBe("pims_sync_job_history");
+  });
+
+  it("dead-letters once attempts are used up", async () => {
+    const { supabase } = makeSupabase({
+      pims_sync_jobs: [{ data: [{ id: "job-1" }], error: null }],
+    });
+
+    await expect(
+      new SyncJobQueue(supabase).fail(
+        { ...job, attempts: 3 },
+        "worker-1",
+        "IDEXX timed out",
+        true,
+      ),
+    ).resolves.toBe("dead_letter");
+  });
+
+  it("dead-letters non-retryable failures on the first attempt", async () => {
+    const { supabase } = makeSupabase({
+      pims_sync_jobs: [{ data: [{ id: "job-1" }], error: null }],
+    });
+
+    await expect(
+      new SyncJobQueue(supabase).fail(job, "worker-1", "No clinic", false),
+    ).resolves.toBe("dead_letter");
+  });
+});
+
+describe("SyncJobQueue leases", () => {
+  it("only settles a job the worker still holds", async () => {
+    const { supabase, queries } = makeSupabase({
+      pims_sync_jobs: [{ data: [], error: null }],
+    });
+
+    await new SyncJobQueue(supabase).complete(job, "worker-1", {
+      success: true,
+    });
+
+    expect(queries[0]?.calls).toEqual(
+      expect.arrayContaining([
+        ["eq", "status", "running"],
+        ["eq", "locked_by", "worker-1"],
+      ]),
+    );
+  });
+
+  it("reports a lease taken over by another worker as lost", async () => {
+    const { supabase } = makeSupabase({
+      pims_sync_jobs: [{ data: [], error: null }],
+    });
+
+    await expect(
+      new SyncJobQueue(supabase).renewLease(job, "worker-1", 60_000),
+    ).resolves.toBe(false);
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("doubles from 30 seconds and caps at 30 minutes", () => {
+    expect(getRetryDelayMs(1)).toBe(30_000);
+    expect(getRetryDelayMs(2)).toBe(60_000);
+    expect(getRetryDelayMs(3)).toBe(120_000);
+    expect(getRetryDelayMs(20)).toBe(30 * 60 * 1000);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for SyncJobWorker
+ * - Records handler results and failures on the queue
+ * - Aborts handlers and drops their outcome when the lease is lost
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { SyncJobQueue } from "../job-queue";
+import { SyncJobWorker } from "../sync-worker";
+import {
+  NonRetryableJobError,
+  type SyncJob,
+  type SyncJobHandler,
+  type SyncJobType,
+} from "../types";
+
+const job: SyncJob = {
+  id: "job-1",
+  clinicId: "clinic-1",
+  type: "reconcile_undo",
+  payload: { clinicId: "clinic-1", runId: "run-1" },
+  attempts: 1,
+  maxAttempts: 3,
+  startedAt: "2026-03-10T17:00:00.000Z",
+};
+
+function makeQueue(options: { leaseHeld?: boolean } = {}) {
+  let claimed = false;
+  return {
+    claim: vi.fn(async () => {
+      if (claimed) return null;
+      claimed = true;
+      return job;
+    }),
+    renewLease: vi.fn(async () => options.leaseHeld ?? true),
+    updateProgress: vi.fn(async () => undefined),
+    complete: vi.fn(async () => undefined),
+    fail: vi.fn(async () => "retrying" as const),
+  };
+}
+
+let worker: SyncJobWorker | null = null;
+
+/**
+ * Run the queued job through a worker and wait for it to settle
+ */
+async function runJob(
+  queue: ReturnType<typeof makeQueue>,
+  handler: SyncJobHandler,
+  leaseMs = 60_000,
+): Promise<void> {
+  const handlers = { [job.type]: vi.fn(handler) } as unknown as Record<
+    SyncJobType,
+    SyncJobHandler
+  >;
+  worker = new SyncJobWorker(queue as unknown as SyncJobQueue, handlers, {
+    pollIntervalMs: 10,
+    leaseMs,
+  });
+
+  worker.start();
+  await vi.waitFor(() => {
+    expect(handlers[job.type]).toHaveBeenCalled();
+    expect(worker?.getStatus().activeJobs).toEqual([]);
+  });
+  await worker.stop();
+}
+
+afterEach(async () => {
+  await worker?.stop();
+  worker = null;
+});
+
+describe("SyncJobWorker", () => {
+  it("records a finished handler's result", async () => {
+    const queue = makeQueue();
+
+    await runJob(queue, async () => ({ success: true, restored: 2 }));
+
+    expect(queue.complete).toHaveBeenCalledWith(job, expect.any(String), {
+      success: true,
+      restored: 2,
+    });
+    expect(queue.fail).not.toHaveBeenCalled();
+  });
+
+  it("retries thrown errors and dead-letters non-retryable ones", async () => {
+    const retryQueue = makeQueue();
+    await runJob(retryQueue, async () => {
+      throw new Error("IDEXX timed out");
+    });
+    expect(retryQueue.fail).toHaveBeenCalledWith(
+      job,
+      expect.any(String),
+      "IDEXX timed out",
+      true,
+    );
+
+    const deadQueue = makeQueue();
+    await runJob(deadQueue, async () => {
+      throw new NonRetryableJobError("runId is required");
+    });
+    expect(deadQueue.fail).toHaveBeenCalledWith(
+      job,
+      expect.any(String),
+      "runId is required",
+      false,
+    );
+  });
+
+  it("aborts the handler once the lease is lost", async () => {
+    const queue = makeQueue({ leaseHeld: false });
+    let abortedWith: unknown;
+
+    await runJob(
+      queue,
+      async (_job, _progress, signal) => {
+        await new Promise((resolve) =>
+          signal.addEventListener("abort", resolve),
+        );
+        abortedWith = signal.reason;
+        return { success: true };
+      },
+      30,
+    );
+
+    expect(abortedWith).toBeInstanceOf(Error);
+    expect((abortedWith as Error).name).toBe("JobLeaseLostError");
+    expect(queue.complete).not.toHaveBeenCalled();
+    expect(queue.fail).not.toHaveBeenCalled();
+  });
+
+  it("checks the lease before recording a result", async () => {
+    const queue = makeQueue({ leaseHeld: false });
+
+    await runJob(queue, async () => ({ success: true }));
+
+    expect(queue.renewLease).toHaveBeenCalled();
+    expect(queue.complete).not.toHaveBeenCalled();
+    expect(queue.fail).not.toHaveBeenCalled();
+  });
+});
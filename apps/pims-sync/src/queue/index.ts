@@ -0,0 +1,31 @@
+/**
+ * Queue Module
+ * Durable Postgres-backed job queue for PIMS sync operations
+ */
+
+export {
+  SyncJobQueue,
+  DEFAULT_MAX_ATTEMPTS,
+  getRetryDelayMs,
+} from "./job-queue";
+export { SyncJobWorker, type SyncJobWorkerOptions } from "./sync-worker";
+export { SYNC_JOB_HANDLERS } from "./job-handlers";
+export {
+  SyncJobProgressTracker,
+  SYNC_JOB_PHASES,
+  type SyncJobPhaseProgress,
+  type SyncJobProgress,
+  type SyncJobProgressReporter,
+} from "./job-progress";
+export {
+  JobLeaseLostError,
+  NonRetryableJobError,
+  type EnqueueSyncJobOptions,
+  type SyncJob,
+  type SyncJobHandler,
+  type SyncJobResult,
+  type SyncJobRow,
+  type SyncJobSource,
+  type SyncJobStatus,
+  type SyncJobType,
+} from "./types";
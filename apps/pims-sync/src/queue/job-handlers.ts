@@ -0,0 +1,1152 @@
+/**
+ * Sync Job Handlers
+ *
+ * The work behind each /api/sync/* endpoint, run by the SyncJobWorker.
+ * Job payloads are the original request bodies.
+ */
+
+import type { IPimsProvider, PimsCredentials } from "@odis-ai/domain/sync";
+import type { ReconciliationPlan } from "@odis-ai/domain/sync";
+import {
+  SyncOrchestrator,
+  CaseSyncService,
+  CaseReconciler,
+  InboundSyncService,
+  ReconciliationApplier,
+} from "@odis-ai/domain/sync";
+import { logger } from "../lib/logger";
+import { createProviderForClinic } from "../services/provider-factory.service";
+import { createSupabaseServiceClient } from "../lib/supabase";
+import { SyncJobQueue } from "./job-queue";
+import type { SyncJobProgressReporter } from "./job-progress";
+import {
+  NonRetryableJobError,
+  type SyncJob,
+  type SyncJobHandler,
+  type SyncJobResult,
+  type SyncJobType,
+} from "./types";
+
+/**
+ * Job payload types (request bodies)
+ */
+
+// Outbound sync payloads
+export interface OutboundCasesPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  daysAhead?: number;
+  /** Ignore the sync cursor and re-check every day in the range */
+  forceFullSync?: boolean;
+  /** Alternative nested format for date range */
+  dateRange?: {
+    start?: string;
+    end?: string;
+  };
+}
+
+export interface OutboundEnrichPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  parallelBatchSize?: number;
+  /** Alternative nested format for date range */
+  dateRange?: {
+    start?: string;
+    end?: string;
+  };
+}
+
+export interface OutboundFullPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  startDate?: string;
+  endDate?: string;
+  daysAhead?: number;
+  lookbackDays?: number;
+  /** Number of days to look backward (default: 7) */
+  backwardDays?: number;
+  /** Number of days to look forward (default: 7) */
+  forwardDays?: number;
+  /** Use bidirectional sync (backward + forward) instead of simple forward sync */
+  bidirectional?: boolean;
+  /** Ignore the sync cursor and re-check every day in the range */
+  forceFullSync?: boolean;
+  /** Alternative nested format for date range */
+  dateRange?: {
+    start?: string;
+    end?: string;
+  };
+}
+
+// Inbound sync payloads
+export interface InboundSchedulePayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  /** Start date for slot generation (default: today) */
+  startDate?: string;
+  /** End date for slot generation (default: 30 days from start) */
+  endDate?: string;
+  /** Number of days ahead to generate (alternative to endDate, default: 30) */
+  daysAhead?: number;
+  /** Slot duration in minutes (default: 15) */
+  slotDurationMinutes?: number;
+  /** Default capacity per slot (default: 2) */
+  defaultCapacity?: number;
+}
+
+export interface InboundAppointmentPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  /** Start date for appointment sync (default: today) */
+  startDate?: string;
+  /** End date for appointment sync (default: daysAhead from start) */
+  endDate?: string;
+  /** Number of days ahead to sync (default: 7) */
+  daysAhead?: number;
+}
+
+// Shared payloads
+export interface ReconciliationPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  lookbackDays?: number;
+  /** Return the planned changes without applying them */
+  dryRun?: boolean;
+}
+
+export interface ReconciliationApplyPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  /** Dry-run reconcile job whose plan is applied */
+  previewJobId: string;
+  /** Plan actions to apply (default: all) */
+  actionIds?: string[];
+}
+
+export interface ReconciliationUndoPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+  /** Reconciliation run (syncId) whose soft-deletes are restored */
+  runId: string;
+}
+
+// Combined full sync payload
+export interface FullSyncPayload {
+  /** Clinic ID to sync (required) */
+  clinicId: string;
+
+  // Outbound options
+  /** Number of days to look backward for cases (default: 7) */
+  backwardDays?: number;
+  /** Number of days to look forward for cases (default: 7) */
+  forwardDays?: number;
+  /** Days for reconciliation lookback (default: 7) */
+  reconciliationLookbackDays?: number;
+
+  // Inbound options
+  /** Days ahead for schedule slots (default: 30) */
+  scheduleDaysAhead?: number;
+  /** Slot duration in minutes (default: 15) */
+  slotDurationMinutes?: number;
+  /** Default capacity per slot (default: 2) */
+  defaultCapacity?: number;
+  /** Days ahead for appointment sync (default: 14) */
+  appointmentDaysAhead?: number;
+
+  // Workflow control
+  /** Skip outbound sync (default: false) */
+  skipOutbound?: boolean;
+  /** Skip inbound sync (default: false) */
+  skipInbound?: boolean;
+}
+
+/**
+ * Run an operation with an authenticated provider for the clinic
+ * Authentication failures throw, so the job is retried. A job aborted
+ * during login stops before the operation starts.
+ */
+async function withAuthenticatedProvider<T>(
+  clinicId: string,
+  signal: AbortSignal,
+  operation: (context: {
+    provider: IPimsProvider;
+    credentials: PimsCredentials;
+    userId: string;
+  }) => Promise<T>,
+): Promise<T> {
+  const { provider, credentials, cleanup, userId } =
+    await createProviderForClinic(clinicId);
+
+  try {
+    const authenticated = await provider.authenticate(credentials);
+    if (!authenticated) {
+      throw new Error("PIMS authentication failed");
+    }
+    signal.throwIfAborted();
+
+    return await operation({ provider, credentials, userId });
+  } finally {
+    await cleanup();
+  }
+}
+
+/**
+ * Verify Supabase connectivity after browser cleanup
+ */
+async function checkSupabaseAfterCleanup(clinicId: string): Promise<void> {
+  const { testSupabaseConnection } = await import("../lib/supabase");
+  const health = await testSupabaseConnection();
+  if (!health.success) {
+    logger.warn("Supabase health check failed after browser cleanup", {
+      clinicId,
+      error: health.error,
+    });
+  } else {
+    logger.debug("Supabase health check passed after browser cleanup", {
+      clinicId,
+      latencyMs: health.latencyMs,
+    });
+  }
+}
+
+/**
+ * Outbound cases sync
+ * Pulls appointments from PIMS and creates cases in Supabase
+ */
+async function runOutboundCasesSync(
+  job: SyncJob,
+  progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+): Promise<SyncJobResult> {
+  const payload = job.payload as unknown as OutboundCasesPayload;
+  const { clinicId } = job;
+
+  logger.info("Starting outbound cases sync", { clinicId, jobId: job.id });
+
+  return withAuthenticatedProvider(clinicId, signal, async ({ provider }) => {
+    const supabase = createSupabaseServiceClient();
+    const syncService = new InboundSyncService(supabase, provider, clinicId);
+
+    // Build date range - support both flat (startDate/endDate) and nested (dateRange.start/end) formats
+    const dateRange = buildDateRange(
+      payload.startDate ?? payload.dateRange?.start,
+      payload.endDate ?? payload.dateRange?.end,
+      payload.daysAhead ?? 7,
+    );
+
+    const result = await syncService.sync({
+      dateRange,
+      forceFullSync: payload.forceFullSync,
+      onProgress: (update) => progress.update("inbound", update),
+      signal,
+    });
+
+    logger.info("Outbound cases sync completed", {
+      clinicId,
+      syncId: result.syncId,
+      stats: result.stats,
+      durationMs: result.durationMs,
+    });
+
+    return { ...result };
+  });
+}
+
+/**
+ * Outbound enrich sync
+ * Adds consultation data and runs AI pipeline
+ */
+async function runOutboundEnrichSync(
+  job: SyncJob,
+  progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+): Promise<SyncJobResult> {
+  const payload = job.payload as unknown as OutboundEnrichPayload;
+  const { clinicId } = job;
+
+  logger.info("Starting outbound enrich sync", { clinicId, jobId: job.id });
+
+  try {
+    return await withAuthenticatedProvider(
+      clinicId,
+      signal,
+      async ({ provider, userId }) => {
+        const supabase = createSupabaseServiceClient();
+
+        // Create sync service with userId for AI generation
+        const syncService = new CaseSyncService(
+          supabase,
+          provider,
+          clinicId,
+          userId,
+        );
+
+        // Build date range (default: today only)
+        // Support both flat (startDate/endDate) and nested (dateRange.start/end) formats
+        const startDateStr = payload.startDate ?? payload.dateRange?.start;
+        const endDateStr = payload.endDate ?? payload.dateRange?.end;
+
+        const startDate = startDateStr ? new Date(startDateStr) : new Date();
+        startDate.setHours(0, 0, 0, 0);
+
+        const endDate = endDateStr ? new Date(endDateStr) : new Date(startDate);
+        endDate.setHours(23, 59, 59, 999);
+
+        const result = await syncService.sync({
+          startDate,
+          endDate,
+          parallelBatchSize: payload.parallelBatchSize,
+          onProgress: (update) => progress.update("enrichment", update),
+          signal,
+        });
+
+        logger.info("Outbound enrich sync completed", {
+          clinicId,
+          syncId: result.syncId,
+          stats: result.stats,
+          durationMs: result.durationMs,
+        });
+
+        return { ...result };
+      },
+    );
+  } finally {
+    await checkSupabaseAfterCleanup(clinicId);
+  }
+}
+
+/**
+ * Reconciliation (shared utility)
+ */
+async function runReconciliation(
+  job: SyncJob,
+  progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+): Promise<SyncJobResult> {
+  const payload = job.payload as unknown as ReconciliationPayload;
+  const { clinicId } = job;
+
+  logger.info("Starting reconciliation", { clinicId, jobId: job.id });
+
+  return withAuthenticatedProvider(clinicId, signal, async ({ provider }) => {
+    const supabase = createSupabaseServiceClient();
+    const reconciler = new CaseReconciler(supabase, provider, clinicId);
+
+    const result = await reconciler.reconcile({
+      lookbackDays: payload.lookbackDays,
+      dryRun: payload.dryRun,
+      onProgress: (update) => progress.update("reconciliation", update),
+      signal,
+    });
+
+    logger.info(
+      payload.dryRun
+        ? "Reconciliation preview built"
+        : "Reconciliation completed",
+      {
+        clinicId,
+        syncId: result.syncId,
+        stats: result.stats,
+        durationMs: result.durationMs,
+        deletedCases: result.deletedCases?.length ?? 0,
+      },
+    );
+
+    return { ...result, dryRun: payload.dryRun ?? false };
+  });
+}
+
+/**
+ * Apply a reviewed reconciliation preview
+ * Uses the plan stored by a dry-run reconcile job; no PIMS login needed.
+ */
+async function runReconciliationApply(
+  job: SyncJob,
+  progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+): Promise<SyncJobResult> {
+  const payload = job.payload as unknown as ReconciliationApplyPayload;
+  const { clinicId } = job;
+
+  logger.info("Applying reconciliation preview", {
+    clinicId,
+    jobId: job.id,
+    previewJobId: payload.previewJobId,
+    actions: payload.actionIds?.length ?? "all",
+  });
+
+  const supabase = createSupabaseServiceClient();
+  const preview = await new SyncJobQueue(supabase).getJob(payload.previewJobId);
+
+  if (
+    preview?.clinic_id !== clinicId ||
+    preview.job_type !== "reconcile" ||
+    (preview.payload as { dryRun?: boolean } | null)?.dryRun !== true
+  ) {
+    throw new NonRetryableJobError(
+      `Reconciliation preview not found: ${payload.previewJobId}`,
+    );
+  }
+
+  const plan = (preview.result as { plan?: ReconciliationPlan } | null)?.plan;
+  if (preview.status !== "succeeded" || !plan) {
+    throw new NonRetryableJobError(
+      `Reconciliation preview has no plan (status: ${preview.status})`,
+    );
+  }
+
+  const applier = new ReconciliationApplier(supabase, clinicId);
+  const result = await applier.apply(plan, {
+    actionIds: payload.actionIds,
+    onProgress: (update) => progress.update("reconciliation", update),
+    signal,
+  });
+
+  logger.info("Reconciliation preview applied", {
+    clinicId,
+    syncId: result.syncId,
+    stats: result.stats,
+  });
+
+  return { ...result, previewJobId: payload.previewJobId };
+}
+
+/**
+ * Undo a reconciliation run: restore the cases it soft-deleted
+ */
+async function runReconciliationUndo(job: SyncJob): Promise<SyncJobResult> {
+  const payload = job.payload as unknown as ReconciliationUndoPayload;
+  const { clinicId } = job;
+
+  if (!payload.runId) {
+    throw new NonRetryableJobError("runId is required");
+  }
+
+  logger.info("Undoing reconciliation run", {
+    clinicId,
+    jobId: job.id,
+    runId: payload.runId,
+  });
+
+  const applier = new ReconciliationApplier(
+    createSupabaseServiceClient(),
+    clinicId,
+  );
+  const result = await applier.undo(payload.runId);
+
+  return { ...result };
+}
+
+/**
+ * Outbound full sync
+ * Complete outbound workflow: cases + enrich + reconcile
+ */
+async function runOutboundFullSync(
+  job: SyncJob,
+  progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+): Promise<SyncJobResult> {
+  const payload = job.payload as unknown as OutboundFullPayload;
+  const { clinicId } = job;
+
+  logger.info("Starting outbound full sync", { clinicId, jobId: job.id });
+
+  try {
+    return await withAuthenticatedProvider(
+      clinicId,
+      signal,
+      async ({ provider, userId }) => {
+        const supabase = createSupabaseServiceClient();
+
+        // Create orchestrator with userId for AI generation
+        const orchestrator = new SyncOrchestrator(
+          supabase,
+          provider,
+          clinicId,
+          userId,
+        );
+
+        // Use bidirectional sync if requested (default: true for comprehensive sync)
+        const useBidirectional = payload.bidirectional ?? true;
+
+        if (useBidirectional) {
+          // Bidirectional sync: backward (past cases) + forward (future appointments)
+          const backwardDays =
+            payload.backwardDays ?? payload.lookbackDays ?? 7;
+          const forwardDays = payload.forwardDays ?? payload.daysAhead ?? 7;
+
+          logger.info("Running bidirectional sync", {
+            clinicId,
+            backwardDays,
+            forwardDays,
+          });
+
+          const result = await orchestrator.runBidirectionalSync({
+            lookbackDays: backwardDays,
+            forwardDays: forwardDays,
+            reconciliationLookbackDays: 7,
+            forceFullSync: payload.forceFullSync,
+            onProgress: (phase, update) => progress.update(phase, update),
+            signal,
+          });
+
+          logger.info("Outbound full sync (bidirectional) completed", {
+            clinicId,
+            phases: {
+              backwardCases: result.backwardInbound?.success,
+              forwardCases: result.forwardInbound?.success,
+              enrich: result.cases?.success,
+              reconciliation: result.reconciliation?.success,
+            },
+            durationMs: result.totalDurationMs,
+          });
+
+          return { ...result };
+        }
+
+        // Legacy forward-only sync
+        const dateRange = buildDateRange(
+          payload.startDate ?? payload.dateRange?.start,
+          payload.endDate ?? payload.dateRange?.end,
+          payload.daysAhead ?? 7,
+        );
+
+        logger.info("Running outbound full sync (forward-only)", {
+          clinicId,
+          dateRange,
+        });
+
+        const result = await orchestrator.runFullSync({
+          inboundOptions: {
+            dateRange,
+            forceFullSync: payload.forceFullSync,
+          },
+          reconciliationOptions: {
+            lookbackDays: payload.lookbackDays ?? 7,
+          },
+          onProgress: (phase, update) => progress.update(phase, update),
+          signal,
+        });
+
+        logger.info("Outbound full sync completed", {
+          clinicId,
+          phases: {
+            cases: result.inbound?.success,
+            enrich: result.cases?.success,
+            reconciliation: result.reconciliation?.success,
+          },
+          durationMs: result.totalDurationMs,
+        });
+
+        return { ...result };
+      },
+    );
+  } finally {
+    await checkSupabaseAfterCleanup(clinicId);
+  }
+}
+
+/**
+ * Combined full sync
+ * Runs both outbound (discharge calls) and inbound (VAPI scheduling) workflows.
+ * Phases fail independently and are reported in `results`.
+ */
+async function runFullSync(
+  job: SyncJob,
+  progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+): Promise<SyncJobResult> {
+  const startTime = Date.now();
+  const payload = job.payload as unknown as FullSyncPayload;
+  const { clinicId } = job;
+
+  logger.info("Starting combined full sync", {
+    clinicId,
+    jobId: job.id,
+    skipOutbound: payload.skipOutbound ?? false,
+    skipInbound: payload.skipInbound ?? false,
+  });
+
+  const results: {
+    outbound?: {
+      success: boolean;
+      phases?: Record<string, boolean | undefined>;
+      durationMs?: number;
+      error?: string;
+    };
+    inbound?: {
+      schedule?: {
+        success: boolean;
+        slotsGenerated?: number;
+        durationMs?: number;
+        error?: string;
+      };
+      appointments?: {
+        success: boolean;
+        appointmentsFound?: number;
+        durationMs?: number;
+        error?: string;
+      };
+    };
+  } = {};
+
+  const supabase = createSupabaseServiceClient();
+
+  // ========================================
+  // PHASE 1: Outbound Sync (Discharge Calls)
+  // ========================================
+  if (!payload.skipOutbound) {
+    const outboundStart = Date.now();
+    logger.info("Starting outbound phase", { clinicId });
+
+    try {
+      results.outbound = await withAuthenticatedProvider(
+        clinicId,
+        signal,
+        async ({ provider, userId }) => {
+          const orchestrator = new SyncOrchestrator(
+            supabase,
+            provider,
+            clinicId,
+            userId,
+          );
+
+          const outboundResult = await orchestrator.runBidirectionalSync({
+            lookbackDays: payload.backwardDays ?? 7,
+            forwardDays: payload.forwardDays ?? 7,
+            reconciliationLookbackDays: payload.reconciliationLookbackDays ?? 7,
+            onProgress: (phase, update) => progress.update(phase, update),
+            signal,
+          });
+
+          return {
+            success: outboundResult.success,
+            phases: {
+              backwardCases: outboundResult.backwardInbound?.success,
+              forwardCases: outboundResult.forwardInbound?.success,
+              enrich: outboundResult.cases?.success,
+              reconciliation: outboundResult.reconciliation?.success,
+            },
+            durationMs: Date.now() - outboundStart,
+          };
+        },
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Outbound phase failed", {
+        clinicId,
+        error: errorMessage,
+      });
+      results.outbound = {
+        success: false,
+        error: errorMessage,
+        durationMs: Date.now() - outboundStart,
+      };
+    }
+  }
+
+  // ========================================
+  // PHASE 2: Inbound Sync (VAPI Scheduling)
+  // ========================================
+  // Phases record their own failures; a lost lease stops the job outright
+  signal.throwIfAborted();
+
+  if (!payload.skipInbound) {
+    results.inbound = {};
+
+    // --- Phase 2a: Generate Schedule Slots ---
+    const scheduleStart = Date.now();
+    logger.info("Starting inbound schedule phase", { clinicId });
+
+    try {
+      // Get clinic config
+      const { data: clinicData, error: clinicError } = await supabase
+        .from("clinics")
+        .select("name, timezone, business_hours")
+        .eq("id", clinicId)
+        .single();
+
+      if (clinicError || !clinicData) {
+        results.inbound.schedule = {
+          success: false,
+          error: `Clinic not found: ${clinicId}`,
+          durationMs: Date.now() - scheduleStart,
+        };
+      } else if (!clinicData.business_hours) {
+        results.inbound.schedule = {
+          success: false,
+          error: "Clinic does not have business hours configured",
+          durationMs: Date.now() - scheduleStart,
+        };
+      } else {
+        const businessHours = clinicData.business_hours as BusinessHoursConfig;
+        const slotDurationMinutes = payload.slotDurationMinutes ?? 15;
+        const defaultCapacity = payload.defaultCapacity ?? 2;
+
+        const startDate = new Date();
+        startDate.setHours(0, 0, 0, 0);
+
+        const daysAhead = payload.scheduleDaysAhead ?? 30;
+        const endDate = new Date(
+          startDate.getTime() + daysAhead * 24 * 60 * 60 * 1000,
+        );
+
+        const slots = generateScheduleSlots({
+          clinicId,
+          startDate,
+          endDate,
+          businessHours,
+          slotDurationMinutes,
+          defaultCapacity,
+        });
+
+        results.inbound.schedule = {
+          success: true,
+          slotsGenerated: slots.length,
+          durationMs: Date.now() - scheduleStart,
+        };
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Inbound schedule phase failed", {
+        clinicId,
+        error: errorMessage,
+      });
+      results.inbound.schedule = {
+        success: false,
+        error: errorMessage,
+        durationMs: Date.now() - scheduleStart,
+      };
+    }
+
+    // --- Phase 2b: Sync Appointments ---
+    // Uses executeAppointmentSync service (includes room filter + soft-delete)
+    signal.throwIfAborted();
+    const appointmentStart = Date.now();
+    logger.info("Starting inbound appointments phase", { clinicId });
+
+    try {
+      results.inbound.appointments = await withAuthenticatedProvider(
+        clinicId,
+        signal,
+        async ({ provider }) => {
+          const { executeAppointmentSync } =
+            await import("../services/appointment-sync.service");
+          const syncResult = await executeAppointmentSync(
+            supabase,
+            provider,
+            clinicId,
+            { daysAhead: payload.appointmentDaysAhead ?? 14 },
+          );
+
+          return {
+            success: syncResult.success,
+            appointmentsFound: syncResult.stats.found,
+            durationMs: syncResult.durationMs,
+            ...(syncResult.error ? { error: syncResult.error } : {}),
+          };
+        },
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error("Inbound appointments phase failed", {
+        clinicId,
+        error: errorMessage,
+      });
+      results.inbound.appointments = {
+        success: false,
+        error: errorMessage,
+        durationMs: Date.now() - appointmentStart,
+      };
+    }
+  }
+
+  // Determine overall success
+  const outboundSuccess = payload.skipOutbound ?? results.outbound?.success;
+  const inboundScheduleSuccess =
+    payload.skipInbound ?? results.inbound?.schedule?.success;
+  const inboundAppointmentsSuccess =
+    payload.skipInbound ?? results.inbound?.appointments?.success;
+  const overallSuccess = Boolean(
+    outboundSuccess && inboundScheduleSuccess && inboundAppointmentsSuccess,
+  );
+
+  logger.info("Combined full sync completed", {
+    clinicId,
+    success: overallSuccess,
+    outbound: results.outbound?.success,
+    inboundSchedule: results.inbound?.schedule?.success,
+    inboundAppointments: results.inbound?.appointments?.success,
+    durationMs: Date.now() - startTime,
+  });
+
+  return {
+    success: overallSuccess,
+    clinicId,
+    results,
+    durationMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Inbound schedule sync
+ *
+ * Generates VAPI availability slots based on clinic business hours.
+ * Does not require PIMS browser authentication.
+ */
+async function runInboundScheduleSync(job: SyncJob): Promise<SyncJobResult> {
+  const startTime = Date.now();
+  const payload = job.payload as unknown as InboundSchedulePayload;
+  const { clinicId } = job;
+
+  logger.info("Starting inbound schedule sync", { clinicId, jobId: job.id });
+
+  const supabase = createSupabaseServiceClient();
+
+  // Get clinic config including business hours
+  const { data: clinicData, error: clinicError } = await supabase
+    .from("clinics")
+    .select("name, timezone, business_hours")
+    .eq("id", clinicId)
+    .single();
+
+  if (clinicError || !clinicData) {
+    throw new NonRetryableJobError(`Clinic not found: ${clinicId}`);
+  }
+
+  if (!clinicData.business_hours) {
+    throw new NonRetryableJobError(
+      "Clinic does not have business hours configured",
+    );
+  }
+
+  const businessHours = clinicData.business_hours as BusinessHoursConfig;
+  const timezone = clinicData.timezone ?? "America/Los_Angeles";
+  const slotDurationMinutes = payload.slotDurationMinutes ?? 15;
+  const defaultCapacity = payload.defaultCapacity ?? 2;
+
+  // Build date range
+  const startDate = payload.startDate
+    ? new Date(payload.startDate)
+    : new Date();
+  startDate.setHours(0, 0, 0, 0);
+
+  const daysAhead = payload.daysAhead ?? 30;
+  const endDate = payload.endDate
+    ? new Date(payload.endDate)
+    : new Date(startDate.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+
+  // Generate slots
+  const slots = generateScheduleSlots({
+    clinicId,
+    startDate,
+    endDate,
+    businessHours,
+    slotDurationMinutes,
+    defaultCapacity,
+  });
+
+  if (slots.length === 0) {
+    return {
+      success: true,
+      message: "No slots to generate (no business hours for date range)",
+      stats: {
+        daysProcessed: 0,
+        slotsGenerated: 0,
+      },
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  const dateRange = {
+    start: startDate.toISOString().split("T")[0],
+    end: endDate.toISOString().split("T")[0],
+  };
+
+  logger.info("Inbound schedule sync completed", {
+    clinicId,
+    clinicName: clinicData.name,
+    timezone,
+    dateRange,
+    stats: {
+      totalGenerated: slots.length,
+    },
+    durationMs: Date.now() - startTime,
+  });
+
+  return {
+    success: true,
+    message: `Generated ${slots.length} schedule slots`,
+    clinic: {
+      id: clinicId,
+      name: clinicData.name,
+      timezone,
+    },
+    dateRange,
+    stats: {
+      totalGenerated: slots.length,
+      slotDurationMinutes,
+      defaultCapacity,
+    },
+    durationMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Inbound appointment sync
+ *
+ * Syncs appointments from the PIMS to pims_appointments table.
+ */
+async function runInboundAppointmentSync(
+  job: SyncJob,
+  _progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+): Promise<SyncJobResult> {
+  const payload = job.payload as unknown as InboundAppointmentPayload;
+  const { clinicId } = job;
+
+  logger.info("Starting inbound appointment sync", {
+    clinicId,
+    jobId: job.id,
+  });
+
+  return withAuthenticatedProvider(clinicId, signal, async ({ provider }) => {
+    const supabase = createSupabaseServiceClient();
+
+    // Build date range options
+    const startDate = payload.startDate
+      ? new Date(payload.startDate)
+      : undefined;
+    const endDate = payload.endDate ? new Date(payload.endDate) : undefined;
+    const daysAhead = payload.daysAhead ?? 7;
+
+    // Execute appointment sync using the service
+    const { executeAppointmentSync } =
+      await import("../services/appointment-sync.service");
+    const result = await executeAppointmentSync(supabase, provider, clinicId, {
+      startDate,
+      endDate,
+      daysAhead,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        syncId: result.syncId,
+        error: result.error,
+        durationMs: result.durationMs,
+      };
+    }
+
+    return {
+      success: true,
+      syncId: result.syncId,
+      message: `Synced ${result.stats.found} appointments`,
+      clinic: { id: clinicId },
+      stats: {
+        appointmentsFound: result.stats.found,
+        appointmentsAdded: result.stats.added,
+        appointmentsUpdated: result.stats.updated,
+        appointmentsRemoved: result.stats.removed,
+      },
+      durationMs: result.durationMs,
+    };
+  });
+}
+
+/**
+ * Handlers keyed by job type
+ */
+export const SYNC_JOB_HANDLERS: Record<SyncJobType, SyncJobHandler> = {
+  outbound_cases: runOutboundCasesSync,
+  outbound_enrich: runOutboundEnrichSync,
+  outbound_full: runOutboundFullSync,
+  inbound_schedule: runInboundScheduleSync,
+  inbound_appointments: runInboundAppointmentSync,
+  full: runFullSync,
+  reconcile: runReconciliation,
+  reconcile_apply: runReconciliationApply,
+  reconcile_undo: runReconciliationUndo,
+};
+
+/**
+ * Build date range from request parameters
+ */
+function buildDateRange(
+  startDateStr?: string,
+  endDateStr?: string,
+  daysAhead = 7,
+): { start: Date; end: Date } {
+  const start = startDateStr ? new Date(startDateStr) : new Date();
+  start.setHours(0, 0, 0, 0);
+
+  const end = endDateStr
+    ? new Date(endDateStr)
+    : new Date(start.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+  end.setHours(23, 59, 59, 999);
+
+  return { start, end };
+}
+
+interface BusinessHours {
+  open: string;
+  close: string;
+  lunch_start?: string;
+  lunch_end?: string;
+}
+
+interface BusinessHoursConfig {
+  monday?: BusinessHours;
+  tuesday?: BusinessHours;
+  wednesday?: BusinessHours;
+  thursday?: BusinessHours;
+  friday?: BusinessHours;
+  saturday?: BusinessHours;
+  sunday?: BusinessHours;
+}
+
+/**
+ * Generate schedule slots for a date range based on business hours
+ */
+function generateScheduleSlots(options: {
+  clinicId: string;
+  startDate: Date;
+  endDate: Date;
+  businessHours: BusinessHoursConfig;
+  slotDurationMinutes: number;
+  defaultCapacity: number;
+}): Array<{
+  clinic_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  booked_count: number;
+  last_synced_at: string;
+}> {
+  const {
+    clinicId,
+    startDate,
+    endDate,
+    businessHours,
+    slotDurationMinutes,
+    defaultCapacity,
+  } = options;
+
+  const slots: Array<{
+    clinic_id: string;
+    date: string;
+    start_time: string;
+    end_time: string;
+    capacity: number;
+    booked_count: number;
+    last_synced_at: string;
+  }> = [];
+
+  const dayNames: Array<keyof BusinessHoursConfig> = [
+    "sunday",
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+  ];
+
+  const now = new Date().toISOString();
+  const currentDate = new Date(startDate);
+
+  while (currentDate <= endDate) {
+    const dayOfWeek = currentDate.getDay() as 0 | 1 | 2 | 3 | 4 | 5 | 6;
+    const dayName = dayNames[dayOfWeek]!;
+    const dayHours = businessHours[dayName];
+
+    if (dayHours?.open && dayHours?.close) {
+      const dateStr = currentDate.toISOString().split("T")[0]!;
+
+      // Parse times (format: "HH:MM")
+      const openParts = dayHours.open.split(":");
+      const openHour = parseInt(openParts[0] ?? "0", 10);
+      const openMin = parseInt(openParts[1] ?? "0", 10);
+
+      const closeParts = dayHours.close.split(":");
+      const closeHour = parseInt(closeParts[0] ?? "0", 10);
+      const closeMin = parseInt(closeParts[1] ?? "0", 10);
+
+      // Parse lunch times if present
+      let lunchStartMinutes: number | null = null;
+      let lunchEndMinutes: number | null = null;
+
+      if (dayHours.lunch_start && dayHours.lunch_end) {
+        const lunchStartParts = dayHours.lunch_start.split(":");
+        const lunchStartHour = parseInt(lunchStartParts[0] ?? "0", 10);
+        const lunchStartMin = parseInt(lunchStartParts[1] ?? "0", 10);
+
+        const lunchEndParts = dayHours.lunch_end.split(":");
+        const lunchEndHour = parseInt(lunchEndParts[0] ?? "0", 10);
+        const lunchEndMin = parseInt(lunchEndParts[1] ?? "0", 10);
+
+        lunchStartMinutes = lunchStartHour * 60 + lunchStartMin;
+        lunchEndMinutes = lunchEndHour * 60 + lunchEndMin;
+      }
+
+      // Generate slots
+      let currentMinutes = openHour * 60 + openMin;
+      const closeMinutes = closeHour * 60 + closeMin;
+
+      while (currentMinutes + slotDurationMinutes <= closeMinutes) {
+        // Skip lunch period
+        if (
+          lunchStartMinutes !== null &&
+          lunchEndMinutes !== null &&
+          currentMinutes >= lunchStartMinutes &&
+          currentMinutes < lunchEndMinutes
+        ) {
+          currentMinutes = lunchEndMinutes;
+          continue;
+        }
+
+        const slotStartHour = Math.floor(currentMinutes / 60);
+        const slotStartMin = currentMinutes % 60;
+        const slotEndMinutes = currentMinutes + slotDurationMinutes;
+        const slotEndHour = Math.floor(slotEndMinutes / 60);
+        const slotEndMin = slotEndMinutes % 60;
+
+        // Don't create slots that would overlap with lunch
+        if (
+          lunchStartMinutes !== null &&
+          lunchEndMinutes !== null &&
+          currentMinutes < lunchStartMinutes &&
+          slotEndMinutes > lunchStartMinutes
+        ) {
+          currentMinutes += slotDurationMinutes;
+          continue;
+        }
+
+        slots.push({
+          clinic_id: clinicId,
+          date: dateStr,
+          start_time: `${String(slotStartHour).padStart(2, "0")}:${String(slotStartMin).padStart(2, "0")}:00`,
+          end_time: `${String(slotEndHour).padStart(2, "0")}:${String(slotEndMin).padStart(2, "0")}:00`,
+          capacity: defaultCapacity,
+          booked_count: 0,
+          last_synced_at: now,
+        });
+
+        currentMinutes += slotDurationMinutes;
+      }
+    }
+
+    // Move to next day
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+
+  return slots;
+}
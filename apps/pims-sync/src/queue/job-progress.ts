@@ -0,0 +1,181 @@
+/**
+ * Sync Job Progress - Per-phase progress for running jobs
+ *
+ * Sync services report progress through onProgress (already throttled by
+ * ProgressThrottler); the tracker folds it into per-phase counts with an
+ * ETA and stores the snapshot on pims_sync_jobs.progress.
+ */
+
+import type { SyncPhase, SyncProgress } from "@odis-ai/domain/sync";
+import { createLogger } from "@odis-ai/shared/logger";
+import type { SyncJobQueue } from "./job-queue";
+import type { SyncJob, SyncJobType } from "./types";
+
+const logger = createLogger("queue:progress");
+
+/**
+ * Phases reported by each job type, in run order
+ * Types without PIMS-backed phases (schedule slots, appointment sync) report
+ * no phases and only expose the job status.
+ */
+export const SYNC_JOB_PHASES: Record<SyncJobType, SyncPhase[]> = {
+  outbound_cases: ["inbound"],
+  outbound_enrich: ["enrichment"],
+  outbound_full: ["inbound", "enrichment", "reconciliation"],
+  full: ["inbound", "enrichment", "reconciliation"],
+  reconcile: ["reconciliation"],
+  reconcile_apply: ["reconciliation"],
+  reconcile_undo: [],
+  inbound_schedule: [],
+  inbound_appointments: [],
+};
+
+export interface SyncJobPhaseProgress {
+  phase: SyncPhase;
+  status: "pending" | "running" | "completed";
+  processed: number;
+  total: number;
+  percentage: number;
+  /** Seconds left in this phase, null until there's a rate to go on */
+  etaSeconds: number | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Snapshot stored in pims_sync_jobs.progress
+ */
+export interface SyncJobProgress {
+  /** Phases weighted equally */
+  percentage: number;
+  /** Seconds left for the whole job, extrapolated from elapsed time */
+  etaSeconds: number | null;
+  currentPhase: SyncPhase | null;
+  phases: SyncJobPhaseProgress[];
+  updatedAt: string;
+}
+
+/**
+ * Handed to job handlers to report phase progress
+ */
+export interface SyncJobProgressReporter {
+  update(phase: SyncPhase, progress: SyncProgress): void;
+}
+
+/**
+ * SyncJobProgressTracker - Tracks and persists progress for one job attempt
+ */
+export class SyncJobProgressTracker implements SyncJobProgressReporter {
+  private readonly startTime = Date.now();
+  private readonly phases: SyncJobPhaseProgress[];
+  private phaseStartTimes = new Map<SyncPhase, number>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private queue: SyncJobQueue,
+    private job: SyncJob,
+    private workerId: string,
+  ) {
+    this.phases = SYNC_JOB_PHASES[job.type].map((phase) => ({
+      phase,
+      status: "pending",
+      processed: 0,
+      total: 0,
+      percentage: 0,
+      etaSeconds: null,
+      startedAt: null,
+      finishedAt: null,
+    }));
+  }
+
+  /**
+   * Persist the initial all-pending snapshot (clears a previous attempt's)
+   */
+  start(): Promise<void> {
+    return this.persist();
+  }
+
+  update(phase: SyncPhase, progress: SyncProgress): void {
+    const entry = this.phases.find((p) => p.phase === phase);
+    if (!entry) return;
+
+    const now = Date.now();
+    if (!this.phaseStartTimes.has(phase)) {
+      this.phaseStartTimes.set(phase, now);
+      entry.startedAt = new Date(now).toISOString();
+    }
+
+    // A phase that reports again (bidirectional forward inbound) is running
+    entry.status = progress.percentage >= 100 ? "completed" : "running";
+    entry.processed = progress.processed;
+    entry.total = progress.total;
+    entry.percentage = Math.min(progress.percentage, 100);
+    entry.finishedAt =
+      entry.status === "completed" ? new Date(now).toISOString() : null;
+    entry.etaSeconds = estimateRemainingSeconds(
+      now - (this.phaseStartTimes.get(phase) ?? now),
+      entry.percentage,
+    );
+
+    void this.persist();
+  }
+
+  /**
+   * Wait for queued writes so the final snapshot lands before the job settles
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  getSnapshot(): SyncJobProgress {
+    const percentage =
+      this.phases.length > 0
+        ? Math.floor(
+            this.phases.reduce((sum, p) => sum + p.percentage, 0) /
+              this.phases.length,
+          )
+        : 0;
+
+    return {
+      percentage,
+      etaSeconds: estimateRemainingSeconds(
+        Date.now() - this.startTime,
+        percentage,
+      ),
+      currentPhase:
+        this.phases.find((p) => p.status === "running")?.phase ?? null,
+      phases: this.phases.map((p) => ({ ...p })),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Writes are chained so snapshots land in order
+   */
+  private persist(): Promise<void> {
+    const snapshot = this.getSnapshot();
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      try {
+        await this.queue.updateProgress(this.job, this.workerId, snapshot);
+      } catch (error) {
+        logger.warn("Failed to save job progress", {
+          jobId: this.job.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * Linear extrapolation from elapsed time and percentage done
+ */
+function estimateRemainingSeconds(
+  elapsedMs: number,
+  percentage: number,
+): number | null {
+  if (percentage >= 100) return 0;
+  if (percentage <= 0 || elapsedMs <= 0) return null;
+  return Math.round(((elapsedMs / percentage) * (100 - percentage)) / 1000);
+}
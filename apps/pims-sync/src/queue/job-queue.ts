@@ -0,0 +1,339 @@
+/**
+ * Sync Job Queue - Postgres-backed job queue (pims_sync_jobs)
+ *
+ * Leasing and per-clinic mutual exclusion live in the
+ * claim_pims_sync_job() function; this class wraps enqueueing, lease
+ * renewal and recording attempt outcomes.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@odis-ai/shared/types";
+import { createLogger } from "@odis-ai/shared/logger";
+import type { SyncJobProgress } from "./job-progress";
+import type {
+  EnqueueSyncJobOptions,
+  SyncJob,
+  SyncJobResult,
+  SyncJobRow,
+  SyncJobType,
+} from "./types";
+
+const logger = createLogger("queue:sync-jobs");
+
+/** Default attempts before a job is dead-lettered */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30 seconds
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Backoff before retry `attempt` + 1 (30s, 60s, 120s, ... capped at 30m)
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0),
+    RETRY_MAX_DELAY_MS,
+  );
+}
+
+/**
+ * SyncJobQueue - Enqueue, lease and settle sync jobs
+ */
+export class SyncJobQueue {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Add a job to the queue
+   * With a dedupeKey, a duplicate enqueue for the same clinic and job type
+   * returns the existing job's ID.
+   */
+  async enqueue(
+    type: SyncJobType,
+    clinicId: string,
+    payload: Record<string, unknown>,
+    options: EnqueueSyncJobOptions = {},
+  ): Promise<{ id: string; deduplicated: boolean }> {
+    const { data, error } = await this.supabase
+      .from("pims_sync_jobs")
+      .insert({
+        clinic_id: clinicId,
+        job_type: type,
+        payload: payload as Json,
+        source: options.source ?? "api",
+        dedupe_key: options.dedupeKey ?? null,
+        max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        run_after: (options.runAfter ?? new Date()).toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (data) {
+      logger.info("Enqueued sync job", {
+        jobId: data.id,
+        clinicId,
+        type,
+        source: options.source ?? "api",
+      });
+      return { id: data.id, deduplicated: false };
+    }
+
+    // Unique violation on (clinic, type, dedupe_key): the job is already queued
+    if (error?.code === "23505" && options.dedupeKey) {
+      const { data: existing } = await this.supabase
+        .from("pims_sync_jobs")
+        .select("id")
+        .eq("clinic_id", clinicId)
+        .eq("job_type", type)
+        .eq("dedupe_key", options.dedupeKey)
+        .maybeSingle();
+
+      if (existing) {
+        return { id: existing.id, deduplicated: true };
+      }
+    }
+
+    throw new Error(
+      `Failed to enqueue sync job: ${error?.message ?? "Unknown error"}`,
+    );
+  }
+
+  /**
+   * Lease the next runnable job, null if there is none
+   */
+  async claim(workerId: string, leaseMs: number): Promise<SyncJob | null> {
+    const { data, error } = await this.supabase.rpc("claim_pims_sync_job", {
+      p_worker_id: workerId,
+      p_lease_seconds: Math.ceil(leaseMs / 1000),
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim sync job: ${error.message}`);
+    }
+
+    const row = data?.[0];
+    return row ? toSyncJob(row) : null;
+  }
+
+  /**
+   * Extend a running job's lease
+   * @returns false if the lease was lost (expired and taken over)
+   */
+  async renewLease(
+    job: SyncJob,
+    workerId: string,
+    leaseMs: number,
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("pims_sync_jobs")
+      .update({
+        locked_until: new Date(Date.now() + leaseMs).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", workerId)
+      .select("id");
+
+    if (error) {
+      logger.warn("Failed to renew job lease", {
+        jobId: job.id,
+        error: error.message,
+      });
+      // Transient DB error: assume we still hold it, the next renewal will tell
+      return true;
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Store the running job's progress snapshot
+   */
+  async updateProgress(
+    job: SyncJob,
+    workerId: string,
+    progress: SyncJobProgress,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("pims_sync_jobs")
+      .update({
+        progress: progress as unknown as Json,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", workerId);
+
+    if (error) {
+      throw new Error(`Failed to update job progress: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record a finished run
+   * `result.success: false` means the sync ran but reported errors.
+   */
+  async complete(
+    job: SyncJob,
+    workerId: string,
+    result: SyncJobResult,
+  ): Promise<void> {
+    const status = result.success ? "succeeded" : "failed";
+
+    await this.settle(job, workerId, {
+      status,
+      result: result as unknown as Json,
+      last_error: result.success ? null : extractResultError(result),
+      finished_at: new Date().toISOString(),
+    });
+
+    await this.recordAttempt(job, workerId, status, null);
+  }
+
+  /**
+   * Record a thrown error: retry with backoff, or dead-letter when attempts
+   * are exhausted or the error isn't retryable
+   */
+  async fail(
+    job: SyncJob,
+    workerId: string,
+    error: string,
+    retryable: boolean,
+  ): Promise<"retrying" | "dead_letter"> {
+    const willRetry = retryable && job.attempts < job.maxAttempts;
+
+    if (willRetry) {
+      await this.settle(job, workerId, {
+        status: "queued",
+        last_error: error,
+        run_after: new Date(
+          Date.now() + getRetryDelayMs(job.attempts),
+        ).toISOString(),
+      });
+    } else {
+      await this.settle(job, workerId, {
+        status: "dead_letter",
+        last_error: error,
+        finished_at: new Date().toISOString(),
+      });
+    }
+
+    const outcome = willRetry ? "retrying" : "dead_letter";
+    await this.recordAttempt(job, workerId, outcome, error);
+    return outcome;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(id: string): Promise<SyncJobRow | null> {
+    const { data, error } = await this.supabase
+      .from("pims_sync_jobs")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load sync job: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Release the lease with the job's new state
+   * Guarded by locked_by so a worker that lost its lease can't clobber
+   * the job after another worker has picked it up.
+   */
+  private async settle(
+    job: SyncJob,
+    workerId: string,
+    update: Database["public"]["Tables"]["pims_sync_jobs"]["Update"],
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("pims_sync_jobs")
+      .update({
+        ...update,
+        locked_by: null,
+        locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", workerId)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to update sync job: ${error.message}`);
+    }
+
+    if (!data?.length) {
+      logger.warn("Job lease lost before settling, outcome discarded", {
+        jobId: job.id,
+        workerId,
+        status: update.status,
+      });
+    }
+  }
+
+  /**
+   * Append an attempt to pims_sync_job_history
+   */
+  private async recordAttempt(
+    job: SyncJob,
+    workerId: string,
+    status: "succeeded" | "failed" | "retrying" | "dead_letter",
+    error: string | null,
+  ): Promise<void> {
+    const finishedAt = new Date();
+    const { error: insertError } = await this.supabase
+      .from("pims_sync_job_history")
+      .insert({
+        job_id: job.id,
+        clinic_id: job.clinicId,
+        job_type: job.type,
+        attempt: job.attempts,
+        worker_id: workerId,
+        status,
+        error,
+        started_at: job.startedAt,
+        finished_at: finishedAt.toISOString(),
+        duration_ms: job.startedAt
+          ? finishedAt.getTime() - new Date(job.startedAt).getTime()
+          : null,
+      });
+
+    if (insertError) {
+      logger.error("Failed to record job history", {
+        jobId: job.id,
+        error: insertError.message,
+      });
+    }
+  }
+}
+
+function toSyncJob(row: SyncJobRow): SyncJob {
+  return {
+    id: row.id,
+    clinicId: row.clinic_id,
+    type: row.job_type as SyncJobType,
+    payload:
+      row.payload &&
+      typeof row.payload === "object" &&
+      !Array.isArray(row.payload)
+        ? row.payload
+        : {},
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    startedAt: row.started_at,
+  };
+}
+
+function extractResultError(result: SyncJobResult): string {
+  if (typeof result.error === "string") return result.error;
+  if (Array.isArray(result.errors) && result.errors.length > 0) {
+    const first = result.errors[0] as { message?: unknown };
+    if (typeof first?.message === "string") return first.message;
+  }
+  return "Sync completed with errors";
+}
@@ -0,0 +1,247 @@
+/**
+ * Sync Job Worker - Runs queued sync jobs from pims_sync_jobs
+ */
+
+import { hostname } from "node:os";
+import { createLogger } from "@odis-ai/shared/logger";
+import type { SyncJobQueue } from "./job-queue";
+import { SyncJobProgressTracker } from "./job-progress";
+import {
+  JobLeaseLostError,
+  NonRetryableJobError,
+  type SyncJob,
+  type SyncJobHandler,
+  type SyncJobType,
+} from "./types";
+
+const logger = createLogger("queue:worker");
+
+export interface SyncJobWorkerOptions {
+  /** Jobs run in parallel by this worker (each holds a browser for IDEXX) */
+  concurrency?: number;
+  /** How often to look for work when idle */
+  pollIntervalMs?: number;
+  /** Lease length; renewed every third of it while the job runs */
+  leaseMs?: number;
+}
+
+/**
+ * SyncJobWorker - Leases and executes sync jobs
+ *
+ * Responsibilities:
+ * - Poll the queue and claim jobs up to `concurrency`
+ * - Keep leases alive while handlers run, aborting handlers that lose one
+ * - Persist per-phase progress reported by handlers
+ * - Record success, retry or dead-letter outcomes
+ * - Graceful shutdown (stop claiming, wait for running jobs)
+ */
+export class SyncJobWorker {
+  readonly workerId = `${hostname()}:${process.pid}`;
+
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private running = new Map<string, Promise<void>>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isPolling = false;
+  private processed = 0;
+  private failed = 0;
+
+  constructor(
+    private queue: SyncJobQueue,
+    private handlers: Record<SyncJobType, SyncJobHandler>,
+    options: SyncJobWorkerOptions = {},
+  ) {
+    this.concurrency = options.concurrency ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.leaseMs = options.leaseMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn("Sync worker already running");
+      return;
+    }
+
+    this.isRunning = true;
+    this.pollTimer = setInterval(() => void this.poll(), this.pollIntervalMs);
+    void this.poll();
+
+    logger.info("Sync worker started", {
+      workerId: this.workerId,
+      concurrency: this.concurrency,
+      pollIntervalMs: this.pollIntervalMs,
+    });
+  }
+
+  /**
+   * Stop claiming jobs and wait for running ones to settle
+   * Jobs still running when the process exits are recovered via lease expiry.
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    logger.info("Stopping sync worker, waiting for running jobs", {
+      running: this.running.size,
+    });
+    await Promise.allSettled(this.running.values());
+    logger.info("Sync worker stopped");
+  }
+
+  /**
+   * Get worker status
+   */
+  getStatus(): {
+    running: boolean;
+    workerId: string;
+    concurrency: number;
+    activeJobs: string[];
+    processed: number;
+    failed: number;
+  } {
+    return {
+      running: this.isRunning,
+      workerId: this.workerId,
+      concurrency: this.concurrency,
+      activeJobs: [...this.running.keys()],
+      processed: this.processed,
+      failed: this.failed,
+    };
+  }
+
+  /**
+   * Claim jobs until the worker is full or the queue has nothing runnable
+   */
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      while (this.isRunning && this.running.size < this.concurrency) {
+        const job = await this.queue.claim(this.workerId, this.leaseMs);
+        if (!job) break;
+
+        const execution = this.execute(job).finally(() => {
+          this.running.delete(job.id);
+        });
+        this.running.set(job.id, execution);
+      }
+    } catch (error) {
+      logger.error("Failed to poll sync job queue", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Run one job, renewing its lease until the handler settles
+   * A lost lease aborts the handler and drops its outcome: another worker
+   * may already have claimed the job.
+   */
+  private async execute(job: SyncJob): Promise<void> {
+    const jobLogger = logger.child(job.type);
+    jobLogger.info("Running sync job", {
+      jobId: job.id,
+      clinicId: job.clinicId,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+    });
+
+    const lease = new AbortController();
+    const checkLease = async (): Promise<void> => {
+      const held = await this.queue.renewLease(
+        job,
+        this.workerId,
+        this.leaseMs,
+      );
+      if (!held && !lease.signal.aborted) {
+        jobLogger.warn("Lost lease on running job, aborting", {
+          jobId: job.id,
+        });
+        lease.abort(new JobLeaseLostError(job.id));
+      }
+    };
+
+    const heartbeat = setInterval(() => void checkLease(), this.leaseMs / 3);
+
+    const progress = new SyncJobProgressTracker(this.queue, job, this.workerId);
+
+    try {
+      const handler = this.handlers[job.type];
+      if (!handler) {
+        throw new NonRetryableJobError(`Unknown sync job type: ${job.type}`);
+      }
+
+      await progress.start();
+      const result = await handler(job, progress, lease.signal);
+
+      // Only record the result while we still hold the job
+      await checkLease();
+      lease.signal.throwIfAborted();
+
+      await progress.flush();
+      await this.queue.complete(job, this.workerId, result);
+
+      this.processed++;
+      jobLogger.info("Sync job finished", {
+        jobId: job.id,
+        clinicId: job.clinicId,
+        success: result.success,
+      });
+    } catch (error) {
+      if (lease.signal.aborted) {
+        jobLogger.warn("Dropped outcome of sync job after losing its lease", {
+          jobId: job.id,
+          clinicId: job.clinicId,
+        });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const retryable = !(error instanceof NonRetryableJobError);
+
+      this.failed++;
+      await progress.flush();
+      try {
+        const outcome = await this.queue.fail(
+          job,
+          this.workerId,
+          message,
+          retryable,
+        );
+        jobLogger.error("Sync job failed", {
+          jobId: job.id,
+          clinicId: job.clinicId,
+          attempt: job.attempts,
+          outcome,
+          error: message,
+        });
+      } catch (settleError) {
+        // Lease will expire and the claim will requeue it
+        jobLogger.error("Failed to record sync job failure", {
+          jobId: job.id,
+          error:
+            settleError instanceof Error
+              ? settleError.message
+              : "Unknown error",
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Sync Job Queue Types
+ */
+
+import type { Database } from "@odis-ai/shared/types";
+import type { SyncJobProgressReporter } from "./job-progress";
+
+/**
+ * Job types, one per /api/sync/* operation
+ */
+export type SyncJobType =
+  | "outbound_cases"
+  | "outbound_enrich"
+  | "outbound_full"
+  | "inbound_schedule"
+  | "inbound_appointments"
+  | "full"
+  | "reconcile"
+  | "reconcile_apply"
+  | "reconcile_undo";
+
+export type SyncJobStatus =
+  "queued" | "running" | "succeeded" | "failed" | "dead_letter";
+
+export type SyncJobSource = "api" | "schedule";
+
+export type SyncJobRow = Database["public"]["Tables"]["pims_sync_jobs"]["Row"];
+
+/**
+ * A leased job as seen by the worker
+ */
+export interface SyncJob {
+  id: string;
+  clinicId: string;
+  type: SyncJobType;
+  /** The original request body (clinicId plus operation options) */
+  payload: Record<string, unknown>;
+  attempts: number;
+  maxAttempts: number;
+  startedAt: string | null;
+}
+
+/**
+ * What a job handler returns; stored in pims_sync_jobs.result
+ * `success: false` marks the job failed without retrying (the sync ran
+ * but reported errors). Throw to retry.
+ */
+export interface SyncJobResult {
+  success: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Runs one job attempt
+ * `signal` aborts when the worker loses the job's lease; handlers pass it to
+ * the sync services so they stop writing once another worker may own the job.
+ */
+export type SyncJobHandler = (
+  job: SyncJob,
+  progress: SyncJobProgressReporter,
+  signal: AbortSignal,
+) => Promise<SyncJobResult>;
+
+export interface EnqueueSyncJobOptions {
+  source?: SyncJobSource;
+  /** Duplicate enqueues with the same key, clinic and type return the existing job */
+  dedupeKey?: string;
+  maxAttempts?: number;
+  runAfter?: Date;
+}
+
+/**
+ * Thrown by handlers for failures that retrying won't fix
+ * (unknown clinic, missing configuration). Dead-letters the job immediately.
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableJobError";
+  }
+}
+
+/**
+ * Abort reason when a worker's lease on a running job lapses
+ * The job may already be running elsewhere, so this attempt's outcome is dropped.
+ */
+export class JobLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost lease on sync job ${jobId}`);
+    this.name = "JobLeaseLostError";
+  }
+}
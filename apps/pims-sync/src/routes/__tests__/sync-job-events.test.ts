@@ -0,0 +1,148 @@
+/**
+ * Tests for GET /api/sync/jobs/:id/events
+ * - Streams progress while the job changes and done once it finishes
+ * - 404 for unknown jobs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import type { SyncJobRow } from "../../queue";
+
+const getJob = vi.fn<(id: string) => Promise<SyncJobRow | null>>();
+
+vi.mock("../../queue", () => ({
+  SyncJobQueue: class {
+    getJob = getJob;
+  },
+}));
+
+vi.mock("../../lib/supabase", () => ({
+  createSupabaseServiceClient: vi.fn(() => ({})),
+}));
+
+vi.mock("../../middleware", () => ({
+  apiKeyAuth: () => (_req: unknown, _res: unknown, next: () => void) => {
+    next();
+  },
+}));
+
+import { syncRouter } from "../sync.route";
+
+function jobRow(overrides: Partial<SyncJobRow>): SyncJobRow {
+  return {
+    id: "job-1",
+    clinic_id: "clinic-1",
+    job_type: "outbound_cases",
+    status: "running",
+    source: "api",
+    attempts: 1,
+    max_attempts: 3,
+    run_after: "2026-03-10T17:00:00.000Z",
+    created_at: "2026-03-10T17:00:00.000Z",
+    started_at: "2026-03-10T17:00:01.000Z",
+    finished_at: null,
+    updated_at: "2026-03-10T17:00:01.000Z",
+    progress: null,
+    last_error: null,
+    result: null,
+    ...overrides,
+  } as SyncJobRow;
+}
+
+/**
+ * Parse an SSE body into its events
+ */
+function parseEvents(body: string): Array<{ event: string; data: unknown }> {
+  return body
+    .split("\n\n")
+    .filter((chunk) => chunk.startsWith("event: "))
+    .map((chunk) => {
+      const [eventLine, dataLine] = chunk.split("\n");
+      return {
+        event: eventLine?.slice("event: ".length) ?? "",
+        data: JSON.parse(dataLine?.slice("data: ".length) ?? "null"),
+      };
+    });
+}
+
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  getJob.mockReset();
+  const app = express();
+  app.use("/api/sync", syncRouter);
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("GET /api/sync/jobs/:id/events", () => {
+  it("streams progress until the job finishes", async () => {
+    const progress = { percentage: 50, phases: [] };
+    getJob
+      .mockResolvedValueOnce(jobRow({}))
+      // Unchanged since the last event: not sent again
+      .mockResolvedValueOnce(jobRow({}))
+      .mockResolvedValueOnce(
+        jobRow({ updated_at: "2026-03-10T17:00:05.000Z", progress }),
+      )
+      .mockResolvedValueOnce(
+        jobRow({
+          status: "succeeded",
+          finished_at: "2026-03-10T17:00:09.000Z",
+          result: { success: true },
+        }),
+      );
+
+    const response = await fetch(`${baseUrl}/api/sync/jobs/job-1/events`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+    const events = parseEvents(await response.text());
+    expect(events.map((e) => e.event)).toEqual([
+      "progress",
+      "progress",
+      "done",
+    ]);
+    expect(events[1]?.data).toMatchObject({ id: "job-1", progress });
+    expect(events[2]?.data).toMatchObject({
+      status: "succeeded",
+      result: { success: true },
+    });
+  }, 10_000);
+
+  it("ends with done straight away for a finished job", async () => {
+    getJob.mockResolvedValueOnce(jobRow({ status: "dead_letter" }));
+
+    const response = await fetch(`${baseUrl}/api/sync/jobs/job-1/events`);
+    const events = parseEvents(await response.text());
+
+    expect(events).toEqual([
+      {
+        event: "done",
+        data: expect.objectContaining({ status: "dead_letter" }),
+      },
+    ]);
+    expect(getJob).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns 404 for an unknown job", async () => {
+    getJob.mockResolvedValueOnce(null);
+
+    const response = await fetch(`${baseUrl}/api/sync/jobs/missing/events`);
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({
+      success: false,
+      error: "Sync job not found: missing",
+    });
+  });
+});
@@ -4,17 +4,28 @@
  * API routes for PIMS appointment operations.
  *
  * Endpoints:
+ * - POST /api/appointments/capabilities   - Write operations the clinic's PIMS supports
  * - POST /api/appointments/search-patient - Search for existing patients
  * - POST /api/appointments/create         - Create appointment (existing or new client)
  * - POST /api/appointments/cancel         - Cancel appointment
- * - POST /api/appointments/reschedule     - Cancel old + create new (atomic reschedule)
+ * - POST /api/appointments/reschedule     - Move appointment to a new time
+ * - POST /api/appointments/confirm        - Mark appointment confirmed by the client
+ *
+ * Write endpoints respond 501 with `code: "unsupported_capability"` when the
+ * clinic's PIMS can't perform the operation, so callers can fall back to an
+ * ODIS-side hold instead.
  */
 
 import { Router } from "express";
 import type { Request, Response, NextFunction } from "express";
+import {
+  getPimsTypeCapabilities,
+  hasPimsCapability,
+  type PimsWriteCapability,
+} from "@odis-ai/shared/types";
 import { logger } from "../lib/logger";
 import { apiKeyAuth, type AuthenticatedRequest } from "../middleware";
-import { createProviderForClinic } from "../services";
+import { createProviderForClinic, resolveProviderPimsType } from "../services";
 import { buildErrorResponse, extractErrorMessage } from "../lib/response";
 import { calculateEndTime } from "../lib/date-utils";
 
@@ -65,7 +76,7 @@ interface CreateAppointmentRequest {
   reason: string;
   note?: string;
 
-  // Optional IDEXX-specific fields
+  // Optional PIMS-specific fields
   providerId?: string;
   appointmentTypeId?: string;
   roomId?: string;
@@ -74,10 +85,17 @@ interface CreateAppointmentRequest {
 interface CancelAppointmentRequest {
   /** Clinic ID (required) */
   clinicId: string;
-  appointmentId: string; // IDEXX Neo appointment ID
+  appointmentId: string; // PIMS appointment ID
   reason?: string;
 }
 
+interface ConfirmAppointmentRequest {
+  /** Clinic ID (required) */
+  clinicId: string;
+  appointmentId: string; // PIMS appointment ID
+  note?: string;
+}
+
 interface RescheduleAppointmentRequest {
   /** Clinic ID (required) */
   clinicId: string;
@@ -98,6 +116,88 @@ interface RescheduleAppointmentRequest {
   roomId?: string;
 }
 
+/* ========================================
+   Capability helpers
+   ======================================== */
+
+/**
+ * Respond 501 when the clinic's PIMS doesn't support a write operation
+ */
+function sendUnsupported(
+  res: Response,
+  capability: PimsWriteCapability,
+  pimsType: string,
+  startTime: number,
+): void {
+  res.status(501).json({
+    success: false,
+    error: `${pimsType} does not support ${capability}`,
+    code: "unsupported_capability",
+    capability,
+    pimsType,
+    durationMs: Date.now() - startTime,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/* ========================================
+   POST /api/appointments/capabilities
+   ======================================== */
+
+interface CapabilitiesRequest {
+  /** Clinic ID (required) */
+  clinicId: string;
+}
+
+appointmentsRouter.post("/capabilities", (req: Request, res: Response) => {
+  void handleCapabilities(req as AuthenticatedRequest, res);
+});
+
+async function handleCapabilities(
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> {
+  const startTime = Date.now();
+  const { clinicId } = req.body as CapabilitiesRequest;
+
+  if (!clinicId) {
+    res.status(400).json({
+      success: false,
+      error: "clinicId is required in request body",
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  try {
+    // Capabilities are static per PIMS type, no provider needed
+    const pimsType = await resolveProviderPimsType(clinicId);
+
+    if (!pimsType) {
+      res.status(404).json({
+        success: false,
+        error: `Clinic not found: ${clinicId}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      pimsType,
+      capabilities: getPimsTypeCapabilities(pimsType),
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error("Capability lookup failed", {
+      clinicId,
+      error: extractErrorMessage(error),
+    });
+    res.status(500).json(buildErrorResponse(error, startTime));
+  }
+}
+
 /* ========================================
    POST /api/appointments/search-patient
    ======================================== */
@@ -135,11 +235,17 @@ async function handleSearchPatient(
   logger.info("Searching patients", { clinicId, query: body.query });
 
   try {
-    const { provider, cleanup } = await createProviderForClinic(clinicId, {
-      authenticate: true,
-    });
+    const { provider, pimsType, cleanup } = await createProviderForClinic(
+      clinicId,
+      { authenticate: true },
+    );
 
     try {
+      if (!hasPimsCapability(provider, "searchPatient")) {
+        sendUnsupported(res, "searchPatient", pimsType, startTime);
+        return;
+      }
+
       const result = await provider.searchPatient({
         query: body.query,
         limit: body.limit ?? 10,
@@ -234,49 +340,35 @@ async function handleCreateAppointment(
   });
 
   try {
-    const { provider, cleanup } = await createProviderForClinic(clinicId, {
-      authenticate: true,
-    });
+    const { provider, pimsType, cleanup } = await createProviderForClinic(
+      clinicId,
+      { authenticate: true },
+    );
 
     try {
+      if (!hasPimsCapability(provider, "createAppointment")) {
+        sendUnsupported(res, "createAppointment", pimsType, startTime);
+        return;
+      }
+
       // Calculate end time if not provided (default 15 minutes)
       const endTime = body.endTime ?? calculateEndTime(body.startTime, 15);
 
-      let result;
-
-      if (isNewClient) {
-        // Create appointment with new client/patient
-        result = await provider.createAppointmentWithNewClient({
-          newClient: body.newClient!,
-          newPatient: body.newPatient!,
-          date: body.date,
-          startTime: body.startTime,
-          endTime,
-          reason: body.reason,
-          note: body.note,
-          providerId: body.providerId,
-          appointmentTypeId: body.appointmentTypeId,
-          roomId: body.roomId,
-        });
-        logger.debug("Create appointment with new client result", { result });
-      } else {
-        // Create appointment for existing patient
-        result = await provider.createAppointment({
-          patientId: body.patientId!,
-          clientId: body.clientId,
-          date: body.date,
-          startTime: body.startTime,
-          endTime,
-          reason: body.reason,
-          note: body.note,
-          providerId: body.providerId,
-          appointmentTypeId: body.appointmentTypeId,
-          roomId: body.roomId,
-        });
-        logger.debug("Create appointment for existing patient result", {
-          result,
-        });
-      }
+      // New clients are registered by the provider before booking
+      const result = await provider.createAppointment({
+        ...(isNewClient
+          ? { newClient: body.newClient!, newPatient: body.newPatient! }
+          : { patientId: body.patientId!, clientId: body.clientId }),
+        date: body.date,
+        startTime: body.startTime,
+        endTime,
+        reason: body.reason,
+        note: body.note,
+        providerId: body.providerId,
+        appointmentTypeId: body.appointmentTypeId,
+        roomId: body.roomId,
+      });
+      logger.debug("Create appointment result", { isNewClient, result });
 
       logger.info("Appointment creation completed", {
         clinicId,
@@ -341,14 +433,19 @@ async function handleCancelAppointment(
   });
 
   try {
-    const { provider, cleanup } = await createProviderForClinic(clinicId, {
-      authenticate: true,
-    });
+    const { provider, pimsType, cleanup } = await createProviderForClinic(
+      clinicId,
+      { authenticate: true },
+    );
 
     try {
+      if (!hasPimsCapability(provider, "cancelAppointment")) {
+        sendUnsupported(res, "cancelAppointment", pimsType, startTime);
+        return;
+      }
+
       const result = await provider.cancelAppointment({
         appointmentId: body.appointmentId,
-        action: "cancel",
         reason: body.reason ?? "Cancelled via phone",
       });
 
@@ -427,42 +524,22 @@ async function handleRescheduleAppointment(
   });
 
   try {
-    const { provider, cleanup } = await createProviderForClinic(clinicId, {
-      authenticate: true,
-    });
+    const { provider, pimsType, cleanup } = await createProviderForClinic(
+      clinicId,
+      { authenticate: true },
+    );
 
     try {
-      // Step 1: Cancel original appointment
-      const cancelResult = await provider.cancelAppointment({
-        appointmentId: body.cancelAppointmentId,
-        action: "cancel",
-        reason: "Rescheduled via phone",
-      });
-
-      if (!cancelResult.success) {
-        logger.error(
-          "Failed to cancel original appointment during reschedule",
-          {
-            clinicId,
-            appointmentId: body.cancelAppointmentId,
-            error: cancelResult.error,
-          },
-        );
-
-        res.status(400).json({
-          success: false,
-          error: cancelResult.error ?? "Failed to cancel original appointment",
-          phase: "cancel",
-          durationMs: Date.now() - startTime,
-          timestamp: new Date().toISOString(),
-        });
+      if (!hasPimsCapability(provider, "rescheduleAppointment")) {
+        sendUnsupported(res, "rescheduleAppointment", pimsType, startTime);
         return;
       }
 
-      // Step 2: Create new appointment
       const endTime = body.endTime ?? calculateEndTime(body.startTime, 15);
 
-      const createResult = await provider.createAppointment({
+      const result = await provider.rescheduleAppointment({
+        appointmentId: body.cancelAppointmentId,
+        cancelReason: "Rescheduled via phone",
         patientId: body.patientId,
         clientId: body.clientId,
         date: body.date,
@@ -475,23 +552,36 @@ async function handleRescheduleAppointment(
         roomId: body.roomId,
       });
 
-      if (!createResult.success) {
-        // Rollback: Log the failure (can't uncancel in IDEXX)
+      if (!result.success) {
+        // Providers that reschedule by cancel + create can fail after the
+        // original is already cancelled, which needs manual rollback
+        const rollbackRequired =
+          result.error?.code === "reschedule_create_failed";
+
         logger.error(
-          "Failed to create new appointment during reschedule - ROLLBACK NEEDED",
+          rollbackRequired
+            ? "Failed to create new appointment during reschedule - ROLLBACK NEEDED"
+            : "Failed to reschedule appointment",
           {
             clinicId,
-            cancelledAppointmentId: body.cancelAppointmentId,
-            error: createResult.error,
+            appointmentId: body.cancelAppointmentId,
+            error: result.error,
           },
         );
 
         res.status(400).json({
           success: false,
-          error: createResult.error ?? "Failed to create new appointment",
-          phase: "create",
-          cancelledAppointmentId: body.cancelAppointmentId,
-          rollbackRequired: true,
+          error: result.error ?? "Failed to reschedule appointment",
+          ...(result.error?.code === "reschedule_cancel_failed"
+            ? { phase: "cancel" }
+            : {}),
+          ...(rollbackRequired
+            ? {
+                phase: "create",
+                cancelledAppointmentId: body.cancelAppointmentId,
+                rollbackRequired: true,
+              }
+            : {}),
           durationMs: Date.now() - startTime,
           timestamp: new Date().toISOString(),
         });
@@ -501,13 +591,13 @@ async function handleRescheduleAppointment(
       logger.info("Appointment reschedule completed", {
         clinicId,
         cancelledAppointmentId: body.cancelAppointmentId,
-        newAppointmentId: createResult.appointmentId,
+        newAppointmentId: result.appointmentId,
       });
 
       res.status(200).json({
         success: true,
         cancelledAppointmentId: body.cancelAppointmentId,
-        newAppointmentId: createResult.appointmentId,
+        newAppointmentId: result.appointmentId,
         durationMs: Date.now() - startTime,
         timestamp: new Date().toISOString(),
       });
@@ -523,3 +613,84 @@ async function handleRescheduleAppointment(
     res.status(500).json(buildErrorResponse(error, startTime));
   }
 }
+
+/* ========================================
+   POST /api/appointments/confirm
+   ======================================== */
+
+appointmentsRouter.post("/confirm", (req: Request, res: Response) => {
+  void handleConfirmAppointment(req as AuthenticatedRequest, res);
+});
+
+async function handleConfirmAppointment(
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> {
+  const startTime = Date.now();
+  const body = req.body as ConfirmAppointmentRequest;
+  const { clinicId } = body;
+
+  if (!clinicId) {
+    res.status(400).json({
+      success: false,
+      error: "clinicId is required in request body",
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  if (!body.appointmentId) {
+    res.status(400).json({
+      success: false,
+      error: "appointmentId is required",
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  logger.info("Confirming appointment", {
+    clinicId,
+    appointmentId: body.appointmentId,
+  });
+
+  try {
+    const { provider, pimsType, cleanup } = await createProviderForClinic(
+      clinicId,
+      { authenticate: true },
+    );
+
+    try {
+      if (!hasPimsCapability(provider, "confirmAppointment")) {
+        sendUnsupported(res, "confirmAppointment", pimsType, startTime);
+        return;
+      }
+
+      const result = await provider.confirmAppointment({
+        appointmentId: body.appointmentId,
+        note: body.note,
+      });
+
+      logger.info("Appointment confirmation completed", {
+        clinicId,
+        appointmentId: body.appointmentId,
+        success: result.success,
+      });
+
+      res.status(result.success ? 200 : 400).json({
+        ...result,
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      await cleanup();
+    }
+  } catch (error) {
+    logger.error("Appointment confirmation failed", {
+      clinicId,
+      appointmentId: body.appointmentId,
+      error: extractErrorMessage(error),
+    });
+
+    res.status(500).json(buildErrorResponse(error, startTime));
+  }
+}
@@ -10,6 +10,7 @@ import type { Request, Response } from "express";
 import { config, SERVICE_INFO, HEALTH_THRESHOLDS } from "../config";
 import type { HealthResponse, HealthCheck } from "../types";
 import { getSchedulerInstance } from "../lib/scheduler-manager";
+import { getWorkerInstance } from "../lib/worker-manager";
 
 export const healthRouter: ReturnType<typeof Router> = Router();
 
@@ -76,6 +77,23 @@ healthRouter.get("/health", (req: Request, res: Response) => {
     });
   }
 
+  // Check 5: Job queue worker status (if enabled)
+  const worker = getWorkerInstance();
+  if (worker) {
+    const workerStatus = worker.getStatus();
+    checks.push({
+      name: "worker",
+      status: workerStatus.running ? "pass" : "fail",
+      message: `${workerStatus.running ? "Running" : "Stopped"} - ${workerStatus.activeJobs.length}/${workerStatus.concurrency} jobs active`,
+    });
+  } else if (config.ENABLE_SYNC_WORKER) {
+    checks.push({
+      name: "worker",
+      status: "warn",
+      message: "Sync worker enabled but not initialized",
+    });
+  }
+
   const allHealthy = checks.every(
     (check) => check.status === "pass" || check.status === "warn",
   );
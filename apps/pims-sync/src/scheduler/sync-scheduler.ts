@@ -1,18 +1,16 @@
 /**
  * Sync Scheduler - Per-clinic cron scheduling for PIMS sync jobs
+ *
+ * Cron ticks only enqueue jobs on the durable queue; the SyncJobWorker runs
+ * them. Every replica may tick, the per-tick dedupe key keeps it to one job.
  */
 
 import cron from "node-cron";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@odis-ai/shared/types";
-import type { IPimsProvider } from "@odis-ai/domain/sync";
-import {
-  InboundSyncService,
-  CaseSyncService,
-  CaseReconciler,
-} from "@odis-ai/domain/sync";
 import { createLogger } from "@odis-ai/shared/logger";
-import type { ClinicScheduleConfig } from "./config-loader";
+import type { SyncJobQueue, SyncJobType } from "../queue";
+import type { ClinicScheduleConfig, ClinicSyncSchedule } from "./config-loader";
 import { loadClinicSchedules } from "./config-loader";
 
 const logger = createLogger("scheduler:sync");
@@ -33,7 +31,7 @@ interface ScheduledJob {
  * - Load clinic schedules from database
  * - Create cron jobs for each enabled schedule
  * - Poll for schedule config changes
- * - Execute sync operations on schedule
+ * - Enqueue sync jobs on schedule
  * - Graceful shutdown (stop all jobs)
  */
 export class SyncScheduler {
@@ -43,7 +41,7 @@ export class SyncScheduler {
 
   constructor(
     private supabase: SupabaseClient<Database>,
-    private providerFactory: (clinicId: string) => Promise<IPimsProvider>,
+    private queue: SyncJobQueue,
   ) {}
 
   /**
@@ -217,12 +215,12 @@ export class SyncScheduler {
       const task = cron.schedule(
         schedule.cron,
         () => {
-          this.executeSyncJob(
+          this.enqueueSyncJob(
             config.clinicId,
             config.clinicName,
             schedule.type,
           ).catch((error) => {
-            logger.error("Sync job failed", {
+            logger.error("Failed to enqueue scheduled sync job", {
               clinicId: config.clinicId,
               clinicName: config.clinicName,
               type: schedule.type,
@@ -255,108 +253,73 @@ export class SyncScheduler {
   }
 
   /**
-   * Execute a scheduled sync job
+   * Enqueue a scheduled sync job
+   * The dedupe key is per clinic, type and minute, so replicas that fire
+   * the same tick produce one job.
    */
-  private async executeSyncJob(
+  private async enqueueSyncJob(
     clinicId: string,
     clinicName: string,
-    type: "inbound" | "cases" | "reconciliation",
+    type: ClinicSyncSchedule["type"],
   ): Promise<void> {
-    const jobLogger = logger.child(`${type}-job`);
-
-    jobLogger.info("Starting scheduled sync job", { clinicId, clinicName });
-
-    try {
-      const provider = await this.providerFactory(clinicId);
-
-      switch (type) {
-        case "inbound": {
-          const syncService = new InboundSyncService(
-            this.supabase,
-            provider,
-            clinicId,
-          );
-
-          const result = await syncService.sync({
-            dateRange: this.getDefaultDateRange(),
-          });
+    const tick = new Date();
+    tick.setSeconds(0, 0);
+
+    const { jobType, payload } = this.buildScheduledJob(clinicId, type);
+    const { id, deduplicated } = await this.queue.enqueue(
+      jobType,
+      clinicId,
+      payload,
+      {
+        source: "schedule",
+        dedupeKey: `schedule:${clinicId}:${type}:${tick.toISOString()}`,
+      },
+    );
 
-          jobLogger.info("Inbound sync completed", {
-            clinicId,
-            clinicName,
-            success: result.success,
-            stats: result.stats,
-            durationMs: result.durationMs,
-          });
-          break;
-        }
+    logger.info("Scheduled sync job enqueued", {
+      jobId: id,
+      clinicId,
+      clinicName,
+      type,
+      deduplicated,
+    });
+  }
 
-        case "cases": {
-          const syncService = new CaseSyncService(
-            this.supabase,
-            provider,
+  /**
+   * Map a schedule type to its queue job (today + next 7 days)
+   */
+  private buildScheduledJob(
+    clinicId: string,
+    type: ClinicSyncSchedule["type"],
+  ): { jobType: SyncJobType; payload: Record<string, unknown> } {
+    switch (type) {
+      case "inbound":
+        return {
+          jobType: "outbound_cases",
+          payload: { clinicId, daysAhead: 7 },
+        };
+
+      case "cases": {
+        const start = new Date();
+        const end = new Date(start);
+        end.setDate(end.getDate() + 7);
+
+        return {
+          jobType: "outbound_enrich",
+          payload: {
             clinicId,
-          );
-
-          const { start, end } = this.getDefaultDateRange();
-          const result = await syncService.sync({
-            startDate: start,
-            endDate: end,
+            startDate: start.toISOString().split("T")[0],
+            endDate: end.toISOString().split("T")[0],
             parallelBatchSize: 5,
-          });
-
-          jobLogger.info("Case sync completed", {
-            clinicId,
-            clinicName,
-            success: result.success,
-            stats: result.stats,
-            durationMs: result.durationMs,
-          });
-          break;
-        }
-
-        case "reconciliation": {
-          const reconciler = new CaseReconciler(
-            this.supabase,
-            provider,
-            clinicId,
-          );
-
-          const result = await reconciler.reconcile({ lookbackDays: 7 });
-
-          jobLogger.info("Reconciliation completed", {
-            clinicId,
-            clinicName,
-            success: result.success,
-            stats: result.stats,
-            durationMs: result.durationMs,
-          });
-          break;
-        }
+          },
+        };
       }
 
-      await provider.close();
-    } catch (error) {
-      jobLogger.error("Scheduled sync job failed", {
-        clinicId,
-        clinicName,
-        type,
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
+      case "reconciliation":
+        return {
+          jobType: "reconcile",
+          payload: { clinicId, lookbackDays: 7 },
+        };
     }
   }
-
-  /**
-   * Get default date range (today + next 7 days)
-   */
-  private getDefaultDateRange(): { start: Date; end: Date } {
-    const start = new Date();
-    start.setHours(0, 0, 0, 0);
-
-    const end = new Date(start);
-    end.setDate(end.getDate() + 7);
-    end.setHours(23, 59, 59, 999);
-
-    return { start, end };
-  }
 }
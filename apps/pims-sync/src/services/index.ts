@@ -5,7 +5,10 @@
  */
 
 export { PersistenceService } from "./persistence.service";
-export { createProviderForClinic } from "./provider-factory.service";
+export {
+  createProviderForClinic,
+  resolveProviderPimsType,
+} from "./provider-factory.service";
 export type {
   ProviderFactoryOptions,
   ProviderFactoryResult,
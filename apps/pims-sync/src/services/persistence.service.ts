@@ -206,6 +206,76 @@ export class PersistenceService {
     }
   }
 
+  /**
+   * Get the PIMS type and timezone configured for a clinic
+   *
+   * Used by the provider factory to pick the provider implementation.
+   */
+  async getClinicPimsSettings(clinicId: string): Promise<{
+    pimsType: string;
+    timezone: string | null;
+    businessHours: unknown;
+  } | null> {
+    const supabase = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("clinics")
+      .select("pims_type, timezone, business_hours")
+      .eq("id", clinicId)
+      .single();
+
+    if (error || !data) {
+      logger.warn(`Clinic not found: ${clinicId}`);
+      return null;
+    }
+
+    return {
+      pimsType: data.pims_type,
+      timezone: data.timezone,
+      businessHours: data.business_hours,
+    };
+  }
+
+  /**
+   * Get ezyVet OAuth credentials for a clinic
+   *
+   * ezyVet credentials are always clinic-scoped, so there is no
+   * user_clinic_access fallback like IDEXX.
+   * Mapped to PimsCredentials as username=client_id, password=client_secret,
+   * companyId=partner_id.
+   */
+  async getEzyvetCredentials(
+    clinicId: string,
+  ): Promise<CredentialsResult | null> {
+    try {
+      const { EzyvetCredentialManager } =
+        await import("@odis-ai/integrations/ezyvet");
+      const supabase = await this.getClient();
+      const credentialManager = new EzyvetCredentialManager(supabase);
+
+      const result = await credentialManager.getCredentials(clinicId);
+      if (!result) {
+        logger.warn(`No ezyVet credentials found for clinic ${clinicId}`);
+        return null;
+      }
+
+      return {
+        credentials: {
+          username: result.clientId,
+          password: result.clientSecret,
+          companyId: result.partnerId,
+        },
+        userId: result.userId,
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      logger.error(
+        `Error getting ezyVet credentials for clinic ${clinicId}: ${msg}`,
+      );
+      return null;
+    }
+  }
+
   /**
    * Create a new scrape session
    */
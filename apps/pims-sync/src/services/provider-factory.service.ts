@@ -1,15 +1,17 @@
 /**
  * Provider Factory Service
  *
- * Centralized factory for creating IDEXX provider instances with credentials.
+ * Centralized factory for creating PIMS provider instances with credentials.
  * Eliminates duplication across main.ts, sync.route.ts, and appointments.route.ts.
  *
- * Now includes session caching to reduce authentication frequency from ~20+/day
- * to 2-3/day per clinic.
+ * Picks the provider from clinics.pims_type:
+ * - idexx_neo (default): Playwright-backed IdexxProvider with session caching
+ *   to reduce authentication frequency from ~20+/day to 2-3/day per clinic
+ * - ezyvet: REST-backed EzyvetProvider (OAuth client credentials)
  */
 
 import type { IdexxProvider } from "@odis-ai/integrations/idexx/provider";
-import type { PimsCredentials } from "@odis-ai/domain/sync";
+import type { IPimsProvider, PimsCredentials } from "@odis-ai/domain/sync";
 import { PersistenceService } from "./persistence.service";
 import { SessionCacheService } from "./session-cache.service";
 import { config } from "../config";
@@ -31,16 +33,42 @@ export interface ProviderFactoryOptions {
 /**
  * Result of provider creation
  */
-export interface ProviderFactoryResult {
-  provider: IdexxProvider;
+export interface ProviderFactoryResult<
+  TProvider extends IPimsProvider = IPimsProvider,
+> {
+  provider: TProvider;
   credentials: PimsCredentials;
   cleanup: () => Promise<void>;
   /** User ID who owns the credentials (needed for AI generation) */
   userId: string;
+  /** clinics.pims_type the provider was created for */
+  pimsType: string;
 }
 
 /**
- * Create IDEXX provider for a clinic
+ * PIMS types served by the ezyVet provider
+ */
+const EZYVET_PIMS_TYPES = new Set(["ezyvet"]);
+
+/**
+ * clinics.pims_type of the provider createProviderForClinic would create
+ *
+ * @returns null if the clinic doesn't exist
+ */
+export async function resolveProviderPimsType(
+  clinicId: string,
+): Promise<string | null> {
+  const settings = await new PersistenceService().getClinicPimsSettings(
+    clinicId,
+  );
+  if (!settings) {
+    return null;
+  }
+  return EZYVET_PIMS_TYPES.has(settings.pimsType) ? "ezyvet" : "idexx_neo";
+}
+
+/**
+ * Create the PIMS provider configured for a clinic
  *
  * @param clinicId - Clinic ID
  * @param options - Factory options
@@ -51,6 +79,77 @@ export async function createProviderForClinic(
   clinicId: string,
   options: ProviderFactoryOptions = {},
 ): Promise<ProviderFactoryResult> {
+  const persistence = new PersistenceService();
+  const settings = await persistence.getClinicPimsSettings(clinicId);
+
+  if (settings && EZYVET_PIMS_TYPES.has(settings.pimsType)) {
+    return createEzyvetProviderForClinic(clinicId, settings, options);
+  }
+
+  return createIdexxProviderForClinic(clinicId, options);
+}
+
+/**
+ * Create ezyVet provider for a clinic
+ *
+ * No browser or session cache: the OAuth token is cheap to obtain and
+ * refreshed by the provider itself.
+ */
+async function createEzyvetProviderForClinic(
+  clinicId: string,
+  settings: { timezone: string | null; businessHours: unknown },
+  options: ProviderFactoryOptions,
+): Promise<ProviderFactoryResult> {
+  const { authenticate = false } = options;
+
+  const persistence = new PersistenceService();
+  const credentialResult = await persistence.getEzyvetCredentials(clinicId);
+
+  if (!credentialResult) {
+    throw new Error(`No credentials found for clinic ${clinicId}`);
+  }
+
+  const { EzyvetProvider, businessHoursFromClinic } =
+    await import("@odis-ai/integrations/ezyvet/provider");
+
+  // ezyVet has no opening-hours API; schedule config uses the clinic's hours
+  const provider = new EzyvetProvider({
+    baseUrl: config.EZYVET_API_URL,
+    timezone: settings.timezone ?? undefined,
+    businessHours: businessHoursFromClinic(settings.businessHours),
+    timeout: config.SYNC_TIMEOUT_MS,
+    debug: config.NODE_ENV === "development",
+  });
+
+  const { credentials } = credentialResult;
+
+  if (authenticate) {
+    const authenticated = await provider.authenticate(credentials);
+    if (!authenticated) {
+      await provider.close();
+      throw new Error("PIMS authentication failed");
+    }
+    providerLogger.info(`Authenticated ezyVet provider for clinic ${clinicId}`);
+  }
+
+  return {
+    provider,
+    credentials,
+    cleanup: async () => {
+      await provider.close();
+    },
+    userId: credentialResult.userId,
+    pimsType: "ezyvet",
+  };
+}
+
+/**
+ * Create IDEXX provider for a clinic
+ */
+async function createIdexxProviderForClinic(
+  clinicId: string,
+  options: ProviderFactoryOptions = {},
+): Promise<ProviderFactoryResult<IdexxProvider>> {
   const { authenticate = false } = options;
 
   // Get credentials
@@ -137,6 +236,7 @@ export async function createProviderForClinic(
         await provider.close();
       },
       userId: credentialResult.userId,
+      pimsType: "idexx_neo",
     };
   }
 
@@ -147,6 +247,7 @@ export async function createProviderForClinic(
       await provider.close();
     },
     userId: credentialResult.userId,
+    pimsType: "idexx_neo",
   };
 }
 
@@ -3,9 +3,10 @@
  *
  * Creates deterministic hashes for IDEXX appointment data to detect changes.
  * Used to efficiently identify which appointments have been modified since last sync.
+ * Shares its hashing with the inbound sync cursor (@odis-ai/domain/sync).
  */
 
-import { createHash } from "crypto";
+import { hashSyncFields } from "@odis-ai/domain/sync";
 import type { ScrapedAppointment } from "../types";
 
 /**
@@ -32,13 +33,7 @@ const HASH_FIELDS: (keyof ScrapedAppointment)[] = [
  * @returns SHA256 hash as a hex string
  */
 export function calculateSyncHash(appointment: ScrapedAppointment): string {
-  // Build a deterministic string from relevant fields
-  const hashInput = HASH_FIELDS.map((field) => {
-    const value = appointment[field];
-    return value === null || value === undefined ? "" : String(value).trim();
-  }).join("|");
-
-  return createHash("sha256").update(hashInput).digest("hex");
+  return hashSyncFields(HASH_FIELDS.map((field) => appointment[field]));
 }
 
 /**
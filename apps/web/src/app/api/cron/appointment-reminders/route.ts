@@ -0,0 +1,85 @@
+/**
+ * Appointment Reminders Cron Endpoint
+ *
+ * POST /api/cron/appointment-reminders
+ *
+ * Triggered by QStash cron to place reminder/confirmation calls for synced
+ * PIMS appointments. Clinics opt in with reminder_calls_enabled; each
+ * appointment is called once, reminder_hours_before its start, during
+ * clinic-local calling hours.
+ *
+ * Security: QStash signature verification ensures only QStash can trigger this
+ *
+ * QStash Schedule: "0/15 * * * *" (every 15 minutes)
+ * Configure at: https://console.upstash.com/qstash
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/dist/nextjs";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { loggers } from "@odis-ai/shared/logger";
+
+const logger = loggers.api.child("cron-appointment-reminders");
+
+// Dynamic import to avoid bundling issues during static generation
+async function getReminderRunner() {
+  const { runAppointmentReminders } =
+    await import("@odis-ai/integrations/vapi/processors/appointments/reminders");
+  return runAppointmentReminders;
+}
+
+/**
+ * Handle cron trigger
+ */
+async function handler(_req: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    logger.info("Appointment reminders cron triggered");
+
+    const supabase = await createServiceClient();
+    const runAppointmentReminders = await getReminderRunner();
+    const result = await runAppointmentReminders(supabase);
+
+    logger.info("Appointment reminders cron completed", {
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+
+    // Return 200 even when some calls fail; they're recorded per reminder
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error("Unexpected error in appointment reminders cron", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// Wrap handler with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    message: "Appointment reminders cron endpoint is active",
+    schedule: "Every 15 minutes",
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Slack Digest Cron Endpoint
+ *
+ * POST /api/cron/slack-digest
+ *
+ * Triggered hourly by QStash cron to deliver Slack notifications held in
+ * slack_notification_queue:
+ * 1. Routes in digest mode get one batched message per run
+ * 2. Notifications held during a clinic's quiet hours go out on the first
+ *    run after quiet hours end
+ *
+ * Security: QStash signature verification ensures only QStash can trigger this
+ *
+ * QStash Schedule: "0 * * * *" (hourly)
+ * Configure at: https://console.upstash.com/qstash
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/dist/nextjs";
+import { loggers } from "@odis-ai/shared/logger";
+
+const logger = loggers.api.child("cron-slack-digest");
+
+/**
+ * Handle cron trigger
+ */
+async function handler(_req: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    logger.info("Slack digest cron triggered");
+
+    const { flushNotificationQueue } =
+      await import("@odis-ai/integrations/slack");
+    const result = await flushNotificationQueue();
+
+    // Return 200 even on partial failures to prevent QStash retries
+    return NextResponse.json({
+      success: result.errors === 0,
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error("Unexpected error in slack-digest cron", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        durationMs: Date.now() - startTime,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// Wrap handler with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    message: "Slack digest cron endpoint is active",
+    schedule: "Hourly (0 * * * *)",
+    description:
+      "Delivers digest-mode and quiet-hours Slack notifications per clinic",
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * Slack Morning Digest Cron Endpoint
+ *
+ * POST /api/cron/slack-morning-digest
+ *
+ * Triggered hourly by QStash cron. For each clinic with an enabled
+ * morning_digest route whose local hour matches its morningDigestTime
+ * (default 07:00), posts:
+ * 1. Yesterday's discharge and inbound call outcomes
+ * 2. Items needing attention
+ * 3. Discharge calls and emails scheduled for today
+ *
+ * The numbers come from the same queries as the dashboard (getTodayStats,
+ * getCriticalActions).
+ *
+ * Security: QStash signature verification ensures only QStash can trigger this
+ *
+ * QStash Schedule: "0 * * * *" (hourly)
+ * Configure at: https://console.upstash.com/qstash
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/dist/nextjs";
+import { subDays } from "date-fns";
+import { formatInTimeZone, toZonedTime } from "date-fns-tz";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { loggers } from "@odis-ai/shared/logger";
+import { getClinicOpsSnapshot } from "~/server/api/routers/dashboard/ops-summary";
+
+const logger = loggers.api.child("cron-slack-morning-digest");
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+/**
+ * Handle cron trigger
+ */
+async function handler(_req: NextRequest) {
+  const startTime = Date.now();
+  const now = new Date();
+
+  try {
+    logger.info("Slack morning digest cron triggered");
+
+    const { sendSlackNotification, parseNotificationPreferences } =
+      await import("@odis-ai/integrations/slack");
+    const supabase = await createServiceClient();
+
+    const { data: routes, error } = await supabase
+      .from("slack_notification_routes")
+      .select(
+        "clinic:clinics(id, name, slug, timezone, slack_notification_preferences), workspace:slack_workspaces!inner(is_active)",
+      )
+      .eq("notification_type", "morning_digest")
+      .eq("is_enabled", true)
+      // Only installed workspaces, so the digest never falls back to the
+      // env-configured ODIS channel
+      .eq("workspace.is_active", true);
+
+    if (error) {
+      throw new Error(`Failed to load digest routes: ${error.message}`);
+    }
+
+    let sent = 0;
+    let skipped = 0;
+    let errors = 0;
+
+    for (const route of routes ?? []) {
+      const clinic = Array.isArray(route.clinic)
+        ? route.clinic[0]
+        : route.clinic;
+      if (!clinic) continue;
+
+      const timezone = clinic.timezone ?? DEFAULT_TIMEZONE;
+      const { morningDigestTime } = parseNotificationPreferences(
+        clinic.slack_notification_preferences,
+      );
+      const digestHour = Number(morningDigestTime.split(":")[0]);
+
+      // The cron runs on the hour, so only the hour is matched
+      if (toZonedTime(now, timezone).getHours() !== digestHour) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const snapshot = await getClinicOpsSnapshot(supabase, clinic, {
+          statsDay: subDays(now, 1),
+          outreachDay: now,
+        });
+
+        const result = await sendSlackNotification(
+          "morning_digest",
+          {
+            clinicName: clinic.name,
+            date: formatInTimeZone(now, timezone, "EEEE, MMM d"),
+            yesterday: snapshot.stats,
+            attention: snapshot.attention,
+            scheduledToday: snapshot.scheduled,
+            dashboardUrl: `${process.env.NEXT_PUBLIC_SITE_URL ?? "https://odisai.co"}/dashboard/${clinic.slug}`,
+          },
+          { clinicId: clinic.id },
+        );
+
+        if (result.ok) {
+          sent++;
+        } else {
+          errors++;
+          logger.error("Failed to send morning digest", {
+            clinicId: clinic.id,
+            error: result.error,
+          });
+        }
+      } catch (clinicError) {
+        errors++;
+        logger.error("Failed to build morning digest", {
+          clinicId: clinic.id,
+          error:
+            clinicError instanceof Error
+              ? clinicError.message
+              : String(clinicError),
+        });
+      }
+    }
+
+    logger.info("Slack morning digest cron completed", {
+      sent,
+      skipped,
+      errors,
+    });
+
+    // Return 200 even on partial failures to prevent QStash retries
+    return NextResponse.json({
+      success: errors === 0,
+      sent,
+      skipped,
+      errors,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error("Unexpected error in slack-morning-digest cron", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        durationMs: Date.now() - startTime,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// Wrap handler with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    message: "Slack morning digest cron endpoint is active",
+    schedule: "Hourly (0 * * * *)",
+    description:
+      "Posts each clinic's morning digest at its configured local time",
+  });
+}
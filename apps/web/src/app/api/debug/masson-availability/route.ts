@@ -9,6 +9,10 @@
  * so we can identify exactly what's wrong before attempting more fixes.
  *
  * Uses service client (bypasses RLS).
+ *
+ * For any clinic, the admin Scheduling tab's Availability Explainer
+ * (settings.availability.explainAvailability) shows which layer removed
+ * each slot.
  */
 
 import { NextRequest, NextResponse } from "next/server";
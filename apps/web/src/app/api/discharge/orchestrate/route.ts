@@ -44,6 +44,7 @@
  *     ...
  *   },
  *   metadata: {
+ *     runId: string  // resume or retry via /api/discharge/orchestrate/runs
  *     totalProcessingTime: number
  *     stepTimings: Record<string, number>
  *   }
@@ -61,10 +62,10 @@ import { OrchestrationRequestSchema } from "@odis-ai/shared/validators/orchestra
 
 // Dynamic import to avoid bundling @react-email/components during static generation
 async function getDischargeOrchestrator() {
-  const { DischargeOrchestrator } =
+  const { DischargeOrchestrator, OrchestrationRunError } =
     await import("@odis-ai/domain/discharge/discharge-orchestrator");
   const { CasesService } = await import("@odis-ai/domain/cases");
-  return { DischargeOrchestrator, CasesService };
+  return { DischargeOrchestrator, OrchestrationRunError, CasesService };
 }
 
 /**
@@ -73,6 +74,9 @@ async function getDischargeOrchestrator() {
  * Execute discharge workflow orchestration
  */
 export async function POST(request: NextRequest) {
+  const { DischargeOrchestrator, OrchestrationRunError, CasesService } =
+    await getDischargeOrchestrator();
+
   try {
     // Authenticate user (supports both Bearer token and cookies)
     const auth = await authenticateUser(request);
@@ -125,8 +129,6 @@ export async function POST(request: NextRequest) {
     });
 
     // Create orchestrator and execute workflow (dynamically imported)
-    const { DischargeOrchestrator, CasesService } =
-      await getDischargeOrchestrator();
     const orchestrator = new DischargeOrchestrator(
       supabase,
       user,
@@ -147,6 +149,21 @@ export async function POST(request: NextRequest) {
       ),
     );
   } catch (error) {
+    // The execution plan is built from the request: unknown steps and
+    // invalid step options are client errors
+    if (error instanceof OrchestrationRunError && error.code === "invalid") {
+      return withCorsHeaders(
+        request,
+        NextResponse.json(
+          {
+            error: "Validation failed",
+            message: error.message,
+          },
+          { status: 400 },
+        ),
+      );
+    }
+
     console.error("[ORCHESTRATE] Unexpected error", {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
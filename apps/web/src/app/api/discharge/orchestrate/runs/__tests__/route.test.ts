@@ -0,0 +1,164 @@
+/**
+ * Tests for /api/discharge/orchestrate/runs
+ * - GET: run history and single runs
+ * - POST: resume and retryStep, with run errors mapped to HTTP statuses
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createMockRequest,
+  getJsonResponse,
+} from "@odis-ai/shared/testing/utils/api";
+
+const orchestrator = {
+  getRun: vi.fn(),
+  getRunsForCase: vi.fn(),
+  resume: vi.fn(),
+  retryStep: vi.fn(),
+};
+
+vi.mock("@odis-ai/data-access/api/auth", () => ({
+  authenticateUser: vi.fn(async () => ({
+    success: true,
+    data: { user: { id: "user-1" }, supabase: {} },
+  })),
+}));
+
+vi.mock("@odis-ai/domain/cases", () => ({ CasesService: {} }));
+
+vi.mock("@odis-ai/domain/discharge/discharge-orchestrator", () => ({
+  DischargeOrchestrator: vi.fn(() => orchestrator),
+  OrchestrationRunError: class extends Error {
+    constructor(
+      message: string,
+      public readonly code: "not_found" | "conflict" | "invalid",
+    ) {
+      super(message);
+    }
+  },
+}));
+
+import { GET, POST } from "../route";
+import { OrchestrationRunError } from "@odis-ai/domain/discharge/discharge-orchestrator";
+
+const runId = "6f1c2f6e-9a43-4c4b-8a57-0f6c1c7d2a10";
+const url = "http://localhost:3000/api/discharge/orchestrate/runs";
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return POST(createMockRequest({ method: "POST", url, body, headers }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("GET /api/discharge/orchestrate/runs", () => {
+  it("requires caseId or runId", async () => {
+    const response = await GET(createMockRequest({ url }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns a case's run history", async () => {
+    orchestrator.getRunsForCase.mockResolvedValue([{ id: runId }]);
+
+    const response = await GET(
+      createMockRequest({ url, searchParams: { caseId: "case-1" } }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(orchestrator.getRunsForCase).toHaveBeenCalledWith("case-1");
+    await expect(getJsonResponse(response)).resolves.toEqual({
+      success: true,
+      data: [{ id: runId }],
+    });
+  });
+
+  it("returns 404 for an unknown run", async () => {
+    orchestrator.getRun.mockResolvedValue(null);
+
+    const response = await GET(
+      createMockRequest({ url, searchParams: { runId } }),
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("POST /api/discharge/orchestrate/runs", () => {
+  it("resumes a run and reports its outcome", async () => {
+    orchestrator.resume.mockResolvedValue({
+      success: false,
+      data: { failedSteps: ["generateSummary"] },
+      metadata: { runId },
+    });
+
+    const response = await post({ action: "resume", runId });
+
+    expect(orchestrator.resume).toHaveBeenCalledWith(runId);
+    expect(response.status).toBe(500);
+    await expect(getJsonResponse(response)).resolves.toMatchObject({
+      success: false,
+      metadata: { runId },
+    });
+  });
+
+  it("requires an Idempotency-Key to retry a step", async () => {
+    const response = await post({
+      action: "retryStep",
+      runId,
+      step: "generateSummary",
+    });
+
+    expect(response.status).toBe(400);
+    expect(orchestrator.retryStep).not.toHaveBeenCalled();
+  });
+
+  it("retries a step with the caller's idempotency key", async () => {
+    orchestrator.retryStep.mockResolvedValue({
+      runId,
+      result: { step: "generateSummary", status: "completed", duration: 5 },
+      replayed: true,
+    });
+
+    const response = await post(
+      { action: "retryStep", runId, step: "generateSummary" },
+      { "Idempotency-Key": "key-1" },
+    );
+
+    expect(orchestrator.retryStep).toHaveBeenCalledWith(
+      runId,
+      "generateSummary",
+      "key-1",
+    );
+    expect(response.status).toBe(200);
+    await expect(getJsonResponse(response)).resolves.toMatchObject({
+      success: true,
+      data: { replayed: true },
+    });
+  });
+
+  it.each([
+    ["not_found", 404],
+    ["conflict", 409],
+    ["invalid", 400],
+  ] as const)("maps %s run errors to %i", async (code, status) => {
+    orchestrator.resume.mockRejectedValue(
+      new OrchestrationRunError("Run can't be resumed", code),
+    );
+
+    const response = await post({ action: "resume", runId });
+
+    expect(response.status).toBe(status);
+    await expect(getJsonResponse(response)).resolves.toEqual({
+      error: code,
+      message: "Run can't be resumed",
+    });
+  });
+
+  it("rejects unknown actions", async () => {
+    const response = await post({ action: "cancel", runId });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Discharge Orchestration Runs API Route
+ *
+ * GET /api/discharge/orchestrate/runs?caseId=...   - Run history for a case
+ * GET /api/discharge/orchestrate/runs?runId=...    - A single run
+ *
+ * POST /api/discharge/orchestrate/runs
+ *
+ * Resume a failed run from its first failed step, or retry one step.
+ *
+ * Request body:
+ * {
+ *   runId: string
+ *   action: "resume" | "retryStep"
+ *   step?: string  // required for retryStep
+ * }
+ *
+ * retryStep requires an `Idempotency-Key` header. Repeating a key returns
+ * the recorded attempt (`replayed: true`) instead of re-running the step.
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateUser } from "@odis-ai/data-access/api/auth";
+import {
+  handleCorsPreflightRequest,
+  withCorsHeaders,
+} from "@odis-ai/data-access/api/cors";
+
+const RunActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("resume"), runId: z.string().uuid() }),
+  z.object({
+    action: z.literal("retryStep"),
+    runId: z.string().uuid(),
+    step: z.string().min(1),
+  }),
+]);
+
+const RUN_ERROR_STATUS = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+} as const;
+
+// Dynamic import to avoid bundling @react-email/components during static generation
+async function getDischargeOrchestrator() {
+  const { DischargeOrchestrator, OrchestrationRunError } =
+    await import("@odis-ai/domain/discharge/discharge-orchestrator");
+  const { CasesService } = await import("@odis-ai/domain/cases");
+  return { DischargeOrchestrator, OrchestrationRunError, CasesService };
+}
+
+/**
+ * GET /api/discharge/orchestrate/runs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateUser(request);
+    if (!auth.success) {
+      return withCorsHeaders(request, auth.response);
+    }
+
+    const { user, supabase } = auth.data;
+    const caseId = request.nextUrl.searchParams.get("caseId");
+    const runId = request.nextUrl.searchParams.get("runId");
+
+    if (!caseId && !runId) {
+      return withCorsHeaders(
+        request,
+        NextResponse.json(
+          {
+            error: "Validation failed",
+            message: "caseId or runId query parameter is required",
+          },
+          { status: 400 },
+        ),
+      );
+    }
+
+    const { DischargeOrchestrator, CasesService } =
+      await getDischargeOrchestrator();
+    const orchestrator = new DischargeOrchestrator(
+      supabase,
+      user,
+      CasesService,
+    );
+
+    if (runId) {
+      const run = await orchestrator.getRun(runId);
+      if (!run) {
+        return withCorsHeaders(
+          request,
+          NextResponse.json(
+            { error: "Not found", message: "Orchestration run not found" },
+            { status: 404 },
+          ),
+        );
+      }
+      return withCorsHeaders(
+        request,
+        NextResponse.json({ success: true, data: run }, { status: 200 }),
+      );
+    }
+
+    const runs = await orchestrator.getRunsForCase(caseId!);
+    return withCorsHeaders(
+      request,
+      NextResponse.json({ success: true, data: runs }, { status: 200 }),
+    );
+  } catch (error) {
+    console.error("[ORCHESTRATE_RUNS] Unexpected error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return withCorsHeaders(
+      request,
+      NextResponse.json(
+        {
+          error: "Internal server error",
+          message:
+            error instanceof Error
+              ? error.message
+              : "An unexpected error occurred",
+        },
+        { status: 500 },
+      ),
+    );
+  }
+}
+
+/**
+ * POST /api/discharge/orchestrate/runs
+ */
+export async function POST(request: NextRequest) {
+  const { DischargeOrchestrator, OrchestrationRunError, CasesService } =
+    await getDischargeOrchestrator();
+
+  try {
+    const auth = await authenticateUser(request);
+    if (!auth.success) {
+      return withCorsHeaders(request, auth.response);
+    }
+
+    const { user, supabase } = auth.data;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return withCorsHeaders(
+        request,
+        NextResponse.json(
+          {
+            error: "Invalid JSON",
+            message: "Request body must be valid JSON",
+          },
+          { status: 400 },
+        ),
+      );
+    }
+
+    const validationResult = RunActionSchema.safeParse(body);
+    if (!validationResult.success) {
+      return withCorsHeaders(
+        request,
+        NextResponse.json(
+          {
+            error: "Validation failed",
+            message: "Invalid request format",
+            details: validationResult.error.errors,
+          },
+          { status: 400 },
+        ),
+      );
+    }
+
+    const action = validationResult.data;
+    const orchestrator = new DischargeOrchestrator(
+      supabase,
+      user,
+      CasesService,
+    );
+
+    if (action.action === "resume") {
+      console.log("[ORCHESTRATE_RUNS] Resuming run", {
+        userId: user.id,
+        runId: action.runId,
+      });
+
+      const result = await orchestrator.resume(action.runId);
+      return withCorsHeaders(
+        request,
+        NextResponse.json(
+          {
+            success: result.success,
+            data: result.data,
+            metadata: result.metadata,
+          },
+          { status: result.success ? 200 : 500 },
+        ),
+      );
+    }
+
+    const idempotencyKey = request.headers.get("idempotency-key");
+    if (!idempotencyKey) {
+      return withCorsHeaders(
+        request,
+        NextResponse.json(
+          {
+            error: "Validation failed",
+            message: "Idempotency-Key header is required to retry a step",
+          },
+          { status: 400 },
+        ),
+      );
+    }
+
+    const retry = await orchestrator.retryStep(
+      action.runId,
+      action.step,
+      idempotencyKey,
+    );
+    return withCorsHeaders(
+      request,
+      NextResponse.json(
+        {
+          success: retry.result.status === "completed",
+          data: retry,
+        },
+        { status: retry.result.status === "failed" ? 500 : 200 },
+      ),
+    );
+  } catch (error) {
+    if (error instanceof OrchestrationRunError) {
+      return withCorsHeaders(
+        request,
+        NextResponse.json(
+          { error: error.code, message: error.message },
+          { status: RUN_ERROR_STATUS[error.code] },
+        ),
+      );
+    }
+
+    console.error("[ORCHESTRATE_RUNS] Unexpected error", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return withCorsHeaders(
+      request,
+      NextResponse.json(
+        {
+          error: "Internal server error",
+          message:
+            error instanceof Error
+              ? error.message
+              : "An unexpected error occurred",
+        },
+        { status: 500 },
+      ),
+    );
+  }
+}
+
+/**
+ * OPTIONS /api/discharge/orchestrate/runs
+ *
+ * Handle CORS preflight requests
+ */
+export function OPTIONS(request: NextRequest) {
+  return handleCorsPreflightRequest(request);
+}
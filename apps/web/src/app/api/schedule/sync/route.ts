@@ -119,18 +119,18 @@ function normalizeTime(timeStr: string | null | undefined): string | null {
 
 /**
  * Check if appointment already exists
- * Returns the appointment ID if found, null otherwise
+ * Returns the appointment ID and status if found, null otherwise
  */
 async function findExistingAppointment(
   supabase: SupabaseClientType,
   appointment: AppointmentInput,
   clinicId: string,
-): Promise<string | null> {
+): Promise<{ id: string; status: string | null } | null> {
   // First try: by neo_appointment_id + clinic_id + date
   if (appointment.neo_appointment_id) {
     const { data: existing, error } = await supabase
       .from("pims_appointments")
-      .select("id")
+      .select("id, status")
       .eq("clinic_id", clinicId)
       .eq("neo_appointment_id", appointment.neo_appointment_id)
       .eq("date", appointment.date)
@@ -146,7 +146,7 @@ async function findExistingAppointment(
         },
       );
     } else if (existing) {
-      return existing.id;
+      return existing;
     }
   }
 
@@ -157,7 +157,7 @@ async function findExistingAppointment(
 
     const { data: existing, error } = await supabase
       .from("pims_appointments")
-      .select("id")
+      .select("id, status")
       .eq("clinic_id", clinicId)
       .eq("date", appointment.date)
       .eq("start_time", normalizedTime)
@@ -176,13 +176,40 @@ async function findExistingAppointment(
         },
       );
     } else if (existing) {
-      return existing.id;
+      return existing;
     }
   }
 
   return null;
 }
 
+/**
+ * Offer a slot freed by a PIMS cancellation to the clinic's waitlist
+ * Failures are logged; they must not fail the sync.
+ */
+async function queueFreedSlot(
+  clinicId: string,
+  row: {
+    clinic_id: string;
+    time_range: unknown;
+    appointment_type: string | null;
+  },
+): Promise<void> {
+  try {
+    const { queueWaitlistOpening, waitlistOpeningFromAppointment } =
+      await import("@odis-ai/integrations/vapi/processors/appointments/waitlist");
+    const opening = waitlistOpeningFromAppointment(clinicId, row, "pims_sync");
+    if (opening) {
+      await queueWaitlistOpening(opening);
+    }
+  } catch (error) {
+    console.error("[queueFreedSlot] Failed to queue waitlist opening", {
+      error: error instanceof Error ? error.message : String(error),
+      clinicId,
+    });
+  }
+}
+
 /**
  * Process single appointment (insert or update)
  */
@@ -210,7 +237,7 @@ async function processAppointment(
     }
 
     // Check if appointment already exists
-    const existingAppointmentId = await findExistingAppointment(
+    const existingAppointment = await findExistingAppointment(
       supabase,
       appointment,
       clinicId,
@@ -242,13 +269,13 @@ async function processAppointment(
         last_synced_at: new Date().toISOString(),
       };
 
-    if (existingAppointmentId) {
+    if (existingAppointment) {
       // Update existing appointment
       const { data: updated, error: updateError } = await supabase
         .from("pims_appointments")
         .update(appointmentData)
-        .eq("id", existingAppointmentId)
-        .select("id")
+        .eq("id", existingAppointment.id)
+        .select("id, clinic_id, time_range, appointment_type")
         .single();
 
       if (updateError) {
@@ -273,6 +300,14 @@ async function processAppointment(
         };
       }
 
+      // Newly cancelled in the PIMS: offer the slot to the waitlist
+      if (
+        appointmentData.status === "cancelled" &&
+        existingAppointment.status !== "cancelled"
+      ) {
+        await queueFreedSlot(clinicId, updated);
+      }
+
       return {
         success: true,
         appointmentId: updated.id,
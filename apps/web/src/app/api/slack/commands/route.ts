@@ -0,0 +1,211 @@
+/**
+ * Slack Slash Command Route
+ *
+ * Handles /odis for clinic managers:
+ * - /odis today: today's calls, items needing attention, scheduled outreach
+ * - /odis failed: failed discharge calls in the last 48 hours
+ * - /odis case <patient>: latest cases and outreach status for a patient
+ * POST /api/slack/commands
+ *
+ * The clinic is resolved from the channel's notification routes. Numbers
+ * come from the same queries as the dashboard (getTodayStats,
+ * getCriticalActions, getFailedCalls). Replies are ephemeral, and owner
+ * names and phone numbers in them are redacted since any member of the
+ * linked workspace can run the command.
+ *
+ * Security: requests are verified with the Slack signing secret
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { loggers } from "@odis-ai/shared/logger";
+import type {
+  CaseCommandData,
+  SlackLinkedClinic,
+} from "@odis-ai/integrations/slack";
+import {
+  getClinicOpsSnapshot,
+  getFailedCallsSummary,
+} from "~/server/api/routers/dashboard/ops-summary";
+
+const logger = loggers.webhook.child("slack-commands");
+
+const FAILED_CALLS_HOURS_BACK = 48;
+const MAX_CASE_RESULTS = 5;
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+
+export async function POST(request: NextRequest) {
+  // Signature verification needs the raw body
+  const rawBody = await request.text();
+
+  const slack = await import("@odis-ai/integrations/slack");
+
+  if (!slack.verifySlackRequest(rawBody, request.headers)) {
+    logger.warn("Rejected Slack command with invalid signature");
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const commandRequest = slack.parseSlashCommandRequest(rawBody);
+  if (!commandRequest) {
+    return NextResponse.json({ error: "Invalid command" }, { status: 400 });
+  }
+
+  const command = slack.parseOdisCommand(commandRequest.text);
+  if (command.name === "help") {
+    return NextResponse.json(slack.formatHelpResponse(command.error));
+  }
+
+  try {
+    const clinic = await slack.resolveClinicForChannel(
+      commandRequest.teamId,
+      commandRequest.channelId,
+    );
+    if (!clinic) {
+      return NextResponse.json(slack.formatUnlinkedChannelResponse());
+    }
+
+    const supabase = await createServiceClient();
+
+    switch (command.name) {
+      case "today": {
+        const now = new Date();
+        const snapshot = await getClinicOpsSnapshot(supabase, clinic, {
+          statsDay: now,
+          outreachDay: now,
+        });
+        return NextResponse.json(
+          slack.formatTodayResponse({
+            clinicName: clinic.name,
+            today: snapshot.stats,
+            attention: snapshot.attention,
+            scheduledToday: snapshot.scheduled,
+          }),
+        );
+      }
+
+      case "failed": {
+        const { getClinicUserIdsEnhanced } =
+          await import("@odis-ai/domain/clinics");
+        const failed = await getFailedCallsSummary(
+          supabase,
+          {
+            clinicId: clinic.id,
+            clinicUserIds: await getClinicUserIdsEnhanced(clinic.id, supabase),
+          },
+          { limit: 10, hoursBack: FAILED_CALLS_HOURS_BACK },
+        );
+        return NextResponse.json(
+          slack.formatFailedResponse({
+            clinicName: clinic.name,
+            hoursBack: FAILED_CALLS_HOURS_BACK,
+            totalCount: failed.totalCount,
+            wastedCost: failed.wastedCost,
+            calls: failed.calls.map((call) => ({
+              petName: call.petName,
+              ownerName: call.ownerName,
+              ownerPhone: call.ownerPhone,
+              createdAt: call.createdAt,
+            })),
+          }),
+        );
+      }
+
+      case "case": {
+        const data = await findCasesByPatient(supabase, clinic, command.query);
+        return NextResponse.json(slack.formatCaseResponse(data));
+      }
+    }
+  } catch (error) {
+    logger.error("Failed to handle Slack command", {
+      command: command.name,
+      teamId: commandRequest.teamId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json({
+      response_type: "ephemeral",
+      text: "Something went wrong running that command. Please try again.",
+    });
+  }
+}
+
+/**
+ * Latest cases for patients whose name matches the query
+ */
+async function findCasesByPatient(
+  supabase: ServiceClient,
+  clinic: SlackLinkedClinic,
+  query: string,
+): Promise<CaseCommandData> {
+  const { buildClinicScopeFilter, getClinicUserIdsEnhanced } =
+    await import("@odis-ai/domain/clinics");
+
+  // Characters with meaning in PostgREST filters
+  const search = query.replace(/[%_,()*]/g, "").trim();
+  const clinicUserIds = await getClinicUserIdsEnhanced(clinic.id, supabase);
+
+  const { data: cases, error } = await supabase
+    .from("cases")
+    .select(
+      `
+      id,
+      status,
+      created_at,
+      patients!inner(name, owner_name, species),
+      scheduled_discharge_calls(status, scheduled_for, ended_at, success_evaluation, created_at),
+      scheduled_discharge_emails(status, scheduled_for, sent_at, created_at)
+    `,
+    )
+    .or(buildClinicScopeFilter(clinic.id, clinicUserIds))
+    .ilike("patients.name", `%${search}%`)
+    .eq("scheduled_discharge_calls.call_type", "discharge")
+    .order("created_at", { ascending: false })
+    .limit(MAX_CASE_RESULTS);
+
+  if (error) {
+    throw new Error(`Failed to search cases: ${error.message}`);
+  }
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? "https://odisai.co";
+  const latest = <T extends { created_at: string | null }>(items: T[]) =>
+    [...items].sort((a, b) =>
+      (b.created_at ?? "").localeCompare(a.created_at ?? ""),
+    )[0] ?? null;
+
+  return {
+    clinicName: clinic.name,
+    query,
+    cases: (cases ?? []).map((c) => {
+      const patient = Array.isArray(c.patients) ? c.patients[0] : c.patients;
+      const call = latest(c.scheduled_discharge_calls ?? []);
+      const email = latest(c.scheduled_discharge_emails ?? []);
+
+      return {
+        id: c.id,
+        petName: patient?.name ?? "Unknown",
+        ownerName: patient?.owner_name ?? null,
+        species: patient?.species ?? null,
+        status: c.status,
+        createdAt: c.created_at,
+        latestCall: call
+          ? {
+              status: call.status,
+              scheduledFor: call.scheduled_for,
+              endedAt: call.ended_at,
+              successful: call.success_evaluation === "true",
+            }
+          : null,
+        latestEmail: email
+          ? {
+              status: email.status,
+              scheduledFor: email.scheduled_for,
+              sentAt: email.sent_at,
+            }
+          : null,
+        url: `${siteUrl}/dashboard/${clinic.slug}/outbound?caseId=${c.id}`,
+      };
+    }),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Slack Interactivity Route
+ *
+ * Receives button clicks and modal submissions from Slack notifications
+ * (acknowledge, assign, resolve and schedule callback on emergency and
+ * callback request messages).
+ * POST /api/slack/interactions
+ *
+ * Security: requests are verified with the Slack signing secret
+ *
+ * Configure as the Request URL under "Interactivity & Shortcuts" in the
+ * Slack app settings.
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { loggers } from "@odis-ai/shared/logger";
+
+const logger = loggers.webhook.child("slack-interactions");
+
+export async function POST(request: NextRequest) {
+  // Signature verification needs the raw body
+  const rawBody = await request.text();
+
+  const { verifySlackRequest, handleSlackInteraction } =
+    await import("@odis-ai/integrations/slack");
+
+  if (!verifySlackRequest(rawBody, request.headers)) {
+    logger.warn("Rejected Slack interaction with invalid signature");
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  // Interactions arrive as form data with a JSON `payload` field
+  const payloadField = new URLSearchParams(rawBody).get("payload");
+  if (!payloadField) {
+    return NextResponse.json({ error: "Missing payload" }, { status: 400 });
+  }
+
+  let payload: Parameters<typeof handleSlackInteraction>[0];
+  try {
+    payload = JSON.parse(payloadField) as typeof payload;
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    const response = await handleSlackInteraction(payload);
+    if (response) {
+      return NextResponse.json(response);
+    }
+  } catch (error) {
+    // Still acknowledge so Slack doesn't show a generic error to the user
+    logger.error("Failed to handle Slack interaction", {
+      type: payload.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return new NextResponse(null, { status: 200 });
+}
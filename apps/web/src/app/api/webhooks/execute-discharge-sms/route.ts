@@ -0,0 +1,81 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/dist/nextjs";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+
+// Dynamic import to avoid bundling issues during static generation
+async function getSmsExecutor() {
+  const { executeScheduledSms } =
+    await import("@odis-ai/domain/discharge/sms-executor");
+  return executeScheduledSms;
+}
+
+/**
+ * Execute Discharge SMS Webhook
+ *
+ * POST /api/webhooks/execute-discharge-sms
+ *
+ * This webhook is triggered by QStash at the scheduled time.
+ * It delegates to the SMS executor service for actual execution.
+ *
+ * Security: QStash signature verification ensures only QStash can trigger this
+ */
+
+interface ExecuteSmsPayload {
+  smsId: string;
+}
+
+/**
+ * Handle execution of scheduled SMS
+ */
+async function handler(req: NextRequest) {
+  try {
+    console.log("[EXECUTE_SMS] Webhook triggered");
+
+    // Parse request body
+    const payload = (await req.json()) as ExecuteSmsPayload;
+    const { smsId } = payload;
+
+    if (!smsId) {
+      console.error("[EXECUTE_SMS] Missing smsId in payload");
+      return NextResponse.json(
+        { error: "Missing smsId in payload" },
+        { status: 400 },
+      );
+    }
+
+    // Get Supabase service client and executor
+    const supabase = await createServiceClient();
+    const executeScheduledSms = await getSmsExecutor();
+
+    // Execute the SMS using the modular executor
+    const result = await executeScheduledSms(smsId, supabase);
+
+    // Return 200 even on failure to prevent QStash retries
+    // (provider failures would likely fail again on retry)
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[EXECUTE_SMS] Unexpected error", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Wrap handler with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    message: "Execute discharge SMS webhook is active",
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Tests for /api/webhooks/pims-confirm-appointment
+ * - Confirmed appointments are written to the PIMS and marked synced
+ * - Appointments not in the PIMS, no longer confirmed, or on a PIMS
+ *   without confirmation support are skipped (no QStash retry)
+ * - Other PIMS sync failures return 500 so QStash retries
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createMockRequest,
+  getJsonResponse,
+} from "@odis-ai/shared/testing/utils/api";
+
+const appointment = {
+  current: null as Record<string, unknown> | null,
+};
+const updates: Array<Record<string, unknown>> = [];
+const fetchMock = vi.fn();
+
+/**
+ * pims_appointments stub: maybeSingle resolves to the current appointment,
+ * updates are recorded
+ */
+function query() {
+  const builder: Record<string, unknown> = {};
+  builder.select = vi.fn(() => builder);
+  builder.eq = vi.fn(() => builder);
+  builder.update = vi.fn((values: Record<string, unknown>) => {
+    updates.push(values);
+    return builder;
+  });
+  builder.maybeSingle = vi.fn(async () => ({
+    data: appointment.current,
+    error: null,
+  }));
+  builder.then = (resolve: (value: { error: null }) => unknown) =>
+    resolve({ error: null });
+  return builder;
+}
+
+vi.mock("@upstash/qstash/dist/nextjs", () => ({
+  verifySignatureAppRouter: <T>(handler: T) => handler,
+}));
+
+vi.mock("@odis-ai/data-access/db/server", () => ({
+  createServiceClient: vi.fn(async () => ({ from: query })),
+}));
+
+vi.mock("~/env", () => ({
+  env: {
+    PIMS_SYNC_URL: "https://pims-sync.test",
+    PIMS_SYNC_API_KEY: "sync-key",
+  },
+}));
+
+import { POST } from "../route";
+
+function confirm(body: unknown) {
+  return POST(
+    createMockRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/webhooks/pims-confirm-appointment",
+      body,
+    }),
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubGlobal("fetch", fetchMock);
+  updates.length = 0;
+  appointment.current = {
+    clinic_id: "clinic-1",
+    neo_appointment_id: "neo-123",
+    confirmation_status: "confirmed",
+  };
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("POST /api/webhooks/pims-confirm-appointment", () => {
+  it("writes the confirmation to the PIMS and marks it synced", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+
+    const response = await confirm({ appointmentId: "appt-1" });
+
+    expect(response.status).toBe(200);
+    await expect(getJsonResponse(response)).resolves.toEqual({
+      success: true,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://pims-sync.test/api/appointments/confirm",
+      expect.objectContaining({
+        method: "POST",
+        headers: expect.objectContaining({ "x-api-key": "sync-key" }),
+      }),
+    );
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      clinicId: "clinic-1",
+      appointmentId: "neo-123",
+    });
+    expect(updates).toEqual([
+      { confirmation_synced_at: expect.any(String) as string },
+    ]);
+  });
+
+  it("rejects a payload without an appointmentId", async () => {
+    const response = await confirm({});
+
+    expect(response.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("skips appointments that aren't in the PIMS", async () => {
+    appointment.current = { ...appointment.current, neo_appointment_id: null };
+
+    const response = await confirm({ appointmentId: "appt-1" });
+
+    await expect(getJsonResponse(response)).resolves.toEqual({
+      success: false,
+      skipped: "not_in_pims",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("skips appointments cancelled since the confirmation was queued", async () => {
+    appointment.current = {
+      ...appointment.current,
+      confirmation_status: "cancelled",
+    };
+
+    const response = await confirm({ appointmentId: "appt-1" });
+
+    await expect(getJsonResponse(response)).resolves.toEqual({
+      success: false,
+      skipped: "not_confirmed",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("doesn't retry when the PIMS can't confirm appointments", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 501 }));
+
+    const response = await confirm({ appointmentId: "appt-1" });
+
+    expect(response.status).toBe(200);
+    await expect(getJsonResponse(response)).resolves.toEqual({
+      success: false,
+      skipped: "unsupported",
+    });
+    expect(updates).toEqual([]);
+  });
+
+  it("returns 500 so QStash retries when the PIMS sync fails", async () => {
+    fetchMock.mockResolvedValue(new Response("login failed", { status: 502 }));
+
+    const response = await confirm({ appointmentId: "appt-1" });
+
+    expect(response.status).toBe(500);
+    expect(updates).toEqual([]);
+  });
+});
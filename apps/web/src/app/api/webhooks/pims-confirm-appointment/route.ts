@@ -0,0 +1,128 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/dist/nextjs";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { env } from "~/env";
+
+const PIMS_SYNC_URL =
+  env.PIMS_SYNC_URL ?? "https://pims-sync-production.up.railway.app";
+
+/**
+ * PIMS Confirm Appointment Webhook
+ *
+ * POST /api/webhooks/pims-confirm-appointment
+ *
+ * This webhook is triggered by QStash after a client confirms a synced
+ * appointment on a reminder call. It asks the PIMS sync service to mark the
+ * appointment confirmed in the PIMS, then records confirmation_synced_at.
+ * Failures return 500 so QStash retries; a PIMS without confirmation
+ * support (501) is not retried.
+ *
+ * Security: QStash signature verification ensures only QStash can trigger this
+ */
+
+interface PimsConfirmAppointmentPayload {
+  appointmentId: string;
+}
+
+/**
+ * Write one confirmation to the PIMS
+ */
+async function handler(req: NextRequest) {
+  try {
+    console.log("[PIMS_CONFIRM_APPOINTMENT] Webhook triggered");
+
+    // Parse request body
+    const payload = (await req.json()) as PimsConfirmAppointmentPayload;
+    const { appointmentId } = payload;
+
+    if (!appointmentId) {
+      console.error("[PIMS_CONFIRM_APPOINTMENT] Missing appointmentId");
+      return NextResponse.json(
+        { error: "Missing appointmentId in payload" },
+        { status: 400 },
+      );
+    }
+
+    const supabase = await createServiceClient();
+    const { data: appointment, error: loadError } = await supabase
+      .from("pims_appointments")
+      .select("clinic_id, neo_appointment_id, confirmation_status")
+      .eq("id", appointmentId)
+      .maybeSingle();
+
+    if (loadError) {
+      throw new Error(`Failed to load appointment: ${loadError.message}`);
+    }
+    if (!appointment?.neo_appointment_id) {
+      console.warn("[PIMS_CONFIRM_APPOINTMENT] No PIMS appointment to update", {
+        appointmentId,
+      });
+      return NextResponse.json({ success: false, skipped: "not_in_pims" });
+    }
+    if (appointment.confirmation_status !== "confirmed") {
+      // Cancelled or rescheduled since the confirmation was queued
+      return NextResponse.json({ success: false, skipped: "not_confirmed" });
+    }
+
+    const response = await fetch(`${PIMS_SYNC_URL}/api/appointments/confirm`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": env.PIMS_SYNC_API_KEY ?? "",
+      },
+      body: JSON.stringify({
+        clinicId: appointment.clinic_id,
+        appointmentId: appointment.neo_appointment_id,
+        note: "Confirmed by client on reminder call",
+      }),
+    });
+
+    if (response.status === 501) {
+      console.warn("[PIMS_CONFIRM_APPOINTMENT] PIMS can't confirm", {
+        appointmentId,
+        clinicId: appointment.clinic_id,
+      });
+      return NextResponse.json({ success: false, skipped: "unsupported" });
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`PIMS sync returned ${response.status}: ${body}`);
+    }
+
+    await supabase
+      .from("pims_appointments")
+      .update({ confirmation_synced_at: new Date().toISOString() })
+      .eq("id", appointmentId);
+
+    console.log("[PIMS_CONFIRM_APPOINTMENT] Confirmation written to PIMS", {
+      appointmentId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[PIMS_CONFIRM_APPOINTMENT] Unexpected error", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Wrap handler with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    message: "PIMS confirm appointment webhook is active",
+  });
+}
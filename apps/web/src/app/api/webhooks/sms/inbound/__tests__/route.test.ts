@@ -0,0 +1,156 @@
+/**
+ * Tests for /api/webhooks/sms/inbound
+ * - Opt-out and opt-in keywords are only confirmed once stored
+ * - Waitlist offers are answered with BOOK/PASS, never the YES opt-in keyword
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockRequest } from "@odis-ai/shared/testing/utils/api";
+
+interface QueryResult {
+  error: { message: string } | null;
+}
+
+const results: Record<string, QueryResult> = {};
+const calls: Array<{ table: string; op: string }> = [];
+let currentBody = "";
+
+/**
+ * Chainable query stub resolving to the result configured for its table
+ */
+function query(table: string) {
+  const builder: Record<string, unknown> = {};
+  for (const op of ["upsert", "update", "delete", "eq"]) {
+    builder[op] = vi.fn(() => {
+      calls.push({ table, op });
+      return builder;
+    });
+  }
+  builder.then = (resolve: (value: QueryResult) => unknown) =>
+    resolve(results[table] ?? { error: null });
+  return builder;
+}
+
+vi.mock("@odis-ai/data-access/db/server", () => ({
+  createServiceClient: vi.fn(async () => ({ from: query })),
+}));
+
+vi.mock("@odis-ai/integrations/sms", async () => {
+  const keywords = await vi.importActual<
+    typeof import("@odis-ai/integrations/sms/keywords")
+  >("@odis-ai/integrations/sms/keywords");
+  return {
+    ...keywords,
+    recordInboundSms: vi.fn(async () => null),
+    verifyTwilioRequest: vi.fn(async () => ({
+      From: "+15555550123",
+      Body: currentBody,
+      MessageSid: "SM123",
+    })),
+  };
+});
+
+const waitlist = vi.hoisted(() => ({
+  findPendingSmsOffer: vi.fn(),
+  respondToWaitlistOffer: vi.fn(),
+}));
+
+vi.mock(
+  "@odis-ai/integrations/vapi/processors/appointments/waitlist",
+  async (importOriginal) => ({
+    ...(await importOriginal<
+      typeof import("@odis-ai/integrations/vapi/processors/appointments/waitlist")
+    >()),
+    ...waitlist,
+  }),
+);
+
+import { POST } from "../route";
+
+function inbound(body: string) {
+  currentBody = body;
+  return POST(
+    createMockRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/webhooks/sms/inbound",
+    }),
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  calls.length = 0;
+  for (const table of Object.keys(results)) delete results[table];
+});
+
+describe("POST /api/webhooks/sms/inbound", () => {
+  it("confirms a stored opt-out and cancels queued texts", async () => {
+    const response = await inbound("STOP");
+
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.toContain("<Message>");
+    expect(calls).toContainEqual({ table: "sms_opt_outs", op: "upsert" });
+    expect(calls).toContainEqual({
+      table: "scheduled_discharge_sms",
+      op: "update",
+    });
+  });
+
+  it("returns 500 without confirming when the opt-out isn't stored", async () => {
+    results.sms_opt_outs = { error: { message: "connection reset" } };
+
+    const response = await inbound("STOP");
+
+    expect(response.status).toBe(500);
+    expect(calls).not.toContainEqual({
+      table: "scheduled_discharge_sms",
+      op: "update",
+    });
+  });
+
+  it("still confirms the opt-out when cancelling queued texts fails", async () => {
+    results.scheduled_discharge_sms = { error: { message: "timeout" } };
+
+    const response = await inbound("STOP");
+
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.toContain("<Message>");
+  });
+
+  it("returns 500 when the opt-out can't be removed", async () => {
+    results.sms_opt_outs = { error: { message: "connection reset" } };
+
+    const response = await inbound("START");
+
+    expect(response.status).toBe(500);
+    expect(calls).toContainEqual({ table: "sms_opt_outs", op: "delete" });
+  });
+
+  it("answers a pending waitlist offer with BOOK", async () => {
+    waitlist.findPendingSmsOffer.mockResolvedValue("offer-1");
+    waitlist.respondToWaitlistOffer.mockResolvedValue({
+      status: "accepted",
+      patientName: "Max",
+      slotLabel: "Tue, Mar 17 at 9:00 AM",
+      confirmationNumber: "A1B2",
+    });
+
+    const response = await inbound("book");
+
+    expect(waitlist.respondToWaitlistOffer).toHaveBeenCalledWith(
+      expect.anything(),
+      "offer-1",
+      true,
+    );
+    await expect(response.text()).resolves.toContain("Max is scheduled");
+    expect(calls).not.toContainEqual({ table: "sms_opt_outs", op: "delete" });
+  });
+
+  it("handles YES as an opt-in, not an offer answer", async () => {
+    const response = await inbound("YES");
+
+    expect(response.status).toBe(200);
+    expect(waitlist.findPendingSmsOffer).not.toHaveBeenCalled();
+    expect(calls).toContainEqual({ table: "sms_opt_outs", op: "delete" });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Inbound SMS Webhook Route
+ *
+ * POST /api/webhooks/sms/inbound
+ *
+ * Twilio posts every text an owner sends to our number here. Each text is
+ * recorded in the owner's conversation thread (with triage urgency) so
+ * staff can reply from the dashboard. Carrier keywords are handled first:
+ * - STOP (and friends): record the opt-out and cancel queued texts
+ * - START: remove the opt-out
+ *   (a failed write returns 500 rather than confirming the change)
+ * - HELP: reply with clinic contact info
+ *
+ * Any other text answers a pending waitlist offer when it's BOOK or PASS.
+ * Offers don't use YES because that's the carrier opt-in keyword.
+ *
+ * Replies are returned as TwiML so Twilio sends them on our behalf.
+ *
+ * Security: X-Twilio-Signature is verified against TWILIO_AUTH_TOKEN
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { loggers } from "@odis-ai/shared/logger";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { normalizeToE164 } from "@odis-ai/shared/util/phone";
+import {
+  getKeywordReply,
+  parseSmsKeyword,
+  recordInboundSms,
+  verifyTwilioRequest,
+} from "@odis-ai/integrations/sms";
+
+const logger = loggers.webhook.child("sms-inbound");
+
+// Dynamic import to avoid bundling the VAPI client into this route
+async function getWaitlistResponder() {
+  const { findPendingSmsOffer, parseWaitlistSmsReply, respondToWaitlistOffer } =
+    await import("@odis-ai/integrations/vapi/processors/appointments/waitlist");
+  return { findPendingSmsOffer, parseWaitlistSmsReply, respondToWaitlistOffer };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Build a TwiML response, optionally replying with a message
+ */
+function twiml(message?: string) {
+  const body = message
+    ? `<Response><Message>${escapeXml(message)}</Message></Response>`
+    : "<Response></Response>";
+  return new NextResponse(`<?xml version="1.0" encoding="UTF-8"?>${body}`, {
+    headers: { "Content-Type": "text/xml" },
+  });
+}
+
+/**
+ * Handle an incoming text from Twilio
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const params = await verifyTwilioRequest(request);
+    if (!params) {
+      logger.warn("Invalid Twilio signature");
+      return NextResponse.json({ error: "Invalid signature" }, { status: 403 });
+    }
+
+    const from = normalizeToE164(params.From);
+    const body = params.Body ?? "";
+    if (!from) {
+      logger.warn("Inbound SMS without sender", {
+        messageSid: params.MessageSid,
+      });
+      return twiml();
+    }
+
+    const supabase = await createServiceClient();
+
+    try {
+      const { getClinicByUserId } =
+        await import("@odis-ai/domain/clinics/utils");
+      const recorded = await recordInboundSms(
+        supabase,
+        {
+          from,
+          body,
+          providerMessageId: params.MessageSid,
+        },
+        async (userId) =>
+          (await getClinicByUserId(userId, supabase))?.id ?? null,
+      );
+
+      if (!recorded) {
+        logger.info("Inbound SMS from unknown number", {
+          messageSid: params.MessageSid,
+        });
+      } else if (recorded.urgency) {
+        logger.warn("Urgent inbound SMS", {
+          conversationId: recorded.conversationId,
+          caseId: recorded.caseId,
+          urgency: recorded.urgency,
+          keywords: recorded.keywords,
+        });
+      }
+    } catch (recordError) {
+      // Keyword handling must still run (STOP is a carrier requirement)
+      logger.error("Failed to record inbound SMS", {
+        messageSid: params.MessageSid,
+        error:
+          recordError instanceof Error
+            ? recordError.message
+            : String(recordError),
+      });
+    }
+
+    // Carrier keywords come first so the waitlist never sees STOP or YES;
+    // any other text may be a BOOK/PASS answer to a pending offer
+    const keyword = parseSmsKeyword(body);
+    if (!keyword) {
+      const {
+        findPendingSmsOffer,
+        parseWaitlistSmsReply,
+        respondToWaitlistOffer,
+      } = await getWaitlistResponder();
+      const offerReply = parseWaitlistSmsReply(body);
+      if (offerReply !== null) {
+        const offerId = await findPendingSmsOffer(supabase, from);
+        if (offerId) {
+          const result = await respondToWaitlistOffer(
+            supabase,
+            offerId,
+            offerReply,
+          );
+          logger.info("Waitlist offer answered by SMS", {
+            offerId,
+            status: result.status,
+          });
+
+          const pet = result.patientName ?? "your pet";
+          switch (result.status) {
+            case "accepted":
+              return twiml(
+                `You're booked! ${pet} is scheduled for ${result.slotLabel}.${result.confirmationNumber ? ` Confirmation #${result.confirmationNumber}.` : ""}`,
+              );
+            case "declined":
+              return twiml(
+                "No problem. You're still on the waitlist, and we'll text you if another time opens up.",
+              );
+            case "expired":
+              return twiml(
+                `Sorry, the hold on ${result.slotLabel} has ended. You're still on the waitlist, and we'll text you if another time opens up.`,
+              );
+            default:
+              // Already answered or expired; handle as a normal text
+              break;
+          }
+        }
+      }
+      return twiml();
+    }
+
+    logger.info("SMS keyword received", {
+      action: keyword.action,
+      keyword: keyword.keyword,
+    });
+
+    if (keyword.action === "opt_out") {
+      const { error: optOutError } = await supabase
+        .from("sms_opt_outs")
+        .upsert({
+          phone_number: from,
+          keyword: keyword.keyword,
+          opted_out_at: new Date().toISOString(),
+        });
+
+      // Don't confirm an opt-out we failed to store; the error status makes
+      // Twilio log the failure instead of texting the owner
+      if (optOutError) {
+        logger.error("Failed to record SMS opt-out", {
+          messageSid: params.MessageSid,
+          error: optOutError.message,
+        });
+        return NextResponse.json(
+          { error: "Failed to record opt-out" },
+          { status: 500 },
+        );
+      }
+
+      // Queued texts would be cancelled at send time anyway; do it now so
+      // the dashboard reflects the opt-out immediately
+      const { error: cancelError } = await supabase
+        .from("scheduled_discharge_sms")
+        .update({ status: "cancelled" })
+        .eq("recipient_phone", from)
+        .eq("status", "queued");
+
+      if (cancelError) {
+        logger.error("Failed to cancel queued SMS after opt-out", {
+          messageSid: params.MessageSid,
+          error: cancelError.message,
+        });
+      }
+    } else if (keyword.action === "opt_in") {
+      const { error: optInError } = await supabase
+        .from("sms_opt_outs")
+        .delete()
+        .eq("phone_number", from);
+
+      if (optInError) {
+        logger.error("Failed to remove SMS opt-out", {
+          messageSid: params.MessageSid,
+          error: optInError.message,
+        });
+        return NextResponse.json(
+          { error: "Failed to record opt-in" },
+          { status: 500 },
+        );
+      }
+    }
+
+    // Use the clinic that last texted this number for HELP replies
+    let clinicName: string | undefined;
+    let clinicPhone: string | undefined;
+    if (keyword.action === "help") {
+      const { data: lastSms } = await supabase
+        .from("scheduled_discharge_sms")
+        .select("user_id")
+        .eq("recipient_phone", from)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (lastSms) {
+        const { data: user } = await supabase
+          .from("users")
+          .select("clinic_name, clinic_phone")
+          .eq("id", lastSms.user_id)
+          .single();
+        clinicName = user?.clinic_name ?? undefined;
+        clinicPhone = user?.clinic_phone ?? undefined;
+      }
+    }
+
+    return twiml(getKeywordReply(keyword.action, clinicName, clinicPhone));
+  } catch (error) {
+    logger.error("Failed to process inbound SMS", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Empty TwiML so Twilio doesn't retry or text the owner an error
+    return twiml();
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * SMS Status Callback Route
+ *
+ * POST /api/webhooks/sms/status
+ *
+ * Twilio posts delivery updates for texts we sent (StatusCallback). Carrier
+ * confirmation moves a scheduled SMS from sent to delivered; undelivered or
+ * failed messages are marked failed with the provider error code. The
+ * matching message in the SMS inbox thread (discharge text or staff reply)
+ * gets the same status.
+ *
+ * Security: X-Twilio-Signature is verified against TWILIO_AUTH_TOKEN
+ */
+
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { loggers } from "@odis-ai/shared/logger";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import {
+  mapTwilioStatus,
+  verifyTwilioRequest,
+} from "@odis-ai/integrations/sms";
+
+const logger = loggers.webhook.child("sms-status");
+
+/**
+ * Handle a delivery status update from Twilio
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const params = await verifyTwilioRequest(request);
+    if (!params) {
+      logger.warn("Invalid Twilio signature");
+      return NextResponse.json({ error: "Invalid signature" }, { status: 403 });
+    }
+
+    const messageSid = params.MessageSid;
+    const status = mapTwilioStatus(params.MessageStatus ?? "");
+    if (
+      !messageSid ||
+      (status !== "delivered" &&
+        status !== "undelivered" &&
+        status !== "failed")
+    ) {
+      // queued/sent updates carry nothing the executor didn't already record
+      return NextResponse.json({ received: true });
+    }
+
+    const supabase = await createServiceClient();
+
+    // Staff replies only exist in the inbox thread, so update it first
+    await supabase
+      .from("sms_messages")
+      .update({ status: status === "delivered" ? "delivered" : "failed" })
+      .eq("provider_message_id", messageSid)
+      .neq("status", "delivered");
+
+    const { data: sms } = await supabase
+      .from("scheduled_discharge_sms")
+      .select("id, status, metadata")
+      .eq("provider_message_id", messageSid)
+      .maybeSingle();
+
+    if (!sms) {
+      logger.warn("Status update for unknown message", { messageSid });
+      return NextResponse.json({ received: true });
+    }
+
+    if (status === "delivered") {
+      await supabase
+        .from("scheduled_discharge_sms")
+        .update({
+          status: "delivered",
+          delivered_at: new Date().toISOString(),
+        })
+        .eq("id", sms.id);
+    } else if (sms.status !== "delivered") {
+      await supabase
+        .from("scheduled_discharge_sms")
+        .update({
+          status: "failed",
+          metadata: {
+            ...(sms.metadata as Record<string, unknown>),
+            error: `Twilio ${status}${params.ErrorCode ? ` (${params.ErrorCode})` : ""}`,
+            failed_at: new Date().toISOString(),
+          },
+        })
+        .eq("id", sms.id);
+    }
+
+    logger.info("SMS status updated", { smsId: sms.id, status });
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    logger.error("Failed to process SMS status update", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
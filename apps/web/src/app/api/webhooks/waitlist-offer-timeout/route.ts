@@ -0,0 +1,79 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/dist/nextjs";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+
+// Dynamic import to avoid bundling issues during static generation
+async function getOfferExpirer() {
+  const { expireWaitlistOffer } =
+    await import("@odis-ai/integrations/vapi/processors/appointments/waitlist");
+  return expireWaitlistOffer;
+}
+
+/**
+ * Waitlist Offer Timeout Webhook
+ *
+ * POST /api/webhooks/waitlist-offer-timeout
+ *
+ * This webhook is triggered by QStash when a waitlist offer's hold runs out.
+ * An unanswered offer is expired, its hold released, and the slot passed to
+ * the next client on the waitlist. Answered offers are left alone.
+ *
+ * Security: QStash signature verification ensures only QStash can trigger this
+ */
+
+interface WaitlistOfferTimeoutPayload {
+  offerId: string;
+}
+
+/**
+ * Handle the end of an offer's hold
+ */
+async function handler(req: NextRequest) {
+  try {
+    console.log("[WAITLIST_OFFER_TIMEOUT] Webhook triggered");
+
+    // Parse request body
+    const payload = (await req.json()) as WaitlistOfferTimeoutPayload;
+    const { offerId } = payload;
+
+    if (!offerId) {
+      console.error("[WAITLIST_OFFER_TIMEOUT] Missing offerId in payload");
+      return NextResponse.json(
+        { error: "Missing offerId in payload" },
+        { status: 400 },
+      );
+    }
+
+    // Get Supabase service client and expirer
+    const supabase = await createServiceClient();
+    const expireWaitlistOffer = await getOfferExpirer();
+
+    const result = await expireWaitlistOffer(supabase, offerId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[WAITLIST_OFFER_TIMEOUT] Unexpected error", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Wrap handler with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    message: "Waitlist offer timeout webhook is active",
+  });
+}
@@ -0,0 +1,109 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/dist/nextjs";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import type { WaitlistOpeningPayload } from "@odis-ai/integrations/qstash";
+import {
+  getSmsClient,
+  getSmsStatusCallbackUrl,
+} from "@odis-ai/integrations/sms";
+
+// Dynamic import to avoid bundling issues during static generation
+async function getWaitlistOfferer() {
+  const { offerWaitlistOpening } =
+    await import("@odis-ai/integrations/vapi/processors/appointments/waitlist");
+  return offerWaitlistOpening;
+}
+
+/**
+ * Waitlist Opening Webhook
+ *
+ * POST /api/webhooks/waitlist-opening
+ *
+ * This webhook is triggered by QStash when an appointment slot frees up
+ * (cancellation, PIMS sync, or a released offer). It holds the slot for the
+ * first matching waitlist client and calls or texts them with the offer.
+ * Offer texts are sent through the clinic SMS client from here.
+ *
+ * Security: QStash signature verification ensures only QStash can trigger this
+ */
+
+/**
+ * Send an offer text, returning the provider message id
+ */
+async function sendOfferText(to: string, body: string): Promise<string> {
+  const response = await getSmsClient().send({
+    to,
+    body,
+    statusCallbackUrl: getSmsStatusCallbackUrl(),
+  });
+  return response.id;
+}
+
+/**
+ * Handle a freed slot
+ */
+async function handler(req: NextRequest) {
+  try {
+    console.log("[WAITLIST_OPENING] Webhook triggered");
+
+    // Parse request body
+    const payload = (await req.json()) as WaitlistOpeningPayload;
+
+    if (
+      !payload.clinicId ||
+      !payload.scheduleClinicId ||
+      !payload.slotStart ||
+      !payload.slotEnd
+    ) {
+      console.error("[WAITLIST_OPENING] Invalid payload", {
+        hasClinicId: !!payload.clinicId,
+        hasScheduleClinicId: !!payload.scheduleClinicId,
+        hasSlotStart: !!payload.slotStart,
+        hasSlotEnd: !!payload.slotEnd,
+      });
+      return NextResponse.json(
+        { error: "Invalid payload - missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    // Get Supabase service client (bypasses RLS for background processing)
+    const supabase = await createServiceClient();
+    const offerWaitlistOpening = await getWaitlistOfferer();
+
+    const result = await offerWaitlistOpening(supabase, payload, sendOfferText);
+
+    console.log("[WAITLIST_OPENING] Opening processed", {
+      clinicId: payload.clinicId,
+      slotStart: payload.slotStart,
+      source: payload.source,
+      result,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[WAITLIST_OPENING] Unexpected error", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Wrap handler with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    message: "Waitlist opening webhook is active",
+  });
+}
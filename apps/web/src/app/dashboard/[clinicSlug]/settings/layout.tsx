@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname, useParams } from "next/navigation";
 import { cn } from "@odis-ai/shared/util";
-import { Palette, Settings as SettingsIcon } from "lucide-react";
+import { Bell, Palette, Settings as SettingsIcon } from "lucide-react";
 
 const TABS = [
   {
@@ -12,6 +12,13 @@ const TABS = [
     icon: Palette,
     href: (clinicSlug: string) => `/dashboard/${clinicSlug}/settings/branding`,
   },
+  {
+    id: "notifications",
+    label: "Notifications",
+    icon: Bell,
+    href: (clinicSlug: string) =>
+      `/dashboard/${clinicSlug}/settings/notifications`,
+  },
   {
     id: "system",
     label: "System",
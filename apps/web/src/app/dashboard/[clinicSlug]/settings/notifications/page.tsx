@@ -0,0 +1,33 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { Bell } from "lucide-react";
+import { SlackNotificationSettings } from "~/components/dashboard/settings/notifications";
+
+export default function NotificationSettingsPage() {
+  const params = useParams<{ clinicSlug: string }>();
+  const clinicSlug = params?.clinicSlug ?? "";
+
+  return (
+    <div className="mx-auto max-w-4xl px-8 py-6">
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-teal-100/80 text-teal-600">
+            <Bell className="h-5 w-5" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">
+              Notifications
+            </h1>
+            <p className="text-sm text-slate-500">
+              Slack channels, severity filters, digests and quiet hours
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <SlackNotificationSettings clinicSlug={clinicSlug} />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import { Loader2 } from "lucide-react";
+import { SmsInbox } from "~/components/dashboard/texts";
+
+export const metadata: Metadata = {
+  title: "Texts | Dashboard",
+  description: "Reply to text messages from pet owners",
+};
+
+/**
+ * Clinic-Scoped Texts Dashboard Page
+ *
+ * Two-way SMS threads with pet owners, linked to the case of the
+ * discharge text they're replying to.
+ *
+ * This route is clinic-scoped under /dashboard/[clinicSlug]/texts
+ * and uses the ClinicProvider from the parent layout.
+ */
+export default async function ClinicTextsPage() {
+  return (
+    <div className="flex h-full flex-col">
+      <Suspense
+        fallback={
+          <div className="flex h-[50vh] items-center justify-center">
+            <div className="flex flex-col items-center gap-3">
+              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-teal-100">
+                <Loader2 className="h-6 w-6 animate-spin text-teal-600" />
+              </div>
+              <p className="text-sm text-slate-500">Loading conversations...</p>
+            </div>
+          </div>
+        }
+      >
+        <SmsInbox />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import { Loader2 } from "lucide-react";
+import { WaitlistBoard } from "~/components/dashboard/waitlist";
+
+export const metadata: Metadata = {
+  title: "Waitlist | Dashboard",
+  description: "Clients waiting for a cancellation",
+};
+
+/**
+ * Clinic-Scoped Waitlist Dashboard Page
+ *
+ * Clients waiting for an earlier appointment. Cancelled slots are offered
+ * to them automatically by call or text.
+ *
+ * This route is clinic-scoped under /dashboard/[clinicSlug]/waitlist
+ * and uses the ClinicProvider from the parent layout.
+ */
+export default async function ClinicWaitlistPage() {
+  return (
+    <div className="flex h-full flex-col">
+      <Suspense
+        fallback={
+          <div className="flex h-[50vh] items-center justify-center">
+            <div className="flex flex-col items-center gap-3">
+              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-teal-100">
+                <Loader2 className="h-6 w-6 animate-spin text-teal-600" />
+              </div>
+              <p className="text-sm text-slate-500">Loading waitlist...</p>
+            </div>
+          </div>
+        }
+      >
+        <WaitlistBoard />
+      </Suspense>
+    </div>
+  );
+}
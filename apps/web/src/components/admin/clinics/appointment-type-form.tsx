@@ -0,0 +1,312 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Input } from "@odis-ai/shared/ui/input";
+import { Label } from "@odis-ai/shared/ui/label";
+import { Switch } from "@odis-ai/shared/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@odis-ai/shared/ui/select";
+import {
+  appointmentTypeSchema,
+  clinicResourceSchema,
+  type AppointmentTypeInput,
+  type AppointmentTypeSettings,
+  type ClinicResourceInput,
+  type ClinicResourceKind,
+  type ClinicResourceSettings,
+} from "@odis-ai/shared/validators";
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function FormActions({
+  isSaving,
+  onCancel,
+}: {
+  isSaving: boolean;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="flex justify-end gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={onCancel}
+        disabled={isSaving}
+      >
+        Cancel
+      </Button>
+      <Button
+        type="submit"
+        size="sm"
+        disabled={isSaving}
+        className="bg-teal-600 hover:bg-teal-700"
+      >
+        {isSaving && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </div>
+  );
+}
+
+interface AppointmentTypeFormProps {
+  type: AppointmentTypeSettings | null;
+  isSaving: boolean;
+  onSubmit: (type: AppointmentTypeInput) => void;
+  onCancel: () => void;
+}
+
+export function AppointmentTypeForm({
+  type,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: AppointmentTypeFormProps) {
+  const [name, setName] = useState(type?.name ?? "");
+  const [pimsAppointmentTypeId, setPimsAppointmentTypeId] = useState(
+    type?.pimsAppointmentTypeId ?? "",
+  );
+  const [durationMinutes, setDurationMinutes] = useState(
+    type?.durationMinutes ?? 30,
+  );
+  const [bufferMinutes, setBufferMinutes] = useState(type?.bufferMinutes ?? 0);
+  const [requiredRoomType, setRequiredRoomType] = useState(
+    type?.requiredRoomType ?? "",
+  );
+  const [requiredProviderRole, setRequiredProviderRole] = useState(
+    type?.requiredProviderRole ?? "",
+  );
+  const [keywords, setKeywords] = useState(type?.keywords.join(", ") ?? "");
+  const [isActive, setIsActive] = useState(type?.isActive ?? true);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = appointmentTypeSchema.safeParse({
+      name,
+      pimsAppointmentTypeId,
+      durationMinutes,
+      bufferMinutes,
+      requiredRoomType,
+      requiredProviderRole,
+      keywords: splitList(keywords),
+      isActive,
+    });
+
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Invalid appointment type");
+      return;
+    }
+
+    setError(null);
+    onSubmit(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Name</Label>
+          <Input
+            value={name}
+            placeholder="e.g., Dental consult"
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">
+            PIMS appointment type ID
+          </Label>
+          <Input
+            value={pimsAppointmentTypeId}
+            placeholder="Optional"
+            onChange={(e) => setPimsAppointmentTypeId(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Duration (minutes)</Label>
+          <Input
+            type="number"
+            min={5}
+            max={480}
+            step={5}
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">
+            Buffer after (minutes)
+          </Label>
+          <Input
+            type="number"
+            min={0}
+            max={120}
+            step={5}
+            value={bufferMinutes}
+            onChange={(e) => setBufferMinutes(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Required room type</Label>
+          <Input
+            value={requiredRoomType}
+            placeholder="e.g., dental (optional)"
+            onChange={(e) => setRequiredRoomType(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">
+            Required provider role
+          </Label>
+          <Input
+            value={requiredProviderRole}
+            placeholder="e.g., veterinarian (optional)"
+            onChange={(e) => setRequiredProviderRole(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label className="text-xs text-slate-500">
+            Visit reason keywords (comma-separated)
+          </Label>
+          <Input
+            value={keywords}
+            placeholder="e.g., dental, teeth, cleaning"
+            onChange={(e) => setKeywords(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch checked={isActive} onCheckedChange={setIsActive} />
+        <span className="text-sm text-slate-600">Active</span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <FormActions isSaving={isSaving} onCancel={onCancel} />
+    </form>
+  );
+}
+
+interface ResourceFormProps {
+  resource: ClinicResourceSettings | null;
+  isSaving: boolean;
+  onSubmit: (resource: ClinicResourceInput) => void;
+  onCancel: () => void;
+}
+
+export function ResourceForm({
+  resource,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: ResourceFormProps) {
+  const [kind, setKind] = useState<ClinicResourceKind>(
+    resource?.kind ?? "room",
+  );
+  const [name, setName] = useState(resource?.name ?? "");
+  const [pimsResourceId, setPimsResourceId] = useState(
+    resource?.pimsResourceId ?? "",
+  );
+  const [label, setLabel] = useState(
+    (resource?.kind === "provider"
+      ? resource.providerRole
+      : resource?.roomType) ?? "",
+  );
+  const [isActive, setIsActive] = useState(resource?.isActive ?? true);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = clinicResourceSchema.safeParse({
+      kind,
+      name,
+      pimsResourceId,
+      roomType: kind === "room" ? label : null,
+      providerRole: kind === "provider" ? label : null,
+      isActive,
+    });
+
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Invalid resource");
+      return;
+    }
+
+    setError(null);
+    onSubmit(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Kind</Label>
+          <Select
+            value={kind}
+            onValueChange={(value) => setKind(value as ClinicResourceKind)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="room">Room</SelectItem>
+              <SelectItem value="provider">Provider</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">
+            {kind === "room" ? "Room name" : "Provider name (as in PIMS)"}
+          </Label>
+          <Input
+            value={name}
+            placeholder={kind === "room" ? "e.g., Dental 1" : "e.g., Dr. Lee"}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">
+            {kind === "room" ? "Room type" : "Role"}
+          </Label>
+          <Input
+            value={label}
+            placeholder={
+              kind === "room" ? "e.g., dental" : "e.g., veterinarian"
+            }
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">PIMS ID</Label>
+          <Input
+            value={pimsResourceId}
+            placeholder="Optional"
+            onChange={(e) => setPimsResourceId(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch checked={isActive} onCheckedChange={setIsActive} />
+        <span className="text-sm text-slate-600">Active</span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <FormActions isSaving={isSaving} onCancel={onCancel} />
+    </form>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DoorOpen,
+  Edit,
+  Loader2,
+  Plus,
+  Stethoscope,
+  Timer,
+  Trash2,
+} from "lucide-react";
+import { api } from "~/trpc/client";
+import { toast } from "sonner";
+import { Card } from "@odis-ai/shared/ui/card";
+import { Button } from "@odis-ai/shared/ui/button";
+import type {
+  AppointmentTypeInput,
+  ClinicResourceInput,
+} from "@odis-ai/shared/validators";
+import { AppointmentTypeForm, ResourceForm } from "./appointment-type-form";
+
+interface AppointmentTypesCardProps {
+  clinicId: string;
+  clinicSlug: string;
+}
+
+/** The inline form that's open: a new type or resource, or an existing row */
+type EditingState =
+  | { kind: "new-type" }
+  | { kind: "new-resource" }
+  | { kind: "edit"; id: string }
+  | null;
+
+function RowActions({
+  onEdit,
+  onDelete,
+  disabled,
+}: {
+  onEdit: () => void;
+  onDelete: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="flex shrink-0 items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={onEdit}
+        disabled={disabled}
+      >
+        <Edit className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0 text-red-600 hover:bg-red-50 hover:text-red-700"
+        onClick={onDelete}
+        disabled={disabled}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function AppointmentTypesCard({
+  clinicId,
+  clinicSlug,
+}: AppointmentTypesCardProps) {
+  const utils = api.useUtils();
+  const [editing, setEditing] = useState<EditingState>(null);
+
+  const { data, isLoading } =
+    api.settings.appointmentTypes.getAppointmentTypes.useQuery({
+      clinicId,
+      clinicSlug,
+    });
+  const types = data?.types ?? [];
+  const resources = data?.resources ?? [];
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setEditing(null);
+    void utils.settings.appointmentTypes.getAppointmentTypes.invalidate();
+  };
+  const onFailed = (action: string) => (error: { message: string }) => {
+    toast.error(`Failed to ${action}: ${error.message}`);
+  };
+
+  const createType =
+    api.settings.appointmentTypes.createAppointmentType.useMutation({
+      onSuccess: () => onSaved("Appointment type added"),
+      onError: onFailed("add appointment type"),
+    });
+  const updateType =
+    api.settings.appointmentTypes.updateAppointmentType.useMutation({
+      onSuccess: () => onSaved("Appointment type saved"),
+      onError: onFailed("save appointment type"),
+    });
+  const deleteType =
+    api.settings.appointmentTypes.deleteAppointmentType.useMutation({
+      onSuccess: () => onSaved("Appointment type deleted"),
+      onError: onFailed("delete appointment type"),
+    });
+  const createResource =
+    api.settings.appointmentTypes.createResource.useMutation({
+      onSuccess: () => onSaved("Resource added"),
+      onError: onFailed("add resource"),
+    });
+  const updateResource =
+    api.settings.appointmentTypes.updateResource.useMutation({
+      onSuccess: () => onSaved("Resource saved"),
+      onError: onFailed("save resource"),
+    });
+  const deleteResource =
+    api.settings.appointmentTypes.deleteResource.useMutation({
+      onSuccess: () => onSaved("Resource deleted"),
+      onError: onFailed("delete resource"),
+    });
+
+  const saveType = (id: string | null) => (type: AppointmentTypeInput) => {
+    if (id) {
+      updateType.mutate({ clinicId, clinicSlug, id, type });
+    } else {
+      createType.mutate({ clinicId, clinicSlug, type });
+    }
+  };
+  const saveResource =
+    (id: string | null) => (resource: ClinicResourceInput) => {
+      if (id) {
+        updateResource.mutate({ clinicId, clinicSlug, id, resource });
+      } else {
+        createResource.mutate({ clinicId, clinicSlug, resource });
+      }
+    };
+
+  const isSavingType = createType.isPending || updateType.isPending;
+  const isSavingResource = createResource.isPending || updateResource.isPending;
+
+  return (
+    <Card className="border-slate-200 bg-white p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-sky-100/80 text-sky-600">
+            <Timer className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">
+              Appointment Types
+            </h3>
+            <p className="text-sm text-slate-500">
+              Visit lengths and the rooms and providers each visit needs
+            </p>
+          </div>
+        </div>
+        {!editing && (
+          <Button
+            onClick={() => setEditing({ kind: "new-type" })}
+            size="sm"
+            className="bg-teal-600 hover:bg-teal-700"
+          >
+            <Plus className="mr-1.5 h-4 w-4" />
+            Add Type
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-teal-600" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {editing?.kind === "new-type" && (
+              <div className="rounded-lg border border-teal-200 bg-teal-50/30 p-4">
+                <AppointmentTypeForm
+                  type={null}
+                  isSaving={isSavingType}
+                  onSubmit={saveType(null)}
+                  onCancel={() => setEditing(null)}
+                />
+              </div>
+            )}
+
+            {types.length === 0 && editing?.kind !== "new-type" && (
+              <div className="rounded-lg border border-dashed border-slate-200 bg-slate-50/50 px-6 py-6 text-center">
+                <p className="text-sm font-medium text-slate-600">
+                  No appointment types
+                </p>
+                <p className="text-xs text-slate-500">
+                  Every visit takes one slot
+                </p>
+              </div>
+            )}
+
+            {types.map((type) =>
+              editing?.kind === "edit" && editing.id === type.id ? (
+                <div
+                  key={type.id}
+                  className="rounded-lg border border-teal-200 bg-teal-50/30 p-4"
+                >
+                  <AppointmentTypeForm
+                    type={type}
+                    isSaving={isSavingType}
+                    onSubmit={saveType(type.id)}
+                    onCancel={() => setEditing(null)}
+                  />
+                </div>
+              ) : (
+                <div
+                  key={type.id}
+                  className={`flex items-center justify-between gap-4 rounded-lg border border-slate-200/60 bg-slate-50/30 px-4 py-3 ${
+                    type.isActive ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-slate-900">
+                        {type.name}
+                      </span>
+                      <span className="text-xs text-slate-400">
+                        {type.durationMinutes} min
+                        {type.bufferMinutes > 0 &&
+                          ` + ${type.bufferMinutes} min buffer`}
+                      </span>
+                    </div>
+                    <p className="truncate text-xs text-slate-500">
+                      {[
+                        type.requiredRoomType &&
+                          `${type.requiredRoomType} room`,
+                        type.requiredProviderRole,
+                        type.pimsAppointmentTypeId &&
+                          `PIMS type ${type.pimsAppointmentTypeId}`,
+                        type.keywords.length > 0 &&
+                          `matches ${type.keywords.join(", ")}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || "Any room and provider"}
+                    </p>
+                  </div>
+                  <RowActions
+                    onEdit={() => setEditing({ kind: "edit", id: type.id })}
+                    onDelete={() =>
+                      deleteType.mutate({ clinicId, clinicSlug, id: type.id })
+                    }
+                    disabled={!!editing || deleteType.isPending}
+                  />
+                </div>
+              ),
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-slate-700">
+                Rooms &amp; Providers
+              </h4>
+              {!editing && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditing({ kind: "new-resource" })}
+                >
+                  <Plus className="mr-1.5 h-4 w-4" />
+                  Add
+                </Button>
+              )}
+            </div>
+
+            {editing?.kind === "new-resource" && (
+              <div className="rounded-lg border border-teal-200 bg-teal-50/30 p-4">
+                <ResourceForm
+                  resource={null}
+                  isSaving={isSavingResource}
+                  onSubmit={saveResource(null)}
+                  onCancel={() => setEditing(null)}
+                />
+              </div>
+            )}
+
+            {resources.length === 0 && editing?.kind !== "new-resource" && (
+              <p className="text-xs text-slate-500">
+                Add rooms and providers so appointment types can require them.
+              </p>
+            )}
+
+            {resources.map((resource) =>
+              editing?.kind === "edit" && editing.id === resource.id ? (
+                <div
+                  key={resource.id}
+                  className="rounded-lg border border-teal-200 bg-teal-50/30 p-4"
+                >
+                  <ResourceForm
+                    resource={resource}
+                    isSaving={isSavingResource}
+                    onSubmit={saveResource(resource.id)}
+                    onCancel={() => setEditing(null)}
+                  />
+                </div>
+              ) : (
+                <div
+                  key={resource.id}
+                  className={`flex items-center justify-between gap-4 rounded-lg border border-slate-200/60 bg-slate-50/30 px-4 py-2 ${
+                    resource.isActive ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="flex min-w-0 items-center gap-2">
+                    {resource.kind === "room" ? (
+                      <DoorOpen className="h-4 w-4 text-slate-400" />
+                    ) : (
+                      <Stethoscope className="h-4 w-4 text-slate-400" />
+                    )}
+                    <span className="text-sm text-slate-900">
+                      {resource.name}
+                    </span>
+                    <span className="text-xs text-slate-400">
+                      {(resource.kind === "room"
+                        ? resource.roomType
+                        : resource.providerRole) ?? "No type"}
+                    </span>
+                  </div>
+                  <RowActions
+                    onEdit={() => setEditing({ kind: "edit", id: resource.id })}
+                    onDelete={() =>
+                      deleteResource.mutate({
+                        clinicId,
+                        clinicSlug,
+                        id: resource.id,
+                      })
+                    }
+                    disabled={!!editing || deleteResource.isPending}
+                  />
+                </div>
+              ),
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarSearch, Loader2, MessageSquare, Search } from "lucide-react";
+import { api } from "~/trpc/client";
+import { Card } from "@odis-ai/shared/ui/card";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Input } from "@odis-ai/shared/ui/input";
+import { Label } from "@odis-ai/shared/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@odis-ai/shared/ui/select";
+import type { BookingRuleSubject } from "@odis-ai/shared/validators";
+import type { AvailabilityLayer } from "@odis-ai/integrations/vapi/processors/appointments/availability-explain";
+
+interface AvailabilityExplainCardProps {
+  clinicId: string;
+  clinicSlug: string;
+}
+
+type NewClientChoice = "unknown" | "new" | "existing";
+
+interface ExplainRequest {
+  date: string;
+  appointmentType?: string;
+  subject: BookingRuleSubject;
+}
+
+const LAYER_LABELS: Record<AvailabilityLayer, string> = {
+  schedule_config: "Schedule",
+  blocked_period: "Blocked period",
+  booked: "Booked",
+  room_filter: "Room filter",
+  clinic_hours: "Clinic hours",
+  booking_rule: "Booking rule",
+  appointment_type: "Appointment type",
+};
+
+export function AvailabilityExplainCard({
+  clinicId,
+  clinicSlug,
+}: AvailabilityExplainCardProps) {
+  const [date, setDate] = useState(
+    () => new Date().toISOString().split("T")[0]!,
+  );
+  const [appointmentType, setAppointmentType] = useState("");
+  const [newClient, setNewClient] = useState<NewClientChoice>("unknown");
+  const [species, setSpecies] = useState("");
+  const [reason, setReason] = useState("");
+  const [request, setRequest] = useState<ExplainRequest | null>(null);
+
+  const { data, isFetching, error, refetch } =
+    api.settings.availability.explainAvailability.useQuery(
+      { clinicId, clinicSlug, ...(request ?? { date, subject: {} }) },
+      { enabled: !!request },
+    );
+
+  const runExplain = () => {
+    const next: ExplainRequest = {
+      date,
+      appointmentType: appointmentType.trim() || undefined,
+      subject: {
+        isNewClient: newClient === "unknown" ? undefined : newClient === "new",
+        species: species.trim() || undefined,
+        reason: reason.trim() || undefined,
+      },
+    };
+
+    // Same inputs: read the schedule again rather than showing the cache
+    if (JSON.stringify(next) === JSON.stringify(request)) {
+      void refetch();
+    } else {
+      setRequest(next);
+    }
+  };
+
+  const openCount = data?.slots.filter((slot) => slot.open).length ?? 0;
+
+  return (
+    <Card className="border-slate-200 bg-white p-6">
+      <div className="mb-4 flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-indigo-100/80 text-indigo-600">
+          <CalendarSearch className="h-5 w-5" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">
+            Availability Explainer
+          </h3>
+          <p className="text-sm text-slate-500">
+            See every slot the assistant considers and why it was removed
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Date</Label>
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Appointment type</Label>
+          <Input
+            value={appointmentType}
+            placeholder="e.g., dental (optional)"
+            onChange={(e) => setAppointmentType(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Client</Label>
+          <Select
+            value={newClient}
+            onValueChange={(value) => setNewClient(value as NewClientChoice)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unknown">Not given</SelectItem>
+              <SelectItem value="new">New client</SelectItem>
+              <SelectItem value="existing">Existing client</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Species</Label>
+          <Input
+            value={species}
+            placeholder="e.g., dog"
+            onChange={(e) => setSpecies(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label className="text-xs text-slate-500">Visit reason</Label>
+          <Input
+            value={reason}
+            placeholder="e.g., vomiting since last night"
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          onClick={runExplain}
+          disabled={isFetching || !date}
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {isFetching ? (
+            <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="mr-1.5 h-4 w-4" />
+          )}
+          Explain
+        </Button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error.message}</p>}
+
+      {data && (
+        <div className="mt-4 space-y-4">
+          <div className="rounded-lg border border-slate-200/60 bg-slate-50/30 p-4">
+            <div className="mb-1 flex items-center gap-2 text-xs font-medium text-slate-500">
+              <MessageSquare className="h-3.5 w-3.5" />
+              The assistant would say
+            </div>
+            <p className="text-sm text-slate-900">
+              &ldquo;{data.result.message}&rdquo;
+            </p>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {data.schedule.closed
+              ? "Closed this day in the schedule config"
+              : `Schedule ${data.schedule.open}–${data.schedule.close}, ${data.schedule.slotMinutes}-minute slots`}
+            {` (${data.schedule.source.replace("_", " ")}, ${data.timezone})`}
+            {data.appointmentType &&
+              ` · ${data.appointmentType.durationMinutes}-minute ${data.appointmentType.name}`}
+            {` · ${openCount} of ${data.slots.length} open`}
+          </p>
+
+          <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-200/60">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-50 text-left text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Time</th>
+                  <th className="px-3 py-2 font-medium">Booked</th>
+                  <th className="px-3 py-2 font-medium">Removed by</th>
+                  <th className="px-3 py-2 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {data.slots.map((slot) => (
+                  <tr
+                    key={slot.slotStart}
+                    className={slot.open ? "bg-emerald-50/40" : ""}
+                  >
+                    <td className="px-3 py-1.5 font-medium text-slate-900">
+                      {slot.time12h}
+                      {slot.spoken && (
+                        <span className="ml-1.5 text-emerald-600">spoken</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 text-slate-500">
+                      {slot.capacity == null
+                        ? "—"
+                        : `${slot.bookedCount}/${slot.capacity}`}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      {slot.removedBy ? (
+                        <span className="text-red-600">
+                          {LAYER_LABELS[slot.removedBy]}
+                        </span>
+                      ) : (
+                        <span className="text-emerald-600">Open</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 text-slate-500">
+                      {slot.reason ?? ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,537 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Input } from "@odis-ai/shared/ui/input";
+import { Label } from "@odis-ai/shared/ui/label";
+import { Switch } from "@odis-ai/shared/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@odis-ai/shared/ui/select";
+import {
+  bookingRuleSchema,
+  type BookingRuleConfig,
+  type BookingRuleInput,
+  type BookingRuleMatch,
+  type BookingRuleType,
+  type BookingRuleWindow,
+} from "@odis-ai/shared/validators";
+
+const DAYS_OF_WEEK = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const RULE_TYPE_OPTIONS: {
+  value: BookingRuleType;
+  label: string;
+  hint: string;
+}[] = [
+  {
+    value: "block_window",
+    label: "Block a time window",
+    hint: "e.g. no new clients before 9am",
+  },
+  {
+    value: "allowed_windows",
+    label: "Only allow in windows",
+    hint: "e.g. surgeries only Tue/Thu mornings",
+  },
+  {
+    value: "hourly_limit",
+    label: "Limit per hour",
+    hint: "e.g. max 2 sick visits per hour",
+  },
+  {
+    value: "reserve_last_slots",
+    label: "Hold last slots",
+    hint: "e.g. hold the last slot for emergencies",
+  },
+  {
+    value: "provider_only",
+    label: "Only with a provider",
+    hint: "e.g. exotics only with Dr. Lee",
+  },
+];
+
+type NewClientChoice = "any" | "new" | "existing";
+
+interface RuleFormState {
+  name: string;
+  type: BookingRuleType;
+  priority: number;
+  isActive: boolean;
+  newClient: NewClientChoice;
+  /** Comma-separated */
+  species: string;
+  /** Comma-separated */
+  reasonKeywords: string;
+  windows: BookingRuleWindow[];
+  maxPerHour: number;
+  count: number;
+  providerName: string;
+}
+
+export interface EditableBookingRule {
+  name: string;
+  priority: number;
+  isActive: boolean;
+  config: BookingRuleConfig;
+}
+
+const DEFAULT_WINDOW: BookingRuleWindow = {
+  days: [1, 2, 3, 4, 5],
+  start: "08:00",
+  end: "12:00",
+};
+
+function splitList(value: string): string[] | undefined {
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function getMatch(config: BookingRuleConfig): BookingRuleMatch {
+  return config.type === "reserve_last_slots"
+    ? config.reservedFor
+    : config.match;
+}
+
+function toFormState(rule: EditableBookingRule | null): RuleFormState {
+  if (!rule) {
+    return {
+      name: "",
+      type: "block_window",
+      priority: 100,
+      isActive: true,
+      newClient: "any",
+      species: "",
+      reasonKeywords: "",
+      windows: [DEFAULT_WINDOW],
+      maxPerHour: 2,
+      count: 1,
+      providerName: "",
+    };
+  }
+
+  const { config } = rule;
+  const match = getMatch(config);
+  const windows =
+    config.type === "block_window"
+      ? [config.window]
+      : config.type === "allowed_windows" || config.type === "provider_only"
+        ? config.windows
+        : [];
+
+  return {
+    name: rule.name,
+    type: config.type,
+    priority: rule.priority,
+    isActive: rule.isActive,
+    newClient:
+      match.newClient === undefined
+        ? "any"
+        : match.newClient
+          ? "new"
+          : "existing",
+    species: match.species?.join(", ") ?? "",
+    reasonKeywords: match.reasonKeywords?.join(", ") ?? "",
+    windows: windows.length > 0 ? windows : [DEFAULT_WINDOW],
+    maxPerHour: config.type === "hourly_limit" ? config.maxPerHour : 2,
+    count: config.type === "reserve_last_slots" ? config.count : 1,
+    providerName: config.type === "provider_only" ? config.providerName : "",
+  };
+}
+
+function toRuleInput(state: RuleFormState): BookingRuleInput {
+  const match: BookingRuleMatch = {
+    newClient:
+      state.newClient === "any" ? undefined : state.newClient === "new",
+    species: splitList(state.species),
+    reasonKeywords: splitList(state.reasonKeywords),
+  };
+
+  const config = (() => {
+    switch (state.type) {
+      case "block_window":
+        return {
+          type: state.type,
+          match,
+          window: state.windows[0] ?? DEFAULT_WINDOW,
+        };
+      case "allowed_windows":
+        return { type: state.type, match, windows: state.windows };
+      case "hourly_limit":
+        return { type: state.type, match, maxPerHour: state.maxPerHour };
+      case "reserve_last_slots":
+        return { type: state.type, reservedFor: match, count: state.count };
+      case "provider_only":
+        return {
+          type: state.type,
+          match,
+          providerName: state.providerName,
+          windows: state.windows,
+        };
+    }
+  })();
+
+  return {
+    name: state.name,
+    priority: state.priority,
+    isActive: state.isActive,
+    config,
+  };
+}
+
+function formatWindow(window: BookingRuleWindow): string {
+  const days = window.days
+    .slice()
+    .sort()
+    .map((day) => DAYS_OF_WEEK[day])
+    .join(", ");
+  return `${days} ${window.start}-${window.end}`;
+}
+
+function formatMatch(match: BookingRuleMatch): string {
+  const parts: string[] = [];
+  if (match.newClient !== undefined) {
+    parts.push(match.newClient ? "new clients" : "existing clients");
+  }
+  if (match.species?.length) parts.push(match.species.join("/"));
+  if (match.reasonKeywords?.length) {
+    parts.push(`"${match.reasonKeywords.join('", "')}" visits`);
+  }
+  return parts.length > 0 ? parts.join(", ") : "all bookings";
+}
+
+/**
+ * One-line summary of a rule for the rules list
+ */
+export function describeBookingRule(config: BookingRuleConfig): string {
+  switch (config.type) {
+    case "block_window":
+      return `Blocks ${formatMatch(config.match)} ${formatWindow(config.window)}`;
+    case "allowed_windows":
+      return `${formatMatch(config.match)} only ${config.windows.map(formatWindow).join("; ")}`;
+    case "hourly_limit":
+      return `At most ${config.maxPerHour} ${formatMatch(config.match)} per hour`;
+    case "reserve_last_slots":
+      return `Last ${config.count} open slot${config.count === 1 ? "" : "s"} held for ${formatMatch(config.reservedFor)}`;
+    case "provider_only":
+      return `${formatMatch(config.match)} only with ${config.providerName}${
+        config.windows.length > 0
+          ? ` (${config.windows.map(formatWindow).join("; ")})`
+          : ""
+      }`;
+  }
+}
+
+interface BookingRuleFormProps {
+  rule: EditableBookingRule | null;
+  isSaving: boolean;
+  onSubmit: (rule: BookingRuleInput) => void;
+  onCancel: () => void;
+}
+
+export function BookingRuleForm({
+  rule,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: BookingRuleFormProps) {
+  const [state, setState] = useState<RuleFormState>(() => toFormState(rule));
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<RuleFormState>) =>
+    setState((current) => ({ ...current, ...changes }));
+
+  const updateWindow = (index: number, changes: Partial<BookingRuleWindow>) =>
+    update({
+      windows: state.windows.map((window, i) =>
+        i === index ? { ...window, ...changes } : window,
+      ),
+    });
+
+  const toggleDay = (index: number, day: number) => {
+    const days = state.windows[index]?.days ?? [];
+    updateWindow(index, {
+      days: days.includes(day)
+        ? days.filter((d) => d !== day)
+        : [...days, day].sort(),
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = bookingRuleSchema.safeParse(toRuleInput(state));
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Check the rule settings");
+      return;
+    }
+    setError(null);
+    onSubmit(parsed.data);
+  };
+
+  const usesWindows =
+    state.type === "block_window" ||
+    state.type === "allowed_windows" ||
+    state.type === "provider_only";
+  const multipleWindows = state.type !== "block_window";
+  const matchLabel =
+    state.type === "reserve_last_slots"
+      ? "Held for"
+      : "Applies to bookings that match";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="rule-name">Name</Label>
+          <Input
+            id="rule-name"
+            value={state.name}
+            placeholder="e.g., No new clients before 9am"
+            onChange={(e) => update({ name: e.target.value })}
+            className="bg-white"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Rule type</Label>
+          <Select
+            value={state.type}
+            onValueChange={(value) =>
+              update({ type: value as BookingRuleType })
+            }
+          >
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-500">
+            {RULE_TYPE_OPTIONS.find((o) => o.value === state.type)?.hint}
+          </p>
+        </div>
+      </div>
+
+      {/* Conditions */}
+      <div className="space-y-3 rounded-lg border border-slate-200/60 bg-white p-4">
+        <Label className="text-sm font-medium text-slate-700">
+          {matchLabel}
+        </Label>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-500">Client</Label>
+            <Select
+              value={state.newClient}
+              onValueChange={(value) =>
+                update({ newClient: value as NewClientChoice })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any client</SelectItem>
+                <SelectItem value="new">New clients</SelectItem>
+                <SelectItem value="existing">Existing clients</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-500">Species</Label>
+            <Input
+              value={state.species}
+              placeholder="Any (or rabbit, bird)"
+              onChange={(e) => update({ species: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-500">Reason contains</Label>
+            <Input
+              value={state.reasonKeywords}
+              placeholder="Any (or surgery, spay)"
+              onChange={(e) => update({ reasonKeywords: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Type-specific settings */}
+      {state.type === "hourly_limit" && (
+        <div className="space-y-1.5">
+          <Label htmlFor="rule-max-per-hour">Max bookings per hour</Label>
+          <Input
+            id="rule-max-per-hour"
+            type="number"
+            min={1}
+            value={state.maxPerHour}
+            onChange={(e) => update({ maxPerHour: Number(e.target.value) })}
+            className="w-32 bg-white"
+          />
+        </div>
+      )}
+
+      {state.type === "reserve_last_slots" && (
+        <div className="space-y-1.5">
+          <Label htmlFor="rule-count">
+            Slots to hold at the end of the day
+          </Label>
+          <Input
+            id="rule-count"
+            type="number"
+            min={1}
+            value={state.count}
+            onChange={(e) => update({ count: Number(e.target.value) })}
+            className="w-32 bg-white"
+          />
+        </div>
+      )}
+
+      {state.type === "provider_only" && (
+        <div className="space-y-1.5">
+          <Label htmlFor="rule-provider">Provider</Label>
+          <Input
+            id="rule-provider"
+            value={state.providerName}
+            placeholder="Name as it appears in the PIMS, e.g. Dr. Lee"
+            onChange={(e) => update({ providerName: e.target.value })}
+            className="bg-white"
+          />
+        </div>
+      )}
+
+      {usesWindows && (
+        <div className="space-y-3">
+          <Label className="text-sm font-medium text-slate-700">
+            {state.type === "block_window"
+              ? "Blocked window"
+              : state.type === "provider_only"
+                ? "Provider's windows (optional)"
+                : "Allowed windows"}
+          </Label>
+          {state.windows.map((window, index) => (
+            <div
+              key={index}
+              className="space-y-3 rounded-lg border border-slate-200/60 bg-white p-3"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                {DAYS_OF_WEEK.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleDay(index, day)}
+                    className={`rounded-md border px-3 py-1.5 text-sm font-medium transition-colors ${
+                      window.days.includes(day)
+                        ? "border-teal-500 bg-teal-50 text-teal-700"
+                        : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:bg-slate-50"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {multipleWindows && state.windows.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-8 w-8 p-0"
+                    onClick={() =>
+                      update({
+                        windows: state.windows.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) =>
+                    updateWindow(index, { start: e.target.value })
+                  }
+                  className="flex-1"
+                />
+                <span className="text-sm text-slate-400">to</span>
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  className="flex-1"
+                />
+              </div>
+            </div>
+          ))}
+          {multipleWindows && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                update({ windows: [...state.windows, DEFAULT_WINDOW] })
+              }
+            >
+              <Plus className="mr-1.5 h-4 w-4" />
+              Add window
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-6 rounded-lg border border-slate-200/60 bg-white p-3">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="rule-priority" className="text-sm text-slate-700">
+            Priority
+          </Label>
+          <Input
+            id="rule-priority"
+            type="number"
+            min={0}
+            value={state.priority}
+            onChange={(e) => update({ priority: Number(e.target.value) })}
+            className="w-24"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="rule-active" className="text-sm text-slate-700">
+            Active
+          </Label>
+          <Switch
+            id="rule-active"
+            checked={state.isActive}
+            onCheckedChange={(checked) => update({ isActive: checked })}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={isSaving}
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {isSaving && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+          {rule ? "Save Rule" : "Add Rule"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Edit,
+  FlaskConical,
+  ListChecks,
+  Loader2,
+  Plus,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { api } from "~/trpc/client";
+import { toast } from "sonner";
+import { Card } from "@odis-ai/shared/ui/card";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Input } from "@odis-ai/shared/ui/input";
+import { Label } from "@odis-ai/shared/ui/label";
+import { Switch } from "@odis-ai/shared/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@odis-ai/shared/ui/select";
+import type { BookingRuleInput } from "@odis-ai/shared/validators";
+import {
+  BookingRuleForm,
+  RULE_TYPE_OPTIONS,
+  describeBookingRule,
+  type EditableBookingRule,
+} from "./booking-rule-form";
+
+interface BookingRulesCardProps {
+  clinicId: string;
+  clinicSlug: string;
+}
+
+/** The rule form that's open, if any */
+type EditingState = { kind: "new" } | { kind: "edit"; id: string } | null;
+
+export function BookingRulesCard({
+  clinicId,
+  clinicSlug,
+}: BookingRulesCardProps) {
+  const utils = api.useUtils();
+  const [editing, setEditing] = useState<EditingState>(null);
+
+  const { data: rules = [], isLoading } =
+    api.settings.bookingRules.getBookingRules.useQuery({
+      clinicId,
+      clinicSlug,
+    });
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setEditing(null);
+    void utils.settings.bookingRules.getBookingRules.invalidate();
+  };
+
+  const createMutation =
+    api.settings.bookingRules.createBookingRule.useMutation({
+      onSuccess: () => onSaved("Booking rule added"),
+      onError: (error) => {
+        toast.error(`Failed to add booking rule: ${error.message}`);
+      },
+    });
+
+  const updateMutation =
+    api.settings.bookingRules.updateBookingRule.useMutation({
+      onSuccess: () => onSaved("Booking rule saved"),
+      onError: (error) => {
+        toast.error(`Failed to save booking rule: ${error.message}`);
+      },
+    });
+
+  const deleteMutation =
+    api.settings.bookingRules.deleteBookingRule.useMutation({
+      onSuccess: () => onSaved("Booking rule deleted"),
+      onError: (error) => {
+        toast.error(`Failed to delete booking rule: ${error.message}`);
+      },
+    });
+
+  const handleSubmit = (rule: BookingRuleInput) => {
+    if (editing?.kind === "new") {
+      createMutation.mutate({ clinicId, clinicSlug, rule });
+    } else if (editing?.kind === "edit") {
+      updateMutation.mutate({ clinicId, clinicSlug, id: editing.id, rule });
+    }
+  };
+
+  const toggleActive = (rule: EditableBookingRule & { id: string }) => {
+    updateMutation.mutate({
+      clinicId,
+      clinicSlug,
+      id: rule.id,
+      rule: { ...rule, isActive: !rule.isActive },
+    });
+  };
+
+  const editingRule =
+    editing?.kind === "edit"
+      ? rules.find((rule) => rule.id === editing.id)
+      : null;
+
+  return (
+    <Card className="border-slate-200 bg-white p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-indigo-100/80 text-indigo-600">
+            <ListChecks className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">
+              Booking Rules
+            </h3>
+            <p className="text-sm text-slate-500">
+              Which times the phone assistant offers and books for each kind of
+              visit
+            </p>
+          </div>
+        </div>
+        {!editing && (
+          <Button
+            onClick={() => setEditing({ kind: "new" })}
+            size="sm"
+            className="bg-teal-600 hover:bg-teal-700"
+          >
+            <Plus className="mr-1.5 h-4 w-4" />
+            Add Rule
+          </Button>
+        )}
+      </div>
+
+      {editing?.kind === "new" && (
+        <div className="mb-6 rounded-lg border border-teal-200 bg-teal-50/30 p-4">
+          <BookingRuleForm
+            rule={null}
+            isSaving={createMutation.isPending}
+            onSubmit={handleSubmit}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-teal-600" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-slate-200 bg-slate-50/50 px-6 py-8 text-center">
+          <ListChecks className="mx-auto mb-3 h-8 w-8 text-slate-400" />
+          <p className="text-sm font-medium text-slate-600">No booking rules</p>
+          <p className="text-xs text-slate-500">
+            Every open slot can be booked for any visit
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) =>
+            editing?.kind === "edit" &&
+            editing.id === rule.id &&
+            editingRule?.config ? (
+              <div
+                key={rule.id}
+                className="rounded-lg border border-teal-200 bg-teal-50/30 p-4"
+              >
+                <BookingRuleForm
+                  rule={{ ...editingRule, config: editingRule.config }}
+                  isSaving={updateMutation.isPending}
+                  onSubmit={handleSubmit}
+                  onCancel={() => setEditing(null)}
+                />
+              </div>
+            ) : (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-slate-200/60 bg-slate-50/30 px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-slate-900">
+                      {rule.name}
+                    </span>
+                    <span className="text-xs text-slate-400">
+                      {rule.config
+                        ? RULE_TYPE_OPTIONS.find(
+                            (o) => o.value === rule.config?.type,
+                          )?.label
+                        : null}
+                    </span>
+                  </div>
+                  {rule.config ? (
+                    <p className="truncate text-xs text-slate-500">
+                      {describeBookingRule(rule.config)}
+                    </p>
+                  ) : (
+                    <p className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3 w-3" />
+                      Invalid settings; this rule is skipped. Delete and re-add
+                      it.
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {rule.config && (
+                    <Switch
+                      checked={rule.isActive}
+                      disabled={updateMutation.isPending}
+                      onCheckedChange={() =>
+                        rule.config &&
+                        toggleActive({ ...rule, config: rule.config })
+                      }
+                    />
+                  )}
+                  {rule.config && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => setEditing({ kind: "edit", id: rule.id })}
+                      disabled={!!editing}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-red-600 hover:bg-red-50 hover:text-red-700"
+                    onClick={() =>
+                      deleteMutation.mutate({
+                        clinicId,
+                        clinicSlug,
+                        id: rule.id,
+                      })
+                    }
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ),
+          )}
+        </div>
+      )}
+
+      {rules.length > 0 && (
+        <BookingRulesTester clinicId={clinicId} clinicSlug={clinicSlug} />
+      )}
+    </Card>
+  );
+}
+
+type NewClientChoice = "unknown" | "new" | "existing";
+
+function BookingRulesTester({ clinicId, clinicSlug }: BookingRulesCardProps) {
+  const [date, setDate] = useState(
+    () => new Date().toISOString().split("T")[0]!,
+  );
+  const [time, setTime] = useState("09:00");
+  const [newClient, setNewClient] = useState<NewClientChoice>("unknown");
+  const [species, setSpecies] = useState("");
+  const [reason, setReason] = useState("");
+
+  const testMutation = api.settings.bookingRules.testBookingRules.useMutation({
+    onError: (error) => {
+      toast.error(`Failed to test rules: ${error.message}`);
+    },
+  });
+
+  const runTest = () => {
+    testMutation.mutate({
+      clinicId,
+      clinicSlug,
+      date,
+      time,
+      subject: {
+        isNewClient: newClient === "unknown" ? undefined : newClient === "new",
+        species: species.trim() || undefined,
+        reason: reason.trim() || undefined,
+      },
+    });
+  };
+
+  const result = testMutation.data;
+
+  return (
+    <div className="mt-6 space-y-4 rounded-lg border border-slate-200/60 bg-slate-50/30 p-4">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="h-4 w-4 text-slate-500" />
+        <h4 className="text-sm font-medium text-slate-700">Test a booking</h4>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Date</Label>
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Time</Label>
+          <Input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Client</Label>
+          <Select
+            value={newClient}
+            onValueChange={(value) => setNewClient(value as NewClientChoice)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unknown">Not given</SelectItem>
+              <SelectItem value="new">New client</SelectItem>
+              <SelectItem value="existing">Existing client</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Species</Label>
+          <Input
+            value={species}
+            placeholder="e.g., dog"
+            onChange={(e) => setSpecies(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label className="text-xs text-slate-500">Visit reason</Label>
+          <Input
+            value={reason}
+            placeholder="e.g., vomiting since last night"
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={runTest}
+          disabled={testMutation.isPending || !date || !time}
+        >
+          {testMutation.isPending ? (
+            <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+          ) : (
+            <FlaskConical className="mr-1.5 h-4 w-4" />
+          )}
+          Run Test
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          <div
+            className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium ${
+              result.allowed
+                ? "bg-emerald-50 text-emerald-700"
+                : "bg-red-50 text-red-700"
+            }`}
+          >
+            {result.allowed ? (
+              <CheckCircle2 className="h-4 w-4" />
+            ) : (
+              <XCircle className="h-4 w-4" />
+            )}
+            {result.allowed
+              ? `Bookable${result.providerName ? ` with ${result.providerName}` : ""}`
+              : "Not bookable"}
+          </div>
+          <ul className="space-y-1">
+            {result.results.map((ruleResult) => (
+              <li
+                key={ruleResult.ruleId}
+                className="flex items-start justify-between gap-4 text-xs"
+              >
+                <span className="font-medium text-slate-700">
+                  {ruleResult.ruleName}
+                </span>
+                <span
+                  className={
+                    !ruleResult.applies
+                      ? "text-slate-400"
+                      : ruleResult.passed
+                        ? "text-emerald-600"
+                        : "text-red-600"
+                  }
+                >
+                  {!ruleResult.applies
+                    ? "Doesn't apply"
+                    : (ruleResult.reason ?? "Passes")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import { api } from "~/trpc/client";
+import { toast } from "sonner";
+import { Card } from "@odis-ai/shared/ui/card";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Input } from "@odis-ai/shared/ui/input";
+import { Label } from "@odis-ai/shared/ui/label";
+import { Switch } from "@odis-ai/shared/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@odis-ai/shared/ui/select";
+import {
+  DEFAULT_CALL_RETRY_POLICY,
+  type CallRetryPolicy,
+} from "@odis-ai/shared/validators";
+import { TIME_OPTIONS } from "~/components/dashboard/settings/discharge-settings/constants";
+
+const ENDED_REASON_OPTIONS = [
+  { value: "dial-busy", label: "Line busy" },
+  { value: "dial-no-answer", label: "No answer" },
+  { value: "customer-did-not-answer", label: "Customer didn't answer" },
+  { value: "silence-timed-out", label: "Silence timeout" },
+  { value: "dial-failed", label: "Dial failed" },
+] as const;
+
+const NONE = "none";
+
+interface CallRetryPolicyCardProps {
+  clinicId: string;
+  clinicSlug: string;
+}
+
+export function CallRetryPolicyCard({
+  clinicId,
+  clinicSlug,
+}: CallRetryPolicyCardProps) {
+  const utils = api.useUtils();
+
+  const { data, isLoading } = api.settings.retryPolicy.getRetryPolicy.useQuery({
+    clinicId,
+    clinicSlug,
+  });
+
+  const updateMutation = api.settings.retryPolicy.updateRetryPolicy.useMutation(
+    {
+      onSuccess: () => {
+        toast.success("Retry policy saved");
+        void utils.settings.retryPolicy.getRetryPolicy.invalidate();
+      },
+      onError: (error) => {
+        toast.error(`Failed to save retry policy: ${error.message}`);
+      },
+    },
+  );
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { isDirty },
+  } = useForm<CallRetryPolicy>({
+    defaultValues: data?.policy ?? DEFAULT_CALL_RETRY_POLICY,
+  });
+
+  useEffect(() => {
+    if (data) {
+      reset(data.policy);
+    }
+  }, [data, reset]);
+
+  const onSubmit = (policy: CallRetryPolicy) => {
+    updateMutation.mutate({ clinicId, clinicSlug, policy });
+  };
+
+  const handleResetToDefaults = () => {
+    updateMutation.mutate({ clinicId, clinicSlug, policy: null });
+  };
+
+  const retryOnEndedReasons = watch("retryOnEndedReasons");
+  const quietHours = watch("quietHours");
+  const retryAtTime = watch("retryAtTime");
+
+  const toggleEndedReason = (reason: string, checked: boolean) => {
+    const next = checked
+      ? [...retryOnEndedReasons, reason]
+      : retryOnEndedReasons.filter((value) => value !== reason);
+    setValue("retryOnEndedReasons", next, { shouldDirty: true });
+  };
+
+  return (
+    <Card className="border-slate-200 bg-white p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-purple-100/80 text-purple-600">
+            <RotateCcw className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">
+              Call Retry Policy
+            </h3>
+            <p className="text-sm text-slate-500">
+              How failed outbound calls are retried
+            </p>
+          </div>
+        </div>
+        {data?.isCustom && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleResetToDefaults}
+            disabled={updateMutation.isPending}
+          >
+            Reset to defaults
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-teal-600" />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {/* Attempts and backoff */}
+          <div className="grid gap-4 rounded-lg border border-slate-200/60 bg-slate-50/30 p-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="maxRetries" className="text-xs text-slate-500">
+                Max retries
+              </Label>
+              <Input
+                id="maxRetries"
+                type="number"
+                min={0}
+                max={10}
+                {...register("maxRetries", { valueAsNumber: true })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-500">Backoff</Label>
+              <Select
+                value={watch("backoff")}
+                onValueChange={(value) =>
+                  setValue("backoff", value as CallRetryPolicy["backoff"], {
+                    shouldDirty: true,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed">Fixed delay</SelectItem>
+                  <SelectItem value="linear">Linear (1x, 2x, 3x)</SelectItem>
+                  <SelectItem value="exponential">
+                    Exponential (1x, 2x, 4x)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label
+                htmlFor="initialDelayMinutes"
+                className="text-xs text-slate-500"
+              >
+                First retry after (minutes)
+              </Label>
+              <Input
+                id="initialDelayMinutes"
+                type="number"
+                min={1}
+                {...register("initialDelayMinutes", { valueAsNumber: true })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label
+                htmlFor="maxDelayMinutes"
+                className="text-xs text-slate-500"
+              >
+                Longest delay (minutes)
+              </Label>
+              <Input
+                id="maxDelayMinutes"
+                type="number"
+                min={1}
+                {...register("maxDelayMinutes", { valueAsNumber: true })}
+              />
+            </div>
+          </div>
+
+          {/* Timing */}
+          <div className="space-y-4 rounded-lg border border-slate-200/60 bg-slate-50/30 p-4">
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-500">
+                Retry at time of day
+              </Label>
+              <Select
+                value={retryAtTime ?? NONE}
+                onValueChange={(value) =>
+                  setValue("retryAtTime", value === NONE ? null : value, {
+                    shouldDirty: true,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    As soon as the delay ends
+                  </SelectItem>
+                  {TIME_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-slate-700">
+                Only retry during business hours
+              </Label>
+              <Switch
+                checked={watch("respectBusinessHours")}
+                onCheckedChange={(checked) =>
+                  setValue("respectBusinessHours", checked, {
+                    shouldDirty: true,
+                  })
+                }
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-slate-700">Quiet hours</Label>
+                <Switch
+                  checked={quietHours !== null}
+                  onCheckedChange={(checked) =>
+                    setValue(
+                      "quietHours",
+                      checked ? { start: "20:00", end: "09:00" } : null,
+                      { shouldDirty: true },
+                    )
+                  }
+                />
+              </div>
+              {quietHours && (
+                <div className="flex items-center gap-3">
+                  <Input
+                    type="time"
+                    {...register("quietHours.start")}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-slate-400">to</span>
+                  <Input
+                    type="time"
+                    {...register("quietHours.end")}
+                    className="flex-1"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Retry triggers */}
+          <div className="space-y-3 rounded-lg border border-slate-200/60 bg-slate-50/30 p-4">
+            <Label className="text-sm font-medium text-slate-700">
+              Retry when the call ends with
+            </Label>
+            {ENDED_REASON_OPTIONS.map((option) => (
+              <div
+                key={option.value}
+                className="flex items-center justify-between"
+              >
+                <span className="text-sm text-slate-600">{option.label}</span>
+                <Switch
+                  checked={retryOnEndedReasons.includes(option.value)}
+                  onCheckedChange={(checked) =>
+                    toggleEndedReason(option.value, checked)
+                  }
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between border-t border-slate-100 pt-3">
+              <span className="text-sm text-slate-600">
+                Voicemail (leave a message, then try again)
+              </span>
+              <Switch
+                checked={watch("retryAfterVoicemail")}
+                onCheckedChange={(checked) =>
+                  setValue("retryAfterVoicemail", checked, {
+                    shouldDirty: true,
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          {isDirty && (
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={updateMutation.isPending}
+                className="bg-teal-600 hover:bg-teal-700"
+              >
+                {updateMutation.isPending ? (
+                  <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-1.5 h-4 w-4" />
+                )}
+                Save Retry Policy
+              </Button>
+            </div>
+          )}
+        </form>
+      )}
+    </Card>
+  );
+}
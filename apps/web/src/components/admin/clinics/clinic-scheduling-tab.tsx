@@ -15,6 +15,10 @@ import {
   EmailSchedulingSection,
   CallSchedulingSection,
 } from "~/components/dashboard/settings/discharge-settings/sections";
+import { CallRetryPolicyCard } from "./call-retry-policy-card";
+import { BookingRulesCard } from "./booking-rules-card";
+import { AppointmentTypesCard } from "./appointment-types-card";
+import { AvailabilityExplainCard } from "./availability-explain-card";
 
 interface ClinicSchedulingTabProps {
   clinicId: string;
@@ -196,6 +200,15 @@ export function ClinicSchedulingTab({
         <BlockedPeriodsList periods={blockedPeriods} clinicSlug={clinicSlug} />
       </Card>
 
+      {/* Appointment Types Section */}
+      <AppointmentTypesCard clinicId={clinicId} clinicSlug={clinicSlug} />
+
+      {/* Booking Rules Section */}
+      <BookingRulesCard clinicId={clinicId} clinicSlug={clinicSlug} />
+
+      {/* Availability Explainer Section */}
+      <AvailabilityExplainCard clinicId={clinicId} clinicSlug={clinicSlug} />
+
       {/* Discharge Timing Section */}
       <Card className="border-slate-200 bg-white p-6">
         <div className="mb-4 flex items-center gap-3">
@@ -244,6 +257,9 @@ export function ClinicSchedulingTab({
           </div>
         </form>
       </Card>
+
+      {/* Call Retry Policy Section */}
+      <CallRetryPolicyCard clinicId={clinicId} clinicSlug={clinicSlug} />
     </div>
   );
 }
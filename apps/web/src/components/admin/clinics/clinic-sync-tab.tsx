@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import type { Database } from "@odis-ai/shared/types";
 import { api } from "~/trpc/client";
 import { Card } from "@odis-ai/shared/ui/card";
@@ -24,6 +24,8 @@ import {
   XCircle,
 } from "lucide-react";
 import { toast } from "sonner";
+import { SyncJobProgress } from "~/components/admin/sync/sync-job-progress";
+import type { SyncJobStatus } from "~/server/api/routers/admin/sync/schemas";
 
 type Clinic = Database["public"]["Tables"]["clinics"]["Row"];
 
@@ -96,12 +98,55 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
+  // Queued sync jobs being followed (manual triggers, appointment sync)
+  const [syncJob, setSyncJob] = useState<{
+    id: string;
+    finished: boolean;
+  } | null>(null);
+  const [appointmentJob, setAppointmentJob] = useState<{
+    id: string;
+    finished: boolean;
+  } | null>(null);
+
+  const handleJobFinished = useCallback(
+    (job: SyncJobStatus) => {
+      if (job.status === "succeeded") {
+        toast.success("Sync completed");
+      } else {
+        toast.error(`Sync failed: ${job.lastError ?? "Unknown error"}`);
+      }
+      void utils.admin.sync.getActiveSyncs.invalidate();
+      void utils.admin.sync.getSyncHistory.invalidate();
+    },
+    [utils],
+  );
+
+  const handleSyncJobFinished = useCallback(
+    (job: SyncJobStatus) => {
+      setSyncJob((current) =>
+        current?.id === job.id ? { ...current, finished: true } : current,
+      );
+      handleJobFinished(job);
+    },
+    [handleJobFinished],
+  );
+
+  const handleAppointmentJobFinished = useCallback(
+    (job: SyncJobStatus) => {
+      setAppointmentJob((current) =>
+        current?.id === job.id ? { ...current, finished: true } : current,
+      );
+      handleJobFinished(job);
+    },
+    [handleJobFinished],
+  );
+
   // Mutations
   const triggerSyncMutation = api.admin.sync.triggerSync.useMutation({
     onSuccess: (data) => {
       toast.success(data.message);
+      setSyncJob({ id: data.jobId, finished: false });
       void utils.admin.sync.getActiveSyncs.invalidate();
-      void utils.admin.sync.getSyncHistory.invalidate();
     },
     onError: (error) => {
       toast.error(`Sync failed: ${error.message}`);
@@ -112,7 +157,7 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
     api.admin.sync.triggerAppointmentSync.useMutation({
       onSuccess: (data) => {
         toast.success(data.message);
-        void utils.admin.sync.getSyncHistory.invalidate();
+        setAppointmentJob({ id: data.jobId, finished: false });
       },
       onError: (error) => {
         toast.error(`Appointment sync failed: ${error.message}`);
@@ -186,6 +231,11 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
   };
 
   const isIdexxClinic = clinic.pims_type === "idexx_neo";
+  const isSyncRunning =
+    triggerSyncMutation.isPending || (!!syncJob && !syncJob.finished);
+  const isAppointmentSyncRunning =
+    triggerAppointmentSyncMutation.isPending ||
+    (!!appointmentJob && !appointmentJob.finished);
 
   return (
     <div className="space-y-6">
@@ -200,12 +250,6 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
               Manually trigger sync operations for this clinic
             </p>
           </div>
-          {triggerSyncMutation.isPending && (
-            <Badge variant="outline" className="gap-1">
-              <Loader2 className="h-3 w-3 animate-spin" />
-              Running...
-            </Badge>
-          )}
         </div>
 
         <div className="flex flex-wrap gap-3">
@@ -213,7 +257,7 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
             onClick={() => handleTriggerSync("cases")}
             variant="outline"
             className="gap-2"
-            disabled={triggerSyncMutation.isPending || !isIdexxClinic}
+            disabled={isSyncRunning || !isIdexxClinic}
           >
             <Play className="h-4 w-4" />
             Cases Sync
@@ -223,7 +267,7 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
             onClick={() => handleTriggerSync("enrich")}
             variant="outline"
             className="gap-2"
-            disabled={triggerSyncMutation.isPending || !isIdexxClinic}
+            disabled={isSyncRunning || !isIdexxClinic}
           >
             <Play className="h-4 w-4" />
             Enrich Sync
@@ -233,13 +277,23 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
             onClick={() => handleTriggerSync("reconciliation")}
             variant="outline"
             className="gap-2"
-            disabled={triggerSyncMutation.isPending || !isIdexxClinic}
+            disabled={isSyncRunning || !isIdexxClinic}
           >
             <Play className="h-4 w-4" />
             Reconciliation
           </Button>
         </div>
 
+        {syncJob && (
+          <div className="mt-4">
+            <SyncJobProgress
+              key={syncJob.id}
+              jobId={syncJob.id}
+              onFinished={handleSyncJobFinished}
+            />
+          </div>
+        )}
+
         {!isIdexxClinic && (
           <p className="mt-3 text-sm text-amber-600">
             Manual sync is only available for IDEXX clinics.
@@ -258,12 +312,6 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
               Sync appointments from IDEXX to update VAPI availability slots
             </p>
           </div>
-          {triggerAppointmentSyncMutation.isPending && (
-            <Badge variant="outline" className="gap-1">
-              <Loader2 className="h-3 w-3 animate-spin" />
-              Syncing...
-            </Badge>
-          )}
         </div>
 
         <div className="mb-4 rounded-lg bg-slate-50 p-4">
@@ -283,11 +331,9 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
             onClick={handleTriggerAppointmentSync}
             variant="outline"
             className="gap-2"
-            disabled={
-              triggerAppointmentSyncMutation.isPending || !isIdexxClinic
-            }
+            disabled={isAppointmentSyncRunning || !isIdexxClinic}
           >
-            {triggerAppointmentSyncMutation.isPending ? (
+            {isAppointmentSyncRunning ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <CalendarClock className="h-4 w-4" />
@@ -296,6 +342,16 @@ export function ClinicSyncTab({ clinic, clinicId }: ClinicSyncTabProps) {
           </Button>
         </div>
 
+        {appointmentJob && (
+          <div className="mt-4">
+            <SyncJobProgress
+              key={appointmentJob.id}
+              jobId={appointmentJob.id}
+              onFinished={handleAppointmentJobFinished}
+            />
+          </div>
+        )}
+
         {!isIdexxClinic && (
           <p className="mt-3 text-sm text-amber-600">
             Appointment sync is only available for IDEXX clinics.
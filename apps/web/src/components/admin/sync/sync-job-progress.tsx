@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+import { Progress } from "@odis-ai/shared/ui/progress";
+import { api } from "~/trpc/client";
+import type {
+  SyncJobPhase,
+  SyncJobStatus,
+} from "~/server/api/routers/admin/sync/schemas";
+
+interface SyncJobProgressProps {
+  jobId: string;
+  /** Called once when the job reaches a final status */
+  onFinished?: (job: SyncJobStatus) => void;
+}
+
+const FINISHED_STATUSES = new Set<SyncJobStatus["status"]>([
+  "succeeded",
+  "failed",
+  "dead_letter",
+]);
+
+const PHASE_LABELS: Record<SyncJobPhase, string> = {
+  inbound: "Appointments",
+  enrichment: "Enrichment",
+  reconciliation: "Reconciliation",
+};
+
+function formatEta(seconds: number | null): string | null {
+  if (seconds === null || seconds <= 0) return null;
+  if (seconds < 60) return `~${seconds}s left`;
+  return `~${Math.ceil(seconds / 60)}m left`;
+}
+
+/**
+ * Live progress for a queued pims-sync job
+ * Polls the job until it finishes, showing overall and per-phase progress.
+ */
+export function SyncJobProgress({ jobId, onFinished }: SyncJobProgressProps) {
+  const { data: job } = api.admin.sync.getSyncJob.useQuery(
+    { jobId },
+    {
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        return status && FINISHED_STATUSES.has(status) ? false : 2000;
+      },
+      refetchIntervalInBackground: false,
+    },
+  );
+
+  const notifiedRef = useRef(false);
+  useEffect(() => {
+    if (job && FINISHED_STATUSES.has(job.status) && !notifiedRef.current) {
+      notifiedRef.current = true;
+      onFinished?.(job);
+    }
+  }, [job, onFinished]);
+
+  if (!job) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading job status...
+      </div>
+    );
+  }
+
+  const progress = job.progress;
+  const isFinished = FINISHED_STATUSES.has(job.status);
+  const percentage =
+    job.status === "succeeded" ? 100 : (progress?.percentage ?? 0);
+  const eta = isFinished ? null : formatEta(progress?.etaSeconds ?? null);
+  const isRetrying = job.status === "queued" && job.attempts > 0;
+  const singlePhase =
+    progress?.phases.length === 1 ? progress.phases[0] : undefined;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <div className="flex items-center justify-between text-xs">
+        <div className="flex items-center gap-2">
+          {job.status === "succeeded" ? (
+            <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+          ) : job.status === "failed" || job.status === "dead_letter" ? (
+            <XCircle className="h-4 w-4 text-red-500" />
+          ) : job.status === "queued" ? (
+            <Clock className="h-4 w-4 text-slate-400" />
+          ) : (
+            <Loader2 className="h-4 w-4 animate-spin text-teal-600" />
+          )}
+          <span className="font-medium text-slate-700 capitalize">
+            {job.status === "dead_letter"
+              ? "Failed"
+              : isRetrying
+                ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`
+                : job.status}
+          </span>
+          {progress?.currentPhase && !isFinished && (
+            <span className="text-slate-500">
+              · {PHASE_LABELS[progress.currentPhase]}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-slate-500">
+          {eta && <span>{eta}</span>}
+          <span className="font-medium text-slate-700">{percentage}%</span>
+        </div>
+      </div>
+
+      <Progress value={percentage} className="h-1.5" />
+
+      {progress && progress.phases.length > 1 && (
+        <div className="grid grid-cols-3 gap-2 text-xs text-slate-500">
+          {progress.phases.map((phase) => (
+            <div key={phase.phase} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span
+                  className={
+                    phase.status === "running"
+                      ? "font-medium text-slate-700"
+                      : undefined
+                  }
+                >
+                  {PHASE_LABELS[phase.phase]}
+                </span>
+                {phase.total > 0 && (
+                  <span>
+                    {phase.processed}/{phase.total}
+                  </span>
+                )}
+              </div>
+              <Progress value={phase.percentage} className="h-1" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {singlePhase && singlePhase.total > 0 && (
+        <p className="text-xs text-slate-500">
+          {singlePhase.processed} / {singlePhase.total} items
+        </p>
+      )}
+
+      {job.lastError && job.status !== "succeeded" && (
+        <p className="text-xs text-red-600">
+          {isRetrying ? `Last attempt failed: ${job.lastError}` : job.lastError}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * Centralized Status Display Utility
  *
- * Single source of truth for deriving and displaying channel (phone/email) delivery states.
+ * Single source of truth for deriving and displaying channel (phone/email/SMS) delivery states.
  * Used by both the table and sidebar components for consistent status representation.
  */
 
@@ -13,9 +13,21 @@ import {
   MinusCircle,
   Phone,
   Mail,
+  MessageSquare,
   Loader2,
 } from "lucide-react";
 
+/**
+ * Outbound delivery channels shown in the table and sidebar
+ */
+export type DeliveryChannel = "phone" | "email" | "sms";
+
+const CHANNEL_ICONS: Record<DeliveryChannel, LucideIcon> = {
+  phone: Phone,
+  email: Mail,
+  sms: MessageSquare,
+};
+
 /**
  * Delivery status from the backend (matches types.ts DeliveryStatus)
  */
@@ -105,14 +117,14 @@ export function deriveChannelState(
  * Get display configuration for a channel state
  *
  * @param state - The channel state to get display config for
- * @param type - Whether this is for phone or email (affects default icon)
+ * @param type - Delivery channel (affects default icon)
  * @returns Display configuration including icon, colors, and label
  */
 export function getStatusDisplay(
   state: ChannelState,
-  type: "phone" | "email" = "phone",
+  type: DeliveryChannel = "phone",
 ): StatusDisplayConfig {
-  const defaultIcon = type === "phone" ? Phone : Mail;
+  const defaultIcon = CHANNEL_ICONS[type];
 
   const configs: Record<ChannelState, StatusDisplayConfig> = {
     not_applicable: {
@@ -223,12 +235,12 @@ export function getStatusCardColors(state: ChannelState): {
  * Simplified helper for table components that don't need scheduled/pending distinction
  *
  * @param status - The delivery status from the backend
- * @param type - Whether this is for phone or email
+ * @param type - Delivery channel
  * @returns Display configuration including icon, colors, and label
  */
 export function getDeliveryStatusDisplay(
   status: DeliveryStatus,
-  type: "phone" | "email" = "phone",
+  type: DeliveryChannel = "phone",
 ): StatusDisplayConfig {
   // Map DeliveryStatus to ChannelState for display
   let channelState: ChannelState;
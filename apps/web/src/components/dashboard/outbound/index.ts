@@ -72,6 +72,7 @@ export type {
   // Status types
   CallStatus,
   EmailStatus,
+  SmsStatus,
   ReviewCategory,
   CaseStatus,
   CaseType,
@@ -90,6 +91,7 @@ export type {
   DischargeSummary,
   ScheduledCall,
   ScheduledEmail,
+  ScheduledSms,
   DischargeCase,
   DischargeBatch,
   SoapNote,
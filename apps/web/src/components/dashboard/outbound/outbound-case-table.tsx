@@ -13,6 +13,7 @@ import {
 } from "~/components/dashboard/shared";
 import {
   getDeliveryStatusDisplay,
+  type DeliveryChannel,
   type DeliveryStatus,
 } from "./detail/utils/status-display";
 import { DataTableEmptyState } from "~/components/dashboard/shared/data-table";
@@ -33,6 +34,7 @@ interface TableCaseBase {
   status: DischargeCaseStatus;
   phoneSent: "sent" | "pending" | "failed" | "not_applicable" | null;
   emailSent: "sent" | "pending" | "failed" | "not_applicable" | null;
+  smsSent?: "sent" | "pending" | "failed" | "not_applicable" | null;
   timestamp: string;
   scheduledEmailFor: string | null;
   scheduledCallFor: string | null;
@@ -311,10 +313,10 @@ export function OutboundCaseTable<T extends TableCaseBase>({
               className={cn(
                 "h-10 text-left font-medium",
                 isCompact
-                  ? "w-[66%] pl-6"
+                  ? "w-[54%] pl-6"
                   : onToggleBulkSelect
-                    ? "w-[32%]"
-                    : "w-[36%] pl-6",
+                    ? "w-[28%]"
+                    : "w-[32%] pl-6",
               )}
             >
               Patient
@@ -322,7 +324,7 @@ export function OutboundCaseTable<T extends TableCaseBase>({
             <th
               className={cn(
                 "h-10 text-center font-medium",
-                isCompact ? "w-[17%]" : "w-[10%]",
+                isCompact ? "w-[12%]" : "w-[8%]",
               )}
             >
               Phone
@@ -330,11 +332,19 @@ export function OutboundCaseTable<T extends TableCaseBase>({
             <th
               className={cn(
                 "h-10 text-center font-medium",
-                isCompact ? "w-[17%]" : "w-[10%]",
+                isCompact ? "w-[12%]" : "w-[8%]",
               )}
             >
               Email
             </th>
+            <th
+              className={cn(
+                "h-10 text-center font-medium",
+                isCompact ? "w-[12%]" : "w-[8%]",
+              )}
+            >
+              SMS
+            </th>
             {!isCompact && (
               <th className="h-10 w-[18%] text-center font-medium">Status</th>
             )}
@@ -473,6 +483,11 @@ export function OutboundCaseTable<T extends TableCaseBase>({
                   <DeliveryIcon status={caseItem.emailSent} type="email" />
                 </td>
 
+                {/* SMS Status */}
+                <td className="py-3 text-center">
+                  <DeliveryIcon status={caseItem.smsSent ?? null} type="sms" />
+                </td>
+
                 {/* Status */}
                 {!isCompact && (
                   <td className="py-3 text-center">
@@ -700,7 +715,7 @@ function formatTime(timestamp: string): string {
 }
 
 /**
- * Delivery status icon for phone/email columns
+ * Delivery status icon for phone/email/SMS columns
  * Uses shared status-display utility for consistent styling
  */
 function DeliveryIcon({
@@ -708,7 +723,7 @@ function DeliveryIcon({
   type,
 }: {
   status: DeliveryStatus;
-  type: "phone" | "email";
+  type: DeliveryChannel;
 }) {
   const displayConfig = getDeliveryStatusDisplay(status, type);
   const Icon = displayConfig.icon;
@@ -738,9 +753,10 @@ function CaseTableSkeleton() {
       <div className="mb-0 flex gap-2 border-b border-cyan-100/30 px-6 py-3">
         <div className="h-3 w-[5%] animate-pulse rounded bg-cyan-50/40" />
         <div className="h-3 w-[5%] animate-pulse rounded bg-cyan-50/40" />
-        <div className="h-3 w-[32%] animate-pulse rounded bg-cyan-50/40" />
-        <div className="h-3 w-[10%] animate-pulse rounded bg-cyan-50/40" />
-        <div className="h-3 w-[10%] animate-pulse rounded bg-cyan-50/40" />
+        <div className="h-3 w-[28%] animate-pulse rounded bg-cyan-50/40" />
+        <div className="h-3 w-[8%] animate-pulse rounded bg-cyan-50/40" />
+        <div className="h-3 w-[8%] animate-pulse rounded bg-cyan-50/40" />
+        <div className="h-3 w-[8%] animate-pulse rounded bg-cyan-50/40" />
         <div className="h-3 w-[18%] animate-pulse rounded bg-cyan-50/40" />
         <div className="h-3 w-[14%] animate-pulse rounded bg-cyan-50/40" />
         <div className="h-3 w-[8%] animate-pulse rounded bg-cyan-50/40" />
@@ -757,14 +773,17 @@ function CaseTableSkeleton() {
           <div className="flex w-[5%] justify-center">
             <div className="h-4 w-4 animate-pulse rounded bg-cyan-50/50" />
           </div>
-          <div className="w-[32%] space-y-1">
+          <div className="w-[28%] space-y-1">
             <div className="h-4 w-24 animate-pulse rounded bg-cyan-50/60" />
             <div className="h-3 w-32 animate-pulse rounded bg-cyan-50/50" />
           </div>
-          <div className="flex w-[10%] justify-center">
+          <div className="flex w-[8%] justify-center">
+            <div className="h-6 w-6 animate-pulse rounded-full bg-cyan-50/50" />
+          </div>
+          <div className="flex w-[8%] justify-center">
             <div className="h-6 w-6 animate-pulse rounded-full bg-cyan-50/50" />
           </div>
-          <div className="flex w-[10%] justify-center">
+          <div className="flex w-[8%] justify-center">
             <div className="h-6 w-6 animate-pulse rounded-full bg-cyan-50/50" />
           </div>
           <div className="flex w-[18%] justify-center">
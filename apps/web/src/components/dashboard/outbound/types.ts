@@ -7,6 +7,7 @@
  * - discharge_summaries (AI-generated content)
  * - scheduled_discharge_calls (outbound calls via VAPI)
  * - scheduled_discharge_emails (outbound emails via Resend)
+ * - scheduled_discharge_sms (outbound texts via the SMS provider)
  * - discharge_batches / discharge_batch_items (batch operations)
  */
 
@@ -32,6 +33,17 @@ export type CallStatus =
  */
 export type EmailStatus = "queued" | "sent" | "failed" | "cancelled";
 
+/**
+ * Status for scheduled discharge texts
+ * Maps to: scheduled_discharge_sms.status CHECK constraint
+ */
+export type SmsStatus =
+  | "queued"
+  | "sent"
+  | "delivered"
+  | "failed"
+  | "cancelled";
+
 /**
  * Review category for admin triage
  * Maps to: scheduled_discharge_calls.review_category CHECK constraint
@@ -74,7 +86,7 @@ export type DischargeCaseStatus =
   | "failed"; // Call or email failed
 
 /**
- * Delivery status indicator for phone/email columns
+ * Delivery status indicator for phone/email/SMS columns
  */
 export type DeliveryStatus =
   | "sent" // Successfully delivered
@@ -294,6 +306,20 @@ export interface ScheduledEmail {
   updatedAt: Date;
 }
 
+/**
+ * Scheduled discharge text record
+ * Maps to: scheduled_discharge_sms table
+ */
+export interface ScheduledSms {
+  id: string;
+  recipientPhone: string;
+  body: string;
+  scheduledFor: Date;
+  status: SmsStatus;
+  sentAt: Date | null;
+  deliveredAt: Date | null;
+}
+
 // =============================================================================
 // Main Discharge Case (Composite for UI)
 // =============================================================================
@@ -322,6 +348,7 @@ export interface DischargeCase {
   // Delivery status indicators
   phoneSent: DeliveryStatus;
   emailSent: DeliveryStatus;
+  smsSent?: DeliveryStatus;
 
   // Content
   dischargeSummary: string;
@@ -338,6 +365,7 @@ export interface DischargeCase {
   scheduledEmail: ScheduledEmail | null;
   scheduledEmailFor: Date | string | null; // Support string ISO
   scheduledCallFor: Date | string | null; // Support string ISO
+  scheduledSms?: ScheduledSms | null;
 
   // Timestamps
   timestamp: Date | string; // cases.created_at or cases.scheduled_at
@@ -402,6 +430,18 @@ export type TransformedScheduledEmail = Omit<
   updatedAt: string;
 };
 
+/**
+ * Transformed Scheduled SMS (with string dates for tRPC serialization)
+ */
+export type TransformedScheduledSms = Omit<
+  ScheduledSms,
+  "scheduledFor" | "sentAt" | "deliveredAt"
+> & {
+  scheduledFor: string;
+  sentAt: string | null;
+  deliveredAt: string | null;
+};
+
 /**
  * Interface for Transformed Case data from TRPC (with string dates)
  */
@@ -415,6 +455,7 @@ export interface TransformedCase extends Omit<
   | "patient"
   | "scheduledCall"
   | "scheduledEmail"
+  | "scheduledSms"
 > {
   timestamp: string;
   createdAt: string;
@@ -424,6 +465,7 @@ export interface TransformedCase extends Omit<
   patient: Omit<Patient, "dateOfBirth"> & { dateOfBirth: string | null };
   scheduledCall: TransformedScheduledCall | null;
   scheduledEmail: TransformedScheduledEmail | null;
+  scheduledSms?: TransformedScheduledSms | null;
 }
 
 // =============================================================================
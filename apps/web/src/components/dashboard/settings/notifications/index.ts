@@ -0,0 +1 @@
+export { SlackNotificationSettings } from "./slack-notification-settings";
@@ -0,0 +1,486 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { Bell, Hash, Loader2, Moon, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/client";
+import { Card } from "@odis-ai/shared/ui/card";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Input } from "@odis-ai/shared/ui/input";
+import { Label } from "@odis-ai/shared/ui/label";
+import { Switch } from "@odis-ai/shared/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@odis-ai/shared/ui/select";
+import {
+  DEFAULT_SLACK_NOTIFICATION_PREFERENCES,
+  type SlackNotificationPreferences,
+  type SlackNotificationRoute,
+  type SlackSeverity,
+} from "@odis-ai/shared/validators";
+
+const NOTIFICATION_TYPES: {
+  value: SlackNotificationRoute["notificationType"];
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "emergency_triage",
+    label: "Emergencies",
+    description: "Triage calls logged by the after-hours assistant",
+  },
+  {
+    value: "callback_request",
+    label: "Callback requests",
+    description: "Messages callers left with the assistant",
+  },
+  {
+    value: "morning_digest",
+    label: "Morning digest",
+    description:
+      "Yesterday's call outcomes, items needing attention and today's outreach",
+  },
+  {
+    value: "appointment_booked",
+    label: "Appointments",
+    description: "Appointments booked by the assistant",
+  },
+  {
+    value: "call_failed",
+    label: "Failed calls",
+    description: "Outbound calls that could not be completed",
+  },
+  {
+    value: "sync_error",
+    label: "Sync errors",
+    description: "PIMS sync failures",
+  },
+  {
+    value: "admin_alert",
+    label: "System alerts",
+    description: "Operational alerts about your clinic",
+  },
+];
+
+const SEVERITY_OPTIONS: { value: SlackSeverity; label: string }[] = [
+  { value: "info", label: "Everything" },
+  { value: "warning", label: "Warning and above" },
+  { value: "error", label: "Error and above" },
+  { value: "critical", label: "Critical only" },
+];
+
+interface SlackNotificationSettingsProps {
+  clinicSlug: string;
+}
+
+type RouteDraft = Omit<SlackNotificationRoute, "channelName">;
+
+interface RouteRowProps {
+  clinicSlug: string;
+  notificationType: (typeof NOTIFICATION_TYPES)[number];
+  route:
+    | {
+        workspaceId: string;
+        channelId: string;
+        channelName: string | null;
+        minSeverity: string;
+        deliveryMode: string;
+        isEnabled: boolean;
+      }
+    | undefined;
+  workspaces: { id: string; name: string }[];
+}
+
+function RouteRow({
+  clinicSlug,
+  notificationType,
+  route,
+  workspaces,
+}: RouteRowProps) {
+  const utils = api.useUtils();
+
+  const [draft, setDraft] = useState<RouteDraft>(() => ({
+    notificationType: notificationType.value,
+    workspaceId: route?.workspaceId ?? workspaces[0]?.id ?? "",
+    channelId: route?.channelId ?? "",
+    minSeverity: (route?.minSeverity as SlackSeverity | undefined) ?? "info",
+    deliveryMode: route?.deliveryMode === "digest" ? "digest" : "immediate",
+    isEnabled: route?.isEnabled ?? true,
+  }));
+
+  const invalidate = () =>
+    void utils.settings.slackNotifications.getSlackNotificationSettings.invalidate();
+
+  const upsertMutation =
+    api.settings.slackNotifications.upsertSlackNotificationRoute.useMutation({
+      onSuccess: (result) => {
+        toast.success(
+          `${notificationType.label} will post to #${result.channelName}`,
+        );
+        invalidate();
+      },
+      onError: (error) => toast.error(error.message),
+    });
+
+  const deleteMutation =
+    api.settings.slackNotifications.deleteSlackNotificationRoute.useMutation({
+      onSuccess: () => {
+        toast.success(`${notificationType.label} routing removed`);
+        invalidate();
+      },
+      onError: (error) => toast.error(error.message),
+    });
+
+  const update = (patch: Partial<RouteDraft>) =>
+    setDraft((current) => ({ ...current, ...patch }));
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200/60 bg-slate-50/30 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-slate-900">
+            {notificationType.label}
+          </p>
+          <p className="text-xs text-slate-500">
+            {route?.channelName
+              ? `Posting to #${route.channelName}`
+              : notificationType.description}
+          </p>
+        </div>
+        <Switch
+          checked={draft.isEnabled}
+          onCheckedChange={(checked) => update({ isEnabled: checked })}
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Workspace</Label>
+          <Select
+            value={draft.workspaceId}
+            onValueChange={(value) => update({ workspaceId: value })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select workspace" />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces.map((workspace) => (
+                <SelectItem key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Channel ID</Label>
+          <div className="relative">
+            <Hash className="absolute top-1/2 left-2.5 h-3.5 w-3.5 -translate-y-1/2 text-slate-400" />
+            <Input
+              value={draft.channelId}
+              onChange={(e) => update({ channelId: e.target.value.trim() })}
+              placeholder="C0123456789"
+              className="pl-7"
+            />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Send</Label>
+          <Select
+            value={draft.minSeverity}
+            onValueChange={(value) =>
+              update({ minSeverity: value as SlackSeverity })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEVERITY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Delivery</Label>
+          <Select
+            value={draft.deliveryMode}
+            onValueChange={(value) =>
+              update({
+                deliveryMode: value as RouteDraft["deliveryMode"],
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="immediate">Immediately</SelectItem>
+              <SelectItem value="digest">Hourly digest</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {route && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={deleteMutation.isPending}
+            onClick={() =>
+              deleteMutation.mutate({
+                clinicSlug,
+                notificationType: notificationType.value,
+              })
+            }
+          >
+            <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+            Remove
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          disabled={
+            !draft.workspaceId || !draft.channelId || upsertMutation.isPending
+          }
+          onClick={() =>
+            upsertMutation.mutate({
+              clinicSlug,
+              route: { ...draft, channelName: null },
+            })
+          }
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {upsertMutation.isPending ? (
+            <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Save className="mr-1.5 h-3.5 w-3.5" />
+          )}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Slack Notification Settings
+ *
+ * Per-clinic routing of each notification type to a Slack channel, plus
+ * quiet hours. Types without a route use the default ODIS channels.
+ */
+export function SlackNotificationSettings({
+  clinicSlug,
+}: SlackNotificationSettingsProps) {
+  const utils = api.useUtils();
+
+  const { data, isLoading } =
+    api.settings.slackNotifications.getSlackNotificationSettings.useQuery({
+      clinicSlug,
+    });
+
+  const preferencesMutation =
+    api.settings.slackNotifications.updateSlackNotificationPreferences.useMutation(
+      {
+        onSuccess: () => {
+          toast.success("Notification schedule saved");
+          void utils.settings.slackNotifications.getSlackNotificationSettings.invalidate();
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { isDirty },
+  } = useForm<SlackNotificationPreferences>({
+    defaultValues: data?.preferences ?? DEFAULT_SLACK_NOTIFICATION_PREFERENCES,
+  });
+
+  useEffect(() => {
+    if (data) {
+      reset(data.preferences);
+    }
+  }, [data, reset]);
+
+  const quietHours = watch("quietHours");
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-slate-200 bg-white p-6">
+        <div className="mb-4 flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-indigo-100/80 text-indigo-600">
+            <Moon className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Schedule</h3>
+            <p className="text-sm text-slate-500">
+              Hold notifications overnight and choose when the morning digest
+              goes out
+            </p>
+          </div>
+        </div>
+
+        <form
+          onSubmit={handleSubmit((preferences) =>
+            preferencesMutation.mutate({ clinicSlug, preferences }),
+          )}
+          className="space-y-4"
+        >
+          <div className="space-y-3 rounded-lg border border-slate-200/60 bg-slate-50/30 p-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-slate-700">Quiet hours</Label>
+              <Switch
+                checked={quietHours !== null}
+                onCheckedChange={(checked) =>
+                  setValue(
+                    "quietHours",
+                    checked ? { start: "22:00", end: "07:00" } : null,
+                    { shouldDirty: true },
+                  )
+                }
+              />
+            </div>
+            {quietHours && (
+              <>
+                <div className="flex items-center gap-3">
+                  <Input
+                    type="time"
+                    {...register("quietHours.start")}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-slate-400">to</span>
+                  <Input
+                    type="time"
+                    {...register("quietHours.end")}
+                    className="flex-1"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-slate-500">
+                    Still send during quiet hours
+                  </Label>
+                  <Select
+                    value={watch("quietHoursBypassSeverity")}
+                    onValueChange={(value) =>
+                      setValue(
+                        "quietHoursBypassSeverity",
+                        value as SlackSeverity,
+                        { shouldDirty: true },
+                      )
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEVERITY_OPTIONS.filter(
+                        (option) => option.value !== "info",
+                      ).map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-slate-200/60 bg-slate-50/30 p-4">
+            <div>
+              <Label className="text-sm text-slate-700">Morning digest</Label>
+              <p className="text-xs text-slate-500">
+                Sent to the channel routed below for the morning digest
+              </p>
+            </div>
+            <Input
+              type="time"
+              step={3600}
+              {...register("morningDigestTime")}
+              className="w-32"
+            />
+          </div>
+
+          {isDirty && (
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={preferencesMutation.isPending}
+                className="bg-teal-600 hover:bg-teal-700"
+              >
+                {preferencesMutation.isPending ? (
+                  <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-1.5 h-4 w-4" />
+                )}
+                Save Schedule
+              </Button>
+            </div>
+          )}
+        </form>
+      </Card>
+
+      <Card className="border-slate-200 bg-white p-6">
+        <div className="mb-4 flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-teal-100/80 text-teal-600">
+            <Bell className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">
+              Slack Channels
+            </h3>
+            <p className="text-sm text-slate-500">
+              Choose where each notification goes. Invite the ODIS bot to the
+              channel first.
+            </p>
+          </div>
+        </div>
+
+        {data.workspaces.length === 0 ? (
+          <p className="rounded-lg border border-dashed border-slate-200 p-6 text-center text-sm text-slate-500">
+            No Slack workspace is connected yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {NOTIFICATION_TYPES.map((type) => (
+              <RouteRow
+                key={type.value}
+                clinicSlug={clinicSlug}
+                notificationType={type}
+                route={data.routes.find(
+                  (route) => route.notificationType === type.value,
+                )}
+                workspaces={data.workspaces}
+              />
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import * as React from "react";
 import {
   Home,
+  MessageSquare,
   PhoneIncoming,
   PhoneOutgoing,
   Settings,
@@ -11,6 +12,7 @@ import {
   Users,
   RefreshCw,
   Building2,
+  ListOrdered,
 } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -132,6 +134,12 @@ export function UnifiedSidebar({
   const inboundUrl = clinicSlug
     ? `/dashboard/${clinicSlug}/inbound?outcome=all`
     : "/dashboard/inbound?outcome=all";
+  const textsUrl = clinicSlug
+    ? `/dashboard/${clinicSlug}/texts`
+    : "/dashboard/texts";
+  const waitlistUrl = clinicSlug
+    ? `/dashboard/${clinicSlug}/waitlist`
+    : "/dashboard/waitlist";
   const outboundUrl = clinicSlug
     ? `/dashboard/${clinicSlug}/outbound?view=all`
     : "/dashboard/outbound?view=all";
@@ -148,6 +156,14 @@ export function UnifiedSidebar({
     pathname.includes("/inbound") ||
     (clinicSlug && pathname.startsWith(`/dashboard/${clinicSlug}/inbound`));
 
+  const isOnTexts =
+    pathname.includes("/texts") ||
+    (clinicSlug && pathname.startsWith(`/dashboard/${clinicSlug}/texts`));
+
+  const isOnWaitlist =
+    pathname.includes("/waitlist") ||
+    (clinicSlug && pathname.startsWith(`/dashboard/${clinicSlug}/waitlist`));
+
   const isOnOutbound =
     pathname.includes("/outbound") ||
     (clinicSlug && pathname.startsWith(`/dashboard/${clinicSlug}/outbound`));
@@ -286,6 +302,20 @@ export function UnifiedSidebar({
               isActive={!!isOnInbound}
             />
 
+            <MainNavItem
+              href={textsUrl}
+              icon={MessageSquare}
+              label="Texts"
+              isActive={!!isOnTexts}
+            />
+
+            <MainNavItem
+              href={waitlistUrl}
+              icon={ListOrdered}
+              label="Waitlist"
+              isActive={!!isOnWaitlist}
+            />
+
             {/* Discharge - Simple nav item (disabled for Masan non-admin users) */}
             <MainNavItem
               href={outboundUrl}
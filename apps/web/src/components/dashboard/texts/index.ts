@@ -0,0 +1,7 @@
+/**
+ * Texts Dashboard Components
+ *
+ * Two-way SMS inbox for conversations with pet owners.
+ */
+
+export { SmsInbox } from "./sms-inbox";
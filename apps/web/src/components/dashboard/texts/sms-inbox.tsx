@@ -0,0 +1,310 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryState, parseAsString } from "nuqs";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, MessageSquare, Send, Sparkles } from "lucide-react";
+
+import { Badge } from "@odis-ai/shared/ui/badge";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Textarea } from "@odis-ai/shared/ui/textarea";
+import { cn } from "@odis-ai/shared/util";
+import { api } from "~/trpc/client";
+
+type SmsUrgency = "critical" | "urgent" | "monitor";
+
+const URGENCY_STYLES: Record<SmsUrgency, string> = {
+  critical: "bg-red-100 text-red-700 border-red-200",
+  urgent: "bg-amber-100 text-amber-700 border-amber-200",
+  monitor: "bg-sky-100 text-sky-700 border-sky-200",
+};
+
+function UrgencyBadge({ urgency }: { urgency: string | null }) {
+  if (!urgency || !(urgency in URGENCY_STYLES)) return null;
+  return (
+    <Badge
+      variant="outline"
+      className={cn("capitalize", URGENCY_STYLES[urgency as SmsUrgency])}
+    >
+      {urgency}
+    </Badge>
+  );
+}
+
+/**
+ * SMS Inbox
+ *
+ * Two-way text threads with pet owners:
+ * - Thread list with urgency (triage levels) and unread counts
+ * - Thread view with the discharge text and owner replies
+ * - Reply composer with AI-suggested replies grounded in the discharge summary
+ */
+export function SmsInbox() {
+  const [conversationId, setConversationId] = useQueryState(
+    "conversation",
+    parseAsString,
+  );
+  const [statusFilter, setStatusFilter] = useState<"open" | "closed">("open");
+  const [draft, setDraft] = useState("");
+  const [draftFromAi, setDraftFromAi] = useState(false);
+
+  const utils = api.useUtils();
+
+  const { data: list, isLoading: isListLoading } =
+    api.inbound.listSmsConversations.useQuery(
+      { status: statusFilter, page: 1, pageSize: 50 },
+      { refetchInterval: 30_000 },
+    );
+
+  const { data: thread, isLoading: isThreadLoading } =
+    api.inbound.getSmsConversation.useQuery(
+      { conversationId: conversationId ?? "" },
+      { enabled: !!conversationId, refetchInterval: 15_000 },
+    );
+
+  // Reset the composer when switching threads
+  useEffect(() => {
+    setDraft("");
+    setDraftFromAi(false);
+  }, [conversationId]);
+
+  const sendReply = api.inbound.sendSmsReply.useMutation({
+    onSuccess: () => {
+      setDraft("");
+      setDraftFromAi(false);
+      void utils.inbound.getSmsConversation.invalidate();
+      void utils.inbound.listSmsConversations.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const suggestReply = api.inbound.suggestSmsReply.useMutation({
+    onSuccess: (result) => {
+      setDraft(result.suggestion);
+      setDraftFromAi(true);
+      if (!result.groundedInDischargeSummary) {
+        toast.info("No discharge summary found for this case", {
+          description: "Review the suggestion carefully before sending.",
+        });
+      }
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateConversation = api.inbound.updateSmsConversation.useMutation({
+    onSuccess: () => {
+      void utils.inbound.getSmsConversation.invalidate();
+      void utils.inbound.listSmsConversations.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const conversations = list?.conversations ?? [];
+
+  return (
+    <div className="flex h-full min-h-0">
+      {/* Thread list */}
+      <div className="flex w-80 shrink-0 flex-col border-r border-slate-200">
+        <div className="flex gap-1 border-b border-slate-200 p-2">
+          {(["open", "closed"] as const).map((status) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={statusFilter === status ? "secondary" : "ghost"}
+              className="capitalize"
+              onClick={() => setStatusFilter(status)}
+            >
+              {status}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isListLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+            </div>
+          ) : conversations.length === 0 ? (
+            <p className="p-6 text-center text-sm text-slate-500">
+              No {statusFilter} conversations
+            </p>
+          ) : (
+            conversations.map((c) => (
+              <button
+                key={c.id}
+                type="button"
+                onClick={() => void setConversationId(c.id)}
+                className={cn(
+                  "flex w-full flex-col gap-1 border-b border-slate-100 px-3 py-2.5 text-left hover:bg-slate-50",
+                  c.id === conversationId && "bg-teal-50 hover:bg-teal-50",
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span
+                    className={cn(
+                      "truncate text-sm",
+                      c.unreadCount > 0
+                        ? "font-semibold text-slate-900"
+                        : "text-slate-700",
+                    )}
+                  >
+                    {c.ownerName ?? c.ownerPhone}
+                    {c.patientName ? ` · ${c.patientName}` : ""}
+                  </span>
+                  {c.lastMessageAt && (
+                    <span className="shrink-0 text-xs text-slate-400">
+                      {formatDistanceToNow(new Date(c.lastMessageAt), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <p className="flex-1 truncate text-xs text-slate-500">
+                    {c.lastMessagePreview}
+                  </p>
+                  <UrgencyBadge urgency={c.urgency} />
+                  {c.unreadCount > 0 && (
+                    <span className="rounded-full bg-teal-600 px-1.5 text-xs text-white">
+                      {c.unreadCount}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Thread view */}
+      <div className="flex min-w-0 flex-1 flex-col">
+        {!conversationId ? (
+          <div className="flex flex-1 flex-col items-center justify-center gap-2 text-slate-400">
+            <MessageSquare className="h-8 w-8" />
+            <p className="text-sm">Select a conversation</p>
+          </div>
+        ) : isThreadLoading || !thread ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 border-b border-slate-200 px-4 py-3">
+              <div className="min-w-0">
+                <p className="truncate font-medium text-slate-900">
+                  {thread.ownerName ?? thread.ownerPhone}
+                </p>
+                <p className="truncate text-xs text-slate-500">
+                  {thread.ownerPhone}
+                  {thread.patient
+                    ? ` · ${thread.patient.name}${thread.patient.species ? ` (${thread.patient.species})` : ""}`
+                    : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <UrgencyBadge urgency={thread.urgency} />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={updateConversation.isPending}
+                  onClick={() =>
+                    updateConversation.mutate({
+                      conversationId: thread.id,
+                      status: thread.status === "open" ? "closed" : "open",
+                    })
+                  }
+                >
+                  {thread.status === "open" ? "Close" : "Reopen"}
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 space-y-3 overflow-y-auto bg-slate-50/50 p-4">
+              {thread.messages.map((m) => (
+                <div
+                  key={m.id}
+                  className={cn(
+                    "flex flex-col gap-1",
+                    m.direction === "outbound" ? "items-end" : "items-start",
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "max-w-[75%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap",
+                      m.direction === "outbound"
+                        ? "bg-teal-600 text-white"
+                        : "border border-slate-200 bg-white text-slate-800",
+                    )}
+                  >
+                    {m.body}
+                  </div>
+                  <div className="flex items-center gap-1.5 text-[11px] text-slate-400">
+                    {m.isDischargeText && <span>Discharge text ·</span>}
+                    {m.aiSuggested && <span>AI-assisted ·</span>}
+                    <span>
+                      {formatDistanceToNow(new Date(m.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                    {m.status === "failed" && (
+                      <span className="text-red-500">· Failed</span>
+                    )}
+                    {m.urgency && <UrgencyBadge urgency={m.urgency} />}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2 border-t border-slate-200 p-3">
+              <Textarea
+                value={draft}
+                onChange={(e) => {
+                  setDraft(e.target.value);
+                  if (!e.target.value) setDraftFromAi(false);
+                }}
+                placeholder="Write a reply..."
+                rows={3}
+              />
+              <div className="flex items-center justify-between">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={suggestReply.isPending}
+                  onClick={() =>
+                    suggestReply.mutate({ conversationId: thread.id })
+                  }
+                >
+                  {suggestReply.isPending ? (
+                    <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Sparkles className="mr-1.5 h-4 w-4" />
+                  )}
+                  Suggest reply
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!draft.trim() || sendReply.isPending}
+                  onClick={() =>
+                    sendReply.mutate({
+                      conversationId: thread.id,
+                      body: draft.trim(),
+                      aiSuggested: draftFromAi,
+                    })
+                  }
+                >
+                  {sendReply.isPending ? (
+                    <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="mr-1.5 h-4 w-4" />
+                  )}
+                  Send
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Waitlist Dashboard Components
+ *
+ * Cancellation waitlist: clients waiting for an earlier appointment.
+ */
+
+export { WaitlistBoard } from "./waitlist-board";
+export { WaitlistEntryForm } from "./waitlist-entry-form";
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { ListOrdered, Loader2, Plus, X } from "lucide-react";
+
+import { Badge } from "@odis-ai/shared/ui/badge";
+import { Button } from "@odis-ai/shared/ui/button";
+import { cn } from "@odis-ai/shared/util";
+import { api } from "~/trpc/client";
+import { WaitlistEntryForm } from "./waitlist-entry-form";
+
+type WaitlistFilter = "waiting" | "offered" | "booked";
+
+const STATUS_STYLES: Record<string, string> = {
+  waiting: "bg-slate-100 text-slate-700 border-slate-200",
+  offered: "bg-amber-100 text-amber-700 border-amber-200",
+  booked: "bg-teal-100 text-teal-700 border-teal-200",
+  removed: "bg-slate-50 text-slate-400 border-slate-200",
+};
+
+const OFFER_LABELS: Record<string, string> = {
+  pending: "Offer pending",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "No answer",
+  failed: "Couldn't reach",
+};
+
+function formatDay(date: string) {
+  return format(new Date(`${date}T00:00:00`), "MMM d");
+}
+
+/**
+ * Waitlist Board
+ *
+ * Clients waiting for a cancellation:
+ * - Filter by status (waiting, offered, booked)
+ * - Preferred days, contact method, and the latest offer for each client
+ * - Add clients manually and remove them
+ */
+export function WaitlistBoard() {
+  const [statusFilter, setStatusFilter] = useState<WaitlistFilter | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const utils = api.useUtils();
+
+  const { data, isLoading } = api.inbound.listWaitlist.useQuery(
+    { status: statusFilter ?? undefined },
+    { refetchInterval: 30_000 },
+  );
+
+  const addEntry = api.inbound.addWaitlistEntry.useMutation({
+    onSuccess: () => {
+      setIsAdding(false);
+      toast.success("Added to waitlist");
+      void utils.inbound.listWaitlist.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const removeEntry = api.inbound.removeWaitlistEntry.useMutation({
+    onSuccess: () => {
+      void utils.inbound.listWaitlist.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const entries = data?.entries ?? [];
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-4 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-semibold text-slate-900">Waitlist</h1>
+          <p className="text-sm text-slate-500">
+            When an appointment is cancelled, the slot is held and offered to
+            the first matching client.
+          </p>
+        </div>
+        {!isAdding && (
+          <Button
+            size="sm"
+            className="bg-teal-600 hover:bg-teal-700"
+            onClick={() => setIsAdding(true)}
+          >
+            <Plus className="mr-1.5 h-4 w-4" />
+            Add client
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="rounded-lg border border-slate-200 bg-white p-4">
+          <WaitlistEntryForm
+            isSaving={addEntry.isPending}
+            onSubmit={(entry) => addEntry.mutate(entry)}
+            onCancel={() => setIsAdding(false)}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-1">
+        {([null, "waiting", "offered", "booked"] as const).map((status) => (
+          <Button
+            key={status ?? "all"}
+            size="sm"
+            variant={statusFilter === status ? "secondary" : "ghost"}
+            className="capitalize"
+            onClick={() => setStatusFilter(status)}
+          >
+            {status ?? "All"}
+          </Button>
+        ))}
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto rounded-lg border border-slate-200 bg-white">
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 p-10 text-center">
+            <ListOrdered className="h-6 w-6 text-slate-300" />
+            <p className="text-sm text-slate-500">No one on the waitlist</p>
+          </div>
+        ) : (
+          entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-start gap-4 border-b border-slate-100 px-4 py-3 last:border-b-0"
+            >
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-sm font-medium text-slate-900">
+                    {entry.patientName}
+                    {entry.species && (
+                      <span className="font-normal text-slate-500">
+                        {" "}
+                        ({entry.species})
+                      </span>
+                    )}
+                  </span>
+                  <Badge
+                    variant="outline"
+                    className={cn("capitalize", STATUS_STYLES[entry.status])}
+                  >
+                    {entry.status}
+                  </Badge>
+                  {entry.isNewClient && (
+                    <Badge variant="outline">New client</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-slate-600">
+                  {entry.clientName} · {entry.clientPhone} ·{" "}
+                  {entry.contactMethod === "sms" ? "Text" : "Call"}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {entry.preferredRanges.length === 0
+                    ? "Any day"
+                    : entry.preferredRanges
+                        .map(
+                          (range) =>
+                            `${formatDay(range.start_date)} – ${formatDay(range.end_date)}`,
+                        )
+                        .join(", ")}
+                  {entry.appointmentType && ` · ${entry.appointmentType}`}
+                  {entry.reason && ` · ${entry.reason}`}
+                </p>
+                {entry.latestOffer && (
+                  <p className="text-xs text-slate-500">
+                    {OFFER_LABELS[entry.latestOffer.status] ??
+                      entry.latestOffer.status}
+                    :{" "}
+                    {format(
+                      new Date(entry.latestOffer.slotStart),
+                      "EEE MMM d, h:mm a",
+                    )}
+                    {entry.offerCount > 1 && ` (${entry.offerCount} offers)`}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <span className="text-xs text-slate-400">
+                  {formatDistanceToNow(new Date(entry.createdAt), {
+                    addSuffix: true,
+                  })}
+                </span>
+                {entry.status !== "booked" && entry.status !== "removed" && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-slate-400 hover:text-red-600"
+                    disabled={removeEntry.isPending}
+                    onClick={() => removeEntry.mutate({ entryId: entry.id })}
+                    aria-label="Remove from waitlist"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@odis-ai/shared/ui/button";
+import { Input } from "@odis-ai/shared/ui/input";
+import { Label } from "@odis-ai/shared/ui/label";
+import { Switch } from "@odis-ai/shared/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@odis-ai/shared/ui/select";
+import {
+  waitlistEntrySchema,
+  type WaitlistContactMethod,
+  type WaitlistEntrySettings,
+} from "@odis-ai/shared/validators";
+
+interface WaitlistEntryFormProps {
+  isSaving: boolean;
+  onSubmit: (entry: WaitlistEntrySettings) => void;
+  onCancel: () => void;
+}
+
+export function WaitlistEntryForm({
+  isSaving,
+  onSubmit,
+  onCancel,
+}: WaitlistEntryFormProps) {
+  const [clientName, setClientName] = useState("");
+  const [clientPhone, setClientPhone] = useState("");
+  const [patientName, setPatientName] = useState("");
+  const [species, setSpecies] = useState("");
+  const [reason, setReason] = useState("");
+  const [appointmentType, setAppointmentType] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [contactMethod, setContactMethod] =
+    useState<WaitlistContactMethod>("call");
+  const [isNewClient, setIsNewClient] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!!startDate !== !!endDate) {
+      setError("Enter both dates, or leave both empty for any day");
+      return;
+    }
+
+    const parsed = waitlistEntrySchema.safeParse({
+      clientName,
+      clientPhone,
+      patientName,
+      species: species || undefined,
+      reason: reason || undefined,
+      appointmentType: appointmentType || undefined,
+      isNewClient,
+      preferredRanges:
+        startDate && endDate
+          ? [{ start_date: startDate, end_date: endDate }]
+          : [],
+      contactMethod,
+      notes: notes || undefined,
+    });
+
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Invalid waitlist entry");
+      return;
+    }
+
+    setError(null);
+    onSubmit(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Client name</Label>
+          <Input
+            value={clientName}
+            onChange={(e) => setClientName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Phone</Label>
+          <Input
+            type="tel"
+            value={clientPhone}
+            placeholder="(555) 123-4567"
+            onChange={(e) => setClientPhone(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Pet name</Label>
+          <Input
+            value={patientName}
+            onChange={(e) => setPatientName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Species</Label>
+          <Input
+            value={species}
+            placeholder="Optional"
+            onChange={(e) => setSpecies(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Appointment type</Label>
+          <Input
+            value={appointmentType}
+            placeholder="e.g., Dental consult (optional)"
+            onChange={(e) => setAppointmentType(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Reason</Label>
+          <Input
+            value={reason}
+            placeholder="Optional"
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Earliest day</Label>
+          <Input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Latest day</Label>
+          <Input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Offer by</Label>
+          <Select
+            value={contactMethod}
+            onValueChange={(value) =>
+              setContactMethod(value as WaitlistContactMethod)
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="call">Phone call</SelectItem>
+              <SelectItem value="sms">Text message</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-500">Notes</Label>
+          <Input
+            value={notes}
+            placeholder="Optional"
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch checked={isNewClient} onCheckedChange={setIsNewClient} />
+        <span className="text-sm text-slate-600">New client</span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          disabled={isSaving}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={isSaving}
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {isSaving && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+          Add to waitlist
+        </Button>
+      </div>
+    </form>
+  );
+}
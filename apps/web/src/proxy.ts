@@ -39,6 +39,8 @@ const isPublicRoute = createRouteMatcher([
   "/api/public/(.*)",
   "/api/health(.*)",
   "/api/vapi/(.*)",
+  "/api/slack/interactions(.*)",
+  "/api/slack/commands(.*)",
   "/sitemap.xml",
   "/robots.txt",
   "/integrations(.*)",
@@ -255,11 +255,11 @@ export const adminClinicsRouter = createTRPCRouter({
         .eq("clinic_id", input.clinicId)
         .gte("created_at", daysAgo.toISOString());
 
-      // Get call count
+      // Get call count (calls are scoped to a clinic through their case)
       const { count: callCount } = await supabase
         .from("scheduled_discharge_calls")
-        .select("*", { count: "exact", head: true })
-        .eq("clinic_id", input.clinicId)
+        .select("id, cases!inner(clinic_id)", { count: "exact", head: true })
+        .eq("cases.clinic_id", input.clinicId)
         .gte("created_at", daysAgo.toISOString());
 
       // Get user count
@@ -12,6 +12,13 @@ import {
   getIdexxCredentialStatusSchema,
   updateSyncScheduleSchema,
   cancelSyncSchema,
+  getSyncJobSchema,
+  previewReconciliationSchema,
+  getReconciliationPreviewSchema,
+  applyReconciliationSchema,
+  undoReconciliationSchema,
+  type ReconciliationPreview,
+  type SyncJobStatus,
   type SyncScheduleItem,
 } from "./schemas";
 import { TRPCError } from "@trpc/server";
@@ -229,10 +236,11 @@ export const adminSyncRouter = createTRPCRouter({
           );
         }
 
-        const data = await response.json();
+        const data = (await response.json()) as { jobId: string };
 
         return {
           success: true,
+          jobId: data.jobId,
           message: `${input.type} sync triggered successfully`,
           data,
         };
@@ -277,10 +285,11 @@ export const adminSyncRouter = createTRPCRouter({
           );
         }
 
-        const data = await response.json();
+        const data = (await response.json()) as { jobId: string };
 
         return {
           success: true,
+          jobId: data.jobId,
           message: `Full sync triggered successfully (${input.lookbackDays}d backward + ${input.forwardDays}d forward)`,
           data,
         };
@@ -326,11 +335,12 @@ export const adminSyncRouter = createTRPCRouter({
           );
         }
 
-        const data = await response.json();
+        const data = (await response.json()) as { jobId: string };
 
         return {
           success: true,
-          message: `Schedule slots generated successfully`,
+          jobId: data.jobId,
+          message: `Schedule slots generation queued`,
           data,
         };
       } catch (error) {
@@ -373,11 +383,12 @@ export const adminSyncRouter = createTRPCRouter({
           );
         }
 
-        const data = await response.json();
+        const data = (await response.json()) as { jobId: string };
 
         return {
           success: true,
-          message: `Appointment sync completed: ${data.stats?.appointmentsFound ?? 0} appointments synced`,
+          jobId: data.jobId,
+          message: `Appointment sync queued`,
           data,
         };
       } catch (error) {
@@ -389,6 +400,220 @@ export const adminSyncRouter = createTRPCRouter({
       }
     }),
 
+  /**
+   * Get a queued sync job's status and per-phase progress
+   * Polled by the clinic sync tab while the job runs
+   */
+  getSyncJob: adminProcedure
+    .input(getSyncJobSchema)
+    .query(async ({ input }) => {
+      try {
+        const response = await fetch(
+          `${PIMS_SYNC_URL}/api/sync/jobs/${input.jobId}`,
+          {
+            method: "GET",
+            headers: {
+              "Content-Type": "application/json",
+              "x-api-key": PIMS_SYNC_API_KEY,
+            },
+          },
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(
+            `Job status request failed: ${response.status} - ${errorText}`,
+          );
+        }
+
+        const data = (await response.json()) as { job: SyncJobStatus };
+        return data.job;
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to load sync job: ${error instanceof Error ? error.message : "Unknown error"}`,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Start a dry-run reconciliation
+   * The plan is read with getReconciliationPreview once the job finishes.
+   */
+  previewReconciliation: adminProcedure
+    .input(previewReconciliationSchema)
+    .mutation(async ({ input }) => {
+      try {
+        const response = await fetch(`${PIMS_SYNC_URL}/api/sync/reconcile`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": PIMS_SYNC_API_KEY,
+          },
+          body: JSON.stringify({
+            clinicId: input.clinicId,
+            lookbackDays: input.lookbackDays,
+            dryRun: true,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(
+            `Reconciliation preview failed: ${response.status} - ${errorText}`,
+          );
+        }
+
+        const data = (await response.json()) as { jobId: string };
+
+        return {
+          success: true,
+          jobId: data.jobId,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to start reconciliation preview: ${error instanceof Error ? error.message : "Unknown error"}`,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Get a dry-run reconciliation job and its plan
+   */
+  getReconciliationPreview: adminProcedure
+    .input(getReconciliationPreviewSchema)
+    .query(async ({ input }): Promise<ReconciliationPreview> => {
+      try {
+        const response = await fetch(
+          `${PIMS_SYNC_URL}/api/sync/jobs/${input.jobId}`,
+          {
+            method: "GET",
+            headers: {
+              "Content-Type": "application/json",
+              "x-api-key": PIMS_SYNC_API_KEY,
+            },
+          },
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(
+            `Job status request failed: ${response.status} - ${errorText}`,
+          );
+        }
+
+        const data = (await response.json()) as {
+          job: SyncJobStatus & {
+            result: { dryRun?: boolean; plan?: ReconciliationPreview["plan"] };
+          };
+        };
+        const { result, ...job } = data.job;
+
+        if (job.type !== "reconcile" || (result && !result.dryRun)) {
+          throw new Error("Job is not a reconciliation preview");
+        }
+
+        return {
+          job,
+          plan: job.status === "succeeded" ? (result?.plan ?? null) : null,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to load reconciliation preview: ${error instanceof Error ? error.message : "Unknown error"}`,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Apply the selected actions of a reviewed preview
+   * Cases that changed since the preview are skipped.
+   */
+  applyReconciliation: adminProcedure
+    .input(applyReconciliationSchema)
+    .mutation(async ({ input }) => {
+      try {
+        const response = await fetch(
+          `${PIMS_SYNC_URL}/api/sync/reconcile/apply`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "x-api-key": PIMS_SYNC_API_KEY,
+            },
+            body: JSON.stringify(input),
+          },
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(
+            `Reconciliation apply failed: ${response.status} - ${errorText}`,
+          );
+        }
+
+        const data = (await response.json()) as { jobId: string };
+
+        return {
+          success: true,
+          jobId: data.jobId,
+          message: `Applying ${input.actionIds.length} reconciliation action(s)`,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to apply reconciliation: ${error instanceof Error ? error.message : "Unknown error"}`,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Restore the cases soft-deleted by a reconciliation run
+   */
+  undoReconciliation: adminProcedure
+    .input(undoReconciliationSchema)
+    .mutation(async ({ input }) => {
+      try {
+        const response = await fetch(
+          `${PIMS_SYNC_URL}/api/sync/reconcile/undo`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "x-api-key": PIMS_SYNC_API_KEY,
+            },
+            body: JSON.stringify(input),
+          },
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(
+            `Reconciliation undo failed: ${response.status} - ${errorText}`,
+          );
+        }
+
+        const data = (await response.json()) as { jobId: string };
+
+        return {
+          success: true,
+          jobId: data.jobId,
+          message: "Reconciliation undo triggered successfully",
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to undo reconciliation: ${error instanceof Error ? error.message : "Unknown error"}`,
+          cause: error,
+        });
+      }
+    }),
+
   /**
    * Get all sync schedules (for admin overview)
    */
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { ReconciliationPlan } from "@odis-ai/shared/types";
 
 export const getActiveSyncsSchema = z.object({
   clinicId: z.string().uuid().optional(),
@@ -53,6 +54,33 @@ export const getIdexxCredentialStatusSchema = z.object({
   clinicId: z.string().uuid(),
 });
 
+export const getSyncJobSchema = z.object({
+  jobId: z.string().uuid(),
+});
+
+export const previewReconciliationSchema = z.object({
+  clinicId: z.string().uuid(),
+  lookbackDays: z.number().int().min(1).max(60).default(7),
+});
+
+export const getReconciliationPreviewSchema = z.object({
+  jobId: z.string().uuid(),
+});
+
+export const applyReconciliationSchema = z.object({
+  clinicId: z.string().uuid(),
+  /** The dry-run reconcile job whose plan was reviewed */
+  previewJobId: z.string().uuid(),
+  /** Actions to apply (IDs from the plan) */
+  actionIds: z.array(z.string()).min(1),
+});
+
+export const undoReconciliationSchema = z.object({
+  clinicId: z.string().uuid(),
+  /** syncId of the reconciliation run to undo */
+  runId: z.string().uuid(),
+});
+
 export const cancelSyncSchema = z.object({
   syncId: z.string().uuid(),
 });
@@ -79,3 +107,45 @@ export type TriggerScheduleSlotsInput = z.infer<
 export type TriggerAppointmentSyncInput = z.infer<
   typeof triggerAppointmentSyncSchema
 >;
+
+// Sync job as returned by pims-sync GET /api/sync/jobs/:id
+export type SyncJobPhase = "inbound" | "enrichment" | "reconciliation";
+
+export interface SyncJobPhaseProgress {
+  phase: SyncJobPhase;
+  status: "pending" | "running" | "completed";
+  processed: number;
+  total: number;
+  percentage: number;
+  etaSeconds: number | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface SyncJobProgress {
+  percentage: number;
+  etaSeconds: number | null;
+  currentPhase: SyncJobPhase | null;
+  phases: SyncJobPhaseProgress[];
+  updatedAt: string;
+}
+
+export interface SyncJobStatus {
+  id: string;
+  clinicId: string;
+  type: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "dead_letter";
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  progress: SyncJobProgress | null;
+  lastError: string | null;
+}
+
+export interface ReconciliationPreview {
+  job: SyncJobStatus;
+  /** Set once the dry run has succeeded */
+  plan: ReconciliationPlan | null;
+}
@@ -80,6 +80,7 @@ export const batchOperationsRouter = createTRPCRouter({
         `,
       )
       .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
+      .eq("scheduled_discharge_calls.call_type", "discharge")
       .order("scheduled_at", { ascending: false, nullsFirst: false });
 
     if (error) {
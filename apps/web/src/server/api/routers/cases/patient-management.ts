@@ -13,6 +13,9 @@ import {
   buildClinicScopeFilter,
 } from "@odis-ai/domain/clinics";
 import { normalizeEmail, normalizeToE164 } from "@odis-ai/shared/util/phone";
+import type { Database } from "@odis-ai/shared/types";
+
+type Tables = Database["public"]["Tables"];
 
 export const patientManagementRouter = createTRPCRouter({
   /**
@@ -37,7 +40,7 @@ export const patientManagementRouter = createTRPCRouter({
       const clinicUserIds = await getClinicUserIds(ctx.user.id, ctx.supabase);
 
       // Build update object only with defined fields
-      const updateData: Record<string, string | null> = {};
+      const updateData: Tables["patients"]["Update"] = {};
 
       if (input.name !== undefined) updateData.name = input.name;
       if (input.species !== undefined) updateData.species = input.species;
@@ -116,7 +119,7 @@ export const patientManagementRouter = createTRPCRouter({
           : input.patientData.ownerEmail; // preserve empty string for clearing
 
       // Step 1: Update patient record with any provided data (clinic-scoped)
-      const updateData: Record<string, string | null> = {};
+      const updateData: Tables["patients"]["Update"] = {};
       if (input.patientData.name) {
         updateData.name = input.patientData.name;
       }
@@ -478,8 +481,7 @@ export const patientManagementRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       // Build update object only with defined fields for users table
-      const userUpdateData: Record<string, string | boolean | number | null> =
-        {};
+      const userUpdateData: Tables["users"]["Update"] = {};
 
       if (input.clinicName !== undefined) {
         userUpdateData.clinic_name = input.clinicName;
@@ -577,7 +579,7 @@ export const patientManagementRouter = createTRPCRouter({
       }
 
       // Build update object for clinic branding and VAPI configuration fields
-      const clinicUpdateData: Record<string, string | null> = {};
+      const clinicUpdateData: Tables["clinics"]["Update"] = {};
 
       if (input.primaryColor !== undefined) {
         clinicUpdateData.primary_color = input.primaryColor;
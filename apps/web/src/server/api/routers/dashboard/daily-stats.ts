@@ -12,19 +12,10 @@ import {
   userHasClinicAccess,
   getClinicUserIdsEnhanced,
   getClinicUserIds,
-  buildClinicScopeFilter,
 } from "@odis-ai/domain/clinics";
-import { startOfDay, subDays, endOfDay } from "date-fns";
+import { subDays } from "date-fns";
 import { TRPCError } from "@trpc/server";
-
-interface CallAnalysis {
-  summary?: string;
-  structuredData?: {
-    wentToVoicemail?: boolean;
-    appointmentScheduled?: boolean;
-  };
-  successEvaluation?: boolean | string;
-}
+import { getDayCallStats } from "./ops-summary";
 
 export const dailyStatsRouter = createTRPCRouter({
   /**
@@ -70,56 +61,19 @@ export const dailyStatsRouter = createTRPCRouter({
         ? await getClinicUserIdsEnhanced(clinic.id, ctx.supabase)
         : await getClinicUserIds(userId, ctx.supabase);
 
-      // Calculate date ranges
-      const todayStart = startOfDay(new Date());
-      const todayEnd = endOfDay(new Date());
-      const yesterdayStart = startOfDay(subDays(new Date(), 1));
-      const yesterdayEnd = endOfDay(subDays(new Date(), 1));
-
-      // Fetch today's inbound calls
-      let todayInboundQuery = ctx.supabase
-        .from("inbound_vapi_calls")
-        .select("id, status, duration_seconds")
-        .gte("created_at", todayStart.toISOString())
-        .lte("created_at", todayEnd.toISOString());
-
-      if (clinic?.name) {
-        todayInboundQuery = todayInboundQuery.eq("clinic_name", clinic.name);
-      }
-
-      const { data: todayInbound } = await todayInboundQuery;
-
-      // Fetch yesterday's inbound calls
-      let yesterdayInboundQuery = ctx.supabase
-        .from("inbound_vapi_calls")
-        .select("id, status")
-        .gte("created_at", yesterdayStart.toISOString())
-        .lte("created_at", yesterdayEnd.toISOString());
-
-      if (clinic?.name) {
-        yesterdayInboundQuery = yesterdayInboundQuery.eq(
-          "clinic_name",
-          clinic.name,
-        );
-      }
-
-      const { data: yesterdayInbound } = await yesterdayInboundQuery;
-
-      // Calculate inbound metrics
-      const todayInboundTotal = todayInbound?.length ?? 0;
-      const todayInboundCompleted =
-        todayInbound?.filter((c) => c.status === "completed").length ?? 0;
-      const todayInboundTransferred =
-        todayInbound?.filter((c) => c.status === "transferred").length ?? 0;
+      const scope = {
+        clinicId: clinic?.id,
+        clinicName: clinic?.name,
+        clinicUserIds,
+      };
 
-      const yesterdayInboundTotal = yesterdayInbound?.length ?? 0;
-      const yesterdayInboundCompleted =
-        yesterdayInbound?.filter((c) => c.status === "completed").length ?? 0;
+      const [today, yesterday] = await Promise.all([
+        getDayCallStats(ctx.supabase, scope, new Date()),
+        getDayCallStats(ctx.supabase, scope, subDays(new Date(), 1)),
+      ]);
 
-      const aiHandledRate =
-        todayInboundTotal > 0
-          ? Math.round((todayInboundCompleted / todayInboundTotal) * 100)
-          : 0;
+      const todayInboundTotal = today.inbound.total;
+      const yesterdayInboundTotal = yesterday.inbound.total;
 
       // Calculate trend
       const inboundTrend =
@@ -138,48 +92,8 @@ export const dailyStatsRouter = createTRPCRouter({
             )
           : 0;
 
-      // Fetch today's outbound calls
-      const { data: todayOutbound } = await ctx.supabase
-        .from("scheduled_discharge_calls")
-        .select("id, status, call_analysis, success_evaluation")
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
-        .gte("created_at", todayStart.toISOString())
-        .lte("created_at", todayEnd.toISOString());
-
-      // Fetch yesterday's outbound calls
-      const { data: yesterdayOutbound } = await ctx.supabase
-        .from("scheduled_discharge_calls")
-        .select("id, status")
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
-        .gte("created_at", yesterdayStart.toISOString())
-        .lte("created_at", yesterdayEnd.toISOString());
-
-      // Calculate outbound metrics
-      const todayOutboundTotal = todayOutbound?.length ?? 0;
-      const todayOutboundCompleted =
-        todayOutbound?.filter((c) => c.status === "completed").length ?? 0;
-
-      const todayOutboundVoicemail =
-        todayOutbound?.filter((c) => {
-          if (c.status !== "completed") return false;
-          const analysis = c.call_analysis as CallAnalysis | null;
-          return analysis?.structuredData?.wentToVoicemail === true;
-        }).length ?? 0;
-
-      const todayOutboundSuccessful =
-        todayOutbound?.filter((c) => {
-          if (c.status !== "completed") return false;
-          return c.success_evaluation === "true";
-        }).length ?? 0;
-
-      const yesterdayOutboundTotal = yesterdayOutbound?.length ?? 0;
-      const yesterdayOutboundCompleted =
-        yesterdayOutbound?.filter((c) => c.status === "completed").length ?? 0;
-
-      const outboundSuccessRate =
-        todayOutboundCompleted > 0
-          ? Math.round((todayOutboundSuccessful / todayOutboundCompleted) * 100)
-          : 0;
+      const todayOutboundCompleted = today.outbound.completed;
+      const yesterdayOutboundCompleted = yesterday.outbound.completed;
 
       const outboundTrend =
         todayOutboundCompleted > yesterdayOutboundCompleted
@@ -201,27 +115,27 @@ export const dailyStatsRouter = createTRPCRouter({
         inbound: {
           today: {
             total: todayInboundTotal,
-            completed: todayInboundCompleted,
-            transferred: todayInboundTransferred,
-            aiHandledRate,
+            completed: today.inbound.completed,
+            transferred: today.inbound.transferred,
+            aiHandledRate: today.inbound.aiHandledRate,
           },
           yesterday: {
             total: yesterdayInboundTotal,
-            completed: yesterdayInboundCompleted,
+            completed: yesterday.inbound.completed,
           },
           trend: inboundTrend,
           changePercent: inboundChange,
         },
         outbound: {
           today: {
-            total: todayOutboundTotal,
+            total: today.outbound.total,
             completed: todayOutboundCompleted,
-            voicemail: todayOutboundVoicemail,
-            successful: todayOutboundSuccessful,
-            successRate: outboundSuccessRate,
+            voicemail: today.outbound.voicemail,
+            successful: today.outbound.successful,
+            successRate: today.outbound.successRate,
           },
           yesterday: {
-            total: yesterdayOutboundTotal,
+            total: yesterday.outbound.total,
             completed: yesterdayOutboundCompleted,
           },
           trend: outboundTrend,
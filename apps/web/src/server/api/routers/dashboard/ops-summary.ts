@@ -0,0 +1,480 @@
+/**
+ * Dashboard Ops Summary
+ *
+ * Clinic-scoped queries behind getTodayStats, getCriticalActions and
+ * getFailedCalls. Shared with the Slack morning digest and /odis slash
+ * commands so both report the same numbers as the dashboard.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { endOfDay, startOfDay, subHours } from "date-fns";
+import {
+  buildClinicScopeFilter,
+  getClinicUserIdsEnhanced,
+} from "@odis-ai/domain/clinics";
+import type { Database } from "@odis-ai/shared/types";
+
+type Supabase = SupabaseClient<Database>;
+
+// Type for call analysis structure
+export interface CallAnalysisStructuredData {
+  needsAttention?: {
+    flagged?: boolean;
+    type?: string;
+    severity?: string;
+    summary?: string;
+  };
+  wentToVoicemail?: boolean;
+  appointmentScheduled?: boolean;
+}
+
+export interface CallAnalysis {
+  summary?: string;
+  structuredData?: CallAnalysisStructuredData;
+  successEvaluation?: boolean | string;
+}
+
+/**
+ * Which records belong to the clinic
+ */
+export interface ClinicScope {
+  clinicId?: string | null;
+  /** inbound_vapi_calls are matched by clinic name */
+  clinicName?: string | null;
+  clinicUserIds: string[];
+}
+
+/**
+ * Inbound and outbound call metrics for one day
+ */
+export async function getDayCallStats(
+  supabase: Supabase,
+  scope: ClinicScope,
+  day: Date,
+) {
+  const dayStart = startOfDay(day);
+  const dayEnd = endOfDay(day);
+
+  let inboundQuery = supabase
+    .from("inbound_vapi_calls")
+    .select("id, status")
+    .gte("created_at", dayStart.toISOString())
+    .lte("created_at", dayEnd.toISOString());
+
+  if (scope.clinicName) {
+    inboundQuery = inboundQuery.eq("clinic_name", scope.clinicName);
+  }
+
+  const { data: inbound } = await inboundQuery;
+
+  const inboundTotal = inbound?.length ?? 0;
+  const inboundCompleted =
+    inbound?.filter((c) => c.status === "completed").length ?? 0;
+  const inboundTransferred =
+    inbound?.filter((c) => c.status === "transferred").length ?? 0;
+
+  const { data: outbound } = await supabase
+    .from("scheduled_discharge_calls")
+    .select("id, status, call_analysis, success_evaluation")
+    .or(buildClinicScopeFilter(scope.clinicId, scope.clinicUserIds))
+    .gte("created_at", dayStart.toISOString())
+    .lte("created_at", dayEnd.toISOString());
+
+  const outboundTotal = outbound?.length ?? 0;
+  const outboundCompleted =
+    outbound?.filter((c) => c.status === "completed").length ?? 0;
+
+  const outboundVoicemail =
+    outbound?.filter((c) => {
+      if (c.status !== "completed") return false;
+      const analysis = c.call_analysis as CallAnalysis | null;
+      return analysis?.structuredData?.wentToVoicemail === true;
+    }).length ?? 0;
+
+  const outboundSuccessful =
+    outbound?.filter((c) => {
+      if (c.status !== "completed") return false;
+      return c.success_evaluation === "true";
+    }).length ?? 0;
+
+  const outboundFailed =
+    outbound?.filter((c) => c.status === "failed").length ?? 0;
+
+  return {
+    inbound: {
+      total: inboundTotal,
+      completed: inboundCompleted,
+      transferred: inboundTransferred,
+      aiHandledRate:
+        inboundTotal > 0
+          ? Math.round((inboundCompleted / inboundTotal) * 100)
+          : 0,
+    },
+    outbound: {
+      total: outboundTotal,
+      completed: outboundCompleted,
+      voicemail: outboundVoicemail,
+      successful: outboundSuccessful,
+      failed: outboundFailed,
+      successRate:
+        outboundCompleted > 0
+          ? Math.round((outboundSuccessful / outboundCompleted) * 100)
+          : 0,
+    },
+  };
+}
+
+/**
+ * Cases and calls that need immediate attention
+ */
+export async function getCriticalActionsSummary(
+  supabase: Supabase,
+  scope: ClinicScope,
+) {
+  const last24Hours = subHours(new Date(), 24);
+
+  // Get cases missing contact info (clinic-scoped)
+  const { data: casesWithMissingContact } = await supabase
+    .from("cases")
+    .select(
+      `
+    id,
+    status,
+    created_at,
+    patients(id, name, owner_name, owner_phone, owner_email)
+  `,
+    )
+    .or(buildClinicScopeFilter(scope.clinicId, scope.clinicUserIds))
+    .in("status", ["ongoing", "draft"]);
+
+  const missingContactCases =
+    casesWithMissingContact?.filter((c) => {
+      const patient = Array.isArray(c.patients) ? c.patients[0] : c.patients;
+      if (!patient) return true;
+      return !patient.owner_phone && !patient.owner_email;
+    }) ?? [];
+
+  // Get failed calls in last 24 hours (clinic-scoped)
+  const { data: failedCalls } = await supabase
+    .from("scheduled_discharge_calls")
+    .select(
+      `
+    id,
+    status,
+    created_at,
+    scheduled_for,
+    dynamic_variables,
+    case_id,
+    cases(id, patients(name, owner_name))
+  `,
+    )
+    .or(buildClinicScopeFilter(scope.clinicId, scope.clinicUserIds))
+    .eq("status", "failed")
+    .gte("created_at", last24Hours.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(10);
+
+  // Get calls with health concerns or emergency flags (clinic-scoped)
+  const { data: concernCalls } = await supabase
+    .from("scheduled_discharge_calls")
+    .select(
+      `
+    id,
+    status,
+    ended_at,
+    call_analysis,
+    dynamic_variables,
+    case_id,
+    cases(id, patients(name, owner_name))
+  `,
+    )
+    .or(buildClinicScopeFilter(scope.clinicId, scope.clinicUserIds))
+    .eq("status", "completed")
+    .gte("ended_at", last24Hours.toISOString())
+    .order("ended_at", { ascending: false });
+
+  // Filter for health concerns, emergency signs, or dissatisfaction
+  const healthConcernCalls =
+    concernCalls?.filter((call) => {
+      const analysis = call.call_analysis as CallAnalysis | null;
+      const structuredData = analysis?.structuredData;
+      if (!structuredData?.needsAttention?.flagged) return false;
+      const type = structuredData.needsAttention.type?.toLowerCase() ?? "";
+      return (
+        type.includes("health") ||
+        type.includes("emergency") ||
+        type.includes("dissatisfaction")
+      );
+    }) ?? [];
+
+  // Get callback requests
+  const callbackRequests =
+    concernCalls?.filter((call) => {
+      const analysis = call.call_analysis as CallAnalysis | null;
+      const structuredData = analysis?.structuredData;
+      return (
+        structuredData?.needsAttention?.flagged &&
+        structuredData.needsAttention.type?.toLowerCase().includes("callback")
+      );
+    }) ?? [];
+
+  const totalCritical =
+    missingContactCases.length +
+    (failedCalls?.length ?? 0) +
+    healthConcernCalls.length;
+
+  return {
+    totalCritical,
+    missingContact: {
+      count: missingContactCases.length,
+      cases: missingContactCases.slice(0, 5).map((c) => {
+        const patient = Array.isArray(c.patients) ? c.patients[0] : c.patients;
+        return {
+          id: c.id,
+          petName: patient?.name ?? "Unknown",
+          ownerName: patient?.owner_name ?? "Unknown",
+          createdAt: c.created_at,
+        };
+      }),
+    },
+    failedCalls: {
+      count: failedCalls?.length ?? 0,
+      calls:
+        failedCalls?.slice(0, 5).map((call) => {
+          const caseData = Array.isArray(call.cases)
+            ? call.cases[0]
+            : call.cases;
+          const patient = caseData?.patients
+            ? Array.isArray(caseData.patients)
+              ? caseData.patients[0]
+              : caseData.patients
+            : null;
+          const dynamicVars = call.dynamic_variables as Record<
+            string,
+            string
+          > | null;
+          return {
+            id: call.id,
+            caseId: call.case_id,
+            petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
+            ownerName:
+              dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
+            scheduledFor: call.scheduled_for,
+            createdAt: call.created_at,
+          };
+        }) ?? [],
+    },
+    healthConcerns: {
+      count: healthConcernCalls.length,
+      calls: healthConcernCalls.slice(0, 5).map((call) => {
+        const caseData = Array.isArray(call.cases) ? call.cases[0] : call.cases;
+        const patient = caseData?.patients
+          ? Array.isArray(caseData.patients)
+            ? caseData.patients[0]
+            : caseData.patients
+          : null;
+        const dynamicVars = call.dynamic_variables as Record<
+          string,
+          string
+        > | null;
+        const analysis = call.call_analysis as CallAnalysis | null;
+        return {
+          id: call.id,
+          caseId: call.case_id,
+          petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
+          ownerName:
+            dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
+          concernType:
+            analysis?.structuredData?.needsAttention?.type ?? "Unknown",
+          severity:
+            analysis?.structuredData?.needsAttention?.severity ?? "routine",
+          summary:
+            analysis?.structuredData?.needsAttention?.summary ??
+            analysis?.summary ??
+            "",
+          endedAt: call.ended_at,
+        };
+      }),
+    },
+    callbackRequests: {
+      count: callbackRequests.length,
+      calls: callbackRequests.slice(0, 5).map((call) => {
+        const caseData = Array.isArray(call.cases) ? call.cases[0] : call.cases;
+        const patient = caseData?.patients
+          ? Array.isArray(caseData.patients)
+            ? caseData.patients[0]
+            : caseData.patients
+          : null;
+        const dynamicVars = call.dynamic_variables as Record<
+          string,
+          string
+        > | null;
+        return {
+          id: call.id,
+          caseId: call.case_id,
+          petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
+          ownerName:
+            dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
+          endedAt: call.ended_at,
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * Failed discharge calls in the last `hoursBack` hours
+ */
+export async function getFailedCallsSummary(
+  supabase: Supabase,
+  scope: ClinicScope,
+  options: { limit: number; hoursBack: number },
+) {
+  const cutoffTime = subHours(new Date(), options.hoursBack);
+
+  const { data: failedCalls } = await supabase
+    .from("scheduled_discharge_calls")
+    .select(
+      `
+      id,
+      status,
+      created_at,
+      scheduled_for,
+      duration_seconds,
+      cost,
+      dynamic_variables,
+      case_id,
+      cases(
+        id,
+        type,
+        patients(name, owner_name, owner_phone, owner_email, species)
+      )
+    `,
+    )
+    .or(buildClinicScopeFilter(scope.clinicId, scope.clinicUserIds))
+    .eq("status", "failed")
+    .gte("created_at", cutoffTime.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(options.limit);
+
+  // Also get count of all failed calls in period (clinic-scoped)
+  const { count: totalCount } = await supabase
+    .from("scheduled_discharge_calls")
+    .select("id", { count: "exact", head: true })
+    .or(buildClinicScopeFilter(scope.clinicId, scope.clinicUserIds))
+    .eq("status", "failed")
+    .gte("created_at", cutoffTime.toISOString());
+
+  // Calculate wasted cost
+  const wastedCost =
+    failedCalls?.reduce((sum, c) => sum + (Number(c.cost) ?? 0), 0) ?? 0;
+
+  return {
+    totalCount: totalCount ?? 0,
+    wastedCost: Math.round(wastedCost * 100) / 100,
+    calls:
+      failedCalls?.map((call) => {
+        const caseData = Array.isArray(call.cases) ? call.cases[0] : call.cases;
+        const patient = caseData?.patients
+          ? Array.isArray(caseData.patients)
+            ? caseData.patients[0]
+            : caseData.patients
+          : null;
+        const dynamicVars = call.dynamic_variables as Record<
+          string,
+          string
+        > | null;
+
+        return {
+          id: call.id,
+          caseId: call.case_id,
+          caseType: caseData?.type ?? "checkup",
+          petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
+          ownerName:
+            dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
+          ownerPhone: patient?.owner_phone ?? null,
+          ownerEmail: patient?.owner_email ?? null,
+          species: patient?.species ?? "unknown",
+          scheduledFor: call.scheduled_for,
+          createdAt: call.created_at,
+          duration: call.duration_seconds,
+          cost: Number(call.cost) ?? 0,
+        };
+      }) ?? [],
+  };
+}
+
+/**
+ * Discharge calls and emails still queued for a day
+ */
+export async function getScheduledOutreach(
+  supabase: Supabase,
+  scope: ClinicScope,
+  day: Date,
+) {
+  const dayStart = startOfDay(day);
+  const dayEnd = endOfDay(day);
+  const scopeFilter = buildClinicScopeFilter(
+    scope.clinicId,
+    scope.clinicUserIds,
+  );
+
+  const [{ count: calls }, { count: emails }] = await Promise.all([
+    supabase
+      .from("scheduled_discharge_calls")
+      .select("id", { count: "exact", head: true })
+      .or(scopeFilter)
+      .eq("status", "queued")
+      .gte("scheduled_for", dayStart.toISOString())
+      .lte("scheduled_for", dayEnd.toISOString()),
+    supabase
+      .from("scheduled_discharge_emails")
+      .select("id", { count: "exact", head: true })
+      .or(scopeFilter)
+      .eq("status", "queued")
+      .gte("scheduled_for", dayStart.toISOString())
+      .lte("scheduled_for", dayEnd.toISOString()),
+  ]);
+
+  return { calls: calls ?? 0, emails: emails ?? 0 };
+}
+
+/**
+ * Call stats, attention counts and queued outreach for a clinic
+ *
+ * Used by the Slack morning digest (yesterday's stats) and /odis today.
+ */
+export async function getClinicOpsSnapshot(
+  supabase: Supabase,
+  clinic: { id: string; name: string },
+  options: { statsDay: Date; outreachDay: Date },
+) {
+  const scope: ClinicScope = {
+    clinicId: clinic.id,
+    clinicName: clinic.name,
+    clinicUserIds: await getClinicUserIdsEnhanced(clinic.id, supabase),
+  };
+
+  const [stats, critical, scheduled] = await Promise.all([
+    getDayCallStats(supabase, scope, options.statsDay),
+    getCriticalActionsSummary(supabase, scope),
+    getScheduledOutreach(supabase, scope, options.outreachDay),
+  ]);
+
+  return {
+    stats,
+    attention: {
+      totalCritical: critical.totalCritical,
+      missingContact: critical.missingContact.count,
+      failedCalls: critical.failedCalls.count,
+      healthConcerns: critical.healthConcerns.count,
+      callbackRequests: critical.callbackRequests.count,
+      topConcerns: critical.healthConcerns.calls.slice(0, 3).map((call) => ({
+        petName: call.petName,
+        ownerName: call.ownerName,
+        summary: call.summary,
+      })),
+    },
+    scheduled,
+  };
+}
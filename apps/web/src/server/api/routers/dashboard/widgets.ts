@@ -16,24 +16,11 @@ import {
   buildClinicScopeFilter,
 } from "@odis-ai/domain/clinics";
 import { TRPCError } from "@trpc/server";
-
-// Type for call analysis structure
-interface CallAnalysisStructuredData {
-  needsAttention?: {
-    flagged?: boolean;
-    type?: string;
-    severity?: string;
-    summary?: string;
-  };
-  wentToVoicemail?: boolean;
-  appointmentScheduled?: boolean;
-}
-
-interface CallAnalysis {
-  summary?: string;
-  structuredData?: CallAnalysisStructuredData;
-  successEvaluation?: boolean | string;
-}
+import {
+  getCriticalActionsSummary,
+  getFailedCallsSummary,
+  type CallAnalysis,
+} from "./ops-summary";
 
 export const widgetsRouter = createTRPCRouter({
   /**
@@ -74,205 +61,10 @@ export const widgetsRouter = createTRPCRouter({
         ? await getClinicUserIdsEnhanced(clinic.id, ctx.supabase)
         : await getClinicUserIds(userId, ctx.supabase);
 
-      const last24Hours = subHours(new Date(), 24);
-
-      // Get cases missing contact info (clinic-scoped)
-      const { data: casesWithMissingContact } = await ctx.supabase
-        .from("cases")
-        .select(
-          `
-        id,
-        status,
-        created_at,
-        patients(id, name, owner_name, owner_phone, owner_email)
-      `,
-        )
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
-        .in("status", ["ongoing", "draft"]);
-
-      const missingContactCases =
-        casesWithMissingContact?.filter((c) => {
-          const patient = Array.isArray(c.patients)
-            ? c.patients[0]
-            : c.patients;
-          if (!patient) return true;
-          return !patient.owner_phone && !patient.owner_email;
-        }) ?? [];
-
-      // Get failed calls in last 24 hours (clinic-scoped)
-      const { data: failedCalls } = await ctx.supabase
-        .from("scheduled_discharge_calls")
-        .select(
-          `
-        id,
-        status,
-        created_at,
-        scheduled_for,
-        dynamic_variables,
-        case_id,
-        cases(id, patients(name, owner_name))
-      `,
-        )
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
-        .eq("status", "failed")
-        .gte("created_at", last24Hours.toISOString())
-        .order("created_at", { ascending: false })
-        .limit(10);
-
-      // Get calls with health concerns or emergency flags (clinic-scoped)
-      const { data: concernCalls } = await ctx.supabase
-        .from("scheduled_discharge_calls")
-        .select(
-          `
-        id,
-        status,
-        ended_at,
-        call_analysis,
-        dynamic_variables,
-        case_id,
-        cases(id, patients(name, owner_name))
-      `,
-        )
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
-        .eq("status", "completed")
-        .gte("ended_at", last24Hours.toISOString())
-        .order("ended_at", { ascending: false });
-
-      // Filter for health concerns, emergency signs, or dissatisfaction
-      const healthConcernCalls =
-        concernCalls?.filter((call) => {
-          const analysis = call.call_analysis as CallAnalysis | null;
-          const structuredData = analysis?.structuredData;
-          if (!structuredData?.needsAttention?.flagged) return false;
-          const type = structuredData.needsAttention.type?.toLowerCase() ?? "";
-          return (
-            type.includes("health") ||
-            type.includes("emergency") ||
-            type.includes("dissatisfaction")
-          );
-        }) ?? [];
-
-      // Get callback requests
-      const callbackRequests =
-        concernCalls?.filter((call) => {
-          const analysis = call.call_analysis as CallAnalysis | null;
-          const structuredData = analysis?.structuredData;
-          return (
-            structuredData?.needsAttention?.flagged &&
-            structuredData.needsAttention.type
-              ?.toLowerCase()
-              .includes("callback")
-          );
-        }) ?? [];
-
-      const totalCritical =
-        missingContactCases.length +
-        (failedCalls?.length ?? 0) +
-        healthConcernCalls.length;
-
-      return {
-        totalCritical,
-        missingContact: {
-          count: missingContactCases.length,
-          cases: missingContactCases.slice(0, 5).map((c) => {
-            const patient = Array.isArray(c.patients)
-              ? c.patients[0]
-              : c.patients;
-            return {
-              id: c.id,
-              petName: patient?.name ?? "Unknown",
-              ownerName: patient?.owner_name ?? "Unknown",
-              createdAt: c.created_at,
-            };
-          }),
-        },
-        failedCalls: {
-          count: failedCalls?.length ?? 0,
-          calls:
-            failedCalls?.slice(0, 5).map((call) => {
-              const caseData = Array.isArray(call.cases)
-                ? call.cases[0]
-                : call.cases;
-              const patient = caseData?.patients
-                ? Array.isArray(caseData.patients)
-                  ? caseData.patients[0]
-                  : caseData.patients
-                : null;
-              const dynamicVars = call.dynamic_variables as Record<
-                string,
-                string
-              > | null;
-              return {
-                id: call.id,
-                caseId: call.case_id,
-                petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
-                ownerName:
-                  dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
-                scheduledFor: call.scheduled_for,
-                createdAt: call.created_at,
-              };
-            }) ?? [],
-        },
-        healthConcerns: {
-          count: healthConcernCalls.length,
-          calls: healthConcernCalls.slice(0, 5).map((call) => {
-            const caseData = Array.isArray(call.cases)
-              ? call.cases[0]
-              : call.cases;
-            const patient = caseData?.patients
-              ? Array.isArray(caseData.patients)
-                ? caseData.patients[0]
-                : caseData.patients
-              : null;
-            const dynamicVars = call.dynamic_variables as Record<
-              string,
-              string
-            > | null;
-            const analysis = call.call_analysis as CallAnalysis | null;
-            return {
-              id: call.id,
-              caseId: call.case_id,
-              petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
-              ownerName:
-                dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
-              concernType:
-                analysis?.structuredData?.needsAttention?.type ?? "Unknown",
-              severity:
-                analysis?.structuredData?.needsAttention?.severity ?? "routine",
-              summary:
-                analysis?.structuredData?.needsAttention?.summary ??
-                analysis?.summary ??
-                "",
-              endedAt: call.ended_at,
-            };
-          }),
-        },
-        callbackRequests: {
-          count: callbackRequests.length,
-          calls: callbackRequests.slice(0, 5).map((call) => {
-            const caseData = Array.isArray(call.cases)
-              ? call.cases[0]
-              : call.cases;
-            const patient = caseData?.patients
-              ? Array.isArray(caseData.patients)
-                ? caseData.patients[0]
-                : caseData.patients
-              : null;
-            const dynamicVars = call.dynamic_variables as Record<
-              string,
-              string
-            > | null;
-            return {
-              id: call.id,
-              caseId: call.case_id,
-              petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
-              ownerName:
-                dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
-              endedAt: call.ended_at,
-            };
-          }),
-        },
-      };
+      return getCriticalActionsSummary(ctx.supabase, {
+        clinicId: clinic?.id,
+        clinicUserIds,
+      });
     }),
 
   /**
@@ -491,80 +283,11 @@ export const widgetsRouter = createTRPCRouter({
         ? await getClinicUserIdsEnhanced(clinic.id, ctx.supabase)
         : await getClinicUserIds(userId, ctx.supabase);
 
-      const cutoffTime = subHours(new Date(), input.hoursBack);
-
-      const { data: failedCalls } = await ctx.supabase
-        .from("scheduled_discharge_calls")
-        .select(
-          `
-          id,
-          status,
-          created_at,
-          scheduled_for,
-          duration_seconds,
-          cost,
-          dynamic_variables,
-          case_id,
-          cases(
-            id,
-            type,
-            patients(name, owner_name, owner_phone, owner_email, species)
-          )
-        `,
-        )
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
-        .eq("status", "failed")
-        .gte("created_at", cutoffTime.toISOString())
-        .order("created_at", { ascending: false })
-        .limit(input.limit);
-
-      // Also get count of all failed calls in period (clinic-scoped)
-      const { count: totalCount } = await ctx.supabase
-        .from("scheduled_discharge_calls")
-        .select("id", { count: "exact", head: true })
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
-        .eq("status", "failed")
-        .gte("created_at", cutoffTime.toISOString());
-
-      // Calculate wasted cost
-      const wastedCost =
-        failedCalls?.reduce((sum, c) => sum + (Number(c.cost) ?? 0), 0) ?? 0;
-
-      return {
-        totalCount: totalCount ?? 0,
-        wastedCost: Math.round(wastedCost * 100) / 100,
-        calls:
-          failedCalls?.map((call) => {
-            const caseData = Array.isArray(call.cases)
-              ? call.cases[0]
-              : call.cases;
-            const patient = caseData?.patients
-              ? Array.isArray(caseData.patients)
-                ? caseData.patients[0]
-                : caseData.patients
-              : null;
-            const dynamicVars = call.dynamic_variables as Record<
-              string,
-              string
-            > | null;
-
-            return {
-              id: call.id,
-              caseId: call.case_id,
-              caseType: caseData?.type ?? "checkup",
-              petName: dynamicVars?.pet_name ?? patient?.name ?? "Unknown",
-              ownerName:
-                dynamicVars?.owner_name ?? patient?.owner_name ?? "Unknown",
-              ownerPhone: patient?.owner_phone ?? null,
-              ownerEmail: patient?.owner_email ?? null,
-              species: patient?.species ?? "unknown",
-              scheduledFor: call.scheduled_for,
-              createdAt: call.created_at,
-              duration: call.duration_seconds,
-              cost: Number(call.cost) ?? 0,
-            };
-          }) ?? [],
-      };
+      return getFailedCallsSummary(
+        ctx.supabase,
+        { clinicId: clinic?.id, clinicUserIds },
+        { limit: input.limit, hoursBack: input.hoursBack },
+      );
     }),
 
   /**
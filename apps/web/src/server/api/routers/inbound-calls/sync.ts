@@ -9,6 +9,7 @@
  */
 
 import { TRPCError } from "@trpc/server";
+import type { Database } from "@odis-ai/shared/types";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { getUserWithClinic, isAdminOrOwner } from "./helpers";
 import {
@@ -18,6 +19,8 @@ import {
   batchSyncFromVAPIInput,
 } from "./schemas";
 
+type Tables = Database["public"]["Tables"];
+
 export const syncRouter = createTRPCRouter({
   /**
    * Fetch call data directly from VAPI API
@@ -290,7 +293,7 @@ export const syncRouter = createTRPCRouter({
           hasAnalysis: !!vapiCall.analysis,
         });
 
-        const updateData: Record<string, unknown> = {};
+        const updateData: Tables["inbound_vapi_calls"]["Update"] = {};
         const fieldsUpdated: string[] = [];
 
         if (
@@ -470,7 +473,7 @@ export const syncRouter = createTRPCRouter({
         try {
           const vapiCall = await getCall(call.vapi_call_id);
 
-          const updateData: Record<string, unknown> = {};
+          const updateData: Tables["inbound_vapi_calls"]["Update"] = {};
           const fieldsUpdated: string[] = [];
 
           if (
@@ -0,0 +1,200 @@
+/**
+ * Appointment Waitlist Procedures
+ *
+ * Clients waiting for a cancellation, added by the phone agent or by staff:
+ * - List entries with their latest offer
+ * - Add an entry from the dashboard
+ * - Remove an entry
+ *
+ * Offers themselves are made in the background when a slot frees up.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { getClinicByUserId } from "@odis-ai/domain/clinics";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { normalizeToE164 } from "@odis-ai/shared/util/phone";
+import { parseWaitlistRanges } from "@odis-ai/integrations/vapi/processors/appointments/waitlist";
+import type { Tables } from "@odis-ai/shared/types";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import {
+  addWaitlistEntryInput,
+  listWaitlistInput,
+  removeWaitlistEntryInput,
+} from "../schemas";
+
+/** Offer columns embedded in each waitlist row */
+type WaitlistOfferSummary = Pick<
+  Tables<"appointment_waitlist_offers">,
+  "id" | "status" | "channel" | "slot_start" | "expires_at" | "created_at"
+>;
+
+async function requireClinic(
+  serviceClient: SupabaseClientType,
+  userId: string,
+) {
+  const clinic = await getClinicByUserId(userId, serviceClient);
+  if (!clinic?.id) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "User clinic not found",
+    });
+  }
+  return clinic;
+}
+
+export const appointmentWaitlistRouter = createTRPCRouter({
+  /**
+   * List waitlist entries for the user's clinic, oldest first
+   * Without a status filter, removed entries are left out.
+   */
+  listWaitlist: protectedProcedure
+    .input(listWaitlistInput)
+    .query(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const clinic = await getClinicByUserId(ctx.user.id, serviceClient);
+
+      if (!clinic?.id) {
+        return { entries: [] };
+      }
+
+      let query = serviceClient
+        .from("appointment_waitlist")
+        .select(
+          "*, offers:appointment_waitlist_offers(id, status, channel, slot_start, expires_at, created_at)",
+        )
+        .eq("clinic_id", clinic.id)
+        .order("created_at", { ascending: true });
+
+      query = input.status
+        ? query.eq("status", input.status)
+        : query.neq("status", "removed");
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to fetch waitlist: ${error.message}`,
+        });
+      }
+
+      const entries = (data ?? []).map((row) => {
+        const offers: WaitlistOfferSummary[] = row.offers ?? [];
+        const latestOffer =
+          [...offers].sort((a, b) =>
+            b.created_at.localeCompare(a.created_at),
+          )[0] ?? null;
+
+        return {
+          id: row.id,
+          clientName: row.client_name,
+          clientPhone: row.client_phone,
+          patientName: row.patient_name,
+          species: row.species,
+          reason: row.reason,
+          appointmentType: row.appointment_type,
+          isNewClient: row.is_new_client,
+          preferredRanges: parseWaitlistRanges(row.preferred_ranges),
+          contactMethod: row.contact_method,
+          status: row.status,
+          source: row.source,
+          notes: row.notes,
+          createdAt: row.created_at,
+          offerCount: offers.length,
+          latestOffer: latestOffer
+            ? {
+                id: latestOffer.id,
+                status: latestOffer.status,
+                channel: latestOffer.channel,
+                slotStart: latestOffer.slot_start,
+                expiresAt: latestOffer.expires_at,
+              }
+            : null,
+        };
+      });
+
+      return { entries };
+    }),
+
+  /**
+   * Add a client to the waitlist from the dashboard
+   */
+  addWaitlistEntry: protectedProcedure
+    .input(addWaitlistEntryInput)
+    .mutation(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const clinic = await requireClinic(serviceClient, ctx.user.id);
+
+      const clientPhone = normalizeToE164(input.clientPhone);
+      if (!clientPhone) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Invalid phone number",
+        });
+      }
+
+      const { data, error } = await serviceClient
+        .from("appointment_waitlist")
+        .insert({
+          clinic_id: clinic.id,
+          client_name: input.clientName,
+          client_phone: clientPhone,
+          patient_name: input.patientName,
+          species: input.species ?? null,
+          reason: input.reason ?? null,
+          appointment_type: input.appointmentType ?? null,
+          is_new_client: input.isNewClient,
+          preferred_ranges: input.preferredRanges,
+          contact_method: input.contactMethod,
+          notes: input.notes ?? null,
+          source: "dashboard",
+          created_by: ctx.user.id,
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to add waitlist entry: ${error.message}`,
+        });
+      }
+
+      return { success: true, id: data.id };
+    }),
+
+  /**
+   * Take a client off the waitlist
+   * A pending offer keeps its hold until it is answered or expires.
+   */
+  removeWaitlistEntry: protectedProcedure
+    .input(removeWaitlistEntryInput)
+    .mutation(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const clinic = await requireClinic(serviceClient, ctx.user.id);
+
+      const { data, error } = await serviceClient
+        .from("appointment_waitlist")
+        .update({ status: "removed" })
+        .eq("id", input.entryId)
+        .eq("clinic_id", clinic.id)
+        .select("id")
+        .maybeSingle();
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to remove waitlist entry: ${error.message}`,
+        });
+      }
+      if (!data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Waitlist entry not found or access denied",
+        });
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,375 @@
+/**
+ * SMS Conversations Procedures
+ *
+ * Two-way text threads between the clinic and pet owners:
+ * - List threads (urgent first) and read a thread with its case context
+ * - Send staff replies
+ * - Draft replies with AI, grounded in the case's discharge summary
+ */
+
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { getClinicByUserId } from "@odis-ai/domain/clinics";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import {
+  getSmsClient,
+  getSmsStatusCallbackUrl,
+  recordOutboundSms,
+} from "@odis-ai/integrations/sms";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import {
+  getSmsConversationInput,
+  listSmsConversationsInput,
+  sendSmsReplyInput,
+  suggestSmsReplyInput,
+  updateSmsConversationInput,
+} from "../schemas";
+
+/** Messages included when drafting an AI reply */
+const SUGGESTION_CONTEXT_MESSAGES = 20;
+
+/**
+ * Load a conversation, verifying it belongs to the user's clinic
+ */
+async function getOwnedConversation(
+  serviceClient: SupabaseClientType,
+  userId: string,
+  conversationId: string,
+) {
+  const clinic = await getClinicByUserId(userId, serviceClient);
+  if (!clinic?.id) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "User clinic not found",
+    });
+  }
+
+  const { data: conversation, error } = await serviceClient
+    .from("sms_conversations")
+    .select("*")
+    .eq("id", conversationId)
+    .eq("clinic_id", clinic.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch conversation: ${error.message}`,
+    });
+  }
+  if (!conversation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Conversation not found or access denied",
+    });
+  }
+
+  return { clinic, conversation };
+}
+
+export const smsConversationsRouter = createTRPCRouter({
+  /**
+   * List SMS threads for the user's clinic, most recent first
+   */
+  listSmsConversations: protectedProcedure
+    .input(listSmsConversationsInput)
+    .query(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const clinic = await getClinicByUserId(ctx.user.id, serviceClient);
+
+      if (!clinic?.id) {
+        return {
+          conversations: [],
+          pagination: {
+            page: input.page,
+            pageSize: input.pageSize,
+            total: 0,
+            totalPages: 0,
+          },
+        };
+      }
+
+      let query = serviceClient
+        .from("sms_conversations")
+        .select("*, patient:patients(id, name, species)", { count: "exact" })
+        .eq("clinic_id", clinic.id)
+        .order("last_message_at", { ascending: false, nullsFirst: false });
+
+      if (input.status) {
+        query = query.eq("status", input.status);
+      }
+
+      if (input.urgency) {
+        query = query.eq("urgency", input.urgency);
+      }
+
+      if (input.search) {
+        query = query.or(
+          `owner_name.ilike.%${input.search}%,owner_phone.ilike.%${input.search}%,last_message_preview.ilike.%${input.search}%`,
+        );
+      }
+
+      const from = (input.page - 1) * input.pageSize;
+      const to = from + input.pageSize - 1;
+      query = query.range(from, to);
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to fetch conversations: ${error.message}`,
+        });
+      }
+
+      const conversations = (data ?? []).map((row) => ({
+        id: row.id,
+        ownerName: row.owner_name,
+        ownerPhone: row.owner_phone,
+        patientName: row.patient?.name ?? null,
+        species: row.patient?.species ?? null,
+        caseId: row.case_id,
+        status: row.status,
+        urgency: row.urgency,
+        unreadCount: row.unread_count,
+        lastMessageAt: row.last_message_at,
+        lastMessagePreview: row.last_message_preview,
+      }));
+
+      const total = count ?? conversations.length;
+      return {
+        conversations,
+        pagination: {
+          page: input.page,
+          pageSize: input.pageSize,
+          total,
+          totalPages: Math.ceil(total / input.pageSize),
+        },
+      };
+    }),
+
+  /**
+   * Get a thread with its messages and marks it read
+   */
+  getSmsConversation: protectedProcedure
+    .input(getSmsConversationInput)
+    .query(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const { conversation } = await getOwnedConversation(
+        serviceClient,
+        ctx.user.id,
+        input.conversationId,
+      );
+
+      const [{ data: messages, error }, { data: patient }] = await Promise.all([
+        serviceClient
+          .from("sms_messages")
+          .select("*")
+          .eq("conversation_id", conversation.id)
+          .order("created_at", { ascending: true }),
+        conversation.patient_id
+          ? serviceClient
+              .from("patients")
+              .select("id, name, species, breed")
+              .eq("id", conversation.patient_id)
+              .maybeSingle()
+          : Promise.resolve({ data: null }),
+      ]);
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to fetch messages: ${error.message}`,
+        });
+      }
+
+      if (conversation.unread_count > 0) {
+        await serviceClient
+          .from("sms_conversations")
+          .update({ unread_count: 0 })
+          .eq("id", conversation.id);
+      }
+
+      return {
+        id: conversation.id,
+        ownerName: conversation.owner_name,
+        ownerPhone: conversation.owner_phone,
+        caseId: conversation.case_id,
+        clientId: conversation.client_id,
+        patient: patient
+          ? {
+              id: patient.id,
+              name: patient.name,
+              species: patient.species,
+              breed: patient.breed,
+            }
+          : null,
+        status: conversation.status,
+        urgency: conversation.urgency,
+        messages: (messages ?? []).map((m) => ({
+          id: m.id,
+          direction: m.direction,
+          body: m.body,
+          status: m.status,
+          urgency: m.urgency,
+          urgencyKeywords: m.urgency_keywords ?? [],
+          aiSuggested: m.ai_suggested,
+          isDischargeText: m.scheduled_sms_id !== null,
+          createdAt: m.created_at,
+        })),
+      };
+    }),
+
+  /**
+   * Send a staff reply in a thread
+   */
+  sendSmsReply: protectedProcedure
+    .input(sendSmsReplyInput)
+    .mutation(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const { conversation } = await getOwnedConversation(
+        serviceClient,
+        ctx.user.id,
+        input.conversationId,
+      );
+
+      const { data: optOut } = await serviceClient
+        .from("sms_opt_outs")
+        .select("phone_number")
+        .eq("phone_number", conversation.owner_phone)
+        .maybeSingle();
+
+      if (optOut) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "This number has opted out of text messages",
+        });
+      }
+
+      let response;
+      try {
+        response = await getSmsClient().send({
+          to: conversation.owner_phone,
+          body: input.body,
+          statusCallbackUrl: getSmsStatusCallbackUrl(),
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to send text: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+
+      const messageId = await recordOutboundSms(serviceClient, {
+        conversationId: conversation.id,
+        body: input.body,
+        status: response.status === "delivered" ? "delivered" : "sent",
+        providerMessageId: response.id,
+        sentByUserId: ctx.user.id,
+        aiSuggested: input.aiSuggested,
+      });
+
+      return { success: true, messageId };
+    }),
+
+  /**
+   * Draft a reply to the owner's latest text with AI
+   */
+  suggestSmsReply: protectedProcedure
+    .input(suggestSmsReplyInput)
+    .mutation(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const { clinic, conversation } = await getOwnedConversation(
+        serviceClient,
+        ctx.user.id,
+        input.conversationId,
+      );
+
+      const [{ data: messages }, { data: summary }, { data: patient }] =
+        await Promise.all([
+          serviceClient
+            .from("sms_messages")
+            .select("direction, body")
+            .eq("conversation_id", conversation.id)
+            .order("created_at", { ascending: false })
+            .limit(SUGGESTION_CONTEXT_MESSAGES),
+          conversation.case_id
+            ? serviceClient
+                .from("discharge_summaries")
+                .select("content")
+                .eq("case_id", conversation.case_id)
+                .order("created_at", { ascending: false })
+                .limit(1)
+                .maybeSingle()
+            : Promise.resolve({ data: null }),
+          conversation.patient_id
+            ? serviceClient
+                .from("patients")
+                .select("name")
+                .eq("id", conversation.patient_id)
+                .maybeSingle()
+            : Promise.resolve({ data: null }),
+        ]);
+
+      const { generateSmsReplySuggestion } =
+        await import("@odis-ai/integrations/ai/generate-sms-reply");
+
+      try {
+        const suggestion = await generateSmsReplySuggestion({
+          messages: (messages ?? []).reverse().map((m) => ({
+            direction: m.direction === "inbound" ? "inbound" : "outbound",
+            body: m.body,
+          })),
+          dischargeSummary: summary?.content ?? null,
+          patientName: patient?.name ?? null,
+          clinicName: clinic.name,
+          clinicPhone: clinic.phone,
+          urgency: conversation.urgency as
+            "critical" | "urgent" | "monitor" | null,
+        });
+
+        return {
+          suggestion,
+          groundedInDischargeSummary: !!summary?.content,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to suggest reply: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }),
+
+  /**
+   * Close or reopen a thread. Closing clears its urgency.
+   */
+  updateSmsConversation: protectedProcedure
+    .input(updateSmsConversationInput)
+    .mutation(async ({ ctx, input }) => {
+      const serviceClient = await createServiceClient();
+      const { conversation } = await getOwnedConversation(
+        serviceClient,
+        ctx.user.id,
+        input.conversationId,
+      );
+
+      const { error } = await serviceClient
+        .from("sms_conversations")
+        .update({
+          status: input.status,
+          ...(input.status === "closed"
+            ? { urgency: null, unread_count: 0 }
+            : {}),
+        })
+        .eq("id", conversation.id);
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to update conversation: ${error.message}`,
+        });
+      }
+
+      return { success: true };
+    }),
+});
@@ -5,6 +5,8 @@
  * - Appointment requests (from VAPI schedule-appointment tool)
  * - Statistics for dashboard
  * - Call associations for linking calls to appointments
+ * - Two-way SMS conversations with pet owners
+ * - Cancellation waitlist
  */
 
 import { createTRPCRouter } from "~/server/api/trpc";
@@ -16,6 +18,8 @@ import { callAssociationsRouter } from "./procedures/call-associations";
 import { clinicScheduleRouter } from "./procedures/clinic-schedule";
 import { confirmActionRouter } from "./procedures/confirm-action";
 import { getCallByIdRouter } from "./procedures/get-call-by-id";
+import { smsConversationsRouter } from "./procedures/sms-conversations";
+import { appointmentWaitlistRouter } from "./procedures/appointment-waitlist";
 
 export const inboundRouter = createTRPCRouter({
   // Queries
@@ -27,9 +31,17 @@ export const inboundRouter = createTRPCRouter({
   getBookingByVapiCallId: callAssociationsRouter.getBookingByVapiCallId,
   getClinicSchedule: clinicScheduleRouter.getClinicSchedule,
   getCallById: getCallByIdRouter.getCallById,
+  listSmsConversations: smsConversationsRouter.listSmsConversations,
+  getSmsConversation: smsConversationsRouter.getSmsConversation,
+  listWaitlist: appointmentWaitlistRouter.listWaitlist,
 
   // Mutations
   updateAppointmentRequest: updateAppointmentRouter.updateAppointmentRequest,
   deleteAppointmentRequest: deleteAppointmentRouter.deleteAppointmentRequest,
   confirmCallAction: confirmActionRouter.confirmCallAction,
+  sendSmsReply: smsConversationsRouter.sendSmsReply,
+  suggestSmsReply: smsConversationsRouter.suggestSmsReply,
+  updateSmsConversation: smsConversationsRouter.updateSmsConversation,
+  addWaitlistEntry: appointmentWaitlistRouter.addWaitlistEntry,
+  removeWaitlistEntry: appointmentWaitlistRouter.removeWaitlistEntry,
 });
@@ -4,9 +4,15 @@
  * Zod validation schemas for inbound data procedures:
  * - vapi_bookings (from VAPI schedule-appointment tool)
  * - clinic_messages (from VAPI leave-message tool)
+ * - sms_conversations (two-way text threads with pet owners)
+ * - appointment_waitlist (clients waiting for a cancellation)
  */
 
 import { z } from "zod";
+import {
+  waitlistEntrySchema,
+  waitlistStatusSchema,
+} from "@odis-ai/shared/validators";
 
 // =============================================================================
 // Enums
@@ -41,6 +47,11 @@ export const callStatusEnum = z.enum([
 
 export const userSentimentEnum = z.enum(["positive", "neutral", "negative"]);
 
+export const smsConversationStatusEnum = z.enum(["open", "closed"]);
+
+/** Same levels as emergency triage (schemas/triage.ts) */
+export const smsUrgencyEnum = z.enum(["critical", "urgent", "monitor"]);
+
 // =============================================================================
 // Input Schemas - Appointment Requests
 // =============================================================================
@@ -107,6 +118,51 @@ export const confirmCallActionInput = z.object({
   callId: z.string().uuid(),
 });
 
+// =============================================================================
+// Input Schemas - SMS Conversations
+// =============================================================================
+
+export const listSmsConversationsInput = z.object({
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(5).max(100).default(25),
+  status: smsConversationStatusEnum.optional(),
+  urgency: smsUrgencyEnum.optional(),
+  search: z.string().optional(),
+});
+
+export const getSmsConversationInput = z.object({
+  conversationId: z.string().uuid(),
+});
+
+export const sendSmsReplyInput = z.object({
+  conversationId: z.string().uuid(),
+  body: z.string().trim().min(1).max(1600),
+  aiSuggested: z.boolean().default(false),
+});
+
+export const suggestSmsReplyInput = z.object({
+  conversationId: z.string().uuid(),
+});
+
+export const updateSmsConversationInput = z.object({
+  conversationId: z.string().uuid(),
+  status: smsConversationStatusEnum,
+});
+
+// =============================================================================
+// Input Schemas - Appointment Waitlist
+// =============================================================================
+
+export const listWaitlistInput = z.object({
+  status: waitlistStatusSchema.optional(),
+});
+
+export const addWaitlistEntryInput = waitlistEntrySchema;
+
+export const removeWaitlistEntryInput = z.object({
+  entryId: z.string().uuid(),
+});
+
 // =============================================================================
 // Type Exports
 // =============================================================================
@@ -117,6 +173,8 @@ export type MessagePriority = z.infer<typeof messagePriorityEnum>;
 export type MessageType = z.infer<typeof messageTypeEnum>;
 export type CallStatus = z.infer<typeof callStatusEnum>;
 export type UserSentiment = z.infer<typeof userSentimentEnum>;
+export type SmsConversationStatus = z.infer<typeof smsConversationStatusEnum>;
+export type SmsUrgency = z.infer<typeof smsUrgencyEnum>;
 
 export type ListAppointmentRequestsInput = z.infer<
   typeof listAppointmentRequestsInput
@@ -129,3 +187,15 @@ export type UpdateClinicMessageInput = z.infer<typeof updateClinicMessageInput>;
 export type MarkMessageReadInput = z.infer<typeof markMessageReadInput>;
 export type GetInboundStatsInput = z.infer<typeof getInboundStatsInput>;
 export type ConfirmCallActionInput = z.infer<typeof confirmCallActionInput>;
+export type ListSmsConversationsInput = z.infer<
+  typeof listSmsConversationsInput
+>;
+export type GetSmsConversationInput = z.infer<typeof getSmsConversationInput>;
+export type SendSmsReplyInput = z.infer<typeof sendSmsReplyInput>;
+export type SuggestSmsReplyInput = z.infer<typeof suggestSmsReplyInput>;
+export type UpdateSmsConversationInput = z.infer<
+  typeof updateSmsConversationInput
+>;
+export type ListWaitlistInput = z.infer<typeof listWaitlistInput>;
+export type AddWaitlistEntryInput = z.infer<typeof addWaitlistEntryInput>;
+export type RemoveWaitlistEntryInput = z.infer<typeof removeWaitlistEntryInput>;
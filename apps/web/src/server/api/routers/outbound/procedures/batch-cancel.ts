@@ -65,6 +65,7 @@ export const batchCancelRouter = createTRPCRouter({
                 .from("scheduled_discharge_calls")
                 .select("id, metadata, qstash_message_id")
                 .eq("case_id", caseId)
+                .eq("call_type", "discharge")
                 .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
                 .eq("status", "queued")
                 .order("created_at", { ascending: false })
@@ -0,0 +1,226 @@
+/**
+ * Call Review Procedures
+ *
+ * Review a single discharge call (recording, timed transcript and
+ * structured outputs), mark it reviewed, and schedule a follow-up call for
+ * its case. Used by the mobile call review screen.
+ */
+
+import { TRPCError } from "@trpc/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TranscriptMessage } from "@odis-ai/shared/types";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  getCallReviewInput,
+  markCallReviewedInput,
+  scheduleFollowUpInput,
+} from "../schemas";
+
+// Dynamic imports for lazy-loaded libraries
+const getCasesService = () =>
+  import("@odis-ai/domain/cases").then((m) => m.CasesService);
+const getClinicUtils = () => import("@odis-ai/domain/clinics");
+
+/**
+ * Ensure the call belongs to the caller's clinic
+ */
+async function assertCallInClinic(
+  supabase: SupabaseClient,
+  userId: string,
+  callId: string,
+): Promise<void> {
+  const { getClinicUserIds } = await getClinicUtils();
+  const clinicUserIds = await getClinicUserIds(userId, supabase);
+
+  const { data, error } = await supabase
+    .from("scheduled_discharge_calls")
+    .select("id")
+    .eq("id", callId)
+    .in("user_id", clinicUserIds)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Call not found",
+    });
+  }
+}
+
+/**
+ * Timed transcript messages, without system prompts
+ */
+function toTranscriptMessages(raw: unknown): TranscriptMessage[] {
+  if (!Array.isArray(raw)) return [];
+  return (raw as TranscriptMessage[]).filter(
+    (msg) => msg.role !== "system" && typeof msg.message === "string",
+  );
+}
+
+export const callReviewRouter = createTRPCRouter({
+  getCallReview: protectedProcedure
+    .input(getCallReviewInput)
+    .query(async ({ ctx, input }) => {
+      await assertCallInClinic(ctx.supabase, ctx.user.id, input.callId);
+
+      const { data: call, error } = await ctx.supabase
+        .from("scheduled_discharge_calls")
+        .select(
+          `
+          id,
+          case_id,
+          call_type,
+          status,
+          ended_at,
+          ended_reason,
+          duration_seconds,
+          recording_url,
+          transcript,
+          cleaned_transcript,
+          transcript_messages,
+          summary,
+          attention_types,
+          attention_severity,
+          attention_summary,
+          call_outcome_data,
+          medication_compliance_data,
+          pet_health_data,
+          reviewed_at,
+          reviewed_by,
+          cases (
+            id,
+            patients (
+              name,
+              species,
+              owner_name,
+              owner_phone
+            )
+          )
+        `,
+        )
+        .eq("id", input.callId)
+        .single();
+
+      if (error || !call) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Call not found",
+        });
+      }
+
+      const patient = call.cases?.patients?.[0];
+
+      return {
+        id: call.id,
+        caseId: call.case_id,
+        callType: call.call_type,
+        status: call.status,
+        endedAt: call.ended_at,
+        endedReason: call.ended_reason,
+        durationSeconds: call.duration_seconds,
+        recordingUrl: call.recording_url,
+        transcriptMessages: toTranscriptMessages(call.transcript_messages),
+        plainTranscript: call.cleaned_transcript ?? call.transcript,
+        summary: call.summary,
+        patient: {
+          name: patient?.name ?? "Unknown",
+          species: patient?.species ?? null,
+          ownerName: patient?.owner_name ?? null,
+          ownerPhone: patient?.owner_phone ?? null,
+        },
+        attentionTypes: call.attention_types ?? [],
+        attentionSeverity: call.attention_severity,
+        attentionSummary: call.attention_summary,
+        // Sent as `unknown`: inferring the recursive Json column type through
+        // the router is too deep for clients, which narrow these themselves
+        callOutcomeData: (call.call_outcome_data ?? null) as unknown,
+        medicationComplianceData: (call.medication_compliance_data ??
+          null) as unknown,
+        petHealthData: (call.pet_health_data ?? null) as unknown,
+        reviewedAt: call.reviewed_at,
+        reviewedBy: call.reviewed_by,
+      };
+    }),
+
+  markCallReviewed: protectedProcedure
+    .input(markCallReviewedInput)
+    .mutation(async ({ ctx, input }) => {
+      await assertCallInClinic(ctx.supabase, ctx.user.id, input.callId);
+
+      const reviewedAt = input.reviewed ? new Date().toISOString() : null;
+
+      const { error } = await ctx.supabase
+        .from("scheduled_discharge_calls")
+        .update({
+          reviewed_at: reviewedAt,
+          reviewed_by: input.reviewed ? ctx.user.id : null,
+        })
+        .eq("id", input.callId);
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to update call review: ${error.message}`,
+        });
+      }
+
+      return { success: true, reviewedAt };
+    }),
+
+  scheduleFollowUp: protectedProcedure
+    .input(scheduleFollowUpInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
+      const { getClinicUserIds, getClinicByUserId, buildClinicScopeFilter } =
+        await getClinicUtils();
+
+      // Verify case belongs to clinic
+      const clinicUserIds = await getClinicUserIds(userId, ctx.supabase);
+      const clinic = await getClinicByUserId(userId, ctx.supabase);
+
+      const { data: caseData, error: fetchError } = await ctx.supabase
+        .from("cases")
+        .select("id")
+        .eq("id", input.caseId)
+        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
+        .single();
+
+      if (fetchError || !caseData) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Case not found",
+        });
+      }
+
+      const CasesService = await getCasesService();
+
+      try {
+        const scheduledCall = await CasesService.scheduleFollowUpCall(
+          ctx.supabase,
+          userId,
+          input.caseId,
+          {
+            reason: input.reason,
+            daysAfterVisit: input.daysAfterVisit,
+            notes: input.notes,
+            labResultsSummary: input.labResultsSummary,
+            clinicName: clinic?.name,
+          },
+        );
+
+        return {
+          success: true,
+          callId: scheduledCall.id,
+          scheduledFor: scheduledCall.scheduled_for,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to schedule follow-up call",
+        });
+      }
+    }),
+});
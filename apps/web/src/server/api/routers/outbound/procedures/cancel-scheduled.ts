@@ -60,6 +60,7 @@ export const cancelScheduledRouter = createTRPCRouter({
             .from("scheduled_discharge_calls")
             .select("id, metadata, qstash_message_id")
             .eq("case_id", input.caseId)
+            .eq("call_type", "discharge")
             .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
             .eq("status", "queued")
             .order("created_at", { ascending: false })
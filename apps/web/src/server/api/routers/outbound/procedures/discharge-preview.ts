@@ -0,0 +1,285 @@
+/**
+ * Discharge Preview Procedures
+ *
+ * Case status, discharge summary, latest call and SOAP note for a single
+ * case, plus generating and editing the summary before it is sent. Used by
+ * the Chrome extension's discharge panel on IDEXX Neo consultation pages;
+ * sending goes through approveAndSchedule.
+ */
+
+import { TRPCError } from "@trpc/server";
+import {
+  getClinicUserIds,
+  getClinicByUserId,
+  buildClinicScopeFilter,
+} from "@odis-ai/domain/clinics";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  getDischargePreviewInput,
+  prepareDischargeSummaryInput,
+  updateDischargeSummaryInput,
+} from "../schemas";
+import {
+  ensureDischargeSummary,
+  getIdexxMetadata,
+} from "../summary-generation";
+
+// Dynamic imports for lazy-loaded libraries
+const getCasesService = () =>
+  import("@odis-ai/domain/cases").then((m) => m.CasesService);
+
+interface PatientData {
+  name: string;
+  species: string | null;
+  owner_name: string | null;
+  owner_phone: string | null;
+  owner_email: string | null;
+}
+
+interface PreviewCaseRow {
+  id: string;
+  status: string | null;
+  patients: PatientData[];
+  discharge_summaries: {
+    id: string;
+    content: string;
+    created_at: string;
+    updated_at: string;
+  }[];
+  scheduled_discharge_calls: {
+    id: string;
+    status: string;
+    scheduled_for: string | null;
+    ended_at: string | null;
+    summary: string | null;
+    created_at: string;
+  }[];
+  scheduled_discharge_emails: {
+    id: string;
+    status: string;
+    scheduled_for: string;
+    sent_at: string | null;
+    created_at: string;
+  }[];
+  soap_notes: {
+    subjective: string | null;
+    objective: string | null;
+    assessment: string | null;
+    plan: string | null;
+    created_at: string;
+  }[];
+}
+
+/**
+ * Ensure the case belongs to the caller's clinic
+ */
+async function assertCaseInClinic(
+  supabase: Parameters<typeof getClinicUserIds>[1],
+  userId: string,
+  caseId: string,
+): Promise<void> {
+  const clinicUserIds = await getClinicUserIds(userId, supabase);
+  const clinic = await getClinicByUserId(userId, supabase);
+
+  const { data: caseCheck, error } = await supabase
+    .from("cases")
+    .select("id")
+    .eq("id", caseId)
+    .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
+    .maybeSingle();
+
+  if (error || !caseCheck) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Case not found",
+    });
+  }
+}
+
+function latestByCreatedAt<T extends { created_at: string }>(
+  rows: T[] | null | undefined,
+): T | null {
+  if (!rows?.length) return null;
+  return [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at))[0]!;
+}
+
+export const dischargePreviewRouter = createTRPCRouter({
+  /**
+   * Case status, latest discharge summary and latest call/email for a case
+   */
+  getDischargePreview: protectedProcedure
+    .input(getDischargePreviewInput)
+    .query(async ({ ctx, input }) => {
+      await assertCaseInClinic(ctx.supabase, ctx.user.id, input.caseId);
+
+      const { data, error } = await ctx.supabase
+        .from("cases")
+        .select(
+          `
+          id,
+          status,
+          patients (name, species, owner_name, owner_phone, owner_email),
+          discharge_summaries (id, content, created_at, updated_at),
+          scheduled_discharge_calls (id, status, scheduled_for, ended_at, summary, created_at),
+          scheduled_discharge_emails (id, status, scheduled_for, sent_at, created_at),
+          soap_notes (subjective, objective, assessment, plan, created_at)
+        `,
+        )
+        .eq("id", input.caseId)
+        .eq("scheduled_discharge_calls.call_type", "discharge")
+        .single();
+
+      if (error || !data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Case not found",
+        });
+      }
+
+      const row = data as unknown as PreviewCaseRow;
+      const patient = row.patients?.[0];
+      const summary = latestByCreatedAt(row.discharge_summaries);
+      const call = latestByCreatedAt(row.scheduled_discharge_calls);
+      const email = latestByCreatedAt(row.scheduled_discharge_emails);
+      const soapNote = latestByCreatedAt(row.soap_notes);
+
+      return {
+        caseId: row.id,
+        caseStatus: row.status,
+        patient: {
+          name: patient?.name ?? "Unknown",
+          species: patient?.species ?? null,
+          ownerName: patient?.owner_name ?? null,
+          hasPhone: !!patient?.owner_phone,
+          hasEmail: !!patient?.owner_email,
+        },
+        summary: summary
+          ? {
+              id: summary.id,
+              content: summary.content,
+              updatedAt: summary.updated_at,
+            }
+          : null,
+        call: call
+          ? {
+              id: call.id,
+              status: call.status,
+              scheduledFor: call.scheduled_for,
+              endedAt: call.ended_at,
+              summary: call.summary,
+            }
+          : null,
+        email: email
+          ? {
+              id: email.id,
+              status: email.status,
+              scheduledFor: email.scheduled_for,
+              sentAt: email.sent_at,
+            }
+          : null,
+        soapNote: soapNote
+          ? {
+              subjective: soapNote.subjective,
+              objective: soapNote.objective,
+              assessment: soapNote.assessment,
+              plan: soapNote.plan,
+            }
+          : null,
+      };
+    }),
+
+  /**
+   * Return the case's discharge summary, generating one if it has none
+   */
+  prepareDischargeSummary: protectedProcedure
+    .input(prepareDischargeSummaryInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
+      await assertCaseInClinic(ctx.supabase, userId, input.caseId);
+
+      const CasesService = await getCasesService();
+      const caseInfo = await CasesService.getCaseWithEntities(
+        ctx.supabase,
+        input.caseId,
+      );
+
+      if (!caseInfo) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Case not found",
+        });
+      }
+
+      const patient = Array.isArray(caseInfo.patient)
+        ? (caseInfo.patient[0] ?? null)
+        : (caseInfo.patient ?? null);
+
+      const result = await ensureDischargeSummary({
+        caseInfo,
+        caseId: input.caseId,
+        userId,
+        patient,
+        idexxMetadata: getIdexxMetadata(
+          caseInfo.case.metadata as Record<string, unknown> | null,
+        ),
+        ctx,
+      });
+
+      if (!result.success || !result.summaryId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: result.error ?? "Failed to generate discharge summary",
+        });
+      }
+
+      return {
+        id: result.summaryId,
+        content: result.summaryContent ?? "",
+        wasGenerated: result.wasGenerated ?? false,
+      };
+    }),
+
+  /**
+   * Replace the discharge summary text before it is sent
+   *
+   * Clears the structured summary so the discharge email is built from the
+   * edited text rather than the original AI output.
+   */
+  updateDischargeSummary: protectedProcedure
+    .input(updateDischargeSummaryInput)
+    .mutation(async ({ ctx, input }) => {
+      await assertCaseInClinic(ctx.supabase, ctx.user.id, input.caseId);
+
+      const { data, error } = await ctx.supabase
+        .from("discharge_summaries")
+        .update({
+          content: input.content,
+          structured_content: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", input.summaryId)
+        .eq("case_id", input.caseId)
+        .select("id, content, updated_at")
+        .maybeSingle();
+
+      if (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to update discharge summary: ${error.message}`,
+        });
+      }
+
+      if (!data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Discharge summary not found",
+        });
+      }
+
+      return {
+        id: data.id,
+        content: data.content,
+        updatedAt: data.updated_at,
+      };
+    }),
+});
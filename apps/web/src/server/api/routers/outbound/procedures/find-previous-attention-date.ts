@@ -77,6 +77,7 @@ export const findPreviousAttentionDateRouter = createTRPCRouter({
         )
         .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
         .not("scheduled_discharge_calls.attention_types", "is", null)
+        .eq("scheduled_discharge_calls.call_type", "discharge")
         .or(
           `and(scheduled_at.gte.${startISO},scheduled_at.lte.${endISO}),and(scheduled_at.is.null,created_at.gte.${startISO},created_at.lte.${endISO})`,
         )
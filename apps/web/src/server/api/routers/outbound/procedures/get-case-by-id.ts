@@ -101,6 +101,13 @@ interface ScheduledEmailData {
   sent_at: string | null;
 }
 
+interface ScheduledSmsData {
+  id: string;
+  status: string;
+  scheduled_for: string;
+  sent_at: string | null;
+}
+
 interface CaseRow {
   id: string;
   type: string | null;
@@ -110,6 +117,7 @@ interface CaseRow {
   patients: PatientData[];
   scheduled_discharge_calls: ScheduledCallData[];
   scheduled_discharge_emails: ScheduledEmailData[];
+  scheduled_discharge_sms: ScheduledSmsData[];
 }
 
 export const getCaseByIdRouter = createTRPCRouter({
@@ -133,6 +141,7 @@ export const getCaseByIdRouter = createTRPCRouter({
           timestamp: demoCase.timestamp,
           phoneSent: demoCase.phoneSent,
           emailSent: demoCase.emailSent,
+          smsSent: demoCase.smsSent ?? null,
           scheduledTime: call?.scheduledFor ?? null,
           patient: {
             name: demoCase.patient.name,
@@ -214,10 +223,21 @@ export const getCaseByIdRouter = createTRPCRouter({
             status,
             scheduled_for,
             sent_at
+          ),
+          scheduled_discharge_sms (
+            id,
+            status,
+            scheduled_for,
+            sent_at
           )
         `,
         )
         .eq("id", input.id)
+        .eq("scheduled_discharge_calls.call_type", "discharge")
+        .order("created_at", {
+          referencedTable: "scheduled_discharge_calls",
+          ascending: false,
+        })
         .single();
 
       if (error || !data) {
@@ -231,6 +251,7 @@ export const getCaseByIdRouter = createTRPCRouter({
       const patient = caseData.patients[0];
       const call = caseData.scheduled_discharge_calls?.[0] ?? null;
       const email = caseData.scheduled_discharge_emails?.[0] ?? null;
+      const sms = caseData.scheduled_discharge_sms?.[0] ?? null;
 
       // Derive statuses
       const callStatus = call?.status ?? null;
@@ -244,6 +265,10 @@ export const getCaseByIdRouter = createTRPCRouter({
         emailStatus,
         !!patient?.owner_email,
       );
+      const smsSent = deriveDeliveryStatus(
+        sms?.status ?? null,
+        !!patient?.owner_phone,
+      );
 
       // Derive composite status
       let status = "pending_review";
@@ -268,6 +293,7 @@ export const getCaseByIdRouter = createTRPCRouter({
         timestamp: caseData.created_at,
         phoneSent,
         emailSent,
+        smsSent,
         scheduledTime: call?.scheduled_for ?? email?.scheduled_for ?? null,
         patient: {
           name: patient?.name ?? "Unknown",
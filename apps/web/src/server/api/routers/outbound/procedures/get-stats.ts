@@ -165,7 +165,8 @@ export const getStatsRouter = createTRPCRouter({
           scheduled_discharge_emails (id, status, scheduled_for)
         `,
         )
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds));
+        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
+        .eq("scheduled_discharge_calls.call_type", "discharge");
 
       // Apply date filters with proper timezone-aware boundaries
       // Use scheduled_at (appointment time) instead of created_at (sync time)
@@ -222,6 +223,7 @@ export const getStatsRouter = createTRPCRouter({
           `,
           )
           .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
+          .eq("scheduled_discharge_calls.call_type", "discharge")
           .not("scheduled_discharge_calls.attention_types", "is", null);
 
       if (attentionError) {
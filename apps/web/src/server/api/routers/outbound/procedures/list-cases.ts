@@ -26,7 +26,10 @@ import {
 } from "@odis-ai/shared/util";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { listDischargeCasesInput } from "../schemas";
-import type { StructuredDischargeContent } from "~/components/dashboard/outbound";
+import type {
+  SmsStatus,
+  StructuredDischargeContent,
+} from "~/components/dashboard/outbound";
 import {
   shouldInjectDemoOutboundCases,
   getDemoOutboundCases,
@@ -144,6 +147,16 @@ interface ScheduledEmailData {
   html_content: string;
 }
 
+interface ScheduledSmsData {
+  id: string;
+  status: string;
+  scheduled_for: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+  recipient_phone: string;
+  body: string;
+}
+
 interface SoapNoteData {
   id: string;
   subjective: string | null;
@@ -180,6 +193,7 @@ interface CaseRow {
   discharge_summaries: DischargeSummaryData[];
   scheduled_discharge_calls: ScheduledCallData[];
   scheduled_discharge_emails: ScheduledEmailData[];
+  scheduled_discharge_sms: ScheduledSmsData[];
   soap_notes: SoapNoteData[];
 }
 
@@ -292,6 +306,15 @@ export const listCasesRouter = createTRPCRouter({
             subject,
             html_content
           ),
+          scheduled_discharge_sms (
+            id,
+            status,
+            scheduled_for,
+            sent_at,
+            delivered_at,
+            recipient_phone,
+            body
+          ),
           soap_notes (
             id,
             subjective,
@@ -304,7 +327,14 @@ export const listCasesRouter = createTRPCRouter({
         `,
           { count: "exact" },
         )
-        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds));
+        .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
+        // Follow-up calls share the table; only the latest discharge call
+        // belongs on the case
+        .eq("scheduled_discharge_calls.call_type", "discharge")
+        .order("created_at", {
+          referencedTable: "scheduled_discharge_calls",
+          ascending: false,
+        });
 
       // For needs_attention mode:
       // - Skip date filtering (show ALL needs attention cases)
@@ -374,6 +404,7 @@ export const listCasesRouter = createTRPCRouter({
         const dischargeSummary = c.discharge_summaries?.[0];
         const scheduledCall = c.scheduled_discharge_calls?.[0];
         const scheduledEmail = c.scheduled_discharge_emails?.[0];
+        const scheduledSms = c.scheduled_discharge_sms?.[0];
 
         const callStatus = scheduledCall?.status ?? null;
         const emailStatus = scheduledEmail?.status ?? null;
@@ -467,6 +498,7 @@ export const listCasesRouter = createTRPCRouter({
           failureCategory,
           phoneSent: deriveDeliveryStatus(callStatus, hasPhone),
           emailSent: deriveDeliveryStatus(emailStatus, hasEmail),
+          smsSent: deriveDeliveryStatus(scheduledSms?.status ?? null, hasPhone),
           dischargeSummary: dischargeSummary?.content ?? "",
           structuredContent: (dischargeSummary?.structured_content ??
             null) as StructuredDischargeContent | null,
@@ -545,6 +577,17 @@ export const listCasesRouter = createTRPCRouter({
                 updatedAt: c.created_at, // Use case created_at as proxy
               }
             : null,
+          scheduledSms: scheduledSms
+            ? {
+                id: scheduledSms.id,
+                recipientPhone: scheduledSms.recipient_phone,
+                body: scheduledSms.body,
+                scheduledFor: scheduledSms.scheduled_for,
+                status: scheduledSms.status as SmsStatus,
+                sentAt: scheduledSms.sent_at,
+                deliveredAt: scheduledSms.delivered_at,
+              }
+            : null,
           timestamp: c.created_at, // Use discharge date (when case was created/synced)
           createdAt: c.created_at,
           updatedAt: c.created_at, // Use created_at as updatedAt for now
@@ -92,6 +92,11 @@ export const rescheduleRouter = createTRPCRouter({
         )
         .eq("id", input.caseId)
         .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
+        .eq("scheduled_discharge_calls.call_type", "discharge")
+        .order("created_at", {
+          referencedTable: "scheduled_discharge_calls",
+          ascending: false,
+        })
         .single();
 
       if (caseError || !caseData) {
@@ -43,6 +43,7 @@ async function findFailedCall(
     .from("scheduled_discharge_calls")
     .select("*")
     .eq("case_id", caseId)
+    .eq("call_type", "discharge")
     .or(buildClinicScopeFilter(scope.clinicId, scope.userIds))
     .eq("status", "failed")
     .order("created_at", { ascending: false })
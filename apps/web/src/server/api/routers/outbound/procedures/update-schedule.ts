@@ -75,6 +75,7 @@ export const updateScheduleRouter = createTRPCRouter({
             .from("scheduled_discharge_calls")
             .select("id, metadata, qstash_message_id, created_at")
             .eq("case_id", input.caseId)
+            .eq("call_type", "discharge")
             .or(buildClinicScopeFilter(clinic?.id, clinicUserIds))
             .eq("status", "queued")
             .order("created_at", { ascending: false })
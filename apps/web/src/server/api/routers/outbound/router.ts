@@ -21,6 +21,8 @@ import { getCaseByIdRouter } from "./procedures/get-case-by-id";
 import { getCasesByIdsRouter } from "./procedures/get-cases-by-ids";
 import { updateScheduleRouter } from "./procedures/update-schedule";
 import { updateCommunicationPreferencesRouter } from "./procedures/update-communication-preferences";
+import { callReviewRouter } from "./procedures/call-review";
+import { dischargePreviewRouter } from "./procedures/discharge-preview";
 
 export const outboundRouter = createTRPCRouter({
   // Queries
@@ -31,6 +33,8 @@ export const outboundRouter = createTRPCRouter({
     findPreviousAttentionDateRouter.findPreviousAttentionDate,
   getCaseById: getCaseByIdRouter.getCaseById,
   getCasesByIds: getCasesByIdsRouter.getCasesByIds,
+  getCallReview: callReviewRouter.getCallReview,
+  getDischargePreview: dischargePreviewRouter.getDischargePreview,
 
   // Mutations
   approveAndSchedule: approveRouter.approveAndSchedule,
@@ -44,4 +48,8 @@ export const outboundRouter = createTRPCRouter({
   updateScheduleDelays: updateScheduleRouter.updateScheduleDelays,
   updateCommunicationPreferences:
     updateCommunicationPreferencesRouter.updateCommunicationPreferences,
+  markCallReviewed: callReviewRouter.markCallReviewed,
+  scheduleFollowUp: callReviewRouter.scheduleFollowUp,
+  prepareDischargeSummary: dischargePreviewRouter.prepareDischargeSummary,
+  updateDischargeSummary: dischargePreviewRouter.updateDischargeSummary,
 });
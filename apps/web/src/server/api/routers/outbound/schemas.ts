@@ -5,6 +5,7 @@
  */
 
 import { z } from "zod";
+import { FOLLOW_UP_CALL_REASONS } from "@odis-ai/shared/types/services";
 
 // =============================================================================
 // Enums
@@ -202,6 +203,49 @@ export const updateCommunicationPreferencesInput = z.object({
   emailEnabled: z.boolean(),
 });
 
+export const getCallReviewInput = z.object({
+  /** scheduled_discharge_calls.id */
+  callId: z.string().uuid(),
+});
+
+export const markCallReviewedInput = z.object({
+  callId: z.string().uuid(),
+  /** Pass false to move the call back to unreviewed */
+  reviewed: z.boolean().default(true),
+});
+
+export const scheduleFollowUpInput = z
+  .object({
+    caseId: z.string().uuid(),
+    reason: z.enum(FOLLOW_UP_CALL_REASONS),
+    /** Days after the visit to call (1-90) */
+    daysAfterVisit: z.number().int().min(1).max(90),
+    notes: z.string().max(1000).optional(),
+    /** Results to relay; required for lab_results */
+    labResultsSummary: z.string().max(2000).optional(),
+  })
+  .refine(
+    (input) => input.reason !== "lab_results" || !!input.labResultsSummary,
+    {
+      message: "Lab results summary is required for lab results follow-ups",
+      path: ["labResultsSummary"],
+    },
+  );
+
+export const getDischargePreviewInput = z.object({
+  caseId: z.string().uuid(),
+});
+
+export const prepareDischargeSummaryInput = z.object({
+  caseId: z.string().uuid(),
+});
+
+export const updateDischargeSummaryInput = z.object({
+  caseId: z.string().uuid(),
+  summaryId: z.string().uuid(),
+  content: z.string().trim().min(1, "Discharge summary cannot be empty"),
+});
+
 // =============================================================================
 // Type Exports
 // =============================================================================
@@ -241,3 +285,13 @@ export type UpdateScheduleDelaysInput = z.infer<
 export type UpdateCommunicationPreferencesInput = z.infer<
   typeof updateCommunicationPreferencesInput
 >;
+export type GetCallReviewInput = z.infer<typeof getCallReviewInput>;
+export type MarkCallReviewedInput = z.infer<typeof markCallReviewedInput>;
+export type ScheduleFollowUpInput = z.infer<typeof scheduleFollowUpInput>;
+export type GetDischargePreviewInput = z.infer<typeof getDischargePreviewInput>;
+export type PrepareDischargeSummaryInput = z.infer<
+  typeof prepareDischargeSummaryInput
+>;
+export type UpdateDischargeSummaryInput = z.infer<
+  typeof updateDischargeSummaryInput
+>;
@@ -0,0 +1,187 @@
+/**
+ * Discharge Summary Generation
+ *
+ * Shared by the batch scheduler and the Chrome extension's discharge panel:
+ * returns a case's latest discharge summary, generating and saving one from
+ * SOAP notes, IDEXX consultation notes or extracted entities when missing.
+ */
+
+import type { getClinicByUserId } from "@odis-ai/domain/clinics";
+import type { Json } from "@odis-ai/shared/types";
+
+const getCasesService = () =>
+  import("@odis-ai/domain/cases").then((m) => m.CasesService);
+
+const getGenerateStructuredDischargeSummaryWithRetry = () =>
+  import("@odis-ai/integrations/ai/generate-structured-discharge").then(
+    (m) => m.generateStructuredDischargeSummaryWithRetry,
+  );
+
+export type CaseInfo = NonNullable<
+  Awaited<
+    ReturnType<
+      Awaited<ReturnType<typeof getCasesService>>["getCaseWithEntities"]
+    >
+  >
+>;
+
+export interface IdexxMetadata {
+  pet_name?: string;
+  species?: string;
+  client_first_name?: string;
+  client_last_name?: string;
+  owner_name?: string;
+  notes?: string;
+  consultation_notes?: string;
+}
+
+export function getIdexxMetadata(
+  metadata: Record<string, unknown> | null,
+): IdexxMetadata | null {
+  if (!metadata) return null;
+  const idexx = metadata.idexx as IdexxMetadata | undefined;
+  return idexx ?? null;
+}
+
+export function extractSoapContent(
+  soapNotes: Array<{
+    client_instructions?: string | null;
+    subjective?: string | null;
+    objective?: string | null;
+    assessment?: string | null;
+    plan?: string | null;
+  }> | null,
+  idexxMetadata: IdexxMetadata | null,
+): string | null {
+  // Try SOAP notes first
+  if (soapNotes && soapNotes.length > 0) {
+    const latestNote = soapNotes[0];
+    if (latestNote?.client_instructions) {
+      return latestNote.client_instructions;
+    }
+    if (latestNote) {
+      const sections: string[] = [];
+      if (latestNote.subjective)
+        sections.push(`Subjective:\n${latestNote.subjective}`);
+      if (latestNote.objective)
+        sections.push(`Objective:\n${latestNote.objective}`);
+      if (latestNote.assessment)
+        sections.push(`Assessment:\n${latestNote.assessment}`);
+      if (latestNote.plan) sections.push(`Plan:\n${latestNote.plan}`);
+      if (sections.length > 0) return sections.join("\n\n");
+    }
+  }
+
+  // Fall back to IDEXX notes
+  if (idexxMetadata?.consultation_notes) {
+    return idexxMetadata.consultation_notes
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  if (idexxMetadata?.notes) {
+    return idexxMetadata.notes;
+  }
+
+  return null;
+}
+
+export interface SummaryResult {
+  success: boolean;
+  error?: string;
+  summaryContent?: string;
+  summaryId?: string;
+  wasGenerated?: boolean;
+}
+
+interface EnsureSummaryParams {
+  caseInfo: CaseInfo;
+  caseId: string;
+  userId: string;
+  patient: {
+    name?: string | null;
+    species?: string | null;
+    breed?: string | null;
+    owner_name?: string | null;
+  } | null;
+  idexxMetadata: IdexxMetadata | null;
+  ctx: { supabase: Parameters<typeof getClinicByUserId>[1] };
+}
+
+export async function ensureDischargeSummary({
+  caseInfo,
+  caseId,
+  userId,
+  patient,
+  idexxMetadata,
+  ctx,
+}: EnsureSummaryParams): Promise<SummaryResult> {
+  const existingSummary = caseInfo.dischargeSummaries?.[0];
+
+  if (existingSummary) {
+    return {
+      success: true,
+      summaryContent: existingSummary.content,
+      summaryId: existingSummary.id,
+      wasGenerated: false,
+    };
+  }
+
+  // Need to generate summary
+  const soapContent = extractSoapContent(caseInfo.soapNotes, idexxMetadata);
+  const entities = caseInfo.entities;
+
+  if (!soapContent && !entities) {
+    return {
+      success: false,
+      error:
+        "No clinical notes or entity data available for summary generation",
+    };
+  }
+
+  const generateStructuredDischargeSummaryWithRetry =
+    await getGenerateStructuredDischargeSummaryWithRetry();
+
+  const { structured, plainText } =
+    await generateStructuredDischargeSummaryWithRetry({
+      soapContent,
+      entityExtraction: entities,
+      patientData: {
+        name: patient?.name ?? entities?.patient?.name ?? undefined,
+        species: patient?.species ?? entities?.patient?.species ?? undefined,
+        breed: patient?.breed ?? entities?.patient?.breed ?? undefined,
+        owner_name:
+          patient?.owner_name ?? entities?.patient?.owner?.name ?? undefined,
+      },
+    });
+
+  const { data: newSummary, error: summaryError } = await ctx.supabase
+    .from("discharge_summaries")
+    .insert({
+      case_id: caseId,
+      user_id: userId,
+      content: plainText,
+      structured_content: structured as unknown as Json,
+    })
+    .select("id, content")
+    .single();
+
+  if (summaryError || !newSummary) {
+    return {
+      success: false,
+      error: "Failed to save generated discharge summary",
+    };
+  }
+
+  return {
+    success: true,
+    summaryContent: newSummary.content,
+    summaryId: newSummary.id,
+    wasGenerated: true,
+  };
+}
@@ -0,0 +1,297 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  clinicLookupSchema,
+  resolveAccessibleClinic,
+} from "~/server/api/trpc/middleware";
+import {
+  appointmentTypeSchema,
+  clinicResourceSchema,
+  type AppointmentTypeSettings,
+  type ClinicResourceSettings,
+} from "@odis-ai/shared/validators";
+
+function toTypeColumns(type: AppointmentTypeSettings) {
+  return {
+    name: type.name,
+    pims_appointment_type_id: type.pimsAppointmentTypeId,
+    duration_minutes: type.durationMinutes,
+    buffer_minutes: type.bufferMinutes,
+    required_room_type: type.requiredRoomType,
+    required_provider_role: type.requiredProviderRole,
+    keywords: type.keywords,
+    is_active: type.isActive,
+  };
+}
+
+function toResourceColumns(resource: ClinicResourceSettings) {
+  return {
+    kind: resource.kind,
+    name: resource.name,
+    pims_resource_id: resource.pimsResourceId,
+    room_type: resource.kind === "room" ? resource.roomType : null,
+    provider_role: resource.kind === "provider" ? resource.providerRole : null,
+    is_active: resource.isActive,
+  };
+}
+
+/**
+ * Appointment Types Router
+ *
+ * Manages per-clinic appointment types (clinic_appointment_types) and the
+ * rooms and providers they require (clinic_resources). The VAPI availability
+ * and booking tools use them to size visits and pick resources. Writes go
+ * through RLS, which limits them to admins and practice owners.
+ */
+export const appointmentTypesRouter = createTRPCRouter({
+  /**
+   * Get all of the clinic's appointment types and resources
+   */
+  getAppointmentTypes: protectedProcedure
+    .input(clinicLookupSchema.optional())
+    .query(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const [typesResult, resourcesResult] = await Promise.all([
+        ctx.supabase
+          .from("clinic_appointment_types")
+          .select(
+            "id, name, pims_appointment_type_id, duration_minutes, buffer_minutes, required_room_type, required_provider_role, keywords, is_active",
+          )
+          .eq("clinic_id", clinic.id)
+          .order("name"),
+        ctx.supabase
+          .from("clinic_resources")
+          .select(
+            "id, kind, name, pims_resource_id, room_type, provider_role, is_active",
+          )
+          .eq("clinic_id", clinic.id)
+          .order("kind")
+          .order("name"),
+      ]);
+
+      if (typesResult.error) {
+        throw new Error(
+          `Failed to fetch appointment types: ${typesResult.error.message}`,
+        );
+      }
+      if (resourcesResult.error) {
+        throw new Error(
+          `Failed to fetch resources: ${resourcesResult.error.message}`,
+        );
+      }
+
+      return {
+        types: (typesResult.data ?? []).map((row) => ({
+          id: row.id,
+          name: row.name,
+          pimsAppointmentTypeId: row.pims_appointment_type_id,
+          durationMinutes: row.duration_minutes,
+          bufferMinutes: row.buffer_minutes,
+          requiredRoomType: row.required_room_type,
+          requiredProviderRole: row.required_provider_role,
+          keywords: row.keywords ?? [],
+          isActive: row.is_active,
+        })),
+        resources: (resourcesResult.data ?? []).map((row) => ({
+          id: row.id,
+          kind:
+            row.kind === "provider" ? ("provider" as const) : ("room" as const),
+          name: row.name,
+          pimsResourceId: row.pims_resource_id,
+          roomType: row.room_type,
+          providerRole: row.provider_role,
+          isActive: row.is_active,
+        })),
+      };
+    }),
+
+  /**
+   * Add an appointment type
+   */
+  createAppointmentType: protectedProcedure
+    .input(clinicLookupSchema.extend({ type: appointmentTypeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinic_appointment_types")
+        .insert({ clinic_id: clinic.id, ...toTypeColumns(input.type) })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create appointment type: ${error.message}`);
+      }
+
+      return { id: data.id };
+    }),
+
+  /**
+   * Replace an appointment type's settings
+   */
+  updateAppointmentType: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        id: z.string().uuid(),
+        type: appointmentTypeSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinic_appointment_types")
+        .update({
+          ...toTypeColumns(input.type),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", input.id)
+        .eq("clinic_id", clinic.id)
+        .select("id")
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update appointment type: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Appointment type not found",
+        });
+      }
+
+      return { id: data.id };
+    }),
+
+  /**
+   * Delete an appointment type
+   */
+  deleteAppointmentType: protectedProcedure
+    .input(clinicLookupSchema.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { error } = await ctx.supabase
+        .from("clinic_appointment_types")
+        .delete()
+        .eq("id", input.id)
+        .eq("clinic_id", clinic.id);
+
+      if (error) {
+        throw new Error(`Failed to delete appointment type: ${error.message}`);
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Add a room or provider
+   */
+  createResource: protectedProcedure
+    .input(clinicLookupSchema.extend({ resource: clinicResourceSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinic_resources")
+        .insert({ clinic_id: clinic.id, ...toResourceColumns(input.resource) })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create resource: ${error.message}`);
+      }
+
+      return { id: data.id };
+    }),
+
+  /**
+   * Replace a room or provider's settings
+   */
+  updateResource: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        id: z.string().uuid(),
+        resource: clinicResourceSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinic_resources")
+        .update({
+          ...toResourceColumns(input.resource),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", input.id)
+        .eq("clinic_id", clinic.id)
+        .select("id")
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update resource: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Resource not found",
+        });
+      }
+
+      return { id: data.id };
+    }),
+
+  /**
+   * Delete a room or provider
+   */
+  deleteResource: protectedProcedure
+    .input(clinicLookupSchema.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { error } = await ctx.supabase
+        .from("clinic_resources")
+        .delete()
+        .eq("id", input.id)
+        .eq("clinic_id", clinic.id);
+
+      if (error) {
+        throw new Error(`Failed to delete resource: ${error.message}`);
+      }
+
+      return { success: true };
+    }),
+});
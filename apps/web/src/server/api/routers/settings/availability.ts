@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  clinicLookupSchema,
+  resolveAccessibleClinic,
+} from "~/server/api/trpc/middleware";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { bookingRuleSubjectSchema } from "@odis-ai/shared/validators";
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+/**
+ * Availability Router
+ *
+ * Debugging for the VAPI check_availability tool: shows every candidate slot
+ * for a day and which layer (schedule, blocked period, bookings, room filter,
+ * clinic hours, booking rule or appointment type) removed it.
+ */
+export const availabilityRouter = createTRPCRouter({
+  /**
+   * Explain a day's availability the way the assistant would see it
+   */
+  explainAvailability: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        date: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+        appointmentType: z.string().trim().min(1).optional(),
+        subject: bookingRuleSubjectSchema.default({}),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      // Slots, bookings and rules are read across the clinic's schedule
+      const serviceClient = await createServiceClient();
+
+      const [{ data: clinicRow }, { data: mapping }] = await Promise.all([
+        serviceClient
+          .from("clinics")
+          .select("timezone")
+          .eq("id", clinic.id)
+          .single(),
+        // The assistant books against pims_clinic_id when it's set
+        serviceClient
+          .from("vapi_assistant_mappings")
+          .select("pims_clinic_id")
+          .eq("clinic_id", clinic.id)
+          .eq("is_active", true)
+          .not("pims_clinic_id", "is", null)
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      // Dynamic import for lazy-loaded library
+      const { explainAvailability } =
+        await import("@odis-ai/integrations/vapi/processors/appointments/availability-explain");
+      return explainAvailability(
+        {
+          date: input.date,
+          include_blocked: false,
+          is_new_client: input.subject.isNewClient,
+          species: input.subject.species,
+          reason: input.subject.reason,
+          appointment_type: input.appointmentType,
+        },
+        {
+          supabase: serviceClient,
+          clinicId: mapping?.pims_clinic_id ?? clinic.id,
+          timezone: clinicRow?.timezone ?? DEFAULT_TIMEZONE,
+        },
+      );
+    }),
+});
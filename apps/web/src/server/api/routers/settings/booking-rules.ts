@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  clinicLookupSchema,
+  resolveAccessibleClinic,
+} from "~/server/api/trpc/middleware";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import {
+  bookingRuleConfigSchema,
+  bookingRuleSchema,
+  bookingRuleSubjectSchema,
+  type BookingRuleConfig,
+} from "@odis-ai/shared/validators";
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+/**
+ * Split a rule config into clinic_booking_rules columns
+ */
+function toRuleColumns(config: BookingRuleConfig) {
+  const { type, ...settings } = config;
+  return { rule_type: type, config: settings };
+}
+
+/**
+ * Booking Rules Router
+ *
+ * Manages per-clinic booking rules (clinic_booking_rules) that the VAPI
+ * availability and booking tools evaluate. Writes go through RLS, which
+ * limits them to admins and practice owners.
+ */
+export const bookingRulesRouter = createTRPCRouter({
+  /**
+   * Get all of the clinic's rules, active or not, in priority order
+   * Rules whose stored config no longer validates come back with
+   * `config: null` so they can be fixed or removed.
+   */
+  getBookingRules: protectedProcedure
+    .input(clinicLookupSchema.optional())
+    .query(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinic_booking_rules")
+        .select("id, name, rule_type, config, priority, is_active")
+        .eq("clinic_id", clinic.id)
+        .order("priority")
+        .order("created_at");
+
+      if (error) {
+        throw new Error(`Failed to fetch booking rules: ${error.message}`);
+      }
+
+      return (data ?? []).map((row) => {
+        const parsed = bookingRuleConfigSchema.safeParse({
+          ...(row.config as Record<string, unknown>),
+          type: row.rule_type,
+        });
+        return {
+          id: row.id,
+          name: row.name,
+          priority: row.priority,
+          isActive: row.is_active,
+          config: parsed.success ? parsed.data : null,
+        };
+      });
+    }),
+
+  /**
+   * Add a rule
+   */
+  createBookingRule: protectedProcedure
+    .input(clinicLookupSchema.extend({ rule: bookingRuleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinic_booking_rules")
+        .insert({
+          clinic_id: clinic.id,
+          name: input.rule.name,
+          priority: input.rule.priority,
+          is_active: input.rule.isActive,
+          ...toRuleColumns(input.rule.config),
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create booking rule: ${error.message}`);
+      }
+
+      return { id: data.id };
+    }),
+
+  /**
+   * Replace a rule's name, settings, priority and active flag
+   */
+  updateBookingRule: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        id: z.string().uuid(),
+        rule: bookingRuleSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinic_booking_rules")
+        .update({
+          name: input.rule.name,
+          priority: input.rule.priority,
+          is_active: input.rule.isActive,
+          ...toRuleColumns(input.rule.config),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", input.id)
+        .eq("clinic_id", clinic.id)
+        .select("id")
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update booking rule: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Booking rule not found",
+        });
+      }
+
+      return { id: data.id };
+    }),
+
+  /**
+   * Delete a rule
+   */
+  deleteBookingRule: protectedProcedure
+    .input(clinicLookupSchema.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { error } = await ctx.supabase
+        .from("clinic_booking_rules")
+        .delete()
+        .eq("id", input.id)
+        .eq("clinic_id", clinic.id);
+
+      if (error) {
+        throw new Error(`Failed to delete booking rule: ${error.message}`);
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Check a hypothetical booking against the clinic's active rules
+   *
+   * Uses the same evaluation as the VAPI booking tool, against the day's
+   * real appointments, and reports every rule's outcome.
+   */
+  testBookingRules: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        date: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+        time: z
+          .string()
+          .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm"),
+        subject: bookingRuleSubjectSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      // Appointments and slots are read across the clinic's schedule
+      const serviceClient = await createServiceClient();
+
+      const { data: clinicRow } = await serviceClient
+        .from("clinics")
+        .select("timezone")
+        .eq("id", clinic.id)
+        .single();
+
+      // Dynamic import for lazy-loaded library
+      const { checkBookingRules } =
+        await import("@odis-ai/integrations/vapi/processors/appointments/booking-rules");
+      const decision = await checkBookingRules({
+        supabase: serviceClient,
+        clinicId: clinic.id,
+        date: input.date,
+        time: input.time,
+        timezone: clinicRow?.timezone ?? DEFAULT_TIMEZONE,
+        subject: input.subject,
+      });
+
+      return {
+        allowed: decision.allowed,
+        providerName: decision.providerName,
+        results: decision.results,
+      };
+    }),
+});
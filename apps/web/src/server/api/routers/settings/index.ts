@@ -1,5 +1,11 @@
 import { createTRPCRouter } from "~/server/api/trpc";
+import { appointmentTypesRouter } from "./appointment-types";
+import { availabilityRouter } from "./availability";
+import { bookingRulesRouter } from "./booking-rules";
+import { pushNotificationsRouter } from "./push-notifications";
+import { retryPolicyRouter } from "./retry-policy";
 import { scheduleRouter } from "./schedule";
+import { slackNotificationsRouter } from "./slack-notifications";
 
 /**
  * Settings Router
@@ -8,4 +14,10 @@ import { scheduleRouter } from "./schedule";
  */
 export const settingsRouter = createTRPCRouter({
   schedule: scheduleRouter,
+  retryPolicy: retryPolicyRouter,
+  slackNotifications: slackNotificationsRouter,
+  pushNotifications: pushNotificationsRouter,
+  bookingRules: bookingRulesRouter,
+  appointmentTypes: appointmentTypesRouter,
+  availability: availabilityRouter,
 });
@@ -0,0 +1,224 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  clinicLookupSchema,
+  resolveAccessibleClinic,
+} from "~/server/api/trpc/middleware";
+import {
+  onCallShiftSchema,
+  pushDeviceRegistrationSchema,
+  pushSubscriptionSchema,
+  DEFAULT_PUSH_SUBSCRIPTION,
+} from "@odis-ai/shared/validators";
+
+/** TIME columns come back as HH:mm:ss */
+function toTimeOfDay(value: string): string {
+  return value.slice(0, 5);
+}
+
+/**
+ * Push Notification Settings Router
+ *
+ * Registers mobile devices (push_devices) and manages the current user's
+ * per-clinic push preferences (push_notification_subscriptions) and
+ * weekly on-call shifts (on_call_shifts)
+ */
+export const pushNotificationsRouter = createTRPCRouter({
+  /**
+   * Register (or re-register) this device's Expo push token
+   *
+   * A token is unique per device install, so a token registered by another
+   * user moves to the caller.
+   */
+  registerDevice: protectedProcedure
+    .input(pushDeviceRegistrationSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { data, error } = await ctx.supabase
+        .from("push_devices")
+        .upsert(
+          {
+            user_id: ctx.user.id,
+            token: input.token,
+            platform: input.platform,
+            device_name: input.deviceName,
+            last_registered_at: new Date().toISOString(),
+            disabled_at: null,
+            disabled_reason: null,
+          },
+          { onConflict: "token" },
+        )
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to register push device: ${error.message}`);
+      }
+
+      return { id: data.id };
+    }),
+
+  /**
+   * Stop pushing to this device (e.g. on sign-out)
+   */
+  unregisterDevice: protectedProcedure
+    .input(z.object({ token: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { error } = await ctx.supabase
+        .from("push_devices")
+        .delete()
+        .eq("token", input.token)
+        .eq("user_id", ctx.user.id);
+
+      if (error) {
+        throw new Error(`Failed to unregister push device: ${error.message}`);
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Get the current user's push preferences and on-call shifts for the clinic
+   */
+  getPushNotificationSettings: protectedProcedure
+    .input(clinicLookupSchema.optional())
+    .query(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const [subscriptionResult, shiftsResult, devicesResult] =
+        await Promise.all([
+          ctx.supabase
+            .from("push_notification_subscriptions")
+            .select("notification_types, only_when_on_call, is_enabled")
+            .eq("user_id", ctx.user.id)
+            .eq("clinic_id", clinic.id)
+            .maybeSingle(),
+          ctx.supabase
+            .from("on_call_shifts")
+            .select("day_of_week, start_time, end_time")
+            .eq("user_id", ctx.user.id)
+            .eq("clinic_id", clinic.id)
+            .order("day_of_week")
+            .order("start_time"),
+          ctx.supabase
+            .from("push_devices")
+            .select("id", { count: "exact", head: true })
+            .eq("user_id", ctx.user.id)
+            .is("disabled_at", null),
+        ]);
+
+      if (shiftsResult.error) {
+        throw new Error(
+          `Failed to fetch on-call shifts: ${shiftsResult.error.message}`,
+        );
+      }
+
+      const parsed = pushSubscriptionSchema.safeParse({
+        notificationTypes: subscriptionResult.data?.notification_types,
+        onlyWhenOnCall: subscriptionResult.data?.only_when_on_call,
+        isEnabled: subscriptionResult.data?.is_enabled,
+      });
+
+      return {
+        clinicId: clinic.id,
+        // No row yet means the user hasn't subscribed
+        subscription: subscriptionResult.data
+          ? parsed.success
+            ? parsed.data
+            : DEFAULT_PUSH_SUBSCRIPTION
+          : { ...DEFAULT_PUSH_SUBSCRIPTION, isEnabled: false },
+        shifts: (shiftsResult.data ?? []).map((shift) => ({
+          dayOfWeek: shift.day_of_week,
+          startTime: toTimeOfDay(shift.start_time),
+          endTime: toTimeOfDay(shift.end_time),
+        })),
+        activeDeviceCount: devicesResult.count ?? 0,
+      };
+    }),
+
+  /**
+   * Create or update the current user's push preferences for the clinic
+   */
+  updatePushSubscription: protectedProcedure
+    .input(clinicLookupSchema.extend({ subscription: pushSubscriptionSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { error } = await ctx.supabase
+        .from("push_notification_subscriptions")
+        .upsert(
+          {
+            user_id: ctx.user.id,
+            clinic_id: clinic.id,
+            notification_types: input.subscription.notificationTypes,
+            only_when_on_call: input.subscription.onlyWhenOnCall,
+            is_enabled: input.subscription.isEnabled,
+          },
+          { onConflict: "user_id,clinic_id" },
+        );
+
+      if (error) {
+        throw new Error(`Failed to update push subscription: ${error.message}`);
+      }
+
+      return { subscription: input.subscription };
+    }),
+
+  /**
+   * Replace the current user's weekly on-call shifts for the clinic
+   */
+  replaceMyOnCallShifts: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        shifts: z.array(onCallShiftSchema).max(21),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { error: deleteError } = await ctx.supabase
+        .from("on_call_shifts")
+        .delete()
+        .eq("user_id", ctx.user.id)
+        .eq("clinic_id", clinic.id);
+
+      if (deleteError) {
+        throw new Error(
+          `Failed to clear on-call shifts: ${deleteError.message}`,
+        );
+      }
+
+      if (input.shifts.length > 0) {
+        const { error: insertError } = await ctx.supabase
+          .from("on_call_shifts")
+          .insert(
+            input.shifts.map((shift) => ({
+              user_id: ctx.user.id,
+              clinic_id: clinic.id,
+              day_of_week: shift.dayOfWeek,
+              start_time: shift.startTime,
+              end_time: shift.endTime,
+            })),
+          );
+
+        if (insertError) {
+          throw new Error(
+            `Failed to save on-call shifts: ${insertError.message}`,
+          );
+        }
+      }
+
+      return { shifts: input.shifts };
+    }),
+});
@@ -0,0 +1,84 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  clinicLookupSchema,
+  resolveAccessibleClinic,
+} from "~/server/api/trpc/middleware";
+import {
+  callRetryPolicySchema,
+  DEFAULT_CALL_RETRY_POLICY,
+} from "@odis-ai/shared/validators";
+
+/**
+ * Call Retry Policy Router
+ *
+ * Manages how failed outbound calls are retried (clinics.call_retry_policy)
+ */
+export const retryPolicyRouter = createTRPCRouter({
+  /**
+   * Get the clinic's retry policy, with defaults filled in
+   */
+  getRetryPolicy: protectedProcedure
+    .input(clinicLookupSchema.optional())
+    .query(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { data, error } = await ctx.supabase
+        .from("clinics")
+        .select("call_retry_policy")
+        .eq("id", clinic.id)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to fetch retry policy: ${error.message}`);
+      }
+
+      const parsed = callRetryPolicySchema.safeParse(
+        data.call_retry_policy ?? {},
+      );
+
+      return {
+        policy: parsed.success ? parsed.data : DEFAULT_CALL_RETRY_POLICY,
+        isCustom: data.call_retry_policy !== null,
+      };
+    }),
+
+  /**
+   * Update the clinic's retry policy
+   *
+   * Pass `policy: null` to go back to the defaults.
+   */
+  updateRetryPolicy: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        policy: callRetryPolicySchema.nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { error } = await ctx.supabase
+        .from("clinics")
+        .update({
+          call_retry_policy: input.policy,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", clinic.id);
+
+      if (error) {
+        throw new Error(`Failed to update retry policy: ${error.message}`);
+      }
+
+      return {
+        policy: input.policy ?? DEFAULT_CALL_RETRY_POLICY,
+        isCustom: input.policy !== null,
+      };
+    }),
+});
@@ -0,0 +1,223 @@
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  clinicLookupSchema,
+  resolveAccessibleClinic,
+} from "~/server/api/trpc/middleware";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import {
+  slackNotificationPreferencesSchema,
+  slackNotificationRouteSchema,
+  slackNotificationTypeSchema,
+  DEFAULT_SLACK_NOTIFICATION_PREFERENCES,
+} from "@odis-ai/shared/validators";
+
+/**
+ * Slack Notification Settings Router
+ *
+ * Manages per-clinic Slack routing (slack_notification_routes) and
+ * notification preferences (clinics.slack_notification_preferences)
+ */
+export const slackNotificationsRouter = createTRPCRouter({
+  /**
+   * Get the clinic's routes, preferences and the workspaces it can route to
+   */
+  getSlackNotificationSettings: protectedProcedure
+    .input(clinicLookupSchema.optional())
+    .query(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      // Workspaces and routes are admin-installed; read them with the service client
+      const serviceClient = await createServiceClient();
+
+      const [routesResult, clinicResult, workspacesResult] = await Promise.all([
+        serviceClient
+          .from("slack_notification_routes")
+          .select("*")
+          .eq("clinic_id", clinic.id),
+        serviceClient
+          .from("clinics")
+          .select("slack_notification_preferences")
+          .eq("id", clinic.id)
+          .single(),
+        serviceClient
+          .from("slack_workspaces")
+          .select("id, team_name")
+          .eq("is_active", true)
+          .order("team_name"),
+      ]);
+
+      if (routesResult.error) {
+        throw new Error(
+          `Failed to fetch Slack routes: ${routesResult.error.message}`,
+        );
+      }
+
+      const parsed = slackNotificationPreferencesSchema.safeParse(
+        clinicResult.data?.slack_notification_preferences ?? {},
+      );
+
+      return {
+        routes: (routesResult.data ?? []).map((route) => ({
+          id: route.id,
+          notificationType: route.notification_type,
+          workspaceId: route.workspace_id,
+          channelId: route.channel_id,
+          channelName: route.channel_name,
+          minSeverity: route.min_severity,
+          deliveryMode: route.delivery_mode,
+          isEnabled: route.is_enabled,
+        })),
+        preferences: parsed.success
+          ? parsed.data
+          : DEFAULT_SLACK_NOTIFICATION_PREFERENCES,
+        workspaces: (workspacesResult.data ?? []).map((workspace) => ({
+          id: workspace.id,
+          name: workspace.team_name,
+        })),
+      };
+    }),
+
+  /**
+   * Create or replace the clinic's route for a notification type
+   *
+   * The bot must be able to see the channel; its name is stored for display.
+   */
+  upsertSlackNotificationRoute: protectedProcedure
+    .input(clinicLookupSchema.extend({ route: slackNotificationRouteSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+      const serviceClient = await createServiceClient();
+
+      const { data: workspace } = await serviceClient
+        .from("slack_workspaces")
+        .select("team_id")
+        .eq("id", input.route.workspaceId)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (!workspace) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Slack workspace not found or no longer installed",
+        });
+      }
+
+      const { slackClient, ensureSlackClientInitialized } =
+        await import("@odis-ai/integrations/slack");
+      ensureSlackClientInitialized();
+
+      const channel = await slackClient.getChannelInfo(
+        workspace.team_id,
+        input.route.channelId,
+      );
+      if (!channel) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            "Channel not found. Check the channel ID and invite the ODIS bot to the channel.",
+        });
+      }
+
+      const { data, error } = await serviceClient
+        .from("slack_notification_routes")
+        .upsert(
+          {
+            clinic_id: clinic.id,
+            notification_type: input.route.notificationType,
+            workspace_id: input.route.workspaceId,
+            channel_id: channel.id,
+            channel_name: channel.name,
+            min_severity: input.route.minSeverity,
+            delivery_mode: input.route.deliveryMode,
+            is_enabled: input.route.isEnabled,
+          },
+          { onConflict: "clinic_id,notification_type" },
+        )
+        .select("id, channel_name")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save Slack route: ${error.message}`);
+      }
+
+      return { id: data.id, channelName: data.channel_name };
+    }),
+
+  /**
+   * Remove the clinic's route for a notification type
+   * The type falls back to the default (env-configured) channel.
+   */
+  deleteSlackNotificationRoute: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        notificationType: slackNotificationTypeSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+      const serviceClient = await createServiceClient();
+
+      const { error } = await serviceClient
+        .from("slack_notification_routes")
+        .delete()
+        .eq("clinic_id", clinic.id)
+        .eq("notification_type", input.notificationType);
+
+      if (error) {
+        throw new Error(`Failed to delete Slack route: ${error.message}`);
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Update quiet hours and bypass severity
+   *
+   * Pass `preferences: null` to go back to the defaults.
+   */
+  updateSlackNotificationPreferences: protectedProcedure
+    .input(
+      clinicLookupSchema.extend({
+        preferences: slackNotificationPreferencesSchema.nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clinic = await resolveAccessibleClinic(
+        ctx.user.id,
+        ctx.supabase,
+        input,
+      );
+
+      const { error } = await ctx.supabase
+        .from("clinics")
+        .update({
+          slack_notification_preferences: input.preferences,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", clinic.id);
+
+      if (error) {
+        throw new Error(
+          `Failed to update Slack notification preferences: ${error.message}`,
+        );
+      }
+
+      return {
+        preferences:
+          input.preferences ?? DEFAULT_SLACK_NOTIFICATION_PREFERENCES,
+      };
+    }),
+});
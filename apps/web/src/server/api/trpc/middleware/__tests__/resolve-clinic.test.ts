@@ -0,0 +1,90 @@
+/**
+ * Tests for resolveAccessibleClinic
+ * - Falls back to the user's own clinic
+ * - Requested clinics (by ID or slug) must pass the access check
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@odis-ai/shared/types";
+
+vi.mock("~/server/api/trpc", () => ({
+  middleware: vi.fn((fn: unknown) => fn),
+}));
+
+vi.mock("@odis-ai/domain/clinics", () => ({
+  getClinicById: vi.fn(),
+  getClinicBySlug: vi.fn(),
+  getClinicByUserId: vi.fn(),
+  getClinicUserIds: vi.fn(),
+  getClinicUserIdsEnhanced: vi.fn(),
+  getUserIdsByClinicName: vi.fn(),
+  buildClinicScopeFilter: vi.fn(),
+  userHasClinicAccess: vi.fn(),
+}));
+
+import {
+  getClinicById,
+  getClinicBySlug,
+  getClinicByUserId,
+  userHasClinicAccess,
+} from "@odis-ai/domain/clinics";
+import { resolveAccessibleClinic } from "../resolve-clinic";
+
+const supabase = {} as SupabaseClient<Database>;
+const ownClinic = { id: "clinic-own", slug: "own" } as Awaited<
+  ReturnType<typeof getClinicByUserId>
+>;
+const otherClinic = {
+  id: "6f1c2f6e-9a43-4c4b-8a57-0f6c1c7d2a10",
+  slug: "other",
+} as Awaited<ReturnType<typeof getClinicById>>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getClinicByUserId).mockResolvedValue(ownClinic);
+  vi.mocked(getClinicById).mockResolvedValue(otherClinic);
+  vi.mocked(getClinicBySlug).mockResolvedValue(otherClinic);
+});
+
+describe("resolveAccessibleClinic", () => {
+  it("uses the user's own clinic when none is requested", async () => {
+    await expect(
+      resolveAccessibleClinic("user-1", supabase, undefined),
+    ).resolves.toBe(ownClinic);
+    expect(userHasClinicAccess).not.toHaveBeenCalled();
+  });
+
+  it("returns a requested clinic the user can access", async () => {
+    vi.mocked(userHasClinicAccess).mockResolvedValue(true);
+
+    await expect(
+      resolveAccessibleClinic("user-1", supabase, { clinicSlug: "other" }),
+    ).resolves.toBe(otherClinic);
+    expect(userHasClinicAccess).toHaveBeenCalledWith(
+      "user-1",
+      otherClinic?.id,
+      supabase,
+    );
+  });
+
+  it("refuses a clinic ID the user can't access", async () => {
+    vi.mocked(userHasClinicAccess).mockResolvedValue(false);
+
+    await expect(
+      resolveAccessibleClinic("user-1", supabase, {
+        clinicId: otherClinic!.id,
+      }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("reports a missing clinic as not found", async () => {
+    vi.mocked(getClinicById).mockResolvedValue(null);
+
+    await expect(
+      resolveAccessibleClinic("user-1", supabase, {
+        clinicId: otherClinic!.id,
+      }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
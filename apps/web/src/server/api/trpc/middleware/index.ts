@@ -7,10 +7,13 @@
 export {
   clinicMiddleware,
   resolveClinicWithSlug,
+  resolveAccessibleClinic,
+  clinicLookupSchema,
   verifyClinicOwnership,
   getUserIdsByClinicName,
   buildClinicScopeFilter,
   userHasClinicAccess,
   type ClinicContext,
   type ClinicWithSlugContext,
+  type ClinicLookup,
 } from "./resolve-clinic";
@@ -10,9 +10,11 @@
  * - Entity ownership verification (verify entity belongs to clinic)
  */
 
+import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { middleware } from "~/server/api/trpc";
 import {
+  getClinicById,
   getClinicByUserId,
   getClinicBySlug,
   getClinicUserIds,
@@ -189,6 +191,73 @@ export async function resolveClinicWithSlug(
   };
 }
 
+/**
+ * Optional clinic selector accepted by clinic settings procedures
+ */
+export const clinicLookupSchema = z.object({
+  clinicSlug: z.string().optional(),
+  clinicId: z.string().uuid().optional(),
+});
+
+export type ClinicLookup = z.infer<typeof clinicLookupSchema> | undefined;
+
+/**
+ * Resolve the clinic a procedure acts on
+ *
+ * Prioritizes clinicId, then clinicSlug, then the user's own clinic. An
+ * explicitly requested clinic must pass userHasClinicAccess.
+ *
+ * @throws TRPCError NOT_FOUND if the clinic doesn't exist
+ * @throws TRPCError FORBIDDEN if the user can't access the requested clinic
+ *
+ * @example
+ * ```ts
+ * const myProcedure = protectedProcedure
+ *   .input(clinicLookupSchema.optional())
+ *   .query(async ({ ctx, input }) => {
+ *     const clinic = await resolveAccessibleClinic(
+ *       ctx.user.id,
+ *       ctx.supabase,
+ *       input,
+ *     );
+ *     // Scope queries by clinic.id
+ *   });
+ * ```
+ */
+export async function resolveAccessibleClinic(
+  userId: string,
+  supabase: SupabaseClient<Database>,
+  input: ClinicLookup,
+): Promise<ClinicRow> {
+  let clinic: ClinicRow | null;
+  if (input?.clinicId) {
+    clinic = await getClinicById(input.clinicId, supabase);
+  } else if (input?.clinicSlug) {
+    clinic = await getClinicBySlug(input.clinicSlug, supabase);
+  } else {
+    clinic = await getClinicByUserId(userId, supabase);
+  }
+
+  if (!clinic) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Clinic not found",
+    });
+  }
+
+  if (input?.clinicId || input?.clinicSlug) {
+    const hasAccess = await userHasClinicAccess(userId, clinic.id, supabase);
+    if (!hasAccess) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You do not have access to this clinic",
+      });
+    }
+  }
+
+  return clinic;
+}
+
 /**
  * Entity ownership verification options
  */
@@ -63,6 +63,7 @@ export const CORS_ALLOWED_HEADERS = [
   "Authorization",
   "X-Requested-With",
   "Accept",
+  "Idempotency-Key",
 ] as const;
 
 /**
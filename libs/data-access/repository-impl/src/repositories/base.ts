@@ -238,9 +238,10 @@ export abstract class BaseRepository<T extends Record<string, unknown>> {
   async create(data: Partial<T>): Promise<T> {
     this.logger.info("Creating record", { data });
 
+    const values: Record<string, unknown> = data;
     const { data: created, error } = await this.supabase
       .from(this.tableName)
-      .insert(data)
+      .insert(values)
       .select()
       .single();
 
@@ -284,9 +285,10 @@ export abstract class BaseRepository<T extends Record<string, unknown>> {
   async update(id: string, data: Partial<T>): Promise<T> {
     this.logger.info("Updating record", { id, data });
 
+    const values: Record<string, unknown> = data;
     const { data: updated, error } = await this.supabase
       .from(this.tableName)
-      .update(data)
+      .update(values)
       .eq("id", id)
       .select()
       .single();
@@ -332,7 +334,8 @@ export abstract class BaseRepository<T extends Record<string, unknown>> {
   async updateMany(criteria: Partial<T>, data: Partial<T>): Promise<T[]> {
     this.logger.info("Updating multiple records", { criteria, data });
 
-    let query = this.supabase.from(this.tableName).update(data);
+    const values: Record<string, unknown> = data;
+    let query = this.supabase.from(this.tableName).update(values);
 
     // Apply criteria filters
     for (const [key, value] of Object.entries(criteria)) {
@@ -5,7 +5,7 @@
  */
 
 import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
-import type { Json } from "@odis-ai/shared/types";
+import type { Database, Json } from "@odis-ai/shared/types";
 import type {
   AutoSchedulingConfig,
   AutoSchedulingConfigInput,
@@ -100,7 +100,8 @@ export async function updateConfig(
   // Ensure config exists
   await getOrCreateConfig(supabase, clinicId);
 
-  const updates: Record<string, unknown> = {};
+  const updates: Database["public"]["Tables"]["auto_scheduling_config"]["Update"] =
+    {};
 
   if (input.isEnabled !== undefined) updates.is_enabled = input.isEnabled;
   if (input.autoEmailEnabled !== undefined)
@@ -185,6 +185,7 @@ export async function checkExistingSchedules(
     .from("scheduled_discharge_calls")
     .select("id, status")
     .eq("case_id", caseId)
+    .eq("call_type", "discharge")
     .not("status", "in", '("failed","canceled")')
     .limit(1);
 
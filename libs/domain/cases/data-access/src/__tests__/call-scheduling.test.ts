@@ -0,0 +1,243 @@
+/**
+ * Tests for follow-up call scheduling
+ * - getFollowUpCallTime: clinic opening on the follow-up day, in the
+ *   clinic's timezone, skipping closed days
+ * - scheduleFollowUpCall: stored as a follow-up call with the clinic's
+ *   phone, rescheduled instead of duplicated, placed now in test mode
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ICallExecutor } from "@odis-ai/domain/shared";
+import type { DailyHours } from "@odis-ai/shared/types";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import type { NormalizedEntities } from "@odis-ai/shared/validators";
+
+const { getCaseWithEntities, getClinicByUserId, scheduleCallExecution } =
+  vi.hoisted(() => ({
+    getCaseWithEntities: vi.fn(),
+    getClinicByUserId: vi.fn(),
+    scheduleCallExecution: vi.fn(async () => "qstash-1"),
+  }));
+
+vi.mock("../lib/case-crud", () => ({ getCaseWithEntities }));
+
+vi.mock("@odis-ai/domain/clinics/utils", () => ({ getClinicByUserId }));
+
+vi.mock("@odis-ai/domain/clinics/vapi-config", () => ({
+  getClinicVapiConfigByUserId: vi.fn(async () => ({
+    phoneNumberId: "phone-number-1",
+    followUpAssistantId: "followup-assistant",
+  })),
+}));
+
+vi.mock("@odis-ai/integrations/qstash/client", () => ({
+  scheduleCallExecution,
+}));
+
+import {
+  getFollowUpCallTime,
+  scheduleFollowUpCall,
+} from "../lib/call-scheduling";
+
+type Row = Record<string, unknown>;
+
+const CLINIC_HOURS: DailyHours = {
+  "0": { enabled: false },
+  "1": { enabled: true, open: "08:00", close: "18:00" },
+  "2": { enabled: true, open: "08:00", close: "18:00" },
+  "3": { enabled: true, open: "08:00", close: "18:00" },
+  "4": { enabled: true, open: "08:00", close: "18:00" },
+  "5": { enabled: true, open: "08:00", close: "18:00" },
+  "6": { enabled: true, open: "10:00", close: "14:00" },
+};
+
+const entities: NormalizedEntities = {
+  patient: {
+    name: "Max",
+    species: "dog",
+    owner: { name: "Jane Smith", phone: "(555) 555-0123" },
+  },
+  clinical: { diagnoses: ["ear infection"] },
+  caseType: "checkup",
+  confidence: { overall: 0.9, patient: 0.9, clinical: 0.9 },
+};
+
+/**
+ * Supabase stand-in: single/maybeSingle resolve to the table's configured
+ * row, writes are recorded per table
+ */
+function makeSupabase(rows: Record<string, Row | null>) {
+  const writes: Array<{ table: string; op: string; values: Row }> = [];
+  const from = vi.fn((table: string) => {
+    let saved: Row | null = null;
+    const builder: Record<string, unknown> = {};
+    for (const op of ["select", "eq", "order", "limit"]) {
+      builder[op] = vi.fn(() => builder);
+    }
+    for (const op of ["insert", "update"]) {
+      builder[op] = vi.fn((values: Row) => {
+        writes.push({ table, op, values });
+        saved = { id: "call-1", ...values };
+        return builder;
+      });
+    }
+    const result = async () => ({ data: saved ?? rows[table] ?? null });
+    builder.single = vi.fn(result);
+    builder.maybeSingle = vi.fn(result);
+    builder.then = (resolve: (value: { error: null }) => unknown) =>
+      resolve({ error: null });
+    return builder;
+  });
+  return { supabase: { from } as unknown as SupabaseClientType, writes };
+}
+
+describe("getFollowUpCallTime", () => {
+  const timezone = "America/Los_Angeles";
+
+  it("uses the clinic's opening time, not the visit's time of day", () => {
+    // Tuesday 3:30 PM PDT
+    const visit = new Date("2026-03-10T22:30:00Z");
+
+    expect(
+      getFollowUpCallTime(visit, 2, { timezone, dailyHours: CLINIC_HOURS }),
+    ).toEqual(new Date("2026-03-12T15:00:00Z"));
+  });
+
+  it("counts days in the clinic's timezone", () => {
+    // Tuesday 10 PM PDT, already Wednesday in UTC
+    const visit = new Date("2026-03-11T05:00:00Z");
+
+    expect(
+      getFollowUpCallTime(visit, 1, { timezone, dailyHours: CLINIC_HOURS }),
+    ).toEqual(new Date("2026-03-11T15:00:00Z"));
+  });
+
+  it("moves to the next open day when the clinic is closed", () => {
+    // Friday visit, follow-up lands on Sunday
+    const visit = new Date("2026-03-13T18:00:00Z");
+
+    expect(
+      getFollowUpCallTime(visit, 2, { timezone, dailyHours: CLINIC_HOURS }),
+    ).toEqual(new Date("2026-03-16T15:00:00Z"));
+  });
+
+  it("uses weekday 9-5 when the clinic has no hours configured", () => {
+    const visit = new Date("2026-03-13T18:00:00Z");
+
+    expect(getFollowUpCallTime(visit, 1, { timezone })).toEqual(
+      new Date("2026-03-16T16:00:00Z"),
+    );
+  });
+});
+
+describe("scheduleFollowUpCall", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-10T23:00:00Z"));
+
+    getCaseWithEntities.mockResolvedValue({
+      case: {
+        id: "case-1",
+        scheduled_at: "2026-03-10T22:30:00Z",
+        created_at: "2026-03-10T22:30:00Z",
+      },
+      entities: structuredClone(entities),
+      patient: null,
+      soapNotes: null,
+      dischargeSummaries: null,
+    });
+    getClinicByUserId.mockResolvedValue({
+      id: "clinic-1",
+      name: "Alum Rock Animal Hospital",
+      phone: "(555) 555-0100",
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stores a follow-up call at clinic opening with the clinic's phone", async () => {
+    const { supabase, writes } = makeSupabase({
+      users: { test_mode_enabled: false, clinic_phone: "(555) 555-0199" },
+      clinic_schedule_config: { timezone: "America/Los_Angeles" },
+    });
+
+    const call = await scheduleFollowUpCall(supabase, "user-1", "case-1", {
+      reason: "recheck",
+      daysAfterVisit: 3,
+    });
+
+    const insert = writes.find(
+      (write) =>
+        write.table === "scheduled_discharge_calls" && write.op === "insert",
+    );
+    expect(insert?.values).toMatchObject({
+      call_type: "follow-up",
+      assistant_id: "followup-assistant",
+      customer_phone: "+15555550123",
+      // Friday 9 AM PDT
+      scheduled_for: "2026-03-13T16:00:00.000Z",
+    });
+    expect(insert?.values.dynamic_variables).toMatchObject({
+      clinic_name: "Alum Rock Animal Hospital",
+      clinic_phone: "(555) 555-0100",
+      call_type: "follow-up",
+    });
+    expect(scheduleCallExecution).toHaveBeenCalledWith(
+      call.id,
+      new Date("2026-03-13T16:00:00.000Z"),
+    );
+  });
+
+  it("reschedules a queued follow-up for the same reason", async () => {
+    const { supabase, writes } = makeSupabase({
+      users: { test_mode_enabled: false },
+      scheduled_discharge_calls: { id: "existing-call" },
+    });
+
+    await scheduleFollowUpCall(supabase, "user-1", "case-1", {
+      reason: "recheck",
+      daysAfterVisit: 3,
+      clinicPhone: "(555) 555-0111",
+    });
+
+    const callWrites = writes.filter(
+      (write) => write.table === "scheduled_discharge_calls",
+    );
+    expect(callWrites.map((write) => write.op)).toEqual(["update", "update"]);
+    expect(callWrites[0]?.values.dynamic_variables).toMatchObject({
+      clinic_phone: "(555) 555-0111",
+    });
+  });
+
+  it("places the call right away in test mode", async () => {
+    const { supabase } = makeSupabase({
+      users: { test_mode_enabled: true, test_contact_phone: "555-555-0142" },
+    });
+    const executeScheduledCall = vi.fn(async () => ({ success: true }));
+
+    await scheduleFollowUpCall(
+      supabase,
+      "user-1",
+      "case-1",
+      { reason: "recheck", daysAfterVisit: 3 },
+      { executeScheduledCall } as unknown as ICallExecutor,
+    );
+
+    expect(executeScheduledCall).toHaveBeenCalledWith("call-1", supabase);
+    expect(scheduleCallExecution).not.toHaveBeenCalled();
+  });
+
+  it("requires lab results for a lab results follow-up", async () => {
+    const { supabase } = makeSupabase({});
+
+    await expect(
+      scheduleFollowUpCall(supabase, "user-1", "case-1", {
+        reason: "lab_results",
+        daysAfterVisit: 3,
+      }),
+    ).rejects.toThrow("labResultsSummary is required");
+  });
+});
@@ -1,7 +1,8 @@
 /**
  * Call Scheduling Functions
  *
- * Handles scheduling discharge calls with VAPI, QStash, and test mode support.
+ * Handles scheduling discharge and follow-up calls with VAPI, QStash, and
+ * test mode support.
  */
 
 import type { Database } from "@odis-ai/data-access/db";
@@ -10,13 +11,19 @@ import type { AIGeneratedCallIntelligence } from "@odis-ai/integrations/vapi/typ
 import type { CaseMetadata } from "@odis-ai/shared/types/case";
 import type {
   CaseScheduleOptions,
+  FollowUpScheduleOptions,
   ScheduledCallMetadata,
   ScheduledDischargeCall,
 } from "@odis-ai/shared/types/services";
 import type { ICallExecutor } from "@odis-ai/domain/shared";
 import type { NormalizedEntities } from "@odis-ai/shared/validators";
+import type { DailyHours } from "@odis-ai/shared/types";
 
+import { addDays, startOfDay } from "date-fns";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
 import { normalizeToE164 } from "@odis-ai/shared/util/phone";
+import { isWithinBusinessHoursPerDay } from "@odis-ai/shared/util/business-hours";
+import { getClinicByUserId } from "@odis-ai/domain/clinics/utils";
 import { getClinicVapiConfigByUserId } from "@odis-ai/domain/clinics/vapi-config";
 
 import { getCaseWithEntities } from "./case-crud";
@@ -566,6 +573,7 @@ export async function scheduleDischargeCall(
       .select("id, status, vapi_call_id, scheduled_for")
       .eq("case_id", caseId)
       .eq("user_id", userId)
+      .eq("call_type", "discharge")
       .order("created_at", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -678,6 +686,7 @@ export async function scheduleDischargeCall(
       const scheduledCallInsert: ScheduledCallInsert = {
         user_id: userId,
         case_id: caseId,
+        call_type: "discharge",
         assistant_id: assistantId ?? null,
         outbound_phone_number_id: phoneNumberId ?? null,
         customer_phone: customerPhone,
@@ -820,3 +829,328 @@ export async function scheduleDischargeCall(
     throw error;
   }
 }
+
+const DEFAULT_CLINIC_TIMEZONE = "America/Los_Angeles";
+const FOLLOW_UP_SEARCH_DAYS = 7;
+const FOLLOW_UP_SEARCH_STEP_MINUTES = 15;
+
+const WEEKDAY_HOURS = { enabled: true, open: "09:00", close: "17:00" };
+
+/**
+ * Hours used when the clinic hasn't configured daily_hours: weekdays 9-5
+ */
+const DEFAULT_FOLLOW_UP_HOURS: DailyHours = {
+  "0": { enabled: false },
+  "1": WEEKDAY_HOURS,
+  "2": WEEKDAY_HOURS,
+  "3": WEEKDAY_HOURS,
+  "4": WEEKDAY_HOURS,
+  "5": WEEKDAY_HOURS,
+  "6": { enabled: false },
+};
+
+/**
+ * Clinic schedule a follow-up call is placed in
+ */
+export interface FollowUpCallSchedule {
+  /** IANA timezone of the clinic */
+  timezone: string;
+  /** Per-day business hours (clinic_schedule_config.daily_hours) */
+  dailyHours?: DailyHours | null;
+}
+
+/**
+ * When to place a follow-up call
+ *
+ * Counts `daysAfterVisit` calendar days from the visit in the clinic's
+ * timezone and returns the first open time from the start of that day, so
+ * the call lands at opening rather than at the visit's time of day.
+ *
+ * @param visitDate - When the visit happened
+ * @param daysAfterVisit - Whole days after the visit
+ * @param schedule - Clinic timezone and business hours
+ * @returns Time to place the call
+ */
+export function getFollowUpCallTime(
+  visitDate: Date,
+  daysAfterVisit: number,
+  schedule: FollowUpCallSchedule,
+): Date {
+  const dailyHours = schedule.dailyHours ?? DEFAULT_FOLLOW_UP_HOURS;
+  const followUpDay = startOfDay(
+    addDays(toZonedTime(visitDate, schedule.timezone), daysAfterVisit),
+  );
+  const dayStart = fromZonedTime(followUpDay, schedule.timezone);
+
+  const maxSteps =
+    (FOLLOW_UP_SEARCH_DAYS * 24 * 60) / FOLLOW_UP_SEARCH_STEP_MINUTES;
+  for (let step = 0; step < maxSteps; step++) {
+    const candidate = new Date(
+      dayStart.getTime() + step * FOLLOW_UP_SEARCH_STEP_MINUTES * 60 * 1000,
+    );
+    if (isWithinBusinessHoursPerDay(candidate, dailyHours, schedule.timezone)) {
+      return candidate;
+    }
+  }
+
+  if (!schedule.dailyHours) return dayStart;
+
+  console.warn(
+    "[CallScheduling] No open hours found for follow-up call - using weekday hours",
+    { timezone: schedule.timezone, searchDays: FOLLOW_UP_SEARCH_DAYS },
+  );
+  return getFollowUpCallTime(visitDate, daysAfterVisit, {
+    timezone: schedule.timezone,
+  });
+}
+
+/**
+ * Schedule a post-visit follow-up call linked to a case
+ *
+ * Separate from the discharge call: placed at clinic opening `daysAfterVisit`
+ * days after the visit with the clinic's follow-up assistant
+ * (outbound_followup prompt). Clinic name and phone come from the clinic
+ * unless passed in. A queued follow-up for the same reason is rescheduled
+ * instead of duplicated.
+ */
+export async function scheduleFollowUpCall(
+  supabase: SupabaseClientType,
+  userId: string,
+  caseId: string,
+  options: FollowUpScheduleOptions,
+  callExecutor?: ICallExecutor,
+): Promise<ScheduledDischargeCall> {
+  console.log("[CallScheduling] scheduleFollowUpCall ENTRY", {
+    caseId,
+    userId,
+    reason: options.reason,
+    daysAfterVisit: options.daysAfterVisit,
+  });
+
+  if (!Number.isInteger(options.daysAfterVisit) || options.daysAfterVisit < 1) {
+    throw new Error("daysAfterVisit must be a positive whole number of days");
+  }
+  if (options.reason === "lab_results" && !options.labResultsSummary) {
+    throw new Error("labResultsSummary is required for lab_results follow-ups");
+  }
+
+  const caseInfo = await getCaseWithEntities(supabase, caseId);
+  if (!caseInfo) throw new Error("Case not found");
+
+  const entities = caseInfo.entities;
+  if (!entities) throw new Error("Case has no entities");
+  enrichEntitiesWithPatient(entities, caseInfo.patient as PatientRow | null);
+
+  const clientInstructions = getClientInstructions(caseInfo, caseId);
+  if (clientInstructions) {
+    entities.clinical.followUpInstructions = clientInstructions;
+  }
+
+  const clinicVapiConfig = await getClinicVapiConfigByUserId(userId, supabase);
+  const assistantId =
+    options.assistantId ?? clinicVapiConfig.followUpAssistantId;
+  const phoneNumberId = options.phoneNumberId ?? clinicVapiConfig.phoneNumberId;
+  if (!assistantId) {
+    throw new Error("No follow-up assistant is configured for this clinic");
+  }
+
+  const { data: userSettings } = await supabase
+    .from("users")
+    .select("clinic_name, clinic_phone, test_mode_enabled, test_contact_phone")
+    .eq("id", userId)
+    .single();
+
+  const clinic = await getClinicByUserId(userId, supabase);
+  const clinicName =
+    options.clinicName ?? clinic?.name ?? userSettings?.clinic_name;
+  const clinicPhone =
+    options.clinicPhone ?? clinic?.phone ?? userSettings?.clinic_phone ?? "";
+
+  // Build variables for the outbound_followup prompt
+  const visitDate = new Date(
+    caseInfo.case.scheduled_at ?? caseInfo.case.created_at ?? Date.now(),
+  );
+  const {
+    buildVapiVariablesFromEntities,
+    extractFollowUpVariablesFromEntities,
+  } = await import("@odis-ai/integrations/vapi/extract-variables");
+  const { normalizeVariablesToSnakeCase } =
+    await import("@odis-ai/integrations/vapi/utils");
+  const variablesResult = buildVapiVariablesFromEntities(entities, {
+    clinicName: clinicName ?? "Your Clinic",
+    agentName: options.agentName ?? "Sarah",
+    clinicPhone,
+    emergencyPhone: options.emergencyPhone ?? clinicPhone,
+    appointmentDate: visitDate.toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+    }),
+    callType: "follow-up",
+    daysSinceTreatment: options.daysAfterVisit,
+  });
+  const dynamicVariables = {
+    ...extractFollowUpVariablesFromEntities(entities, {
+      reason: options.reason,
+      daysSinceVisit: options.daysAfterVisit,
+      labResultsSummary: options.labResultsSummary,
+    }),
+    ...normalizeVariablesToSnakeCase(
+      variablesResult.variables as unknown as Record<string, unknown>,
+    ),
+  };
+
+  // Customer phone (with test mode support)
+  const testModeEnabled = userSettings?.test_mode_enabled ?? false;
+  let customerPhone = entities.patient.owner.phone ?? "";
+  if (testModeEnabled) {
+    if (!userSettings?.test_contact_phone) {
+      throw new Error(
+        "Test mode is enabled but test contact phone is not configured",
+      );
+    }
+    customerPhone = userSettings.test_contact_phone;
+  } else if (!customerPhone) {
+    throw new Error("Patient phone number is required to schedule call");
+  }
+
+  const normalizedPhone = normalizeToE164(customerPhone);
+  if (!normalizedPhone) {
+    throw new Error(`Invalid phone number format: ${customerPhone}`);
+  }
+
+  let followUpAt = options.scheduledAt;
+  if (!followUpAt) {
+    const { data: scheduleConfig } = clinic
+      ? await supabase
+          .from("clinic_schedule_config")
+          .select("timezone, daily_hours")
+          .eq("clinic_id", clinic.id)
+          .maybeSingle()
+      : { data: null };
+    followUpAt = getFollowUpCallTime(visitDate, options.daysAfterVisit, {
+      timezone: scheduleConfig?.timezone ?? DEFAULT_CLINIC_TIMEZONE,
+      dailyHours: (scheduleConfig?.daily_hours as DailyHours | null) ?? null,
+    });
+  }
+
+  const scheduledAt = determineScheduledTime(
+    followUpAt,
+    null,
+    testModeEnabled,
+    new Date(),
+  );
+
+  const metadata: ScheduledCallMetadata = {
+    notes: options.notes,
+    followup_reason: options.reason,
+    retry_count: 0,
+    max_retries: 1,
+  };
+
+  const { data: existingCall } = await supabase
+    .from("scheduled_discharge_calls")
+    .select("id")
+    .eq("case_id", caseId)
+    .eq("user_id", userId)
+    .eq("call_type", "follow-up")
+    .eq("status", "queued")
+    .eq("metadata->>followup_reason", options.reason)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const callData = {
+    assistant_id: assistantId,
+    outbound_phone_number_id: phoneNumberId ?? null,
+    customer_phone: normalizedPhone,
+    scheduled_for: scheduledAt.toISOString(),
+    status: "queued",
+    dynamic_variables: dynamicVariables as Json,
+    metadata: metadata as Json,
+  };
+
+  const { data: savedCall, error } = existingCall
+    ? await supabase
+        .from("scheduled_discharge_calls")
+        .update(callData)
+        .eq("id", existingCall.id)
+        .select()
+        .single()
+    : await supabase
+        .from("scheduled_discharge_calls")
+        .insert({
+          ...callData,
+          user_id: userId,
+          case_id: caseId,
+          call_type: "follow-up",
+        })
+        .select()
+        .single();
+
+  if (error || !savedCall) {
+    throw new Error(
+      `Failed to schedule follow-up call: ${error?.message ?? "Unknown error"}`,
+    );
+  }
+
+  const scheduledCall = savedCall as ScheduledDischargeCall;
+
+  if (testModeEnabled) {
+    let result;
+    if (callExecutor) {
+      result = await callExecutor.executeScheduledCall(
+        scheduledCall.id,
+        supabase,
+      );
+    } else {
+      const { executeScheduledCall } =
+        // eslint-disable-next-line @nx/enforce-module-boundaries
+        await import("@odis-ai/domain/discharge/call-executor");
+      result = await executeScheduledCall(scheduledCall.id, supabase);
+    }
+
+    if (!result.success) {
+      console.error("[CallScheduling] Immediate follow-up call failed", {
+        callId: scheduledCall.id,
+        error: result.error,
+      });
+    }
+  } else {
+    const { scheduleCallExecution } =
+      await import("@odis-ai/integrations/qstash/client");
+    try {
+      const qstashMessageId = await scheduleCallExecution(
+        scheduledCall.id,
+        scheduledAt,
+      );
+      await supabase
+        .from("scheduled_discharge_calls")
+        .update({
+          metadata: {
+            ...metadata,
+            qstash_message_id: qstashMessageId,
+          } as Json,
+        })
+        .eq("id", scheduledCall.id);
+    } catch (qstashError) {
+      // Roll back new records so they don't show as "Scheduled"
+      if (!existingCall) {
+        await supabase
+          .from("scheduled_discharge_calls")
+          .delete()
+          .eq("id", scheduledCall.id);
+      }
+      throw qstashError;
+    }
+  }
+
+  console.log("[CallScheduling] scheduleFollowUpCall EXIT — success", {
+    caseId,
+    callId: scheduledCall.id,
+    reason: options.reason,
+    scheduledFor: scheduledCall.scheduled_for,
+    rescheduled: !!existingCall,
+  });
+
+  return scheduledCall;
+}
@@ -9,6 +9,7 @@ import type { NormalizedEntities } from "@odis-ai/shared/validators";
 import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
 import type {
   CaseScheduleOptions,
+  FollowUpScheduleOptions,
   IngestPayload,
   ScheduledDischargeCall,
 } from "@odis-ai/shared/types/services";
@@ -28,7 +29,7 @@ import {
   generateAndStoreCallIntelligence,
 } from "./case-ai";
 import { mapIdexxToEntities } from "./case-helpers";
-import { scheduleDischargeCall } from "./call-scheduling";
+import { scheduleDischargeCall, scheduleFollowUpCall } from "./call-scheduling";
 import {
   isEntitiesIncomplete,
   getMissingEntityFields,
@@ -184,6 +185,13 @@ export const CasesService = {
     options: CaseScheduleOptions,
     callExecutor?: ICallExecutor,
   ) => scheduleDischargeCall(supabase, userId, caseId, options, callExecutor),
+  scheduleFollowUpCall: (
+    supabase: SupabaseClientType,
+    userId: string,
+    caseId: string,
+    options: FollowUpScheduleOptions,
+    callExecutor?: ICallExecutor,
+  ) => scheduleFollowUpCall(supabase, userId, caseId, options, callExecutor),
 
   // Entity utility methods
   isEntitiesIncomplete,
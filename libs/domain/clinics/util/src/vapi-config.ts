@@ -76,6 +76,8 @@ export interface ClinicVapiConfig {
   outboundAssistantId: string | null;
   /** VAPI assistant ID for inbound calls */
   inboundAssistantId: string | null;
+  /** VAPI assistant ID for follow-up calls (no shared fallback) */
+  followUpAssistantId: string | null;
   /** VAPI phone number ID for outbound caller ID */
   phoneNumberId: string | null;
   /** Clinic name (for logging/debugging) */
@@ -113,6 +115,7 @@ export async function getClinicVapiConfig(
   const envFallback: ClinicVapiConfig = {
     outboundAssistantId: sharedAssistantId,
     inboundAssistantId: sharedAssistantId,
+    followUpAssistantId: null,
     phoneNumberId: env.VAPI_PHONE_NUMBER_ID?.trim() ?? null,
     clinicName: null,
     source: "env_fallback",
@@ -134,6 +137,7 @@ export async function getClinicVapiConfig(
   const hasClinicConfig =
     clinic.outbound_assistant_id != null ||
     clinic.inbound_assistant_id != null ||
+    clinic.followup_assistant_id != null ||
     clinic.outbound_phone_number_id != null;
 
   if (!hasClinicConfig) {
@@ -157,6 +161,8 @@ export async function getClinicVapiConfig(
     // Prefer clinic-specific assistant, fall back to shared assistant
     outboundAssistantId: clinic.outbound_assistant_id ?? sharedAssistantId,
     inboundAssistantId: clinic.inbound_assistant_id ?? sharedAssistantId,
+    // The shared assistant carries the discharge prompt, so no fallback
+    followUpAssistantId: clinic.followup_assistant_id ?? null,
     // Phone number ID is per-clinic (different SIP trunks)
     phoneNumberId:
       clinic.outbound_phone_number_id?.trim() ??
@@ -194,6 +200,7 @@ export async function getClinicVapiConfigByUserId(
   const envFallback: ClinicVapiConfig = {
     outboundAssistantId: sharedAssistantId,
     inboundAssistantId: sharedAssistantId,
+    followUpAssistantId: null,
     phoneNumberId: env.VAPI_PHONE_NUMBER_ID?.trim() ?? null,
     clinicName: null,
     source: "env_fallback",
@@ -215,6 +222,7 @@ export async function getClinicVapiConfigByUserId(
   const hasClinicConfig =
     clinic.outbound_assistant_id != null ||
     clinic.inbound_assistant_id != null ||
+    clinic.followup_assistant_id != null ||
     clinic.outbound_phone_number_id != null;
 
   if (!hasClinicConfig) {
@@ -241,6 +249,8 @@ export async function getClinicVapiConfigByUserId(
     // Prefer clinic-specific assistant, fall back to shared assistant
     outboundAssistantId: clinic.outbound_assistant_id ?? sharedAssistantId,
     inboundAssistantId: clinic.inbound_assistant_id ?? sharedAssistantId,
+    // The shared assistant carries the discharge prompt, so no fallback
+    followUpAssistantId: clinic.followup_assistant_id ?? null,
     // Phone number ID is per-clinic (different SIP trunks)
     phoneNumberId:
       clinic.outbound_phone_number_id?.trim() ??
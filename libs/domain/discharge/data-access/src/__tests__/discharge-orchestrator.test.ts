@@ -0,0 +1,108 @@
+/**
+ * Tests for DischargeOrchestrator
+ * - Requests the execution plan rejects fail as "invalid" before a run is
+ *   persisted
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import type { User } from "@supabase/supabase-js";
+import type { ICasesService } from "@odis-ai/domain/shared";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import type { OrchestrationRequest } from "@odis-ai/shared/validators/orchestration";
+import {
+  DischargeOrchestrator,
+  OrchestrationRunError,
+  createDischargeStepRegistry,
+} from "../lib/discharge-orchestrator";
+
+declare module "@odis-ai/shared/types/orchestration" {
+  interface CustomStepNames {
+    postToSlack: true;
+  }
+}
+
+const user = { id: "user-1" } as User;
+const casesService = {} as ICasesService;
+
+/**
+ * Supabase stub that fails the test if anything is queried
+ */
+function makeSupabase() {
+  const from = vi.fn(() => {
+    throw new Error("Unexpected query");
+  });
+  return { supabase: { from } as unknown as SupabaseClientType, from };
+}
+
+function request(steps: Record<string, unknown>): OrchestrationRequest {
+  return {
+    input: {
+      existingCase: { caseId: "00000000-0000-0000-0000-000000000001" },
+    },
+    steps: steps as OrchestrationRequest["steps"],
+  };
+}
+
+async function orchestrateError(
+  orchestrator: DischargeOrchestrator,
+  steps: Record<string, unknown>,
+): Promise<unknown> {
+  try {
+    await orchestrator.orchestrate(request(steps));
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected orchestrate to throw");
+}
+
+describe("DischargeOrchestrator.orchestrate", () => {
+  it("rejects steps missing from the registry before creating a run", async () => {
+    const { supabase, from } = makeSupabase();
+    const orchestrator = new DischargeOrchestrator(
+      supabase,
+      user,
+      casesService,
+    );
+
+    const error = await orchestrateError(orchestrator, {
+      ingest: true,
+      postToSlack: true,
+    });
+
+    expect(error).toBeInstanceOf(OrchestrationRunError);
+    expect(error).toMatchObject({
+      code: "invalid",
+      message: expect.stringContaining("postToSlack"),
+    });
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it("rejects options that fail a registered step's schema", async () => {
+    const { supabase, from } = makeSupabase();
+    const registry = createDischargeStepRegistry().register({
+      name: "postToSlack",
+      dependencies: ["generateSummary"],
+      optionsSchema: z.object({ channelId: z.string() }),
+      handler: vi.fn(),
+    });
+    const orchestrator = new DischargeOrchestrator(
+      supabase,
+      user,
+      casesService,
+      registry,
+    );
+
+    const error = await orchestrateError(orchestrator, {
+      postToSlack: { channel: "#discharges" },
+    });
+
+    expect(error).toMatchObject({
+      code: "invalid",
+      message: expect.stringContaining(
+        "Invalid options for step 'postToSlack'",
+      ),
+    });
+    expect(from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Tests for persisted orchestration runs against an in-memory database
+ * - OrchestrationRunStore: run creation, status updates, step attempts
+ * - DischargeOrchestrator: runs recorded as completed or failed, resume
+ *   from the failed step, idempotent step retries
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { User } from "@supabase/supabase-js";
+import {
+  BUILT_IN_STEPS,
+  StepRegistry,
+  type ICasesService,
+} from "@odis-ai/domain/shared";
+import type { StepName, StepResult } from "@odis-ai/shared/types/orchestration";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import type { OrchestrationRequest } from "@odis-ai/shared/validators/orchestration";
+import {
+  DischargeOrchestrator,
+  OrchestrationRunError,
+} from "../lib/discharge-orchestrator";
+import { OrchestrationRunStore } from "../lib/orchestration-run-store";
+import type { DischargeStepDefinition } from "../lib/steps/registry";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Minimal PostgREST stand-in for the two run tables: eq/in filters,
+ * order, limit, and the unique constraints on step attempts
+ */
+function makeDatabase() {
+  const tables: Record<string, Row[]> = {
+    discharge_orchestration_runs: [],
+    discharge_orchestration_steps: [],
+  };
+  let nextId = 1;
+  let clock = Date.parse("2026-03-10T17:00:00.000Z");
+  const now = () => new Date(clock++).toISOString();
+
+  const defaults: Record<string, () => Row> = {
+    discharge_orchestration_runs: () => ({
+      status: "running",
+      case_id: null,
+      resume_count: 0,
+      created_at: now(),
+      updated_at: now(),
+      finished_at: null,
+    }),
+    discharge_orchestration_steps: () => ({
+      status: "running",
+      data: null,
+      error: null,
+      duration_ms: null,
+      started_at: now(),
+      finished_at: null,
+    }),
+  };
+
+  const from = vi.fn((table: string) => {
+    const rows = tables[table] ?? [];
+    const filters: Array<(row: Row) => boolean> = [];
+    let order: { column: string; ascending: boolean } | null = null;
+    let limit: number | null = null;
+    let insert: Row | null = null;
+    let update: Row | null = null;
+
+    const run = (): { data: unknown; error: { code?: string } | null } => {
+      if (insert) {
+        const row: Row = {
+          id: `${table}-${nextId++}`,
+          ...defaults[table]?.(),
+          ...insert,
+        };
+        const duplicate =
+          table === "discharge_orchestration_steps" &&
+          rows.some(
+            (existing) =>
+              existing.run_id === row.run_id &&
+              (existing.idempotency_key === row.idempotency_key ||
+                (existing.step === row.step &&
+                  existing.attempt === row.attempt)),
+          );
+        if (duplicate) return { data: null, error: { code: "23505" } };
+        rows.push(row);
+        return { data: [{ ...row }], error: null };
+      }
+
+      let matched = rows.filter((row) => filters.every((test) => test(row)));
+      if (update) {
+        for (const row of matched) Object.assign(row, update);
+      }
+      if (order) {
+        const { column, ascending } = order;
+        matched = [...matched].sort(
+          (a, b) =>
+            String(a[column]).localeCompare(String(b[column])) *
+            (ascending ? 1 : -1),
+        );
+      }
+      if (limit !== null) matched = matched.slice(0, limit);
+      return { data: matched.map((row) => ({ ...row })), error: null };
+    };
+
+    const first = () => {
+      const { data, error } = run();
+      return { data: (data as Row[] | null)?.[0] ?? null, error };
+    };
+
+    const builder: Record<string, unknown> = {
+      insert: (values: Row) => {
+        insert = values;
+        return builder;
+      },
+      update: (values: Row) => {
+        update = values;
+        return builder;
+      },
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      order: (column: string, options?: { ascending?: boolean }) => {
+        order = { column, ascending: options?.ascending ?? true };
+        return builder;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return builder;
+      },
+      single: async () => first(),
+      maybeSingle: async () => first(),
+      then: (
+        resolve: (value: ReturnType<typeof run>) => unknown,
+        reject: (reason: unknown) => unknown,
+      ) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return builder;
+  });
+
+  return {
+    supabase: { from } as unknown as SupabaseClientType,
+    runs: tables.discharge_orchestration_runs!,
+    steps: tables.discharge_orchestration_steps!,
+  };
+}
+
+const user = { id: "user-1" } as User;
+const casesService = {} as ICasesService;
+
+const request: OrchestrationRequest = {
+  input: { rawData: { mode: "text", source: "manual", text: "Discharge" } },
+  steps: { ingest: true, extractEntities: true, generateSummary: true },
+  options: { stopOnError: false, parallel: true, dryRun: false },
+};
+
+function completed(step: StepName, data?: unknown): StepResult {
+  return { step, status: "completed", duration: 5, data };
+}
+
+/**
+ * Registry whose handlers are mocks; summary generation fails until
+ * `summaryFails` is cleared
+ */
+function makeRegistry() {
+  const state = { summaryFails: true };
+  const handlers: Partial<
+    Record<
+      StepName,
+      ReturnType<typeof vi.fn<DischargeStepDefinition["handler"]>>
+    >
+  > = {
+    ingest: vi.fn(async () =>
+      completed("ingest", { caseId: "case-1", entities: {} }),
+    ),
+    extractEntities: vi.fn(async () => completed("extractEntities")),
+    generateSummary: vi.fn(async () => {
+      if (state.summaryFails) throw new Error("Model timed out");
+      return completed("generateSummary", { summaryId: "summary-1" });
+    }),
+  };
+
+  const registry = new StepRegistry<DischargeStepDefinition>(
+    BUILT_IN_STEPS.map((step) => ({
+      ...step,
+      handler: handlers[step.name] ?? vi.fn(async () => completed(step.name)),
+    })),
+  );
+
+  return { registry, handlers, state };
+}
+
+describe("OrchestrationRunStore", () => {
+  let db: ReturnType<typeof makeDatabase>;
+  let store: OrchestrationRunStore;
+
+  beforeEach(() => {
+    db = makeDatabase();
+    store = new OrchestrationRunStore(db.supabase);
+  });
+
+  it("creates a running run for the request", async () => {
+    const runId = await store.createRun("user-1", request, "case-1");
+
+    const run = await store.getRun(runId);
+    expect(run).toMatchObject({
+      id: runId,
+      userId: "user-1",
+      caseId: "case-1",
+      status: "running",
+      request,
+      resumeCount: 0,
+      finishedAt: null,
+      steps: [],
+    });
+  });
+
+  it("sets finishedAt when a run completes or fails", async () => {
+    const runId = await store.createRun("user-1", request, null);
+
+    await store.updateRun(runId, { status: "failed", caseId: "case-1" });
+    expect(await store.getRun(runId)).toMatchObject({
+      status: "failed",
+      caseId: "case-1",
+      finishedAt: expect.any(String),
+    });
+
+    await store.updateRun(runId, { status: "running" });
+    expect((await store.getRun(runId))?.finishedAt).toBeNull();
+  });
+
+  it("only resumes failed runs, once", async () => {
+    const runId = await store.createRun("user-1", request, null);
+
+    await expect(store.markResumed(runId, 0)).resolves.toBe(false);
+
+    await store.updateRun(runId, { status: "failed" });
+    await expect(store.markResumed(runId, 0)).resolves.toBe(true);
+    await expect(store.markResumed(runId, 0)).resolves.toBe(false);
+    expect(await store.getRun(runId)).toMatchObject({
+      status: "running",
+      resumeCount: 1,
+    });
+  });
+
+  it("numbers step attempts and records failures", async () => {
+    const runId = await store.createRun("user-1", request, null);
+
+    const first = await store.beginStep(runId, "generateSummary");
+    await store.finishStep(runId, first, {
+      step: "generateSummary",
+      status: "failed",
+      duration: 12,
+      error: "Model timed out",
+    });
+    const second = await store.beginStep(runId, "generateSummary");
+
+    expect(first).toEqual({
+      step: "generateSummary",
+      attempt: 1,
+      idempotencyKey: "generateSummary:1",
+    });
+    expect(second.attempt).toBe(2);
+    expect((await store.getRun(runId))?.steps).toMatchObject([
+      {
+        step: "generateSummary",
+        attempt: 1,
+        status: "failed",
+        error: "Model timed out",
+        duration: 12,
+        finishedAt: expect.any(String),
+      },
+      { step: "generateSummary", attempt: 2, status: "running" },
+    ]);
+  });
+
+  it("returns the recorded attempt for a used idempotency key", async () => {
+    const runId = await store.createRun("user-1", request, null);
+    const claimed = await store.beginStep(runId, "generateSummary", "key-1");
+    await store.finishStep(runId, claimed, completed("generateSummary"));
+
+    const again = await store.beginStep(runId, "generateSummary", "key-1");
+
+    expect(again.recorded).toMatchObject({
+      attempt: 1,
+      status: "completed",
+      idempotencyKey: "key-1",
+    });
+    expect(db.steps).toHaveLength(1);
+  });
+});
+
+describe("DischargeOrchestrator runs", () => {
+  let db: ReturnType<typeof makeDatabase>;
+
+  beforeEach(() => {
+    db = makeDatabase();
+  });
+
+  it("records a completed run with one attempt per step", async () => {
+    const { registry, state } = makeRegistry();
+    state.summaryFails = false;
+    const orchestrator = new DischargeOrchestrator(
+      db.supabase,
+      user,
+      casesService,
+      registry,
+    );
+
+    const result = await orchestrator.orchestrate(request);
+
+    expect(result.success).toBe(true);
+    expect(db.runs).toHaveLength(1);
+    expect(result.metadata.runId).toBe(db.runs[0]?.id);
+    expect(db.runs[0]).toMatchObject({
+      status: "completed",
+      case_id: "case-1",
+      finished_at: expect.any(String),
+    });
+    expect(db.steps.map((row) => [row.step, row.status])).toEqual([
+      ["ingest", "completed"],
+      ["extractEntities", "completed"],
+      ["generateSummary", "completed"],
+    ]);
+  });
+
+  it("records the failed step and marks the run failed", async () => {
+    const orchestrator = new DischargeOrchestrator(
+      db.supabase,
+      user,
+      casesService,
+      makeRegistry().registry,
+    );
+
+    const result = await orchestrator.orchestrate(request);
+
+    expect(result.success).toBe(false);
+    expect(result.data.failedSteps).toEqual(["generateSummary"]);
+    expect(db.runs[0]?.status).toBe("failed");
+    expect(
+      db.steps.find((row) => row.step === "generateSummary"),
+    ).toMatchObject({
+      status: "failed",
+      error: "Model timed out",
+      finished_at: expect.any(String),
+    });
+  });
+
+  it("resumes from the failed step without re-running completed ones", async () => {
+    const { registry, handlers, state } = makeRegistry();
+    const orchestrator = new DischargeOrchestrator(
+      db.supabase,
+      user,
+      casesService,
+      registry,
+    );
+    const failed = await orchestrator.orchestrate(request);
+    const runId = failed.metadata.runId!;
+
+    state.summaryFails = false;
+    const resumed = await orchestrator.resume(runId);
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.data.completedSteps).toEqual(
+      expect.arrayContaining(["ingest", "extractEntities", "generateSummary"]),
+    );
+    expect(handlers.ingest).toHaveBeenCalledTimes(1);
+    expect(handlers.generateSummary).toHaveBeenCalledTimes(2);
+    expect(db.runs[0]).toMatchObject({ status: "completed", resume_count: 1 });
+    expect(
+      db.steps
+        .filter((row) => row.step === "generateSummary")
+        .map((row) => [row.attempt, row.status]),
+    ).toEqual([
+      [1, "failed"],
+      [2, "completed"],
+    ]);
+  });
+
+  it("refuses to resume a run that didn't fail", async () => {
+    const { registry, state } = makeRegistry();
+    state.summaryFails = false;
+    const orchestrator = new DischargeOrchestrator(
+      db.supabase,
+      user,
+      casesService,
+      registry,
+    );
+    const result = await orchestrator.orchestrate(request);
+
+    await expect(
+      orchestrator.resume(result.metadata.runId!),
+    ).rejects.toMatchObject({ code: "conflict" });
+  });
+
+  it("replays a step retry that reuses its idempotency key", async () => {
+    const { registry, handlers, state } = makeRegistry();
+    const orchestrator = new DischargeOrchestrator(
+      db.supabase,
+      user,
+      casesService,
+      registry,
+    );
+    const failed = await orchestrator.orchestrate(request);
+    const runId = failed.metadata.runId!;
+
+    state.summaryFails = false;
+    const retried = await orchestrator.retryStep(
+      runId,
+      "generateSummary",
+      "key-1",
+    );
+    const replayed = await orchestrator.retryStep(
+      runId,
+      "generateSummary",
+      "key-1",
+    );
+
+    expect(retried).toMatchObject({
+      replayed: false,
+      result: { status: "completed" },
+    });
+    expect(replayed).toMatchObject({
+      replayed: true,
+      result: { status: "completed" },
+    });
+    expect(handlers.generateSummary).toHaveBeenCalledTimes(2);
+    expect(db.runs[0]?.status).toBe("completed");
+  });
+
+  it("reports unknown runs as not found", async () => {
+    const orchestrator = new DischargeOrchestrator(
+      db.supabase,
+      user,
+      casesService,
+      makeRegistry().registry,
+    );
+
+    const error: unknown = await orchestrator
+      .resume("missing-run")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OrchestrationRunError);
+    expect(error).toMatchObject({ code: "not_found" });
+  });
+});
@@ -7,9 +7,10 @@
  *
  * This library provides modular execution services for discharge workflows:
  *
- * - **Executors**: Core execution logic for calls and emails
+ * - **Executors**: Core execution logic for calls, emails and texts
  *   - `executeScheduledCall` - Executes a scheduled VAPI call
  *   - `executeScheduledEmail` - Executes a scheduled email via Resend
+ *   - `executeScheduledSms` - Executes a scheduled SMS via the SMS provider
  *
  * - **Orchestrator**: Coordinates multi-step discharge workflows
  *   - Import directly: `@odis-ai/domain/discharge/discharge-orchestrator`
@@ -51,10 +52,15 @@
 // Export executor functions for direct use
 export { executeScheduledCall } from "./lib/call-executor";
 export { executeScheduledEmail } from "./lib/email-executor";
+export { executeScheduledSms } from "./lib/sms-executor";
 
 // Export email content generator for use in outbound procedures
 export { generateDischargeEmailContent } from "./lib/email-content-generator";
 
 // Export types
 export type { CallExecutionResult } from "@odis-ai/shared/types/services";
-export type { EmailExecutionResult, ExecutorDependencies } from "./types";
+export type {
+  EmailExecutionResult,
+  ExecutorDependencies,
+  SmsExecutionResult,
+} from "./types";
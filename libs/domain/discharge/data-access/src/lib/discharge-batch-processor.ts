@@ -97,6 +97,7 @@ export class DischargeBatchProcessor {
       )
       .eq("user_id", userId)
       .eq("status", "completed")
+      .eq("scheduled_discharge_calls.call_type", "discharge")
       .order("created_at", { ascending: false });
 
     if (error || !cases) {
@@ -327,7 +328,10 @@ export class DischargeBatchProcessor {
       );
 
       // Build orchestration request
-      const orchestrationSteps: Record<string, unknown> = {
+      const orchestrationSteps: Record<
+        string,
+        boolean | Record<string, unknown>
+      > = {
         generateSummary: false, // Already has summary
         prepareEmail: false,
         scheduleEmail: false,
@@ -7,18 +7,32 @@
  * - Email preparation and scheduling
  * - Call scheduling
  *
- * Supports both sequential and parallel execution modes.
+ * Steps come from a DischargeStepRegistry, so custom steps can be added
+ * alongside the built-in ones. Supports both sequential and parallel
+ * execution modes.
+ *
+ * Every run and step attempt is persisted, so a failed run can be resumed
+ * from its first failed step and single steps retried with idempotency keys.
  */
 
-import { ExecutionPlan } from "@odis-ai/domain/shared";
+import {
+  BUILT_IN_STEPS,
+  ExecutionPlan,
+  StepRegistryError,
+} from "@odis-ai/domain/shared";
 import type { ICasesService } from "@odis-ai/domain/shared";
-import type { OrchestrationRequest } from "@odis-ai/shared/validators/orchestration";
+import {
+  OrchestrationRequestSchema,
+  type OrchestrationRequest,
+} from "@odis-ai/shared/validators/orchestration";
 import type {
   CallResult,
   EmailResult,
   EmailScheduleResult,
   IngestResult,
   OrchestrationResult,
+  OrchestrationRun,
+  SmsScheduleResult,
   StepName,
   StepResult,
   SummaryResult,
@@ -27,29 +41,39 @@ import type {
 import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
 import type { User } from "@supabase/supabase-js";
 
-// Import step handlers
+import type { StepContext } from "./discharge-steps";
+import {
+  createDischargeStepRegistry,
+  type DischargeStepRegistry,
+} from "./steps/registry";
+import { getCaseIdFromResults, getTypedResult } from "./discharge-helpers";
 import {
-  executeIngestion,
-  executeEntityExtraction,
-  executeSummaryGeneration,
-  executeEmailPreparation,
-  executeEmailScheduling,
-  executeCallScheduling,
-  type StepContext,
-} from "./discharge-steps";
-import { getTypedResult } from "./discharge-helpers";
+  OrchestrationRunError,
+  OrchestrationRunStore,
+  getLatestAttempts,
+  toStepResult,
+} from "./orchestration-run-store";
+
+const BUILT_IN_STEP_NAMES = new Set<StepName>(
+  BUILT_IN_STEPS.map((step) => step.name),
+);
+
+export {
+  createDischargeStepRegistry,
+  type DischargeStepDefinition,
+  type DischargeStepRegistry,
+} from "./steps/registry";
+export { OrchestrationRunError } from "./orchestration-run-store";
 
 /**
- * Step execution order for sequential processing
+ * Result of retrying a single step
  */
-const STEP_ORDER: readonly StepName[] = [
-  "ingest",
-  "extractEntities",
-  "generateSummary",
-  "prepareEmail",
-  "scheduleEmail",
-  "scheduleCall",
-] as const;
+export interface StepRetryResult {
+  runId: string;
+  result: StepResult;
+  /** The idempotency key was already used; result is the recorded attempt */
+  replayed: boolean;
+}
 
 /**
  * Discharge Orchestrator Class
@@ -58,34 +82,247 @@ export class DischargeOrchestrator {
   private plan!: ExecutionPlan;
   private results = new Map<StepName, StepResult>();
   private request!: OrchestrationRequest;
+  private runStore: OrchestrationRunStore;
+  private runId: string | null = null;
 
   constructor(
     private supabase: SupabaseClientType,
     private user: User,
     private casesService: ICasesService,
-  ) {}
+    private registry: DischargeStepRegistry = createDischargeStepRegistry(),
+  ) {
+    this.runStore = new OrchestrationRunStore(supabase);
+  }
 
   /**
    * Main orchestration method
+   * Persists a new run; its ID is returned in `metadata.runId`.
+   * @throws OrchestrationRunError ("invalid") if no plan can be built for
+   *   the request, before anything is persisted
    */
   async orchestrate(
     request: OrchestrationRequest,
   ): Promise<OrchestrationResult> {
     const startTime = Date.now();
+    this.prepare(request);
+
+    this.runId = await this.runStore.createRun(
+      this.user.id,
+      request,
+      getCaseIdFromResults(this.results, request.input),
+    );
+
+    return this.execute(startTime);
+  }
+
+  /**
+   * Resume a failed run from its first failed step
+   * Completed steps keep their recorded results and are not re-run.
+   * @throws OrchestrationRunError if the run doesn't exist or isn't failed
+   */
+  async resume(runId: string): Promise<OrchestrationResult> {
+    const startTime = Date.now();
+    const run = await this.loadRun(runId);
+
+    if (run.status !== "failed") {
+      throw new OrchestrationRunError(
+        `Only failed runs can be resumed (run is ${run.status})`,
+        "conflict",
+      );
+    }
+
+    this.restore(run);
+
+    const claimed = await this.runStore.markResumed(run.id, run.resumeCount);
+    if (!claimed) {
+      throw new OrchestrationRunError(
+        "Run is already being resumed",
+        "conflict",
+      );
+    }
+
+    return this.execute(startTime);
+  }
+
+  /**
+   * Retry a single step of a run
+   * A repeated idempotency key returns the recorded attempt without
+   * re-running the step. Dependent steps are left for resume.
+   * @throws OrchestrationRunError if the step can't be retried
+   */
+  async retryStep(
+    runId: string,
+    step: string,
+    idempotencyKey: string,
+  ): Promise<StepRetryResult> {
+    if (!this.registry.has(step)) {
+      throw new OrchestrationRunError(`Unknown step '${step}'`, "invalid");
+    }
+
+    const run = await this.loadRun(runId);
+
+    const recorded = await this.runStore.getAttempt(run.id, idempotencyKey);
+    if (recorded) {
+      if (recorded.step !== step) {
+        throw new OrchestrationRunError(
+          `Idempotency key was used for step '${recorded.step}'`,
+          "conflict",
+        );
+      }
+      return { runId: run.id, result: toStepResult(recorded), replayed: true };
+    }
+
+    if (run.status === "running") {
+      throw new OrchestrationRunError("Run is still running", "conflict");
+    }
+
+    this.restore(run);
+
+    const stepConfig = this.plan.getStepConfig(step);
+    if (!stepConfig?.enabled) {
+      throw new OrchestrationRunError(
+        `Step '${step}' is not enabled for this run`,
+        "invalid",
+      );
+    }
+    if (this.plan.getCompletedSteps().includes(step)) {
+      throw new OrchestrationRunError(
+        `Step '${step}' already completed`,
+        "conflict",
+      );
+    }
+    const pending = stepConfig.dependencies.filter(
+      (dep) =>
+        this.plan.getStepConfig(dep)?.enabled &&
+        !this.plan.getCompletedSteps().includes(dep),
+    );
+    if (pending.length > 0) {
+      throw new OrchestrationRunError(
+        `Dependencies not completed: ${pending.join(", ")}`,
+        "invalid",
+      );
+    }
+
+    const result = await this.executeStep(step, idempotencyKey);
+    this.results.set(step, result);
+    if (result.status === "completed") {
+      this.plan.markCompleted(step);
+    } else if (result.status === "failed") {
+      this.plan.markFailed(step);
+    }
+
+    const done =
+      !this.plan.hasRemainingSteps() && this.plan.getFailedSteps().length === 0;
+    await this.finishRun(done ? "completed" : "failed");
+
+    return { runId: run.id, result, replayed: false };
+  }
+
+  /**
+   * Run history for a case, newest first
+   */
+  async getRunsForCase(caseId: string): Promise<OrchestrationRun[]> {
+    return this.runStore.listRunsForCase(caseId);
+  }
+
+  /**
+   * Get a run with its step attempts
+   */
+  async getRun(runId: string): Promise<OrchestrationRun | null> {
+    return this.runStore.getRun(runId);
+  }
+
+  /**
+   * Reset state for a request
+   * Plan errors (unknown steps, bad step options) surface as "invalid"
+   */
+  private prepare(request: OrchestrationRequest): void {
     this.request = request;
-    this.plan = new ExecutionPlan(request);
+    try {
+      this.plan = new ExecutionPlan(request, this.registry);
+    } catch (error) {
+      if (error instanceof StepRegistryError) {
+        throw new OrchestrationRunError(error.message, "invalid");
+      }
+      throw error;
+    }
     this.results.clear();
+  }
+
+  /**
+   * Rebuild state from a persisted run: re-validate the stored request
+   * (revives dates) and seed the results of completed steps
+   */
+  private restore(run: OrchestrationRun): void {
+    const parsed = OrchestrationRequestSchema.safeParse(run.request);
+    if (!parsed.success) {
+      throw new OrchestrationRunError(
+        `Stored request is no longer valid: ${parsed.error.message}`,
+        "invalid",
+      );
+    }
+
+    this.prepare(parsed.data);
+    this.runId = run.id;
+
+    for (const [step, attempt] of getLatestAttempts(run)) {
+      if (attempt.status !== "completed") continue;
+      if (!this.plan.getStepConfig(step)) continue;
+      this.results.set(step, toStepResult(attempt));
+      this.plan.markCompleted(step);
+    }
+  }
+
+  private async loadRun(runId: string): Promise<OrchestrationRun> {
+    const run = await this.runStore.getRun(runId);
+    if (!run) {
+      throw new OrchestrationRunError(
+        `Orchestration run not found: ${runId}`,
+        "not_found",
+      );
+    }
+    return run;
+  }
+
+  /**
+   * Execute the plan and record the run's outcome
+   */
+  private async execute(startTime: number): Promise<OrchestrationResult> {
+    let result: OrchestrationResult;
 
     try {
-      if (request.options?.parallel ?? true) {
+      if (this.request.options?.parallel ?? true) {
         await this.executeParallel();
       } else {
         await this.executeSequential();
       }
 
-      return this.buildResult(startTime);
+      result = this.buildResult(startTime);
     } catch (error) {
-      return this.buildErrorResult(error, startTime);
+      result = this.buildErrorResult(error, startTime);
+    }
+
+    await this.finishRun(result.success ? "completed" : "failed");
+    result.metadata.runId = this.runId ?? undefined;
+    return result;
+  }
+
+  /**
+   * Record the run's status and case; failures are logged, not thrown
+   */
+  private async finishRun(status: "completed" | "failed"): Promise<void> {
+    if (!this.runId) return;
+
+    try {
+      await this.runStore.updateRun(this.runId, {
+        status,
+        caseId: getCaseIdFromResults(this.results, this.request.input),
+      });
+    } catch (error) {
+      console.error("[ORCHESTRATOR] Failed to record run outcome", {
+        runId: this.runId,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
@@ -133,7 +370,7 @@ export class DischargeOrchestrator {
       }
     }
 
-    for (const step of STEP_ORDER) {
+    for (const step of this.plan.getStepOrder()) {
       if (!this.plan.shouldExecuteStep(step)) {
         const stepConfig = this.plan.getStepConfig(step);
         if (stepConfig?.enabled) {
@@ -169,7 +406,7 @@ export class DischargeOrchestrator {
     }
 
     // Ensure all steps are tracked
-    for (const step of STEP_ORDER) {
+    for (const step of this.plan.getStepOrder()) {
       if (!this.results.has(step)) {
         this.results.set(step, { step, status: "skipped", duration: 0 });
       }
@@ -260,7 +497,7 @@ export class DischargeOrchestrator {
     }
 
     // Ensure all steps are tracked
-    for (const step of STEP_ORDER) {
+    for (const step of this.plan.getStepOrder()) {
       if (!this.results.has(step)) {
         this.results.set(step, { step, status: "skipped", duration: 0 });
       }
@@ -268,27 +505,50 @@ export class DischargeOrchestrator {
   }
 
   /**
-   * Execute a single step - delegates to step handlers
+   * Execute a single step, recording the attempt on the run
+   * A used idempotency key returns the recorded result instead.
+   */
+  private async executeStep(
+    step: StepName,
+    idempotencyKey?: string,
+  ): Promise<StepResult> {
+    const claimed = this.runId
+      ? await this.runStore.beginStep(this.runId, step, idempotencyKey)
+      : null;
+    if (claimed?.recorded) {
+      return toStepResult(claimed.recorded);
+    }
+
+    const result = await this.runStepHandler(step);
+
+    if (claimed && this.runId) {
+      try {
+        await this.runStore.finishStep(this.runId, claimed, result);
+      } catch (error) {
+        console.error("[ORCHESTRATOR] Failed to record step result", {
+          runId: this.runId,
+          step,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a step's handler from the registry
    */
-  private async executeStep(step: StepName): Promise<StepResult> {
+  private async runStepHandler(step: StepName): Promise<StepResult> {
     const stepStart = Date.now();
     const ctx = this.getStepContext();
 
     try {
-      switch (step) {
-        case "ingest":
-          return await executeIngestion(ctx, stepStart);
-        case "extractEntities":
-          return await executeEntityExtraction(ctx, stepStart);
-        case "generateSummary":
-          return await executeSummaryGeneration(ctx, stepStart);
-        case "prepareEmail":
-          return await executeEmailPreparation(ctx, stepStart);
-        case "scheduleEmail":
-          return await executeEmailScheduling(ctx, stepStart);
-        case "scheduleCall":
-          return await executeCallScheduling(ctx, stepStart);
+      const definition = this.registry.get(step);
+      if (!definition) {
+        throw new Error(`No handler registered for step '${step}'`);
       }
+      return await definition.handler(ctx, stepStart);
     } catch (error) {
       return {
         step,
@@ -303,7 +563,7 @@ export class DischargeOrchestrator {
    * Mark dependent steps as skipped when a step fails
    */
   private markDependentStepsAsSkipped(failedStep: StepName): void {
-    for (const step of STEP_ORDER) {
+    for (const step of this.plan.getStepOrder()) {
       const stepConfig = this.plan.getStepConfig(step);
       if (!stepConfig?.enabled) continue;
       if (this.results.has(step)) continue;
@@ -327,6 +587,7 @@ export class DischargeOrchestrator {
     const skippedSteps: StepName[] = [];
     const failedSteps: StepName[] = [];
     const stepTimings: Record<string, number> = {};
+    const customStepData: Record<string, unknown> = {};
 
     for (const [step, result] of this.results.entries()) {
       const timing =
@@ -341,6 +602,9 @@ export class DischargeOrchestrator {
       } else if (result.status === "failed") {
         failedSteps.push(step);
       }
+      if (!BUILT_IN_STEP_NAMES.has(step) && result.data !== undefined) {
+        customStepData[step] = result.data;
+      }
     }
 
     const totalProcessingTime = Date.now() - startTime;
@@ -363,6 +627,9 @@ export class DischargeOrchestrator {
           "scheduleEmail",
         ),
         call: getTypedResult<CallResult>(this.results, "scheduleCall"),
+        sms: getTypedResult<SmsScheduleResult>(this.results, "scheduleSms"),
+        steps:
+          Object.keys(customStepData).length > 0 ? customStepData : undefined,
       },
       metadata: {
         totalProcessingTime: totalProcessingTime > 0 ? totalProcessingTime : 1,
@@ -10,6 +10,7 @@
  * - summary-generation-step.ts - Discharge summary generation
  * - email-scheduling-step.ts - Email preparation and scheduling
  * - call-scheduling-step.ts - VAPI call scheduling
+ * - sms-scheduling-step.ts - Discharge text scheduling
  */
 
 // Re-export types
@@ -24,3 +25,4 @@ export {
   executeEmailScheduling,
 } from "./steps/email-scheduling-step";
 export { executeCallScheduling } from "./steps/call-scheduling-step";
+export { executeSmsScheduling } from "./steps/sms-scheduling-step";
@@ -0,0 +1,372 @@
+/**
+ * Orchestration Run Store
+ *
+ * Persists discharge orchestration runs and their step attempts
+ * (discharge_orchestration_runs / discharge_orchestration_steps).
+ */
+
+import type { Database, Json } from "@odis-ai/shared/types";
+import type {
+  OrchestrationRun,
+  OrchestrationRunStatus,
+  OrchestrationStepAttempt,
+  StepName,
+  StepResult,
+} from "@odis-ai/shared/types/orchestration";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+
+type RunRow =
+  Database["public"]["Tables"]["discharge_orchestration_runs"]["Row"];
+type StepRow =
+  Database["public"]["Tables"]["discharge_orchestration_steps"]["Row"];
+
+/**
+ * A step attempt claimed by beginStep
+ * `recorded` is set when the idempotency key was already used; the step must
+ * not run again.
+ */
+export interface ClaimedStepAttempt {
+  step: StepName;
+  attempt: number;
+  idempotencyKey: string;
+  recorded?: OrchestrationStepAttempt;
+}
+
+/**
+ * Thrown for run operations that can't proceed
+ */
+export class OrchestrationRunError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "not_found" | "conflict" | "invalid",
+  ) {
+    super(message);
+    this.name = "OrchestrationRunError";
+  }
+}
+
+/**
+ * OrchestrationRunStore - Reads and writes persisted orchestration runs
+ */
+export class OrchestrationRunStore {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Create a run for a validated request
+   */
+  async createRun(
+    userId: string,
+    request: unknown,
+    caseId: string | null,
+  ): Promise<string> {
+    const { data, error } = await this.supabase
+      .from("discharge_orchestration_runs")
+      .insert({
+        user_id: userId,
+        case_id: caseId,
+        request: request as Json,
+      })
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      throw new Error(
+        `Failed to create orchestration run: ${error?.message ?? "Unknown error"}`,
+      );
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Get a run with its step attempts, null if not found
+   */
+  async getRun(runId: string): Promise<OrchestrationRun | null> {
+    const { data: run, error } = await this.supabase
+      .from("discharge_orchestration_runs")
+      .select("*")
+      .eq("id", runId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load orchestration run: ${error.message}`);
+    }
+    if (!run) return null;
+
+    const steps = await this.getStepRows([runId]);
+    return toRun(run, steps);
+  }
+
+  /**
+   * Run history for a case, newest first
+   */
+  async listRunsForCase(
+    caseId: string,
+    limit = 20,
+  ): Promise<OrchestrationRun[]> {
+    const { data: runs, error } = await this.supabase
+      .from("discharge_orchestration_runs")
+      .select("*")
+      .eq("case_id", caseId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list orchestration runs: ${error.message}`);
+    }
+    if (!runs?.length) return [];
+
+    const steps = await this.getStepRows(runs.map((run) => run.id));
+    return runs.map((run) =>
+      toRun(
+        run,
+        steps.filter((step) => step.run_id === run.id),
+      ),
+    );
+  }
+
+  /**
+   * Update a run's status and case
+   */
+  async updateRun(
+    runId: string,
+    update: {
+      status?: OrchestrationRunStatus;
+      caseId?: string | null;
+    },
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from("discharge_orchestration_runs")
+      .update({
+        ...(update.status
+          ? {
+              status: update.status,
+              finished_at: update.status === "running" ? null : now,
+            }
+          : {}),
+        ...(update.caseId !== undefined ? { case_id: update.caseId } : {}),
+        updated_at: now,
+      })
+      .eq("id", runId);
+
+    if (error) {
+      throw new Error(`Failed to update orchestration run: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a failed run as running again
+   * @returns false if another request resumed it first
+   */
+  async markResumed(runId: string, resumeCount: number): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("discharge_orchestration_runs")
+      .update({
+        status: "running",
+        resume_count: resumeCount + 1,
+        finished_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", runId)
+      .eq("status", "failed")
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to resume orchestration run: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Claim the next attempt of a step
+   * A used idempotency key returns the recorded attempt instead.
+   */
+  async beginStep(
+    runId: string,
+    step: StepName,
+    idempotencyKey?: string,
+  ): Promise<ClaimedStepAttempt> {
+    if (idempotencyKey) {
+      const recorded = await this.getAttempt(runId, idempotencyKey);
+      if (recorded) {
+        return {
+          step,
+          attempt: recorded.attempt,
+          idempotencyKey,
+          recorded,
+        };
+      }
+    }
+
+    const { data: latest, error: latestError } = await this.supabase
+      .from("discharge_orchestration_steps")
+      .select("attempt")
+      .eq("run_id", runId)
+      .eq("step", step)
+      .order("attempt", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new Error(`Failed to load step attempts: ${latestError.message}`);
+    }
+
+    const attempt = (latest?.attempt ?? 0) + 1;
+    const key = idempotencyKey ?? `${step}:${attempt}`;
+
+    const { error } = await this.supabase
+      .from("discharge_orchestration_steps")
+      .insert({
+        run_id: runId,
+        step,
+        attempt,
+        idempotency_key: key,
+      });
+
+    if (error) {
+      // Unique violation: a concurrent request claimed the key or attempt
+      if (error.code === "23505") {
+        const recorded = await this.getAttempt(runId, key);
+        if (recorded) {
+          return {
+            step,
+            attempt: recorded.attempt,
+            idempotencyKey: key,
+            recorded,
+          };
+        }
+        throw new OrchestrationRunError(
+          `Step '${step}' is already being retried`,
+          "conflict",
+        );
+      }
+      throw new Error(`Failed to record step attempt: ${error.message}`);
+    }
+
+    return { step, attempt, idempotencyKey: key };
+  }
+
+  /**
+   * Record the outcome of a claimed attempt
+   */
+  async finishStep(
+    runId: string,
+    claimed: ClaimedStepAttempt,
+    result: StepResult,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("discharge_orchestration_steps")
+      .update({
+        status: result.status,
+        data: (result.data ?? null) as Json,
+        error: result.error ?? null,
+        duration_ms: result.duration,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("run_id", runId)
+      .eq("idempotency_key", claimed.idempotencyKey);
+
+    if (error) {
+      throw new Error(`Failed to record step result: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the attempt recorded under an idempotency key
+   */
+  async getAttempt(
+    runId: string,
+    idempotencyKey: string,
+  ): Promise<OrchestrationStepAttempt | null> {
+    const { data, error } = await this.supabase
+      .from("discharge_orchestration_steps")
+      .select("*")
+      .eq("run_id", runId)
+      .eq("idempotency_key", idempotencyKey)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load step attempt: ${error.message}`);
+    }
+
+    return data ? toStepAttempt(data) : null;
+  }
+
+  private async getStepRows(runIds: string[]): Promise<StepRow[]> {
+    const { data, error } = await this.supabase
+      .from("discharge_orchestration_steps")
+      .select("*")
+      .in("run_id", runIds)
+      .order("started_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load orchestration steps: ${error.message}`);
+    }
+
+    return data ?? [];
+  }
+}
+
+/**
+ * Latest attempt of each step, keyed by step name
+ */
+export function getLatestAttempts(
+  run: OrchestrationRun,
+): Map<StepName, OrchestrationStepAttempt> {
+  const latest = new Map<StepName, OrchestrationStepAttempt>();
+  for (const attempt of run.steps) {
+    const current = latest.get(attempt.step);
+    if (!current || attempt.attempt > current.attempt) {
+      latest.set(attempt.step, attempt);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Rebuild the StepResult of a finished attempt
+ * Attempts still marked running (the process died mid-step) count as failed.
+ */
+export function toStepResult(attempt: OrchestrationStepAttempt): StepResult {
+  return {
+    step: attempt.step,
+    status: attempt.status === "running" ? "failed" : attempt.status,
+    duration: attempt.duration ?? 0,
+    data: attempt.data,
+    error:
+      attempt.status === "running"
+        ? (attempt.error ?? "Step did not finish")
+        : attempt.error,
+  };
+}
+
+function toRun(row: RunRow, steps: StepRow[]): OrchestrationRun {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    caseId: row.case_id,
+    status: row.status as OrchestrationRunStatus,
+    request: row.request,
+    resumeCount: row.resume_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+    steps: steps.map(toStepAttempt),
+  };
+}
+
+function toStepAttempt(row: StepRow): OrchestrationStepAttempt {
+  return {
+    step: row.step as StepName,
+    attempt: row.attempt,
+    status: row.status as OrchestrationStepAttempt["status"],
+    idempotencyKey: row.idempotency_key,
+    data: row.data ?? undefined,
+    error: row.error ?? undefined,
+    duration: row.duration_ms,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
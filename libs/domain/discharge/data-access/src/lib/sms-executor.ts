@@ -0,0 +1,304 @@
+/**
+ * SMS Executor
+ *
+ * Core execution logic for scheduled discharge text messages.
+ * Decoupled from HTTP handling to enable direct invocation in test mode
+ * or via webhook in normal mode.
+ *
+ * @module @odis-ai/domain/discharge/sms-executor
+ */
+
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import type { SmsExecutionResult } from "../types";
+import {
+  getSmsClient,
+  getSmsStatusCallbackUrl,
+  recordOutboundSms,
+  resolveThreadContext,
+  upsertConversation,
+  type ISmsClient,
+} from "@odis-ai/integrations/sms";
+import { getClinicByUserId } from "@odis-ai/domain/clinics/utils";
+import { isBlockedExtremeCase } from "@odis-ai/shared/util/discharge-readiness";
+
+/* ========================================
+   Helpers
+   ======================================== */
+
+/**
+ * Whether the owner was already reached by the discharge call for this case.
+ * Used for texts scheduled as a fallback for missed calls.
+ */
+async function wasReachedByPhone(
+  supabase: SupabaseClientType,
+  caseId: string,
+): Promise<boolean> {
+  const { data: call } = await supabase
+    .from("scheduled_discharge_calls")
+    .select("status, ended_reason")
+    .eq("case_id", caseId)
+    .eq("call_type", "discharge")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (call?.status !== "completed") return false;
+  return !(call.ended_reason ?? "").toLowerCase().includes("voicemail");
+}
+
+/**
+ * Mirror a sent discharge text into the owner's inbox thread so replies
+ * show up with the message they answer. Best effort: never fails the send.
+ */
+async function mirrorToInbox(
+  supabase: SupabaseClientType,
+  sms: {
+    id: string;
+    user_id: string;
+    case_id: string | null;
+    recipient_phone: string;
+    recipient_name: string | null;
+    body: string;
+  },
+  providerMessageId: string,
+  status: "sent" | "delivered",
+): Promise<void> {
+  try {
+    const context = await resolveThreadContext(
+      supabase,
+      {
+        userId: sms.user_id,
+        ownerPhone: sms.recipient_phone,
+        ownerName: sms.recipient_name,
+        caseId: sms.case_id,
+      },
+      async (userId) => (await getClinicByUserId(userId, supabase))?.id ?? null,
+    );
+    if (!context) return;
+
+    const conversation = await upsertConversation(supabase, context);
+    await recordOutboundSms(supabase, {
+      conversationId: conversation.id,
+      body: sms.body,
+      status,
+      providerMessageId,
+      scheduledSmsId: sms.id,
+    });
+  } catch (mirrorError) {
+    console.warn("[SMS_EXECUTOR] Failed to mirror SMS to inbox", {
+      smsId: sms.id,
+      error:
+        mirrorError instanceof Error
+          ? mirrorError.message
+          : String(mirrorError),
+    });
+  }
+}
+
+/* ========================================
+   Main Executor Function
+   ======================================== */
+
+/**
+ * Execute a scheduled discharge SMS
+ *
+ * This is the core execution logic, decoupled from HTTP handling.
+ * Can be called directly (test mode) or via webhook (normal mode).
+ *
+ * @param smsId - The scheduled SMS ID from the database
+ * @param supabase - Supabase client instance
+ * @param smsClient - SMS provider (defaults to the configured client)
+ * @returns Execution result with success status and message details
+ */
+export async function executeScheduledSms(
+  smsId: string,
+  supabase: SupabaseClientType,
+  smsClient: ISmsClient = getSmsClient(),
+): Promise<SmsExecutionResult> {
+  console.log("[SMS_EXECUTOR] Starting execution", { smsId });
+
+  // 1. Fetch scheduled SMS from database
+  const { data: sms, error } = await supabase
+    .from("scheduled_discharge_sms")
+    .select("*")
+    .eq("id", smsId)
+    .single();
+
+  if (error || !sms) {
+    console.error("[SMS_EXECUTOR] SMS not found", { smsId, error });
+    return { success: false, smsId, error: "Scheduled SMS not found" };
+  }
+
+  // 2. Check status (prevent double execution)
+  if (sms.status !== "queued") {
+    console.warn("[SMS_EXECUTOR] SMS already processed", {
+      smsId,
+      status: sms.status,
+    });
+    return {
+      success: true,
+      smsId,
+      alreadyProcessed: true,
+    };
+  }
+
+  const smsMetadata = (sms.metadata as Record<string, unknown>) ?? {};
+
+  const cancel = async (reason: string): Promise<SmsExecutionResult> => {
+    await supabase
+      .from("scheduled_discharge_sms")
+      .update({
+        status: "cancelled",
+        metadata: {
+          ...smsMetadata,
+          blocked_reason: reason,
+          cancelled_at: new Date().toISOString(),
+        },
+      })
+      .eq("id", smsId);
+    return { success: false, smsId, error: `Blocked: ${reason}` };
+  };
+
+  // 2b. Never text a number that replied STOP, even if it was scheduled before
+  const { data: optOut } = await supabase
+    .from("sms_opt_outs")
+    .select("phone_number")
+    .eq("phone_number", sms.recipient_phone)
+    .maybeSingle();
+
+  if (optOut) {
+    console.warn("[SMS_EXECUTOR] Recipient opted out", {
+      smsId,
+      recipientPhone: sms.recipient_phone,
+    });
+    return cancel("Recipient opted out of SMS");
+  }
+
+  // 2c. CRITICAL: Last-resort check for blocked extreme cases (euthanasia, deceased)
+  // This catches cases where clinical notes were updated AFTER the SMS was scheduled
+  if (sms.case_id) {
+    try {
+      const { data: caseData } = await supabase
+        .from("cases")
+        .select("metadata")
+        .eq("id", sms.case_id)
+        .single();
+
+      if (caseData?.metadata) {
+        const metadata = caseData.metadata as Record<string, unknown>;
+        const blockedCheck = isBlockedExtremeCase({
+          caseType: (metadata.entities as Record<string, unknown>)?.caseType as
+            string | undefined,
+          dischargeSummary: null,
+          consultationNotes: null,
+          metadata,
+        });
+
+        if (blockedCheck.blocked && blockedCheck.reason) {
+          console.warn(
+            "[SMS_EXECUTOR] Blocked extreme case detected at execution time",
+            { smsId, caseId: sms.case_id, reason: blockedCheck.reason },
+          );
+          return cancel(blockedCheck.reason);
+        }
+
+        // Check for no-show/cancelled PIMS appointment status
+        const pimsAppt = metadata.pimsAppointment as
+          Record<string, unknown> | undefined;
+        const pimsApptStatus = (pimsAppt?.status as string)?.toLowerCase();
+        if (pimsApptStatus === "no-show" || pimsApptStatus === "cancelled") {
+          console.warn(
+            "[SMS_EXECUTOR] No-show/cancelled appointment detected at execution time",
+            { smsId, caseId: sms.case_id, pimsApptStatus },
+          );
+          return cancel(`Patient appointment was ${pimsApptStatus}`);
+        }
+      }
+
+      // 2d. Missed-call fallback: skip the text if the call got through
+      if (
+        smsMetadata.only_if_call_missed &&
+        (await wasReachedByPhone(supabase, sms.case_id))
+      ) {
+        console.log("[SMS_EXECUTOR] Owner already reached by phone", {
+          smsId,
+          caseId: sms.case_id,
+        });
+        return cancel("Owner already reached by phone");
+      }
+    } catch (blockCheckError) {
+      console.warn("[SMS_EXECUTOR] Failed to check blocked status", {
+        smsId,
+        error:
+          blockCheckError instanceof Error
+            ? blockCheckError.message
+            : String(blockCheckError),
+      });
+      // Continue with sending - don't block on check failure
+    }
+  }
+
+  console.log("[SMS_EXECUTOR] Sending SMS", {
+    smsId,
+    provider: smsClient.provider,
+    recipientPhone: sms.recipient_phone,
+  });
+
+  // 3. Send via provider
+  try {
+    const response = await smsClient.send({
+      to: sms.recipient_phone,
+      body: sms.body,
+      statusCallbackUrl: getSmsStatusCallbackUrl(),
+    });
+
+    console.log("[SMS_EXECUTOR] SMS sent successfully", {
+      smsId,
+      providerMessageId: response.id,
+    });
+
+    // 4. Update database with success status
+    const sentStatus = response.status === "delivered" ? "delivered" : "sent";
+    await supabase
+      .from("scheduled_discharge_sms")
+      .update({
+        status: sentStatus,
+        provider: smsClient.provider,
+        provider_message_id: response.id,
+        sent_at: new Date().toISOString(),
+      })
+      .eq("id", smsId);
+
+    await mirrorToInbox(supabase, sms, response.id, sentStatus);
+
+    return {
+      success: true,
+      smsId,
+      providerMessageId: response.id,
+    };
+  } catch (sendError) {
+    const errorMessage =
+      sendError instanceof Error ? sendError.message : String(sendError);
+
+    console.error("[SMS_EXECUTOR] Provider error", {
+      smsId,
+      error: errorMessage,
+    });
+
+    // Update database with failure status
+    await supabase
+      .from("scheduled_discharge_sms")
+      .update({
+        status: "failed",
+        provider: smsClient.provider,
+        metadata: {
+          ...smsMetadata,
+          error: errorMessage,
+          failed_at: new Date().toISOString(),
+        },
+      })
+      .eq("id", smsId);
+
+    return { success: false, smsId, error: errorMessage };
+  }
+}
@@ -7,6 +7,13 @@
 // Types
 export type { StepContext } from "./types";
 
+// Registry
+export {
+  createDischargeStepRegistry,
+  type DischargeStepDefinition,
+  type DischargeStepRegistry,
+} from "./registry";
+
 // Step handlers
 export { executeIngestion } from "./ingestion-step";
 export { executeEntityExtraction } from "./entity-extraction-step";
@@ -16,6 +23,7 @@ export {
   executeEmailScheduling,
 } from "./email-scheduling-step";
 export { executeCallScheduling } from "./call-scheduling-step";
+export { executeSmsScheduling } from "./sms-scheduling-step";
 
 // Utilities
 export {
@@ -0,0 +1,67 @@
+/**
+ * Discharge Step Registry
+ *
+ * Registers the built-in discharge steps with their handlers. Custom steps
+ * (Slack, PIMS write-back, ...) are registered on top of this.
+ */
+
+import {
+  BUILT_IN_STEPS,
+  StepRegistry,
+  type StepDefinition,
+} from "@odis-ai/domain/shared";
+import type { BuiltInStepName } from "@odis-ai/shared/types/orchestration";
+
+import type { StepContext } from "./types";
+import { executeIngestion } from "./ingestion-step";
+import { executeEntityExtraction } from "./entity-extraction-step";
+import { executeSummaryGeneration } from "./summary-generation-step";
+import {
+  executeEmailPreparation,
+  executeEmailScheduling,
+} from "./email-scheduling-step";
+import { executeCallScheduling } from "./call-scheduling-step";
+import { executeSmsScheduling } from "./sms-scheduling-step";
+
+/**
+ * A discharge workflow step
+ */
+export type DischargeStepDefinition = StepDefinition<StepContext>;
+
+export type DischargeStepRegistry = StepRegistry<DischargeStepDefinition>;
+
+const BUILT_IN_HANDLERS: Record<
+  BuiltInStepName,
+  DischargeStepDefinition["handler"]
+> = {
+  ingest: executeIngestion,
+  extractEntities: executeEntityExtraction,
+  generateSummary: executeSummaryGeneration,
+  prepareEmail: executeEmailPreparation,
+  scheduleEmail: executeEmailScheduling,
+  scheduleCall: executeCallScheduling,
+  scheduleSms: executeSmsScheduling,
+};
+
+/**
+ * Create a registry holding the built-in discharge steps
+ *
+ * @example
+ * ```ts
+ * const registry = createDischargeStepRegistry().register({
+ *   name: "notifySlack",
+ *   dependencies: ["generateSummary"],
+ *   optionsSchema: z.object({ channelId: z.string() }),
+ *   handler: executeSlackNotification,
+ * });
+ * const orchestrator = new DischargeOrchestrator(supabase, user, cases, registry);
+ * ```
+ */
+export function createDischargeStepRegistry(): DischargeStepRegistry {
+  return new StepRegistry<DischargeStepDefinition>(
+    BUILT_IN_STEPS.map((step) => ({
+      ...step,
+      handler: BUILT_IN_HANDLERS[step.name as BuiltInStepName],
+    })),
+  );
+}
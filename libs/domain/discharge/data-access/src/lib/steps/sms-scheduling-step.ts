@@ -0,0 +1,217 @@
+/**
+ * SMS Scheduling Step
+ *
+ * Handles discharge text message scheduling, either alongside the call or
+ * as a fallback that only goes out when the call never reached the owner.
+ */
+
+import type {
+  CallResult,
+  StepResult,
+} from "@odis-ai/shared/types/orchestration";
+import type { Database, Json } from "@odis-ai/shared/types";
+import { getClinicByUserId } from "@odis-ai/domain/clinics/utils";
+import { normalizeToE164 } from "@odis-ai/shared/util/phone";
+
+import type { StepContext } from "./types";
+import { getCaseIdFromResults, normalizePatient } from "../discharge-helpers";
+
+type PatientRow = Database["public"]["Tables"]["patients"]["Row"];
+
+interface SmsScheduleOptions {
+  phoneNumber?: string;
+  scheduledFor?: Date;
+  body?: string;
+  onlyIfCallMissed?: boolean;
+}
+
+/** How long after the discharge call a missed-call text goes out */
+const MISSED_CALL_FALLBACK_DELAY_MINUTES = 120;
+
+/**
+ * Build the default discharge text
+ */
+function buildDischargeSmsBody(
+  petName: string,
+  clinicName: string,
+  clinicPhone: string,
+): string {
+  const callUs = clinicPhone
+    ? ` If you have any questions, call us at ${clinicPhone}.`
+    : "";
+  return (
+    `Hi from ${clinicName}! We're checking in on ${petName} after their recent visit. ` +
+    `Please follow the discharge instructions you received.${callUs} ` +
+    `Reply STOP to opt out.`
+  );
+}
+
+/**
+ * Execute SMS scheduling step
+ */
+export async function executeSmsScheduling(
+  ctx: StepContext,
+  startTime: number,
+): Promise<StepResult> {
+  const stepConfig = ctx.plan.getStepConfig("scheduleSms");
+  if (!stepConfig?.enabled) {
+    return { step: "scheduleSms", status: "skipped", duration: 0 };
+  }
+
+  const caseId = getCaseIdFromResults(ctx.results, ctx.request.input);
+  if (!caseId) {
+    throw new Error("Case ID required for SMS scheduling");
+  }
+
+  const options =
+    typeof stepConfig.options === "object" && stepConfig.options !== null
+      ? (stepConfig.options as SmsScheduleOptions)
+      : {};
+
+  const caseInfo = await ctx.casesService.getCaseWithEntities(
+    ctx.supabase,
+    caseId,
+  );
+  const patient = caseInfo
+    ? normalizePatient(caseInfo.patient as PatientRow | null)
+    : null;
+
+  const recipientPhone = normalizeToE164(
+    options.phoneNumber ?? patient?.owner_phone,
+  );
+  if (!recipientPhone) {
+    throw new Error("Recipient phone number is required");
+  }
+  const recipientName = patient?.owner_name ?? undefined;
+
+  const { data: userSettings } = await ctx.supabase
+    .from("users")
+    .select(
+      "clinic_name, clinic_phone, default_schedule_delay_minutes, test_mode_enabled, test_contact_phone, test_contact_name",
+    )
+    .eq("id", ctx.user.id)
+    .single();
+
+  const clinic = await getClinicByUserId(ctx.user.id, ctx.supabase);
+  const clinicName = clinic?.name ?? userSettings?.clinic_name ?? "Your Clinic";
+  const clinicPhone = clinic?.phone ?? userSettings?.clinic_phone ?? "";
+
+  const testModeEnabled = userSettings?.test_mode_enabled ?? false;
+  let finalRecipientPhone = recipientPhone;
+  let finalRecipientName = recipientName;
+
+  if (testModeEnabled) {
+    const testPhone = normalizeToE164(userSettings?.test_contact_phone);
+    if (!testPhone) {
+      throw new Error(
+        "Test mode is enabled but test contact phone is not configured",
+      );
+    }
+    finalRecipientPhone = testPhone;
+    finalRecipientName = userSettings?.test_contact_name ?? recipientName;
+  }
+
+  const { data: optOut } = await ctx.supabase
+    .from("sms_opt_outs")
+    .select("phone_number")
+    .eq("phone_number", finalRecipientPhone)
+    .maybeSingle();
+
+  if (optOut) {
+    return {
+      step: "scheduleSms",
+      status: "skipped",
+      duration: Date.now() - startTime,
+      data: { reason: "Recipient opted out of SMS" },
+    };
+  }
+
+  const serverNow = new Date();
+  let scheduledFor: Date;
+
+  if (options.scheduledFor) {
+    if (options.scheduledFor <= serverNow) {
+      throw new Error(`Scheduled time must be in the future`);
+    }
+    scheduledFor = options.scheduledFor;
+  } else {
+    const delayMinutes = userSettings?.default_schedule_delay_minutes ?? 5;
+    const delayMs = Math.max(delayMinutes * 60 * 1000, 10 * 1000);
+    scheduledFor = new Date(serverNow.getTime() + delayMs);
+
+    // Missed-call fallback goes out after the call has had time to happen
+    if (options.onlyIfCallMissed) {
+      const callResult = ctx.results.get("scheduleCall")?.data as
+        CallResult | undefined;
+      const callAt = callResult?.scheduledFor
+        ? new Date(callResult.scheduledFor)
+        : scheduledFor;
+      const fallbackAt = new Date(
+        Math.max(callAt.getTime(), serverNow.getTime()) +
+          MISSED_CALL_FALLBACK_DELAY_MINUTES * 60 * 1000,
+      );
+      if (fallbackAt > scheduledFor) scheduledFor = fallbackAt;
+    }
+  }
+
+  const petName = patient?.name ?? "your pet";
+  const body =
+    options.body ?? buildDischargeSmsBody(petName, clinicName, clinicPhone);
+
+  const metadata: Record<string, Json> = {};
+  if (options.onlyIfCallMissed) metadata.only_if_call_missed = true;
+  if (testModeEnabled) {
+    metadata.test_mode = true;
+    metadata.original_recipient_phone = recipientPhone;
+    metadata.original_recipient_name = recipientName ?? null;
+  }
+
+  const { data: scheduledSms, error: dbError } = await ctx.supabase
+    .from("scheduled_discharge_sms")
+    .insert({
+      user_id: ctx.user.id,
+      case_id: caseId,
+      recipient_phone: finalRecipientPhone,
+      recipient_name: finalRecipientName ?? null,
+      body,
+      scheduled_for: scheduledFor.toISOString(),
+      status: "queued",
+      metadata,
+    })
+    .select()
+    .single();
+
+  if (dbError || !scheduledSms) {
+    throw new Error(`Failed to create scheduled SMS: ${dbError?.message}`);
+  }
+
+  let qstashMessageId: string | undefined;
+  if (testModeEnabled) {
+    const { executeScheduledSms } = await import("../sms-executor");
+    const result = await executeScheduledSms(scheduledSms.id, ctx.supabase);
+    if (!result.success) {
+      throw new Error(result.error ?? "Immediate SMS execution failed");
+    }
+  } else {
+    const { scheduleSmsExecution } =
+      await import("@odis-ai/integrations/qstash/client");
+    qstashMessageId = await scheduleSmsExecution(scheduledSms.id, scheduledFor);
+
+    await ctx.supabase
+      .from("scheduled_discharge_sms")
+      .update({ qstash_message_id: qstashMessageId })
+      .eq("id", scheduledSms.id);
+  }
+
+  return {
+    step: "scheduleSms",
+    status: "completed",
+    duration: Date.now() - startTime,
+    data: {
+      smsId: scheduledSms.id,
+      scheduledFor: scheduledSms.scheduled_for,
+      qstashMessageId,
+      immediateExecution: testModeEnabled,
+    },
+  };
+}
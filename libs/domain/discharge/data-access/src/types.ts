@@ -58,6 +58,30 @@ export interface EmailExecutionResult {
   alreadyProcessed?: boolean;
 }
 
+/* ========================================
+   SMS Execution Types
+   ======================================== */
+
+/**
+ * Result of executing a scheduled SMS
+ */
+export interface SmsExecutionResult {
+  /** Whether the execution was successful */
+  success: boolean;
+
+  /** The scheduled SMS ID from the database */
+  smsId: string;
+
+  /** Provider message ID (if the SMS was accepted) */
+  providerMessageId?: string;
+
+  /** Error message if execution failed */
+  error?: string;
+
+  /** Whether the SMS was already processed (prevents double execution) */
+  alreadyProcessed?: boolean;
+}
+
 /* ========================================
    Executor Dependencies
    ======================================== */
@@ -6,9 +6,17 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { ExecutionPlan } from "../lib/execution-plan";
+import { z } from "zod";
+import { BUILT_IN_STEPS, ExecutionPlan } from "../lib/execution-plan";
+import { StepRegistry, StepRegistryError } from "../lib/step-registry";
 import type { OrchestrationRequest } from "@odis-ai/shared/validators/orchestration";
 
+declare module "@odis-ai/shared/types/orchestration" {
+  interface CustomStepNames {
+    sendSms: true;
+  }
+}
+
 /* ========================================
    Test Helpers
    ======================================== */
@@ -17,7 +25,7 @@ import type { OrchestrationRequest } from "@odis-ai/shared/validators/orchestrat
  * Create a minimal valid OrchestrationRequest for testing
  */
 function createRequest(
-  steps: OrchestrationRequest["steps"],
+  steps: OrchestrationRequest["steps"] & { sendSms?: boolean | object },
 ): OrchestrationRequest {
   return {
     input: {
@@ -717,4 +725,71 @@ describe("ExecutionPlan", () => {
       expect(plan.shouldExecuteStep("prepareEmail")).toBe(false);
     });
   });
+
+  /* ========================================
+     Registered Step Tests
+     ======================================== */
+
+  describe("registered steps", () => {
+    function createRegistry() {
+      return new StepRegistry(BUILT_IN_STEPS).register({
+        name: "sendSms",
+        dependencies: ["generateSummary"],
+        optionsSchema: z.object({
+          phoneNumber: z.string(),
+          delayMinutes: z.number().default(0),
+        }),
+      });
+    }
+
+    it("plans custom steps after their dependencies", () => {
+      const request = createRequest({
+        ingest: true,
+        extractEntities: true,
+        generateSummary: true,
+        scheduleCall: true,
+        sendSms: { phoneNumber: "+15555550100" },
+      });
+      const plan = new ExecutionPlan(request, createRegistry());
+
+      expect(plan.getStepConfig("sendSms")?.dependencies).toEqual([
+        "generateSummary",
+      ]);
+      expect(plan.getWaves()).toEqual([
+        ["ingest"],
+        ["extractEntities"],
+        ["generateSummary", "scheduleCall"],
+        ["sendSms"],
+      ]);
+    });
+
+    it("stores parsed options with schema defaults", () => {
+      const request = createRequest({
+        sendSms: { phoneNumber: "+15555550100" },
+      });
+      const plan = new ExecutionPlan(request, createRegistry());
+
+      expect(plan.getStepConfig("sendSms")?.options).toEqual({
+        phoneNumber: "+15555550100",
+        delayMinutes: 0,
+      });
+    });
+
+    it("rejects options that fail the step schema", () => {
+      const request = createRequest({ sendSms: { delayMinutes: 5 } });
+
+      expect(() => new ExecutionPlan(request, createRegistry())).toThrow(
+        /Invalid options for step 'sendSms'/,
+      );
+    });
+
+    it("rejects unregistered steps in the request", () => {
+      const request = createRequest({
+        ingest: true,
+        sendFax: true,
+      } as OrchestrationRequest["steps"]);
+
+      expect(() => new ExecutionPlan(request)).toThrow(StepRegistryError);
+    });
+  });
 });
@@ -0,0 +1,127 @@
+/**
+ * Tests for StepRegistry
+ * - Registration (duplicates, forward references, cycle detection)
+ * - Topological order and parallel waves
+ */
+
+import { describe, it, expect } from "vitest";
+import { StepRegistry, StepRegistryError } from "../lib/step-registry";
+import { BUILT_IN_STEPS } from "../lib/execution-plan";
+
+declare module "@odis-ai/shared/types/orchestration" {
+  interface CustomStepNames {
+    a: true;
+    b: true;
+    c: true;
+    postToSlack: true;
+    sendSms: true;
+    writeNoteToPims: true;
+  }
+}
+
+describe("StepRegistry", () => {
+  describe("registration", () => {
+    it("rejects duplicate step names", () => {
+      const registry = new StepRegistry([{ name: "a", dependencies: [] }]);
+
+      expect(() => registry.register({ name: "a", dependencies: [] })).toThrow(
+        StepRegistryError,
+      );
+    });
+
+    it("allows dependencies on steps registered later", () => {
+      const registry = new StepRegistry([
+        { name: "postToSlack", dependencies: ["sendSms"] },
+        { name: "sendSms", dependencies: [] },
+      ]);
+
+      expect(registry.getTopologicalOrder()).toEqual([
+        "sendSms",
+        "postToSlack",
+      ]);
+    });
+
+    it("reports unregistered dependencies when ordering", () => {
+      const registry = new StepRegistry([
+        { name: "postToSlack", dependencies: ["sendSms"] },
+      ]);
+
+      expect(() => registry.getTopologicalOrder()).toThrow(
+        /unregistered step\(s\): sendSms/,
+      );
+    });
+
+    it("detects cycles and leaves the registry unchanged", () => {
+      const registry = new StepRegistry([
+        { name: "a", dependencies: ["c"] },
+        { name: "b", dependencies: ["a"] },
+      ]);
+
+      let error: unknown;
+      try {
+        registry.register({ name: "c", dependencies: ["b"] });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(StepRegistryError);
+      expect((error as StepRegistryError).cycle).toEqual(["a", "c", "b", "a"]);
+      expect(registry.has("c")).toBe(false);
+    });
+
+    it("detects self-dependencies", () => {
+      const registry = new StepRegistry();
+
+      expect(() =>
+        registry.register({ name: "a", dependencies: ["a"] }),
+      ).toThrow(/cycle: a -> a/);
+    });
+  });
+
+  describe("ordering", () => {
+    it("keeps registration order for the built-in steps", () => {
+      const registry = new StepRegistry(BUILT_IN_STEPS);
+
+      expect(registry.getTopologicalOrder()).toEqual([
+        "ingest",
+        "extractEntities",
+        "generateSummary",
+        "prepareEmail",
+        "scheduleEmail",
+        "scheduleCall",
+        "scheduleSms",
+      ]);
+    });
+
+    it("groups independent steps into parallel waves", () => {
+      const registry = new StepRegistry(BUILT_IN_STEPS);
+
+      expect(registry.getWaves()).toEqual([
+        ["ingest"],
+        ["extractEntities"],
+        ["generateSummary", "scheduleCall", "scheduleSms"],
+        ["prepareEmail"],
+        ["scheduleEmail"],
+      ]);
+    });
+
+    it("ignores dependencies outside a selected set", () => {
+      const registry = new StepRegistry(BUILT_IN_STEPS).register({
+        name: "writeNoteToPims",
+        dependencies: ["generateSummary"],
+      });
+
+      expect(
+        registry.getWaves(["ingest", "scheduleCall", "writeNoteToPims"]),
+      ).toEqual([["ingest", "writeNoteToPims"], ["scheduleCall"]]);
+    });
+
+    it("rejects unknown steps in a selected set", () => {
+      const registry = new StepRegistry(BUILT_IN_STEPS);
+
+      expect(() => registry.getWaves(["ingest", "sendSms"])).toThrow(
+        /Unknown step\(s\): sendSms/,
+      );
+    });
+  });
+});
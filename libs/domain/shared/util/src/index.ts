@@ -5,4 +5,5 @@
  */
 
 export * from "./lib/execution-plan";
+export * from "./lib/step-registry";
 export * from "./lib/interfaces";
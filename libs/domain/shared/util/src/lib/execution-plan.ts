@@ -3,10 +3,16 @@
  *
  * Analyzes orchestration requests and determines step execution order
  * and parallelization opportunities. Tracks step dependencies and state.
+ * Steps and their dependencies come from a StepRegistry.
  */
 
 import type { OrchestrationRequest } from "@odis-ai/shared/validators/orchestration";
 import type { StepName } from "@odis-ai/shared/types/orchestration";
+import {
+  StepRegistry,
+  StepRegistryError,
+  type StepDeclaration,
+} from "./step-registry";
 
 /* ========================================
    Types
@@ -22,6 +28,20 @@ interface StepConfig {
   dependencies: StepName[];
 }
 
+/**
+ * Built-in discharge steps
+ */
+export const BUILT_IN_STEPS: readonly StepDeclaration[] = [
+  { name: "ingest", dependencies: [] },
+  { name: "extractEntities", dependencies: ["ingest"] },
+  { name: "generateSummary", dependencies: ["ingest", "extractEntities"] },
+  { name: "prepareEmail", dependencies: ["generateSummary"] },
+  { name: "scheduleEmail", dependencies: ["prepareEmail"] },
+  // Can run parallel with email steps, but needs entities
+  { name: "scheduleCall", dependencies: ["ingest", "extractEntities"] },
+  { name: "scheduleSms", dependencies: ["ingest", "extractEntities"] },
+];
+
 /* ========================================
    Execution Plan Class
    ======================================== */
@@ -34,10 +54,19 @@ interface StepConfig {
  */
 export class ExecutionPlan {
   private steps = new Map<StepName, StepConfig>();
+  private stepOrder: StepName[] = [];
+  private waves: StepName[][] = [];
   private completedSteps = new Set<StepName>();
   private failedSteps = new Set<StepName>();
 
-  constructor(private request: OrchestrationRequest) {
+  /**
+   * @throws StepRegistryError if the request configures an unregistered
+   *   step, step options fail validation, or the registry is invalid
+   */
+  constructor(
+    private request: OrchestrationRequest,
+    private registry: StepRegistry = new StepRegistry(BUILT_IN_STEPS),
+  ) {
     this.buildPlan();
   }
 
@@ -50,42 +79,60 @@ export class ExecutionPlan {
    * Analyzes step configurations and dependencies
    */
   private buildPlan(): void {
-    const stepOrder: StepName[] = [
-      "ingest",
-      "extractEntities",
-      "generateSummary",
-      "prepareEmail",
-      "scheduleEmail",
-      "scheduleCall",
-    ];
-
-    // Define dependencies for each step
-    const dependencies: Record<StepName, StepName[]> = {
-      ingest: [],
-      extractEntities: ["ingest"],
-      generateSummary: ["ingest", "extractEntities"],
-      prepareEmail: ["generateSummary"],
-      scheduleEmail: ["prepareEmail"],
-      scheduleCall: ["ingest", "extractEntities"], // Can run parallel with email steps, but needs entities
-    };
+    // Requests built from an extended steps schema carry custom steps too
+    const stepConfigs: Partial<Record<string, boolean | object>> =
+      this.request.steps;
+
+    const unknownSteps = Object.keys(stepConfigs).filter(
+      (stepName) =>
+        stepConfigs[stepName] !== undefined && !this.registry.has(stepName),
+    );
+    if (unknownSteps.length > 0) {
+      throw new StepRegistryError(
+        `Unknown step(s) in request: ${unknownSteps.join(", ")}`,
+      );
+    }
+
+    this.stepOrder = this.registry.getTopologicalOrder();
 
     // Process each step
-    for (const stepName of stepOrder) {
-      const stepConfig = this.request.steps[stepName];
+    for (const stepName of this.stepOrder) {
+      const declaration = this.registry.get(stepName)!;
+      const stepConfig = stepConfigs[stepName];
 
       // Determine if step is enabled
       const enabled = this.isStepEnabled(stepConfig);
 
       // Get step options
-      const options = typeof stepConfig === "object" ? stepConfig : undefined;
+      const options =
+        typeof stepConfig === "object"
+          ? this.parseOptions(declaration, stepConfig)
+          : undefined;
 
       this.steps.set(stepName, {
         name: stepName,
         enabled,
         options,
-        dependencies: dependencies[stepName] ?? [],
+        dependencies: declaration.dependencies,
       });
     }
+
+    this.waves = this.registry.getWaves(this.getEnabledSteps());
+  }
+
+  /**
+   * Validate object options against the step's schema, if it declares one
+   */
+  private parseOptions(declaration: StepDeclaration, options: object): unknown {
+    if (!declaration.optionsSchema) return options;
+
+    const result = declaration.optionsSchema.safeParse(options);
+    if (!result.success) {
+      throw new StepRegistryError(
+        `Invalid options for step '${declaration.name}': ${result.error.message}`,
+      );
+    }
+    return result.data;
   }
 
   /**
@@ -147,16 +194,7 @@ export class ExecutionPlan {
     const batch: StepName[] = [];
 
     // Find all steps that are ready to execute
-    const stepOrder: StepName[] = [
-      "ingest",
-      "extractEntities",
-      "generateSummary",
-      "prepareEmail",
-      "scheduleEmail",
-      "scheduleCall",
-    ];
-
-    for (const stepName of stepOrder) {
+    for (const stepName of this.stepOrder) {
       if (this.shouldExecuteStep(stepName)) {
         batch.push(stepName);
       }
@@ -213,6 +251,21 @@ export class ExecutionPlan {
     return this.steps.get(stepName);
   }
 
+  /**
+   * Get all registered steps in dependency order
+   */
+  getStepOrder(): StepName[] {
+    return [...this.stepOrder];
+  }
+
+  /**
+   * Get enabled steps grouped into parallel waves
+   * Dependencies on disabled steps are ignored.
+   */
+  getWaves(): StepName[][] {
+    return this.waves.map((wave) => [...wave]);
+  }
+
   /**
    * Get all enabled steps
    */
@@ -0,0 +1,268 @@
+/**
+ * Step Registry
+ *
+ * Registry of orchestration steps and their declared dependencies.
+ * Computes topological order and parallel execution waves for any set of
+ * registered steps, and rejects dependency cycles.
+ */
+
+import type { ZodType } from "zod";
+import type { StepName, StepResult } from "@odis-ai/shared/types/orchestration";
+
+/* ========================================
+   Types
+   ======================================== */
+
+/**
+ * A step and the steps it depends on
+ */
+export interface StepDeclaration {
+  name: StepName;
+  dependencies: StepName[];
+  /**
+   * Validates the step's options from the request (object configs only).
+   * Parsed output (with defaults) replaces the raw options in the plan.
+   */
+  optionsSchema?: ZodType;
+  description?: string;
+}
+
+/**
+ * Executes a step; options are read from the plan via ctx
+ */
+export type StepHandler<TContext> = (
+  ctx: TContext,
+  startTime: number,
+) => Promise<StepResult>;
+
+/**
+ * A step declaration with its handler
+ */
+export interface StepDefinition<TContext> extends StepDeclaration {
+  handler: StepHandler<TContext>;
+}
+
+/**
+ * Thrown for invalid registrations: duplicate names, unknown dependencies
+ * and dependency cycles
+ */
+export class StepRegistryError extends Error {
+  constructor(
+    message: string,
+    /** Steps forming the cycle, first step repeated at the end */
+    public readonly cycle?: StepName[],
+  ) {
+    super(message);
+    this.name = "StepRegistryError";
+  }
+}
+
+/* ========================================
+   Step Registry Class
+   ======================================== */
+
+/**
+ * StepRegistry holds step declarations in registration order
+ *
+ * Dependencies may name steps registered later; `validate()` (run by the
+ * ordering methods) checks they all exist. Registering a step that closes a
+ * cycle throws and leaves the registry unchanged.
+ */
+export class StepRegistry<TStep extends StepDeclaration = StepDeclaration> {
+  private steps = new Map<StepName, TStep>();
+
+  constructor(steps: readonly NoInfer<TStep>[] = []) {
+    for (const step of steps) {
+      this.register(step);
+    }
+  }
+
+  /**
+   * Register a step
+   */
+  register(step: TStep): this {
+    if (this.steps.has(step.name)) {
+      throw new StepRegistryError(`Step '${step.name}' is already registered`);
+    }
+
+    this.steps.set(step.name, step);
+
+    const cycle = findCycle(this.list());
+    if (cycle) {
+      this.steps.delete(step.name);
+      throw new StepRegistryError(
+        `Step '${step.name}' creates a dependency cycle: ${cycle.join(" -> ")}`,
+        cycle,
+      );
+    }
+
+    return this;
+  }
+
+  has(name: string): name is StepName {
+    return this.steps.has(name as StepName);
+  }
+
+  get(name: StepName): TStep | undefined {
+    return this.steps.get(name);
+  }
+
+  /**
+   * All steps in registration order
+   */
+  list(): TStep[] {
+    return Array.from(this.steps.values());
+  }
+
+  /**
+   * Check every dependency is registered
+   */
+  validate(): void {
+    for (const step of this.steps.values()) {
+      const missing = step.dependencies.filter((dep) => !this.steps.has(dep));
+      if (missing.length > 0) {
+        throw new StepRegistryError(
+          `Step '${step.name}' depends on unregistered step(s): ${missing.join(", ")}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Steps ordered so each comes after its dependencies, otherwise in
+   * registration order
+   * @param names Restrict to these steps (default: all); dependencies
+   *   outside the set are ignored
+   */
+  getTopologicalOrder(names?: StepName[]): StepName[] {
+    this.validate();
+    return computeOrder(this.select(names));
+  }
+
+  /**
+   * Steps grouped into waves; each wave only depends on earlier waves, so
+   * the steps within a wave can run in parallel
+   * @param names Restrict to these steps (default: all); dependencies
+   *   outside the set are ignored
+   */
+  getWaves(names?: StepName[]): StepName[][] {
+    this.validate();
+    return computeWaves(this.select(names));
+  }
+
+  private select(names?: StepName[]): TStep[] {
+    if (!names) return this.list();
+
+    const unknown = names.filter((name) => !this.steps.has(name));
+    if (unknown.length > 0) {
+      throw new StepRegistryError(`Unknown step(s): ${unknown.join(", ")}`);
+    }
+
+    const selected = new Set(names);
+    return this.list()
+      .filter((step) => selected.has(step.name))
+      .map((step) => ({
+        ...step,
+        dependencies: step.dependencies.filter((dep) => selected.has(dep)),
+      }));
+  }
+}
+
+/* ========================================
+   Graph Helpers
+   ======================================== */
+
+/**
+ * Kahn's algorithm, always taking the earliest registered ready step
+ */
+function computeOrder(steps: StepDeclaration[]): StepName[] {
+  return computeLayers(steps, true).flat();
+}
+
+/**
+ * Kahn's algorithm by levels; ties keep registration order
+ */
+function computeWaves(steps: StepDeclaration[]): StepName[][] {
+  return computeLayers(steps, false);
+}
+
+/**
+ * Peel off ready steps until none remain
+ * @param single Take one ready step per layer instead of all of them
+ */
+function computeLayers(
+  steps: StepDeclaration[],
+  single: boolean,
+): StepName[][] {
+  const names = new Set(steps.map((step) => step.name));
+  const remaining = new Map(
+    steps.map((step) => [
+      step.name,
+      step.dependencies.filter((dep) => names.has(dep)),
+    ]),
+  );
+  const done = new Set<StepName>();
+  const waves: StepName[][] = [];
+
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.entries())
+      .filter(([, deps]) => deps.every((dep) => done.has(dep)))
+      .map(([name]) => name);
+    const wave = single ? ready.slice(0, 1) : ready;
+
+    if (wave.length === 0) {
+      const cycle = findCycle(steps) ?? Array.from(remaining.keys());
+      throw new StepRegistryError(
+        `Step dependency cycle: ${cycle.join(" -> ")}`,
+        cycle,
+      );
+    }
+
+    for (const name of wave) {
+      remaining.delete(name);
+      done.add(name);
+    }
+    waves.push(wave);
+  }
+
+  return waves;
+}
+
+/**
+ * Depth-first search for a dependency cycle among known steps
+ * @returns The cycle path (first step repeated at the end), or null
+ */
+function findCycle(steps: StepDeclaration[]): StepName[] | null {
+  const byName = new Map(steps.map((step) => [step.name, step]));
+  const visited = new Set<StepName>();
+  const path: StepName[] = [];
+  const onPath = new Set<StepName>();
+
+  const visit = (name: StepName): StepName[] | null => {
+    if (onPath.has(name)) {
+      return [...path.slice(path.indexOf(name)), name];
+    }
+    if (visited.has(name)) return null;
+
+    visited.add(name);
+    onPath.add(name);
+    path.push(name);
+
+    for (const dep of byName.get(name)?.dependencies ?? []) {
+      if (!byName.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    onPath.delete(name);
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.name);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
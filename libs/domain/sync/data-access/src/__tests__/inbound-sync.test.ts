@@ -0,0 +1,282 @@
+/**
+ * Tests for InboundSyncService against the sync cursor
+ * - Failed PIMS fetches leave the cursor alone and remove nothing
+ * - Unchanged appointments whose case was deleted are recreated
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Database,
+  IPimsProvider,
+  PimsAppointment,
+} from "@odis-ai/shared/types";
+
+vi.mock("../../../../cases/data-access/src/index", () => ({
+  createPatientFromPimsAppointment: vi.fn(),
+  updatePatientFromPimsAppointment: vi.fn(),
+}));
+
+vi.mock("../utils/sync-audit", () => ({
+  createSyncAudit: vi.fn(),
+  recordSyncAudit: vi.fn(),
+}));
+
+vi.mock("../utils/sync-cursor", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/sync-cursor")>()),
+  loadSyncCursor: vi.fn(),
+  saveSyncCursor: vi.fn(),
+}));
+
+import { InboundSyncService } from "../services/inbound-sync.service";
+import { calculateAppointmentHash } from "../utils/sync-hash";
+import { buildPimsExternalId } from "../utils/external-id";
+import {
+  createEmptySyncCursor,
+  loadSyncCursor,
+  saveSyncCursor,
+  type SyncCursor,
+} from "../utils/sync-cursor";
+
+// 2026-03-10 10:00 PDT
+const now = new Date("2026-03-10T17:00:00.000Z");
+const lastRun = "2026-03-10T16:00:00.000Z";
+// 2026-03-10 and 2026-03-11 in America/Los_Angeles
+const dateRange = {
+  start: new Date("2026-03-10T07:00:00.000Z"),
+  end: new Date("2026-03-12T06:59:59.999Z"),
+};
+
+function appointment(id: string, date: string, hour: number): PimsAppointment {
+  return {
+    id,
+    consultationId: null,
+    date,
+    startTime: new Date(`${date}T${String(hour).padStart(2, "0")}:00:00.000Z`),
+    duration: 30,
+    status: "Confirmed",
+    patient: { id: "3001", name: "Biscuit", species: "Canine", breed: null },
+    client: {
+      id: "2001",
+      name: "Dana Whitfield",
+      phone: "(408) 555-0199",
+      email: null,
+    },
+    provider: { id: "41", name: "Dr. Priya Patel" },
+    type: "Wellness Exam",
+    reason: null,
+  };
+}
+
+function cursorWith(days: SyncCursor["days"]): SyncCursor {
+  return { ...createEmptySyncCursor("clinic-1"), days };
+}
+
+/**
+ * Supabase stub: every query resolves empty, except the case lookup, which
+ * returns `existingExternalIds`. Inserted cases are recorded.
+ */
+function makeSupabase(existingExternalIds: string[] = []) {
+  const insertedCases: unknown[] = [];
+
+  const from = vi.fn((table: string) => {
+    const result =
+      table === "cases"
+        ? {
+            data: existingExternalIds.map((external_id) => ({ external_id })),
+            error: null,
+          }
+        : { data: null, error: null };
+
+    const builder: Record<string, unknown> = {
+      then: (
+        resolve: (value: typeof result) => unknown,
+        reject: (reason: unknown) => unknown,
+      ) => Promise.resolve(result).then(resolve, reject),
+      maybeSingle: vi.fn(async () => ({ data: null, error: null })),
+      single: vi.fn(async () => ({ data: { id: "case-new" }, error: null })),
+      insert: vi.fn((row: unknown) => {
+        insertedCases.push(row);
+        return builder;
+      }),
+    };
+    for (const method of ["select", "eq", "in", "update", "upsert"]) {
+      builder[method] = vi.fn(() => builder);
+    }
+    return builder;
+  });
+
+  return {
+    supabase: { from } as unknown as SupabaseClient<Database>,
+    insertedCases,
+  };
+}
+
+function makeProvider(
+  fetchAppointments: IPimsProvider["fetchAppointments"],
+): IPimsProvider {
+  return {
+    name: "idexx-neo",
+    fetchAppointments: vi.fn(fetchAppointments),
+  } as unknown as IPimsProvider;
+}
+
+function savedCursor(): SyncCursor {
+  const calls = vi.mocked(saveSyncCursor).mock.calls;
+  const cursor = calls[calls.length - 1]?.[1];
+  if (!cursor) throw new Error("Cursor was not saved");
+  return cursor;
+}
+
+describe("InboundSyncService", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps the cursor and removes nothing when the PIMS fetch fails", async () => {
+    const known = appointment("9001", "2026-03-10", 16);
+    const previous = cursorWith({
+      "2026-03-10": {
+        syncedAt: lastRun,
+        appointments: { "9001": calculateAppointmentHash(known) },
+      },
+    });
+    vi.mocked(loadSyncCursor).mockResolvedValue(previous);
+
+    const { supabase, insertedCases } = makeSupabase();
+    const provider = makeProvider(async () => {
+      throw new Error("IDEXX timed out");
+    });
+
+    const result = await new InboundSyncService(
+      supabase,
+      provider,
+      "clinic-1",
+    ).sync({ dateRange });
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]?.message).toContain("IDEXX timed out");
+    expect(result.stats.cancelled).toBe(0);
+    expect(insertedCases).toHaveLength(0);
+    expect(savedCursor().days["2026-03-10"]).toEqual(
+      previous.days["2026-03-10"],
+    );
+    expect(savedCursor().days["2026-03-11"]).toBeUndefined();
+  });
+
+  it("doesn't count a missing appointment as removed when the rest of the window can't be fetched", async () => {
+    const moved = appointment("9001", "2026-03-10", 16);
+    const previous = cursorWith({
+      // Settled, so only re-fetched to look for 9001
+      "2026-03-08": { syncedAt: lastRun, appointments: {} },
+      "2026-03-09": { syncedAt: lastRun, appointments: {} },
+      "2026-03-10": {
+        syncedAt: lastRun,
+        appointments: { "9001": calculateAppointmentHash(moved) },
+      },
+    });
+    vi.mocked(loadSyncCursor).mockResolvedValue(previous);
+
+    const { supabase } = makeSupabase();
+    const provider = makeProvider(async (start) => {
+      if (start < dateRange.start) {
+        throw new Error("IDEXX timed out");
+      }
+      return [];
+    });
+
+    const result = await new InboundSyncService(
+      supabase,
+      provider,
+      "clinic-1",
+    ).sync({
+      dateRange: {
+        start: new Date("2026-03-08T08:00:00.000Z"),
+        end: new Date("2026-03-11T06:59:59.999Z"),
+      },
+    });
+
+    expect(provider.fetchAppointments).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    expect(result.stats.cancelled).toBe(0);
+    expect(savedCursor().days).toEqual(previous.days);
+  });
+
+  it("counts an appointment as removed once the whole window was fetched", async () => {
+    const removed = appointment("9001", "2026-03-10", 16);
+    vi.mocked(loadSyncCursor).mockResolvedValue(
+      cursorWith({
+        "2026-03-10": {
+          syncedAt: lastRun,
+          appointments: { "9001": calculateAppointmentHash(removed) },
+        },
+      }),
+    );
+
+    const { supabase } = makeSupabase();
+    const result = await new InboundSyncService(
+      supabase,
+      makeProvider(async () => []),
+      "clinic-1",
+    ).sync({ dateRange });
+
+    expect(result.success).toBe(true);
+    expect(result.stats.cancelled).toBe(1);
+    expect(savedCursor().days["2026-03-10"]).toEqual({
+      syncedAt: now.toISOString(),
+      appointments: {},
+    });
+  });
+
+  it("skips unchanged appointments whose case still exists", async () => {
+    const unchanged = appointment("9001", "2026-03-10", 16);
+    vi.mocked(loadSyncCursor).mockResolvedValue(
+      cursorWith({
+        "2026-03-10": {
+          syncedAt: lastRun,
+          appointments: { "9001": calculateAppointmentHash(unchanged) },
+        },
+      }),
+    );
+
+    const { supabase, insertedCases } = makeSupabase([
+      buildPimsExternalId("idexx-neo", "9001"),
+    ]);
+    const result = await new InboundSyncService(
+      supabase,
+      makeProvider(async () => [unchanged]),
+      "clinic-1",
+    ).sync({ dateRange });
+
+    expect(result.stats.skipped).toBe(1);
+    expect(insertedCases).toHaveLength(0);
+  });
+
+  it("recreates the case for an unchanged appointment deleted locally", async () => {
+    const unchanged = appointment("9001", "2026-03-10", 16);
+    vi.mocked(loadSyncCursor).mockResolvedValue(
+      cursorWith({
+        "2026-03-10": {
+          syncedAt: lastRun,
+          appointments: { "9001": calculateAppointmentHash(unchanged) },
+        },
+      }),
+    );
+
+    const { supabase, insertedCases } = makeSupabase();
+    const result = await new InboundSyncService(
+      supabase,
+      makeProvider(async () => [unchanged]),
+      "clinic-1",
+    ).sync({ dateRange });
+
+    expect(result.stats.created).toBe(1);
+    expect(insertedCases).toHaveLength(1);
+  });
+});
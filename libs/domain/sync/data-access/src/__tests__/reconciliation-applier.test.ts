@@ -0,0 +1,294 @@
+/**
+ * Tests for ReconciliationApplier against an in-memory cases table
+ * - apply: soft-delete, restore, relink and status updates
+ * - undo: restores exactly the cases a run soft-deleted
+ * - Cases changed since the plan are skipped
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Database,
+  PimsAppointment,
+  ReconciliationAction,
+  ReconciliationPlan,
+} from "@odis-ai/shared/types";
+
+vi.mock("../utils/sync-audit", () => ({
+  createSyncAudit: vi.fn(),
+  recordSyncAudit: vi.fn(),
+}));
+
+import { ReconciliationApplier } from "../services/reconciliation-applier.service";
+
+interface CaseRow {
+  id: string;
+  clinic_id: string;
+  status: string;
+  external_id: string | null;
+  scheduled_at: string | null;
+  metadata: Record<string, unknown>;
+  [column: string]: unknown;
+}
+
+/**
+ * Read a column, following `metadata->a->>b` JSON paths like PostgREST
+ */
+function readColumn(row: CaseRow, column: string): unknown {
+  const [base = "", ...path] = column.split(/->>?/);
+  let value: unknown = row[base];
+  for (const key of path) {
+    value =
+      value && typeof value === "object"
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+  return path.length > 0 && value !== undefined && value !== null
+    ? String(value)
+    : value;
+}
+
+/**
+ * Supabase stub backed by `cases`; other tables accept anything
+ */
+function makeSupabase(cases: CaseRow[]) {
+  const from = vi.fn((table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let update: Record<string, unknown> | null = null;
+
+    const matching = () =>
+      table === "cases"
+        ? cases.filter((row) =>
+            filters.every(
+              ([column, value]) => readColumn(row, column) === value,
+            ),
+          )
+        : [];
+
+    const run = () => {
+      if (update) {
+        for (const row of matching()) Object.assign(row, update);
+        return { data: null, error: null };
+      }
+      return { data: structuredClone(matching()), error: null };
+    };
+
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      update: (values: Record<string, unknown>) => {
+        update = values;
+        return builder;
+      },
+      maybeSingle: async () => ({
+        data: structuredClone(matching()[0] ?? null),
+        error: null,
+      }),
+      then: (
+        resolve: (value: ReturnType<typeof run>) => unknown,
+        reject: (reason: unknown) => unknown,
+      ) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return builder;
+  });
+
+  return { from } as unknown as SupabaseClient<Database>;
+}
+
+function caseRow(id: string, overrides: Partial<CaseRow> = {}): CaseRow {
+  return {
+    id,
+    clinic_id: "clinic-1",
+    status: "scheduled",
+    external_id: `pims-appt-idexx-neo-${id}`,
+    scheduled_at: "2026-03-09T16:00:00.000Z",
+    metadata: { syncSource: "idexx-neo" },
+    ...overrides,
+  };
+}
+
+function action(
+  type: ReconciliationAction["type"],
+  row: CaseRow,
+  overrides: Partial<ReconciliationAction> = {},
+): ReconciliationAction {
+  return {
+    id: `${type}:${row.id}`,
+    type,
+    caseId: row.id,
+    externalId: row.external_id,
+    patientName: "Biscuit",
+    scheduledAt: row.scheduled_at,
+    reason: "removed_from_pims",
+    description: "",
+    fromStatus: row.status,
+    toStatus: null,
+    linkedCalls: [],
+    linkedEmails: [],
+    ...overrides,
+  };
+}
+
+function plan(actions: ReconciliationAction[]): ReconciliationPlan {
+  return {
+    clinicId: "clinic-1",
+    generatedAt: "2026-03-10T17:00:00.000Z",
+    dateRange: { start: "2026-03-03", end: "2026-03-10" },
+    casesChecked: actions.length,
+    actions,
+  };
+}
+
+describe("ReconciliationApplier", () => {
+  let cases: CaseRow[];
+  let applier: ReconciliationApplier;
+
+  beforeEach(() => {
+    cases = [
+      caseRow("case-1"),
+      caseRow("case-2", { status: "in_progress" }),
+      caseRow("case-3"),
+    ];
+    applier = new ReconciliationApplier(makeSupabase(cases), "clinic-1");
+  });
+
+  it("soft-deletes cases and undo restores their previous status", async () => {
+    const [first, second] = cases;
+    const result = await applier.apply(
+      plan([action("delete", first!), action("delete", second!)]),
+      { runId: "run-1" },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stats.deleted).toBe(2);
+    expect(result.deletedCases).toEqual(["case-1", "case-2"]);
+    expect(cases.map((c) => c.status)).toEqual([
+      "reviewed",
+      "reviewed",
+      "scheduled",
+    ]);
+    expect(cases[1]?.metadata.reconciliation).toMatchObject({
+      softDeleted: true,
+      runId: "run-1",
+      previousStatus: "in_progress",
+    });
+
+    const undone = await applier.undo("run-1");
+
+    expect(undone.success).toBe(true);
+    expect(undone.restoredCases.sort()).toEqual(["case-1", "case-2"]);
+    expect(cases.map((c) => c.status)).toEqual([
+      "scheduled",
+      "in_progress",
+      "scheduled",
+    ]);
+    expect(cases[0]?.metadata).toMatchObject({
+      syncSource: "idexx-neo",
+      reconciliation: { softDeleted: false, restoreReason: "undo" },
+    });
+  });
+
+  it("undo leaves cases deleted by other runs alone", async () => {
+    const [first, second] = cases;
+    await applier.apply(plan([action("delete", first!)]), { runId: "run-1" });
+    await applier.apply(plan([action("delete", second!)]), { runId: "run-2" });
+
+    const undone = await applier.undo("run-1");
+
+    expect(undone.restoredCases).toEqual(["case-1"]);
+    expect(cases[1]?.status).toBe("reviewed");
+  });
+
+  it("applies only the selected actions", async () => {
+    const [first, second] = cases;
+    const result = await applier.apply(
+      plan([action("delete", first!), action("delete", second!)]),
+      { actionIds: ["delete:case-2"] },
+    );
+
+    expect(result.stats.deleted).toBe(1);
+    expect(cases[0]?.status).toBe("scheduled");
+    expect(cases[1]?.status).toBe("reviewed");
+  });
+
+  it("skips cases that changed since the plan was built", async () => {
+    const stale = action("delete", cases[0]!);
+    cases[0]!.status = "completed";
+
+    const result = await applier.apply(plan([stale]));
+
+    expect(result.stats.deleted).toBe(0);
+    expect(result.stats.skipped).toBe(1);
+    expect(cases[0]?.status).toBe("completed");
+  });
+
+  it("relinks a case to its rebooked appointment", async () => {
+    const appointment = { id: "9009" } as PimsAppointment;
+    const result = await applier.apply(
+      plan([
+        action("relink", cases[0]!, {
+          reason: "rebooked_in_pims",
+          relinkTo: {
+            externalId: "pims-appt-idexx-neo-9009",
+            appointmentId: "9009",
+            scheduledAt: "2026-03-12T16:00:00.000Z",
+            appointment,
+          },
+        }),
+      ]),
+      { runId: "run-1" },
+    );
+
+    expect(result.stats.relinked).toBe(1);
+    expect(cases[0]).toMatchObject({
+      external_id: "pims-appt-idexx-neo-9009",
+      scheduled_at: "2026-03-12T16:00:00.000Z",
+      metadata: {
+        pimsAppointment: appointment,
+        reconciliation: {
+          previousExternalId: "pims-appt-idexx-neo-case-1",
+          runId: "run-1",
+        },
+      },
+    });
+  });
+
+  it("doesn't relink onto an appointment that already has a case", async () => {
+    const result = await applier.apply(
+      plan([
+        action("relink", cases[0]!, {
+          relinkTo: {
+            externalId: cases[2]!.external_id!,
+            appointmentId: "case-3",
+            scheduledAt: null,
+            appointment: { id: "case-3" } as PimsAppointment,
+          },
+        }),
+      ]),
+    );
+
+    expect(result.stats.skipped).toBe(1);
+    expect(cases[0]?.external_id).toBe("pims-appt-idexx-neo-case-1");
+  });
+
+  it("stops applying once aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await applier.apply(plan([action("delete", cases[0]!)]), {
+      signal: controller.signal,
+    });
+
+    expect(result.success).toBe(false);
+    expect(cases[0]?.status).toBe("scheduled");
+  });
+
+  it("refuses a plan built for another clinic", async () => {
+    await expect(
+      applier.apply({ ...plan([]), clinicId: "clinic-2" }),
+    ).rejects.toThrow("belongs to clinic clinic-2");
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for inbound sync cursor planning
+ * - planDaysToFetch: new, hot, stale and settled days
+ * - groupConsecutiveDays / listSyncDays / getSyncDayBounds
+ * - calculateAppointmentHash stability across metadata round-trips
+ */
+
+import { describe, it, expect } from "vitest";
+import type { PimsAppointment } from "@odis-ai/shared/types";
+import {
+  createEmptySyncCursor,
+  getSyncDayBounds,
+  groupConsecutiveDays,
+  listSyncDays,
+  planDaysToFetch,
+  pruneSyncCursor,
+  type SyncCursor,
+} from "../utils/sync-cursor";
+import { calculateAppointmentHash } from "../utils/sync-hash";
+
+const timezone = "America/Los_Angeles";
+// 2026-03-10 10:00 PDT
+const now = new Date("2026-03-10T17:00:00.000Z");
+const today = "2026-03-10";
+
+function cursorWith(days: Record<string, string>): SyncCursor {
+  return {
+    ...createEmptySyncCursor("clinic-1"),
+    days: Object.fromEntries(
+      Object.entries(days).map(([day, syncedAt]) => [
+        day,
+        { syncedAt, appointments: {} },
+      ]),
+    ),
+  };
+}
+
+describe("planDaysToFetch", () => {
+  const options = { today, now, timezone };
+
+  it("fetches every day for a new cursor", () => {
+    const days = ["2026-03-08", "2026-03-09", "2026-03-10"];
+
+    expect(
+      planDaysToFetch(createEmptySyncCursor("clinic-1"), days, options),
+    ).toEqual(days);
+  });
+
+  it("always fetches today and tomorrow", () => {
+    const justSynced = now.toISOString();
+    const cursor = cursorWith({
+      "2026-03-10": justSynced,
+      "2026-03-11": justSynced,
+      "2026-03-12": justSynced,
+    });
+
+    expect(
+      planDaysToFetch(
+        cursor,
+        ["2026-03-10", "2026-03-11", "2026-03-12"],
+        options,
+      ),
+    ).toEqual(["2026-03-10", "2026-03-11"]);
+  });
+
+  it("re-fetches upcoming days once their last fetch is stale", () => {
+    const cursor = cursorWith({
+      "2026-03-13": "2026-03-10T16:00:00.000Z", // 1h ago
+      "2026-03-14": "2026-03-10T08:00:00.000Z", // 9h ago
+    });
+
+    expect(
+      planDaysToFetch(cursor, ["2026-03-13", "2026-03-14"], options),
+    ).toEqual(["2026-03-14"]);
+  });
+
+  it("stops fetching past days once they have settled", () => {
+    const cursor = cursorWith({
+      // Fetched two days after the fact: settled
+      "2026-03-06": "2026-03-08T17:00:00.000Z",
+      // Last fetched the next day, now stale: not settled yet
+      "2026-03-08": "2026-03-09T17:00:00.000Z",
+    });
+
+    expect(
+      planDaysToFetch(cursor, ["2026-03-06", "2026-03-08"], options),
+    ).toEqual(["2026-03-08"]);
+  });
+
+  it("fetches everything when forced", () => {
+    const cursor = cursorWith({ "2026-03-06": "2026-03-09T17:00:00.000Z" });
+
+    expect(
+      planDaysToFetch(cursor, ["2026-03-06"], {
+        ...options,
+        forceFullSync: true,
+      }),
+    ).toEqual(["2026-03-06"]);
+  });
+});
+
+describe("day helpers", () => {
+  it("groups consecutive days into fetch ranges", () => {
+    expect(
+      groupConsecutiveDays([
+        "2026-03-12",
+        "2026-02-28",
+        "2026-03-01",
+        "2026-03-11",
+      ]),
+    ).toEqual([
+      { startDay: "2026-02-28", endDay: "2026-03-01" },
+      { startDay: "2026-03-11", endDay: "2026-03-12" },
+    ]);
+  });
+
+  it("lists clinic-local days and their UTC bounds across DST", () => {
+    const days = listSyncDays(
+      new Date("2026-03-07T08:00:00.000Z"),
+      new Date("2026-03-09T06:59:59.999Z"),
+      timezone,
+    );
+    expect(days).toEqual(["2026-03-07", "2026-03-08"]);
+
+    // DST starts on 2026-03-08: the day is 23 hours long
+    expect(getSyncDayBounds("2026-03-08", "2026-03-08", timezone)).toEqual({
+      start: new Date("2026-03-08T08:00:00.000Z"),
+      end: new Date("2026-03-09T06:59:59.999Z"),
+    });
+  });
+
+  it("prunes days beyond the retention window", () => {
+    const cursor = cursorWith({
+      "2025-12-01": now.toISOString(),
+      "2026-03-01": now.toISOString(),
+    });
+
+    expect(Object.keys(pruneSyncCursor(cursor, today).days)).toEqual([
+      "2026-03-01",
+    ]);
+  });
+});
+
+describe("calculateAppointmentHash", () => {
+  const appointment: PimsAppointment = {
+    id: "9001",
+    consultationId: "5001",
+    date: "2026-03-10",
+    startTime: new Date("2026-03-10T16:00:00.000Z"),
+    duration: 30,
+    status: "Confirmed",
+    patient: { id: "3001", name: "Biscuit", species: "Canine", breed: null },
+    client: {
+      id: "2001",
+      name: "Dana Whitfield",
+      phone: "(408) 555-0199",
+      email: null,
+    },
+    provider: { id: "41", name: "Dr. Priya Patel" },
+    type: "Wellness Exam",
+    reason: "Vaccines",
+  };
+
+  it("matches the same appointment read back from case metadata", () => {
+    const stored = JSON.parse(JSON.stringify(appointment)) as PimsAppointment;
+
+    expect(calculateAppointmentHash(stored)).toBe(
+      calculateAppointmentHash(appointment),
+    );
+  });
+
+  it("changes when the appointment is rescheduled", () => {
+    expect(
+      calculateAppointmentHash({
+        ...appointment,
+        startTime: new Date("2026-03-10T17:00:00.000Z"),
+      }),
+    ).not.toBe(calculateAppointmentHash(appointment));
+  });
+});
@@ -8,9 +8,11 @@ import type { Database, Json } from "@odis-ai/shared/types";
 import type {
   IPimsProvider,
   PimsAppointment,
+  ReconciliationAction,
+  ReconciliationLinkedItem,
   ReconciliationOptions,
+  ReconciliationPlan,
   ReconciliationResult,
-  SyncStats,
 } from "../types.js";
 import { createLogger } from "@odis-ai/shared/logger";
 import {
@@ -18,9 +20,12 @@ import {
   recordSyncAudit,
   mapAppointmentStatus,
   buildPimsExternalId,
-  asCaseUpdateMetadata,
-  ProgressThrottler,
+  extractMetadataRecord,
 } from "../utils";
+import {
+  ReconciliationApplier,
+  getReconciliationMetadata,
+} from "./reconciliation-applier.service";
 
 const logger = createLogger("case-reconciler");
 
@@ -40,9 +45,10 @@ interface CaseForReconciliation {
  *
  * Responsibilities:
  * - Compare local cases against PIMS appointments
- * - Soft-delete orphaned cases (removed from PIMS)
- * - Update status for cancelled/no-show appointments
- * - Track reconciliation statistics
+ * - Plan soft-deletes (removed from PIMS), restores (back in PIMS),
+ *   relinks (rebooked under a new appointment ID) and status updates
+ * - Attach linked scheduled calls/emails so a preview shows what's at stake
+ * - Apply the plan (or return it unapplied in dry-run mode)
  */
 export class CaseReconciler {
   private readonly DEFAULT_LOOKBACK_DAYS = 7;
@@ -55,17 +61,14 @@ export class CaseReconciler {
 
   /**
    * Reconcile cases for lookback period
+   * With `dryRun`, returns the plan without changing any cases.
    */
   async reconcile(
     options?: ReconciliationOptions,
   ): Promise<ReconciliationResult> {
     const syncId = crypto.randomUUID();
     const startTime = Date.now();
-    const errors: Array<{
-      message: string;
-      context?: Record<string, unknown>;
-    }> = [];
-    const deletedCases: string[] = [];
+    const dryRun = options?.dryRun ?? false;
 
     const lookbackDays = options?.lookbackDays ?? this.DEFAULT_LOOKBACK_DAYS;
 
@@ -74,9 +77,10 @@ export class CaseReconciler {
       clinicId: this.clinicId,
       provider: this.provider.name,
       lookbackDays,
+      dryRun,
     });
 
-    const stats: SyncStats & { deleted: number; reconciled: number } = {
+    const stats: ReconciliationResult["stats"] = {
       total: 0,
       created: 0,
       updated: 0,
@@ -87,154 +91,53 @@ export class CaseReconciler {
     };
 
     try {
-      // Create initial sync audit with in_progress status
-      await createSyncAudit({
-        supabase: this.supabase,
-        syncId,
-        clinicId: this.clinicId,
-        syncType: "reconciliation",
-      });
-
-      // Initialize progress throttler (2-second throttle)
-      const throttler = new ProgressThrottler(2000);
-
-      // Calculate date range for lookback
-      const { start, end } = this.getDateRange(lookbackDays);
-
-      // Fetch current appointments from PIMS
-      const pimsAppointments = await this.provider.fetchAppointments(
-        start,
-        end,
-      );
-
-      logger.info("Fetched PIMS appointments for reconciliation", {
-        syncId,
-        count: pimsAppointments.length,
-        dateRange: { start: start.toISOString(), end: end.toISOString() },
-      });
-
-      // Build set of PIMS appointment IDs
-      const pimsAppointmentIds = new Set(
-        pimsAppointments.map((appt) =>
-          buildPimsExternalId(this.provider.name, appt.id),
-        ),
-      );
-
-      // Build map of PIMS appointments by external ID for status checks
-      const pimsAppointmentMap = new Map(
-        pimsAppointments.map((appt) => [
-          buildPimsExternalId(this.provider.name, appt.id),
-          appt,
-        ]),
-      );
-
-      // Get local cases for the same period
-      const localCases = await this.getLocalCases(start, end);
-      stats.total = localCases.length;
+      // Dry runs leave no audit record
+      if (!dryRun) {
+        await createSyncAudit({
+          supabase: this.supabase,
+          syncId,
+          clinicId: this.clinicId,
+          syncType: "reconciliation",
+        });
+      }
 
-      logger.info("Found local cases for reconciliation", {
-        syncId,
-        localCases: localCases.length,
-        pimsAppointments: pimsAppointments.length,
-      });
+      const plan = await this.buildPlan(lookbackDays);
 
-      // Update with total count immediately (force)
-      if (localCases.length > 0) {
-        await throttler.queueUpdate(
-          {
-            supabase: this.supabase,
-            syncId,
-            total_items: localCases.length,
-            processed_items: 0,
-            progress_percentage: 0,
-          },
-          true,
-        ); // Force immediate update
-      }
+      if (dryRun) {
+        const durationMs = Date.now() - startTime;
+        const plannedStats = summarizePlan(plan);
 
-      // Process each local case
-      for (let i = 0; i < localCases.length; i++) {
-        const caseRow = localCases[i];
-        if (!caseRow) continue;
-
-        try {
-          const result = await this.reconcileCase(
-            caseRow,
-            pimsAppointmentIds,
-            pimsAppointmentMap,
-          );
-
-          switch (result.action) {
-            case "deleted":
-              stats.deleted++;
-              deletedCases.push(caseRow.id);
-              break;
-            case "updated":
-              stats.updated++;
-              break;
-            case "skipped":
-              stats.skipped++;
-              break;
-          }
-          stats.reconciled++;
-        } catch (error) {
-          stats.failed++;
-          const message =
-            error instanceof Error ? error.message : "Unknown error";
-          errors.push({
-            message: `Failed to reconcile case ${caseRow.id}: ${message}`,
-            context: { caseId: caseRow.id },
-          });
-          logger.error("Failed to reconcile case", {
-            syncId,
-            caseId: caseRow.id,
-            error: message,
-          });
-        }
-
-        // Update progress (throttled automatically)
-        const processed = i + 1;
-        const percentage = Math.floor((processed / localCases.length) * 100);
-        await throttler.queueUpdate({
-          supabase: this.supabase,
+        logger.info("Case reconciliation preview built", {
           syncId,
-          total_items: localCases.length,
-          processed_items: processed,
-          progress_percentage: percentage,
+          stats: plannedStats,
+          durationMs,
         });
-      }
 
-      // Flush any pending updates before final completion
-      await throttler.flush();
+        return {
+          success: true,
+          syncId,
+          stats: plannedStats,
+          durationMs,
+          plan,
+        };
+      }
 
-      // Record sync audit
-      await recordSyncAudit({
-        supabase: this.supabase,
-        syncId,
-        clinicId: this.clinicId,
-        syncType: "reconciliation",
-        stats,
-        success: errors.length === 0,
+      const applier = new ReconciliationApplier(this.supabase, this.clinicId);
+      const result = await applier.apply(plan, {
+        runId: syncId,
+        onProgress: options?.onProgress,
+        signal: options?.signal,
       });
 
-      const durationMs = Date.now() - startTime;
-
       logger.info("Case reconciliation completed", {
         syncId,
-        stats,
-        durationMs,
-        deletedCases: deletedCases.length,
-        hasErrors: errors.length > 0,
+        stats: result.stats,
+        durationMs: Date.now() - startTime,
+        deletedCases: result.deletedCases?.length ?? 0,
+        hasErrors: !result.success,
       });
 
-      return {
-        success: errors.length === 0,
-        syncId,
-        stats,
-        durationMs,
-        errors: errors.length > 0 ? errors : undefined,
-        deletedCases: deletedCases.length > 0 ? deletedCases : undefined,
-      };
+      return { ...result, durationMs: Date.now() - startTime };
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       const durationMs = Date.now() - startTime;
@@ -245,15 +148,17 @@ export class CaseReconciler {
         durationMs,
       });
 
-      await recordSyncAudit({
-        supabase: this.supabase,
-        syncId,
-        clinicId: this.clinicId,
-        syncType: "reconciliation",
-        stats,
-        success: false,
-        errorMessage: message,
-      });
+      if (!dryRun) {
+        await recordSyncAudit({
+          supabase: this.supabase,
+          syncId,
+          clinicId: this.clinicId,
+          syncType: "reconciliation",
+          stats,
+          success: false,
+          errorMessage: message,
+        });
+      }
 
       return {
         success: false,
@@ -266,120 +171,262 @@ export class CaseReconciler {
   }
 
   /**
-   * Reconcile a single case
+   * Compare local cases with PIMS appointments and plan the changes
    */
-  private async reconcileCase(
-    caseRow: CaseForReconciliation,
-    pimsAppointmentIds: Set<string>,
-    pimsAppointmentMap: Map<string, PimsAppointment>,
-  ): Promise<{ action: "deleted" | "updated" | "skipped" }> {
-    // Skip cases without external ID (not from PIMS sync)
-    if (!caseRow.external_id) {
-      return { action: "skipped" };
-    }
+  private async buildPlan(lookbackDays: number): Promise<ReconciliationPlan> {
+    // Calculate date range for lookback
+    const { start, end } = this.getDateRange(lookbackDays);
 
-    // Check if appointment still exists in PIMS
-    const existsInPims = pimsAppointmentIds.has(caseRow.external_id);
-    const pimsAppointment = pimsAppointmentMap.get(caseRow.external_id);
+    // Fetch current appointments from PIMS
+    const pimsAppointments = await this.provider.fetchAppointments(start, end);
+
+    logger.info("Fetched PIMS appointments for reconciliation", {
+      clinicId: this.clinicId,
+      count: pimsAppointments.length,
+      dateRange: { start: start.toISOString(), end: end.toISOString() },
+    });
+
+    // Map PIMS appointments by external ID
+    const pimsAppointmentMap = new Map(
+      pimsAppointments.map((appt) => [
+        buildPimsExternalId(this.provider.name, appt.id),
+        appt,
+      ]),
+    );
+
+    // Get local cases for the same period
+    const localCases = await this.getLocalCases(start, end);
 
-    if (!existsInPims) {
-      // Appointment removed from PIMS - soft delete
-      await this.softDeleteCase(caseRow.id, "removed_from_pims");
-      return { action: "deleted" };
+    logger.info("Found local cases for reconciliation", {
+      clinicId: this.clinicId,
+      localCases: localCases.length,
+      pimsAppointments: pimsAppointments.length,
+    });
+
+    const caseIdByExternalId = new Map<string, string>();
+    for (const caseRow of localCases) {
+      if (caseRow.external_id) {
+        caseIdByExternalId.set(caseRow.external_id, caseRow.id);
+      }
     }
 
-    // Check if status changed in PIMS
-    if (pimsAppointment && this.shouldUpdateStatus(caseRow, pimsAppointment)) {
-      await this.updateCaseStatus(caseRow.id, pimsAppointment);
-      return { action: "updated" };
+    // Appointments with no local case yet, by visit key, as relink targets
+    const unlinkedByVisit = new Map<string, string[]>();
+    const linkedByVisit = new Map<string, string>();
+    for (const [externalId, appt] of pimsAppointmentMap) {
+      const key = visitKey(appt);
+      if (!key) continue;
+
+      const linkedCaseId = caseIdByExternalId.get(externalId);
+      if (linkedCaseId) {
+        linkedByVisit.set(key, linkedCaseId);
+      } else {
+        unlinkedByVisit.set(key, [
+          ...(unlinkedByVisit.get(key) ?? []),
+          externalId,
+        ]);
+      }
+    }
+
+    const actions: ReconciliationAction[] = [];
+    for (const caseRow of localCases) {
+      const action = this.planCase(
+        caseRow,
+        pimsAppointmentMap,
+        unlinkedByVisit,
+        linkedByVisit,
+      );
+      if (action) actions.push(action);
     }
 
-    return { action: "skipped" };
+    await this.attachLinkedItems(actions);
+
+    return {
+      clinicId: this.clinicId,
+      generatedAt: new Date().toISOString(),
+      dateRange: { start: start.toISOString(), end: end.toISOString() },
+      casesChecked: localCases.length,
+      actions,
+    };
   }
 
   /**
-   * Check if case status should be updated based on PIMS
+   * Plan the change for a single case, null if it's in sync
    */
-  private shouldUpdateStatus(
+  private planCase(
     caseRow: CaseForReconciliation,
-    pimsAppointment: PimsAppointment,
-  ): boolean {
-    const pimsStatus = mapAppointmentStatus(pimsAppointment.status);
-    return caseRow.status !== pimsStatus;
-  }
+    pimsAppointmentMap: Map<string, PimsAppointment>,
+    unlinkedByVisit: Map<string, string[]>,
+    linkedByVisit: Map<string, string>,
+  ): ReconciliationAction | null {
+    // Skip cases without external ID (not from PIMS sync)
+    if (!caseRow.external_id) {
+      return null;
+    }
 
-  /**
-   * Soft delete a case by setting status to reviewed and updating metadata
-   */
-  private async softDeleteCase(caseId: string, reason: string): Promise<void> {
-    // First fetch current metadata
-    const { data: currentCase, error: fetchError } = await this.supabase
-      .from("cases")
-      .select("metadata")
-      .eq("id", caseId)
-      .single();
+    const metadata = extractMetadataRecord(caseRow.metadata);
+    const softDeleted =
+      getReconciliationMetadata(metadata).softDeleted === true;
+    const storedAppointment = metadata.pimsAppointment as
+      PimsAppointment | undefined;
+    const pimsAppointment = pimsAppointmentMap.get(caseRow.external_id);
 
-    if (fetchError) {
-      throw new Error(
-        `Failed to fetch case for soft delete: ${fetchError.message}`,
-      );
+    const base = {
+      caseId: caseRow.id,
+      externalId: caseRow.external_id,
+      patientName: storedAppointment?.patient?.name ?? null,
+      scheduledAt: caseRow.scheduled_at,
+      fromStatus: caseRow.status,
+      linkedCalls: [],
+      linkedEmails: [],
+    };
+
+    if (pimsAppointment) {
+      const pimsStatus = mapAppointmentStatus(pimsAppointment.status);
+
+      if (softDeleted) {
+        return {
+          ...base,
+          id: `restore:${caseRow.id}`,
+          type: "restore",
+          reason: "reappeared_in_pims",
+          description:
+            "Appointment is back in the PIMS after being soft-deleted",
+          toStatus: pimsStatus,
+        };
+      }
+
+      // Check if status changed in PIMS
+      if (caseRow.status !== pimsStatus) {
+        return {
+          ...base,
+          id: `update_status:${caseRow.id}`,
+          type: "update_status",
+          reason: "status_changed",
+          description: `PIMS status is now "${pimsAppointment.status}"`,
+          toStatus: pimsStatus,
+        };
+      }
+
+      return null;
     }
 
-    const currentMetadata = (currentCase?.metadata ?? {}) as Record<
-      string,
-      unknown
-    >;
+    // Already soft-deleted and still missing
+    if (softDeleted) {
+      return null;
+    }
 
-    // Update with reconciliation info
-    const { error } = await this.supabase
-      .from("cases")
-      .update({
-        status: "reviewed", // 'reviewed' = closed/archived cases
-        metadata: asCaseUpdateMetadata({
-          ...currentMetadata,
-          reconciliation: {
-            softDeleted: true,
-            reason,
-            deletedAt: new Date().toISOString(),
+    // Appointment gone from PIMS: rebooked under a new ID, or removed
+    const key = storedAppointment ? visitKey(storedAppointment) : null;
+    const candidates = key ? (unlinkedByVisit.get(key) ?? []) : [];
+
+    if (key && candidates.length === 1 && candidates[0]) {
+      const targetExternalId = candidates[0];
+      const target = pimsAppointmentMap.get(targetExternalId);
+      // Each appointment can only be claimed by one case
+      unlinkedByVisit.delete(key);
+
+      if (target) {
+        return {
+          ...base,
+          id: `relink:${caseRow.id}`,
+          type: "relink",
+          reason: "rebooked_in_pims",
+          description:
+            "Appointment was removed but the patient has another appointment the same day",
+          toStatus: mapAppointmentStatus(target.status),
+          relinkTo: {
+            externalId: targetExternalId,
+            appointmentId: target.id,
+            scheduledAt: target.startTime?.toISOString() ?? null,
+            appointment: target,
           },
-        }),
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", caseId);
+        };
+      }
+    }
 
-    if (error) {
-      throw new Error(`Failed to soft delete case: ${error.message}`);
+    const replacementCaseId = key ? linkedByVisit.get(key) : undefined;
+    if (replacementCaseId && replacementCaseId !== caseRow.id) {
+      return {
+        ...base,
+        id: `delete:${caseRow.id}`,
+        type: "delete",
+        reason: "rebooked_as_new_case",
+        description:
+          "Appointment was removed and the patient's other appointment that day already has a case",
+        toStatus: "reviewed",
+        replacementCaseId,
+      };
     }
 
-    logger.debug("Soft deleted case", { caseId, reason });
+    return {
+      ...base,
+      id: `delete:${caseRow.id}`,
+      type: "delete",
+      reason: "removed_from_pims",
+      description: "Appointment no longer exists in the PIMS",
+      toStatus: "reviewed",
+    };
   }
 
   /**
-   * Update case status from PIMS
+   * Attach scheduled calls and emails for the cases in the plan
    */
-  private async updateCaseStatus(
-    caseId: string,
-    pimsAppointment: PimsAppointment,
+  private async attachLinkedItems(
+    actions: ReconciliationAction[],
   ): Promise<void> {
-    const newStatus = mapAppointmentStatus(pimsAppointment.status);
+    if (actions.length === 0) return;
+
+    const caseIds = actions.map((action) => action.caseId);
+
+    const [callsResult, emailsResult] = await Promise.all([
+      this.supabase
+        .from("scheduled_discharge_calls")
+        .select("id, case_id, status, scheduled_for")
+        .in("case_id", caseIds),
+      this.supabase
+        .from("scheduled_discharge_emails")
+        .select("id, case_id, status, scheduled_for")
+        .in("case_id", caseIds),
+    ]);
+
+    if (callsResult.error) {
+      throw new Error(
+        `Failed to fetch linked calls: ${callsResult.error.message}`,
+      );
+    }
+    if (emailsResult.error) {
+      throw new Error(
+        `Failed to fetch linked emails: ${emailsResult.error.message}`,
+      );
+    }
 
-    const { error } = await this.supabase
-      .from("cases")
-      .update({
-        status: newStatus,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", caseId);
+    const groupByCase = (
+      rows: Array<{
+        id: string;
+        case_id: string | null;
+        status: string;
+        scheduled_for: string | null;
+      }>,
+    ) => {
+      const byCase = new Map<string, ReconciliationLinkedItem[]>();
+      for (const row of rows) {
+        if (!row.case_id) continue;
+        byCase.set(row.case_id, [
+          ...(byCase.get(row.case_id) ?? []),
+          { id: row.id, status: row.status, scheduledFor: row.scheduled_for },
+        ]);
+      }
+      return byCase;
+    };
 
-    if (error) {
-      throw new Error(`Failed to update case status: ${error.message}`);
-    }
+    const callsByCase = groupByCase(callsResult.data ?? []);
+    const emailsByCase = groupByCase(emailsResult.data ?? []);
 
-    logger.debug("Updated case status from PIMS", {
-      caseId,
-      pimsStatus: pimsAppointment.status,
-      newStatus,
-    });
+    for (const action of actions) {
+      action.linkedCalls = callsByCase.get(action.caseId) ?? [];
+      action.linkedEmails = emailsByCase.get(action.caseId) ?? [];
+    }
   }
 
   /**
@@ -419,3 +466,37 @@ export class CaseReconciler {
     return { start, end };
   }
 }
+
+/**
+ * Patient + day, used to match a removed appointment to its rebooking
+ */
+function visitKey(appointment: PimsAppointment): string | null {
+  const patient =
+    appointment.patient?.id ??
+    (appointment.patient?.name && appointment.client?.name
+      ? `${appointment.patient.name}|${appointment.client.name}`.toLowerCase()
+      : null);
+  return patient && appointment.date ? `${appointment.date}|${patient}` : null;
+}
+
+/**
+ * Planned counts for a dry run
+ */
+function summarizePlan(
+  plan: ReconciliationPlan,
+): ReconciliationResult["stats"] {
+  const count = (type: ReconciliationAction["type"]) =>
+    plan.actions.filter((action) => action.type === type).length;
+
+  return {
+    total: plan.casesChecked,
+    created: 0,
+    updated: count("update_status"),
+    skipped: plan.casesChecked - plan.actions.length,
+    failed: 0,
+    deleted: count("delete"),
+    reconciled: 0,
+    restored: count("restore"),
+    relinked: count("relink"),
+  };
+}
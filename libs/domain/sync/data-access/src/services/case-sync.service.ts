@@ -148,7 +148,7 @@ export class CaseSyncService {
       });
 
       // Initialize progress throttler (1-second throttle)
-      const throttler = new ProgressThrottler(1000);
+      const throttler = new ProgressThrottler(1000, options.onProgress);
 
       // Find cases with consultation IDs that need enrichment
       const casesToEnrich = await this.findCasesNeedingEnrichment(
@@ -294,6 +294,7 @@ export class CaseSyncService {
           }
 
           // Batch upsert all metadata updates
+          options.signal?.throwIfAborted();
           const { succeeded, failed: upsertFailed } =
             await this.batchUpsertCaseMetadata(updates);
 
@@ -360,6 +361,7 @@ export class CaseSyncService {
             } else {
               // Run AI generation inline (legacy behavior)
               for (const { caseId, consultation } of casesForAI) {
+                options.signal?.throwIfAborted();
                 try {
                   await this.triggerAIGeneration(caseId, consultation);
                 } catch (error) {
@@ -378,6 +380,7 @@ export class CaseSyncService {
 
       // Phase 2: Generate AI content for cases that have pimsConsultation but no discharge summary
       if (casesNeedingAI.length > 0) {
+        options.signal?.throwIfAborted();
         logger.info("Processing cases needing AI generation", {
           syncId,
           count: casesNeedingAI.length,
@@ -415,6 +418,7 @@ export class CaseSyncService {
         } else {
           // Run AI generation inline (legacy behavior)
           for (const caseData of casesNeedingAI) {
+            options.signal?.throwIfAborted();
             try {
               await this.triggerAIGeneration(
                 caseData.id,
@@ -1,6 +1,9 @@
 /**
  * Inbound Sync Service
  * Synchronizes appointments from PIMS to local database
+ *
+ * Incremental: the clinic's sync cursor decides which days are fetched and
+ * lets unchanged appointments skip the database entirely.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
@@ -27,17 +30,47 @@ import {
   asCaseInsertMetadata,
   asCaseUpdateMetadata,
   ProgressThrottler,
+  calculateAppointmentHash,
+  isCancelledAppointmentStatus,
+  getSyncDayBounds,
+  groupConsecutiveDays,
+  listSyncDays,
+  loadSyncCursor,
+  planDaysToFetch,
+  pruneSyncCursor,
+  saveSyncCursor,
+  toSyncDay,
+  type SyncCursor,
+  type SyncCursorDay,
+  type SyncDay,
 } from "../utils";
 
 const logger = createLogger("inbound-sync");
 
+const DEFAULT_CLINIC_TIMEZONE = "America/Los_Angeles";
+
+// External IDs per `in` query when checking that skipped cases still exist
+const CASE_LOOKUP_BATCH_SIZE = 200;
+
+type ProcessResult = "created" | "updated" | "moved" | "cancelled" | "skipped";
+
+/**
+ * A run of days whose appointments couldn't be fetched
+ */
+interface DayFetchError {
+  message: string;
+  startDay: SyncDay;
+  endDay: SyncDay;
+}
+
 /**
  * InboundSyncService - Synchronizes PIMS appointments to database
  *
  * Responsibilities:
- * - Fetch appointments from PIMS provider
+ * - Fetch appointments from PIMS provider (only days the cursor marks as due)
  * - Create/update appointment records in database
- * - Track sync statistics and audit trail
+ * - Detect moved, cancelled and removed appointments
+ * - Track sync statistics, audit trail and the sync cursor
  */
 export class InboundSyncService {
   constructor(
@@ -68,6 +101,8 @@ export class InboundSyncService {
       total: 0,
       created: 0,
       updated: 0,
+      moved: 0,
+      cancelled: 0,
       skipped: 0,
       failed: 0,
     };
@@ -82,18 +117,96 @@ export class InboundSyncService {
       });
 
       // Initialize progress throttler (2-second throttle)
-      const throttler = new ProgressThrottler(2000);
+      const throttler = new ProgressThrottler(2000, options?.onProgress);
 
-      // Determine date range
+      // Determine date range, as whole clinic-local days
       const { start, end } = this.getDateRange(options);
+      const timezone = await this.getClinicTimezone();
+      const now = new Date();
+      const today = toSyncDay(now, timezone);
+      const windowDays = listSyncDays(start, end, timezone);
+      const forceFullSync = options?.forceFullSync ?? false;
+
+      const cursor = await loadSyncCursor(this.supabase, this.clinicId);
+      const dueDays = planDaysToFetch(cursor, windowDays, {
+        today,
+        now,
+        timezone,
+        forceFullSync,
+      });
+
+      logger.info("Planned inbound sync from cursor", {
+        syncId,
+        windowDays: windowDays.length,
+        dueDays: dueDays.length,
+        forceFullSync,
+      });
+
+      // Fetch appointments for the due days from PIMS. Days whose fetch
+      // failed aren't verified: they keep their cursor entry and aren't
+      // checked for missing appointments.
+      const due = await this.fetchDays(dueDays, timezone);
+      const appointments = due.appointments;
+      const unfetchedDays = new Set(due.failedDays);
+      this.recordFetchErrors(due.errors, errors, syncId);
+      const fetchedDays = new Set(
+        dueDays.filter((day) => !unfetchedDays.has(day)),
+      );
+
+      // Appointments the cursor saw on a re-fetched day that are gone now
+      // either moved to another day or were removed from the PIMS. Look on
+      // the rest of the window before deciding which.
+      const seenIds = new Set(appointments.map((a) => a.id));
+      const missing = this.findMissingAppointments(
+        cursor,
+        [...fetchedDays],
+        seenIds,
+      );
+      const remainingDays = windowDays.filter(
+        (day) => !fetchedDays.has(day) && !unfetchedDays.has(day),
+      );
+
+      if (missing.size > 0 && remainingDays.length > 0) {
+        logger.info(
+          "Appointments missing from re-fetched days, checking rest of window",
+          {
+            syncId,
+            missing: missing.size,
+            days: remainingDays.length,
+          },
+        );
+
+        const extra = await this.fetchDays(remainingDays, timezone);
+        this.recordFetchErrors(extra.errors, errors, syncId);
+        extra.failedDays.forEach((day) => unfetchedDays.add(day));
+        for (const appointment of extra.appointments) {
+          if (!seenIds.has(appointment.id)) {
+            seenIds.add(appointment.id);
+            appointments.push(appointment);
+          }
+        }
+        remainingDays
+          .filter((day) => !unfetchedDays.has(day))
+          .forEach((day) => fetchedDays.add(day));
+        for (const id of missing.keys()) {
+          if (seenIds.has(id)) missing.delete(id);
+        }
+      }
+
+      // A missing appointment may have moved to a day we couldn't fetch, so
+      // it isn't counted as removed and its old day keeps its cursor entry.
+      const unresolvedDays = new Set<SyncDay>();
+      if (unfetchedDays.size > 0) {
+        missing.forEach((day) => unresolvedDays.add(day));
+        missing.clear();
+      }
 
-      // Fetch appointments from PIMS
-      const appointments = await this.provider.fetchAppointments(start, end);
       stats.total = appointments.length;
 
       logger.info("Fetched appointments from PIMS", {
         syncId,
         count: appointments.length,
+        days: fetchedDays.size,
         dateRange: { start: start.toISOString(), end: end.toISOString() },
       });
 
@@ -111,8 +224,39 @@ export class InboundSyncService {
         ); // Force immediate update
       }
 
+      // Hashes from the previous run; forceFullSync re-checks every row
+      const previousHashes = forceFullSync
+        ? new Map<string, string>()
+        : this.collectHashes(cursor, [...fetchedDays]);
+
+      // Unchanged appointments only skip the database while their case is
+      // still there, so cases deleted locally are recreated.
+      const hashes = new Map(
+        appointments.map((a) => [a.id, calculateAppointmentHash(a)]),
+      );
+      const casesKept = await this.findAppointmentsWithCases(
+        appointments
+          .filter(
+            (a) =>
+              a.type !== "block" &&
+              previousHashes.get(a.id) === hashes.get(a.id),
+          )
+          .map((a) => a.id),
+      );
+
+      // New cursor entries for the fetched days. Days with a failed
+      // appointment or an unresolved missing one keep their old entry so
+      // they are fetched again.
+      const syncedAt = now.toISOString();
+      const nextDays = new Map<SyncDay, SyncCursorDay>(
+        [...fetchedDays].map((day) => [day, { syncedAt, appointments: {} }]),
+      );
+      const failedDays = new Set<SyncDay>(unresolvedDays);
+
       // Process each appointment (skip blocks — they occupy time slots but don't create cases)
       for (let i = 0; i < appointments.length; i++) {
+        options?.signal?.throwIfAborted();
+
         const appointment = appointments[i];
         if (!appointment) continue;
 
@@ -122,18 +266,28 @@ export class InboundSyncService {
           continue;
         }
 
+        const day = this.getAppointmentDay(appointment, timezone);
+        const hash =
+          hashes.get(appointment.id) ?? calculateAppointmentHash(appointment);
+
         try {
-          const result = await this.processAppointment(appointment);
+          const result = casesKept.has(appointment.id)
+            ? "skipped"
+            : await this.processAppointment(appointment);
 
-          if (result === "created") {
-            stats.created++;
-          } else if (result === "updated") {
-            stats.updated++;
-          } else {
+          if (result === "skipped") {
             stats.skipped++;
+          } else {
+            stats[result] = (stats[result] ?? 0) + 1;
+          }
+
+          const dayEntry = nextDays.get(day);
+          if (dayEntry) {
+            dayEntry.appointments[appointment.id] = hash;
           }
         } catch (error) {
           stats.failed++;
+          failedDays.add(day);
           const message =
             error instanceof Error ? error.message : "Unknown error";
           errors.push({
@@ -159,6 +313,25 @@ export class InboundSyncService {
         });
       }
 
+      // Still missing after checking the whole window: removed from the PIMS.
+      // Case cleanup is left to CaseReconciler.
+      if (missing.size > 0) {
+        stats.cancelled = (stats.cancelled ?? 0) + missing.size;
+        logger.info("Appointments removed from PIMS since last sync", {
+          syncId,
+          appointmentIds: [...missing.keys()],
+        });
+      }
+
+      options?.signal?.throwIfAborted();
+      await this.updateCursor(cursor, {
+        nextDays,
+        failedDays,
+        windowDays,
+        today,
+        syncedAt,
+      });
+
       // Flush any pending updates before final completion
       await throttler.flush();
 
@@ -227,7 +400,7 @@ export class InboundSyncService {
    */
   private async processAppointment(
     appointment: PimsAppointment,
-  ): Promise<"created" | "updated" | "skipped"> {
+  ): Promise<ProcessResult> {
     // Build external ID for idempotency
     const externalId = buildPimsExternalId(this.provider.name, appointment.id);
 
@@ -249,8 +422,8 @@ export class InboundSyncService {
         | PimsAppointment
         | undefined;
 
-      // Simple comparison - check if key fields changed
-      if (this.appointmentChanged(existingPimsData, appointment)) {
+      const change = this.classifyChange(existingPimsData, appointment);
+      if (change !== "skipped") {
         const { error } = await this.supabase
           .from("cases")
           .update({
@@ -282,9 +455,10 @@ export class InboundSyncService {
           caseId: existing.id,
           externalId,
           appointmentId: appointment.id,
+          change,
         });
 
-        return "updated";
+        return change;
       }
 
       return "skipped";
@@ -374,22 +548,237 @@ export class InboundSyncService {
   }
 
   /**
-   * Check if appointment data has changed
+   * Compare stored and incoming appointment data by content hash
    */
-  private appointmentChanged(
+  private classifyChange(
     existing: PimsAppointment | undefined,
     incoming: PimsAppointment,
-  ): boolean {
-    if (!existing) return true;
-
-    // Compare key fields
-    return (
-      existing.status !== incoming.status ||
-      existing.consultationId !== incoming.consultationId ||
-      existing.reason !== incoming.reason ||
-      existing.patient.name !== incoming.patient.name ||
-      existing.client.phone !== incoming.client.phone
+  ): Exclude<ProcessResult, "created"> {
+    if (!existing) return "updated";
+
+    if (
+      calculateAppointmentHash(existing) === calculateAppointmentHash(incoming)
+    ) {
+      return "skipped";
+    }
+
+    if (
+      isCancelledAppointmentStatus(incoming.status) &&
+      !isCancelledAppointmentStatus(existing.status)
+    ) {
+      return "cancelled";
+    }
+
+    const existingStart = existing.startTime
+      ? new Date(existing.startTime).getTime()
+      : null;
+    const incomingStart = incoming.startTime?.getTime() ?? null;
+
+    if (existing.date !== incoming.date || existingStart !== incomingStart) {
+      return "moved";
+    }
+
+    return "updated";
+  }
+
+  /**
+   * Fetch appointments for a set of days, one request per run of consecutive days
+   * A run whose fetch throws is reported in `failedDays` rather than read
+   * as a run without appointments.
+   */
+  private async fetchDays(
+    days: SyncDay[],
+    timezone: string,
+  ): Promise<{
+    appointments: PimsAppointment[];
+    failedDays: SyncDay[];
+    errors: DayFetchError[];
+  }> {
+    const appointments: PimsAppointment[] = [];
+    const failedDays: SyncDay[] = [];
+    const errors: DayFetchError[] = [];
+
+    for (const { startDay, endDay } of groupConsecutiveDays(days)) {
+      const { start, end } = getSyncDayBounds(startDay, endDay, timezone);
+      try {
+        appointments.push(
+          ...(await this.provider.fetchAppointments(start, end)),
+        );
+      } catch (error) {
+        failedDays.push(
+          ...days.filter((day) => day >= startDay && day <= endDay),
+        );
+        errors.push({
+          message: error instanceof Error ? error.message : "Unknown error",
+          startDay,
+          endDay,
+        });
+      }
+    }
+
+    return { appointments, failedDays, errors };
+  }
+
+  /**
+   * Add failed day fetches to the sync's errors
+   */
+  private recordFetchErrors(
+    fetchErrors: DayFetchError[],
+    errors: Array<{ message: string; context?: Record<string, unknown> }>,
+    syncId: string,
+  ): void {
+    for (const { message, startDay, endDay } of fetchErrors) {
+      errors.push({
+        message: `Failed to fetch appointments for ${startDay}..${endDay}: ${message}`,
+        context: { startDay, endDay },
+      });
+      logger.error("Failed to fetch appointments from PIMS", {
+        syncId,
+        startDay,
+        endDay,
+        error: message,
+      });
+    }
+  }
+
+  /**
+   * Appointments the cursor recorded on `days` that weren't fetched this run
+   * Maps each appointment ID to the day it was recorded on.
+   */
+  private findMissingAppointments(
+    cursor: SyncCursor,
+    days: SyncDay[],
+    seenIds: Set<string>,
+  ): Map<string, SyncDay> {
+    const missing = new Map<string, SyncDay>();
+
+    for (const day of days) {
+      for (const id of Object.keys(cursor.days[day]?.appointments ?? {})) {
+        if (!seenIds.has(id)) missing.set(id, day);
+      }
+    }
+
+    return missing;
+  }
+
+  /**
+   * Appointment IDs that still have a case in this clinic
+   */
+  private async findAppointmentsWithCases(
+    appointmentIds: string[],
+  ): Promise<Set<string>> {
+    const found = new Set<string>();
+
+    for (let i = 0; i < appointmentIds.length; i += CASE_LOOKUP_BATCH_SIZE) {
+      const batch = appointmentIds.slice(i, i + CASE_LOOKUP_BATCH_SIZE);
+      const externalIds = new Map(
+        batch.map((id) => [buildPimsExternalId(this.provider.name, id), id]),
+      );
+
+      const { data, error } = await this.supabase
+        .from("cases")
+        .select("external_id")
+        .eq("clinic_id", this.clinicId)
+        .in("external_id", [...externalIds.keys()]);
+
+      if (error) {
+        throw new Error(`Failed to look up synced cases: ${error.message}`);
+      }
+
+      for (const row of data) {
+        const id = row.external_id ? externalIds.get(row.external_id) : null;
+        if (id) found.add(id);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Appointment ID -> hash recorded by the cursor for `days`
+   */
+  private collectHashes(
+    cursor: SyncCursor,
+    days: SyncDay[],
+  ): Map<string, string> {
+    const hashes = new Map<string, string>();
+
+    for (const day of days) {
+      for (const [id, hash] of Object.entries(
+        cursor.days[day]?.appointments ?? {},
+      )) {
+        hashes.set(id, hash);
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Clinic-local day an appointment belongs to
+   */
+  private getAppointmentDay(
+    appointment: PimsAppointment,
+    timezone: string,
+  ): SyncDay {
+    return appointment.startTime
+      ? toSyncDay(appointment.startTime, timezone)
+      : appointment.date;
+  }
+
+  /**
+   * Record the fetched days on the cursor and persist it
+   * A cursor that fails to save only costs extra fetching next run.
+   */
+  private async updateCursor(
+    cursor: SyncCursor,
+    params: {
+      nextDays: Map<SyncDay, SyncCursorDay>;
+      failedDays: Set<SyncDay>;
+      windowDays: SyncDay[];
+      today: SyncDay;
+      syncedAt: string;
+    },
+  ): Promise<void> {
+    const { nextDays, failedDays, windowDays, today, syncedAt } = params;
+
+    const days = { ...cursor.days };
+    for (const [day, entry] of nextDays) {
+      if (!failedDays.has(day)) days[day] = entry;
+    }
+
+    const updated = pruneSyncCursor(
+      {
+        ...cursor,
+        windowStart: windowDays[0] ?? cursor.windowStart,
+        windowEnd: windowDays[windowDays.length - 1] ?? cursor.windowEnd,
+        lastSyncedAt: syncedAt,
+        days,
+      },
+      today,
     );
+
+    try {
+      await saveSyncCursor(this.supabase, updated);
+    } catch (error) {
+      logger.warn("Failed to save sync cursor", {
+        clinicId: this.clinicId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Clinic timezone, used to split the sync window into local days
+   */
+  private async getClinicTimezone(): Promise<string> {
+    const { data } = await this.supabase
+      .from("clinics")
+      .select("timezone")
+      .eq("id", this.clinicId)
+      .maybeSingle();
+
+    return data?.timezone ?? DEFAULT_CLINIC_TIMEZONE;
   }
 
   /**
@@ -6,10 +6,17 @@
 export { InboundSyncService } from "./inbound-sync.service";
 export { CaseSyncService } from "./case-sync.service";
 export { CaseReconciler } from "./case-reconciler.service";
+export {
+  ReconciliationApplier,
+  type ApplyReconciliationOptions,
+  type UndoReconciliationResult,
+} from "./reconciliation-applier.service";
 export {
   SyncOrchestrator,
   type FullSyncResult,
   type FullSyncOptions,
   type BidirectionalSyncOptions,
   type BidirectionalSyncResult,
+  type SyncPhase,
+  type SyncPhaseProgressCallback,
 } from "./sync-orchestrator";
@@ -0,0 +1,462 @@
+/**
+ * Reconciliation Applier Service
+ * Applies (all or part of) a reconciliation plan and undoes runs
+ *
+ * Needs no PIMS connection: everything it writes was captured when the
+ * plan was built, so a reviewed preview can be applied later.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@odis-ai/shared/types";
+import type {
+  ReconciliationAction,
+  ReconciliationPlan,
+  ReconciliationResult,
+  SyncProgressCallback,
+} from "../types.js";
+import { createLogger } from "@odis-ai/shared/logger";
+import {
+  createSyncAudit,
+  recordSyncAudit,
+  asCaseUpdateMetadata,
+  extractMetadataRecord,
+  ProgressThrottler,
+} from "../utils";
+
+const logger = createLogger("reconciliation-applier");
+
+type CaseStatus = Database["public"]["Enums"]["CaseStatus"];
+
+/**
+ * Options for applying a plan
+ */
+export interface ApplyReconciliationOptions {
+  /** Apply only these action IDs (default: every action in the plan) */
+  actionIds?: string[];
+  /** Run ID recorded on changed cases for undo (default: new UUID) */
+  runId?: string;
+  onProgress?: SyncProgressCallback;
+  /** Stops applying once aborted; actions already applied stay applied */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of undoing a reconciliation run
+ */
+export interface UndoReconciliationResult {
+  success: boolean;
+  runId: string;
+  restoredCases: string[];
+  errors?: Array<{ message: string; context?: Record<string, unknown> }>;
+}
+
+/**
+ * Reconciliation state stored in cases.metadata.reconciliation
+ */
+interface ReconciliationMetadata {
+  softDeleted?: boolean;
+  reason?: string;
+  deletedAt?: string;
+  runId?: string;
+  previousStatus?: CaseStatus | null;
+  replacementCaseId?: string;
+  restoredAt?: string;
+  restoreReason?: string;
+  restoredByRunId?: string;
+  relinkedAt?: string;
+  previousExternalId?: string | null;
+}
+
+/**
+ * ReconciliationApplier - Writes reconciliation actions to cases
+ *
+ * Responsibilities:
+ * - Apply selected plan actions, skipping cases changed since the plan
+ * - Tag soft-deleted cases with the run ID and their previous status
+ * - Restore the cases soft-deleted by a run (undo)
+ */
+export class ReconciliationApplier {
+  constructor(
+    private supabase: SupabaseClient<Database>,
+    private clinicId: string,
+  ) {}
+
+  /**
+   * Apply plan actions
+   */
+  async apply(
+    plan: ReconciliationPlan,
+    options?: ApplyReconciliationOptions,
+  ): Promise<ReconciliationResult> {
+    const syncId = options?.runId ?? crypto.randomUUID();
+    const startTime = Date.now();
+    const errors: Array<{
+      message: string;
+      context?: Record<string, unknown>;
+    }> = [];
+    const deletedCases: string[] = [];
+
+    if (plan.clinicId !== this.clinicId) {
+      throw new Error(
+        `Reconciliation plan belongs to clinic ${plan.clinicId}, not ${this.clinicId}`,
+      );
+    }
+
+    const selected = options?.actionIds
+      ? new Set(options.actionIds)
+      : undefined;
+    const actions = selected
+      ? plan.actions.filter((action) => selected.has(action.id))
+      : plan.actions;
+
+    logger.info("Applying reconciliation plan", {
+      syncId,
+      clinicId: this.clinicId,
+      planned: plan.actions.length,
+      selected: actions.length,
+    });
+
+    const stats: ReconciliationResult["stats"] = {
+      total: plan.casesChecked,
+      created: 0,
+      updated: 0,
+      skipped: plan.casesChecked - actions.length,
+      failed: 0,
+      deleted: 0,
+      reconciled: 0,
+      restored: 0,
+      relinked: 0,
+    };
+
+    await createSyncAudit({
+      supabase: this.supabase,
+      syncId,
+      clinicId: this.clinicId,
+      syncType: "reconciliation",
+    });
+
+    const throttler = new ProgressThrottler(2000, options?.onProgress);
+    await throttler.queueUpdate(
+      {
+        supabase: this.supabase,
+        syncId,
+        total_items: actions.length,
+        processed_items: 0,
+        progress_percentage: actions.length > 0 ? 0 : 100,
+      },
+      true,
+    );
+
+    for (let i = 0; i < actions.length; i++) {
+      const action = actions[i];
+      if (!action) continue;
+
+      if (options?.signal?.aborted) {
+        errors.push({
+          message: `Stopped after ${i} of ${actions.length} actions`,
+          context: { remaining: actions.length - i },
+        });
+        logger.warn("Reconciliation apply aborted", {
+          syncId,
+          applied: i,
+          remaining: actions.length - i,
+        });
+        break;
+      }
+
+      try {
+        const applied = await this.applyAction(action, syncId);
+
+        if (!applied) {
+          stats.skipped++;
+        } else {
+          switch (action.type) {
+            case "delete":
+              stats.deleted++;
+              deletedCases.push(action.caseId);
+              break;
+            case "restore":
+              stats.restored = (stats.restored ?? 0) + 1;
+              stats.updated++;
+              break;
+            case "relink":
+              stats.relinked = (stats.relinked ?? 0) + 1;
+              stats.updated++;
+              break;
+            case "update_status":
+              stats.updated++;
+              break;
+          }
+          stats.reconciled++;
+        }
+      } catch (error) {
+        stats.failed++;
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        errors.push({
+          message: `Failed to ${action.type} case ${action.caseId}: ${message}`,
+          context: { caseId: action.caseId, actionId: action.id },
+        });
+        logger.error("Failed to apply reconciliation action", {
+          syncId,
+          actionId: action.id,
+          error: message,
+        });
+      }
+
+      const processed = i + 1;
+      await throttler.queueUpdate({
+        supabase: this.supabase,
+        syncId,
+        total_items: actions.length,
+        processed_items: processed,
+        progress_percentage: Math.floor((processed / actions.length) * 100),
+      });
+    }
+
+    await throttler.flush();
+
+    await recordSyncAudit({
+      supabase: this.supabase,
+      syncId,
+      clinicId: this.clinicId,
+      syncType: "reconciliation",
+      stats,
+      success: errors.length === 0,
+    });
+
+    const durationMs = Date.now() - startTime;
+
+    logger.info("Reconciliation plan applied", {
+      syncId,
+      stats,
+      durationMs,
+      hasErrors: errors.length > 0,
+    });
+
+    return {
+      success: errors.length === 0,
+      syncId,
+      stats,
+      durationMs,
+      errors: errors.length > 0 ? errors : undefined,
+      deletedCases: deletedCases.length > 0 ? deletedCases : undefined,
+      plan: { ...plan, actions },
+    };
+  }
+
+  /**
+   * Restore every case soft-deleted by a reconciliation run
+   */
+  async undo(runId: string): Promise<UndoReconciliationResult> {
+    const errors: Array<{
+      message: string;
+      context?: Record<string, unknown>;
+    }> = [];
+    const restoredCases: string[] = [];
+
+    const { data, error } = await this.supabase
+      .from("cases")
+      .select("id, metadata")
+      .eq("clinic_id", this.clinicId)
+      .eq("metadata->reconciliation->>runId", runId)
+      .eq("metadata->reconciliation->>softDeleted", "true");
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch cases for reconciliation undo: ${error.message}`,
+      );
+    }
+
+    for (const caseRow of data ?? []) {
+      try {
+        const metadata = extractMetadataRecord(caseRow.metadata);
+        const reconciliation = getReconciliationMetadata(metadata);
+
+        await this.updateCase(caseRow.id, {
+          status: reconciliation.previousStatus ?? "draft",
+          metadata: asCaseUpdateMetadata({
+            ...metadata,
+            reconciliation: {
+              ...reconciliation,
+              softDeleted: false,
+              restoredAt: new Date().toISOString(),
+              restoreReason: "undo",
+            },
+          }),
+        });
+        restoredCases.push(caseRow.id);
+      } catch (restoreError) {
+        const message =
+          restoreError instanceof Error
+            ? restoreError.message
+            : "Unknown error";
+        errors.push({
+          message: `Failed to restore case ${caseRow.id}: ${message}`,
+          context: { caseId: caseRow.id },
+        });
+      }
+    }
+
+    logger.info("Reconciliation run undone", {
+      runId,
+      clinicId: this.clinicId,
+      restored: restoredCases.length,
+      failed: errors.length,
+    });
+
+    return {
+      success: errors.length === 0,
+      runId,
+      restoredCases,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  /**
+   * Apply one action
+   * @returns false if the case changed since the plan was built
+   */
+  private async applyAction(
+    action: ReconciliationAction,
+    runId: string,
+  ): Promise<boolean> {
+    const { data: current, error } = await this.supabase
+      .from("cases")
+      .select("id, status, external_id, metadata")
+      .eq("id", action.caseId)
+      .eq("clinic_id", this.clinicId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch case: ${error.message}`);
+    }
+
+    if (
+      current?.status !== action.fromStatus ||
+      current.external_id !== action.externalId
+    ) {
+      logger.warn("Case changed since reconciliation plan, skipping", {
+        actionId: action.id,
+        caseId: action.caseId,
+      });
+      return false;
+    }
+
+    const metadata = extractMetadataRecord(current.metadata);
+    const reconciliation = getReconciliationMetadata(metadata);
+    const now = new Date().toISOString();
+
+    switch (action.type) {
+      case "delete":
+        // 'reviewed' = closed/archived cases
+        await this.updateCase(action.caseId, {
+          status: "reviewed",
+          metadata: asCaseUpdateMetadata({
+            ...metadata,
+            reconciliation: {
+              softDeleted: true,
+              reason: action.reason,
+              deletedAt: now,
+              runId,
+              previousStatus: current.status,
+              ...(action.replacementCaseId
+                ? { replacementCaseId: action.replacementCaseId }
+                : {}),
+            } satisfies ReconciliationMetadata,
+          }),
+        });
+        break;
+
+      case "restore":
+        await this.updateCase(action.caseId, {
+          status: action.toStatus as CaseStatus,
+          metadata: asCaseUpdateMetadata({
+            ...metadata,
+            reconciliation: {
+              ...reconciliation,
+              softDeleted: false,
+              restoredAt: now,
+              restoreReason: action.reason,
+              restoredByRunId: runId,
+            },
+          }),
+        });
+        break;
+
+      case "relink": {
+        const target = action.relinkTo;
+        if (!target) {
+          throw new Error("Relink action has no target appointment");
+        }
+
+        // The rebooked appointment may have been synced as its own case since
+        const { data: taken } = await this.supabase
+          .from("cases")
+          .select("id")
+          .eq("clinic_id", this.clinicId)
+          .eq("external_id", target.externalId)
+          .maybeSingle();
+        if (taken) {
+          logger.warn("Relink target already has a case, skipping", {
+            actionId: action.id,
+            targetCaseId: taken.id,
+          });
+          return false;
+        }
+
+        await this.updateCase(action.caseId, {
+          external_id: target.externalId,
+          scheduled_at: target.scheduledAt,
+          status: (action.toStatus ?? current.status) as CaseStatus,
+          metadata: asCaseUpdateMetadata({
+            ...metadata,
+            pimsAppointment: target.appointment,
+            reconciliation: {
+              ...reconciliation,
+              relinkedAt: now,
+              runId,
+              previousExternalId: current.external_id,
+            },
+          }),
+        });
+        break;
+      }
+
+      case "update_status":
+        await this.updateCase(action.caseId, {
+          status: action.toStatus as CaseStatus,
+        });
+        break;
+    }
+
+    logger.debug("Applied reconciliation action", {
+      actionId: action.id,
+      reason: action.reason,
+    });
+    return true;
+  }
+
+  private async updateCase(
+    caseId: string,
+    update: Database["public"]["Tables"]["cases"]["Update"],
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("cases")
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq("id", caseId);
+
+    if (error) {
+      throw new Error(`Failed to update case: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Read cases.metadata.reconciliation
+ */
+export function getReconciliationMetadata(
+  metadata: Record<string, unknown>,
+): ReconciliationMetadata {
+  return extractMetadataRecord(metadata.reconciliation);
+}
@@ -12,6 +12,8 @@ import type {
   ReconciliationOptions,
   SyncResult,
   ReconciliationResult,
+  SyncProgress,
+  SyncProgressCallback,
 } from "../types";
 import { InboundSyncService } from "./inbound-sync.service";
 import { CaseSyncService } from "./case-sync.service";
@@ -20,6 +22,16 @@ import { createLogger } from "@odis-ai/shared/logger";
 
 const logger = createLogger("sync-orchestrator");
 
+/**
+ * Sync phases reported through onProgress
+ */
+export type SyncPhase = "inbound" | "enrichment" | "reconciliation";
+
+export type SyncPhaseProgressCallback = (
+  phase: SyncPhase,
+  progress: SyncProgress,
+) => void;
+
 /**
  * Combined sync result
  */
@@ -47,6 +59,10 @@ export interface FullSyncOptions {
   caseOptions?: Omit<CaseSyncOptions, "startDate" | "endDate">;
   /** Reconciliation options */
   reconciliationOptions?: ReconciliationOptions;
+  /** Per-phase progress listener */
+  onProgress?: SyncPhaseProgressCallback;
+  /** Passed to every phase; no further phase starts once aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -69,6 +85,15 @@ export interface BidirectionalSyncOptions {
   reconciliationLookbackDays?: number;
   /** Parallel batch size for case enrichment */
   parallelBatchSize?: number;
+  /** Ignore the sync cursor and re-check every inbound day */
+  forceFullSync?: boolean;
+  /**
+   * Per-phase progress listener
+   * The backward and forward inbound runs are reported as one inbound phase.
+   */
+  onProgress?: SyncPhaseProgressCallback;
+  /** Passed to every phase; no further phase starts once aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -122,9 +147,12 @@ export class SyncOrchestrator {
     try {
       // Phase 1: Inbound sync
       if (!options?.skipInbound) {
-        result.inbound = await this.inboundService.sync(
-          options?.inboundOptions,
-        );
+        options?.signal?.throwIfAborted();
+        result.inbound = await this.inboundService.sync({
+          ...options?.inboundOptions,
+          onProgress: forPhase(options?.onProgress, "inbound"),
+          signal: options?.signal,
+        });
         if (!result.inbound.success) {
           result.success = false;
           logger.warn("Inbound sync failed, continuing with other phases", {
@@ -137,6 +165,7 @@ export class SyncOrchestrator {
       // Note: CaseSyncService internally caps endDate at current time since
       // consultation data is only available for past/completed appointments
       if (!options?.skipCases) {
+        options?.signal?.throwIfAborted();
         const dateRange = this.getDateRangeFromInbound(options?.inboundOptions);
         logger.info("Starting case sync phase", {
           clinicId: this.clinicId,
@@ -147,6 +176,8 @@ export class SyncOrchestrator {
         result.cases = await this.caseService.sync({
           ...dateRange,
           ...options?.caseOptions,
+          onProgress: forPhase(options?.onProgress, "enrichment"),
+          signal: options?.signal,
         });
         if (!result.cases.success) {
           result.success = false;
@@ -158,9 +189,12 @@ export class SyncOrchestrator {
 
       // Phase 3: Reconciliation
       if (!options?.skipReconciliation) {
-        result.reconciliation = await this.reconciler.reconcile(
-          options?.reconciliationOptions,
-        );
+        options?.signal?.throwIfAborted();
+        result.reconciliation = await this.reconciler.reconcile({
+          ...options?.reconciliationOptions,
+          onProgress: forPhase(options?.onProgress, "reconciliation"),
+          signal: options?.signal,
+        });
         if (!result.reconciliation.success) {
           result.success = false;
           logger.warn("Reconciliation failed", {
@@ -242,6 +276,20 @@ export class SyncOrchestrator {
       success: true,
     };
 
+    // Forward inbound counts continue from the backward run's total
+    let inboundOffset = 0;
+    const reportInbound = (progress: SyncProgress) => {
+      if (!options?.onProgress) return;
+      const processed = inboundOffset + progress.processed;
+      const total = inboundOffset + progress.total;
+      options.onProgress("inbound", {
+        ...progress,
+        processed,
+        total,
+        percentage: total > 0 ? Math.floor((processed / total) * 100) : 100,
+      });
+    };
+
     logger.info("Starting bidirectional sync", {
       clinicId: this.clinicId,
       provider: this.provider.name,
@@ -253,6 +301,7 @@ export class SyncOrchestrator {
     try {
       // Phase 1: Backward inbound sync (past cases)
       if (!options?.skipBackwardSync) {
+        options?.signal?.throwIfAborted();
         const backwardStart = new Date();
         backwardStart.setDate(backwardStart.getDate() - lookbackDays);
         backwardStart.setHours(0, 0, 0, 0);
@@ -271,7 +320,11 @@ export class SyncOrchestrator {
             start: backwardStart,
             end: backwardEnd,
           },
+          forceFullSync: options?.forceFullSync,
+          onProgress: reportInbound,
+          signal: options?.signal,
         });
+        inboundOffset = result.backwardInbound.stats.total;
 
         if (!result.backwardInbound.success) {
           result.success = false;
@@ -283,6 +336,7 @@ export class SyncOrchestrator {
 
       // Phase 2: Case enrichment (only on backward range - past appointments have consultation data)
       if (!options?.skipCaseEnrichment && result.backwardInbound) {
+        options?.signal?.throwIfAborted();
         const backwardStart = new Date();
         backwardStart.setDate(backwardStart.getDate() - lookbackDays);
         backwardStart.setHours(0, 0, 0, 0);
@@ -301,6 +355,8 @@ export class SyncOrchestrator {
           startDate: backwardStart,
           endDate: backwardEnd,
           parallelBatchSize: options?.parallelBatchSize,
+          onProgress: forPhase(options?.onProgress, "enrichment"),
+          signal: options?.signal,
         });
 
         if (!result.cases.success) {
@@ -313,6 +369,7 @@ export class SyncOrchestrator {
 
       // Phase 3: Forward inbound sync (future appointments for VAPI scheduling)
       if (!options?.skipForwardSync) {
+        options?.signal?.throwIfAborted();
         const forwardStart = new Date();
         forwardStart.setHours(0, 0, 0, 0);
 
@@ -331,6 +388,9 @@ export class SyncOrchestrator {
             start: forwardStart,
             end: forwardEnd,
           },
+          forceFullSync: options?.forceFullSync,
+          onProgress: reportInbound,
+          signal: options?.signal,
         });
 
         if (!result.forwardInbound.success) {
@@ -343,6 +403,7 @@ export class SyncOrchestrator {
 
       // Phase 4: Reconciliation
       if (!options?.skipReconciliation) {
+        options?.signal?.throwIfAborted();
         logger.info("Running reconciliation", {
           clinicId: this.clinicId,
           lookbackDays: reconciliationLookbackDays,
@@ -350,6 +411,8 @@ export class SyncOrchestrator {
 
         result.reconciliation = await this.reconciler.reconcile({
           lookbackDays: reconciliationLookbackDays,
+          onProgress: forPhase(options?.onProgress, "reconciliation"),
+          signal: options?.signal,
         });
 
         if (!result.reconciliation.success) {
@@ -414,3 +477,13 @@ export class SyncOrchestrator {
     return { startDate, endDate };
   }
 }
+
+/**
+ * Bind a phase progress listener to one phase
+ */
+function forPhase(
+  onProgress: SyncPhaseProgressCallback | undefined,
+  phase: SyncPhase,
+): SyncProgressCallback | undefined {
+  return onProgress ? (progress) => onProgress(phase, progress) : undefined;
+}
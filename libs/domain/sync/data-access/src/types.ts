@@ -10,9 +10,15 @@ export type {
   PimsConsultation,
   PimsCredentials,
   PimsScheduleConfig,
+  ReconciliationAction,
+  ReconciliationActionType,
+  ReconciliationLinkedItem,
   ReconciliationOptions,
+  ReconciliationPlan,
   ReconciliationResult,
   SyncOptions,
+  SyncProgress,
+  SyncProgressCallback,
   SyncResult,
   SyncStats,
 } from "@odis-ai/shared/types";
@@ -10,7 +10,11 @@ export {
   type RecordSyncAuditParams,
   type SyncType,
 } from "./sync-audit";
-export { mapAppointmentStatus, mapAppointmentType } from "./status-mapping";
+export {
+  isCancelledAppointmentStatus,
+  mapAppointmentStatus,
+  mapAppointmentType,
+} from "./status-mapping";
 export { buildPimsExternalId, buildPimsSource } from "./external-id";
 export {
   asCaseInsertMetadata,
@@ -21,3 +25,26 @@ export {
   ProgressThrottler,
   type ProgressUpdate,
 } from "./progress-throttler";
+export {
+  calculateAppointmentHash,
+  hashSyncFields,
+  type SyncHashValue,
+} from "./sync-hash";
+export {
+  addDays,
+  createEmptySyncCursor,
+  DEFAULT_SYNC_CURSOR_POLICY,
+  getSyncDayBounds,
+  groupConsecutiveDays,
+  listSyncDays,
+  loadSyncCursor,
+  planDaysToFetch,
+  pruneSyncCursor,
+  saveSyncCursor,
+  toSyncDay,
+  type PlanDaysToFetchOptions,
+  type SyncCursor,
+  type SyncCursorDay,
+  type SyncCursorPolicy,
+  type SyncDay,
+} from "./sync-cursor";
@@ -4,7 +4,7 @@
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Database } from "@odis-ai/shared/types";
+import type { Database, SyncProgressCallback } from "@odis-ai/shared/types";
 import { createLogger } from "@odis-ai/shared/logger";
 
 const logger = createLogger("progress-throttler");
@@ -25,6 +25,7 @@ export interface ProgressUpdate {
  * - Always forces update on first call and completion (100%)
  * - Buffers pending updates between intervals
  * - Flushes pending updates on completion
+ * - Forwards each written update to an optional onProgress listener
  */
 export class ProgressThrottler {
   private lastUpdateTime = 0;
@@ -32,7 +33,10 @@ export class ProgressThrottler {
   private pendingUpdate: ProgressUpdate | null = null;
   private updateTimer: NodeJS.Timeout | null = null;
 
-  constructor(minIntervalMs = 2000) {
+  constructor(
+    minIntervalMs = 2000,
+    private readonly onProgress?: SyncProgressCallback,
+  ) {
     // Default: max 1 update per 2 seconds
     this.minIntervalMs = minIntervalMs;
   }
@@ -86,6 +90,8 @@ export class ProgressThrottler {
    * Execute a progress update to the database
    */
   private async executeUpdate(update: ProgressUpdate): Promise<void> {
+    this.notifyListener(update);
+
     try {
       // Note: Type casting is used here because the migration adding these fields
       // hasn't been run yet. Once the migration runs, these fields will exist.
@@ -122,6 +128,27 @@ export class ProgressThrottler {
     }
   }
 
+  /**
+   * Forward an update to the listener; listener errors never fail the sync
+   */
+  private notifyListener(update: ProgressUpdate): void {
+    if (!this.onProgress) return;
+
+    try {
+      this.onProgress({
+        syncId: update.syncId,
+        processed: update.processed_items,
+        total: update.total_items,
+        percentage: update.progress_percentage,
+      });
+    } catch (error) {
+      logger.warn("Progress listener failed", {
+        syncId: update.syncId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
   /**
    * Force flush any pending update (call before final completion)
    */
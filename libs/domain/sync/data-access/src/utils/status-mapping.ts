@@ -67,3 +67,10 @@ export function mapAppointmentType(type: string | null): CaseType {
   const normalized = normalizeKey(type);
   return APPOINTMENT_TYPE_MAP[normalized] ?? "checkup";
 }
+
+/**
+ * Check whether a PIMS appointment status means the visit was cancelled
+ */
+export function isCancelledAppointmentStatus(status: string | null): boolean {
+  return !!status && normalizeKey(status).startsWith("cancel");
+}
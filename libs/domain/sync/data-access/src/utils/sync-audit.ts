@@ -80,7 +80,9 @@ export const recordSyncAudit = async ({
       sync_type: syncType,
       appointments_found: stats.total,
       cases_created: stats.created,
-      cases_updated: stats.updated,
+      // Audit table has no columns for inbound moves/cancellations
+      cases_updated:
+        stats.updated + (stats.moved ?? 0) + (stats.cancelled ?? 0),
       cases_skipped: stats.skipped,
       cases_deleted: stats.deleted ?? 0,
       status: success ? "completed" : "failed",
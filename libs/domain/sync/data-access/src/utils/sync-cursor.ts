@@ -0,0 +1,269 @@
+/**
+ * Sync Cursor Utilities
+ *
+ * Per-clinic inbound sync cursor (pims_sync_cursors). Records when each
+ * clinic-local day was last fetched and the content hash of every
+ * appointment seen on it, so a run only re-fetches days that may have
+ * changed and skips appointments whose hash hasn't moved.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@odis-ai/shared/types";
+import { createLogger } from "@odis-ai/shared/logger";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+
+const logger = createLogger("sync-cursor");
+
+/** Clinic-local calendar day, YYYY-MM-DD */
+export type SyncDay = string;
+
+export interface SyncCursorDay {
+  /** When the day was last fetched from the PIMS (ISO) */
+  syncedAt: string;
+  /** Appointment ID -> content hash (see calculateAppointmentHash) */
+  appointments: Record<string, string>;
+}
+
+export interface SyncCursor {
+  clinicId: string;
+  /** First day of the last successful sync window */
+  windowStart: SyncDay | null;
+  /** Last day of the last successful sync window */
+  windowEnd: SyncDay | null;
+  lastSyncedAt: string | null;
+  days: Record<SyncDay, SyncCursorDay>;
+}
+
+export interface SyncCursorPolicy {
+  /** Days from today that are always re-fetched (0 = today only) */
+  hotDays: number;
+  /** Re-fetch an unsettled day once its last fetch is older than this */
+  staleAfterMs: number;
+  /** Days after the appointment date before a past day stops changing */
+  settleDays: number;
+  /** Days of history kept in the cursor */
+  retentionDays: number;
+}
+
+export const DEFAULT_SYNC_CURSOR_POLICY: SyncCursorPolicy = {
+  hotDays: 1,
+  staleAfterMs: 6 * 60 * 60 * 1000,
+  settleDays: 1,
+  retentionDays: 60,
+};
+
+export interface PlanDaysToFetchOptions {
+  /** Today in the clinic's timezone */
+  today: SyncDay;
+  now: Date;
+  timezone: string;
+  policy?: SyncCursorPolicy;
+  /** Fetch every day regardless of cursor state */
+  forceFullSync?: boolean;
+}
+
+/**
+ * Create a cursor for a clinic that has never synced
+ */
+export function createEmptySyncCursor(clinicId: string): SyncCursor {
+  return {
+    clinicId,
+    windowStart: null,
+    windowEnd: null,
+    lastSyncedAt: null,
+    days: {},
+  };
+}
+
+/**
+ * Load the clinic's sync cursor
+ * Falls back to an empty cursor (full sync) if none exists or it can't be read.
+ */
+export async function loadSyncCursor(
+  supabase: SupabaseClient<Database>,
+  clinicId: string,
+): Promise<SyncCursor> {
+  const { data, error } = await supabase
+    .from("pims_sync_cursors")
+    .select("*")
+    .eq("clinic_id", clinicId)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn("Failed to load sync cursor, running full sync", {
+      clinicId,
+      error: error.message,
+    });
+  }
+
+  if (!data) {
+    return createEmptySyncCursor(clinicId);
+  }
+
+  const days =
+    data.days && typeof data.days === "object" && !Array.isArray(data.days)
+      ? (data.days as unknown as Record<SyncDay, SyncCursorDay>)
+      : {};
+
+  return {
+    clinicId,
+    windowStart: data.window_start,
+    windowEnd: data.window_end,
+    lastSyncedAt: data.last_synced_at,
+    days,
+  };
+}
+
+/**
+ * Persist the clinic's sync cursor
+ */
+export async function saveSyncCursor(
+  supabase: SupabaseClient<Database>,
+  cursor: SyncCursor,
+): Promise<void> {
+  const { error } = await supabase.from("pims_sync_cursors").upsert(
+    {
+      clinic_id: cursor.clinicId,
+      window_start: cursor.windowStart,
+      window_end: cursor.windowEnd,
+      last_synced_at: cursor.lastSyncedAt,
+      days: cursor.days as unknown as Json,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "clinic_id" },
+  );
+
+  if (error) {
+    throw new Error(`Failed to save sync cursor: ${error.message}`);
+  }
+}
+
+/**
+ * Add (or subtract) calendar days to a YYYY-MM-DD day
+ */
+export function addDays(day: SyncDay, amount: number): SyncDay {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Clinic-local day for an instant
+ */
+export function toSyncDay(date: Date, timezone: string): SyncDay {
+  return formatInTimeZone(date, timezone, "yyyy-MM-dd");
+}
+
+/**
+ * Every clinic-local day touched by a date range, inclusive
+ */
+export function listSyncDays(
+  start: Date,
+  end: Date,
+  timezone: string,
+): SyncDay[] {
+  const days: SyncDay[] = [];
+  const last = toSyncDay(end, timezone);
+
+  for (let day = toSyncDay(start, timezone); day <= last;) {
+    days.push(day);
+    day = addDays(day, 1);
+  }
+
+  return days;
+}
+
+/**
+ * UTC bounds of a run of clinic-local days, for provider.fetchAppointments
+ */
+export function getSyncDayBounds(
+  startDay: SyncDay,
+  endDay: SyncDay,
+  timezone: string,
+): { start: Date; end: Date } {
+  const start = fromZonedTime(`${startDay}T00:00:00.000`, timezone);
+  const nextDay = fromZonedTime(`${addDays(endDay, 1)}T00:00:00.000`, timezone);
+
+  return { start, end: new Date(nextDay.getTime() - 1) };
+}
+
+/**
+ * Decide which days need fetching from the PIMS
+ *
+ * A day is fetched when:
+ * - it has never been synced
+ * - it's within `hotDays` of today (schedules churn on the day)
+ * - it isn't settled yet and its last fetch is stale
+ *
+ * Past days settle once they've been fetched `settleDays` after the fact;
+ * settled days are never fetched again unless `forceFullSync` is set.
+ */
+export function planDaysToFetch(
+  cursor: SyncCursor,
+  days: SyncDay[],
+  options: PlanDaysToFetchOptions,
+): SyncDay[] {
+  const policy = options.policy ?? DEFAULT_SYNC_CURSOR_POLICY;
+
+  if (options.forceFullSync) {
+    return [...days];
+  }
+
+  const hotEnd = addDays(options.today, policy.hotDays);
+
+  return days.filter((day) => {
+    const entry = cursor.days[day];
+    if (!entry) return true;
+
+    if (day >= options.today && day <= hotEnd) return true;
+
+    const syncedAt = new Date(entry.syncedAt);
+    if (Number.isNaN(syncedAt.getTime())) return true;
+
+    if (day < options.today) {
+      const syncedDay = toSyncDay(syncedAt, options.timezone);
+      if (syncedDay > addDays(day, policy.settleDays)) return false;
+    }
+
+    return options.now.getTime() - syncedAt.getTime() >= policy.staleAfterMs;
+  });
+}
+
+/**
+ * Collapse days into runs of consecutive days, so each run is one fetch
+ */
+export function groupConsecutiveDays(
+  days: SyncDay[],
+): Array<{ startDay: SyncDay; endDay: SyncDay }> {
+  const sorted = [...new Set(days)].sort();
+  const ranges: Array<{ startDay: SyncDay; endDay: SyncDay }> = [];
+
+  for (const day of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && addDays(last.endDay, 1) === day) {
+      last.endDay = day;
+    } else {
+      ranges.push({ startDay: day, endDay: day });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Drop days older than the retention window
+ */
+export function pruneSyncCursor(
+  cursor: SyncCursor,
+  today: SyncDay,
+  policy: SyncCursorPolicy = DEFAULT_SYNC_CURSOR_POLICY,
+): SyncCursor {
+  const oldest = addDays(today, -policy.retentionDays);
+
+  return {
+    ...cursor,
+    days: Object.fromEntries(
+      Object.entries(cursor.days).filter(([day]) => day >= oldest),
+    ),
+  };
+}
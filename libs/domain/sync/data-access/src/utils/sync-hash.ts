@@ -0,0 +1,61 @@
+/**
+ * Sync Hash Utilities
+ *
+ * Deterministic content hashes for PIMS appointments, used by inbound sync
+ * to skip appointments that haven't changed since the last run.
+ */
+
+import { createHash } from "crypto";
+import type { PimsAppointment } from "../types";
+
+/**
+ * A single hashed field: scalars only, so every value has a stable string form
+ */
+export type SyncHashValue = string | number | boolean | null | undefined;
+
+/**
+ * Hash a list of field values into a SHA256 hex digest
+ * Null/undefined hash as empty strings and values are trimmed, so
+ * formatting noise from the PIMS doesn't register as a change.
+ */
+export function hashSyncFields(values: SyncHashValue[]): string {
+  const hashInput = values
+    .map((value) =>
+      value === null || value === undefined ? "" : String(value).trim(),
+    )
+    .join("|");
+
+  return createHash("sha256").update(hashInput).digest("hex");
+}
+
+/**
+ * Calculate the content hash for a PIMS appointment
+ *
+ * Accepts appointments read back from case metadata too, where
+ * `startTime` has been serialized to an ISO string.
+ */
+export function calculateAppointmentHash(appointment: PimsAppointment): string {
+  const startTime = appointment.startTime
+    ? new Date(appointment.startTime).toISOString()
+    : null;
+
+  return hashSyncFields([
+    appointment.date,
+    startTime,
+    appointment.duration,
+    appointment.status,
+    appointment.consultationId,
+    appointment.type,
+    appointment.reason,
+    appointment.patient.id,
+    appointment.patient.name,
+    appointment.patient.species,
+    appointment.patient.breed,
+    appointment.client.id,
+    appointment.client.name,
+    appointment.client.phone,
+    appointment.client.email,
+    appointment.provider.id,
+    appointment.provider.name,
+  ]);
+}
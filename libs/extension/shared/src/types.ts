@@ -12,7 +12,11 @@ export type MessageType =
   | "GET_SETTINGS"
   | "UPDATE_SETTINGS"
   | "IDEXX_DATA_DETECTED"
-  | "OPEN_DASHBOARD";
+  | "OPEN_DASHBOARD"
+  | "GET_CONSULTATION_DISCHARGE"
+  | "PREPARE_DISCHARGE_SUMMARY"
+  | "UPDATE_DISCHARGE_SUMMARY"
+  | "SEND_DISCHARGE";
 
 /**
  * Base message structure for Chrome runtime messaging
@@ -63,6 +67,80 @@ export interface IdexxPatientData {
   breed?: string;
 }
 
+/**
+ * Error returned by API-backed messages when nobody is signed in
+ */
+export const AUTH_REQUIRED_ERROR = "Not authenticated";
+
+/**
+ * ODIS case status for an IDEXX Neo consultation
+ * (GET_CONSULTATION_DISCHARGE response)
+ */
+export type ConsultationDischarge =
+  { found: false } | ({ found: true } & DischargePreview);
+
+/**
+ * Discharge state of an ODIS case, as shown in the consultation panel
+ */
+export interface DischargePreview {
+  caseId: string;
+  caseStatus: string | null;
+  patient: {
+    name: string;
+    species: string | null;
+    ownerName: string | null;
+    hasPhone: boolean;
+    hasEmail: boolean;
+  };
+  summary: DischargeSummaryDraft | null;
+  call: {
+    id: string;
+    status: string;
+    scheduledFor: string | null;
+    endedAt: string | null;
+    summary: string | null;
+  } | null;
+  email: {
+    id: string;
+    status: string;
+    scheduledFor: string;
+    sentAt: string | null;
+  } | null;
+  soapNote: {
+    subjective: string | null;
+    objective: string | null;
+    assessment: string | null;
+    plan: string | null;
+  } | null;
+}
+
+/**
+ * Discharge summary text that can be edited before sending
+ */
+export interface DischargeSummaryDraft {
+  id: string;
+  content: string;
+}
+
+/**
+ * SEND_DISCHARGE payload
+ */
+export interface SendDischargeRequest {
+  caseId: string;
+  phoneEnabled: boolean;
+  emailEnabled: boolean;
+}
+
+/**
+ * SEND_DISCHARGE response
+ */
+export interface SendDischargeResult {
+  callScheduled: boolean;
+  emailScheduled: boolean;
+  callScheduledFor?: string;
+  emailScheduledFor?: string;
+}
+
 /**
  * Default extension settings
  */
@@ -0,0 +1,131 @@
+/**
+ * AI SMS Reply Suggestion
+ *
+ * Drafts a staff reply to a pet owner's text, grounded in the case's
+ * discharge summary. Staff review and edit before anything is sent.
+ */
+
+import { Anthropic } from "@llamaindex/anthropic";
+import { env } from "@odis-ai/shared/env";
+import type { UrgencyLevel } from "@odis-ai/shared/types/triage";
+import type { ChatMessage } from "llamaindex";
+import {
+  extractApiErrorStatus,
+  extractTextFromResponse,
+} from "./llamaindex/utils";
+
+const SYSTEM_PROMPT = `You are drafting text message replies for veterinary clinic staff responding to pet owners after a visit.
+
+Requirements:
+- Ground every clinical statement in the discharge summary provided; never invent diagnoses, medications, or doses
+- If the owner describes worsening or emergency symptoms, tell them to call the clinic right away or go to the nearest emergency hospital
+- If the answer isn't in the discharge summary, say the care team will follow up rather than guessing
+- Keep it under 320 characters, warm and plain-spoken
+- No greetings like "Dear", no sign-off with a staff name, no markdown
+
+Output format:
+Only the text message body.`;
+
+export interface SmsConversationTurn {
+  direction: "inbound" | "outbound";
+  body: string;
+}
+
+export interface GenerateSmsReplyInput {
+  /** Conversation so far, oldest first */
+  messages: SmsConversationTurn[];
+  dischargeSummary?: string | null;
+  patientName?: string | null;
+  clinicName?: string | null;
+  clinicPhone?: string | null;
+  /** Triage urgency detected in the owner's latest message */
+  urgency?: UrgencyLevel | null;
+}
+
+function createUserPrompt(input: GenerateSmsReplyInput): string {
+  const thread = input.messages
+    .map((m) => `${m.direction === "inbound" ? "Owner" : "Clinic"}: ${m.body}`)
+    .join("\n");
+
+  return `Clinic: ${input.clinicName ?? "the clinic"}${input.clinicPhone ? ` (${input.clinicPhone})` : ""}
+Patient: ${input.patientName ?? "the pet"}
+Detected urgency of latest owner message: ${input.urgency ?? "none"}
+
+<discharge_summary>
+${input.dischargeSummary?.trim() ?? "Not available"}
+</discharge_summary>
+
+<conversation>
+${thread}
+</conversation>
+
+Draft the clinic's reply to the owner's latest message.`;
+}
+
+/**
+ * Get LLM instance for reply suggestions
+ * Uses Haiku model for fast, cost-effective drafting
+ */
+function getSmsReplyLLM() {
+  if (!env.ANTHROPIC_API_KEY) {
+    throw new Error(
+      "ANTHROPIC_API_KEY not configured. Add it to your environment variables.",
+    );
+  }
+
+  return new Anthropic({
+    apiKey: env.ANTHROPIC_API_KEY,
+    model: "claude-haiku-4-5-20251001",
+    temperature: 0.3,
+    maxTokens: 256,
+  });
+}
+
+/**
+ * Suggest a reply to the latest owner text in a conversation
+ */
+export async function generateSmsReplySuggestion(
+  input: GenerateSmsReplyInput,
+): Promise<string> {
+  if (!input.messages.some((m) => m.direction === "inbound")) {
+    throw new Error("Conversation has no owner message to reply to");
+  }
+
+  try {
+    const llm = getSmsReplyLLM();
+
+    console.log("[SMS_REPLY_AI] Generating reply suggestion", {
+      messageCount: input.messages.length,
+      hasDischargeSummary: !!input.dischargeSummary,
+      urgency: input.urgency ?? null,
+    });
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: SYSTEM_PROMPT,
+      },
+      {
+        role: "user",
+        content: createUserPrompt(input),
+      },
+    ];
+
+    const response = await llm.chat({ messages });
+    return extractTextFromResponse(response).trim();
+  } catch (error) {
+    const statusCode = extractApiErrorStatus(error);
+    if (statusCode !== null) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown LlamaIndex API error";
+      console.error("[SMS_REPLY_AI] LlamaIndex API error:", {
+        status: statusCode,
+        message: errorMessage,
+      });
+      throw new Error(`LlamaIndex API error (${statusCode}): ${errorMessage}`);
+    }
+
+    console.error("[SMS_REPLY_AI] Unexpected error:", error);
+    throw error;
+  }
+}
@@ -3,6 +3,7 @@ export * from "./extract-appointment-date";
 export * from "./generate-action-card";
 export * from "./generate-assessment-questions";
 export * from "./generate-discharge";
+export * from "./generate-sms-reply";
 export * from "./generate-structured-discharge";
 export * from "./generate-urgent-summary";
 export * from "./normalize-scribe";
@@ -0,0 +1,320 @@
+/**
+ * Tests for EzyvetProvider against a local fake ezyVet API
+ * - authenticate: OAuth client-credentials grant
+ * - fetchAppointments: filtering, paging, lookups and mapping
+ * - fetchConsultation: consult + history entries
+ * - fetchScheduleConfig: derived from appointment types/resources
+ * - token refresh and rate-limit retry
+ * - businessHoursFromClinic: clinics.business_hours -> provider config
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { PimsCredentials } from "@odis-ai/shared/types";
+import { EzyvetProvider } from "../provider/ezyvet-provider";
+import { businessHoursFromClinic } from "../provider/schedule-client";
+import {
+  FAKE_CREDENTIALS,
+  startFakeEzyvetServer,
+  type FakeEzyvetServer,
+} from "./fake-ezyvet-server";
+
+const credentials: PimsCredentials = {
+  username: FAKE_CREDENTIALS.clientId,
+  password: FAKE_CREDENTIALS.clientSecret,
+  companyId: FAKE_CREDENTIALS.partnerId,
+};
+
+// 2026-03-10 in America/Los_Angeles
+const dayStart = new Date("2026-03-10T07:00:00.000Z");
+const dayEnd = new Date("2026-03-11T06:59:59.999Z");
+
+describe("EzyvetProvider", () => {
+  let server: FakeEzyvetServer;
+  let provider: EzyvetProvider;
+
+  beforeEach(async () => {
+    server = await startFakeEzyvetServer();
+    provider = new EzyvetProvider({
+      baseUrl: server.url,
+      timezone: "America/Los_Angeles",
+      // Small pages so paging is exercised with the fixtures
+      pageSize: 2,
+      businessHours: {
+        openTime: "08:00",
+        closeTime: "18:00",
+        daysOfWeek: [1, 2, 3, 4, 5],
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await provider.close();
+    await server.close();
+  });
+
+  describe("authenticate", () => {
+    it("exchanges client credentials for a token", async () => {
+      const result = await provider.authenticate(credentials);
+
+      expect(result).toBe(true);
+      expect(provider.isAuthenticated()).toBe(true);
+
+      const tokenRequest = server.requests[0]!;
+      expect(tokenRequest.method).toBe("POST");
+      expect(tokenRequest.path).toBe("/v1/oauth/access_token");
+      expect(tokenRequest.body).toMatchObject({
+        grant_type: "client_credentials",
+        partner_id: "odis-partner",
+        client_id: "fixture-client",
+      });
+      expect(tokenRequest.body?.scope).toContain("read-appointment");
+    });
+
+    it("returns false for rejected credentials", async () => {
+      const result = await provider.authenticate({
+        ...credentials,
+        password: "wrong-secret",
+      });
+
+      expect(result).toBe(false);
+      expect(provider.isAuthenticated()).toBe(false);
+    });
+
+    it("returns false without a partner ID", async () => {
+      const result = await provider.authenticate({
+        username: credentials.username,
+        password: credentials.password,
+      });
+
+      expect(result).toBe(false);
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+
+  describe("fetchAppointments", () => {
+    beforeEach(async () => {
+      await provider.authenticate(credentials);
+    });
+
+    it("maps appointments with patient, client and provider details", async () => {
+      const appointments = await provider.fetchAppointments(dayStart, dayEnd);
+
+      expect(appointments).toHaveLength(4);
+
+      const wellness = appointments.find((a) => a.id === "9001")!;
+      expect(wellness).toEqual({
+        id: "9001",
+        consultationId: "5001",
+        date: "2026-03-10",
+        startTime: new Date(1773158400 * 1000),
+        duration: 30,
+        status: "Confirmed",
+        patient: {
+          id: "3001",
+          name: "Biscuit",
+          species: "Canine",
+          breed: "Labrador Retriever",
+        },
+        client: {
+          id: "2001",
+          name: "Dana Whitfield",
+          // Preferred mobile wins over landline
+          phone: "(408) 555-0199",
+          email: "dana.whitfield@example.com",
+        },
+        provider: { id: "41", name: "Dr. Priya Patel" },
+        type: "Wellness Exam",
+        reason: "Vaccines + annual exam",
+      });
+    });
+
+    it("resolves the client through the animal when the appointment has no contact", async () => {
+      const appointments = await provider.fetchAppointments(dayStart, dayEnd);
+      const sick = appointments.find((a) => a.id === "9002")!;
+
+      expect(sick.client).toEqual({
+        id: "2002",
+        name: "Sam Okafor",
+        phone: "(650) 555-0172",
+        email: null,
+      });
+      expect(sick.status).toBe("Booked");
+      expect(sick.consultationId).toBeNull();
+    });
+
+    it("falls back for unknown types, missing status and business contacts", async () => {
+      const appointments = await provider.fetchAppointments(dayStart, dayEnd);
+      const recheck = appointments.find((a) => a.id === "9003")!;
+
+      expect(recheck.type).toBe("Appointment");
+      expect(recheck.status).toBe("Scheduled");
+      expect(recheck.duration).toBe(30); // from end_time - start_time
+      expect(recheck.client.name).toBe("Bay Area K9 Rescue");
+      expect(recheck.provider).toEqual({ id: null, name: null });
+      expect(recheck.patient.breed).toBeNull();
+    });
+
+    it("marks animal-less appointments as blocks in the clinic's local date", async () => {
+      const appointments = await provider.fetchAppointments(dayStart, dayEnd);
+      const block = appointments.find((a) => a.id === "9004")!;
+
+      expect(block.type).toBe("block");
+      // 23:30 PDT is already March 11 in UTC
+      expect(block.date).toBe("2026-03-10");
+      expect(block.patient.id).toBeNull();
+    });
+
+    it("filters by unix start_time and walks every page", async () => {
+      await provider.fetchAppointments(dayStart, dayEnd);
+
+      const appointmentRequests = server.requests.filter(
+        (r) => r.path === "/v1/appointment",
+      );
+      expect(appointmentRequests.map((r) => r.query.page)).toEqual(["1", "2"]);
+      expect(JSON.parse(appointmentRequests[0]!.query.start_time!)).toEqual({
+        gt: Math.floor(dayStart.getTime() / 1000),
+        lt: Math.floor(dayEnd.getTime() / 1000),
+      });
+      expect(appointmentRequests[0]!.authorization).toBe(
+        "Bearer fixture-access-token-1",
+      );
+    });
+
+    it("returns only appointments inside the range", async () => {
+      const morningOnly = await provider.fetchAppointments(
+        dayStart,
+        new Date("2026-03-10T18:00:00.000Z"), // 11:00 PDT
+      );
+
+      expect(morningOnly.map((a) => a.id)).toEqual(["9001", "9002"]);
+    });
+
+    it("returns an empty list without lookups when nothing is booked", async () => {
+      const appointments = await provider.fetchAppointments(
+        new Date("2026-04-01T07:00:00.000Z"),
+        new Date("2026-04-02T06:59:59.999Z"),
+      );
+
+      expect(appointments).toEqual([]);
+      expect(server.requests.some((r) => r.path === "/v1/animal")).toBe(false);
+    });
+
+    it("refreshes the token once on 401", async () => {
+      server.expireTokens();
+
+      const appointments = await provider.fetchAppointments(dayStart, dayEnd);
+
+      expect(appointments).toHaveLength(4);
+      const tokenRequests = server.requests.filter(
+        (r) => r.path === "/v1/oauth/access_token",
+      );
+      expect(tokenRequests).toHaveLength(2);
+    });
+
+    it("retries rate-limited requests", async () => {
+      server.failNext("/v1/appointment", 429, 2);
+
+      const appointments = await provider.fetchAppointments(dayStart, dayEnd);
+
+      expect(appointments).toHaveLength(4);
+    });
+
+    it("throws when ezyVet keeps failing", async () => {
+      server.failNext("/v1/appointment", 403);
+
+      await expect(
+        provider.fetchAppointments(dayStart, dayEnd),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("fetchConsultation", () => {
+    beforeEach(async () => {
+      await provider.authenticate(credentials);
+    });
+
+    it("splits discharge notes from clinical notes", async () => {
+      const consultation = await provider.fetchConsultation("5001");
+
+      expect(consultation).toEqual({
+        id: "5001",
+        notes:
+          "Subjective: Bright, alert. Eating well.\n\nPlan: DHPP and rabies boosters given.",
+        dischargeSummary:
+          "Mild soreness at injection site is normal for 24-48 hours.",
+        productsServices: null,
+        declinedProductsServices: null,
+        status: "finalized",
+        reason: "Annual wellness exam",
+        date: "2026-03-10",
+      });
+    });
+
+    it("reports unfinalised consults as in progress", async () => {
+      const consultation = await provider.fetchConsultation("5003");
+
+      expect(consultation?.status).toBe("in_progress");
+      expect(consultation?.dischargeSummary).toBeNull();
+    });
+
+    it("returns null for unknown consults", async () => {
+      const consultation = await provider.fetchConsultation("does-not-exist");
+
+      expect(consultation).toBeNull();
+    });
+  });
+
+  describe("fetchScheduleConfig", () => {
+    it("derives slot duration and capacity from ezyVet reference data", async () => {
+      await provider.authenticate(credentials);
+
+      const config = await provider.fetchScheduleConfig();
+
+      expect(config).toMatchObject({
+        openTime: "08:00",
+        closeTime: "18:00",
+        daysOfWeek: [1, 2, 3, 4, 5],
+        // Two active 15-minute types vs one 30-minute type
+        slotDurationMinutes: 15,
+        // Two active resources
+        defaultCapacity: 2,
+        timezone: "America/Los_Angeles",
+      });
+    });
+
+    it("returns null when business hours are not configured", async () => {
+      const unconfigured = new EzyvetProvider({ baseUrl: server.url });
+      await unconfigured.authenticate(credentials);
+
+      expect(await unconfigured.fetchScheduleConfig()).toBeNull();
+      await unconfigured.close();
+    });
+  });
+
+  it("requires authentication before fetching", async () => {
+    await expect(provider.fetchAppointments(dayStart, dayEnd)).rejects.toThrow(
+      "Not authenticated",
+    );
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe("businessHoursFromClinic", () => {
+  it("spans the earliest opening and latest closing across open days", () => {
+    expect(
+      businessHoursFromClinic({
+        monday: { open: "08:00", close: "17:00" },
+        tuesday: { open: "07:30", close: "18:00" },
+        saturday: { open: "09:00", close: "12:00" },
+        sunday: { open: "09:00", close: "12:00", closed: true },
+      }),
+    ).toEqual({ openTime: "07:30", closeTime: "18:00", daysOfWeek: [1, 2, 6] });
+  });
+
+  it("returns undefined when no day has usable hours", () => {
+    expect(businessHoursFromClinic(null)).toBeUndefined();
+    expect(
+      businessHoursFromClinic({ monday: { open: "8am" } }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Local fake ezyVet API for provider tests
+ *
+ * Serves the recorded list responses in ./fixtures, applying the same
+ * filtering (`id`, `{"in": [...]}`, `{"gt"/"lt"}`) and pagination
+ * (`limit`, `page`) that the real API does, so the provider's request
+ * building and paging are exercised end-to-end over HTTP.
+ */
+
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+/**
+ * Query params that control paging rather than filtering
+ */
+const PAGING_PARAMS = new Set(["limit", "page"]);
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  authorization: string | undefined;
+  body?: Record<string, string>;
+}
+
+export interface FakeEzyvetServer {
+  url: string;
+  requests: RecordedRequest[];
+  /** Respond to the next request for `path` with `status` instead of data */
+  failNext(pathname: string, status: number, times?: number): void;
+  /** Invalidate issued tokens so the next API call gets a 401 */
+  expireTokens(): void;
+  close(): Promise<void>;
+}
+
+export const FAKE_CREDENTIALS = {
+  partnerId: "odis-partner",
+  clientId: "fixture-client",
+  clientSecret: "fixture-secret",
+};
+
+/**
+ * Start the fake server on a random local port
+ */
+export async function startFakeEzyvetServer(): Promise<FakeEzyvetServer> {
+  const requests: RecordedRequest[] = [];
+  const failures = new Map<string, Array<number>>();
+  let tokenGeneration = 1;
+
+  const server: Server = createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const query = Object.fromEntries(url.searchParams.entries());
+      const body = req.method === "POST" ? await readFormBody(req) : undefined;
+
+      requests.push({
+        method: req.method ?? "GET",
+        path: url.pathname,
+        query,
+        authorization: req.headers.authorization,
+        body,
+      });
+
+      const send = (status: number, payload: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(payload));
+      };
+
+      const queued = failures.get(url.pathname);
+      if (queued && queued.length > 0) {
+        const status = queued.shift()!;
+        res.writeHead(status, {
+          "Content-Type": "application/json",
+          ...(status === 429 ? { "Retry-After": "0" } : {}),
+        });
+        res.end(JSON.stringify({ messages: [{ level: "error", text: "" }] }));
+        return;
+      }
+
+      if (url.pathname === "/v1/oauth/access_token") {
+        const valid =
+          body?.grant_type === "client_credentials" &&
+          body.partner_id === FAKE_CREDENTIALS.partnerId &&
+          body.client_id === FAKE_CREDENTIALS.clientId &&
+          body.client_secret === FAKE_CREDENTIALS.clientSecret;
+
+        if (!valid) {
+          send(401, { error: "invalid_client" });
+          return;
+        }
+
+        const token = loadFixture("oauth-access-token") as {
+          access_token: string;
+        };
+        send(200, {
+          ...token,
+          access_token: `${token.access_token}-${tokenGeneration}`,
+        });
+        return;
+      }
+
+      if (req.headers.authorization !== `Bearer ${currentToken()}`) {
+        send(401, { error: "invalid_token" });
+        return;
+      }
+
+      const entity = url.pathname.replace(/^\/v1\//, "");
+      let fixture: ListFixture;
+      try {
+        fixture = loadFixture(entity) as ListFixture;
+      } catch {
+        send(404, { messages: [{ level: "error", text: "Not found" }] });
+        return;
+      }
+
+      send(200, paginate(filterItems(fixture, entity, query), query));
+    })();
+  });
+
+  function currentToken(): string {
+    const token = loadFixture("oauth-access-token") as {
+      access_token: string;
+    };
+    return `${token.access_token}-${tokenGeneration}`;
+  }
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    failNext(pathname, status, times = 1) {
+      const queued = failures.get(pathname) ?? [];
+      for (let i = 0; i < times; i++) queued.push(status);
+      failures.set(pathname, queued);
+    },
+    expireTokens() {
+      tokenGeneration++;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
+
+interface ListFixture {
+  meta: Record<string, number>;
+  messages: unknown[];
+  items: Array<Record<string, Record<string, unknown>>>;
+}
+
+function loadFixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(path.join(FIXTURES_DIR, `${name}.json`), "utf8"),
+  );
+}
+
+async function readFormBody(
+  req: IncomingMessage,
+): Promise<Record<string, string>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Object.fromEntries(
+    new URLSearchParams(Buffer.concat(chunks).toString("utf8")).entries(),
+  );
+}
+
+/**
+ * Apply ezyVet filter syntax to fixture items
+ */
+function filterItems(
+  fixture: ListFixture,
+  entity: string,
+  query: Record<string, string>,
+): ListFixture["items"] {
+  return fixture.items.filter((item) => {
+    const record = item[entity]!;
+
+    return Object.entries(query).every(([key, raw]) => {
+      if (PAGING_PARAMS.has(key)) return true;
+
+      const value = record[key];
+      let filter: unknown = raw;
+      try {
+        filter = JSON.parse(raw);
+      } catch {
+        // plain value
+      }
+
+      if (filter && typeof filter === "object" && !Array.isArray(filter)) {
+        const ops = filter as Record<string, unknown>;
+        if (Array.isArray(ops.in)) {
+          return ops.in.map(String).includes(String(value));
+        }
+        const num = Number(value);
+        if (ops.gt !== undefined && !(num > Number(ops.gt))) return false;
+        if (ops.lt !== undefined && !(num < Number(ops.lt))) return false;
+        return true;
+      }
+
+      return String(value) === String(filter);
+    });
+  });
+}
+
+function paginate(
+  items: ListFixture["items"],
+  query: Record<string, string>,
+): ListFixture {
+  const limit = Number(query.limit ?? 10);
+  const page = Number(query.page ?? 1);
+  const pageItems = items.slice((page - 1) * limit, page * limit);
+
+  return {
+    meta: {
+      items_total: items.length,
+      items_page_total: Math.max(Math.ceil(items.length / limit), 1),
+      items_page_size: limit,
+      items_page: page,
+    },
+    messages: [],
+    items: pageItems,
+  };
+}
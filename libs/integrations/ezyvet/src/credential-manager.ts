@@ -0,0 +1,153 @@
+/**
+ * ezyVet Credential Manager
+ *
+ * Manages ezyVet OAuth client credentials with encryption.
+ * Uses the same AES-256-GCM scheme as IDEXX credentials.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { decrypt, encrypt } from "@odis-ai/shared/crypto/aes-encryption";
+import { parseByteaData } from "@odis-ai/shared/crypto/bytea";
+
+export interface EzyvetCredentials {
+  partnerId: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface StoredEzyvetCredential {
+  id: string;
+  user_id: string;
+  clinic_id: string;
+  partner_id: string;
+  encryption_key_id: string;
+  is_active: boolean;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+  client_id_encrypted: unknown;
+  client_secret_encrypted: unknown;
+}
+
+/**
+ * ezyVet Credential Manager
+ *
+ * Handles secure storage and retrieval of ezyVet API credentials.
+ * Credentials are always clinic-scoped: an ezyVet partner integration
+ * is issued per site, not per user.
+ */
+export class EzyvetCredentialManager {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Store ezyVet credentials with encryption
+   *
+   * @param userId - User who entered the credentials
+   * @param clinicId - Clinic the ezyVet site belongs to
+   * @param credentials - Partner ID, client ID and client secret
+   * @param keyId - Encryption key ID (default: 'default')
+   * @returns Credential record ID
+   */
+  async storeCredentials(
+    userId: string,
+    clinicId: string,
+    credentials: EzyvetCredentials,
+    keyId = "default",
+  ): Promise<{ id: string }> {
+    const { encrypted: clientIdEncrypted } = encrypt(
+      credentials.clientId,
+      keyId,
+    );
+    const { encrypted: clientSecretEncrypted } = encrypt(
+      credentials.clientSecret,
+      keyId,
+    );
+
+    // Only one active credential per clinic
+    await this.supabase
+      .from("ezyvet_credentials")
+      .update({ is_active: false })
+      .eq("clinic_id", clinicId)
+      .eq("is_active", true);
+
+    // Supabase JS client doesn't properly handle binary data, so use hex encoding
+    const { data, error } = await this.supabase
+      .from("ezyvet_credentials")
+      .insert({
+        user_id: userId,
+        clinic_id: clinicId,
+        partner_id: credentials.partnerId,
+        client_id_encrypted: "\\x" + clientIdEncrypted.toString("hex"),
+        client_secret_encrypted: "\\x" + clientSecretEncrypted.toString("hex"),
+        encryption_key_id: keyId,
+        is_active: true,
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store credentials: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error("Failed to store credentials: No data returned");
+    }
+
+    return { id: data.id };
+  }
+
+  /**
+   * Retrieve and decrypt the active ezyVet credentials for a clinic
+   *
+   * @param clinicId - Clinic ID
+   * @returns Decrypted credentials with owning user ID, or null if not found
+   */
+  async getCredentials(
+    clinicId: string,
+  ): Promise<(EzyvetCredentials & { userId: string }) | null> {
+    const { data, error } = await this.supabase
+      .from("ezyvet_credentials")
+      .select("*")
+      .eq("clinic_id", clinicId)
+      .eq("is_active", true)
+      .order("created_at", { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to retrieve credentials: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    const credential = data[0] as unknown as StoredEzyvetCredential;
+
+    try {
+      const clientId = decrypt(
+        parseByteaData(credential.client_id_encrypted),
+        credential.encryption_key_id,
+      );
+      const clientSecret = decrypt(
+        parseByteaData(credential.client_secret_encrypted),
+        credential.encryption_key_id,
+      );
+
+      await this.supabase
+        .from("ezyvet_credentials")
+        .update({ last_used_at: new Date().toISOString() })
+        .eq("id", credential.id);
+
+      return {
+        partnerId: credential.partner_id,
+        clientId,
+        clientSecret,
+        userId: credential.user_id,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`Failed to decrypt credentials: ${errorMessage}`);
+    }
+  }
+}
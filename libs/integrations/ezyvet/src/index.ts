@@ -0,0 +1,12 @@
+/**
+ * @odis-ai/ezyvet
+ *
+ * ezyVet integration library.
+ * Includes credential management and the REST-based PIMS provider
+ * implementation.
+ */
+
+export * from "./credential-manager";
+
+// PIMS provider (also available via @odis-ai/integrations/ezyvet/provider)
+export * from "./provider";
@@ -0,0 +1,172 @@
+/**
+ * ezyVet REST API Client
+ * Authenticated JSON requests with pagination, token refresh and
+ * rate-limit backoff
+ */
+
+import type { EzyvetAuthClient } from "./auth-client";
+import type { EzyvetListResponse } from "./types";
+
+/**
+ * Query parameter value accepted by the ezyVet API.
+ * Objects are JSON-encoded (ezyVet filter syntax, e.g. {"gt": 1700000000}).
+ */
+export type EzyvetQueryValue =
+  string | number | boolean | Record<string, unknown> | Array<string | number>;
+
+export interface EzyvetApiClientOptions {
+  timeout: number;
+  pageSize: number;
+  maxRetries: number;
+}
+
+/**
+ * Error thrown for non-2xx ezyVet responses
+ */
+export class EzyvetApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly path: string,
+  ) {
+    super(message);
+    this.name = "EzyvetApiError";
+  }
+}
+
+/**
+ * Low-level client shared by the schedule and consultation clients
+ */
+export class EzyvetApiClient {
+  constructor(
+    private authClient: EzyvetAuthClient,
+    private baseUrl: string,
+    private options: EzyvetApiClientOptions,
+  ) {}
+
+  /**
+   * GET a single resource
+   */
+  async get<T>(
+    path: string,
+    query: Record<string, EzyvetQueryValue | undefined> = {},
+  ): Promise<T> {
+    return this.request<T>(path, query);
+  }
+
+  /**
+   * GET every page of a list endpoint and unwrap the entity envelope
+   *
+   * @param path - List endpoint path
+   * @param entityKey - Envelope key for each item (e.g. "appointment")
+   * @param query - Filter parameters
+   */
+  async list<TItem, TKey extends string = string>(
+    path: string,
+    entityKey: TKey,
+    query: Record<string, EzyvetQueryValue | undefined> = {},
+  ): Promise<TItem[]> {
+    const results: TItem[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.request<EzyvetListResponse<TKey, TItem>>(
+        path,
+        { ...query, limit: this.options.pageSize, page },
+      );
+
+      for (const item of response.items ?? []) {
+        const entity = item[entityKey];
+        if (entity) {
+          results.push(entity);
+        }
+      }
+
+      totalPages = response.meta?.items_page_total ?? 1;
+      page++;
+    } while (page <= totalPages);
+
+    return results;
+  }
+
+  /**
+   * Perform a request, refreshing the token once on 401 and backing off
+   * on 429/5xx responses
+   */
+  private async request<T>(
+    path: string,
+    query: Record<string, EzyvetQueryValue | undefined>,
+  ): Promise<T> {
+    const url = this.buildUrl(path, query);
+    let tokenRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.authClient.getAccessToken();
+
+      const res = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/json",
+        },
+        signal: AbortSignal.timeout(this.options.timeout),
+      });
+
+      if (res.ok) {
+        return (await res.json()) as T;
+      }
+
+      if (res.status === 401 && !tokenRefreshed) {
+        tokenRefreshed = true;
+        await this.authClient.getAccessToken(true);
+        continue;
+      }
+
+      const retryable = res.status === 429 || res.status >= 500;
+      if (retryable && attempt < this.options.maxRetries) {
+        await sleep(this.getRetryDelayMs(res, attempt));
+        continue;
+      }
+
+      throw new EzyvetApiError(
+        `ezyVet API error: ${res.status} ${res.statusText}`,
+        res.status,
+        path,
+      );
+    }
+  }
+
+  /**
+   * Honour Retry-After when present, otherwise exponential backoff
+   */
+  private getRetryDelayMs(res: Response, attempt: number): number {
+    const retryAfter = res.headers.get("retry-after");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) {
+        return seconds * 1000;
+      }
+    }
+    return Math.min(500 * 2 ** attempt, 8000);
+  }
+
+  private buildUrl(
+    path: string,
+    query: Record<string, EzyvetQueryValue | undefined>,
+  ): string {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined) continue;
+      url.searchParams.set(
+        key,
+        typeof value === "object" ? JSON.stringify(value) : String(value),
+      );
+    }
+    return url.toString();
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
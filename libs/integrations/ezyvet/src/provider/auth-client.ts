@@ -0,0 +1,169 @@
+/**
+ * ezyVet Authentication Client
+ * Handles the OAuth client-credentials grant and token lifetime
+ */
+
+import type { PimsCredentials } from "@odis-ai/shared/types";
+import type { EzyvetAuthState, EzyvetTokenResponse } from "./types";
+import { EZYVET_DEFAULT_SCOPES, EZYVET_ENDPOINTS } from "./types";
+
+/**
+ * Refresh tokens this long before ezyVet says they expire
+ */
+const TOKEN_EXPIRY_SKEW_MS = 60 * 1000;
+
+/**
+ * Map generic PIMS credentials to ezyVet OAuth fields.
+ *
+ * ezyVet credentials are stored as:
+ * - username            → client_id
+ * - password            → client_secret
+ * - companyId           → partner_id
+ * - additionalFields.scope (optional) → space-separated scope override
+ */
+export function toEzyvetOAuthParams(
+  credentials: PimsCredentials,
+): Record<string, string> {
+  const partnerId =
+    credentials.companyId ?? credentials.additionalFields?.partnerId ?? "";
+
+  return {
+    partner_id: partnerId,
+    client_id: credentials.username,
+    client_secret: credentials.password,
+    grant_type: "client_credentials",
+    scope:
+      credentials.additionalFields?.scope ?? EZYVET_DEFAULT_SCOPES.join(" "),
+  };
+}
+
+/**
+ * Authentication client for ezyVet
+ */
+export class EzyvetAuthClient {
+  private authState: EzyvetAuthState = {
+    authenticated: false,
+  };
+  private credentials: PimsCredentials | null = null;
+
+  constructor(
+    private baseUrl: string,
+    private timeout: number,
+  ) {}
+
+  /**
+   * Exchange client credentials for an access token
+   */
+  async authenticate(credentials: PimsCredentials): Promise<boolean> {
+    const params = toEzyvetOAuthParams(credentials);
+
+    if (!params.partner_id || !params.client_id || !params.client_secret) {
+      console.error(
+        "[EzyvetAuthClient] Missing partner_id, client_id or client_secret",
+      );
+      return false;
+    }
+
+    try {
+      const res = await fetch(
+        `${this.baseUrl}${EZYVET_ENDPOINTS.ACCESS_TOKEN}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            Accept: "application/json",
+          },
+          body: new URLSearchParams(params).toString(),
+          signal: AbortSignal.timeout(this.timeout),
+        },
+      );
+
+      if (!res.ok) {
+        console.error(
+          `[EzyvetAuthClient] Token request failed: ${res.status} ${res.statusText}`,
+        );
+        this.clearAuth();
+        return false;
+      }
+
+      const token = (await res.json()) as EzyvetTokenResponse;
+
+      if (!token.access_token) {
+        this.clearAuth();
+        return false;
+      }
+
+      this.credentials = credentials;
+      this.authState = {
+        authenticated: true,
+        accessToken: token.access_token,
+        expiresAt: new Date(Date.now() + token.expires_in * 1000),
+        partnerId: params.partner_id,
+        clientId: params.client_id,
+      };
+
+      return true;
+    } catch (error) {
+      console.error("ezyVet authentication failed:", error);
+      this.clearAuth();
+      return false;
+    }
+  }
+
+  /**
+   * Check if we hold a token that has not expired
+   */
+  isAuthenticated(): boolean {
+    if (!this.authState.authenticated || !this.authState.expiresAt) {
+      return false;
+    }
+    return (
+      this.authState.expiresAt.getTime() - TOKEN_EXPIRY_SKEW_MS > Date.now()
+    );
+  }
+
+  /**
+   * Get a valid access token, re-running the client-credentials grant
+   * when the current token is missing or about to expire.
+   *
+   * @throws Error if no credentials have been provided yet
+   */
+  async getAccessToken(forceRefresh = false): Promise<string> {
+    if (!forceRefresh && this.isAuthenticated() && this.authState.accessToken) {
+      return this.authState.accessToken;
+    }
+
+    if (!this.credentials) {
+      throw new Error("Not authenticated");
+    }
+
+    const refreshed = await this.authenticate(this.credentials);
+    if (!refreshed || !this.authState.accessToken) {
+      throw new Error("ezyVet token refresh failed");
+    }
+
+    return this.authState.accessToken;
+  }
+
+  /**
+   * Get current auth state
+   */
+  getAuthState(): EzyvetAuthState {
+    return { ...this.authState };
+  }
+
+  /**
+   * Clear the current token (credentials are kept for refresh)
+   */
+  clearAuth(): void {
+    this.authState = { authenticated: false };
+  }
+
+  /**
+   * Forget credentials entirely (used on close)
+   */
+  reset(): void {
+    this.clearAuth();
+    this.credentials = null;
+  }
+}
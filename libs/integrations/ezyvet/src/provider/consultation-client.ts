@@ -0,0 +1,103 @@
+/**
+ * ezyVet Consultation Client
+ * Fetches consult records and clinical history via the ezyVet REST API
+ */
+
+import { formatInTimeZone } from "date-fns-tz";
+import type { PimsConsultation } from "@odis-ai/shared/types";
+import { EzyvetApiError, type EzyvetApiClient } from "./api-client";
+import type { EzyvetApiConsult, EzyvetApiHistoryEntry } from "./types";
+import { EZYVET_ENDPOINTS } from "./types";
+
+/**
+ * History entry types that hold discharge instructions
+ */
+const DISCHARGE_ENTRY_TYPES = ["discharge", "discharge note", "client notes"];
+
+/**
+ * Client for fetching consultation data from ezyVet
+ */
+export class EzyvetConsultationClient {
+  constructor(
+    private apiClient: EzyvetApiClient,
+    private timezone: string,
+  ) {}
+
+  /**
+   * Fetch consultation with its history entries
+   *
+   * @returns Consultation, or null when ezyVet has no consult with this ID
+   */
+  async fetchConsultation(
+    consultationId: string,
+  ): Promise<PimsConsultation | null> {
+    let consults: EzyvetApiConsult[];
+    try {
+      consults = await this.apiClient.list<EzyvetApiConsult>(
+        EZYVET_ENDPOINTS.CONSULTS,
+        "consult",
+        { id: consultationId },
+      );
+    } catch (error) {
+      if (error instanceof EzyvetApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const consult = consults[0];
+    if (!consult) {
+      return null;
+    }
+
+    const entries = await this.apiClient.list<EzyvetApiHistoryEntry>(
+      EZYVET_ENDPOINTS.HISTORY_ENTRIES,
+      "historyentry",
+      { consult_id: consultationId },
+    );
+
+    return this.mapConsultation(consult, entries);
+  }
+
+  /**
+   * Map consult + history entries to PimsConsultation
+   */
+  private mapConsultation(
+    consult: EzyvetApiConsult,
+    entries: EzyvetApiHistoryEntry[],
+  ): PimsConsultation {
+    const dischargeEntries: string[] = [];
+    const noteEntries: string[] = [];
+
+    for (const entry of entries) {
+      const value = entry.value?.trim();
+      if (!value) continue;
+
+      const type = entry.type?.trim() ?? "";
+      if (DISCHARGE_ENTRY_TYPES.includes(type.toLowerCase())) {
+        dischargeEntries.push(value);
+      } else {
+        noteEntries.push(type ? `${type}: ${value}` : value);
+      }
+    }
+
+    return {
+      id: String(consult.id),
+      notes: noteEntries.length > 0 ? noteEntries.join("\n\n") : null,
+      dischargeSummary:
+        dischargeEntries.length > 0 ? dischargeEntries.join("\n\n") : null,
+      // ezyVet invoice lines require the billing scopes; not synced yet
+      productsServices: null,
+      declinedProductsServices: null,
+      status: String(consult.finalised) === "1" ? "finalized" : "in_progress",
+      reason: consult.reason ?? null,
+      date: consult.date
+        ? formatInTimeZone(
+            new Date(consult.date * 1000),
+            this.timezone,
+            "yyyy-MM-dd",
+          )
+        : null,
+    };
+  }
+}
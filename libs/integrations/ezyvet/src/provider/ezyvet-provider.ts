@@ -0,0 +1,199 @@
+/**
+ * ezyVet Provider
+ * Implements IPimsProvider interface for ezyVet integration over REST
+ */
+
+import {
+  EZYVET_CAPABILITIES,
+  type IPimsProvider,
+  type PimsCredentials,
+  type PimsAppointment,
+  type PimsConsultation,
+  type PimsScheduleConfig,
+  type PimsWriteCapability,
+} from "@odis-ai/shared/types";
+import { EzyvetApiClient } from "./api-client";
+import { EzyvetAuthClient } from "./auth-client";
+import { EzyvetScheduleClient } from "./schedule-client";
+import { EzyvetConsultationClient } from "./consultation-client";
+import type { EzyvetProviderConfig } from "./types";
+
+/**
+ * ezyVet provider implementation
+ * Handles OAuth authentication, schedule fetching, and consultation retrieval.
+ * Unlike IDEXX Neo this needs no browser - everything goes over the REST API.
+ */
+export class EzyvetProvider implements IPimsProvider {
+  readonly name = "ezyVet";
+
+  /**
+   * Read-only for now: the partner integration only requests read-* scopes,
+   * so bookings for ezyVet clinics go through ODIS holds instead
+   */
+  readonly capabilities: readonly PimsWriteCapability[] = EZYVET_CAPABILITIES;
+
+  private authClient: EzyvetAuthClient;
+  private apiClient: EzyvetApiClient;
+  private scheduleClient: EzyvetScheduleClient;
+  private consultationClient: EzyvetConsultationClient;
+  private baseUrl: string;
+  private debug: boolean;
+
+  constructor(config: EzyvetProviderConfig = {}) {
+    this.baseUrl = (config.baseUrl ?? "https://api.ezyvet.com").replace(
+      /\/$/,
+      "",
+    );
+    this.debug = config.debug ?? false;
+
+    const timeout = config.timeout ?? 30000;
+    const timezone = config.timezone ?? "America/Los_Angeles";
+
+    // Initialize clients
+    this.authClient = new EzyvetAuthClient(this.baseUrl, timeout);
+    this.apiClient = new EzyvetApiClient(this.authClient, this.baseUrl, {
+      timeout,
+      pageSize: Math.min(config.pageSize ?? 200, 200),
+      maxRetries: config.maxRetries ?? 3,
+    });
+    this.scheduleClient = new EzyvetScheduleClient(
+      this.apiClient,
+      timezone,
+      config.businessHours,
+    );
+    this.consultationClient = new EzyvetConsultationClient(
+      this.apiClient,
+      timezone,
+    );
+
+    if (this.debug) {
+      console.log("[EzyvetProvider] Initialized with baseUrl:", this.baseUrl);
+    }
+  }
+
+  /**
+   * Authenticate with ezyVet (OAuth client credentials)
+   */
+  async authenticate(credentials: PimsCredentials): Promise<boolean> {
+    if (this.debug) {
+      console.log("[EzyvetProvider] Authenticating...");
+    }
+
+    const success = await this.authClient.authenticate(credentials);
+
+    if (this.debug) {
+      console.log(
+        "[EzyvetProvider] Authentication:",
+        success ? "SUCCESS" : "FAILED",
+      );
+    }
+
+    return success;
+  }
+
+  /**
+   * Check if currently authenticated
+   */
+  isAuthenticated(): boolean {
+    return this.authClient.isAuthenticated();
+  }
+
+  /**
+   * Fetch schedule configuration
+   */
+  async fetchScheduleConfig(): Promise<PimsScheduleConfig | null> {
+    try {
+      return await this.scheduleClient.fetchScheduleConfig();
+    } catch (error) {
+      if (this.debug) {
+        console.error("[EzyvetProvider] Schedule config error:", error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Fetch appointments for date range
+   */
+  async fetchAppointments(
+    startDate: Date,
+    endDate: Date,
+  ): Promise<PimsAppointment[]> {
+    if (this.debug) {
+      console.log("[EzyvetProvider] Fetching appointments:", {
+        start: startDate.toISOString(),
+        end: endDate.toISOString(),
+      });
+    }
+
+    try {
+      const appointments = await this.scheduleClient.fetchAppointments(
+        startDate,
+        endDate,
+      );
+
+      if (this.debug) {
+        console.log(
+          `[EzyvetProvider] Found ${appointments.length} appointments`,
+        );
+      }
+
+      return appointments;
+    } catch (error) {
+      if (this.debug) {
+        console.error("[EzyvetProvider] Appointments error:", error);
+      }
+      // Rethrow: an empty list would read as a day with no appointments
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch consultation details
+   */
+  async fetchConsultation(
+    consultationId: string,
+  ): Promise<PimsConsultation | null> {
+    if (this.debug) {
+      console.log("[EzyvetProvider] Fetching consultation:", consultationId);
+    }
+
+    try {
+      const consultation =
+        await this.consultationClient.fetchConsultation(consultationId);
+
+      if (this.debug) {
+        console.log(
+          "[EzyvetProvider] Consultation:",
+          consultation ? "FOUND" : "NOT FOUND",
+        );
+      }
+
+      return consultation;
+    } catch (error) {
+      if (this.debug) {
+        console.error("[EzyvetProvider] Consultation error:", error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Cleanup resources
+   * No browser to close; just drop the token and credentials
+   */
+  async close(): Promise<void> {
+    this.authClient.reset();
+  }
+
+  /**
+   * Get provider statistics
+   */
+  getStats() {
+    return {
+      name: this.name,
+      authenticated: this.isAuthenticated(),
+      baseUrl: this.baseUrl,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * @odis-ai/integrations/ezyvet/provider
+ *
+ * ezyVet provider implementation (IPimsProvider)
+ */
+
+export * from "./ezyvet-provider";
+export * from "./auth-client";
+export * from "./api-client";
+export * from "./schedule-client";
+export * from "./consultation-client";
+export * from "./types";
@@ -0,0 +1,416 @@
+/**
+ * ezyVet Schedule Client
+ * Fetches appointments and schedule configuration via the ezyVet REST API
+ */
+
+import { formatInTimeZone } from "date-fns-tz";
+import type {
+  PimsAppointment,
+  PimsScheduleConfig,
+} from "@odis-ai/shared/types";
+import type { EzyvetApiClient } from "./api-client";
+import type {
+  EzyvetApiAnimal,
+  EzyvetApiAppointment,
+  EzyvetApiAppointmentStatus,
+  EzyvetApiAppointmentType,
+  EzyvetApiContact,
+  EzyvetApiContactDetail,
+  EzyvetApiNamedEntity,
+  EzyvetApiResource,
+  EzyvetProviderConfig,
+} from "./types";
+import { EZYVET_CONTACT_DETAIL_TYPES, EZYVET_ENDPOINTS } from "./types";
+
+/**
+ * Max IDs per `{"in": [...]}` filter, keeps URLs well under proxy limits
+ */
+const ID_BATCH_SIZE = 50;
+
+/**
+ * Reference data that rarely changes, cached for the provider's lifetime
+ */
+interface ReferenceData {
+  types: Map<string, EzyvetApiAppointmentType>;
+  statuses: Map<string, string>;
+  resources: Map<string, EzyvetApiResource>;
+  species: Map<string, string>;
+  breeds: Map<string, string>;
+}
+
+/**
+ * Client for fetching schedule data from ezyVet
+ */
+export class EzyvetScheduleClient {
+  private referenceData: ReferenceData | null = null;
+
+  constructor(
+    private apiClient: EzyvetApiClient,
+    private timezone: string,
+    private businessHours: EzyvetProviderConfig["businessHours"],
+  ) {}
+
+  /**
+   * Fetch appointments for date range
+   * Resolves animals, contacts and contact details in batched lookups
+   */
+  async fetchAppointments(
+    startDate: Date,
+    endDate: Date,
+  ): Promise<PimsAppointment[]> {
+    const rawAppointments = await this.apiClient.list<EzyvetApiAppointment>(
+      EZYVET_ENDPOINTS.APPOINTMENTS,
+      "appointment",
+      {
+        active: 1,
+        start_time: {
+          gt: toUnixSeconds(startDate),
+          lt: toUnixSeconds(endDate),
+        },
+      },
+    );
+
+    if (rawAppointments.length === 0) {
+      return [];
+    }
+
+    const reference = await this.getReferenceData();
+
+    const animals = await this.fetchByIds<EzyvetApiAnimal>(
+      EZYVET_ENDPOINTS.ANIMALS,
+      "animal",
+      rawAppointments.map((a) => a.animal_id),
+    );
+
+    const contactIds = rawAppointments.map(
+      (a) =>
+        a.contact_id ??
+        (a.animal_id ? animals.get(a.animal_id)?.contact_id : null),
+    );
+    const contacts = await this.fetchByIds<EzyvetApiContact>(
+      EZYVET_ENDPOINTS.CONTACTS,
+      "contact",
+      contactIds,
+    );
+    const contactDetails = await this.fetchContactDetails(contactIds);
+
+    return rawAppointments.map((appt) =>
+      this.mapApiAppointment(
+        appt,
+        reference,
+        animals,
+        contacts,
+        contactDetails,
+      ),
+    );
+  }
+
+  /**
+   * Build schedule configuration
+   *
+   * ezyVet doesn't expose clinic opening hours, so open/close/days come from
+   * provider config. Slot duration and capacity are derived from ezyVet's
+   * appointment types and bookable resources.
+   */
+  async fetchScheduleConfig(): Promise<PimsScheduleConfig | null> {
+    if (!this.businessHours) {
+      return null;
+    }
+
+    const reference = await this.getReferenceData();
+
+    const activeTypes = Array.from(reference.types.values()).filter((t) =>
+      isActive(t.active),
+    );
+    const activeResources = Array.from(reference.resources.values()).filter(
+      (r) => isActive(r.active),
+    );
+
+    return {
+      openTime: this.businessHours.openTime,
+      closeTime: this.businessHours.closeTime,
+      daysOfWeek: this.businessHours.daysOfWeek,
+      slotDurationMinutes: mostCommonDuration(activeTypes) ?? 15,
+      defaultCapacity: Math.max(activeResources.length, 1),
+      timezone: this.timezone,
+      rawConfig: {
+        appointmentTypes: activeTypes,
+        resources: activeResources,
+      },
+    };
+  }
+
+  /**
+   * Map ezyVet appointment to PimsAppointment
+   */
+  private mapApiAppointment(
+    appt: EzyvetApiAppointment,
+    reference: ReferenceData,
+    animals: Map<string, EzyvetApiAnimal>,
+    contacts: Map<string, EzyvetApiContact>,
+    contactDetails: Map<string, EzyvetApiContactDetail[]>,
+  ): PimsAppointment {
+    const startTime = new Date(appt.start_time * 1000);
+
+    let duration: number | null = null;
+    if (appt.duration) {
+      duration = Math.round(appt.duration / 60);
+    } else if (appt.end_time) {
+      duration = Math.round((appt.end_time - appt.start_time) / 60);
+    }
+
+    const animal = appt.animal_id ? animals.get(appt.animal_id) : undefined;
+    const contactId = appt.contact_id ?? animal?.contact_id ?? null;
+    const contact = contactId ? contacts.get(contactId) : undefined;
+    const details = contactId ? (contactDetails.get(contactId) ?? []) : [];
+
+    const resourceId = appt.resources?.[0]?.id ?? null;
+    const resource = resourceId ? reference.resources.get(resourceId) : null;
+
+    return {
+      id: String(appt.id),
+      consultationId: appt.consult_id ? String(appt.consult_id) : null,
+      date: formatInTimeZone(startTime, this.timezone, "yyyy-MM-dd"),
+      startTime,
+      duration,
+      status:
+        (appt.status_id ? reference.statuses.get(appt.status_id) : null) ??
+        "Scheduled",
+      patient: {
+        id: animal?.id ?? appt.animal_id ?? null,
+        name: animal?.name ?? null,
+        species: animal?.species_id
+          ? (reference.species.get(animal.species_id) ?? null)
+          : null,
+        breed: animal?.breed_id
+          ? (reference.breeds.get(animal.breed_id) ?? null)
+          : null,
+      },
+      client: {
+        id: contactId,
+        name: contact ? formatContactName(contact) : null,
+        phone: pickContactDetail(details, [
+          EZYVET_CONTACT_DETAIL_TYPES.MOBILE,
+          EZYVET_CONTACT_DETAIL_TYPES.PHONE,
+        ]),
+        email: pickContactDetail(details, [EZYVET_CONTACT_DETAIL_TYPES.EMAIL]),
+      },
+      provider: {
+        id: resourceId,
+        name: resource?.name ?? null,
+      },
+      // Appointments with no animal are calendar blocks in ezyVet; mark them
+      // as "block" so they occupy slots and are skipped by case sync
+      type: appt.animal_id
+        ? ((appt.type_id ? reference.types.get(appt.type_id)?.name : null) ??
+          "Appointment")
+        : "block",
+      reason: appt.description ?? null,
+    };
+  }
+
+  /**
+   * Load appointment types, statuses, resources, species and breeds once
+   */
+  private async getReferenceData(): Promise<ReferenceData> {
+    if (this.referenceData) {
+      return this.referenceData;
+    }
+
+    const [types, statuses, resources, species, breeds] = await Promise.all([
+      this.apiClient.list<EzyvetApiAppointmentType>(
+        EZYVET_ENDPOINTS.APPOINTMENT_TYPES,
+        "appointmenttype",
+      ),
+      this.apiClient.list<EzyvetApiAppointmentStatus>(
+        EZYVET_ENDPOINTS.APPOINTMENT_STATUSES,
+        "appointmentstatus",
+      ),
+      this.apiClient.list<EzyvetApiResource>(
+        EZYVET_ENDPOINTS.RESOURCES,
+        "resource",
+      ),
+      this.apiClient.list<EzyvetApiNamedEntity>(
+        EZYVET_ENDPOINTS.SPECIES,
+        "species",
+      ),
+      this.apiClient.list<EzyvetApiNamedEntity>(
+        EZYVET_ENDPOINTS.BREEDS,
+        "breed",
+      ),
+    ]);
+
+    this.referenceData = {
+      types: new Map(types.map((t) => [String(t.id), t])),
+      statuses: new Map(statuses.map((s) => [String(s.id), s.name])),
+      resources: new Map(resources.map((r) => [String(r.id), r])),
+      species: new Map(species.map((s) => [String(s.id), s.name])),
+      breeds: new Map(breeds.map((b) => [String(b.id), b.name])),
+    };
+
+    return this.referenceData;
+  }
+
+  /**
+   * Fetch entities by ID in batches using ezyVet's `{"in": [...]}` filter
+   */
+  private async fetchByIds<T extends { id: string }>(
+    path: string,
+    entityKey: string,
+    ids: Array<string | null | undefined>,
+  ): Promise<Map<string, T>> {
+    const unique = uniqueIds(ids);
+    const result = new Map<string, T>();
+
+    for (let i = 0; i < unique.length; i += ID_BATCH_SIZE) {
+      const batch = unique.slice(i, i + ID_BATCH_SIZE);
+      const items = await this.apiClient.list<T>(path, entityKey, {
+        id: { in: batch },
+      });
+      for (const item of items) {
+        result.set(String(item.id), item);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch contact details (phone/email) grouped by contact ID
+   */
+  private async fetchContactDetails(
+    contactIds: Array<string | null | undefined>,
+  ): Promise<Map<string, EzyvetApiContactDetail[]>> {
+    const unique = uniqueIds(contactIds);
+    const result = new Map<string, EzyvetApiContactDetail[]>();
+
+    for (let i = 0; i < unique.length; i += ID_BATCH_SIZE) {
+      const batch = unique.slice(i, i + ID_BATCH_SIZE);
+      const details = await this.apiClient.list<EzyvetApiContactDetail>(
+        EZYVET_ENDPOINTS.CONTACT_DETAILS,
+        "contactdetail",
+        { active: 1, contact_id: { in: batch } },
+      );
+      for (const detail of details) {
+        const key = String(detail.contact_id);
+        const existing = result.get(key) ?? [];
+        existing.push(detail);
+        result.set(key, existing);
+      }
+    }
+
+    return result;
+  }
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+/**
+ * Convert clinics.business_hours ({ monday: { open, close, closed? }, ... })
+ * into the provider's businessHours config
+ *
+ * Open/close span the earliest opening and latest closing across open days.
+ *
+ * @returns undefined when no day has valid hours
+ */
+export function businessHoursFromClinic(
+  value: unknown,
+): EzyvetProviderConfig["businessHours"] {
+  if (!value || typeof value !== "object") return undefined;
+
+  const hours = value as Record<string, unknown>;
+  const daysOfWeek: number[] = [];
+  let openTime: string | undefined;
+  let closeTime: string | undefined;
+
+  WEEKDAYS.forEach((day, index) => {
+    const entry = hours[day] as
+      { open?: unknown; close?: unknown; closed?: unknown } | undefined;
+    if (!entry || entry.closed === true) return;
+    if (typeof entry.open !== "string" || typeof entry.close !== "string") {
+      return;
+    }
+    const open = entry.open.slice(0, 5);
+    const close = entry.close.slice(0, 5);
+    if (!/^\d{2}:\d{2}$/.test(open) || !/^\d{2}:\d{2}$/.test(close)) return;
+
+    daysOfWeek.push(index);
+    if (!openTime || open < openTime) openTime = open;
+    if (!closeTime || close > closeTime) closeTime = close;
+  });
+
+  if (!openTime || !closeTime) return undefined;
+  return { openTime, closeTime, daysOfWeek };
+}
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * ezyVet returns booleans as "1"/"0" strings or numbers
+ */
+function isActive(value: string | number): boolean {
+  return String(value) === "1";
+}
+
+function uniqueIds(ids: Array<string | null | undefined>): string[] {
+  return Array.from(
+    new Set(ids.filter((id): id is string => !!id).map(String)),
+  );
+}
+
+function formatContactName(contact: EzyvetApiContact): string | null {
+  const name = `${contact.first_name ?? ""} ${contact.last_name ?? ""}`.trim();
+  return name || (contact.business_name ?? null);
+}
+
+/**
+ * Pick the preferred contact detail of the first matching type
+ */
+function pickContactDetail(
+  details: EzyvetApiContactDetail[],
+  typeIds: string[],
+): string | null {
+  for (const typeId of typeIds) {
+    const matching = details.filter(
+      (d) => String(d.contact_detail_type_id) === typeId,
+    );
+    const preferred = matching.find((d) => String(d.preferred) === "1");
+    const value = (preferred ?? matching[0])?.value;
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function mostCommonDuration(types: EzyvetApiAppointmentType[]): number | null {
+  const counts = new Map<number, number>();
+  for (const type of types) {
+    if (type.default_duration) {
+      counts.set(
+        type.default_duration,
+        (counts.get(type.default_duration) ?? 0) + 1,
+      );
+    }
+  }
+
+  let best: number | null = null;
+  let bestCount = 0;
+  for (const [duration, count] of counts) {
+    if (count > bestCount || (count === bestCount && duration < (best ?? 0))) {
+      best = duration;
+      bestCount = count;
+    }
+  }
+  return best;
+}
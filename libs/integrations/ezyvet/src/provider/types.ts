@@ -0,0 +1,225 @@
+/**
+ * ezyVet Provider types and configuration
+ */
+
+/**
+ * ezyVet Provider configuration
+ */
+export interface EzyvetProviderConfig {
+  /**
+   * ezyVet API base URL
+   * @default 'https://api.ezyvet.com'
+   */
+  baseUrl?: string;
+
+  /**
+   * Clinic IANA timezone, used to derive appointment dates from
+   * ezyVet's unix timestamps
+   * @default 'America/Los_Angeles'
+   */
+  timezone?: string;
+
+  /**
+   * Request timeout in milliseconds
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * Page size for list endpoints (ezyVet caps this at 200)
+   * @default 200
+   */
+  pageSize?: number;
+
+  /**
+   * Maximum retries for rate-limited (429) and 5xx responses
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Business hours used for fetchScheduleConfig.
+   * ezyVet does not expose opening hours over the API, so these are
+   * combined with appointment types and resources fetched from ezyVet.
+   */
+  businessHours?: {
+    openTime: string; // HH:mm
+    closeTime: string; // HH:mm
+    daysOfWeek: number[]; // 0=Sunday ... 6=Saturday
+  };
+
+  /**
+   * Enable debug logging
+   * @default false
+   */
+  debug?: boolean;
+}
+
+/**
+ * ezyVet OAuth token state
+ */
+export interface EzyvetAuthState {
+  authenticated: boolean;
+  accessToken?: string;
+  expiresAt?: Date;
+  partnerId?: string;
+  clientId?: string;
+}
+
+/**
+ * ezyVet API endpoints (v1 REST API)
+ */
+export const EZYVET_ENDPOINTS = {
+  /**
+   * OAuth client-credentials token endpoint
+   * Body: partner_id, client_id, client_secret, grant_type, scope
+   */
+  ACCESS_TOKEN: "/v1/oauth/access_token",
+  /**
+   * Appointments list - filter with start_time={"gt":ts,"lt":ts} (unix seconds)
+   */
+  APPOINTMENTS: "/v1/appointment",
+  APPOINTMENT_TYPES: "/v1/appointmenttype",
+  APPOINTMENT_STATUSES: "/v1/appointmentstatus",
+  RESOURCES: "/v1/resource",
+  ANIMALS: "/v1/animal",
+  CONTACTS: "/v1/contact",
+  CONTACT_DETAILS: "/v1/contactdetail",
+  SPECIES: "/v1/species",
+  BREEDS: "/v1/breed",
+  CONSULTS: "/v1/consult",
+  /**
+   * Clinical history entries - filter with consult_id
+   */
+  HISTORY_ENTRIES: "/v1/historyentry",
+} as const;
+
+/**
+ * Scopes requested for the client-credentials grant
+ */
+export const EZYVET_DEFAULT_SCOPES = [
+  "read-appointment",
+  "read-appointmenttype",
+  "read-appointmentstatus",
+  "read-resource",
+  "read-animal",
+  "read-contact",
+  "read-contactdetail",
+  "read-species",
+  "read-breed",
+  "read-consult",
+  "read-historyentry",
+] as const;
+
+/**
+ * Standard ezyVet list response envelope.
+ * Each item is wrapped in an object keyed by the entity name,
+ * e.g. `{ appointment: {...} }`.
+ */
+export interface EzyvetListResponse<TKey extends string, TItem> {
+  meta: {
+    items_total: number;
+    items_page_total: number;
+    items_page_size: number;
+    items_page: number;
+  };
+  messages?: Array<{ level: string; text: string }>;
+  items: Array<Record<TKey, TItem>>;
+}
+
+/**
+ * ezyVet OAuth token response
+ */
+export interface EzyvetTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number; // seconds
+}
+
+export interface EzyvetApiAppointment {
+  id: string;
+  active: string | number;
+  start_time: number; // unix seconds
+  end_time?: number | null;
+  duration?: number | null; // seconds
+  description?: string | null;
+  consult_id?: string | null;
+  animal_id?: string | null;
+  contact_id?: string | null;
+  type_id?: string | null;
+  status_id?: string | null;
+  resources?: Array<{ id: string }>;
+  user_id?: string | null;
+}
+
+export interface EzyvetApiAppointmentType {
+  id: string;
+  active: string | number;
+  name: string;
+  default_duration?: number | null; // minutes
+}
+
+export interface EzyvetApiAppointmentStatus {
+  id: string;
+  name: string;
+}
+
+export interface EzyvetApiResource {
+  id: string;
+  active: string | number;
+  name: string;
+  type?: string | null;
+}
+
+export interface EzyvetApiAnimal {
+  id: string;
+  name: string;
+  species_id?: string | null;
+  breed_id?: string | null;
+  contact_id?: string | null;
+}
+
+export interface EzyvetApiContact {
+  id: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  business_name?: string | null;
+}
+
+export interface EzyvetApiContactDetail {
+  id: string;
+  contact_id: string;
+  contact_detail_type_id: string;
+  value: string;
+  preferred?: string | number;
+}
+
+export interface EzyvetApiNamedEntity {
+  id: string;
+  name: string;
+}
+
+export interface EzyvetApiConsult {
+  id: string;
+  animal_id?: string | null;
+  date?: number | null; // unix seconds
+  finalised?: string | number;
+  reason?: string | null;
+}
+
+export interface EzyvetApiHistoryEntry {
+  id: string;
+  consult_id: string;
+  type?: string | null; // e.g. "Subjective", "Plan", "Discharge Note"
+  value?: string | null;
+}
+
+/**
+ * ezyVet contact detail type IDs
+ * (1 = Phone, 2 = Mobile, 3 = Email in the default ezyVet configuration)
+ */
+export const EZYVET_CONTACT_DETAIL_TYPES = {
+  PHONE: "1",
+  MOBILE: "2",
+  EMAIL: "3",
+} as const;
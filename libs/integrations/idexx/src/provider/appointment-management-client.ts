@@ -15,6 +15,7 @@ import type {
   IdexxAppointmentCreateFormData,
   IdexxAppointmentResponse,
   CancelAppointmentInput,
+  ConfirmAppointmentInput,
   IdexxAppointmentViewData,
   IdexxAppointmentDetails,
   GetAppointmentResult,
@@ -46,6 +47,13 @@ const APPOINTMENT_ENDPOINTS = {
    */
   DELETE_APPOINTMENT: "/appointments/delete",
 
+  /**
+   * Appointment status update endpoint
+   * POST /appointments/updateStatus/{id} with {"status": "Confirmed", "note": "..."}
+   * Based on expected API structure (to be confirmed via discovery)
+   */
+  UPDATE_APPOINTMENT_STATUS: "/appointments/updateStatus",
+
   /**
    * Get single appointment details
    */
@@ -809,6 +817,87 @@ export class IdexxAppointmentManagementClient {
     }
   }
 
+  /**
+   * Create a standalone client record
+   */
+  async createNewClient(
+    clientData: NonNullable<CreateAppointmentInput["newClient"]>,
+  ): Promise<AppointmentOperationResult> {
+    return this.withAuthenticatedPage("create-client", async (page) => {
+      const result = await this.createClient(page, clientData);
+      return result.success
+        ? { success: true, clientId: result.clientId }
+        : {
+            success: false,
+            error: {
+              code: "client_creation_failed",
+              message: result.error?.message ?? "Failed to create client",
+              details: result.error,
+            },
+          };
+    });
+  }
+
+  /**
+   * Create a standalone patient record under an existing client
+   */
+  async createNewPatient(
+    patientData: NonNullable<CreateAppointmentInput["newPatient"]>,
+    clientId: string,
+  ): Promise<AppointmentOperationResult> {
+    return this.withAuthenticatedPage("create-patient", async (page) => {
+      const result = await this.createPatient(page, patientData, clientId);
+      return result.success
+        ? { success: true, clientId, patientId: result.patientId }
+        : {
+            success: false,
+            error: {
+              code: "patient_creation_failed",
+              message: result.error?.message ?? "Failed to create patient",
+              details: result.error,
+            },
+          };
+    });
+  }
+
+  /**
+   * Run an operation on an authenticated page at the IDEXX domain
+   */
+  private async withAuthenticatedPage(
+    name: string,
+    operation: (page: Page) => Promise<AppointmentOperationResult>,
+  ): Promise<AppointmentOperationResult> {
+    if (!this.authClient.isAuthenticated()) {
+      throw new Error("Not authenticated");
+    }
+
+    const { page } = await this.browserService.createPage(name);
+
+    try {
+      await this.authClient.applyAuth(page);
+
+      await page.goto(this.baseUrl, {
+        waitUntil: "domcontentloaded",
+        timeout: 15000,
+      });
+
+      return await operation(page);
+    } catch (error) {
+      console.error(`Failed to ${name.replace("-", " ")}:`, error);
+      return {
+        success: false,
+        error: {
+          code: "api_error",
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          details: error,
+        },
+      };
+    } finally {
+      await page.close();
+    }
+  }
+
   /**
    * Create a new client
    */
@@ -1169,4 +1258,60 @@ export class IdexxAppointmentManagementClient {
       await page.close();
     }
   }
+
+  /* ========================================
+     Appointment Confirmation Methods
+     ======================================== */
+
+  /**
+   * Mark an appointment as confirmed
+   * Endpoint: POST /appointments/updateStatus/{id}
+   * Body: { "status": "Confirmed", "note": "..." }
+   *
+   * Not yet advertised as a provider capability: the endpoint hasn't been
+   * confirmed by discovery against a live IDEXX Neo account.
+   */
+  async confirmAppointment(
+    input: ConfirmAppointmentInput,
+  ): Promise<AppointmentOperationResult> {
+    return this.withAuthenticatedPage("confirm-appointment", async (page) => {
+      const url = `${this.baseUrl}${APPOINTMENT_ENDPOINTS.UPDATE_APPOINTMENT_STATUS}/${input.appointmentId}`;
+
+      logger.debug("Confirming appointment", {
+        appointmentId: input.appointmentId,
+      });
+
+      const response = await idexxFetch(page, url, {
+        method: "POST",
+        body: {
+          status: "Confirmed",
+          note: input.note ?? "Confirmed via reminder call",
+        },
+        csrfToken: await extractCsrfToken(page),
+      });
+
+      if (!response.ok) {
+        logger.error("Appointment confirmation failed", {
+          appointmentId: input.appointmentId,
+          status: response.status,
+          errorData: response.data,
+        });
+
+        return {
+          success: false,
+          error: {
+            code: String(response.status),
+            message: response.statusText || "Failed to confirm appointment",
+            details: response.data,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        appointmentId: input.appointmentId,
+        message: "Appointment confirmed successfully",
+      };
+    });
+  }
 }
@@ -3,62 +3,24 @@
  * Types for creating, searching, and managing appointments
  */
 
+import type {
+  PimsCancelAppointmentInput,
+  PimsConfirmAppointmentInput,
+  PimsCreateAppointmentInput,
+  PimsPatientSearchParams,
+  PimsWriteResult,
+} from "@odis-ai/shared/types";
+
 /**
  * Input for creating a new appointment
+ * Same shape as the generic PIMS input so IdexxProvider satisfies IPimsProvider
  */
-export interface CreateAppointmentInput {
-  // Existing patient workflow
-  patientId?: string; // For existing patients
-  patientName?: string; // For lookup or new patients
-  clientName?: string; // Owner name
-  clientId?: string; // For existing clients
-
-  // New client/patient data (if creating new)
-  newClient?: {
-    firstName: string;
-    lastName: string;
-    phone: string;
-    email?: string;
-    address?: string;
-    city?: string;
-    state?: string;
-    zipCode?: string;
-  };
-  newPatient?: {
-    name: string;
-    species: string;
-    breed?: string;
-    age?: string;
-    color?: string;
-    sex?: string;
-    weight?: string;
-  };
-
-  // Appointment details
-  providerId?: string;
-  providerName?: string;
-  reason: string;
-  date: string; // YYYY-MM-DD
-  startTime: string; // HH:MM format
-  endTime: string; // HH:MM format
-  roomId?: string;
-  note?: string;
-  appointmentTypeId?: string; // If IDEXX requires appointment type
-}
+export type CreateAppointmentInput = PimsCreateAppointmentInput;
 
 /**
  * Result of an appointment operation (create, update, cancel)
  */
-export interface AppointmentOperationResult {
-  success: boolean;
-  appointmentId?: string;
-  message?: string;
-  error?: {
-    code: string;
-    message: string;
-    details?: unknown;
-  };
-}
+export type AppointmentOperationResult = PimsWriteResult;
 
 /**
  * IDEXX patient search result
@@ -123,10 +85,7 @@ export interface IdexxRoom {
 /**
  * Search patient parameters
  */
-export interface SearchPatientParams {
-  query: string; // Name or ID
-  limit?: number; // Max results to return
-}
+export type SearchPatientParams = PimsPatientSearchParams;
 
 /**
  * Patient search result wrapper
@@ -189,13 +148,16 @@ export interface AppointmentSearchOptions {
 /**
  * Cancel appointment input
  */
-export interface CancelAppointmentInput {
-  appointmentId: string;
+export interface CancelAppointmentInput extends PimsCancelAppointmentInput {
   /** Cancel action: "cancel" for soft cancel (recommended), "delete" for hard delete */
   action?: "cancel" | "delete";
-  reason?: string;
 }
 
+/**
+ * Confirm appointment input
+ */
+export type ConfirmAppointmentInput = PimsConfirmAppointmentInput;
+
 /**
  * IDEXX appointment view data (lookup data)
  * Response from GET /appointments/getAppointmentView
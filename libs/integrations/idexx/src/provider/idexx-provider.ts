@@ -3,11 +3,16 @@
  * Implements IPimsProvider interface for IDEXX Neo integration
  */
 
-import type {
-  IPimsProvider,
-  PimsCredentials,
-  PimsAppointment,
-  PimsConsultation,
+import {
+  IDEXX_NEO_CAPABILITIES,
+  type IPimsProvider,
+  type PimsCredentials,
+  type PimsAppointment,
+  type PimsConsultation,
+  type PimsCreatePatientInput,
+  type PimsNewClient,
+  type PimsRescheduleAppointmentInput,
+  type PimsWriteCapability,
 } from "@odis-ai/shared/types";
 import { type BrowserService } from "../browser/browser-service";
 import { BrowserPool } from "../browser/browser-pool";
@@ -22,15 +27,20 @@ import type {
   SearchPatientParams,
   PatientSearchResult,
   CancelAppointmentInput,
+  ConfirmAppointmentInput,
 } from "./appointment-management-types";
 
 /**
  * IDEXX Neo provider implementation
- * Handles authentication, schedule fetching, and consultation retrieval
+ * Handles authentication, schedule fetching, consultation retrieval and
+ * appointment write-back
  */
 export class IdexxProvider implements IPimsProvider {
   readonly name = "IDEXX Neo";
 
+  readonly capabilities: readonly PimsWriteCapability[] =
+    IDEXX_NEO_CAPABILITIES;
+
   private browserService: BrowserService;
   private browserPool: BrowserPool;
   private authClient: IdexxAuthClient;
@@ -144,7 +154,8 @@ export class IdexxProvider implements IPimsProvider {
       if (this.debug) {
         console.error("[IdexxProvider] Appointments error:", error);
       }
-      return [];
+      // Rethrow: an empty list would read as a day with no appointments
+      throw error;
     }
   }
 
@@ -244,10 +255,15 @@ export class IdexxProvider implements IPimsProvider {
 
   /**
    * Create appointment for existing patient
+   * Without a patientId, new client/patient details create both first.
    */
   async createAppointment(
     input: CreateAppointmentInput,
   ): Promise<AppointmentOperationResult> {
+    if (!input.patientId && input.newClient && input.newPatient) {
+      return this.createAppointmentWithNewClient(input);
+    }
+
     if (this.debug) {
       console.log("[IdexxProvider] Creating appointment:", {
         patientId: input.patientId,
@@ -370,6 +386,161 @@ export class IdexxProvider implements IPimsProvider {
     }
   }
 
+  /**
+   * Reschedule an appointment
+   * IDEXX has no move endpoint, so this cancels the original and books the
+   * new time. If the create fails the original stays cancelled and the
+   * error carries `cancelledAppointmentId` for manual follow-up.
+   */
+  async rescheduleAppointment(
+    input: PimsRescheduleAppointmentInput,
+  ): Promise<AppointmentOperationResult> {
+    const { appointmentId, cancelReason, ...newAppointment } = input;
+
+    const cancelResult = await this.cancelAppointment({
+      appointmentId,
+      action: "cancel",
+      reason: cancelReason ?? "Rescheduled",
+    });
+
+    if (!cancelResult.success) {
+      return {
+        success: false,
+        error: {
+          code: "reschedule_cancel_failed",
+          message:
+            cancelResult.error?.message ??
+            "Failed to cancel original appointment",
+          details: cancelResult.error,
+        },
+      };
+    }
+
+    const createResult = await this.createAppointment(newAppointment);
+
+    if (!createResult.success) {
+      return {
+        success: false,
+        error: {
+          code: "reschedule_create_failed",
+          message:
+            createResult.error?.message ?? "Failed to create new appointment",
+          details: {
+            cancelledAppointmentId: appointmentId,
+            error: createResult.error,
+          },
+        },
+      };
+    }
+
+    return createResult;
+  }
+
+  /**
+   * Mark an appointment as confirmed by the client
+   */
+  async confirmAppointment(
+    input: ConfirmAppointmentInput,
+  ): Promise<AppointmentOperationResult> {
+    if (this.debug) {
+      console.log("[IdexxProvider] Confirming appointment:", {
+        appointmentId: input.appointmentId,
+      });
+    }
+
+    try {
+      const result = await this.appointmentMgmtClient.confirmAppointment(input);
+
+      if (this.debug) {
+        console.log("[IdexxProvider] Appointment confirmation result:", {
+          success: result.success,
+          error: result.error,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      if (this.debug) {
+        console.error("[IdexxProvider] Appointment confirmation error:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "provider_error",
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a client record
+   */
+  async createClient(
+    input: PimsNewClient,
+  ): Promise<AppointmentOperationResult> {
+    if (this.debug) {
+      console.log("[IdexxProvider] Creating client:", {
+        clientName: `${input.firstName} ${input.lastName}`,
+      });
+    }
+
+    try {
+      return await this.appointmentMgmtClient.createNewClient(input);
+    } catch (error) {
+      if (this.debug) {
+        console.error("[IdexxProvider] Client creation error:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "provider_error",
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a patient record under an existing client
+   */
+  async createPatient(
+    input: PimsCreatePatientInput,
+  ): Promise<AppointmentOperationResult> {
+    const { clientId, ...patient } = input;
+
+    if (this.debug) {
+      console.log("[IdexxProvider] Creating patient:", {
+        clientId,
+        patientName: patient.name,
+      });
+    }
+
+    try {
+      return await this.appointmentMgmtClient.createNewPatient(
+        patient,
+        clientId,
+      );
+    } catch (error) {
+      if (this.debug) {
+        console.error("[IdexxProvider] Patient creation error:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "provider_error",
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          details: error,
+        },
+      };
+    }
+  }
+
   /**
    * Restore session from cached cookies
    * @param cookiesJson - JSON stringified array of cookies
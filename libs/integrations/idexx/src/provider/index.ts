@@ -26,6 +26,7 @@ export {
   type IdexxAppointmentResponse,
   type AppointmentSearchOptions,
   type CancelAppointmentInput,
+  type ConfirmAppointmentInput,
   type IdexxAppointmentViewData,
   type IdexxAppointmentDetails,
   type GetAppointmentResult,
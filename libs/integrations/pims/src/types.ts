@@ -192,6 +192,9 @@ export interface IPimsProvider {
   /** Replace the current note content with a template */
   applyTemplate(template: string): Promise<boolean>;
 
+  /** Revert the last insertNote/applyTemplate, if the editor is still open */
+  undoLastInsert?(): Promise<boolean>;
+
   // ============================================
   // Lifecycle
   // ============================================
@@ -25,6 +25,33 @@ export function getPrimaryPhone(phones: PimsPhone[]): PimsPhone | undefined {
   return phones[0];
 }
 
+/**
+ * Get the phone number to text for a client
+ *
+ * Prefers numbers the PIMS marks as SMS-capable, then mobile numbers when
+ * the PIMS doesn't track SMS capability. Landlines are never returned.
+ */
+export function getSmsCapablePhone(client: PimsClient): PimsPhone | undefined {
+  const flagged = client.phones.filter((p) => p.canReceiveSms);
+  if (flagged.length > 0) return getPrimaryPhone(flagged);
+
+  const tracksSms = client.phones.some((p) => p.canReceiveSms !== undefined);
+  if (tracksSms) return undefined;
+
+  const mobiles = client.phones.filter((p) => p.type === "mobile");
+  return mobiles.length > 0 ? getPrimaryPhone(mobiles) : undefined;
+}
+
+/**
+ * Whether a client should be reached by text rather than a call
+ */
+export function prefersSms(client: PimsClient): boolean {
+  return (
+    client.preferredContactMethod === "sms" &&
+    getSmsCapablePhone(client) !== undefined
+  );
+}
+
 /**
  * Format a phone number for display
  */
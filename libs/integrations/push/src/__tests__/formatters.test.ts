@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { formatPushNotification } from "../formatters";
+
+describe("formatPushNotification", () => {
+  it("sends emergencies to the emergencies channel", () => {
+    const content = formatPushNotification("emergency_triage", {
+      clinicName: "Alum Rock",
+      urgency: "critical",
+      petName: "Max",
+      symptoms: "Collapsed, pale gums",
+      phone: "+15555550100",
+      messageId: "message-1",
+    });
+
+    expect(content).toEqual({
+      title: "Critical emergency: Max",
+      body: "Collapsed, pale gums\nCaller: +15555550100",
+      priority: "high",
+      channelId: "emergencies",
+      data: { type: "emergency_triage", messageId: "message-1" },
+    });
+  });
+
+  it("sends monitor-level triage at default priority", () => {
+    const content = formatPushNotification("emergency_triage", {
+      clinicName: "Alum Rock",
+      urgency: "monitor",
+      petName: "Max",
+      symptoms: "Scratching",
+    });
+
+    expect(content.title).toBe("Triage: Max");
+    expect(content.priority).toBe("default");
+  });
+
+  it("links attention cases to the case", () => {
+    const content = formatPushNotification("attention_case", {
+      clinicName: "Alum Rock",
+      severity: "urgent",
+      direction: "outbound",
+      attentionTypes: ["health_concern", "callback_request"],
+      petName: "Max",
+      ownerName: "Jane",
+      caseId: "case-1",
+    });
+
+    expect(content).toMatchObject({
+      title: "Urgent outbound call: Max (Jane)",
+      body: "health concern, callback request",
+      priority: "default",
+      channelId: "attention",
+      data: { type: "attention_case", url: "/(app)/cases/case-1" },
+    });
+  });
+
+  it("describes failed calls by ended reason", () => {
+    const content = formatPushNotification("call_failed", {
+      clinicName: "Alum Rock",
+      petName: "Max",
+      endedReason: "customer-did-not-answer",
+    });
+
+    expect(content).toMatchObject({
+      title: "Discharge call failed: Max",
+      body: "Owner not reached (customer did not answer)",
+      channelId: "attention",
+      data: { type: "call_failed", url: undefined },
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  isShiftActive,
+  selectPushRecipients,
+  type PushSubscriber,
+} from "../recipients";
+
+// Tuesday 2026-03-10, 23:30 UTC
+const TUESDAY_NIGHT = new Date("2026-03-10T23:30:00Z");
+// Wednesday 2026-03-11, 06:00 UTC
+const WEDNESDAY_MORNING = new Date("2026-03-11T06:00:00Z");
+
+const overnightShift = {
+  userId: "vet-1",
+  dayOfWeek: 2,
+  startTime: "18:00:00",
+  endTime: "08:00:00",
+};
+
+describe("isShiftActive", () => {
+  it("covers both sides of midnight for overnight shifts", () => {
+    expect(isShiftActive(overnightShift, TUESDAY_NIGHT, "UTC")).toBe(true);
+    expect(isShiftActive(overnightShift, WEDNESDAY_MORNING, "UTC")).toBe(true);
+    expect(
+      isShiftActive(overnightShift, new Date("2026-03-11T12:00:00Z"), "UTC"),
+    ).toBe(false);
+  });
+
+  it("evaluates the shift in the clinic's timezone", () => {
+    const dayShift = {
+      userId: "vet-1",
+      dayOfWeek: 2,
+      startTime: "09:00",
+      endTime: "17:00",
+    };
+    // 23:30 UTC is 16:30 in Los Angeles (PDT)
+    expect(isShiftActive(dayShift, TUESDAY_NIGHT, "America/Los_Angeles")).toBe(
+      true,
+    );
+    expect(isShiftActive(dayShift, TUESDAY_NIGHT, "UTC")).toBe(false);
+  });
+});
+
+describe("selectPushRecipients", () => {
+  const subscribers: PushSubscriber[] = [
+    {
+      userId: "vet-1",
+      notificationTypes: ["emergency_triage", "attention_case"],
+      onlyWhenOnCall: true,
+    },
+    {
+      userId: "manager",
+      notificationTypes: ["attention_case", "call_failed"],
+      onlyWhenOnCall: false,
+    },
+    {
+      userId: "vet-2",
+      notificationTypes: ["emergency_triage"],
+      onlyWhenOnCall: true,
+    },
+  ];
+
+  it("filters by notification type and on-call status", () => {
+    expect(
+      selectPushRecipients(
+        "attention_case",
+        subscribers,
+        [overnightShift],
+        TUESDAY_NIGHT,
+        "UTC",
+      ),
+    ).toEqual(["vet-1", "manager"]);
+
+    expect(
+      selectPushRecipients(
+        "attention_case",
+        subscribers,
+        [overnightShift],
+        new Date("2026-03-11T12:00:00Z"),
+        "UTC",
+      ),
+    ).toEqual(["manager"]);
+  });
+
+  it("sends emergencies to every interested subscriber when nobody is on call", () => {
+    expect(
+      selectPushRecipients(
+        "emergency_triage",
+        subscribers,
+        [],
+        TUESDAY_NIGHT,
+        "UTC",
+      ),
+    ).toEqual(["vet-1", "vet-2"]);
+  });
+
+  it("does not fall back for non-emergency types", () => {
+    expect(
+      selectPushRecipients(
+        "attention_case",
+        subscribers.filter((s) => s.onlyWhenOnCall),
+        [],
+        TUESDAY_NIGHT,
+        "UTC",
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Push Client Factory
+ *
+ * Picks the push provider from the environment:
+ * - PUSH_PROVIDER=fake, or outside production without PUSH_PROVIDER=expo:
+ *   FakePushClient
+ * - Otherwise: ExpoPushClient (EXPO_ACCESS_TOKEN when push security is on)
+ */
+
+import { ExpoPushClient } from "./expo-client";
+import { FakePushClient } from "./fake-client";
+import type { IPushClient } from "./push-client.interface";
+
+let pushClient: IPushClient | null = null;
+
+/**
+ * Get the configured push client (created once per process)
+ */
+export function getPushClient(): IPushClient {
+  if (pushClient) return pushClient;
+
+  const provider = process.env.PUSH_PROVIDER?.trim();
+  const useFake =
+    provider === "fake" ||
+    (provider !== "expo" && process.env.NODE_ENV !== "production");
+
+  if (useFake) {
+    console.warn(
+      "[PUSH_CLIENT] Using fake push provider - notifications are not sent",
+    );
+    pushClient = new FakePushClient();
+    return pushClient;
+  }
+
+  pushClient = new ExpoPushClient({
+    accessToken: process.env.EXPO_ACCESS_TOKEN?.trim(),
+  });
+  return pushClient;
+}
+
+/**
+ * Override the push client (tests, scripts)
+ */
+export function setPushClient(client: IPushClient | null): void {
+  pushClient = client;
+}
@@ -0,0 +1,249 @@
+/**
+ * Push Notification Service
+ *
+ * Fans a clinic event out to the mobile devices of users subscribed to
+ * the clinic, filtered by their preferences and on-call shifts. Tokens the
+ * provider reports as unregistered are disabled.
+ *
+ * @example
+ * ```ts
+ * import { notifyPush } from '@odis-ai/integrations/push';
+ *
+ * notifyPush('emergency_triage', {
+ *   clinicName: 'Alum Rock',
+ *   urgency: 'critical',
+ *   petName: 'Max',
+ *   symptoms: 'Collapsed, pale gums',
+ * }, { clinicId });
+ * ```
+ */
+
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import { loggers } from "@odis-ai/shared/logger";
+import { getPushClient } from "./client";
+import { formatPushNotification, type PushContent } from "./formatters";
+import type { IPushClient } from "./push-client.interface";
+import { selectPushRecipients } from "./recipients";
+import type {
+  PushNotificationType,
+  PushPayloadMap,
+  SendPushOptions,
+  SendPushResult,
+} from "./types";
+
+const logger = loggers.webhook.child("push-notifications");
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+/**
+ * A registered device to deliver to
+ */
+export interface PushDeviceTarget {
+  id: string;
+  token: string;
+}
+
+/**
+ * Result of delivering one notification to a set of devices
+ */
+export interface DeviceDeliveryResult {
+  delivered: number;
+  failed: number;
+  /** Devices whose token the provider no longer recognizes */
+  unregisteredDeviceIds: string[];
+}
+
+/**
+ * Send one notification to each device
+ */
+export async function deliverToDevices(
+  client: IPushClient,
+  devices: PushDeviceTarget[],
+  content: PushContent,
+): Promise<DeviceDeliveryResult> {
+  if (devices.length === 0) {
+    return { delivered: 0, failed: 0, unregisteredDeviceIds: [] };
+  }
+
+  const tickets = await client.send(
+    devices.map((device) => ({ ...content, to: device.token })),
+  );
+
+  const result: DeviceDeliveryResult = {
+    delivered: 0,
+    failed: 0,
+    unregisteredDeviceIds: [],
+  };
+
+  tickets.forEach((ticket, index) => {
+    const device = devices[index];
+    if (!device) return;
+
+    if (ticket.status === "ok") {
+      result.delivered++;
+      return;
+    }
+
+    result.failed++;
+    if (ticket.deviceNotRegistered) {
+      result.unregisteredDeviceIds.push(device.id);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Send a push notification to a clinic's subscribed users
+ *
+ * @param type - Notification type (checked against each user's preferences)
+ * @param data - Notification payload (type-checked based on notification type)
+ * @param options - Clinic whose subscribers are notified
+ */
+export async function sendPushNotification<T extends PushNotificationType>(
+  type: T,
+  data: PushPayloadMap[T],
+  options: SendPushOptions,
+): Promise<SendPushResult> {
+  const empty = { recipients: 0, delivered: 0, disabledDevices: 0 };
+
+  try {
+    const supabase = await createServiceClient();
+
+    const [clinicResult, subscriptionsResult, shiftsResult] = await Promise.all(
+      [
+        supabase
+          .from("clinics")
+          .select("timezone")
+          .eq("id", options.clinicId)
+          .maybeSingle(),
+        supabase
+          .from("push_notification_subscriptions")
+          .select("user_id, notification_types, only_when_on_call")
+          .eq("clinic_id", options.clinicId)
+          .eq("is_enabled", true),
+        supabase
+          .from("on_call_shifts")
+          .select("user_id, day_of_week, start_time, end_time")
+          .eq("clinic_id", options.clinicId),
+      ],
+    );
+
+    if (subscriptionsResult.error) {
+      throw new Error(
+        `Failed to load push subscriptions: ${subscriptionsResult.error.message}`,
+      );
+    }
+    if (shiftsResult.error) {
+      throw new Error(
+        `Failed to load on-call shifts: ${shiftsResult.error.message}`,
+      );
+    }
+
+    type SubscriptionRow = NonNullable<typeof subscriptionsResult.data>[number];
+    type ShiftRow = NonNullable<typeof shiftsResult.data>[number];
+
+    const recipientIds = selectPushRecipients(
+      type,
+      (subscriptionsResult.data ?? []).map((row: SubscriptionRow) => ({
+        userId: row.user_id,
+        notificationTypes: row.notification_types,
+        onlyWhenOnCall: row.only_when_on_call,
+      })),
+      (shiftsResult.data ?? []).map((row: ShiftRow) => ({
+        userId: row.user_id,
+        dayOfWeek: row.day_of_week,
+        startTime: row.start_time,
+        endTime: row.end_time,
+      })),
+      new Date(),
+      clinicResult.data?.timezone ?? DEFAULT_TIMEZONE,
+    );
+
+    if (recipientIds.length === 0) {
+      logger.debug("No push recipients", { type, clinicId: options.clinicId });
+      return { ok: true, ...empty };
+    }
+
+    const { data: devices, error: devicesError } = await supabase
+      .from("push_devices")
+      .select("id, token")
+      .in("user_id", recipientIds)
+      .is("disabled_at", null);
+
+    if (devicesError) {
+      throw new Error(`Failed to load push devices: ${devicesError.message}`);
+    }
+
+    const delivery = await deliverToDevices(
+      getPushClient(),
+      devices ?? [],
+      formatPushNotification(type, data),
+    );
+
+    if (delivery.unregisteredDeviceIds.length > 0) {
+      const { error: disableError } = await supabase
+        .from("push_devices")
+        .update({
+          disabled_at: new Date().toISOString(),
+          disabled_reason: "DeviceNotRegistered",
+        })
+        .in("id", delivery.unregisteredDeviceIds);
+
+      if (disableError) {
+        logger.warn("Failed to disable unregistered push devices", {
+          error: disableError.message,
+        });
+      }
+    }
+
+    logger.info("Push notification sent", {
+      type,
+      clinicId: options.clinicId,
+      recipients: recipientIds.length,
+      delivered: delivery.delivered,
+      failed: delivery.failed,
+    });
+
+    return {
+      ok: delivery.failed === 0,
+      recipients: recipientIds.length,
+      delivered: delivery.delivered,
+      disabledDevices: delivery.unregisteredDeviceIds.length,
+    };
+  } catch (error) {
+    logger.error("Failed to send push notification", {
+      type,
+      clinicId: options.clinicId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      ...empty,
+    };
+  }
+}
+
+/**
+ * Fire-and-forget push sender.
+ *
+ * Sends notification in background without blocking.
+ * Errors are logged but not thrown.
+ *
+ * @param type - Notification type
+ * @param data - Notification payload
+ * @param options - Clinic whose subscribers are notified
+ */
+export function notifyPush<T extends PushNotificationType>(
+  type: T,
+  data: PushPayloadMap[T],
+  options: SendPushOptions,
+): void {
+  void sendPushNotification(type, data, options).catch((error) => {
+    logger.error("Background push notification failed", {
+      type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Expo Push Client
+ *
+ * Sends notifications through the Expo push service, which delivers to
+ * APNs and FCM for the mobile app. Uses fetch directly so the Expo server
+ * SDK isn't pulled into serverless bundles.
+ *
+ * @see https://docs.expo.dev/push-notifications/sending-notifications/
+ */
+
+import type {
+  IPushClient,
+  PushMessage,
+  PushTicket,
+} from "./push-client.interface";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+/** Expo accepts at most 100 messages per request */
+const MAX_BATCH_SIZE = 100;
+
+export interface ExpoPushConfig {
+  /** Required when enhanced push security is enabled for the project */
+  accessToken?: string;
+}
+
+interface ExpoTicket {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+interface ExpoPushResponse {
+  data?: ExpoTicket[];
+  errors?: Array<{ code: string; message: string }>;
+}
+
+export class ExpoPushClient implements IPushClient {
+  readonly provider = "expo";
+
+  constructor(private readonly config: ExpoPushConfig = {}) {}
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const tickets: PushTicket[] = [];
+
+    for (let i = 0; i < messages.length; i += MAX_BATCH_SIZE) {
+      const batch = messages.slice(i, i + MAX_BATCH_SIZE);
+      tickets.push(...(await this.sendBatch(batch)));
+    }
+
+    return tickets;
+  }
+
+  private async sendBatch(messages: PushMessage[]): Promise<PushTicket[]> {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        ...(this.config.accessToken
+          ? { Authorization: `Bearer ${this.config.accessToken}` }
+          : {}),
+      },
+      body: JSON.stringify(
+        messages.map((message) => ({
+          to: message.to,
+          title: message.title,
+          body: message.body,
+          data: message.data,
+          priority: message.priority ?? "default",
+          channelId: message.channelId,
+          sound: "default",
+        })),
+      ),
+    });
+
+    const result = (await response.json()) as ExpoPushResponse;
+
+    if (!response.ok || !result.data) {
+      const error = result.errors?.[0];
+      throw new Error(
+        `Expo push error: ${error?.message ?? `HTTP ${response.status}`}`,
+      );
+    }
+
+    return result.data.map((ticket) =>
+      ticket.status === "ok"
+        ? { status: "ok", id: ticket.id ?? "" }
+        : {
+            status: "error",
+            message: ticket.message ?? "Unknown Expo push error",
+            deviceNotRegistered:
+              ticket.details?.error === "DeviceNotRegistered",
+          },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Fake Push Client
+ *
+ * In-memory push provider for local development and tests. Messages are
+ * recorded instead of sent; tokens can be marked unregistered to exercise
+ * device cleanup.
+ */
+
+import type {
+  IPushClient,
+  PushMessage,
+  PushTicket,
+} from "./push-client.interface";
+
+export interface FakeSentPush extends PushMessage {
+  id: string;
+  sentAt: Date;
+}
+
+export class FakePushClient implements IPushClient {
+  readonly provider = "fake";
+
+  /** Messages "sent" through this client, oldest first */
+  readonly sent: FakeSentPush[] = [];
+
+  private unregisteredTokens = new Set<string>();
+
+  /**
+   * Report this token as no longer registered on later sends
+   */
+  unregister(token: string): void {
+    this.unregisteredTokens.add(token);
+  }
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    return messages.map((message) => {
+      if (this.unregisteredTokens.has(message.to)) {
+        return {
+          status: "error",
+          message: `"${message.to}" is not a registered push notification recipient`,
+          deviceNotRegistered: true,
+        };
+      }
+
+      const id = `fake_${crypto.randomUUID()}`;
+      this.sent.push({ ...message, id, sentAt: new Date() });
+
+      console.log("[FAKE_PUSH] Recorded notification", {
+        id,
+        title: message.title,
+      });
+
+      return { status: "ok", id };
+    });
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.unregisteredTokens.clear();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Push Notification Formatters
+ *
+ * Convert notification payloads into the title, body and data shown on
+ * the device. `data.url` is an Expo Router path the app opens on tap.
+ */
+
+import type { PushMessage } from "./push-client.interface";
+import type {
+  AttentionCasePushPayload,
+  CallFailedPushPayload,
+  EmergencyTriagePushPayload,
+  PushNotificationType,
+  PushPayloadMap,
+} from "./types";
+
+/**
+ * Device-independent part of a push message
+ */
+export type PushContent = Omit<PushMessage, "to">;
+
+function caseUrl(caseId: string | undefined): string | undefined {
+  return caseId ? `/(app)/cases/${caseId}` : undefined;
+}
+
+function formatEmergencyTriage(data: EmergencyTriagePushPayload): PushContent {
+  const label =
+    data.urgency === "critical"
+      ? "Critical emergency"
+      : data.urgency === "urgent"
+        ? "Urgent triage"
+        : "Triage";
+
+  return {
+    title: `${label}: ${data.petName}`,
+    body: [data.symptoms, data.phone ? `Caller: ${data.phone}` : null]
+      .filter(Boolean)
+      .join("\n"),
+    priority: data.urgency === "monitor" ? "default" : "high",
+    channelId: "emergencies",
+    data: { type: "emergency_triage", messageId: data.messageId },
+  };
+}
+
+function formatAttentionCase(data: AttentionCasePushPayload): PushContent {
+  const subject = [data.petName, data.ownerName && `(${data.ownerName})`]
+    .filter(Boolean)
+    .join(" ");
+  const types = data.attentionTypes.map((t) => t.replace(/_/g, " ")).join(", ");
+
+  return {
+    title: `${data.severity === "critical" ? "Critical" : "Urgent"} ${data.direction} call${subject ? `: ${subject}` : ""}`,
+    body: data.summary ?? (types || "Needs review"),
+    priority: data.severity === "critical" ? "high" : "default",
+    channelId: "attention",
+    data: { type: "attention_case", url: caseUrl(data.caseId) },
+  };
+}
+
+function formatCallFailed(data: CallFailedPushPayload): PushContent {
+  return {
+    title: `Discharge call failed${data.petName ? `: ${data.petName}` : ""}`,
+    body: [
+      data.ownerName ? `Couldn't reach ${data.ownerName}` : "Owner not reached",
+      data.endedReason ? `(${data.endedReason.replace(/-/g, " ")})` : null,
+    ]
+      .filter(Boolean)
+      .join(" "),
+    priority: "default",
+    channelId: "attention",
+    data: { type: "call_failed", url: caseUrl(data.caseId) },
+  };
+}
+
+/**
+ * Format a notification for delivery
+ */
+export function formatPushNotification<T extends PushNotificationType>(
+  type: T,
+  data: PushPayloadMap[T],
+): PushContent {
+  switch (type) {
+    case "emergency_triage":
+      return formatEmergencyTriage(data as EmergencyTriagePushPayload);
+    case "attention_case":
+      return formatAttentionCase(data as AttentionCasePushPayload);
+    case "call_failed":
+      return formatCallFailed(data);
+    default:
+      throw new Error(`Unknown push notification type: ${type}`);
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * @odis-ai/integrations/push
+ *
+ * Provider-abstracted mobile push delivery (Expo, with an in-memory fake
+ * for local development) and the clinic event fan-out to subscribed,
+ * on-call users.
+ */
+
+export * from "./client";
+export * from "./push-client.interface";
+export * from "./expo-client";
+export * from "./fake-client";
+export * from "./types";
+export * from "./formatters";
+export * from "./recipients";
+export * from "./dispatch";
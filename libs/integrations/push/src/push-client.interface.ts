@@ -0,0 +1,71 @@
+/**
+ * IPushClient Interface
+ *
+ * Interface for mobile push providers (Expo, or the local fake).
+ * Enables dependency injection and testing for push operations.
+ *
+ * @example
+ * ```typescript
+ * class ExpoPushClient implements IPushClient {
+ *   async send(messages: PushMessage[]): Promise<PushTicket[]> {
+ *     // Implementation using the Expo push API
+ *   }
+ * }
+ * ```
+ */
+
+/**
+ * A push notification for one device
+ */
+export interface PushMessage {
+  /** Device push token (ExponentPushToken[...]) */
+  to: string;
+
+  /** Notification title */
+  title: string;
+
+  /** Notification body */
+  body: string;
+
+  /** Data delivered to the app with the notification (e.g., deep link) */
+  data?: Record<string, unknown>;
+
+  /** "high" wakes the device immediately (emergencies) */
+  priority?: "default" | "high";
+
+  /** Android notification channel (optional) */
+  channelId?: string;
+}
+
+/**
+ * Provider result for one message, in the same order as the input
+ */
+export type PushTicket =
+  | {
+      status: "ok";
+      /** Provider ticket/message ID (for tracking) */
+      id: string;
+    }
+  | {
+      status: "error";
+      message: string;
+      /** The token is no longer valid and should stop receiving pushes */
+      deviceNotRegistered: boolean;
+    };
+
+/**
+ * Interface for push client operations
+ */
+export interface IPushClient {
+  /** Provider name, for logging */
+  readonly provider: string;
+
+  /**
+   * Send push notifications
+   *
+   * @param messages - One message per device
+   * @returns One ticket per message, in order
+   * @throws Error if the provider request fails as a whole
+   */
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+}
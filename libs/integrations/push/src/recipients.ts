@@ -0,0 +1,118 @@
+/**
+ * Push Recipient Selection
+ *
+ * Decides which of a clinic's subscribed users get a notification, from
+ * their preferences (push_notification_subscriptions) and weekly on-call
+ * shifts (on_call_shifts).
+ */
+
+import { toZonedTime } from "date-fns-tz";
+import type { PushNotificationType } from "./types";
+
+/**
+ * A user's push subscription for the clinic
+ */
+export interface PushSubscriber {
+  userId: string;
+  notificationTypes: string[];
+  onlyWhenOnCall: boolean;
+}
+
+/**
+ * A weekly on-call window in clinic-local time
+ */
+export interface OnCallShiftWindow {
+  userId: string;
+  /** 0 = Sunday ... 6 = Saturday (day the shift starts) */
+  dayOfWeek: number;
+  /** HH:mm or HH:mm:ss */
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Types that still reach every subscriber when nobody is on call
+ */
+const ALWAYS_DELIVERED_TYPES: readonly PushNotificationType[] = [
+  "emergency_triage",
+];
+
+function parseTimeOfDay(value: string): number {
+  const [hours = "0", minutes = "0"] = value.split(":");
+  return Number(hours) * 60 + Number(minutes);
+}
+
+/**
+ * Whether a shift covers `now`
+ *
+ * A shift whose end is at or before its start runs overnight into the
+ * next day.
+ */
+export function isShiftActive(
+  shift: OnCallShiftWindow,
+  now: Date,
+  timezone: string,
+): boolean {
+  const zoned = toZonedTime(now, timezone);
+  const day = zoned.getDay();
+  const minute = zoned.getHours() * 60 + zoned.getMinutes();
+  const start = parseTimeOfDay(shift.startTime);
+  const end = parseTimeOfDay(shift.endTime);
+
+  if (start < end) {
+    return day === shift.dayOfWeek && minute >= start && minute < end;
+  }
+
+  const nextDay = (shift.dayOfWeek + 1) % 7;
+  return (
+    (day === shift.dayOfWeek && minute >= start) ||
+    (day === nextDay && minute < end)
+  );
+}
+
+/**
+ * Users with an on-call shift covering `now`
+ */
+export function getOnCallUserIds(
+  shifts: OnCallShiftWindow[],
+  now: Date,
+  timezone: string,
+): Set<string> {
+  return new Set(
+    shifts
+      .filter((shift) => isShiftActive(shift, now, timezone))
+      .map((shift) => shift.userId),
+  );
+}
+
+/**
+ * Pick the users to notify
+ *
+ * Subscribers get the notification types they opted into; "only when on
+ * call" subscribers only while on shift. Emergencies go to every
+ * subscriber when that would otherwise reach nobody.
+ *
+ * @returns User IDs to deliver to
+ */
+export function selectPushRecipients(
+  type: PushNotificationType,
+  subscribers: PushSubscriber[],
+  shifts: OnCallShiftWindow[],
+  now: Date,
+  timezone: string,
+): string[] {
+  const interested = subscribers.filter((s) =>
+    s.notificationTypes.includes(type),
+  );
+  const onCall = getOnCallUserIds(shifts, now, timezone);
+
+  const recipients = interested.filter(
+    (s) => !s.onlyWhenOnCall || onCall.has(s.userId),
+  );
+
+  if (recipients.length === 0 && ALWAYS_DELIVERED_TYPES.includes(type)) {
+    return interested.map((s) => s.userId);
+  }
+
+  return recipients.map((s) => s.userId);
+}
@@ -0,0 +1,83 @@
+/**
+ * Push Notification Types
+ *
+ * Type definitions for notification payloads.
+ */
+
+import type { UrgencyLevel } from "@odis-ai/shared/types/triage";
+
+/**
+ * Notification types that fan out to mobile devices
+ */
+export type PushNotificationType =
+  "emergency_triage" | "attention_case" | "call_failed";
+
+/**
+ * Payload for emergency triage notifications
+ */
+export interface EmergencyTriagePushPayload {
+  clinicName: string;
+  urgency: UrgencyLevel;
+  petName: string;
+  symptoms: string;
+  phone?: string;
+  /** clinic_messages.id */
+  messageId?: string;
+}
+
+/**
+ * Payload for calls flagged by attention classification
+ */
+export interface AttentionCasePushPayload {
+  clinicName: string;
+  severity: "urgent" | "critical";
+  direction: "inbound" | "outbound";
+  attentionTypes: string[];
+  summary?: string;
+  petName?: string;
+  ownerName?: string;
+  /** Outbound discharge case, for the deep link */
+  caseId?: string;
+}
+
+/**
+ * Payload for discharge calls that failed after all retries
+ */
+export interface CallFailedPushPayload {
+  clinicName: string;
+  petName?: string;
+  ownerName?: string;
+  endedReason?: string;
+  caseId?: string;
+}
+
+/**
+ * Map of notification types to their payload types
+ */
+export interface PushPayloadMap {
+  emergency_triage: EmergencyTriagePushPayload;
+  attention_case: AttentionCasePushPayload;
+  call_failed: CallFailedPushPayload;
+}
+
+/**
+ * Options for sending push notifications
+ */
+export interface SendPushOptions {
+  /** Clinic whose subscribed users are notified */
+  clinicId: string;
+}
+
+/**
+ * Result of a push fan-out
+ */
+export interface SendPushResult {
+  ok: boolean;
+  error?: string;
+  /** Users selected by preferences and on-call schedules */
+  recipients: number;
+  /** Devices that accepted the notification */
+  delivered: number;
+  /** Devices disabled because their token is no longer registered */
+  disabledDevices: number;
+}
@@ -152,6 +152,73 @@ export async function scheduleEmailExecution(
   }
 }
 
+/**
+ * Schedule a discharge SMS for delayed delivery
+ *
+ * @param smsId - Database ID of the scheduled SMS
+ * @param scheduledFor - Target delivery time
+ * @returns QStash message ID for tracking
+ */
+export async function scheduleSmsExecution(
+  smsId: string,
+  scheduledFor: Date,
+): Promise<string> {
+  // Calculate delay using server time to ensure accuracy
+  // scheduledFor should already be validated to be in the future
+  const serverNow = Date.now();
+  const delay = Math.floor((scheduledFor.getTime() - serverNow) / 1000); // seconds
+
+  if (delay < 0) {
+    console.warn(
+      `[QSTASH_CLIENT] Scheduled time was in the past, using delay=0 for immediate execution`,
+      {
+        scheduledFor: scheduledFor.toISOString(),
+        serverNow: new Date(serverNow).toISOString(),
+        originalDelay: delay,
+      },
+    );
+  }
+  const effectiveDelay = Math.max(0, delay);
+
+  const webhookUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/api/webhooks/execute-discharge-sms`;
+
+  console.log("[QSTASH_CLIENT] Scheduling SMS delivery", {
+    smsId,
+    scheduledFor: scheduledFor.toISOString(),
+    delay: effectiveDelay,
+    webhookUrl,
+  });
+
+  try {
+    const response = await qstashClient.publishJSON({
+      url: webhookUrl,
+      body: { smsId },
+      delay: effectiveDelay, // seconds until execution
+      retries: 0, // No retries - SMS failures should not trigger duplicate texts
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    console.log("[QSTASH_CLIENT] SMS scheduled successfully", {
+      smsId,
+      messageId: response.messageId,
+      fullResponse: JSON.stringify(response),
+    });
+
+    return response.messageId;
+  } catch (error) {
+    console.error("[QSTASH_CLIENT] SMS scheduling FAILED", {
+      smsId,
+      webhookUrl,
+      delay: effectiveDelay,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    throw error;
+  }
+}
+
 /**
  * Payload for AI enrichment jobs
  */
@@ -256,6 +323,135 @@ export async function scheduleAIEnrichmentBatch(
   return messageIds;
 }
 
+/**
+ * Payload for waitlist opening jobs: a slot that just freed up
+ */
+export interface WaitlistOpeningPayload {
+  /** Clinic whose waitlist is offered the slot */
+  clinicId: string;
+  /** Clinic whose schedule the slot belongs to (pims_clinic_id ?? clinicId) */
+  scheduleClinicId: string;
+  /** ISO timestamps */
+  slotStart: string;
+  slotEnd: string;
+  appointmentType: string | null;
+  source: "cancellation" | "pims_sync" | "offer_released";
+}
+
+/**
+ * Offer a freed slot to the clinic's waitlist in the background
+ *
+ * @param payload - The opening to offer
+ * @returns QStash message ID for tracking
+ */
+export async function scheduleWaitlistOpening(
+  payload: WaitlistOpeningPayload,
+): Promise<string> {
+  const webhookUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/api/webhooks/waitlist-opening`;
+
+  console.log("[QSTASH_CLIENT] Scheduling waitlist opening", {
+    clinicId: payload.clinicId,
+    slotStart: payload.slotStart,
+    source: payload.source,
+    webhookUrl,
+  });
+
+  const response = await qstashClient.publishJSON({
+    url: webhookUrl,
+    body: payload,
+    delay: 0, // Execute immediately
+    retries: 0, // No retries - a retry could call a second client for the slot
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  console.log("[QSTASH_CLIENT] Waitlist opening scheduled successfully", {
+    clinicId: payload.clinicId,
+    messageId: response.messageId,
+  });
+
+  return response.messageId;
+}
+
+/**
+ * Schedule the end of a waitlist offer's hold
+ * If the client hasn't answered by then, the slot goes to the next client.
+ *
+ * @param offerId - Database ID of the waitlist offer
+ * @param expiresAt - When the hold ends
+ * @returns QStash message ID for tracking
+ */
+export async function scheduleWaitlistOfferTimeout(
+  offerId: string,
+  expiresAt: Date,
+): Promise<string> {
+  const delay = Math.max(
+    0,
+    Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+  ); // seconds
+
+  const webhookUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/api/webhooks/waitlist-offer-timeout`;
+
+  console.log("[QSTASH_CLIENT] Scheduling waitlist offer timeout", {
+    offerId,
+    expiresAt: expiresAt.toISOString(),
+    delay,
+    webhookUrl,
+  });
+
+  const response = await qstashClient.publishJSON({
+    url: webhookUrl,
+    body: { offerId },
+    delay,
+    retries: 2, // Expiring an offer is idempotent
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  console.log("[QSTASH_CLIENT] Waitlist offer timeout scheduled", {
+    offerId,
+    messageId: response.messageId,
+  });
+
+  return response.messageId;
+}
+
+/**
+ * Write a client's appointment confirmation back to the PIMS in the background
+ *
+ * @param appointmentId - pims_appointments ID
+ * @returns QStash message ID for tracking
+ */
+export async function schedulePimsConfirmation(
+  appointmentId: string,
+): Promise<string> {
+  const webhookUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/api/webhooks/pims-confirm-appointment`;
+
+  console.log("[QSTASH_CLIENT] Scheduling PIMS confirmation", {
+    appointmentId,
+    webhookUrl,
+  });
+
+  const response = await qstashClient.publishJSON({
+    url: webhookUrl,
+    body: { appointmentId },
+    delay: 0, // Execute immediately
+    retries: 3, // Confirming twice is harmless; PIMS sessions can be flaky
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  console.log("[QSTASH_CLIENT] PIMS confirmation scheduled successfully", {
+    appointmentId,
+    messageId: response.messageId,
+  });
+
+  return response.messageId;
+}
+
 /**
  * Cancel a scheduled QStash job
  *
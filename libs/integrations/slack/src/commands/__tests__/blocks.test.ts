@@ -0,0 +1,91 @@
+/**
+ * Tests for /odis command blocks
+ * - Owner names and phone numbers are redacted in replies
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildAttentionBlocks,
+  formatCaseResponse,
+  formatFailedResponse,
+  redactOwnerName,
+  redactPhone,
+} from "../blocks";
+
+describe("redaction", () => {
+  it("reduces owner names to initials", () => {
+    expect(redactOwnerName("Jordan  smith")).toBe("J.S.");
+    expect(redactOwnerName("")).toBe("Owner");
+    expect(redactOwnerName(null)).toBe("Owner");
+  });
+
+  it("keeps only the last four digits of a phone number", () => {
+    expect(redactPhone("+1 (555) 555-0123")).toBe("•••0123");
+    expect(redactPhone("12")).toBeNull();
+    expect(redactPhone(null)).toBeNull();
+  });
+});
+
+describe("command responses", () => {
+  it("redacts owners in failed call replies", () => {
+    const response = formatFailedResponse({
+      clinicName: "Alum Rock",
+      hoursBack: 48,
+      totalCount: 1,
+      wastedCost: 0,
+      calls: [
+        {
+          petName: "Biscuit",
+          ownerName: "Jordan Smith",
+          ownerPhone: "+15555550123",
+          createdAt: null,
+        },
+      ],
+    });
+
+    const text = JSON.stringify(response.blocks);
+    expect(text).toContain("*Biscuit* (J.S.) •••0123");
+    expect(text).not.toContain("Jordan");
+    expect(text).not.toContain("5550123");
+  });
+
+  it("redacts owners in case search replies", () => {
+    const response = formatCaseResponse({
+      clinicName: "Alum Rock",
+      query: "bis",
+      cases: [
+        {
+          id: "case-1",
+          petName: "Biscuit",
+          ownerName: "Jordan Smith",
+          species: "dog",
+          status: "completed",
+          createdAt: null,
+          latestCall: null,
+          latestEmail: null,
+        },
+      ],
+    });
+
+    const text = JSON.stringify(response.blocks);
+    expect(text).toContain("*Biscuit* (dog) · J.S.");
+    expect(text).not.toContain("Jordan");
+  });
+
+  it("redacts owners in the attention summary", () => {
+    const blocks = buildAttentionBlocks({
+      totalCritical: 1,
+      healthConcerns: 1,
+      failedCalls: 0,
+      missingContact: 0,
+      callbackRequests: 0,
+      topConcerns: [
+        { petName: "Biscuit", ownerName: "Jordan Smith", summary: "Limping" },
+      ],
+    });
+
+    const text = JSON.stringify(blocks);
+    expect(text).toContain("*Biscuit* (J.S.): Limping");
+    expect(text).not.toContain("Jordan");
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Slack Ops Blocks
+ *
+ * Block Kit for /odis responses and the morning digest, which share the
+ * call outcome / attention / outreach sections.
+ *
+ * Anyone in a linked workspace can run /odis or read the digest channel,
+ * so owner names are shown as initials and phone numbers by their last
+ * four digits. The full record is a click away in ODIS.
+ */
+
+import type { KnownBlock } from "@slack/types";
+import type {
+  OpsAttentionSummary,
+  OpsDayStats,
+  OpsScheduledOutreach,
+} from "../notifications/types";
+import type {
+  CaseCommandData,
+  FailedCommandData,
+  SlashCommandResponse,
+  TodayCommandData,
+} from "./types";
+
+function section(text: string): KnownBlock {
+  return { type: "section", text: { type: "mrkdwn", text } };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * "Jordan Smith" → "J.S."
+ */
+export function redactOwnerName(name: string | null | undefined): string {
+  const initials = (name ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => `${part[0]?.toUpperCase()}.`)
+    .join("");
+  return initials || "Owner";
+}
+
+/**
+ * "+15555550123" → "•••0123"
+ */
+export function redactPhone(phone: string | null | undefined): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length >= 4 ? `•••${digits.slice(-4)}` : null;
+}
+
+function formatTimestamp(value: string): string {
+  const unix = Math.floor(new Date(value).getTime() / 1000);
+  return `<!date^${unix}^{date_short_pretty} {time}|${value}>`;
+}
+
+/**
+ * Call outcome section for a day
+ */
+export function buildCallStatsBlock(
+  title: string,
+  stats: OpsDayStats,
+): KnownBlock {
+  const { inbound, outbound } = stats;
+
+  return section(
+    [
+      `*${title}*`,
+      `:outbox_tray: Discharge calls: ${outbound.total} total, ${outbound.successful} successful, ${outbound.voicemail} voicemail, ${outbound.failed} failed` +
+        (outbound.completed > 0 ? ` (${outbound.successRate}% success)` : ""),
+      `:inbox_tray: Inbound calls: ${inbound.total} total, ${inbound.completed} handled by AI, ${inbound.transferred} transferred`,
+    ].join("\n"),
+  );
+}
+
+/**
+ * Needs-attention section
+ */
+export function buildAttentionBlocks(
+  attention: OpsAttentionSummary,
+): KnownBlock[] {
+  if (attention.totalCritical === 0 && attention.callbackRequests === 0) {
+    return [section("*Needs attention*\n:white_check_mark: Nothing pending")];
+  }
+
+  const lines = [
+    `*Needs attention* (${attention.totalCritical})`,
+    `• ${plural(attention.healthConcerns, "health concern")}`,
+    `• ${plural(attention.failedCalls, "failed call")} in the last 24h`,
+    `• ${plural(attention.missingContact, "case")} missing contact info`,
+    `• ${plural(attention.callbackRequests, "callback request")}`,
+  ];
+
+  const blocks: KnownBlock[] = [section(lines.join("\n"))];
+
+  if (attention.topConcerns && attention.topConcerns.length > 0) {
+    blocks.push({
+      type: "context",
+      elements: attention.topConcerns.map((concern) => ({
+        type: "mrkdwn" as const,
+        text: `:warning: *${concern.petName}* (${redactOwnerName(concern.ownerName)}): ${concern.summary || "Needs review"}`,
+      })),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Scheduled outreach section
+ */
+export function buildOutreachBlock(
+  title: string,
+  outreach: OpsScheduledOutreach,
+): KnownBlock {
+  return section(
+    `*${title}*\n:telephone_receiver: ${plural(outreach.calls, "call")} and :email: ${plural(outreach.emails, "email")} queued`,
+  );
+}
+
+/**
+ * /odis today
+ */
+export function formatTodayResponse(
+  data: TodayCommandData,
+): SlashCommandResponse {
+  return {
+    response_type: "ephemeral",
+    text: `${data.clinicName}: today so far`,
+    blocks: [
+      section(`:sunny: *${data.clinicName}: today so far*`),
+      buildCallStatsBlock("Calls", data.today),
+      ...buildAttentionBlocks(data.attention),
+      buildOutreachBlock("Still scheduled today", data.scheduledToday),
+    ],
+  };
+}
+
+/**
+ * /odis failed
+ */
+export function formatFailedResponse(
+  data: FailedCommandData,
+): SlashCommandResponse {
+  const title = `:x: *${data.clinicName}: ${plural(data.totalCount, "failed call")} in the last ${data.hoursBack}h*`;
+
+  if (data.calls.length === 0) {
+    return {
+      response_type: "ephemeral",
+      text: `No failed calls in the last ${data.hoursBack}h`,
+      blocks: [section(title)],
+    };
+  }
+
+  const lines = data.calls.map((call) => {
+    const phone = redactPhone(call.ownerPhone);
+    return (
+      `• *${call.petName}* (${redactOwnerName(call.ownerName)})` +
+      (phone ? ` ${phone}` : "") +
+      (call.createdAt ? ` · ${formatTimestamp(call.createdAt)}` : "")
+    );
+  });
+
+  const blocks: KnownBlock[] = [section(title), section(lines.join("\n"))];
+
+  if (data.totalCount > data.calls.length || data.wastedCost > 0) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: [
+            data.totalCount > data.calls.length
+              ? `Showing ${data.calls.length} of ${data.totalCount}`
+              : null,
+            data.wastedCost > 0 ? `Cost: $${data.wastedCost.toFixed(2)}` : null,
+          ]
+            .filter(Boolean)
+            .join(" | "),
+        },
+      ],
+    });
+  }
+
+  return {
+    response_type: "ephemeral",
+    text: `${data.totalCount} failed calls in the last ${data.hoursBack}h`,
+    blocks,
+  };
+}
+
+/**
+ * /odis case <patient>
+ */
+export function formatCaseResponse(
+  data: CaseCommandData,
+): SlashCommandResponse {
+  if (data.cases.length === 0) {
+    return {
+      response_type: "ephemeral",
+      text: `No cases found for "${data.query}" at ${data.clinicName}`,
+    };
+  }
+
+  const blocks: KnownBlock[] = [
+    section(
+      `:mag: *${plural(data.cases.length, "case")} matching "${data.query}"*`,
+    ),
+  ];
+
+  for (const item of data.cases) {
+    const lines = [
+      `*${item.petName}*${item.species ? ` (${item.species})` : ""}${item.ownerName ? ` · ${redactOwnerName(item.ownerName)}` : ""}`,
+      `Case ${item.status ?? "unknown"}` +
+        (item.createdAt ? ` · created ${formatTimestamp(item.createdAt)}` : ""),
+    ];
+
+    if (item.latestCall) {
+      const when = item.latestCall.endedAt ?? item.latestCall.scheduledFor;
+      lines.push(
+        `:telephone_receiver: Call ${item.latestCall.status ?? "unknown"}` +
+          (item.latestCall.successful ? " (successful)" : "") +
+          (when ? ` · ${formatTimestamp(when)}` : ""),
+      );
+    }
+
+    if (item.latestEmail) {
+      const when = item.latestEmail.sentAt ?? item.latestEmail.scheduledFor;
+      lines.push(
+        `:email: Email ${item.latestEmail.status ?? "unknown"}` +
+          (when ? ` · ${formatTimestamp(when)}` : ""),
+      );
+    }
+
+    if (item.url) {
+      lines.push(`<${item.url}|Open in ODIS →>`);
+    }
+
+    blocks.push({ type: "divider" }, section(lines.join("\n")));
+  }
+
+  return {
+    response_type: "ephemeral",
+    text: `${data.cases.length} cases matching "${data.query}"`,
+    blocks,
+  };
+}
+
+/**
+ * /odis help (and unknown subcommands)
+ */
+export function formatHelpResponse(error?: string): SlashCommandResponse {
+  const lines = [
+    "*ODIS commands*",
+    "`/odis today`: today's calls, items needing attention and scheduled outreach",
+    "`/odis failed`: discharge calls that failed in the last 48 hours",
+    "`/odis case <patient>`: latest case and outreach status for a patient",
+  ];
+
+  return {
+    response_type: "ephemeral",
+    text: error ?? "ODIS commands",
+    blocks: [
+      ...(error ? [section(`:warning: ${error}`)] : []),
+      section(lines.join("\n")),
+    ],
+  };
+}
+
+/**
+ * Reply when the channel isn't linked to a clinic
+ */
+export function formatUnlinkedChannelResponse(): SlashCommandResponse {
+  return {
+    response_type: "ephemeral",
+    text: "This channel isn't linked to a clinic. Route a notification type to it under Settings → Notifications in ODIS, then try again.",
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Slack Channel → Clinic Resolution
+ *
+ * Slash commands only carry the Slack team and channel. The clinic is
+ * found through its notification routes (slack_notification_routes).
+ */
+
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+
+export interface SlackLinkedClinic {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+/**
+ * Find the clinic a Slack channel belongs to
+ *
+ * Uses the clinic routed to this channel; otherwise the workspace's only
+ * clinic.
+ *
+ * @returns null when no clinic (or more than one) matches
+ */
+export async function resolveClinicForChannel(
+  teamId: string,
+  channelId: string,
+): Promise<SlackLinkedClinic | null> {
+  const supabase = await createServiceClient();
+
+  const { data: routes, error } = await supabase
+    .from("slack_notification_routes")
+    .select(
+      "channel_id, clinic:clinics(id, name, slug), workspace:slack_workspaces!inner(team_id, is_active)",
+    )
+    .eq("workspace.team_id", teamId)
+    .eq("workspace.is_active", true);
+
+  if (error) {
+    throw new Error(`Failed to resolve clinic for channel: ${error.message}`);
+  }
+
+  // Embedded relations come back as arrays on the untyped service client
+  const linked = (routes ?? []).map((route) => ({
+    channelId: route.channel_id,
+    clinic: Array.isArray(route.clinic) ? route.clinic[0] : route.clinic,
+  }));
+
+  const channelRoute = linked.find((route) => route.channelId === channelId);
+  if (channelRoute?.clinic) {
+    return channelRoute.clinic;
+  }
+
+  const clinics = new Map<string, SlackLinkedClinic>();
+  for (const route of linked) {
+    if (route.clinic) clinics.set(route.clinic.id, route.clinic);
+  }
+
+  return clinics.size === 1 ? ([...clinics.values()][0] ?? null) : null;
+}
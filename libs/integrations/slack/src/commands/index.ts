@@ -0,0 +1,30 @@
+/**
+ * Slack Commands Module
+ *
+ * Exports for the /odis slash command and the ops summary blocks it shares
+ * with the morning digest.
+ */
+
+export { parseOdisCommand, parseSlashCommandRequest } from "./parse";
+
+export {
+  buildAttentionBlocks,
+  buildCallStatsBlock,
+  buildOutreachBlock,
+  formatCaseResponse,
+  formatFailedResponse,
+  formatHelpResponse,
+  formatTodayResponse,
+  formatUnlinkedChannelResponse,
+} from "./blocks";
+
+export { resolveClinicForChannel, type SlackLinkedClinic } from "./clinic";
+
+export type {
+  CaseCommandData,
+  FailedCommandData,
+  OdisCommand,
+  SlashCommandRequest,
+  SlashCommandResponse,
+  TodayCommandData,
+} from "./types";
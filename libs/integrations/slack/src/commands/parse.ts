@@ -0,0 +1,61 @@
+/**
+ * /odis Command Parsing
+ */
+
+import type { OdisCommand, SlashCommandRequest } from "./types";
+
+/**
+ * Parse the text after /odis
+ *
+ * @example
+ * parseOdisCommand("case Max") // { name: "case", query: "Max" }
+ * parseOdisCommand("")         // { name: "help" }
+ */
+export function parseOdisCommand(text: string): OdisCommand {
+  const [subcommand = "", ...rest] = text.trim().split(/\s+/);
+  const args = rest.join(" ").trim();
+
+  switch (subcommand.toLowerCase()) {
+    case "today":
+      return { name: "today" };
+    case "failed":
+      return { name: "failed" };
+    case "case":
+      return args
+        ? { name: "case", query: args }
+        : { name: "help", error: "Add a patient name: `/odis case Max`" };
+    case "":
+    case "help":
+      return { name: "help" };
+    default:
+      return {
+        name: "help",
+        error: `Unknown command \`${subcommand}\``,
+      };
+  }
+}
+
+/**
+ * Read the slash command fields from the form-encoded request body
+ */
+export function parseSlashCommandRequest(
+  body: string,
+): SlashCommandRequest | null {
+  const params = new URLSearchParams(body);
+  const teamId = params.get("team_id");
+  const channelId = params.get("channel_id");
+  const userId = params.get("user_id");
+
+  if (!teamId || !channelId || !userId) {
+    return null;
+  }
+
+  return {
+    command: params.get("command") ?? "/odis",
+    text: params.get("text") ?? "",
+    teamId,
+    channelId,
+    userId,
+    responseUrl: params.get("response_url") ?? undefined,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Slack Command Types
+ *
+ * The /odis slash command and the data behind each subcommand.
+ * @see https://api.slack.com/interactivity/slash-commands
+ */
+
+import type { KnownBlock } from "@slack/types";
+import type {
+  OpsAttentionSummary,
+  OpsDayStats,
+  OpsScheduledOutreach,
+} from "../notifications/types";
+
+/**
+ * Parsed /odis subcommand
+ */
+export type OdisCommand =
+  | { name: "today" }
+  | { name: "failed" }
+  | { name: "case"; query: string }
+  | { name: "help"; error?: string };
+
+/**
+ * Form fields Slack posts for a slash command
+ */
+export interface SlashCommandRequest {
+  command: string;
+  text: string;
+  teamId: string;
+  channelId: string;
+  userId: string;
+  responseUrl?: string;
+}
+
+/**
+ * Data for /odis today
+ */
+export interface TodayCommandData {
+  clinicName: string;
+  today: OpsDayStats;
+  attention: OpsAttentionSummary;
+  scheduledToday: OpsScheduledOutreach;
+}
+
+/**
+ * Data for /odis failed (same numbers as dashboard.getFailedCalls)
+ */
+export interface FailedCommandData {
+  clinicName: string;
+  hoursBack: number;
+  totalCount: number;
+  wastedCost: number;
+  calls: {
+    petName: string;
+    ownerName: string;
+    ownerPhone: string | null;
+    createdAt: string | null;
+  }[];
+}
+
+/**
+ * Data for /odis case <patient>
+ */
+export interface CaseCommandData {
+  clinicName: string;
+  query: string;
+  cases: {
+    id: string;
+    petName: string;
+    ownerName: string | null;
+    species: string | null;
+    status: string | null;
+    createdAt: string | null;
+    latestCall: {
+      status: string | null;
+      scheduledFor: string | null;
+      endedAt: string | null;
+      successful: boolean;
+    } | null;
+    latestEmail: {
+      status: string | null;
+      scheduledFor: string | null;
+      sentAt: string | null;
+    } | null;
+    url?: string;
+  }[];
+}
+
+/**
+ * Ephemeral slash command response
+ */
+export interface SlashCommandResponse {
+  response_type: "ephemeral" | "in_channel";
+  text: string;
+  blocks?: KnownBlock[];
+}
@@ -24,18 +24,70 @@ export {
   formatters,
   getFormatter,
   NOTIFICATION_CHANNELS,
+  decideDelivery,
+  getNotificationSeverity,
+  isInQuietHours,
+  meetsSeverity,
+  parseNotificationPreferences,
+  resolveNotificationRoute,
+  flushNotificationQueue,
+  queueNotification,
 } from "./notifications";
 export type {
   SlackNotificationType,
+  SlackSeverity,
   NotificationPayloadMap,
   SendNotificationOptions,
+  SendNotificationResult,
+  DeliveryDecision,
+  ResolvedNotificationRoute,
+  FlushQueueResult,
   AppointmentBookedPayload,
   EmergencyTriagePayload,
+  CallbackRequestPayload,
   CallFailedPayload,
   SyncErrorPayload,
   AdminAlertPayload,
+  MorningDigestPayload,
+  OpsAttentionSummary,
+  OpsDayStats,
+  OpsScheduledOutreach,
 } from "./notifications";
 
+// Interactions
+export {
+  handleSlackInteraction,
+  applyMessageAction,
+  buildMessageActionsBlock,
+  MESSAGE_ACTION_IDS,
+} from "./interactions";
+export type {
+  MessageAction,
+  SlackInteractionPayload,
+  SlackInteractionResponse,
+} from "./interactions";
+
+// Slash commands
+export {
+  parseOdisCommand,
+  parseSlashCommandRequest,
+  resolveClinicForChannel,
+  formatTodayResponse,
+  formatFailedResponse,
+  formatCaseResponse,
+  formatHelpResponse,
+  formatUnlinkedChannelResponse,
+} from "./commands";
+export type {
+  CaseCommandData,
+  FailedCommandData,
+  OdisCommand,
+  SlackLinkedClinic,
+  SlashCommandRequest,
+  SlashCommandResponse,
+  TodayCommandData,
+} from "./commands";
+
 // Initialization
 export { initializeSlackClient, ensureSlackClientInitialized } from "./init";
 export type { ISlackClient } from "./slack-client.interface";
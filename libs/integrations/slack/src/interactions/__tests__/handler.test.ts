@@ -0,0 +1,334 @@
+/**
+ * Tests for the Slack interaction handler
+ * - Acknowledge / assign / resolve buttons update the message, call and task
+ * - Schedule callback opens a modal and records the submitted time
+ * - Teams not linked to the message's clinic can't act on it
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { buildMessageActionsBlock } from "../blocks";
+import { handleSlackInteraction } from "../handler";
+import {
+  MESSAGE_ACTION_IDS,
+  SCHEDULE_CALLBACK_CALLBACK_ID,
+  type MessageAction,
+  type SlackBlockActionsPayload,
+  type SlackViewSubmissionPayload,
+} from "../types";
+
+type Row = Record<string, unknown>;
+
+const db: Record<string, Row[]> = {};
+const slackMocks = vi.hoisted(() => ({
+  openModal: vi.fn(),
+  envConfigured: vi.fn(() => false),
+}));
+
+/**
+ * In-memory Supabase stub: eq filters, maybeSingle/single reads, inserts
+ * and updates applied to the filtered rows
+ */
+function from(table: string) {
+  const filters: Array<[string, unknown]> = [];
+  let pending: { op: "update" | "insert"; values: Row } | null = null;
+  const rows = () => (db[table] ??= []);
+  const matching = () =>
+    rows().filter((row) => filters.every(([col, val]) => row[col] === val));
+
+  const run = () => {
+    if (pending?.op === "insert") {
+      const row = { id: `${table}-${rows().length + 1}`, ...pending.values };
+      rows().push(row);
+      return [row];
+    }
+    if (pending?.op === "update") {
+      const updated = matching();
+      for (const row of updated) Object.assign(row, pending.values);
+      return updated;
+    }
+    return matching();
+  };
+
+  const builder = {
+    select: () => builder,
+    eq: (col: string, val: unknown) => {
+      filters.push([col, val]);
+      return builder;
+    },
+    limit: () => builder,
+    update: (values: Row) => {
+      pending = { op: "update", values };
+      return builder;
+    },
+    insert: (values: Row) => {
+      pending = { op: "insert", values };
+      return builder;
+    },
+    maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+    single: async () => ({ data: run()[0] ?? null, error: null }),
+    then: (resolve: (value: { data: Row[]; error: null }) => unknown) =>
+      resolve({ data: run(), error: null }),
+  };
+  return builder;
+}
+
+vi.mock("../../../../../data-access/db/src/server", () => ({
+  createServiceClient: vi.fn(async () => ({ from })),
+}));
+
+vi.mock("../../client", () => ({
+  slackClient: { openModal: slackMocks.openModal },
+  getEnvSlackClient: vi.fn(() => null),
+  isEnvSlackConfigured: slackMocks.envConfigured,
+}));
+
+vi.mock("../../init", () => ({
+  ensureSlackClientInitialized: vi.fn(),
+}));
+
+const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+vi.stubGlobal("fetch", fetchMock);
+
+const MESSAGE_ID = "msg-1";
+const TEAM_ID = "T-clinic";
+
+function seed() {
+  for (const table of Object.keys(db)) delete db[table];
+  db.clinic_messages = [
+    {
+      id: MESSAGE_ID,
+      clinic_id: "clinic-1",
+      status: "new",
+      read_at: null,
+      message_type: "emergency_triage",
+      caller_name: "Jordan",
+      caller_phone: "+15555550123",
+      message_content: "Dog ate chocolate",
+      metadata: { source: "vapi" },
+      vapi_call_id: "vapi-1",
+    },
+  ];
+  db.inbound_vapi_calls = [
+    { id: "call-1", vapi_call_id: "vapi-1", metadata: null },
+  ];
+  db.slack_workspaces = [
+    { id: "ws-1", team_id: TEAM_ID, is_active: true },
+    { id: "ws-2", team_id: "T-other", is_active: true },
+  ];
+  db.slack_notification_routes = [
+    { id: "route-1", workspace_id: "ws-1", clinic_id: "clinic-1" },
+  ];
+}
+
+function click(
+  action: MessageAction,
+  teamId = TEAM_ID,
+): SlackBlockActionsPayload {
+  return {
+    type: "block_actions",
+    team: { id: teamId },
+    user: { id: "U1", username: "casey" },
+    trigger_id: "trigger-1",
+    response_url: "https://hooks.slack.test/response",
+    channel: { id: "C1" },
+    message: {
+      ts: "1700000000.000100",
+      text: "Emergency",
+      blocks: [buildMessageActionsBlock(MESSAGE_ID)],
+    },
+    actions: [
+      {
+        action_id: MESSAGE_ACTION_IDS[action],
+        block_id: `message_actions:${MESSAGE_ID}`,
+        value: MESSAGE_ID,
+        type: "button",
+      },
+    ],
+  };
+}
+
+function submitCallback(
+  callbackAt: number,
+  teamId = TEAM_ID,
+): SlackViewSubmissionPayload {
+  return {
+    type: "view_submission",
+    team: { id: teamId },
+    user: { id: "U1", username: "casey" },
+    view: {
+      id: "V1",
+      callback_id: SCHEDULE_CALLBACK_CALLBACK_ID,
+      private_metadata: JSON.stringify({
+        messageId: MESSAGE_ID,
+        channelId: "C1",
+        messageTs: "1700000000.000100",
+      }),
+      state: {
+        values: {
+          callback_at: {
+            callback_at: {
+              type: "datetimepicker",
+              selected_date_time: callbackAt,
+            },
+          },
+          callback_note: {
+            callback_note: { type: "plain_text_input", value: "After 5pm" },
+          },
+        },
+      },
+    },
+  };
+}
+
+const message = () => db.clinic_messages?.[0] as Row;
+const task = () => db.slack_tasks?.[0] as Row | undefined;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  slackMocks.envConfigured.mockReturnValue(false);
+  slackMocks.openModal.mockResolvedValue({ ok: true });
+  seed();
+});
+
+describe("handleSlackInteraction", () => {
+  it("acknowledges a message and opens a task", async () => {
+    await handleSlackInteraction(click("acknowledge"));
+
+    expect(message()).toMatchObject({
+      status: "read",
+      metadata: {
+        source: "vapi",
+        slack_handling: { action: "acknowledge", slack_user_id: "U1" },
+      },
+    });
+    expect(message().read_at).toEqual(expect.any(String));
+    expect(task()).toMatchObject({
+      status: "acknowledged",
+      title: "Emergency: Jordan",
+      clinic_id: "clinic-1",
+      inbound_call_id: "call-1",
+      slack_channel_id: "C1",
+    });
+    expect(db.slack_task_completions).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://hooks.slack.test/response",
+      expect.objectContaining({ method: "POST" }),
+    );
+  });
+
+  it("assigns the message to the clicking user", async () => {
+    await handleSlackInteraction(click("assign"));
+
+    expect(message().metadata).toMatchObject({
+      slack_assignee: { slack_user_id: "U1", name: "casey" },
+    });
+    expect(task()).toMatchObject({
+      status: "assigned",
+      assigned_to_slack_user_id: "U1",
+      assigned_to_slack_username: "casey",
+    });
+  });
+
+  it("resolves the message and confirms the inbound call", async () => {
+    await handleSlackInteraction(click("resolve"));
+
+    expect(message().status).toBe("resolved");
+    expect(db.inbound_vapi_calls?.[0]).toMatchObject({
+      action_confirmed: true,
+      metadata: { slack_handling: { action: "resolve" } },
+    });
+    expect(task()?.status).toBe("resolved");
+  });
+
+  it("keeps a resolved task resolved and logs later actions", async () => {
+    await handleSlackInteraction(click("resolve"));
+    await handleSlackInteraction(click("acknowledge"));
+
+    expect(message().status).toBe("resolved");
+    expect(db.slack_tasks).toHaveLength(1);
+    expect(task()?.status).toBe("resolved");
+    expect(db.slack_task_completions).toHaveLength(2);
+  });
+
+  it("opens the modal for schedule callback without recording it", async () => {
+    await handleSlackInteraction(click("schedule_callback"));
+
+    expect(slackMocks.openModal).toHaveBeenCalledWith(
+      TEAM_ID,
+      expect.objectContaining({ triggerId: "trigger-1" }),
+    );
+    expect(message().status).toBe("new");
+    expect(db.slack_tasks).toBeUndefined();
+  });
+
+  it("records a scheduled callback on submit", async () => {
+    const callbackAt = Math.floor(Date.now() / 1000) + 3600;
+
+    await expect(
+      handleSlackInteraction(submitCallback(callbackAt)),
+    ).resolves.toBeNull();
+
+    const scheduledFor = new Date(callbackAt * 1000).toISOString();
+    expect(message().metadata).toMatchObject({
+      callback_scheduled_for: scheduledFor,
+      callback_note: "After 5pm",
+    });
+    expect(task()).toMatchObject({
+      status: "callback_scheduled",
+      callback_scheduled_for: scheduledFor,
+    });
+  });
+
+  it("rejects a callback time in the past", async () => {
+    const response = await handleSlackInteraction(
+      submitCallback(Math.floor(Date.now() / 1000) - 60),
+    );
+
+    expect(response).toEqual({
+      response_action: "errors",
+      errors: { callback_at: "Pick a time in the future" },
+    });
+    expect(message().status).toBe("new");
+  });
+
+  describe("workspace checks", () => {
+    it("ignores clicks from a workspace not routed to the clinic", async () => {
+      await handleSlackInteraction(click("resolve", "T-other"));
+
+      expect(message().status).toBe("new");
+      expect(db.slack_tasks).toBeUndefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("ignores clicks from an uninstalled workspace", async () => {
+      (db.slack_workspaces?.[0] as Row).is_active = false;
+
+      await handleSlackInteraction(click("resolve"));
+
+      expect(message().status).toBe("new");
+    });
+
+    it("rejects callback submissions from an unlinked workspace", async () => {
+      const response = await handleSlackInteraction(
+        submitCallback(Math.floor(Date.now() / 1000) + 3600, "T-other"),
+      );
+
+      expect(response).toMatchObject({ response_action: "errors" });
+      expect(message().metadata).toEqual({ source: "vapi" });
+    });
+
+    it("accepts the env-token workspace, which has no installation", async () => {
+      slackMocks.envConfigured.mockReturnValue(true);
+
+      await handleSlackInteraction(click("acknowledge", "T-odis"));
+
+      expect(message().status).toBe("read");
+    });
+
+    it("rejects unknown teams when no env token is configured", async () => {
+      await handleSlackInteraction(click("acknowledge", "T-odis"));
+
+      expect(message().status).toBe("new");
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Slack Interaction Blocks
+ *
+ * Action buttons for clinic message notifications, the "handled by" status
+ * shown once someone acts on them, and the schedule callback modal.
+ */
+
+import type { KnownBlock } from "@slack/types";
+import type { SlackModalView } from "../types";
+import {
+  MESSAGE_ACTION_IDS,
+  SCHEDULE_CALLBACK_CALLBACK_ID,
+  type MessageActionRecord,
+} from "./types";
+
+/** Slack allows at most 10 elements in a context block */
+const MAX_STATUS_ELEMENTS = 10;
+
+const actionsBlockId = (messageId: string) => `message_actions:${messageId}`;
+const statusBlockId = (messageId: string) => `message_status:${messageId}`;
+
+/**
+ * Get the clinic_messages ID from an action block_id
+ */
+export function getMessageIdFromBlockId(blockId: string): string | null {
+  const [prefix, messageId] = blockId.split(":");
+  return prefix === "message_actions" && messageId ? messageId : null;
+}
+
+/**
+ * Buttons for acting on a clinic message from Slack
+ *
+ * The block ID carries the message ID so the buttons still work when the
+ * notification is part of a digest.
+ */
+export function buildMessageActionsBlock(messageId: string): KnownBlock {
+  return {
+    type: "actions",
+    block_id: actionsBlockId(messageId),
+    elements: [
+      {
+        type: "button",
+        action_id: MESSAGE_ACTION_IDS.acknowledge,
+        text: { type: "plain_text", text: "Acknowledge" },
+        value: messageId,
+      },
+      {
+        type: "button",
+        action_id: MESSAGE_ACTION_IDS.assign,
+        text: { type: "plain_text", text: "Assign to me" },
+        value: messageId,
+      },
+      {
+        type: "button",
+        action_id: MESSAGE_ACTION_IDS.resolve,
+        text: { type: "plain_text", text: "Mark resolved" },
+        style: "primary",
+        value: messageId,
+      },
+      {
+        type: "button",
+        action_id: MESSAGE_ACTION_IDS.schedule_callback,
+        text: { type: "plain_text", text: "Schedule callback" },
+        value: messageId,
+      },
+    ],
+  };
+}
+
+/**
+ * Describe an action for the message status line
+ */
+export function describeMessageAction(record: MessageActionRecord): string {
+  const user = `<@${record.slackUserId}>`;
+
+  switch (record.action) {
+    case "acknowledge":
+      return `:eyes: Acknowledged by ${user}`;
+    case "assign":
+      return `:bust_in_silhouette: Assigned to ${user}`;
+    case "resolve":
+      return `:white_check_mark: Resolved by ${user}`;
+    case "schedule_callback": {
+      if (!record.callbackAt) {
+        return `:telephone_receiver: Callback scheduled by ${user}`;
+      }
+      const unix = Math.floor(new Date(record.callbackAt).getTime() / 1000);
+      return `:telephone_receiver: Callback scheduled for <!date^${unix}^{date_short_pretty} at {time}|${record.callbackAt}> by ${user}`;
+    }
+  }
+}
+
+/**
+ * Add an action to a message's status line
+ *
+ * Resolving removes the buttons; other actions keep them so the message can
+ * still be resolved (or reassigned) later.
+ */
+export function applyMessageAction(
+  blocks: KnownBlock[],
+  messageId: string,
+  record: MessageActionRecord,
+): KnownBlock[] {
+  const element = {
+    type: "mrkdwn" as const,
+    text: describeMessageAction(record),
+  };
+
+  const existing = blocks.find(
+    (block) => block.block_id === statusBlockId(messageId),
+  );
+  const elements =
+    existing?.type === "context"
+      ? [...existing.elements, element].slice(-MAX_STATUS_ELEMENTS)
+      : [element];
+  const statusBlock: KnownBlock = {
+    type: "context",
+    block_id: statusBlockId(messageId),
+    elements,
+  };
+
+  const result: KnownBlock[] = [];
+  for (const block of blocks) {
+    if (block.block_id === statusBlockId(messageId)) continue;
+
+    if (block.block_id === actionsBlockId(messageId)) {
+      result.push(statusBlock);
+      if (record.action !== "resolve") result.push(block);
+      continue;
+    }
+
+    result.push(block);
+  }
+
+  // Buttons were already gone (e.g. resolved earlier); append the status
+  if (!result.includes(statusBlock)) result.push(statusBlock);
+
+  return result;
+}
+
+/**
+ * Modal for picking the callback time
+ *
+ * @param privateMetadata - Serialized ScheduleCallbackMetadata
+ */
+export function buildScheduleCallbackModal(
+  privateMetadata: string,
+): SlackModalView {
+  return {
+    type: "modal",
+    callbackId: SCHEDULE_CALLBACK_CALLBACK_ID,
+    privateMetadata,
+    title: { type: "plain_text", text: "Schedule callback" },
+    submit: { type: "plain_text", text: "Schedule" },
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "input",
+        block_id: "callback_at",
+        label: { type: "plain_text", text: "Call back at" },
+        element: {
+          type: "datetimepicker",
+          action_id: "callback_at",
+        },
+      },
+      {
+        type: "input",
+        block_id: "callback_note",
+        optional: true,
+        label: { type: "plain_text", text: "Note" },
+        element: {
+          type: "plain_text_input",
+          action_id: "callback_note",
+          multiline: true,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,590 @@
+/**
+ * Slack Interaction Handler
+ *
+ * Handles the action buttons on emergency and callback request
+ * notifications:
+ * 1. Updates the clinic_messages row (and the linked inbound_vapi_calls row)
+ * 2. Tracks the message in slack_tasks and each action in
+ *    slack_task_completions
+ * 3. Edits the Slack message to show who handled it
+ *
+ * "Schedule callback" opens a modal; the action is recorded on submit.
+ */
+
+import type { KnownBlock } from "@slack/types";
+import { loggers } from "@odis-ai/shared/logger";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import type { Json } from "@odis-ai/shared/types";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import {
+  getEnvSlackClient,
+  isEnvSlackConfigured,
+  slackClient,
+} from "../client";
+import { ensureSlackClientInitialized } from "../init";
+import type { SlackModalInput } from "../types";
+import {
+  applyMessageAction,
+  buildScheduleCallbackModal,
+  getMessageIdFromBlockId,
+} from "./blocks";
+import {
+  MESSAGE_ACTION_IDS,
+  SCHEDULE_CALLBACK_CALLBACK_ID,
+  type MessageAction,
+  type MessageActionRecord,
+  type ScheduleCallbackMetadata,
+  type SlackBlockActionsPayload,
+  type SlackInteractionPayload,
+  type SlackInteractionResponse,
+  type SlackInteractionUser,
+  type SlackViewSubmissionPayload,
+} from "./types";
+
+const logger = loggers.webhook.child("slack-interactions");
+
+/** Slack's limit for view private_metadata */
+const MAX_PRIVATE_METADATA_LENGTH = 3000;
+
+/** slack_tasks.status after each action */
+const TASK_STATUS: Record<MessageAction, string> = {
+  acknowledge: "acknowledged",
+  assign: "assigned",
+  resolve: "resolved",
+  schedule_callback: "callback_scheduled",
+};
+
+const ACTIONS_BY_ID = new Map(
+  Object.entries(MESSAGE_ACTION_IDS).map(([action, actionId]) => [
+    actionId,
+    action as MessageAction,
+  ]),
+);
+
+/**
+ * Handle a verified interaction payload from Slack
+ *
+ * @returns A response body for modal validation errors, otherwise null
+ * (Slack only needs a 200)
+ */
+export async function handleSlackInteraction(
+  payload: SlackInteractionPayload,
+): Promise<SlackInteractionResponse | null> {
+  if (payload.type === "block_actions") {
+    await handleBlockActions(payload as SlackBlockActionsPayload);
+    return null;
+  }
+
+  if (payload.type === "view_submission") {
+    const submission = payload as SlackViewSubmissionPayload;
+    if (submission.view.callback_id === SCHEDULE_CALLBACK_CALLBACK_ID) {
+      return handleScheduleCallbackSubmission(submission);
+    }
+  }
+
+  logger.debug("Ignoring Slack interaction", { type: payload.type });
+  return null;
+}
+
+async function handleBlockActions(
+  payload: SlackBlockActionsPayload,
+): Promise<void> {
+  for (const slackAction of payload.actions) {
+    const action = ACTIONS_BY_ID.get(slackAction.action_id);
+    const messageId =
+      slackAction.value ?? getMessageIdFromBlockId(slackAction.block_id);
+    if (!action || !messageId) continue;
+
+    // trigger_id expires after 3 seconds, so open the modal before any
+    // database work
+    if (action === "schedule_callback") {
+      await openScheduleCallbackModal(payload, messageId);
+      continue;
+    }
+
+    const record: MessageActionRecord = {
+      action,
+      slackUserId: payload.user.id,
+    };
+
+    const recorded = await recordMessageAction(
+      messageId,
+      record,
+      payload.team.id,
+      payload.user,
+      {
+        channelId: payload.channel?.id ?? payload.container?.channel_id,
+        messageTs: payload.message?.ts ?? payload.container?.message_ts,
+      },
+    );
+
+    if (recorded && payload.response_url && payload.message?.blocks) {
+      await updateOriginalMessage(
+        payload.response_url,
+        applyMessageAction(payload.message.blocks, messageId, record),
+        payload.message.text,
+      );
+    }
+  }
+}
+
+async function handleScheduleCallbackSubmission(
+  payload: SlackViewSubmissionPayload,
+): Promise<SlackInteractionResponse | null> {
+  let metadata: ScheduleCallbackMetadata;
+  try {
+    metadata = JSON.parse(
+      payload.view.private_metadata ?? "",
+    ) as ScheduleCallbackMetadata;
+  } catch {
+    logger.error("Invalid schedule callback metadata", {
+      viewId: payload.view.id,
+    });
+    return null;
+  }
+
+  const values = payload.view.state.values;
+  const selected = values.callback_at?.callback_at?.selected_date_time;
+  if (!selected || selected * 1000 <= Date.now()) {
+    return {
+      response_action: "errors",
+      errors: { callback_at: "Pick a time in the future" },
+    };
+  }
+
+  const record: MessageActionRecord = {
+    action: "schedule_callback",
+    slackUserId: payload.user.id,
+    callbackAt: new Date(selected * 1000).toISOString(),
+  };
+
+  const recorded = await recordMessageAction(
+    metadata.messageId,
+    record,
+    payload.team.id,
+    payload.user,
+    {
+      channelId: metadata.channelId,
+      messageTs: metadata.messageTs,
+      note: values.callback_note?.callback_note?.value ?? undefined,
+    },
+  );
+  if (!recorded) {
+    return {
+      response_action: "errors",
+      errors: { callback_at: "This message can no longer be updated" },
+    };
+  }
+
+  if (metadata.responseUrl && metadata.blocks) {
+    await updateOriginalMessage(
+      metadata.responseUrl,
+      applyMessageAction(metadata.blocks, metadata.messageId, record),
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Open the schedule callback modal
+ *
+ * Messages sent with SLACK_BOT_TOKEN come from a workspace that may not be
+ * installed through OAuth, so fall back to the env client.
+ */
+async function openScheduleCallbackModal(
+  payload: SlackBlockActionsPayload,
+  messageId: string,
+): Promise<void> {
+  const metadata: ScheduleCallbackMetadata = {
+    messageId,
+    channelId: payload.channel?.id ?? payload.container?.channel_id,
+    messageTs: payload.message?.ts ?? payload.container?.message_ts,
+    responseUrl: payload.response_url,
+    blocks: payload.message?.blocks,
+  };
+
+  let privateMetadata = JSON.stringify(metadata);
+  if (privateMetadata.length > MAX_PRIVATE_METADATA_LENGTH) {
+    privateMetadata = JSON.stringify({ ...metadata, blocks: undefined });
+  }
+
+  const input: SlackModalInput = {
+    triggerId: payload.trigger_id,
+    view: buildScheduleCallbackModal(privateMetadata),
+  };
+
+  try {
+    ensureSlackClientInitialized();
+    const result = await slackClient.openModal(payload.team.id, input);
+    if (result.ok) return;
+  } catch (error) {
+    logger.debug("No workspace token for Slack team, trying env client", {
+      teamId: payload.team.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const envClient = getEnvSlackClient();
+  if (!envClient) {
+    logger.error("Unable to open schedule callback modal", {
+      teamId: payload.team.id,
+      messageId,
+    });
+    return;
+  }
+
+  await envClient.views.open({
+    trigger_id: input.triggerId,
+    view: {
+      type: input.view.type,
+      callback_id: input.view.callbackId,
+      private_metadata: input.view.privateMetadata,
+      title: input.view.title,
+      submit: input.view.submit,
+      close: input.view.close,
+      blocks: input.view.blocks,
+    },
+  });
+}
+
+/**
+ * Replace the original message through its response_url
+ *
+ * Works for messages from both OAuth workspaces and the env client.
+ */
+async function updateOriginalMessage(
+  responseUrl: string,
+  blocks: KnownBlock[],
+  text?: string,
+): Promise<void> {
+  try {
+    const response = await fetch(responseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        replace_original: true,
+        blocks,
+        text: text ?? "Notification updated",
+      }),
+    });
+
+    if (!response.ok) {
+      logger.error("Failed to update Slack message", {
+        status: response.status,
+      });
+    }
+  } catch (error) {
+    logger.error("Failed to update Slack message", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Apply an action to the clinic message, its inbound call and the Slack
+ * task tracking
+ *
+ * @returns false when nothing was recorded (unknown message, or a team not
+ * linked to the message's clinic)
+ */
+async function recordMessageAction(
+  messageId: string,
+  record: MessageActionRecord,
+  teamId: string,
+  user: SlackInteractionUser,
+  context: { channelId?: string; messageTs?: string; note?: string },
+): Promise<boolean> {
+  const supabase = await createServiceClient();
+  const now = new Date().toISOString();
+  const username = user.username ?? user.name ?? null;
+
+  const { data: message, error } = await supabase
+    .from("clinic_messages")
+    .select(
+      "id, clinic_id, status, read_at, message_type, caller_name, caller_phone, message_content, metadata, vapi_call_id",
+    )
+    .eq("id", messageId)
+    .maybeSingle();
+
+  if (error || !message) {
+    logger.error("Clinic message not found for Slack action", {
+      messageId,
+      action: record.action,
+      error: error?.message,
+    });
+    return false;
+  }
+
+  if (!(await isTeamLinkedToClinic(supabase, teamId, message.clinic_id))) {
+    logger.warn("Rejected Slack action from a team not linked to the clinic", {
+      messageId,
+      clinicId: message.clinic_id,
+      teamId,
+      action: record.action,
+      slackUserId: user.id,
+    });
+    return false;
+  }
+
+  const isResolved = message.status === "resolved";
+  const handling = {
+    action: record.action,
+    slack_user_id: user.id,
+    slack_username: username,
+    at: now,
+    ...(record.callbackAt && { callback_scheduled_for: record.callbackAt }),
+  };
+  const metadata: Record<string, unknown> = {
+    ...asObject(message.metadata),
+    slack_handling: handling,
+  };
+  if (record.action === "assign") {
+    metadata.slack_assignee = { slack_user_id: user.id, name: username };
+  }
+  if (record.callbackAt) {
+    metadata.callback_scheduled_for = record.callbackAt;
+    metadata.callback_note = context.note ?? null;
+  }
+
+  const { error: messageError } = await supabase
+    .from("clinic_messages")
+    .update({
+      status: record.action === "resolve" || isResolved ? "resolved" : "read",
+      read_at: message.read_at ?? now,
+      metadata: metadata as Json,
+      updated_at: now,
+    })
+    .eq("id", message.id);
+
+  if (messageError) {
+    logger.error("Failed to update clinic message from Slack", {
+      messageId,
+      action: record.action,
+      error: messageError.message,
+    });
+  }
+
+  const inboundCallId = message.vapi_call_id
+    ? await updateInboundCall(supabase, message.vapi_call_id, record, handling)
+    : null;
+
+  await trackSlackTask(supabase, {
+    message,
+    inboundCallId,
+    record,
+    user,
+    username,
+    context,
+    completedAt: now,
+  });
+
+  logger.info("Slack message action recorded", {
+    messageId,
+    clinicId: message.clinic_id,
+    action: record.action,
+    slackUserId: user.id,
+  });
+  return true;
+}
+
+/**
+ * Whether a Slack team may act on a clinic's messages
+ *
+ * An installed workspace must be active and route at least one notification
+ * type for the clinic. A team with no installation is the workspace behind
+ * SLACK_BOT_TOKEN, which gets every notification a clinic hasn't routed.
+ */
+async function isTeamLinkedToClinic(
+  supabase: SupabaseClientType,
+  teamId: string,
+  clinicId: string,
+): Promise<boolean> {
+  const { data: workspace, error } = await supabase
+    .from("slack_workspaces")
+    .select("id, is_active")
+    .eq("team_id", teamId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to load Slack workspace", {
+      teamId,
+      error: error.message,
+    });
+    return false;
+  }
+  if (!workspace) return isEnvSlackConfigured();
+  if (!workspace.is_active) return false;
+
+  const { data: routes, error: routeError } = await supabase
+    .from("slack_notification_routes")
+    .select("id")
+    .eq("workspace_id", workspace.id)
+    .eq("clinic_id", clinicId)
+    .limit(1);
+
+  if (routeError) {
+    logger.error("Failed to load Slack routes for clinic", {
+      teamId,
+      clinicId,
+      error: routeError.message,
+    });
+    return false;
+  }
+
+  return (routes?.length ?? 0) > 0;
+}
+
+/**
+ * Mirror the action onto the inbound call the message came from
+ *
+ * @returns inbound_vapi_calls.id, or null when the call isn't stored
+ */
+async function updateInboundCall(
+  supabase: SupabaseClientType,
+  vapiCallId: string,
+  record: MessageActionRecord,
+  handling: Record<string, unknown>,
+): Promise<string | null> {
+  const { data: call } = await supabase
+    .from("inbound_vapi_calls")
+    .select("id, metadata")
+    .eq("vapi_call_id", vapiCallId)
+    .maybeSingle();
+
+  if (!call) return null;
+
+  const { error } = await supabase
+    .from("inbound_vapi_calls")
+    .update({
+      ...(record.action === "resolve" && { action_confirmed: true }),
+      metadata: {
+        ...asObject(call.metadata),
+        slack_handling: handling,
+      } as Json,
+      updated_at: handling.at as string,
+    })
+    .eq("id", call.id);
+
+  if (error) {
+    logger.error("Failed to update inbound call from Slack", {
+      vapiCallId,
+      action: record.action,
+      error: error.message,
+    });
+  }
+
+  return call.id;
+}
+
+/**
+ * Track the message in slack_tasks (one per clinic message) and log the
+ * action in slack_task_completions
+ */
+async function trackSlackTask(
+  supabase: SupabaseClientType,
+  params: {
+    message: {
+      id: string;
+      clinic_id: string;
+      message_type: string;
+      caller_name: string | null;
+      caller_phone: string;
+      message_content: string;
+    };
+    inboundCallId: string | null;
+    record: MessageActionRecord;
+    user: SlackInteractionUser;
+    username: string | null;
+    context: { channelId?: string; messageTs?: string };
+    completedAt: string;
+  },
+): Promise<void> {
+  const { message, record, user, username, context, completedAt } = params;
+
+  const { data: existing } = await supabase
+    .from("slack_tasks")
+    .select("id, status")
+    .eq("clinic_message_id", message.id)
+    .maybeSingle();
+
+  // A resolved task stays resolved; later actions are still logged
+  const status =
+    existing?.status === "resolved" ? "resolved" : TASK_STATUS[record.action];
+  const taskUpdate = {
+    status,
+    ...(record.action === "assign" && {
+      assigned_to_slack_user_id: user.id,
+      assigned_to_slack_username: username,
+    }),
+    ...(record.callbackAt && { callback_scheduled_for: record.callbackAt }),
+    updated_at: completedAt,
+  };
+
+  let taskId = existing?.id;
+  if (taskId) {
+    const { error } = await supabase
+      .from("slack_tasks")
+      .update(taskUpdate)
+      .eq("id", taskId);
+    if (error) {
+      logger.error("Failed to update Slack task", {
+        taskId,
+        error: error.message,
+      });
+    }
+  } else {
+    const caller = message.caller_name ?? message.caller_phone;
+    const { data: created, error } = await supabase
+      .from("slack_tasks")
+      .insert({
+        ...taskUpdate,
+        title:
+          message.message_type === "emergency_triage"
+            ? `Emergency: ${caller}`
+            : `Callback: ${caller}`,
+        description: message.message_content,
+        created_by_user_id: user.id,
+        clinic_id: message.clinic_id,
+        clinic_message_id: message.id,
+        inbound_call_id: params.inboundCallId,
+        slack_channel_id: context.channelId ?? null,
+        slack_message_ts: context.messageTs ?? null,
+      })
+      .select("id")
+      .single();
+    if (error) {
+      logger.error("Failed to create Slack task", {
+        messageId: message.id,
+        error: error.message,
+      });
+      return;
+    }
+    taskId = created.id;
+  }
+
+  const { error: completionError } = await supabase
+    .from("slack_task_completions")
+    .insert({
+      task_id: taskId,
+      action: record.action,
+      completed_by_user_id: user.id,
+      completed_by_username: username,
+      completion_date: completedAt.slice(0, 10),
+      completed_at: completedAt,
+      message_ts: context.messageTs ?? null,
+    });
+
+  if (completionError) {
+    logger.error("Failed to record Slack task completion", {
+      taskId,
+      error: completionError.message,
+    });
+  }
+}
+
+function asObject(value: Json | null): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? value
+    : {};
+}
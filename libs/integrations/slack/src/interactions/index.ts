@@ -0,0 +1,28 @@
+/**
+ * Slack Interactions Module
+ *
+ * Exports for the interactivity endpoint and message action buttons.
+ */
+
+export { handleSlackInteraction } from "./handler";
+
+export {
+  applyMessageAction,
+  buildMessageActionsBlock,
+  buildScheduleCallbackModal,
+  describeMessageAction,
+  getMessageIdFromBlockId,
+} from "./blocks";
+
+export {
+  MESSAGE_ACTION_IDS,
+  SCHEDULE_CALLBACK_CALLBACK_ID,
+  type MessageAction,
+  type MessageActionRecord,
+  type ScheduleCallbackMetadata,
+  type SlackBlockActionsPayload,
+  type SlackInteractionPayload,
+  type SlackInteractionResponse,
+  type SlackInteractionUser,
+  type SlackViewSubmissionPayload,
+} from "./types";
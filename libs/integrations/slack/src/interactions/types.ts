@@ -0,0 +1,123 @@
+/**
+ * Slack Interaction Types
+ *
+ * Payloads Slack posts to the interactivity endpoint, and the actions
+ * available on clinic message notifications.
+ * @see https://api.slack.com/reference/interaction-payloads
+ */
+
+import type { KnownBlock } from "@slack/types";
+
+/**
+ * Actions on emergency and callback request notifications
+ */
+export type MessageAction =
+  "acknowledge" | "assign" | "resolve" | "schedule_callback";
+
+/**
+ * Button action_id per message action
+ */
+export const MESSAGE_ACTION_IDS: Record<MessageAction, string> = {
+  acknowledge: "message_acknowledge",
+  assign: "message_assign",
+  resolve: "message_resolve",
+  schedule_callback: "message_schedule_callback",
+};
+
+/**
+ * callback_id of the schedule callback modal
+ */
+export const SCHEDULE_CALLBACK_CALLBACK_ID = "schedule_callback";
+
+/**
+ * Slack user who triggered an interaction
+ */
+export interface SlackInteractionUser {
+  id: string;
+  username?: string;
+  name?: string;
+  team_id?: string;
+}
+
+/**
+ * Button click (or other block element interaction) on a message
+ */
+export interface SlackBlockActionsPayload {
+  type: "block_actions";
+  team: { id: string; domain?: string };
+  user: SlackInteractionUser;
+  trigger_id: string;
+  response_url?: string;
+  channel?: { id: string; name?: string };
+  container?: { message_ts?: string; channel_id?: string };
+  message?: { ts: string; text?: string; blocks?: KnownBlock[] };
+  actions: {
+    action_id: string;
+    block_id: string;
+    value?: string;
+    type: string;
+  }[];
+}
+
+/**
+ * Modal submission
+ */
+export interface SlackViewSubmissionPayload {
+  type: "view_submission";
+  team: { id: string; domain?: string };
+  user: SlackInteractionUser;
+  view: {
+    id: string;
+    callback_id: string;
+    private_metadata?: string;
+    state: {
+      values: Record<
+        string,
+        Record<
+          string,
+          {
+            type: string;
+            value?: string | null;
+            selected_date_time?: number | null;
+          }
+        >
+      >;
+    };
+  };
+}
+
+export type SlackInteractionPayload =
+  SlackBlockActionsPayload | SlackViewSubmissionPayload | { type: string };
+
+/**
+ * Response body for the interactivity endpoint
+ * Only view submissions use it (to show validation errors in the modal).
+ */
+export interface SlackInteractionResponse {
+  response_action: "errors";
+  errors: Record<string, string>;
+}
+
+/**
+ * Context carried through the schedule callback modal
+ *
+ * `blocks` is the original message, so it can be edited on submit; it is
+ * left out when it would not fit in private_metadata (3000 characters).
+ */
+export interface ScheduleCallbackMetadata {
+  messageId: string;
+  channelId?: string;
+  messageTs?: string;
+  responseUrl?: string;
+  blocks?: KnownBlock[];
+}
+
+/**
+ * Who handled a message and how, as shown on the Slack message
+ */
+export interface MessageActionRecord {
+  action: MessageAction;
+  slackUserId: string;
+  /** ISO timestamp of the scheduled callback */
+  callbackAt?: string;
+}
@@ -0,0 +1,150 @@
+/**
+ * Tests for Slack notification routing
+ * - Quiet hours in the clinic's timezone, including windows over midnight
+ * - Send / queue / drop decisions per route
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { SlackNotificationPreferences } from "@odis-ai/shared/validators";
+import {
+  decideDelivery,
+  isInQuietHours,
+  type ResolvedNotificationRoute,
+} from "../routing";
+
+vi.mock("../../../../../data-access/db/src/server", () => ({
+  createServiceClient: vi.fn(),
+}));
+
+const TIMEZONE = "America/Los_Angeles";
+
+const DEFAULT_PREFERENCES: SlackNotificationPreferences = {
+  quietHours: null,
+  quietHoursBypassSeverity: "critical",
+  morningDigestTime: "07:00",
+};
+
+// 2026-01-15 is in PST (UTC-8)
+const at = (localTime: string) => new Date(`2026-01-15T${localTime}:00-08:00`);
+
+const overnight = {
+  ...DEFAULT_PREFERENCES,
+  quietHours: { start: "22:00", end: "07:00" },
+};
+
+function route(
+  overrides: Partial<ResolvedNotificationRoute> = {},
+): ResolvedNotificationRoute {
+  return {
+    routeId: "route-1",
+    clinicId: "clinic-1",
+    teamId: "T123",
+    channelId: "C123",
+    minSeverity: "info",
+    deliveryMode: "immediate",
+    isEnabled: true,
+    preferences: DEFAULT_PREFERENCES,
+    timezone: TIMEZONE,
+    ...overrides,
+  };
+}
+
+describe("isInQuietHours", () => {
+  it("is never quiet without quiet hours", () => {
+    expect(isInQuietHours(at("03:00"), DEFAULT_PREFERENCES, TIMEZONE)).toBe(
+      false,
+    );
+  });
+
+  it("handles a window within one day", () => {
+    const lunch = {
+      ...DEFAULT_PREFERENCES,
+      quietHours: { start: "12:00", end: "13:00" },
+    };
+
+    expect(isInQuietHours(at("12:00"), lunch, TIMEZONE)).toBe(true);
+    expect(isInQuietHours(at("12:59"), lunch, TIMEZONE)).toBe(true);
+    expect(isInQuietHours(at("13:00"), lunch, TIMEZONE)).toBe(false);
+    expect(isInQuietHours(at("11:59"), lunch, TIMEZONE)).toBe(false);
+  });
+
+  it("handles a window that wraps midnight", () => {
+    expect(isInQuietHours(at("23:30"), overnight, TIMEZONE)).toBe(true);
+    expect(isInQuietHours(at("06:59"), overnight, TIMEZONE)).toBe(true);
+    expect(isInQuietHours(at("07:00"), overnight, TIMEZONE)).toBe(false);
+    expect(isInQuietHours(at("21:59"), overnight, TIMEZONE)).toBe(false);
+  });
+
+  it("uses the clinic's timezone", () => {
+    // 23:30 in Los Angeles is 02:30 in New York
+    expect(isInQuietHours(at("23:30"), overnight, "America/New_York")).toBe(
+      true,
+    );
+    // 20:00 in Los Angeles is 23:00 in New York
+    expect(isInQuietHours(at("20:00"), overnight, "America/New_York")).toBe(
+      true,
+    );
+    expect(isInQuietHours(at("20:00"), overnight, TIMEZONE)).toBe(false);
+  });
+});
+
+describe("decideDelivery", () => {
+  it("sends immediately on an enabled route", () => {
+    expect(decideDelivery(route(), "info", at("10:00"))).toEqual({
+      action: "send",
+    });
+  });
+
+  it("drops notifications on a disabled route", () => {
+    expect(
+      decideDelivery(route({ isEnabled: false }), "critical", at("10:00")),
+    ).toEqual({ action: "drop", reason: "Route disabled" });
+  });
+
+  it("drops notifications below the route's minimum severity", () => {
+    expect(
+      decideDelivery(route({ minSeverity: "error" }), "warning", at("10:00")),
+    ).toEqual({ action: "drop", reason: "Severity warning below error" });
+  });
+
+  it("queues for the digest on digest routes", () => {
+    expect(
+      decideDelivery(route({ deliveryMode: "digest" }), "error", at("10:00")),
+    ).toEqual({ action: "queue", reason: "digest" });
+  });
+
+  it("holds notifications during quiet hours", () => {
+    expect(
+      decideDelivery(route({ preferences: overnight }), "error", at("23:00")),
+    ).toEqual({ action: "queue", reason: "quiet_hours" });
+  });
+
+  it("lets the bypass severity through quiet hours", () => {
+    expect(
+      decideDelivery(
+        route({ preferences: overnight }),
+        "critical",
+        at("23:00"),
+      ),
+    ).toEqual({ action: "send" });
+    expect(
+      decideDelivery(
+        route({
+          preferences: { ...overnight, quietHoursBypassSeverity: "warning" },
+        }),
+        "warning",
+        at("23:00"),
+      ),
+    ).toEqual({ action: "send" });
+  });
+
+  it("applies the severity filter before quiet hours", () => {
+    expect(
+      decideDelivery(
+        route({ minSeverity: "error", preferences: overnight }),
+        "info",
+        at("23:00"),
+      ),
+    ).toMatchObject({ action: "drop" });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Slack Notification Queue
+ *
+ * Holds notifications for routes in digest mode and for clinics in quiet
+ * hours, and delivers them in batches from the hourly slack-digest cron.
+ */
+
+import type { KnownBlock } from "@slack/types";
+import { loggers } from "@odis-ai/shared/logger";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import type { Json } from "@odis-ai/shared/types";
+import { slackClient } from "../client";
+import { ensureSlackClientInitialized } from "../init";
+import { formatNotification } from "./formatters";
+import {
+  isInQuietHours,
+  parseNotificationPreferences,
+  type ResolvedNotificationRoute,
+} from "./routing";
+import type { SlackNotificationType, SlackSeverity } from "./types";
+
+const logger = loggers.webhook.child("slack-digest");
+
+/** Slack rejects messages with more than 50 blocks */
+const MAX_BLOCKS_PER_MESSAGE = 48;
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+export interface FlushQueueResult {
+  routesProcessed: number;
+  notificationsDelivered: number;
+  /** Still held because the clinic is in quiet hours */
+  notificationsHeld: number;
+  errors: number;
+}
+
+/**
+ * Hold a notification for later delivery
+ */
+export async function queueNotification(
+  route: ResolvedNotificationRoute,
+  type: SlackNotificationType,
+  data: unknown,
+  severity: SlackSeverity,
+  reason: "digest" | "quiet_hours",
+): Promise<void> {
+  const supabase = await createServiceClient();
+
+  const { error } = await supabase.from("slack_notification_queue").insert({
+    clinic_id: route.clinicId,
+    route_id: route.routeId,
+    notification_type: type,
+    severity,
+    payload: data as Json,
+    reason,
+  });
+
+  if (error) {
+    throw new Error(`Failed to queue Slack notification: ${error.message}`);
+  }
+}
+
+/**
+ * Split queued notifications into messages under the block limit
+ */
+function buildDigestMessages(
+  items: { type: SlackNotificationType; payload: unknown }[],
+): KnownBlock[][] {
+  const messages: KnownBlock[][] = [];
+  let current: KnownBlock[] = [];
+
+  for (const item of items) {
+    const blocks: KnownBlock[] = [
+      { type: "divider" },
+      ...formatNotification(item.type, item.payload),
+    ];
+    if (
+      current.length > 0 &&
+      current.length + blocks.length > MAX_BLOCKS_PER_MESSAGE - 1
+    ) {
+      messages.push(current);
+      current = [];
+    }
+    current.push(...blocks);
+  }
+  if (current.length > 0) messages.push(current);
+
+  return messages.map((blocks, index) => [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text:
+          index === 0
+            ? `:inbox_tray: *${items.length} notification${items.length === 1 ? "" : "s"} since the last digest*`
+            : `:inbox_tray: *Digest (continued)*`,
+      },
+    },
+    ...blocks,
+  ]);
+}
+
+/**
+ * Deliver queued notifications, one digest per route
+ *
+ * Routes whose clinic is still in quiet hours stay queued until the first
+ * run after quiet hours end.
+ */
+export async function flushNotificationQueue(
+  now: Date = new Date(),
+): Promise<FlushQueueResult> {
+  const supabase = await createServiceClient();
+  ensureSlackClientInitialized();
+
+  const { data: pending, error } = await supabase
+    .from("slack_notification_queue")
+    .select(
+      "id, notification_type, payload, route:slack_notification_routes(id, channel_id, workspace:slack_workspaces(team_id, is_active)), clinic:clinics(slack_notification_preferences, timezone)",
+    )
+    .is("delivered_at", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(
+      `Failed to load Slack notification queue: ${error.message}`,
+    );
+  }
+
+  const result: FlushQueueResult = {
+    routesProcessed: 0,
+    notificationsDelivered: 0,
+    notificationsHeld: 0,
+    errors: 0,
+  };
+
+  // Embedded relations come back as arrays on the untyped service client
+  const queued = (pending ?? []).map((row) => {
+    const route = Array.isArray(row.route) ? row.route[0] : row.route;
+    return {
+      ...row,
+      route: route && {
+        ...route,
+        workspace: Array.isArray(route.workspace)
+          ? route.workspace[0]
+          : route.workspace,
+      },
+      clinic: Array.isArray(row.clinic) ? row.clinic[0] : row.clinic,
+    };
+  });
+
+  type QueueRow = (typeof queued)[number];
+  const byRoute = new Map<string, QueueRow[]>();
+  for (const row of queued) {
+    if (!row.route) continue;
+    const group = byRoute.get(row.route.id) ?? [];
+    group.push(row);
+    byRoute.set(row.route.id, group);
+  }
+
+  for (const [routeId, rows] of byRoute) {
+    const first = rows[0];
+    const route = first?.route;
+    if (!first || !route?.workspace?.is_active) continue;
+
+    const preferences = parseNotificationPreferences(
+      first.clinic?.slack_notification_preferences,
+    );
+    if (
+      isInQuietHours(
+        now,
+        preferences,
+        first.clinic?.timezone ?? DEFAULT_TIMEZONE,
+      )
+    ) {
+      result.notificationsHeld += rows.length;
+      continue;
+    }
+
+    result.routesProcessed++;
+
+    try {
+      const messages = buildDigestMessages(
+        rows.map((row: QueueRow) => ({
+          type: row.notification_type as SlackNotificationType,
+          payload: row.payload,
+        })),
+      );
+
+      for (const blocks of messages) {
+        const response = await slackClient.postMessage(
+          route.workspace.team_id,
+          {
+            channel: route.channel_id,
+            blocks,
+            text: `${rows.length} Slack notifications since the last digest`,
+          },
+        );
+        if (!response.ok) {
+          throw new Error(response.error ?? "Unknown Slack error");
+        }
+      }
+
+      await supabase
+        .from("slack_notification_queue")
+        .update({ delivered_at: now.toISOString() })
+        .in(
+          "id",
+          rows.map((row: QueueRow) => row.id),
+        );
+
+      result.notificationsDelivered += rows.length;
+    } catch (flushError) {
+      result.errors++;
+      logger.error("Failed to deliver Slack digest", {
+        routeId,
+        error:
+          flushError instanceof Error ? flushError.message : String(flushError),
+      });
+    }
+  }
+
+  logger.info("Slack notification queue flushed", { ...result });
+  return result;
+}
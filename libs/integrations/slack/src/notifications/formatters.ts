@@ -6,13 +6,21 @@
  */
 
 import type { KnownBlock } from "@slack/types";
+import { buildMessageActionsBlock } from "../interactions/blocks";
+import {
+  buildAttentionBlocks,
+  buildCallStatsBlock,
+  buildOutreachBlock,
+} from "../commands/blocks";
 import type {
   SlackNotificationType,
   AppointmentBookedPayload,
   EmergencyTriagePayload,
+  CallbackRequestPayload,
   CallFailedPayload,
   SyncErrorPayload,
   AdminAlertPayload,
+  MorningDigestPayload,
 } from "./types";
 
 /**
@@ -136,6 +144,77 @@ function formatEmergencyTriage(data: EmergencyTriagePayload): KnownBlock[] {
     });
   }
 
+  if (data.messageId) {
+    blocks.push(buildMessageActionsBlock(data.messageId));
+  }
+
+  return blocks;
+}
+
+/**
+ * Format callback request notification
+ */
+function formatCallbackRequest(data: CallbackRequestPayload): KnownBlock[] {
+  const fields: string[] = [
+    `*Clinic:* ${data.clinicName}`,
+    `*Caller:* ${data.callerName ?? "Unknown"}`,
+    `*Phone:* ${data.phone}`,
+  ];
+
+  if (data.petName) {
+    fields.push(`*Pet:* ${data.petName}`);
+  }
+
+  if (data.messageType && data.messageType !== "general") {
+    fields.push(`*Category:* ${data.messageType}`);
+  }
+
+  if (data.bestCallbackTime) {
+    fields.push(`*Best Time:* ${data.bestCallbackTime}`);
+  }
+
+  const blocks: KnownBlock[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: data.isUrgent
+          ? `:warning: *Urgent Callback Requested*`
+          : `:telephone_receiver: *Callback Requested*`,
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: fields.join("\n"),
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `>${data.message.replace(/\n/g, "\n>")}`,
+      },
+    },
+  ];
+
+  if (data.callId) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `_Call ID: ${data.callId}_`,
+        },
+      ],
+    });
+  }
+
+  if (data.messageId) {
+    blocks.push(buildMessageActionsBlock(data.messageId));
+  }
+
   return blocks;
 }
 
@@ -279,6 +358,36 @@ function formatAdminAlert(data: AdminAlertPayload): KnownBlock[] {
   return blocks;
 }
 
+/**
+ * Format the per-clinic morning digest
+ */
+function formatMorningDigest(data: MorningDigestPayload): KnownBlock[] {
+  const blocks: KnownBlock[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `:sunrise: *Good morning, ${data.clinicName}* · ${data.date}`,
+      },
+    },
+    buildCallStatsBlock("Yesterday", data.yesterday),
+    ...buildAttentionBlocks(data.attention),
+    buildOutreachBlock("Scheduled today", data.scheduledToday),
+  ];
+
+  if (data.dashboardUrl) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `<${data.dashboardUrl}|Open dashboard →>`,
+      },
+    });
+  }
+
+  return blocks;
+}
+
 /**
  * Registry of formatters for each notification type
  */
@@ -288,9 +397,11 @@ export const formatters: Record<
 > = {
   appointment_booked: formatAppointmentBooked as NotificationFormatter<unknown>,
   emergency_triage: formatEmergencyTriage as NotificationFormatter<unknown>,
+  callback_request: formatCallbackRequest as NotificationFormatter<unknown>,
   call_failed: formatCallFailed as NotificationFormatter<unknown>,
   sync_error: formatSyncError as NotificationFormatter<unknown>,
   admin_alert: formatAdminAlert as NotificationFormatter<unknown>,
+  morning_digest: formatMorningDigest as NotificationFormatter<unknown>,
 };
 
 /**
@@ -2,7 +2,9 @@
  * Slack Notification Service
  *
  * Generic notification service for sending typed notifications to Slack.
- * Uses environment-based configuration for single-workspace setup.
+ * Notifications about a clinic follow its routing rules (workspace, channel,
+ * severity filter, quiet hours, digest); everything else uses the
+ * environment-based single-workspace setup.
  *
  * @example
  * ```ts
@@ -20,8 +22,20 @@
  */
 
 import { loggers } from "@odis-ai/shared/logger";
-import { getEnvSlackClient, isEnvSlackConfigured } from "../client";
+import {
+  getEnvSlackClient,
+  isEnvSlackConfigured,
+  slackClient,
+} from "../client";
+import { ensureSlackClientInitialized } from "../init";
 import { formatNotification } from "./formatters";
+import {
+  decideDelivery,
+  getNotificationSeverity,
+  resolveNotificationRoute,
+  type ResolvedNotificationRoute,
+} from "./routing";
+import { queueNotification } from "./digest";
 import type {
   SlackNotificationType,
   NotificationPayloadMap,
@@ -34,16 +48,100 @@ const logger = loggers.webhook.child("slack-notifications");
 // Re-export types for convenience
 export * from "./types";
 export { formatNotification, formatters, getFormatter } from "./formatters";
+export {
+  decideDelivery,
+  getNotificationSeverity,
+  isInQuietHours,
+  meetsSeverity,
+  parseNotificationPreferences,
+  resolveNotificationRoute,
+} from "./routing";
+export type { DeliveryDecision, ResolvedNotificationRoute } from "./routing";
+export { flushNotificationQueue, queueNotification } from "./digest";
+export type { FlushQueueResult } from "./digest";
+
+/**
+ * Result of sending a notification
+ */
+export interface SendNotificationResult {
+  ok: boolean;
+  error?: string;
+  /** Held for the digest or until quiet hours end */
+  queued?: boolean;
+  /** Why a routing rule dropped the notification */
+  skipped?: string;
+}
+
+/**
+ * Deliver a notification according to the clinic's route
+ */
+async function sendRoutedNotification<T extends SlackNotificationType>(
+  type: T,
+  data: NotificationPayloadMap[T],
+  route: ResolvedNotificationRoute,
+  options?: SendNotificationOptions,
+): Promise<SendNotificationResult> {
+  const severity = getNotificationSeverity(type, data);
+  const decision = decideDelivery(route, severity);
+
+  if (decision.action === "drop") {
+    logger.debug("Slack notification filtered by route", {
+      type,
+      clinicId: route.clinicId,
+      reason: decision.reason,
+    });
+    return { ok: true, skipped: decision.reason };
+  }
+
+  if (decision.action === "queue") {
+    await queueNotification(route, type, data, severity, decision.reason);
+    logger.info("Slack notification queued", {
+      type,
+      clinicId: route.clinicId,
+      reason: decision.reason,
+    });
+    return { ok: true, queued: true };
+  }
+
+  ensureSlackClientInitialized();
+  const result = await slackClient.postMessage(route.teamId, {
+    channel: route.channelId,
+    blocks: formatNotification(type, data),
+    text: `[${type.replace(/_/g, " ")}] New notification`,
+    threadTs: options?.threadTs,
+  });
+
+  if (!result.ok) {
+    logger.error("Slack API returned error", {
+      type,
+      clinicId: route.clinicId,
+      channel: route.channelId,
+      error: result.error,
+    });
+    return { ok: false, error: result.error ?? "Unknown error" };
+  }
+
+  logger.info("Slack notification sent", {
+    type,
+    clinicId: route.clinicId,
+    channel: route.channelId,
+    ts: result.ts,
+  });
+  return { ok: true };
+}
 
 /**
  * Send a Slack notification using the generic notification service.
  *
- * This function uses the SLACK_BOT_TOKEN environment variable for authentication,
- * which is suitable for single-workspace setups (like ODIS team notifications).
+ * With `options.clinicId`, the clinic's route for the notification type
+ * decides the workspace and channel and may filter, queue for the digest,
+ * or hold the notification during quiet hours. Without a route (or clinic),
+ * the SLACK_BOT_TOKEN environment variable and NOTIFICATION_CHANNELS are
+ * used, which suits single-workspace setups (like ODIS team notifications).
  *
  * @param type - Notification type (determines channel and formatting)
  * @param data - Notification payload (type-checked based on notification type)
- * @param options - Optional overrides for channel or threading
+ * @param options - Clinic for routing, or overrides for channel or threading
  * @returns Promise that resolves when notification is sent (or logs error)
  *
  * @example
@@ -55,6 +153,9 @@ export { formatNotification, formatters, getFormatter } from "./formatters";
  *   // ... other required fields
  * });
  *
+ * // Routed by the clinic's notification rules
+ * await sendSlackNotification('emergency_triage', payload, { clinicId });
+ *
  * // With channel override
  * await sendSlackNotification('admin_alert', {
  *   title: 'System Update',
@@ -66,7 +167,26 @@ export async function sendSlackNotification<T extends SlackNotificationType>(
   type: T,
   data: NotificationPayloadMap[T],
   options?: SendNotificationOptions,
-): Promise<{ ok: boolean; error?: string }> {
+): Promise<SendNotificationResult> {
+  if (options?.clinicId && !options.channel) {
+    try {
+      const route = await resolveNotificationRoute(options.clinicId, type);
+      if (route) {
+        return await sendRoutedNotification(type, data, route, options);
+      }
+    } catch (error) {
+      logger.error("Failed to send routed Slack notification", {
+        type,
+        clinicId: options.clinicId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
   // Check if Slack is configured
   if (!isEnvSlackConfigured()) {
     logger.debug("Slack not configured, skipping notification", { type });
@@ -0,0 +1,207 @@
+/**
+ * Slack Notification Routing
+ *
+ * Resolves where a clinic's notification goes (workspace + channel from
+ * slack_notification_routes) and whether it goes out now, waits for the
+ * digest / end of quiet hours, or is dropped by the severity filter.
+ */
+
+import { toZonedTime } from "date-fns-tz";
+import { createServiceClient } from "@odis-ai/data-access/db/server";
+import {
+  slackNotificationPreferencesSchema,
+  DEFAULT_SLACK_NOTIFICATION_PREFERENCES,
+  type SlackNotificationPreferences,
+} from "@odis-ai/shared/validators";
+import type {
+  NotificationPayloadMap,
+  SlackNotificationType,
+  SlackSeverity,
+} from "./types";
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+const SEVERITY_ORDER: readonly SlackSeverity[] = [
+  "info",
+  "warning",
+  "error",
+  "critical",
+];
+
+/**
+ * A clinic's route for one notification type
+ */
+export interface ResolvedNotificationRoute {
+  routeId: string;
+  clinicId: string;
+  /** Slack team ID used by the per-workspace client */
+  teamId: string;
+  channelId: string;
+  minSeverity: SlackSeverity;
+  deliveryMode: "immediate" | "digest";
+  isEnabled: boolean;
+  preferences: SlackNotificationPreferences;
+  timezone: string;
+}
+
+export type DeliveryDecision =
+  | { action: "send" }
+  | { action: "queue"; reason: "digest" | "quiet_hours" }
+  | { action: "drop"; reason: string };
+
+/**
+ * Severity of a notification, from its payload where it carries one
+ */
+export function getNotificationSeverity<T extends SlackNotificationType>(
+  type: T,
+  data: NotificationPayloadMap[T],
+): SlackSeverity {
+  switch (type) {
+    case "emergency_triage": {
+      const { urgency } = data as NotificationPayloadMap["emergency_triage"];
+      if (urgency === "critical") return "critical";
+      return urgency === "urgent" ? "error" : "warning";
+    }
+    case "callback_request":
+      return (data as NotificationPayloadMap["callback_request"]).isUrgent
+        ? "warning"
+        : "info";
+    case "admin_alert":
+      return (data as NotificationPayloadMap["admin_alert"]).severity ?? "info";
+    case "call_failed":
+    case "sync_error":
+      return "error";
+    default:
+      return "info";
+  }
+}
+
+/**
+ * Whether a severity is at or above a threshold
+ */
+export function meetsSeverity(
+  severity: SlackSeverity,
+  threshold: SlackSeverity,
+): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(threshold);
+}
+
+/**
+ * Whether `time` falls in the clinic's quiet hours (may wrap midnight)
+ */
+export function isInQuietHours(
+  time: Date,
+  preferences: SlackNotificationPreferences,
+  timezone: string,
+): boolean {
+  if (!preferences.quietHours) return false;
+
+  const zoned = toZonedTime(time, timezone);
+  const minute = zoned.getHours() * 60 + zoned.getMinutes();
+  const start = parseTimeOfDay(preferences.quietHours.start);
+  const end = parseTimeOfDay(preferences.quietHours.end);
+
+  return start <= end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+/**
+ * Decide what to do with a notification on a route
+ */
+export function decideDelivery(
+  route: ResolvedNotificationRoute,
+  severity: SlackSeverity,
+  now: Date = new Date(),
+): DeliveryDecision {
+  if (!route.isEnabled) {
+    return { action: "drop", reason: "Route disabled" };
+  }
+
+  if (!meetsSeverity(severity, route.minSeverity)) {
+    return {
+      action: "drop",
+      reason: `Severity ${severity} below ${route.minSeverity}`,
+    };
+  }
+
+  if (
+    isInQuietHours(now, route.preferences, route.timezone) &&
+    !meetsSeverity(severity, route.preferences.quietHoursBypassSeverity)
+  ) {
+    return { action: "queue", reason: "quiet_hours" };
+  }
+
+  if (route.deliveryMode === "digest") {
+    return { action: "queue", reason: "digest" };
+  }
+
+  return { action: "send" };
+}
+
+/**
+ * Parse stored clinic preferences, falling back to the defaults
+ */
+export function parseNotificationPreferences(
+  value: unknown,
+): SlackNotificationPreferences {
+  const parsed = slackNotificationPreferencesSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : DEFAULT_SLACK_NOTIFICATION_PREFERENCES;
+}
+
+/**
+ * Look up a clinic's route for a notification type
+ *
+ * @returns null when the clinic has no route for the type (or its workspace
+ * was uninstalled), in which case the env-based channel is used
+ */
+export async function resolveNotificationRoute(
+  clinicId: string,
+  type: SlackNotificationType,
+): Promise<ResolvedNotificationRoute | null> {
+  const supabase = await createServiceClient();
+
+  const { data: route, error } = await supabase
+    .from("slack_notification_routes")
+    .select(
+      "id, clinic_id, channel_id, min_severity, delivery_mode, is_enabled, workspace:slack_workspaces(team_id, is_active), clinic:clinics(slack_notification_preferences, timezone)",
+    )
+    .eq("clinic_id", clinicId)
+    .eq("notification_type", type)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to resolve Slack route: ${error.message}`);
+  }
+  if (!route) {
+    return null;
+  }
+
+  // Embedded relations come back as arrays on the untyped service client
+  const workspace = Array.isArray(route.workspace)
+    ? route.workspace[0]
+    : route.workspace;
+  const clinic = Array.isArray(route.clinic) ? route.clinic[0] : route.clinic;
+  if (!workspace?.is_active) {
+    return null;
+  }
+
+  return {
+    routeId: route.id,
+    clinicId: route.clinic_id,
+    teamId: workspace.team_id,
+    channelId: route.channel_id,
+    minSeverity: route.min_severity as SlackSeverity,
+    deliveryMode: route.delivery_mode === "digest" ? "digest" : "immediate",
+    isEnabled: route.is_enabled,
+    preferences: parseNotificationPreferences(
+      clinic?.slack_notification_preferences,
+    ),
+    timezone: clinic?.timezone ?? DEFAULT_TIMEZONE,
+  };
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours = 0, minutes = 0] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
@@ -10,19 +10,29 @@
 export type SlackNotificationType =
   | "appointment_booked"
   | "emergency_triage"
+  | "callback_request"
   | "call_failed"
   | "sync_error"
-  | "admin_alert";
+  | "admin_alert"
+  | "morning_digest";
 
 /**
- * Channel mapping for notification routing
+ * Notification severity, least to most severe
+ */
+export type SlackSeverity = "info" | "warning" | "error" | "critical";
+
+/**
+ * Default channel per notification type
+ * Used when the clinic has no route for the type in slack_notification_routes.
  */
 export const NOTIFICATION_CHANNELS: Record<SlackNotificationType, string> = {
   appointment_booked: process.env.SLACK_CHANNEL_APPOINTMENTS ?? "appointments",
   emergency_triage: process.env.SLACK_CHANNEL_EMERGENCIES ?? "emergencies",
+  callback_request: process.env.SLACK_CHANNEL_MESSAGES ?? "messages",
   call_failed: process.env.SLACK_CHANNEL_SYSTEM ?? "system-alerts",
   sync_error: process.env.SLACK_CHANNEL_SYSTEM ?? "system-alerts",
   admin_alert: process.env.SLACK_CHANNEL_SYSTEM ?? "system-alerts",
+  morning_digest: process.env.SLACK_CHANNEL_DIGEST ?? "clinic-digest",
 };
 
 /**
@@ -54,6 +64,26 @@ export interface EmergencyTriagePayload {
   action?: string;
   phone?: string;
   callId?: string;
+  /** clinic_messages.id; adds the acknowledge / assign / resolve actions */
+  messageId?: string;
+}
+
+/**
+ * Payload for callback request notifications (messages left with the
+ * assistant)
+ */
+export interface CallbackRequestPayload {
+  clinicName: string;
+  callerName?: string;
+  phone: string;
+  message: string;
+  messageType?: string;
+  isUrgent?: boolean;
+  petName?: string;
+  bestCallbackTime?: string;
+  callId?: string;
+  /** clinic_messages.id; adds the acknowledge / assign / resolve actions */
+  messageId?: string;
 }
 
 /**
@@ -86,26 +116,84 @@ export interface SyncErrorPayload {
 export interface AdminAlertPayload {
   title: string;
   message: string;
-  severity?: "info" | "warning" | "error" | "critical";
+  severity?: SlackSeverity;
   metadata?: Record<string, string | number | boolean>;
 }
 
+/**
+ * Call metrics for one day (same numbers as dashboard.getTodayStats)
+ */
+export interface OpsDayStats {
+  inbound: {
+    total: number;
+    completed: number;
+    transferred: number;
+    aiHandledRate: number;
+  };
+  outbound: {
+    total: number;
+    completed: number;
+    voicemail: number;
+    successful: number;
+    failed: number;
+    successRate: number;
+  };
+}
+
+/**
+ * Items needing attention (same numbers as dashboard.getCriticalActions)
+ */
+export interface OpsAttentionSummary {
+  totalCritical: number;
+  missingContact: number;
+  failedCalls: number;
+  healthConcerns: number;
+  callbackRequests: number;
+  /** Most urgent health concerns, for listing */
+  topConcerns?: { petName: string; ownerName: string; summary: string }[];
+}
+
+/**
+ * Discharge outreach still queued for a day
+ */
+export interface OpsScheduledOutreach {
+  calls: number;
+  emails: number;
+}
+
+/**
+ * Payload for the per-clinic morning digest
+ */
+export interface MorningDigestPayload {
+  clinicName: string;
+  /** Display date for the digest, e.g. "Tuesday, Mar 10" */
+  date: string;
+  yesterday: OpsDayStats;
+  attention: OpsAttentionSummary;
+  scheduledToday: OpsScheduledOutreach;
+  dashboardUrl?: string;
+}
+
 /**
  * Map notification types to their payload types
  */
 export interface NotificationPayloadMap {
   appointment_booked: AppointmentBookedPayload;
   emergency_triage: EmergencyTriagePayload;
+  callback_request: CallbackRequestPayload;
   call_failed: CallFailedPayload;
   sync_error: SyncErrorPayload;
   admin_alert: AdminAlertPayload;
+  morning_digest: MorningDigestPayload;
 }
 
 /**
  * Options for sending notifications
  */
 export interface SendNotificationOptions {
-  /** Override the default channel for this notification type */
+  /** Clinic the notification is about; enables its routing rules */
+  clinicId?: string;
+  /** Override the default channel for this notification type (skips routing) */
   channel?: string;
   /** Thread timestamp to reply to an existing message */
   threadTs?: string;
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import { recordInboundSms } from "../inbox";
+
+/**
+ * Chainable query stub resolving every terminal call to the table's row
+ */
+function makeSupabase(rows: Record<string, unknown>) {
+  const rpc = vi.fn(async () => ({ data: "case-9", error: null }));
+  const from = vi.fn((table: string) => {
+    const result = { data: rows[table] ?? null, error: null };
+    const builder: Record<string, unknown> = {};
+    for (const op of [
+      "select",
+      "insert",
+      "upsert",
+      "eq",
+      "in",
+      "order",
+      "limit",
+    ]) {
+      builder[op] = () => builder;
+    }
+    builder.maybeSingle = async () => result;
+    builder.single = async () => result;
+    return builder;
+  });
+  return { supabase: { from, rpc } as unknown as SupabaseClientType, rpc };
+}
+
+describe("recordInboundSms", () => {
+  it("resolves the clinic through the injected lookup and counts the text in SQL", async () => {
+    const { supabase, rpc } = makeSupabase({
+      scheduled_discharge_sms: {
+        user_id: "user-1",
+        case_id: null,
+        recipient_name: "Sam",
+      },
+      sms_conversations: { id: "conv-1", urgency: null, unread_count: 4 },
+      sms_messages: { id: "msg-1" },
+    });
+    const resolveClinicId = vi.fn(async () => "clinic-1");
+
+    const result = await recordInboundSms(
+      supabase,
+      { from: "+15555550123", body: "He's vomiting again" },
+      resolveClinicId,
+    );
+
+    expect(resolveClinicId).toHaveBeenCalledWith("user-1");
+    expect(rpc).toHaveBeenCalledWith("record_sms_conversation_inbound", {
+      p_conversation_id: "conv-1",
+      p_preview: "He's vomiting again",
+      p_urgency: "urgent",
+    });
+    expect(result).toMatchObject({
+      conversationId: "conv-1",
+      messageId: "msg-1",
+      clinicId: "clinic-1",
+      caseId: "case-9",
+      urgency: "urgent",
+    });
+  });
+
+  it("returns null when no clinic has texted the number", async () => {
+    const { supabase, rpc } = makeSupabase({});
+
+    await expect(
+      recordInboundSms(
+        supabase,
+        { from: "+15555550123", body: "Hi" },
+        vi.fn(async () => null),
+      ),
+    ).resolves.toBeNull();
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { getKeywordReply, parseSmsKeyword } from "../keywords";
+import { computeTwilioSignature } from "../signature";
+
+describe("parseSmsKeyword", () => {
+  it("detects opt-out keywords regardless of case and punctuation", () => {
+    expect(parseSmsKeyword("STOP")).toEqual({
+      action: "opt_out",
+      keyword: "STOP",
+    });
+    expect(parseSmsKeyword("  unsubscribe. ")?.action).toBe("opt_out");
+  });
+
+  it("detects opt-in and help keywords", () => {
+    expect(parseSmsKeyword("start")?.action).toBe("opt_in");
+    expect(parseSmsKeyword("Help")?.action).toBe("help");
+  });
+
+  it("ignores keywords inside a normal reply", () => {
+    expect(parseSmsKeyword("please stop calling at night")).toBeNull();
+    expect(parseSmsKeyword("Max is doing great")).toBeNull();
+  });
+});
+
+describe("getKeywordReply", () => {
+  it("includes the clinic phone in help replies when known", () => {
+    expect(getKeywordReply("help", "Happy Paws", "(555) 123-4567")).toContain(
+      "(555) 123-4567",
+    );
+  });
+});
+
+describe("computeTwilioSignature", () => {
+  // Example from Twilio's webhook security docs
+  it("matches Twilio's documented signature", () => {
+    const signature = computeTwilioSignature(
+      "12345",
+      "https://mycompany.com/myapp.php?foo=1&bar=2",
+      {
+        CallSid: "CA1234567890ABCDE",
+        Caller: "+12349013030",
+        Digits: "1234",
+        From: "+12349013030",
+        To: "+18005551212",
+      },
+    );
+    expect(signature).toBe("0/KCTR6DLpKmkAf8muzZqo1nDgQ=");
+  });
+});
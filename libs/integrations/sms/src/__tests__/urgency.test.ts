@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { detectSmsUrgency, maxUrgency } from "../urgency";
+
+describe("detectSmsUrgency", () => {
+  it("returns the most severe matching level", () => {
+    expect(detectSmsUrgency("She's vomiting and now she collapsed")).toEqual({
+      urgency: "critical",
+      keywords: ["collapsed"],
+    });
+  });
+
+  it("matches whole phrases case-insensitively with curly apostrophes", () => {
+    expect(detectSmsUrgency("Max WON’T EAT his dinner")).toEqual({
+      urgency: "urgent",
+      keywords: ["won't eat"],
+    });
+    expect(detectSmsUrgency("the bloodwork looked fine").urgency).toBeNull();
+  });
+
+  it("returns null for routine replies", () => {
+    expect(detectSmsUrgency("Thanks, he's doing great!")).toEqual({
+      urgency: null,
+      keywords: [],
+    });
+  });
+});
+
+describe("maxUrgency", () => {
+  it("keeps the more severe level", () => {
+    expect(maxUrgency("monitor", "urgent")).toBe("urgent");
+    expect(maxUrgency("critical", "monitor")).toBe("critical");
+    expect(maxUrgency(null, "monitor")).toBe("monitor");
+    expect(maxUrgency(undefined, null)).toBeNull();
+  });
+});
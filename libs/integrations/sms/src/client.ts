@@ -0,0 +1,66 @@
+/**
+ * SMS Client Factory
+ *
+ * Picks the SMS provider from the environment:
+ * - SMS_PROVIDER=fake, or no Twilio credentials outside production: FakeSmsClient
+ * - Otherwise: TwilioSmsClient (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, and
+ *   TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID)
+ */
+
+import { FakeSmsClient } from "./fake-client";
+import type { ISmsClient } from "./sms-client.interface";
+import { TwilioSmsClient } from "./twilio-client";
+
+let smsClient: ISmsClient | null = null;
+
+/**
+ * Get the configured SMS client (created once per process)
+ *
+ * @throws Error in production when Twilio is not configured
+ */
+export function getSmsClient(): ISmsClient {
+  if (smsClient) return smsClient;
+
+  const accountSid = process.env.TWILIO_ACCOUNT_SID?.trim();
+  const authToken = process.env.TWILIO_AUTH_TOKEN?.trim();
+  const useFake =
+    process.env.SMS_PROVIDER === "fake" ||
+    ((!accountSid || !authToken) && process.env.NODE_ENV !== "production");
+
+  if (useFake) {
+    console.warn(
+      "[SMS_CLIENT] Using fake SMS provider - messages are not sent",
+    );
+    smsClient = new FakeSmsClient();
+    return smsClient;
+  }
+
+  if (!accountSid || !authToken) {
+    throw new Error(
+      "TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN must be set to send SMS",
+    );
+  }
+
+  smsClient = new TwilioSmsClient({
+    accountSid,
+    authToken,
+    fromNumber: process.env.TWILIO_FROM_NUMBER?.trim(),
+    messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID?.trim(),
+  });
+  return smsClient;
+}
+
+/**
+ * Override the SMS client (tests, scripts)
+ */
+export function setSmsClient(client: ISmsClient | null): void {
+  smsClient = client;
+}
+
+/**
+ * URL the provider posts delivery status updates to
+ */
+export function getSmsStatusCallbackUrl(): string | undefined {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+  return siteUrl ? `${siteUrl}/api/webhooks/sms/status` : undefined;
+}
@@ -0,0 +1,50 @@
+/**
+ * Fake SMS Client
+ *
+ * In-memory SMS provider for local development and tests. Messages are
+ * recorded instead of sent, and failures can be queued up front.
+ */
+
+import type { ISmsClient, SmsInput, SmsResponse } from "./sms-client.interface";
+
+export interface FakeSentSms extends SmsInput {
+  id: string;
+  sentAt: Date;
+}
+
+export class FakeSmsClient implements ISmsClient {
+  readonly provider = "fake";
+
+  /** Messages "sent" through this client, oldest first */
+  readonly sent: FakeSentSms[] = [];
+
+  private pendingFailures: Error[] = [];
+
+  /**
+   * Make the next send() call throw
+   */
+  failNext(error: Error = new Error("Fake SMS failure")): void {
+    this.pendingFailures.push(error);
+  }
+
+  async send(sms: SmsInput): Promise<SmsResponse> {
+    const failure = this.pendingFailures.shift();
+    if (failure) throw failure;
+
+    const id = `fake_${crypto.randomUUID()}`;
+    this.sent.push({ ...sms, id, sentAt: new Date() });
+
+    console.log("[FAKE_SMS] Recorded message", {
+      id,
+      to: sms.to,
+      length: sms.body.length,
+    });
+
+    return { id, status: "sent" };
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.pendingFailures = [];
+  }
+}
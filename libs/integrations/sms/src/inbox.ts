@@ -0,0 +1,282 @@
+/**
+ * SMS Conversation Inbox
+ *
+ * Persists two-way text threads (sms_conversations / sms_messages). Each
+ * thread is one clinic talking to one owner phone, linked to the client,
+ * patient and case of the latest discharge text sent to that number.
+ */
+
+import type { Database } from "@odis-ai/shared/types";
+import type { SupabaseClientType } from "@odis-ai/shared/types/supabase";
+import { detectSmsUrgency, type SmsUrgencyResult } from "./urgency";
+
+type SmsConversationInsert =
+  Database["public"]["Tables"]["sms_conversations"]["Insert"];
+
+const PREVIEW_LENGTH = 140;
+
+/**
+ * Look up the id of the clinic a user belongs to (null if none)
+ * Callers pass the clinics domain lookup, which this lib can't depend on.
+ */
+export type ClinicIdResolver = (userId: string) => Promise<string | null>;
+
+export interface ThreadContext {
+  clinicId: string;
+  ownerPhone: string;
+  ownerName?: string | null;
+  clientId?: string | null;
+  patientId?: string | null;
+  caseId?: string | null;
+}
+
+export interface InboundSmsInput {
+  /** Sender phone (E.164) */
+  from: string;
+  body: string;
+  providerMessageId?: string;
+}
+
+export interface InboundSmsResult extends SmsUrgencyResult {
+  conversationId: string;
+  messageId: string;
+  clinicId: string;
+  caseId: string | null;
+}
+
+export interface OutboundSmsRecord {
+  conversationId: string;
+  body: string;
+  status: "queued" | "sent" | "delivered" | "failed";
+  providerMessageId?: string;
+  /** Staff member replying from the dashboard */
+  sentByUserId?: string;
+  scheduledSmsId?: string;
+  aiSuggested?: boolean;
+}
+
+function preview(body: string): string {
+  return body.length > PREVIEW_LENGTH
+    ? `${body.slice(0, PREVIEW_LENGTH - 1)}…`
+    : body;
+}
+
+/**
+ * Resolve the clinic, patient and client behind a case sent by a user
+ */
+export async function resolveThreadContext(
+  supabase: SupabaseClientType,
+  params: {
+    userId: string;
+    ownerPhone: string;
+    ownerName?: string | null;
+    caseId?: string | null;
+  },
+  resolveClinicId: ClinicIdResolver,
+): Promise<ThreadContext | null> {
+  const clinicId = await resolveClinicId(params.userId);
+  if (!clinicId) return null;
+
+  let patientId: string | null = null;
+  let clientId: string | null = null;
+  let ownerName = params.ownerName ?? null;
+
+  if (params.caseId) {
+    const { data: patient } = await supabase
+      .from("patients")
+      .select("id, client_id, owner_name")
+      .eq("case_id", params.caseId)
+      .limit(1)
+      .maybeSingle();
+
+    patientId = patient?.id ?? null;
+    clientId = patient?.client_id ?? null;
+    ownerName = ownerName ?? patient?.owner_name ?? null;
+  }
+
+  return {
+    clinicId,
+    ownerPhone: params.ownerPhone,
+    ownerName,
+    clientId,
+    patientId,
+    caseId: params.caseId ?? null,
+  };
+}
+
+/**
+ * Get the thread for a clinic and owner phone, creating it if needed.
+ * Context fields that are provided replace the thread's current links.
+ */
+export async function upsertConversation(
+  supabase: SupabaseClientType,
+  context: ThreadContext,
+): Promise<{ id: string; urgency: string | null; unread_count: number }> {
+  const row: SmsConversationInsert = {
+    clinic_id: context.clinicId,
+    owner_phone: context.ownerPhone,
+  };
+  if (context.ownerName) row.owner_name = context.ownerName;
+  if (context.clientId) row.client_id = context.clientId;
+  if (context.patientId) row.patient_id = context.patientId;
+  if (context.caseId) row.case_id = context.caseId;
+
+  const { data, error } = await supabase
+    .from("sms_conversations")
+    .upsert(row, { onConflict: "clinic_id,owner_phone" })
+    .select("id, urgency, unread_count")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to upsert SMS conversation: ${error?.message}`);
+  }
+  return data;
+}
+
+/**
+ * Find which thread an inbound text belongs to
+ *
+ * Prefers the latest discharge text sent to the number (it knows the case);
+ * falls back to the most recently active existing thread.
+ */
+async function resolveInboundContext(
+  supabase: SupabaseClientType,
+  from: string,
+  resolveClinicId: ClinicIdResolver,
+): Promise<ThreadContext | null> {
+  const { data: lastSms } = await supabase
+    .from("scheduled_discharge_sms")
+    .select("user_id, case_id, recipient_name")
+    .eq("recipient_phone", from)
+    .in("status", ["sent", "delivered"])
+    .order("sent_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastSms) {
+    const context = await resolveThreadContext(
+      supabase,
+      {
+        userId: lastSms.user_id,
+        ownerPhone: from,
+        ownerName: lastSms.recipient_name,
+        caseId: lastSms.case_id,
+      },
+      resolveClinicId,
+    );
+    if (context) return context;
+  }
+
+  const { data: existing } = await supabase
+    .from("sms_conversations")
+    .select("clinic_id")
+    .eq("owner_phone", from)
+    .order("last_message_at", { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+
+  return existing ? { clinicId: existing.clinic_id, ownerPhone: from } : null;
+}
+
+/**
+ * Record an owner's text in their thread
+ *
+ * @returns null when the number has never been texted by any clinic
+ */
+export async function recordInboundSms(
+  supabase: SupabaseClientType,
+  input: InboundSmsInput,
+  resolveClinicId: ClinicIdResolver,
+): Promise<InboundSmsResult | null> {
+  const context = await resolveInboundContext(
+    supabase,
+    input.from,
+    resolveClinicId,
+  );
+  if (!context) return null;
+
+  const conversation = await upsertConversation(supabase, context);
+  const detected = detectSmsUrgency(input.body);
+
+  const { data: message, error } = await supabase
+    .from("sms_messages")
+    .insert({
+      conversation_id: conversation.id,
+      direction: "inbound",
+      body: input.body,
+      status: "received",
+      provider_message_id: input.providerMessageId ?? null,
+      urgency: detected.urgency,
+      urgency_keywords: detected.keywords.length > 0 ? detected.keywords : null,
+    })
+    .select("id")
+    .single();
+
+  if (error || !message) {
+    throw new Error(`Failed to record inbound SMS: ${error?.message}`);
+  }
+
+  // Incremented in SQL so replies arriving together are all counted
+  const { data: caseId, error: updateError } = await supabase.rpc(
+    "record_sms_conversation_inbound",
+    {
+      p_conversation_id: conversation.id,
+      p_preview: preview(input.body),
+      p_urgency: detected.urgency ?? undefined,
+    },
+  );
+
+  if (updateError) {
+    throw new Error(
+      `Failed to update SMS conversation: ${updateError.message}`,
+    );
+  }
+
+  return {
+    ...detected,
+    conversationId: conversation.id,
+    messageId: message.id,
+    clinicId: context.clinicId,
+    caseId: caseId ?? context.caseId ?? null,
+  };
+}
+
+/**
+ * Record a text we sent (discharge text or staff reply) in its thread
+ *
+ * A staff reply marks the thread read and clears its urgency.
+ */
+export async function recordOutboundSms(
+  supabase: SupabaseClientType,
+  record: OutboundSmsRecord,
+): Promise<string> {
+  const { data: message, error } = await supabase
+    .from("sms_messages")
+    .insert({
+      conversation_id: record.conversationId,
+      direction: "outbound",
+      body: record.body,
+      status: record.status,
+      provider_message_id: record.providerMessageId ?? null,
+      sent_by_user_id: record.sentByUserId ?? null,
+      scheduled_sms_id: record.scheduledSmsId ?? null,
+      ai_suggested: record.aiSuggested ?? false,
+    })
+    .select("id")
+    .single();
+
+  if (error || !message) {
+    throw new Error(`Failed to record outbound SMS: ${error?.message}`);
+  }
+
+  await supabase
+    .from("sms_conversations")
+    .update({
+      last_message_at: new Date().toISOString(),
+      last_message_preview: preview(record.body),
+      ...(record.sentByUserId ? { unread_count: 0, urgency: null } : {}),
+    })
+    .eq("id", record.conversationId);
+
+  return message.id;
+}
@@ -0,0 +1,16 @@
+/**
+ * @odis-ai/integrations/sms
+ *
+ * Provider-abstracted SMS delivery (Twilio, with an in-memory fake for
+ * local development), carrier keyword handling, webhook verification, and
+ * the two-way conversation inbox.
+ */
+
+export * from "./client";
+export * from "./sms-client.interface";
+export * from "./twilio-client";
+export * from "./fake-client";
+export * from "./keywords";
+export * from "./signature";
+export * from "./urgency";
+export * from "./inbox";
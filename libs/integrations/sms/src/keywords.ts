@@ -0,0 +1,79 @@
+/**
+ * SMS Keyword Handling
+ *
+ * Carrier-standard opt-out / opt-in / help keywords. A message counts as a
+ * keyword only when the whole body (trimmed, case-insensitive) matches, so
+ * "please stop calling at night" is a normal reply, not an opt-out.
+ *
+ * @see https://help.twilio.com/articles/223134027
+ */
+
+export const OPT_OUT_KEYWORDS = [
+  "STOP",
+  "STOPALL",
+  "UNSUBSCRIBE",
+  "CANCEL",
+  "END",
+  "QUIT",
+  "OPTOUT",
+  "REVOKE",
+] as const;
+
+export const OPT_IN_KEYWORDS = ["START", "UNSTOP", "YES"] as const;
+
+export const HELP_KEYWORDS = ["HELP", "INFO"] as const;
+
+export type SmsKeywordAction = "opt_out" | "opt_in" | "help";
+
+export interface SmsKeywordMatch {
+  action: SmsKeywordAction;
+  keyword: string;
+}
+
+/**
+ * Detect a keyword in an inbound message
+ *
+ * @param body - Inbound message body
+ * @returns The matched keyword and action, or null for a normal message
+ */
+export function parseSmsKeyword(body: string): SmsKeywordMatch | null {
+  const normalized = body
+    .trim()
+    .replace(/[.!]+$/, "")
+    .toUpperCase();
+
+  if ((OPT_OUT_KEYWORDS as readonly string[]).includes(normalized)) {
+    return { action: "opt_out", keyword: normalized };
+  }
+  if ((OPT_IN_KEYWORDS as readonly string[]).includes(normalized)) {
+    return { action: "opt_in", keyword: normalized };
+  }
+  if ((HELP_KEYWORDS as readonly string[]).includes(normalized)) {
+    return { action: "help", keyword: normalized };
+  }
+  return null;
+}
+
+/**
+ * Auto-reply for a keyword
+ *
+ * @param action - Keyword action
+ * @param clinicName - Clinic the owner is texting with
+ * @param clinicPhone - Number to call for help
+ */
+export function getKeywordReply(
+  action: SmsKeywordAction,
+  clinicName = "your veterinary clinic",
+  clinicPhone?: string | null,
+): string {
+  switch (action) {
+    case "opt_out":
+      return `You've been unsubscribed from ${clinicName} texts and will not receive further messages. Reply START to resubscribe.`;
+    case "opt_in":
+      return `You're resubscribed to ${clinicName} texts. Reply STOP to unsubscribe.`;
+    case "help":
+      return clinicPhone
+        ? `${clinicName}: for help call ${clinicPhone}. Reply STOP to unsubscribe.`
+        : `${clinicName}: reply STOP to unsubscribe.`;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Twilio Request Signature Verification
+ *
+ * Verifies that webhook requests are from Twilio using HMAC-SHA1 over the
+ * full URL followed by the sorted POST parameters.
+ * @see https://www.twilio.com/docs/usage/webhooks/webhooks-security
+ */
+
+import crypto from "crypto";
+
+/**
+ * Compute the expected X-Twilio-Signature for a request
+ */
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  return crypto.createHmac("sha1", authToken).update(data).digest("base64");
+}
+
+/**
+ * Verify a Twilio webhook signature
+ *
+ * @param url - Full public URL Twilio posted to (including query string)
+ * @param params - Form-encoded POST parameters
+ * @param signature - X-Twilio-Signature header
+ * @returns true if signature is valid
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string,
+): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    console.error("[TWILIO_SIGNATURE] TWILIO_AUTH_TOKEN not configured");
+    return false;
+  }
+
+  const expected = computeTwilioSignature(authToken, url, params);
+
+  // Constant-time comparison to prevent timing attacks
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(signature),
+      Buffer.from(expected),
+    );
+  } catch {
+    // Buffers have different lengths
+    return false;
+  }
+}
+
+/**
+ * Read a Twilio webhook request and verify its signature
+ *
+ * Twilio signs the public URL it posted to, so the path is resolved against
+ * NEXT_PUBLIC_SITE_URL when set (the internal request URL differs behind
+ * proxies).
+ *
+ * @returns The form parameters, or null if the signature is invalid
+ */
+export async function verifyTwilioRequest(
+  request: Request,
+): Promise<Record<string, string> | null> {
+  const formData = await request.formData();
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value;
+  });
+
+  const signature = request.headers.get("x-twilio-signature");
+  if (!signature) return null;
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+  const { pathname, search } = new URL(request.url);
+  const url = siteUrl ? `${siteUrl}${pathname}${search}` : request.url;
+
+  return verifyTwilioSignature(url, params, signature) ? params : null;
+}
@@ -0,0 +1,69 @@
+/**
+ * ISmsClient Interface
+ *
+ * Interface for SMS delivery providers (Twilio, or the local fake).
+ * Enables dependency injection and testing for SMS operations.
+ *
+ * @example
+ * ```typescript
+ * class TwilioSmsClient implements ISmsClient {
+ *   async send(sms: SmsInput): Promise<SmsResponse> {
+ *     // Implementation using the Twilio Messages API
+ *   }
+ * }
+ * ```
+ */
+
+/**
+ * Input for sending an SMS
+ */
+export interface SmsInput {
+  /** Recipient phone number (E.164) */
+  to: string;
+
+  /** Message body */
+  body: string;
+
+  /** Sender phone number (optional, uses the provider default if not provided) */
+  from?: string;
+
+  /** URL the provider calls with delivery status updates (optional) */
+  statusCallbackUrl?: string;
+}
+
+/**
+ * Provider delivery status, normalized across providers
+ */
+export type SmsDeliveryStatus =
+  "queued" | "sent" | "delivered" | "undelivered" | "failed";
+
+/**
+ * Response from sending an SMS
+ */
+export interface SmsResponse {
+  /** Message ID from the provider (for tracking) */
+  id: string;
+
+  /** Status reported by the provider when the message was accepted */
+  status: SmsDeliveryStatus;
+
+  /** Additional metadata from the provider */
+  [key: string]: unknown;
+}
+
+/**
+ * Interface for SMS client operations
+ */
+export interface ISmsClient {
+  /** Provider name, stored with each sent message */
+  readonly provider: string;
+
+  /**
+   * Send an SMS
+   *
+   * @param sms - Recipient, body, and optional sender
+   * @returns SMS response with ID for tracking
+   * @throws Error if sending fails
+   */
+  send(sms: SmsInput): Promise<SmsResponse>;
+}
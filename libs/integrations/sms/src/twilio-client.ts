@@ -0,0 +1,114 @@
+/**
+ * Twilio SMS Client
+ *
+ * Sends messages through the Twilio Messages REST API. Uses fetch directly
+ * so the Twilio SDK isn't pulled into serverless bundles.
+ *
+ * @see https://www.twilio.com/docs/messaging/api/message-resource
+ */
+
+import type {
+  ISmsClient,
+  SmsDeliveryStatus,
+  SmsInput,
+  SmsResponse,
+} from "./sms-client.interface";
+
+const TWILIO_API_BASE = "https://api.twilio.com/2010-04-01";
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  /** Default sender number (E.164) */
+  fromNumber?: string;
+  /** Messaging service to send from instead of a single number */
+  messagingServiceSid?: string;
+}
+
+interface TwilioMessageResponse {
+  sid: string;
+  status: string;
+  error_code?: number | null;
+  error_message?: string | null;
+  message?: string;
+  code?: number;
+}
+
+/**
+ * Map a Twilio message status to the normalized delivery status
+ *
+ * Twilio has more intermediate states (accepted, scheduled, sending, ...);
+ * anything before "sent" counts as queued.
+ */
+export function mapTwilioStatus(status: string): SmsDeliveryStatus {
+  switch (status) {
+    case "sent":
+      return "sent";
+    case "delivered":
+    case "read":
+      return "delivered";
+    case "undelivered":
+      return "undelivered";
+    case "failed":
+    case "canceled":
+      return "failed";
+    default:
+      return "queued";
+  }
+}
+
+export class TwilioSmsClient implements ISmsClient {
+  readonly provider = "twilio";
+
+  constructor(private readonly config: TwilioConfig) {
+    if (!config.fromNumber && !config.messagingServiceSid) {
+      throw new Error(
+        "Twilio requires either a from number or a messaging service SID",
+      );
+    }
+  }
+
+  async send(sms: SmsInput): Promise<SmsResponse> {
+    const params = new URLSearchParams({ To: sms.to, Body: sms.body });
+
+    const from = sms.from ?? this.config.fromNumber;
+    if (from) {
+      params.set("From", from);
+    } else if (this.config.messagingServiceSid) {
+      params.set("MessagingServiceSid", this.config.messagingServiceSid);
+    }
+    if (sms.statusCallbackUrl) {
+      params.set("StatusCallback", sms.statusCallbackUrl);
+    }
+
+    const auth = Buffer.from(
+      `${this.config.accountSid}:${this.config.authToken}`,
+    ).toString("base64");
+
+    const response = await fetch(
+      `${TWILIO_API_BASE}/Accounts/${this.config.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${auth}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: params.toString(),
+      },
+    );
+
+    const data = (await response.json()) as TwilioMessageResponse;
+
+    if (!response.ok) {
+      throw new Error(
+        `Twilio error ${data.code ?? response.status}: ${data.message ?? response.statusText}`,
+      );
+    }
+
+    return {
+      id: data.sid,
+      status: mapTwilioStatus(data.status),
+      providerStatus: data.status,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * SMS Urgency Detection
+ *
+ * Flags owner replies that mention symptoms needing clinic attention, using
+ * the same urgency levels as emergency triage so texts and calls sort the
+ * same way in the dashboard.
+ */
+
+import {
+  URGENCY_LEVELS,
+  type UrgencyLevel,
+} from "@odis-ai/shared/types/triage";
+
+/**
+ * Phrases per triage level, most severe first
+ */
+export const URGENCY_KEYWORDS: Record<UrgencyLevel, readonly string[]> = {
+  critical: [
+    "not breathing",
+    "can't breathe",
+    "cannot breathe",
+    "trouble breathing",
+    "collapsed",
+    "seizure",
+    "seizing",
+    "unconscious",
+    "unresponsive",
+    "hit by a car",
+    "poisoned",
+    "bleeding a lot",
+    "won't stop bleeding",
+    "bloated",
+  ],
+  urgent: [
+    "vomiting",
+    "throwing up",
+    "diarrhea",
+    "blood",
+    "bleeding",
+    "not eating",
+    "won't eat",
+    "lethargic",
+    "swollen",
+    "swelling",
+    "in pain",
+    "crying",
+    "limping",
+    "incision",
+    "stitches",
+    "fever",
+  ],
+  monitor: [
+    "worried",
+    "concerned",
+    "not himself",
+    "not herself",
+    "not acting right",
+    "scratching",
+    "itching",
+    "sleeping a lot",
+  ],
+};
+
+export interface SmsUrgencyResult {
+  /** Highest matched level, or null when nothing matched */
+  urgency: UrgencyLevel | null;
+  /** Phrases that matched at that level */
+  keywords: string[];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Detect the urgency of an inbound text
+ */
+export function detectSmsUrgency(body: string): SmsUrgencyResult {
+  const text = body.toLowerCase().replace(/[’‘]/g, "'");
+
+  for (const level of URGENCY_LEVELS) {
+    const keywords = URGENCY_KEYWORDS[level].filter((phrase) =>
+      new RegExp(`\\b${escapeRegExp(phrase)}\\b`).test(text),
+    );
+    if (keywords.length > 0) return { urgency: level, keywords };
+  }
+
+  return { urgency: null, keywords: [] };
+}
+
+/**
+ * Pick the more severe of two urgency levels
+ */
+export function maxUrgency(
+  a: UrgencyLevel | null | undefined,
+  b: UrgencyLevel | null | undefined,
+): UrgencyLevel | null {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return URGENCY_LEVELS.indexOf(a) <= URGENCY_LEVELS.indexOf(b) ? a : b;
+}
@@ -5,6 +5,7 @@
  * for personalized and contextually-aware phone calls.
  */
 
+import type { FollowUpCallReason } from "@odis-ai/shared/types";
 import type { NormalizedEntities } from "@odis-ai/shared/validators";
 import { extractFirstName } from "./utils";
 import {
@@ -40,6 +41,21 @@ export interface VapiCallConfig {
   conditionCategory?: ConditionCategory;
 }
 
+/**
+ * Follow-up call context
+ * Used with the outbound_followup prompt, alongside VapiCallConfig
+ */
+export interface FollowUpCallConfig {
+  /** Purpose of the follow-up call */
+  reason: FollowUpCallReason;
+  /** Days since the original visit */
+  daysSinceVisit: number;
+  /** Doctor-reviewed results to relay (lab_results only) */
+  labResultsSummary?: string;
+  /** Optional: scheduled recheck date spelled out */
+  recheckDate?: string;
+}
+
 /**
  * Generates a discharge summary string from normalized entities
  *
@@ -476,6 +492,47 @@ export function extractVapiVariablesFromEntities(
   return variables;
 }
 
+/**
+ * Extract VAPI dynamic variables for a follow-up call
+ *
+ * Adds the outbound_followup prompt variables (followup_reason,
+ * days_since_visit, lab_results_summary, ...) on top of
+ * extractVapiVariablesFromEntities.
+ *
+ * @param entities - Normalized entities from the original visit
+ * @param config - Follow-up call context
+ * @returns Object with dynamic variables for VAPI
+ *
+ * @example
+ * ```typescript
+ * const variables = extractFollowUpVariablesFromEntities(entities, {
+ *   reason: "suture_removal",
+ *   daysSinceVisit: 10,
+ * });
+ * // variables.followup_reason === "suture_removal"
+ * ```
+ */
+export function extractFollowUpVariablesFromEntities(
+  entities: NormalizedEntities | null | undefined,
+  config: FollowUpCallConfig,
+): Record<string, string> {
+  const variables = extractVapiVariablesFromEntities(entities);
+
+  variables.followup_reason = config.reason;
+  variables.days_since_visit = String(config.daysSinceVisit);
+
+  if (config.labResultsSummary) {
+    variables.lab_results_summary = config.labResultsSummary;
+  }
+
+  const recheckDate = config.recheckDate ?? variables.follow_up_date;
+  if (recheckDate) {
+    variables.recheck_date = recheckDate;
+  }
+
+  return variables;
+}
+
 /**
  * Merge extracted variables with manually provided variables
  *
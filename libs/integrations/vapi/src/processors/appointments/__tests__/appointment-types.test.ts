@@ -0,0 +1,227 @@
+/**
+ * Tests for clinic appointment types
+ *
+ * Covers type resolution, contiguous free time (duration + buffer),
+ * room and provider requirements, and slot filtering.
+ */
+
+import { describe, it, expect } from "vitest";
+import { fromZonedTime } from "date-fns-tz";
+import type { AvailableSlot } from "../../../schemas/appointments";
+import type { RuleAppointment } from "../booking-rules";
+import {
+  filterSlotsByAppointmentType,
+  fitAppointmentType,
+  resolveAppointmentType,
+  type ClinicAppointmentType,
+  type ClinicResource,
+} from "../appointment-types";
+
+/* ===================== helpers ===================== */
+
+const TZ = "America/Los_Angeles";
+
+function at(local: string): Date {
+  return fromZonedTime(local, TZ);
+}
+
+/** 15-minute slots from 09:00 to 11:00, with the given starts booked */
+function daySlots(booked: string[] = []): AvailableSlot[] {
+  const slots: AvailableSlot[] = [];
+  for (let minutes = 9 * 60; minutes < 11 * 60; minutes += 15) {
+    const time = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+    const start = at(`2026-03-17T${time}`);
+    const full = booked.includes(time);
+    slots.push({
+      slot_start: start.toISOString(),
+      slot_end: new Date(start.getTime() + 15 * 60 * 1000).toISOString(),
+      capacity: 1,
+      booked_count: full ? 1 : 0,
+      available_count: full ? 0 : 1,
+      is_blocked: false,
+      block_reason: null,
+    });
+  }
+  return slots;
+}
+
+function type(
+  overrides: Partial<ClinicAppointmentType>,
+): ClinicAppointmentType {
+  return {
+    id: "type",
+    name: "Dental consult",
+    pimsAppointmentTypeId: null,
+    durationMinutes: 60,
+    bufferMinutes: 0,
+    requiredRoomType: null,
+    requiredProviderRole: null,
+    keywords: [],
+    ...overrides,
+  };
+}
+
+function resource(overrides: Partial<ClinicResource>): ClinicResource {
+  return {
+    id: overrides.name ?? "resource",
+    kind: "room",
+    name: "Room",
+    pimsResourceId: null,
+    roomType: null,
+    providerRole: null,
+    ...overrides,
+  };
+}
+
+function appointment(
+  local: string,
+  minutes: number,
+  details: Partial<RuleAppointment> = {},
+): RuleAppointment {
+  const start = at(local);
+  return {
+    start,
+    end: new Date(start.getTime() + minutes * 60 * 1000),
+    providerName: null,
+    roomId: null,
+    ...details,
+  };
+}
+
+/* ===================== tests ===================== */
+
+describe("resolveAppointmentType", () => {
+  const types = [
+    type({ id: "dental", name: "Dental consult", keywords: ["dental"] }),
+    type({ id: "wellness", name: "Wellness exam", keywords: ["vaccine"] }),
+  ];
+
+  it("prefers an exact name match", () => {
+    expect(
+      resolveAppointmentType(types, { appointmentType: "wellness exam" })?.id,
+    ).toBe("wellness");
+  });
+
+  it("falls back to keywords in the requested type or reason", () => {
+    expect(
+      resolveAppointmentType(types, { appointmentType: "dental cleaning" })?.id,
+    ).toBe("dental");
+    expect(
+      resolveAppointmentType(types, { reason: "Annual vaccines" })?.id,
+    ).toBe("wellness");
+    expect(resolveAppointmentType(types, { reason: "Limping" })).toBeNull();
+  });
+});
+
+describe("fitAppointmentType", () => {
+  it("needs back-to-back open slots for the whole visit", () => {
+    const slots = daySlots(["09:30"]);
+
+    expect(
+      fitAppointmentType({
+        type: type({}),
+        start: at("2026-03-17T09:00"),
+        slots,
+        resources: [],
+        appointments: [],
+      }).fits,
+    ).toBe(false);
+    expect(
+      fitAppointmentType({
+        type: type({}),
+        start: at("2026-03-17T09:45"),
+        slots,
+        resources: [],
+        appointments: [],
+      }).fits,
+    ).toBe(true);
+  });
+
+  it("counts the buffer and the end of the day", () => {
+    const fit = fitAppointmentType({
+      type: type({ durationMinutes: 45, bufferMinutes: 15 }),
+      start: at("2026-03-17T10:15"),
+      slots: daySlots(),
+      resources: [],
+      appointments: [],
+    });
+
+    expect(fit.fits).toBe(false);
+    expect(fit.reason).toBe("Needs 60 free minutes for Dental consult");
+  });
+
+  it("picks a free room of the required type", () => {
+    const fit = fitAppointmentType({
+      type: type({ requiredRoomType: "dental" }),
+      start: at("2026-03-17T09:00"),
+      slots: daySlots(),
+      resources: [
+        resource({ name: "Dental 1", pimsResourceId: "7", roomType: "Dental" }),
+        resource({ name: "Dental 2", pimsResourceId: "8", roomType: "dental" }),
+        resource({ name: "Exam 1", roomType: "exam" }),
+      ],
+      appointments: [appointment("2026-03-17T09:30", 30, { roomId: "7" })],
+    });
+
+    expect(fit.fits).toBe(true);
+    expect(fit.room?.name).toBe("Dental 2");
+    expect(fit.end).toEqual(at("2026-03-17T10:00"));
+  });
+
+  it("rejects when every provider with the role is booked", () => {
+    const fit = fitAppointmentType({
+      type: type({ requiredProviderRole: "veterinarian" }),
+      start: at("2026-03-17T09:00"),
+      slots: daySlots(),
+      resources: [
+        resource({
+          kind: "provider",
+          name: "Dr. Lee",
+          providerRole: "veterinarian",
+        }),
+      ],
+      appointments: [
+        appointment("2026-03-17T09:45", 30, { providerName: "DR. LEE" }),
+      ],
+    });
+
+    expect(fit.fits).toBe(false);
+    expect(fit.reason).toBe("No veterinarian free");
+  });
+
+  it("skips requirements with no matching resource", () => {
+    const fit = fitAppointmentType({
+      type: type({ requiredRoomType: "surgery" }),
+      start: at("2026-03-17T09:00"),
+      slots: daySlots(),
+      resources: [resource({ name: "Exam 1", roomType: "exam" })],
+      appointments: [],
+    });
+
+    expect(fit.fits).toBe(true);
+    expect(fit.room).toBeNull();
+  });
+});
+
+describe("filterSlotsByAppointmentType", () => {
+  it("blocks starts without room for the visit", () => {
+    const result = filterSlotsByAppointmentType(daySlots(["10:00"]), {
+      type: type({ durationMinutes: 30 }),
+      resources: [],
+      appointments: [],
+    });
+
+    const open = result
+      .filter((slot) => !slot.is_blocked && slot.available_count > 0)
+      .map((slot) => new Date(slot.slot_start).getTime());
+
+    expect(open).toEqual(
+      ["09:00", "09:15", "09:30", "10:15", "10:30"].map((time) =>
+        at(`2026-03-17T${time}`).getTime(),
+      ),
+    );
+    expect(result[3]?.block_reason).toBe(
+      "Needs 30 free minutes for Dental consult",
+    );
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for the availability explainer
+ *
+ * Covers schedule resolution (daily hours, closed days, defaults) and
+ * attributing each removed slot to the layer that removed it.
+ */
+
+import { describe, it, expect } from "vitest";
+import { fromZonedTime } from "date-fns-tz";
+import type { AvailableSlot } from "../../../schemas/appointments";
+import type { AvailabilityStages } from "../check-availability";
+import {
+  explainSlots,
+  resolveScheduleWindow,
+  type ScheduleWindow,
+} from "../availability-explain";
+
+/* ===================== helpers ===================== */
+
+const TZ = "America/Los_Angeles";
+// 2026-03-17 is a Tuesday
+const DATE = "2026-03-17";
+
+const SCHEDULE: ScheduleWindow = {
+  open: "09:00",
+  close: "10:30",
+  slotMinutes: 15,
+  closed: false,
+  source: "config",
+};
+
+function slot(
+  time: string,
+  overrides: Partial<AvailableSlot> = {},
+): AvailableSlot {
+  const start = fromZonedTime(`${DATE}T${time}`, TZ);
+  return {
+    slot_start: start.toISOString(),
+    slot_end: new Date(start.getTime() + 15 * 60 * 1000).toISOString(),
+    capacity: 2,
+    booked_count: 0,
+    available_count: 2,
+    is_blocked: false,
+    block_reason: null,
+    ...overrides,
+  };
+}
+
+function blocked(reason: string | null): Partial<AvailableSlot> {
+  return { is_blocked: true, available_count: 0, block_reason: reason };
+}
+
+function stages(
+  raw: AvailableSlot[],
+  changes: Partial<Omit<AvailabilityStages, "raw">> = {},
+): AvailabilityStages {
+  const roomFiltered = changes.roomFiltered ?? raw;
+  const hoursFiltered = changes.hoursFiltered ?? roomFiltered;
+  const ruleFiltered = changes.ruleFiltered ?? hoursFiltered;
+  return {
+    raw,
+    roomFiltered,
+    hoursFiltered,
+    ruleFiltered,
+    final: changes.final ?? ruleFiltered,
+    appointmentType: null,
+  };
+}
+
+/* ===================== tests ===================== */
+
+describe("resolveScheduleWindow", () => {
+  const config = {
+    open_time: "08:00:00",
+    close_time: "17:00:00",
+    slot_duration_minutes: 30,
+    daily_hours: {
+      "0": { enabled: false },
+      "2": { enabled: true, open: "09:00", close: "12:00" },
+    },
+  };
+
+  it("uses the day's hours, then the config, then the defaults", () => {
+    expect(resolveScheduleWindow(config, DATE)).toMatchObject({
+      open: "09:00",
+      close: "12:00",
+      slotMinutes: 30,
+      source: "daily_hours",
+    });
+    expect(resolveScheduleWindow(config, "2026-03-18")).toMatchObject({
+      open: "08:00",
+      close: "17:00",
+      source: "config",
+    });
+    expect(resolveScheduleWindow(null, DATE)).toMatchObject({
+      open: "08:00",
+      close: "18:00",
+      slotMinutes: 15,
+      source: "default",
+    });
+  });
+
+  it("marks disabled days closed", () => {
+    expect(resolveScheduleWindow(config, "2026-03-15").closed).toBe(true);
+  });
+});
+
+describe("explainSlots", () => {
+  it("lists a closed day's slots as removed by the schedule", () => {
+    const result = explainSlots(stages([]), {
+      schedule: { ...SCHEDULE, closed: true, source: "daily_hours" },
+      date: DATE,
+      timezone: TZ,
+    });
+
+    expect(result).toHaveLength(6);
+    expect(result[0]).toMatchObject({
+      time12h: "9:00 AM",
+      open: false,
+      removedBy: "schedule_config",
+      reason: "Closed on Tuesdays",
+    });
+  });
+
+  it("attributes each slot to the layer that removed it", () => {
+    const raw = [
+      slot("09:00"),
+      slot("09:15", blocked("Staff meeting")),
+      slot("09:30", { booked_count: 2, available_count: 0 }),
+      slot("09:45"),
+      slot("10:00"),
+      slot("10:15"),
+    ];
+    const hoursFiltered = raw.map((s, i) =>
+      i === 3 ? { ...s, ...blocked("Lunch break") } : s,
+    );
+    const ruleFiltered = hoursFiltered.map((s, i) =>
+      i === 4 ? { ...s, ...blocked("No new clients after 10") } : s,
+    );
+
+    const result = explainSlots(stages(raw, { hoursFiltered, ruleFiltered }), {
+      schedule: SCHEDULE,
+      date: DATE,
+      timezone: TZ,
+    });
+
+    expect(result.map((s) => [s.time24h, s.removedBy, s.reason])).toEqual([
+      ["09:00:00", null, null],
+      ["09:15:00", "blocked_period", "Staff meeting"],
+      ["09:30:00", "booked", "2 of 2 booked"],
+      ["09:45:00", "clinic_hours", "Lunch break"],
+      ["10:00:00", "booking_rule", "No new clients after 10"],
+      ["10:15:00", null, null],
+    ]);
+    expect(result.filter((s) => s.spoken).map((s) => s.time12h)).toEqual([
+      "9:00 AM",
+      "10:15 AM",
+    ]);
+  });
+
+  it("credits the room filter only for slots it closes for good", () => {
+    const raw = [
+      slot("09:00", { booked_count: 2, available_count: 0 }),
+      slot("09:15"),
+    ];
+    const roomFiltered = [
+      slot("09:00", { capacity: 1, booked_count: 0, available_count: 1 }),
+      slot("09:15", { capacity: 1, booked_count: 1, available_count: 0 }),
+    ];
+
+    const result = explainSlots(stages(raw, { roomFiltered }), {
+      schedule: { ...SCHEDULE, close: "09:30" },
+      date: DATE,
+      timezone: TZ,
+    });
+
+    expect(result[0]).toMatchObject({ open: true, removedBy: null });
+    expect(result[1]).toMatchObject({
+      removedBy: "room_filter",
+      reason: "1 of 1 booked",
+    });
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Tests for clinic booking rules
+ *
+ * Covers each rule type, match semantics for unknown booking details,
+ * provider assignment, row parsing, slot filtering and the booking-time
+ * check for callers who didn't say whether they're new clients.
+ */
+
+import { describe, it, expect } from "vitest";
+import { fromZonedTime } from "date-fns-tz";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@odis-ai/shared/types";
+import type { BookingRuleConfigInput } from "@odis-ai/shared/validators";
+import type { AvailableSlot } from "../../../schemas/appointments";
+import {
+  checkBookingRules,
+  evaluateBookingRules,
+  filterSlotsByBookingRules,
+  parseBookingRuleRow,
+  type ClinicBookingRule,
+  type EvaluateBookingRulesInput,
+  type RuleAppointment,
+} from "../booking-rules";
+
+/* ===================== helpers ===================== */
+
+const TZ = "America/Los_Angeles";
+
+// 2026-03-17 is a Tuesday, 2026-03-18 a Wednesday
+function at(local: string): Date {
+  return fromZonedTime(local, TZ);
+}
+
+function slotAt(local: string, minutes = 15) {
+  const start = at(local);
+  return { start, end: new Date(start.getTime() + minutes * 60 * 1000) };
+}
+
+function rule(
+  name: string,
+  config: BookingRuleConfigInput,
+  priority = 100,
+): ClinicBookingRule {
+  const parsed = parseBookingRuleRow({
+    id: name,
+    name,
+    rule_type: config.type,
+    config,
+    priority,
+  });
+  if (!parsed) throw new Error(`Invalid rule config: ${name}`);
+  return parsed;
+}
+
+function evaluate(overrides: Partial<EvaluateBookingRulesInput>) {
+  return evaluateBookingRules({
+    rules: [],
+    slot: slotAt("2026-03-17T10:00"),
+    subject: {},
+    timezone: TZ,
+    appointments: [],
+    openSlotStarts: [],
+    ...overrides,
+  });
+}
+
+function appointment(
+  local: string,
+  details: Partial<RuleAppointment> = {},
+): RuleAppointment {
+  return { ...slotAt(local, 30), providerName: null, roomId: null, ...details };
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+/* ===================== tests ===================== */
+
+describe("evaluateBookingRules", () => {
+  /* ---------- block_window ---------- */
+  describe("block_window", () => {
+    const noNewClientsBefore9 = rule("No new clients before 9am", {
+      type: "block_window",
+      match: { newClient: true },
+      window: { days: WEEKDAYS, start: "00:00", end: "09:00" },
+    });
+
+    it("blocks matching bookings inside the window", () => {
+      const decision = evaluate({
+        rules: [noNewClientsBefore9],
+        slot: slotAt("2026-03-17T08:30"),
+        subject: { isNewClient: true },
+      });
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.violations[0]?.ruleName).toBe(
+        "No new clients before 9am",
+      );
+    });
+
+    it("allows existing clients and slots outside the window", () => {
+      expect(
+        evaluate({
+          rules: [noNewClientsBefore9],
+          slot: slotAt("2026-03-17T08:30"),
+          subject: { isNewClient: false },
+        }).allowed,
+      ).toBe(true);
+      expect(
+        evaluate({
+          rules: [noNewClientsBefore9],
+          slot: slotAt("2026-03-17T09:00"),
+          subject: { isNewClient: true },
+        }).allowed,
+      ).toBe(true);
+    });
+
+    it("does not apply when the booking details are unknown", () => {
+      const decision = evaluate({
+        rules: [noNewClientsBefore9],
+        slot: slotAt("2026-03-17T08:30"),
+      });
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.results[0]?.applies).toBe(false);
+    });
+  });
+
+  /* ---------- allowed_windows ---------- */
+  describe("allowed_windows", () => {
+    const surgeriesTueThuMornings = rule("Surgeries Tue/Thu mornings", {
+      type: "allowed_windows",
+      match: { reasonKeywords: ["surgery", "spay", "neuter"] },
+      windows: [{ days: [2, 4], start: "08:00", end: "12:00" }],
+    });
+
+    it("allows matching bookings inside a window", () => {
+      const decision = evaluate({
+        rules: [surgeriesTueThuMornings],
+        slot: slotAt("2026-03-17T09:00"),
+        subject: { reason: "Spay for Luna" },
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+
+    it("rejects matching bookings on other days or times", () => {
+      expect(
+        evaluate({
+          rules: [surgeriesTueThuMornings],
+          slot: slotAt("2026-03-18T09:00"),
+          subject: { reason: "Dental surgery" },
+        }).allowed,
+      ).toBe(false);
+      expect(
+        evaluate({
+          rules: [surgeriesTueThuMornings],
+          slot: slotAt("2026-03-17T14:00"),
+          subject: { reason: "Dental surgery" },
+        }).allowed,
+      ).toBe(false);
+    });
+
+    it("ignores bookings that don't match", () => {
+      const decision = evaluate({
+        rules: [surgeriesTueThuMornings],
+        slot: slotAt("2026-03-18T14:00"),
+        subject: { reason: "Vaccines" },
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+  });
+
+  /* ---------- hourly_limit ---------- */
+  describe("hourly_limit", () => {
+    const twoSickVisitsPerHour = rule("Max 2 sick visits per hour", {
+      type: "hourly_limit",
+      match: { reasonKeywords: ["sick", "vomiting"] },
+      maxPerHour: 2,
+    });
+
+    it("rejects once the hour has the maximum matching visits", () => {
+      const decision = evaluate({
+        rules: [twoSickVisitsPerHour],
+        slot: slotAt("2026-03-17T10:45"),
+        subject: { reason: "Sick visit" },
+        appointments: [
+          appointment("2026-03-17T10:00", { reason: "Sick - lethargic" }),
+          appointment("2026-03-17T10:15", { reason: "Vomiting" }),
+        ],
+      });
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.violations[0]?.reason).toContain("max 2");
+    });
+
+    it("only counts matching visits in the same clock hour", () => {
+      const decision = evaluate({
+        rules: [twoSickVisitsPerHour],
+        slot: slotAt("2026-03-17T10:45"),
+        subject: { reason: "Sick visit" },
+        appointments: [
+          appointment("2026-03-17T09:45", { reason: "Sick" }),
+          appointment("2026-03-17T10:00", { reason: "Sick" }),
+          appointment("2026-03-17T10:15", { reason: "Wellness exam" }),
+        ],
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+  });
+
+  /* ---------- reserve_last_slots ---------- */
+  describe("reserve_last_slots", () => {
+    const holdLastForEmergencies = rule("Hold last slot for emergencies", {
+      type: "reserve_last_slots",
+      reservedFor: { reasonKeywords: ["emergency", "urgent"] },
+      count: 1,
+    });
+    const openSlotStarts = [
+      at("2026-03-17T16:00"),
+      at("2026-03-17T16:30"),
+      at("2026-03-17T17:00"),
+    ];
+
+    it("holds the day's last open slot from other bookings", () => {
+      const decision = evaluate({
+        rules: [holdLastForEmergencies],
+        slot: slotAt("2026-03-17T17:00"),
+        subject: { reason: "Nail trim" },
+        openSlotStarts,
+      });
+
+      expect(decision.allowed).toBe(false);
+    });
+
+    it("lets reserved visits take the held slot", () => {
+      const decision = evaluate({
+        rules: [holdLastForEmergencies],
+        slot: slotAt("2026-03-17T17:00"),
+        subject: { reason: "Urgent - hit by car" },
+        openSlotStarts,
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+
+    it("leaves earlier slots open", () => {
+      const decision = evaluate({
+        rules: [holdLastForEmergencies],
+        slot: slotAt("2026-03-17T16:30"),
+        subject: { reason: "Nail trim" },
+        openSlotStarts,
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+  });
+
+  /* ---------- provider_only ---------- */
+  describe("provider_only", () => {
+    const exoticsWithDrLee = rule("Exotics only with Dr. Lee", {
+      type: "provider_only",
+      match: { species: ["rabbit", "bird"] },
+      providerName: "Dr. Lee",
+      windows: [{ days: [2], start: "09:00", end: "17:00" }],
+    });
+
+    it("assigns the provider when free and inside their windows", () => {
+      const decision = evaluate({
+        rules: [exoticsWithDrLee],
+        slot: slotAt("2026-03-17T11:00"),
+        subject: { species: "Rabbit" },
+      });
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.providerName).toBe("Dr. Lee");
+    });
+
+    it("rejects outside the provider's windows", () => {
+      const decision = evaluate({
+        rules: [exoticsWithDrLee],
+        slot: slotAt("2026-03-18T11:00"),
+        subject: { species: "rabbit" },
+      });
+
+      expect(decision.allowed).toBe(false);
+    });
+
+    it("rejects when the provider is already booked", () => {
+      const decision = evaluate({
+        rules: [exoticsWithDrLee],
+        slot: slotAt("2026-03-17T11:00"),
+        subject: { species: "bird" },
+        appointments: [
+          appointment("2026-03-17T10:45", { providerName: "dr. lee" }),
+        ],
+      });
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.violations[0]?.reason).toBe("Dr. Lee is already booked");
+    });
+
+    it("does not assign a provider to other species", () => {
+      const decision = evaluate({
+        rules: [exoticsWithDrLee],
+        slot: slotAt("2026-03-18T11:00"),
+        subject: { species: "dog" },
+      });
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.providerName).toBeNull();
+    });
+  });
+});
+
+describe("parseBookingRuleRow", () => {
+  it("skips rows whose config doesn't fit the rule type", () => {
+    expect(
+      parseBookingRuleRow({
+        id: "bad",
+        name: "Broken",
+        rule_type: "hourly_limit",
+        config: { match: {} },
+        priority: 100,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("filterSlotsByBookingRules", () => {
+  function slot(local: string, available = 1): AvailableSlot {
+    const { start, end } = slotAt(local);
+    return {
+      slot_start: start.toISOString(),
+      slot_end: end.toISOString(),
+      capacity: 2,
+      booked_count: 2 - available,
+      available_count: available,
+      is_blocked: false,
+      block_reason: null,
+    };
+  }
+
+  it("blocks failing open slots with the rule name as the reason", () => {
+    const rules = [
+      rule("Early morning - no VAPI booking", {
+        type: "block_window",
+        window: { days: WEEKDAYS, start: "08:00", end: "09:00" },
+      }),
+    ];
+
+    const result = filterSlotsByBookingRules(
+      [slot("2026-03-17T08:30"), slot("2026-03-17T09:00")],
+      { rules, subject: {}, timezone: TZ, appointments: [] },
+    );
+
+    expect(result[0]).toMatchObject({
+      is_blocked: true,
+      available_count: 0,
+      block_reason: "Early morning - no VAPI booking",
+    });
+    expect(result[1]?.is_blocked).toBe(false);
+  });
+
+  it("holds the last open slot, skipping full ones", () => {
+    const rules = [
+      rule("Hold last slot for emergencies", {
+        type: "reserve_last_slots",
+        reservedFor: { reasonKeywords: ["emergency"] },
+      }),
+    ];
+
+    const result = filterSlotsByBookingRules(
+      [
+        slot("2026-03-17T16:00"),
+        slot("2026-03-17T16:30"),
+        slot("2026-03-17T17:00", 0),
+      ],
+      { rules, subject: {}, timezone: TZ, appointments: [] },
+    );
+
+    expect(result.map((s) => s.is_blocked)).toEqual([false, true, false]);
+  });
+});
+
+describe("checkBookingRules", () => {
+  // Only the slot duration lookup reaches the database for block_window rules
+  const supabase = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: () => Promise.resolve({ data: null, error: null }),
+        }),
+      }),
+    }),
+  } as unknown as SupabaseClient<Database>;
+
+  const rules = [
+    rule("No new clients before 9am", {
+      type: "block_window",
+      match: { newClient: true },
+      window: { days: WEEKDAYS, start: "00:00", end: "09:00" },
+    }),
+  ];
+
+  function check(time: string, isNewClient?: boolean) {
+    return checkBookingRules({
+      supabase,
+      clinicId: "clinic-1",
+      date: "2026-03-17",
+      time,
+      timezone: TZ,
+      subject: { isNewClient },
+      rules,
+    });
+  }
+
+  it("treats an unknown client status as a possible new client", async () => {
+    const decision = await check("08:30");
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.violations[0]?.ruleName).toBe("No new clients before 9am");
+  });
+
+  it("allows unknown clients when both outcomes pass", async () => {
+    await expect(check("09:00")).resolves.toMatchObject({ allowed: true });
+  });
+
+  it("uses the stated client status when given", async () => {
+    await expect(check("08:30", false)).resolves.toMatchObject({
+      allowed: true,
+    });
+    await expect(check("08:30", true)).resolves.toMatchObject({
+      allowed: false,
+    });
+  });
+});
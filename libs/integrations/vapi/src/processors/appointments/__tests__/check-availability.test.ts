@@ -32,12 +32,19 @@ function makeClinic(overrides: Partial<ClinicWithConfig> = {}): ClinicWithConfig
 
 function makeCtx(overrides: Partial<ToolContext> = {}): ToolContext {
   const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+  // No clinic booking rules: from().select().eq().eq().order() → []
+  const rulesQuery = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({ data: [], error: null }),
+  };
+  const from = vi.fn().mockReturnValue(rulesQuery);
   return {
     callId: "call-1",
     toolCallId: "tc-1",
     assistantId: "asst-1",
     clinic: makeClinic(),
-    supabase: { rpc } as unknown as ToolContext["supabase"],
+    supabase: { rpc, from } as unknown as ToolContext["supabase"],
     logger: {
       info: vi.fn(),
       warn: vi.fn(),
@@ -0,0 +1,233 @@
+/**
+ * Tests for the PIMS write provider resolver
+ *
+ * Verifies capability checks happen before authentication, credentials are
+ * loaded for the clinic itself, and clinics without a write-capable PIMS
+ * resolve to null (ODIS hold fallback).
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ToolContext } from "../../../core/types";
+import type { ClinicWithConfig } from "../../../inbound-tools/find-clinic-by-assistant";
+import {
+  clinicSupportsPimsWrite,
+  createPimsWriteProvider,
+} from "../pims-write-provider";
+
+// Mocked by path: the provider modules are loaded via tsconfig aliases,
+// which don't resolve from test files
+const {
+  authenticate,
+  close,
+  getCredentials,
+  getIdexxCredentials,
+  constructed,
+} = vi.hoisted(() => ({
+  authenticate: vi.fn(),
+  close: vi.fn(),
+  getCredentials: vi.fn(),
+  getIdexxCredentials: vi.fn(),
+  constructed: vi.fn(),
+}));
+
+vi.mock("../../../../../idexx/src/index", () => ({
+  IdexxCredentialManager: class {
+    getCredentials = getIdexxCredentials;
+  },
+  IdexxProvider: class {
+    constructor() {
+      constructed();
+    }
+    readonly name = "IDEXX Neo";
+    readonly capabilities = ["createAppointment", "cancelAppointment"];
+    authenticate = authenticate;
+    close = close;
+    createAppointment = vi.fn();
+    cancelAppointment = vi.fn();
+  },
+}));
+
+vi.mock("../../../../../idexx/src/browser/index", () => ({
+  BrowserService: class {},
+}));
+
+vi.mock("../../../../../ezyvet/src/provider/index", () => ({
+  EzyvetProvider: class {
+    readonly name = "ezyVet";
+    readonly capabilities = [];
+    authenticate = authenticate;
+    close = close;
+  },
+}));
+
+vi.mock("../../../../../ezyvet/src/index", () => ({
+  EzyvetCredentialManager: class {
+    getCredentials = getCredentials;
+  },
+}));
+
+/* ===================== helpers ===================== */
+
+function makeClinic(
+  overrides: Partial<ClinicWithConfig> = {},
+): ClinicWithConfig {
+  return {
+    id: "clinic-uuid-1",
+    name: "Test Clinic",
+    timezone: "America/Los_Angeles",
+    pims_type: "idexx",
+    pims_clinic_id: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Supabase stub answering the idexx_credentials lookup
+ */
+function makeSupabase(stored: { user_id: string } | null) {
+  const query = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data: stored, error: null }),
+  };
+  return { from: vi.fn(() => query), query };
+}
+
+function makeCtx(
+  supabase: ReturnType<typeof makeSupabase> = makeSupabase({
+    user_id: "user-1",
+  }),
+): ToolContext {
+  return {
+    callId: "call-1",
+    clinic: makeClinic(),
+    supabase: supabase as unknown as ToolContext["supabase"],
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+      child: vi.fn().mockReturnThis(),
+    } as unknown as ToolContext["logger"],
+  };
+}
+
+/* ===================== tests ===================== */
+
+describe("createPimsWriteProvider", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    authenticate.mockResolvedValue(true);
+    getIdexxCredentials.mockResolvedValue({
+      username: "user",
+      password: "pass",
+      companyId: "company",
+    });
+  });
+
+  it("authenticates with the clinic's own credentials", async () => {
+    const supabase = makeSupabase({ user_id: "user-1" });
+    const provider = await createPimsWriteProvider(
+      makeClinic({ pims_clinic_id: "pims-clinic-1" }),
+      makeCtx(supabase),
+      "createAppointment",
+    );
+
+    expect(provider?.name).toBe("IDEXX Neo");
+    expect(supabase.from).toHaveBeenCalledWith("idexx_credentials");
+    expect(supabase.query.eq).toHaveBeenCalledWith(
+      "clinic_id",
+      "pims-clinic-1",
+    );
+    expect(getIdexxCredentials).toHaveBeenCalledWith("user-1", "pims-clinic-1");
+    expect(authenticate).toHaveBeenCalledWith({
+      username: "user",
+      password: "pass",
+      companyId: "company",
+    });
+  });
+
+  it("returns null without authenticating when the PIMS is read-only", async () => {
+    const provider = await createPimsWriteProvider(
+      makeClinic({ pims_type: "ezyvet" }),
+      makeCtx(),
+      "createAppointment",
+    );
+
+    expect(provider).toBeNull();
+    expect(getCredentials).not.toHaveBeenCalled();
+    expect(authenticate).not.toHaveBeenCalled();
+  });
+
+  it("returns null for clinics without a PIMS integration", async () => {
+    const provider = await createPimsWriteProvider(
+      makeClinic({ pims_type: "avimark" }),
+      makeCtx(),
+      "createAppointment",
+    );
+
+    expect(provider).toBeNull();
+  });
+
+  it("returns null when the clinic has no stored credentials", async () => {
+    const provider = await createPimsWriteProvider(
+      makeClinic(),
+      makeCtx(makeSupabase(null)),
+      "createAppointment",
+    );
+
+    expect(provider).toBeNull();
+    expect(getIdexxCredentials).not.toHaveBeenCalled();
+    expect(authenticate).not.toHaveBeenCalled();
+  });
+
+  it("throws when authentication fails", async () => {
+    authenticate.mockResolvedValue(false);
+
+    await expect(
+      createPimsWriteProvider(makeClinic(), makeCtx(), "createAppointment"),
+    ).rejects.toThrow("IDEXX Neo authentication failed");
+    expect(close).toHaveBeenCalled();
+  });
+});
+
+describe("clinicSupportsPimsWrite", () => {
+  it("reflects the PIMS type's declared capabilities", async () => {
+    expect(
+      await clinicSupportsPimsWrite(makeClinic(), "cancelAppointment"),
+    ).toBe(true);
+    expect(
+      await clinicSupportsPimsWrite(
+        makeClinic({ pims_type: "idexx_neo" }),
+        "rescheduleAppointment",
+      ),
+    ).toBe(true);
+    expect(
+      await clinicSupportsPimsWrite(
+        makeClinic({ pims_type: "idexx_neo" }),
+        "confirmAppointment",
+      ),
+    ).toBe(false);
+    expect(
+      await clinicSupportsPimsWrite(
+        makeClinic({ pims_type: "ezyvet" }),
+        "cancelAppointment",
+      ),
+    ).toBe(false);
+    expect(
+      await clinicSupportsPimsWrite(
+        makeClinic({ pims_type: null }),
+        "cancelAppointment",
+      ),
+    ).toBe(false);
+  });
+
+  it("doesn't construct a provider", async () => {
+    vi.clearAllMocks();
+    await clinicSupportsPimsWrite(makeClinic(), "cancelAppointment");
+
+    expect(constructed).not.toHaveBeenCalled();
+  });
+});
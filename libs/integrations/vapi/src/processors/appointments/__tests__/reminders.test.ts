@@ -0,0 +1,344 @@
+/**
+ * Tests for appointment reminder calls
+ *
+ * Verifies which synced appointments are due for a reminder call, when
+ * calls may be placed, how the cron run queues them as scheduled calls,
+ * and how call results become reminder outcomes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@odis-ai/shared/types";
+import {
+  handleReminderCallEnd,
+  isWithinCallingHours,
+  reminderOutcomeFor,
+  runAppointmentReminders,
+  selectDueAppointments,
+} from "../reminders";
+
+const { scheduleCallExecution } = vi.hoisted(() => ({
+  scheduleCallExecution: vi.fn(),
+}));
+
+// Mocked by path: the QStash client is loaded via a tsconfig alias, which
+// doesn't resolve from test files
+vi.mock("../../../../../qstash/src/client", () => ({
+  scheduleCallExecution,
+}));
+
+const NOW = new Date("2026-03-10T17:00:00Z");
+
+function appointment(
+  id: string,
+  start: string,
+  overrides: Record<string, unknown> = {},
+) {
+  const end = new Date(new Date(start).getTime() + 30 * 60 * 1000);
+  return {
+    id,
+    clinic_id: "clinic-1",
+    time_range: `["${start}","${end.toISOString()}")`,
+    status: "scheduled",
+    confirmation_status: "unconfirmed",
+    client_name: "Jane Doe",
+    client_phone: "+15555550100",
+    patient_name: "Max",
+    appointment_type: null,
+    provider_name: null,
+    ...overrides,
+  };
+}
+
+describe("selectDueAppointments", () => {
+  it("picks unconfirmed appointments within the reminder window, soonest first", () => {
+    const due = selectDueAppointments(
+      [
+        appointment("later", "2026-03-11T16:00:00Z"),
+        appointment("sooner", "2026-03-11T09:00:00Z"),
+        appointment("too-far", "2026-03-12T17:00:00Z"),
+      ],
+      { now: NOW, hoursBefore: 24 },
+    );
+
+    expect(due.map((a) => a.id)).toEqual(["sooner", "later"]);
+    expect(due[0]).toMatchObject({
+      clinicId: "clinic-1",
+      slotStart: "2026-03-11T09:00:00.000Z",
+      clientPhone: "+15555550100",
+    });
+  });
+
+  it("skips appointments starting within the next hour or already past", () => {
+    const due = selectDueAppointments(
+      [
+        appointment("past", "2026-03-10T16:00:00Z"),
+        appointment("imminent", "2026-03-10T17:30:00Z"),
+        appointment("ok", "2026-03-10T18:30:00Z"),
+      ],
+      { now: NOW, hoursBefore: 24 },
+    );
+
+    expect(due.map((a) => a.id)).toEqual(["ok"]);
+  });
+
+  it("skips cancelled, answered, phoneless and already-reminded appointments", () => {
+    const start = "2026-03-11T09:00:00Z";
+    const due = selectDueAppointments(
+      [
+        appointment("cancelled", start, { status: "cancelled" }),
+        appointment("confirmed", start, { confirmation_status: "confirmed" }),
+        appointment("no-phone", start, { client_phone: null }),
+        appointment("reminded", start),
+        appointment("bad-range", start, { time_range: null }),
+        appointment("due", start),
+      ],
+      { now: NOW, hoursBefore: 24, remindedIds: ["reminded"] },
+    );
+
+    expect(due.map((a) => a.id)).toEqual(["due"]);
+  });
+});
+
+describe("isWithinCallingHours", () => {
+  it("uses the clinic's local time", () => {
+    // 17:00 UTC is 10:00 in Los Angeles (PDT) and 18:00 in London
+    expect(isWithinCallingHours(NOW, "America/Los_Angeles")).toBe(true);
+    expect(isWithinCallingHours(NOW, "Europe/London")).toBe(true);
+    expect(isWithinCallingHours(NOW, "Asia/Tokyo")).toBe(false);
+  });
+
+  it("stops calling at 7 PM", () => {
+    const evening = new Date("2026-03-11T02:00:00Z"); // 19:00 in Los Angeles
+    expect(isWithinCallingHours(evening, "America/Los_Angeles")).toBe(false);
+  });
+});
+
+describe("reminderOutcomeFor", () => {
+  it("uses the appointment's answer when the client gave one", () => {
+    expect(reminderOutcomeFor("confirmed", true)).toBe("confirmed");
+    expect(reminderOutcomeFor("cancelled", true)).toBe("cancelled");
+    expect(reminderOutcomeFor("rescheduled", true)).toBe("rescheduled");
+  });
+
+  it("tells unanswered calls from calls without an answer", () => {
+    expect(reminderOutcomeFor("unconfirmed", false)).toBe("no_answer");
+    expect(reminderOutcomeFor("unconfirmed", true)).toBe("no_response");
+  });
+});
+
+/* ===================== cron run ===================== */
+
+type Row = Record<string, unknown>;
+
+/**
+ * Supabase stand-in: awaited queries resolve to the table's rows,
+ * single/maybeSingle to the inserted row (or the table's first row);
+ * writes are recorded per table
+ */
+function makeSupabase(
+  rows: Record<string, Row[]>,
+  insertErrors: Record<string, string> = {},
+) {
+  const writes: Array<{ table: string; op: string; values: Row }> = [];
+  const from = vi.fn((table: string) => {
+    let saved: Row | null = null;
+    let error: { message: string } | null = null;
+    const builder: Record<string, unknown> = {};
+    for (const op of ["select", "eq", "neq", "is", "not", "gte", "lte", "in"]) {
+      builder[op] = vi.fn(() => builder);
+    }
+    for (const op of ["insert", "update"]) {
+      builder[op] = vi.fn((values: Row) => {
+        writes.push({ table, op, values });
+        const insertError = op === "insert" ? insertErrors[table] : undefined;
+        if (insertError) {
+          error = { message: insertError };
+        } else {
+          saved = { id: `${table}-1`, ...values };
+        }
+        return builder;
+      });
+    }
+    const single = async () => ({
+      data: error ? null : (saved ?? rows[table]?.[0] ?? null),
+      error,
+    });
+    builder.single = vi.fn(single);
+    builder.maybeSingle = vi.fn(single);
+    builder.then = (
+      resolve: (value: { data: Row[]; error: null }) => unknown,
+    ) => resolve({ data: rows[table] ?? [], error: null });
+    return builder;
+  });
+  return {
+    supabase: { from } as unknown as SupabaseClient<Database>,
+    writes,
+  };
+}
+
+const CLINIC = {
+  id: "clinic-1",
+  name: "Alum Rock Animal Hospital",
+  timezone: "America/Los_Angeles",
+  reminder_assistant_id: "reminder-assistant",
+  outbound_phone_number_id: "phone-number-1",
+  reminder_hours_before: 24,
+};
+
+function reminderRows(
+  overrides: { users?: Row[]; clinics?: Row[] } = {},
+): Record<string, Row[]> {
+  return {
+    clinics: overrides.clinics ?? [CLINIC],
+    user_clinic_access: [
+      { user_id: "member-1", role: "member", is_primary: true },
+      { user_id: "owner-1", role: "owner", is_primary: true },
+      { user_id: "admin-1", role: "admin", is_primary: false },
+    ],
+    users: overrides.users ?? [{ test_mode_enabled: false }],
+    pims_appointments: [
+      appointment("appt-1", "2026-03-11T09:00:00Z", {
+        client_phone: "(555) 555-0100",
+      }),
+    ],
+  };
+}
+
+function writesTo(
+  writes: Array<{ table: string; op: string; values: Row }>,
+  table: string,
+  op: string,
+) {
+  return writes.filter((write) => write.table === table && write.op === op);
+}
+
+describe("runAppointmentReminders", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    scheduleCallExecution.mockResolvedValue("qstash-1");
+  });
+
+  it("queues the reminder as a scheduled call and runs it through QStash", async () => {
+    const { supabase, writes } = makeSupabase(reminderRows());
+
+    const result = await runAppointmentReminders(supabase, NOW);
+
+    expect(result).toMatchObject({ clinicsProcessed: 1, callsQueued: 1 });
+    const [call] = writesTo(writes, "scheduled_discharge_calls", "insert");
+    expect(call?.values).toMatchObject({
+      user_id: "owner-1",
+      case_id: null,
+      call_type: "reminder",
+      assistant_id: "reminder-assistant",
+      outbound_phone_number_id: "phone-number-1",
+      customer_phone: "+15555550100",
+      status: "queued",
+      metadata: {
+        reminder_id: "appointment_reminder_calls-1",
+        appointment_id: "appt-1",
+        timezone: "America/Los_Angeles",
+        retry_count: 0,
+      },
+    });
+    expect(call?.values.dynamic_variables).toMatchObject({
+      clinic_name: "Alum Rock Animal Hospital",
+      pet_name: "Max",
+      appointment_date: "2026-03-11",
+    });
+    expect(scheduleCallExecution).toHaveBeenCalledWith(
+      "scheduled_discharge_calls-1",
+      NOW,
+    );
+    expect(
+      writesTo(writes, "appointment_reminder_calls", "update")[0]?.values,
+    ).toEqual({ status: "in_progress" });
+  });
+
+  it("calls the test contact phone in test mode", async () => {
+    const { supabase, writes } = makeSupabase(
+      reminderRows({
+        users: [
+          { test_mode_enabled: true, test_contact_phone: "555-555-0142" },
+        ],
+      }),
+    );
+
+    await runAppointmentReminders(supabase, NOW);
+
+    const [call] = writesTo(writes, "scheduled_discharge_calls", "insert");
+    expect(call?.values).toMatchObject({
+      customer_phone: "+15555550142",
+      metadata: { test_call: true },
+    });
+    expect(call?.values.dynamic_variables).toMatchObject({
+      client_phone: "+15555550100",
+    });
+  });
+
+  it("skips an appointment another run already reminded", async () => {
+    const { supabase, writes } = makeSupabase(reminderRows(), {
+      appointment_reminder_calls: "duplicate key value",
+    });
+
+    const result = await runAppointmentReminders(supabase, NOW);
+
+    expect(result.callsFailed).toBe(0);
+    expect(writesTo(writes, "scheduled_discharge_calls", "insert")).toEqual([]);
+    expect(scheduleCallExecution).not.toHaveBeenCalled();
+  });
+
+  it("marks the reminder and its call failed when QStash rejects it", async () => {
+    scheduleCallExecution.mockRejectedValue(new Error("QStash unavailable"));
+    const { supabase, writes } = makeSupabase(reminderRows());
+
+    const result = await runAppointmentReminders(supabase, NOW);
+
+    expect(result).toMatchObject({ callsQueued: 0, callsFailed: 1 });
+    expect(
+      writesTo(writes, "scheduled_discharge_calls", "update")[0]?.values,
+    ).toMatchObject({ status: "failed" });
+    expect(
+      writesTo(writes, "appointment_reminder_calls", "update")[0]?.values,
+    ).toEqual({ status: "failed", error: "QStash unavailable" });
+  });
+
+  it("doesn't call outside the clinic's calling hours", async () => {
+    const { supabase, writes } = makeSupabase(
+      reminderRows({ clinics: [{ ...CLINIC, timezone: "Asia/Tokyo" }] }),
+    );
+
+    const result = await runAppointmentReminders(supabase, NOW);
+
+    expect(result.clinicsOutsideCallingHours).toBe(1);
+    expect(writes).toEqual([]);
+  });
+});
+
+describe("handleReminderCallEnd", () => {
+  it("records the appointment's answer as the outcome", async () => {
+    const { supabase, writes } = makeSupabase({
+      appointment_reminder_calls: [
+        {
+          id: "reminder-1",
+          pims_appointments: { confirmation_status: "confirmed" },
+        },
+      ],
+    });
+
+    await handleReminderCallEnd(supabase, {
+      reminderId: "reminder-1",
+      vapiCallId: "vapi-call-1",
+      endedReason: "customer-ended-call",
+      reachedClient: true,
+    });
+
+    expect(
+      writesTo(writes, "appointment_reminder_calls", "update")[0]?.values,
+    ).toMatchObject({
+      status: "completed",
+      outcome: "confirmed",
+      vapi_call_id: "vapi-call-1",
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for cancellation waitlist matching
+ *
+ * Verifies which entries are offered a freed slot and in what order, and
+ * how cancelled appointment rows become openings and offer texts are
+ * answered.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  isWithinPreferredRanges,
+  parseWaitlistRanges,
+  parseWaitlistSmsReply,
+  selectWaitlistCandidates,
+  waitlistOpeningFromAppointment,
+  type WaitlistEntry,
+} from "../waitlist";
+
+function entry(overrides: Partial<WaitlistEntry> = {}): WaitlistEntry {
+  return {
+    id: "entry-1",
+    clinicId: "clinic-1",
+    clientName: "Jane Doe",
+    clientPhone: "+15555550100",
+    patientName: "Max",
+    species: "dog",
+    reason: null,
+    appointmentType: null,
+    isNewClient: false,
+    preferredRanges: [],
+    contactMethod: "call",
+    createdAt: "2026-03-01T10:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("parseWaitlistRanges", () => {
+  it("keeps valid ranges and drops malformed ones", () => {
+    expect(
+      parseWaitlistRanges([
+        { start_date: "2026-03-10", end_date: "2026-03-12" },
+        { start_date: "2026-03-12", end_date: "2026-03-10" },
+        { start_date: "March 10" },
+        "2026-03-10",
+      ]),
+    ).toEqual([{ start_date: "2026-03-10", end_date: "2026-03-12" }]);
+  });
+
+  it("returns no ranges for non-array values", () => {
+    expect(parseWaitlistRanges(null)).toEqual([]);
+    expect(parseWaitlistRanges({ start_date: "2026-03-10" })).toEqual([]);
+  });
+});
+
+describe("isWithinPreferredRanges", () => {
+  const ranges = [{ start_date: "2026-03-10", end_date: "2026-03-12" }];
+
+  it("treats no ranges as any day", () => {
+    expect(isWithinPreferredRanges([], "2026-07-04")).toBe(true);
+  });
+
+  it("includes both ends of a range", () => {
+    expect(isWithinPreferredRanges(ranges, "2026-03-10")).toBe(true);
+    expect(isWithinPreferredRanges(ranges, "2026-03-12")).toBe(true);
+    expect(isWithinPreferredRanges(ranges, "2026-03-13")).toBe(false);
+  });
+});
+
+describe("selectWaitlistCandidates", () => {
+  it("orders candidates by when they joined", () => {
+    const later = entry({ id: "later", createdAt: "2026-03-02T09:00:00Z" });
+    const earlier = entry({ id: "earlier", createdAt: "2026-03-01T09:00:00Z" });
+
+    const result = selectWaitlistCandidates([later, earlier], {
+      date: "2026-03-10",
+    });
+
+    expect(result.map((e) => e.id)).toEqual(["earlier", "later"]);
+  });
+
+  it("skips entries outside their preferred days and those already offered", () => {
+    const result = selectWaitlistCandidates(
+      [
+        entry({ id: "offered" }),
+        entry({
+          id: "wrong-day",
+          preferredRanges: [
+            { start_date: "2026-04-01", end_date: "2026-04-05" },
+          ],
+        }),
+        entry({ id: "match", createdAt: "2026-03-05T09:00:00Z" }),
+      ],
+      { date: "2026-03-10", excludeIds: ["offered"] },
+    );
+
+    expect(result.map((e) => e.id)).toEqual(["match"]);
+  });
+});
+
+describe("waitlistOpeningFromAppointment", () => {
+  it("builds an opening on the appointment's schedule", () => {
+    const opening = waitlistOpeningFromAppointment(
+      "clinic-1",
+      {
+        clinic_id: "pims-clinic-1",
+        time_range: '["2026-03-10 17:00:00+00","2026-03-10 17:30:00+00")',
+        appointment_type: "Wellness",
+      },
+      "cancellation",
+    );
+
+    expect(opening).toEqual({
+      clinicId: "clinic-1",
+      scheduleClinicId: "pims-clinic-1",
+      slotStart: "2026-03-10T17:00:00.000Z",
+      slotEnd: "2026-03-10T17:30:00.000Z",
+      appointmentType: "Wellness",
+      source: "cancellation",
+    });
+  });
+
+  it("returns null without a usable time range", () => {
+    expect(
+      waitlistOpeningFromAppointment(
+        "clinic-1",
+        { clinic_id: "clinic-1", time_range: null, appointment_type: null },
+        "pims_sync",
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("parseWaitlistSmsReply", () => {
+  it("reads BOOK and PASS regardless of case and punctuation", () => {
+    expect(parseWaitlistSmsReply(" book! ")).toBe(true);
+    expect(parseWaitlistSmsReply("Pass.")).toBe(false);
+  });
+
+  it("leaves carrier keywords and other texts alone", () => {
+    expect(parseWaitlistSmsReply("YES")).toBeNull();
+    expect(parseWaitlistSmsReply("NO")).toBeNull();
+    expect(parseWaitlistSmsReply("book it please")).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Add to Waitlist Processor
+ *
+ * Puts a caller on the clinic's cancellation waitlist when no slot suits
+ * them. If a matching slot opens, they're called or texted with an offer
+ * (see waitlist.ts).
+ *
+ * A caller already waiting with the same pet has their entry updated
+ * instead of getting a second one.
+ */
+
+import { normalizeToE164 } from "@odis-ai/shared/util/phone";
+import type { WaitlistDateRange } from "@odis-ai/shared/validators";
+import type { ToolContext, ToolResult } from "../../core/types";
+import type { AddToWaitlistInput } from "../../schemas/appointments";
+import { parseDateToISO } from "./book-appointment";
+import { toClinicDate } from "./waitlist";
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+/** Length of the range when the caller gives only one date */
+const OPEN_RANGE_DAYS = 30;
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0] ?? date;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * Process add to waitlist request
+ *
+ * @param input - Validated input with client, pet and preferred dates
+ * @param ctx - Tool context with clinic, supabase, logger
+ * @returns Waitlist confirmation for the caller
+ */
+export async function processAddToWaitlist(
+  input: AddToWaitlistInput,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const { clinic, supabase, logger, callId } = ctx;
+
+  if (!clinic) {
+    return {
+      success: false,
+      error: "clinic_not_found",
+      message: "I couldn't identify the clinic. Please try again later.",
+    };
+  }
+
+  // Parse preferred dates (natural language supported)
+  const dates: Record<"earliest" | "latest", string | null> = {
+    earliest: null,
+    latest: null,
+  };
+  for (const [key, value] of [
+    ["earliest", input.earliest_date],
+    ["latest", input.latest_date],
+  ] as const) {
+    if (!value) continue;
+    dates[key] = parseDateToISO(value);
+    if (!dates[key]) {
+      return {
+        success: false,
+        error: "invalid_date",
+        message: `I couldn't understand the date "${value}". Could you please say it again?`,
+      };
+    }
+  }
+
+  let ranges: WaitlistDateRange[] = [];
+  if (dates.earliest ?? dates.latest) {
+    const start =
+      dates.earliest ??
+      toClinicDate(
+        new Date().toISOString(),
+        clinic.timezone ?? DEFAULT_TIMEZONE,
+      );
+    const end = dates.latest ?? addDays(start, OPEN_RANGE_DAYS);
+    if (end < start) {
+      return {
+        success: false,
+        error: "invalid_date_range",
+        message:
+          "It sounds like the last day is before the first one. Which days would work for you?",
+      };
+    }
+    ranges = [{ start_date: start, end_date: end }];
+  }
+
+  const clientPhone = normalizeToE164(input.client_phone) ?? input.client_phone;
+
+  logger.info("Processing add to waitlist request", {
+    clinicId: clinic.id,
+    patientName: input.patient_name,
+    ranges,
+    contactMethod: input.contact_method,
+  });
+
+  const entry = {
+    client_name: input.client_name,
+    client_phone: clientPhone,
+    patient_name: input.patient_name,
+    species: input.species ?? null,
+    reason: input.reason ?? null,
+    appointment_type: input.appointment_type ?? null,
+    is_new_client: input.is_new_client,
+    preferred_ranges: ranges,
+    contact_method: input.contact_method,
+    vapi_call_id: callId ?? null,
+  };
+
+  const { data: existing } = await supabase
+    .from("appointment_waitlist")
+    .select("id")
+    .eq("clinic_id", clinic.id)
+    .eq("client_phone", clientPhone)
+    .ilike("patient_name", input.patient_name)
+    .in("status", ["waiting", "offered"])
+    .limit(1)
+    .maybeSingle();
+
+  const { data: saved, error } = existing
+    ? await supabase
+        .from("appointment_waitlist")
+        .update(entry)
+        .eq("id", existing.id)
+        .select("id")
+        .single()
+    : await supabase
+        .from("appointment_waitlist")
+        .insert({ ...entry, clinic_id: clinic.id, source: "phone" })
+        .select("id")
+        .single();
+
+  if (error || !saved) {
+    logger.error("Failed to save waitlist entry", {
+      error,
+      clinicId: clinic.id,
+    });
+    return {
+      success: false,
+      error: "database_error",
+      message:
+        "I'm having trouble adding you to the waitlist right now. Please call the office directly.",
+    };
+  }
+
+  const range = ranges[0];
+  const when = range
+    ? ` for ${formatDay(range.start_date)} through ${formatDay(range.end_date)}`
+    : "";
+  const how = input.contact_method === "sms" ? "text" : "call";
+
+  return {
+    success: true,
+    message: `I've ${existing ? "updated" : "added"} ${input.patient_name} on our waitlist${when}. If an appointment opens up, we'll ${how} you to offer it, and we'll hold it for you for a little while. Is there anything else I can help you with?`,
+    data: {
+      waitlist_id: saved.id,
+      updated: !!existing,
+      preferred_ranges: ranges,
+      contact_method: input.contact_method,
+    },
+  };
+}
@@ -0,0 +1,415 @@
+/**
+ * Clinic Appointment Types
+ *
+ * Fits the clinic's appointment types (clinic_appointment_types) into the
+ * schedule. A start is offered for a type only when:
+ * - enough back-to-back open slots cover duration + buffer, and
+ * - a room and provider of the required kind (clinic_resources) are free
+ *   for the whole visit
+ *
+ * Applied last in the availability pipeline, and checked by book_appointment:
+ *   SQL get_available_slots → applyRoomFilterToSlots → applyClinicHoursFilter
+ *     → applyBookingRulesToSlots → applyAppointmentTypeToSlots
+ *
+ * Requirements with no matching active resource aren't enforced, so a clinic
+ * can add types before listing its rooms and providers.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fromZonedTime } from "date-fns-tz";
+import type { Database } from "@odis-ai/shared/types";
+import type { ClinicResourceKind } from "@odis-ai/shared/validators";
+import { rangesOverlap, type TimeRange } from "@odis-ai/shared/util";
+import type { AvailableSlot } from "../../schemas/appointments";
+import {
+  loadFilteredSlots,
+  loadRuleAppointments,
+  type RuleAppointment,
+} from "./booking-rules";
+
+const LOG_PREFIX = "[appointment-types]";
+
+/**
+ * An active row from clinic_appointment_types
+ */
+export interface ClinicAppointmentType {
+  id: string;
+  name: string;
+  pimsAppointmentTypeId: string | null;
+  durationMinutes: number;
+  bufferMinutes: number;
+  requiredRoomType: string | null;
+  requiredProviderRole: string | null;
+  keywords: string[];
+}
+
+/**
+ * An active row from clinic_resources
+ */
+export interface ClinicResource {
+  id: string;
+  kind: ClinicResourceKind;
+  name: string;
+  pimsResourceId: string | null;
+  roomType: string | null;
+  providerRole: string | null;
+}
+
+export interface AppointmentTypeFit {
+  fits: boolean;
+  reason: string | null;
+  /** End of the visit itself, without the buffer */
+  end: Date;
+  room: ClinicResource | null;
+  provider: ClinicResource | null;
+}
+
+export interface FitAppointmentTypeInput {
+  type: ClinicAppointmentType;
+  start: Date;
+  /** The day's slots, before this type's filtering */
+  slots: AvailableSlot[];
+  resources: ClinicResource[];
+  appointments: RuleAppointment[];
+}
+
+/* ========================================
+   Fitting
+   ======================================== */
+
+/**
+ * Pick the clinic's type for a booking
+ * An exact name match wins, then the first type with a keyword found in the
+ * requested type or visit reason.
+ */
+export function resolveAppointmentType(
+  types: ClinicAppointmentType[],
+  request: { appointmentType?: string; reason?: string },
+): ClinicAppointmentType | null {
+  const requested = request.appointmentType?.trim().toLowerCase();
+  if (requested) {
+    const byName = types.find((type) => type.name.toLowerCase() === requested);
+    if (byName) return byName;
+  }
+
+  const text = [request.appointmentType, request.reason]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  if (!text) return null;
+
+  return (
+    types.find((type) =>
+      type.keywords.some((keyword) => text.includes(keyword.toLowerCase())),
+    ) ?? null
+  );
+}
+
+function isOpen(slot: AvailableSlot): boolean {
+  return !slot.is_blocked && slot.available_count > 0;
+}
+
+/**
+ * Whether open slots cover [start, end) with no gaps
+ */
+function hasContiguousTime(
+  slots: AvailableSlot[],
+  start: Date,
+  end: Date,
+): boolean {
+  const byStart = new Map(
+    slots.map((slot) => [new Date(slot.slot_start).getTime(), slot]),
+  );
+
+  let cursor = start.getTime();
+  while (cursor < end.getTime()) {
+    const slot = byStart.get(cursor);
+    if (!slot || !isOpen(slot)) return false;
+
+    const next = new Date(slot.slot_end).getTime();
+    if (next <= cursor) return false;
+    cursor = next;
+  }
+  return true;
+}
+
+function isResourceBusy(
+  resource: ClinicResource,
+  window: TimeRange,
+  appointments: RuleAppointment[],
+): boolean {
+  const name = resource.name.toLowerCase();
+
+  return appointments.some((appointment) => {
+    if (!rangesOverlap(window, appointment)) return false;
+
+    if (resource.kind === "room") {
+      return (
+        !!appointment.roomId &&
+        (appointment.roomId === resource.pimsResourceId ||
+          appointment.roomId.toLowerCase() === name)
+      );
+    }
+    return appointment.providerName?.toLowerCase() === name;
+  });
+}
+
+/**
+ * First free resource of a kind with the required room type / provider role
+ *
+ * @returns undefined when the clinic has no resource with that label
+ */
+function findFreeResource(
+  kind: ClinicResourceKind,
+  requirement: string,
+  window: TimeRange,
+  input: FitAppointmentTypeInput,
+): ClinicResource | null | undefined {
+  const required = requirement.toLowerCase();
+  const candidates = input.resources.filter(
+    (resource) =>
+      resource.kind === kind &&
+      (kind === "room"
+        ? resource.roomType
+        : resource.providerRole
+      )?.toLowerCase() === required,
+  );
+
+  if (candidates.length === 0) return undefined;
+
+  return (
+    candidates.find(
+      (resource) => !isResourceBusy(resource, window, input.appointments),
+    ) ?? null
+  );
+}
+
+/**
+ * Whether a visit of this type can start at `start`, and with which
+ * room and provider
+ */
+export function fitAppointmentType(
+  input: FitAppointmentTypeInput,
+): AppointmentTypeFit {
+  const { type, start } = input;
+  const end = new Date(start.getTime() + type.durationMinutes * 60 * 1000);
+  const held: TimeRange = {
+    start,
+    end: new Date(end.getTime() + type.bufferMinutes * 60 * 1000),
+  };
+
+  const fail = (reason: string): AppointmentTypeFit => ({
+    fits: false,
+    reason,
+    end,
+    room: null,
+    provider: null,
+  });
+
+  if (!hasContiguousTime(input.slots, held.start, held.end)) {
+    return fail(
+      `Needs ${type.durationMinutes + type.bufferMinutes} free minutes for ${type.name}`,
+    );
+  }
+
+  const room = type.requiredRoomType
+    ? findFreeResource("room", type.requiredRoomType, held, input)
+    : undefined;
+  if (room === null) {
+    return fail(`No ${type.requiredRoomType} room free`);
+  }
+
+  const provider = type.requiredProviderRole
+    ? findFreeResource("provider", type.requiredProviderRole, held, input)
+    : undefined;
+  if (provider === null) {
+    return fail(`No ${type.requiredProviderRole} free`);
+  }
+
+  return {
+    fits: true,
+    reason: null,
+    end,
+    room: room ?? null,
+    provider: provider ?? null,
+  };
+}
+
+/**
+ * Block open slots where a visit of this type doesn't fit
+ */
+export function filterSlotsByAppointmentType(
+  slots: AvailableSlot[],
+  options: Omit<FitAppointmentTypeInput, "start" | "slots">,
+): AvailableSlot[] {
+  return slots.map((slot) => {
+    if (!isOpen(slot)) return slot;
+
+    const fit = fitAppointmentType({
+      ...options,
+      start: new Date(slot.slot_start),
+      slots,
+    });
+    if (fit.fits) return slot;
+
+    return {
+      ...slot,
+      is_blocked: true,
+      available_count: 0,
+      block_reason: fit.reason,
+    };
+  });
+}
+
+/* ========================================
+   Loading
+   ======================================== */
+
+/**
+ * Active appointment types for a clinic
+ * A failed lookup is logged and treated as no types.
+ */
+export async function loadAppointmentTypes(
+  supabase: SupabaseClient<Database>,
+  clinicId: string,
+): Promise<ClinicAppointmentType[]> {
+  const { data, error } = await supabase
+    .from("clinic_appointment_types")
+    .select(
+      "id, name, pims_appointment_type_id, duration_minutes, buffer_minutes, required_room_type, required_provider_role, keywords",
+    )
+    .eq("clinic_id", clinicId)
+    .eq("is_active", true)
+    .order("name");
+
+  if (error) {
+    console.error(
+      `${LOG_PREFIX} Failed to load appointment types for clinic=${clinicId}: ${error.message}`,
+    );
+    return [];
+  }
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    name: row.name,
+    pimsAppointmentTypeId: row.pims_appointment_type_id,
+    durationMinutes: row.duration_minutes,
+    bufferMinutes: row.buffer_minutes,
+    requiredRoomType: row.required_room_type,
+    requiredProviderRole: row.required_provider_role,
+    keywords: row.keywords ?? [],
+  }));
+}
+
+/**
+ * Active rooms and providers for a clinic
+ */
+export async function loadClinicResources(
+  supabase: SupabaseClient<Database>,
+  clinicId: string,
+): Promise<ClinicResource[]> {
+  const { data, error } = await supabase
+    .from("clinic_resources")
+    .select("id, kind, name, pims_resource_id, room_type, provider_role")
+    .eq("clinic_id", clinicId)
+    .eq("is_active", true)
+    .order("name");
+
+  if (error) {
+    console.error(
+      `${LOG_PREFIX} Failed to load resources for clinic=${clinicId}: ${error.message}`,
+    );
+    return [];
+  }
+
+  return (data ?? [])
+    .filter((row) => row.kind === "room" || row.kind === "provider")
+    .map((row) => ({
+      id: row.id,
+      kind: row.kind as ClinicResourceKind,
+      name: row.name,
+      pimsResourceId: row.pims_resource_id,
+      roomType: row.room_type,
+      providerRole: row.provider_role,
+    }));
+}
+
+interface AppointmentTypeContext {
+  supabase: SupabaseClient<Database>;
+  /** The availabilityClinicId whose schedule is being booked */
+  clinicId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  type: ClinicAppointmentType;
+  /** Use these instead of loading the clinic's resources */
+  resources?: ClinicResource[];
+}
+
+async function loadFitData(context: AppointmentTypeContext) {
+  const { type } = context;
+  const resources =
+    context.resources ??
+    (await loadClinicResources(context.supabase, context.clinicId));
+
+  const needsAppointments =
+    resources.length > 0 &&
+    (!!type.requiredRoomType || !!type.requiredProviderRole);
+  const appointments = needsAppointments
+    ? await loadRuleAppointments(
+        context.supabase,
+        context.clinicId,
+        context.date,
+      )
+    : [];
+
+  return { resources, appointments };
+}
+
+/**
+ * Block slots where the appointment type doesn't fit
+ */
+export async function applyAppointmentTypeToSlots(
+  slots: AvailableSlot[],
+  context: AppointmentTypeContext,
+): Promise<AvailableSlot[]> {
+  if (slots.length === 0) return slots;
+
+  const { resources, appointments } = await loadFitData(context);
+  const result = filterSlotsByAppointmentType(slots, {
+    type: context.type,
+    resources,
+    appointments,
+  });
+
+  console.log(
+    `${LOG_PREFIX} ${context.type.name} (${context.type.durationMinutes}+${context.type.bufferMinutes} min) for clinic=${context.clinicId}: ${result.filter((s) => s.is_blocked).length - slots.filter((s) => s.is_blocked).length} slots blocked`,
+  );
+
+  return result;
+}
+
+/**
+ * Check one booking (date + clinic-local time) for an appointment type
+ *
+ * @param time - "HH:MM" or "HH:MM:SS" in clinic time
+ */
+export async function checkAppointmentTypeFit(
+  context: AppointmentTypeContext & { time: string; timezone: string },
+): Promise<AppointmentTypeFit> {
+  const [slots, fitData] = await Promise.all([
+    loadFilteredSlots(
+      context.supabase,
+      context.clinicId,
+      context.date,
+      context.timezone,
+    ),
+    loadFitData(context),
+  ]);
+
+  return fitAppointmentType({
+    type: context.type,
+    start: fromZonedTime(`${context.date}T${context.time}`, context.timezone),
+    slots,
+    ...fitData,
+  });
+}
@@ -0,0 +1,381 @@
+/**
+ * Availability Explainer
+ *
+ * Answers "why did the AI say no slots?" for any clinic and date. Lists every
+ * candidate slot from the clinic's schedule and the first pipeline layer that
+ * took it away for good:
+ *
+ *   schedule_config   closed day or outside open/close (get_available_slots)
+ *   blocked_period    clinic_blocked_periods (get_available_slots)
+ *   booked            booked_count reached capacity (get_available_slots)
+ *   room_filter       applyRoomFilterToSlots recount
+ *   clinic_hours      applyClinicHoursFilter
+ *   booking_rule      applyBookingRulesToSlots
+ *   appointment_type  applyAppointmentTypeToSlots
+ *
+ * The stages and the spoken result come from check-availability.ts, so the
+ * final list is exactly what the check_availability tool would say.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fromZonedTime } from "date-fns-tz";
+import type { Database, Json } from "@odis-ai/shared/types";
+import type { ToolResult } from "../../core/types";
+import type {
+  AvailableSlot,
+  CheckAvailabilityInput,
+} from "../../schemas/appointments";
+import {
+  buildAvailabilityResult,
+  isOpenSlot,
+  loadAvailabilityStages,
+  parseRequestedDate,
+  PAST_DATE_RESULT,
+  slotToLocalTime,
+  SPOKEN_TIME_COUNT,
+  type AvailabilityStages,
+} from "./check-availability";
+import { parseTimeToMinutes } from "./clinic-hours-filter";
+
+/** Matches the defaults in get_available_slots */
+const DEFAULT_SCHEDULE = {
+  open: "08:00",
+  close: "18:00",
+  slotMinutes: 15,
+};
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export type AvailabilityLayer =
+  | "schedule_config"
+  | "blocked_period"
+  | "booked"
+  | "room_filter"
+  | "clinic_hours"
+  | "booking_rule"
+  | "appointment_type";
+
+/**
+ * The day's schedule as get_available_slots sees it
+ */
+export interface ScheduleWindow {
+  /** "HH:MM" clinic time */
+  open: string;
+  close: string;
+  slotMinutes: number;
+  closed: boolean;
+  /** Where the hours came from */
+  source: "daily_hours" | "config" | "default";
+}
+
+export interface ExplainedSlot {
+  slotStart: string;
+  time12h: string;
+  time24h: string;
+  /** Offered to the caller */
+  open: boolean;
+  /** Among the times read out in the message */
+  spoken: boolean;
+  removedBy: AvailabilityLayer | null;
+  reason: string | null;
+  capacity: number | null;
+  bookedCount: number | null;
+  availableCount: number | null;
+}
+
+export interface AvailabilityExplanation {
+  date: string;
+  timezone: string;
+  /** The clinic whose schedule was read (pims_clinic_id ?? clinic id) */
+  clinicId: string;
+  schedule: ScheduleWindow;
+  appointmentType: { name: string; durationMinutes: number } | null;
+  slots: ExplainedSlot[];
+  /** What check_availability returns to the assistant */
+  result: ToolResult;
+}
+
+interface ScheduleConfigRow {
+  open_time: string | null;
+  close_time: string | null;
+  slot_duration_minutes: number | null;
+  daily_hours: Json | null;
+}
+
+/* ========================================
+   Schedule
+   ======================================== */
+
+function toHourMinute(time: string | null | undefined, fallback: string) {
+  return time ? time.slice(0, 5) : fallback;
+}
+
+/**
+ * Resolve open/close and slot length the way get_available_slots does
+ */
+export function resolveScheduleWindow(
+  config: ScheduleConfigRow | null,
+  date: string,
+): ScheduleWindow {
+  if (!config) {
+    return { ...DEFAULT_SCHEDULE, closed: false, source: "default" };
+  }
+
+  const slotMinutes =
+    config.slot_duration_minutes ?? DEFAULT_SCHEDULE.slotMinutes;
+  const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const dailyHours =
+    config.daily_hours &&
+    typeof config.daily_hours === "object" &&
+    !Array.isArray(config.daily_hours)
+      ? config.daily_hours
+      : null;
+  const day = dailyHours?.[String(dayOfWeek)] as
+    { enabled?: boolean; open?: string; close?: string } | undefined;
+
+  const configHours = {
+    open: toHourMinute(config.open_time, DEFAULT_SCHEDULE.open),
+    close: toHourMinute(config.close_time, DEFAULT_SCHEDULE.close),
+  };
+
+  if (!day) {
+    return { ...configHours, slotMinutes, closed: false, source: "config" };
+  }
+
+  if (day.enabled === false) {
+    // No slots come back; list the regular hours so each shows as closed
+    return { ...configHours, slotMinutes, closed: true, source: "daily_hours" };
+  }
+
+  return {
+    open: toHourMinute(day.open, DEFAULT_SCHEDULE.open),
+    close: toHourMinute(day.close, DEFAULT_SCHEDULE.close),
+    slotMinutes,
+    closed: false,
+    source: "daily_hours",
+  };
+}
+
+/**
+ * Slot starts (ISO) from open to close in clinic time
+ */
+export function scheduleSlotStarts(
+  schedule: ScheduleWindow,
+  date: string,
+  timezone: string,
+): string[] {
+  const starts: string[] = [];
+  const close = parseTimeToMinutes(schedule.close);
+  if (schedule.slotMinutes <= 0) return starts;
+
+  for (
+    let minutes = parseTimeToMinutes(schedule.open);
+    minutes < close;
+    minutes += schedule.slotMinutes
+  ) {
+    const time = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+    starts.push(fromZonedTime(`${date}T${time}`, timezone).toISOString());
+  }
+  return starts;
+}
+
+/* ========================================
+   Attribution
+   ======================================== */
+
+const FILTER_LAYERS: {
+  layer: AvailabilityLayer;
+  stage: keyof Omit<AvailabilityStages, "appointmentType">;
+}[] = [
+  { layer: "room_filter", stage: "roomFiltered" },
+  { layer: "clinic_hours", stage: "hoursFiltered" },
+  { layer: "booking_rule", stage: "ruleFiltered" },
+  { layer: "appointment_type", stage: "final" },
+];
+
+function indexByStart(slots: AvailableSlot[]): Map<number, AvailableSlot> {
+  return new Map(
+    slots.map((slot) => [new Date(slot.slot_start).getTime(), slot]),
+  );
+}
+
+function sqlRemoval(slot: AvailableSlot): {
+  removedBy: AvailabilityLayer;
+  reason: string;
+} {
+  if (slot.is_blocked) {
+    return {
+      removedBy: "blocked_period",
+      reason: slot.block_reason ?? "Blocked period",
+    };
+  }
+  return {
+    removedBy: "booked",
+    reason: `${slot.booked_count} of ${slot.capacity} booked`,
+  };
+}
+
+/**
+ * Explain each candidate slot
+ *
+ * A closed slot is put on the earliest layer after which it never reopens
+ * (the room filter recount can reopen a slot SQL counted as booked).
+ */
+export function explainSlots(
+  stages: AvailabilityStages,
+  options: { schedule: ScheduleWindow; date: string; timezone: string },
+): ExplainedSlot[] {
+  const { schedule, timezone } = options;
+  const raw = indexByStart(stages.raw);
+  const filtered = FILTER_LAYERS.map(({ layer, stage }) => ({
+    layer,
+    slots: indexByStart(stages[stage]),
+  }));
+
+  const candidates = new Set([
+    ...scheduleSlotStarts(schedule, options.date, timezone).map((start) =>
+      new Date(start).getTime(),
+    ),
+    ...raw.keys(),
+  ]);
+
+  let spokenLeft = SPOKEN_TIME_COUNT;
+
+  return [...candidates]
+    .sort((a, b) => a - b)
+    .map((startMs): ExplainedSlot => {
+      const slotStart = new Date(startMs).toISOString();
+      const { time12h, time24h } = slotToLocalTime(slotStart, timezone);
+      const rawSlot = raw.get(startMs);
+
+      if (!rawSlot) {
+        return {
+          slotStart,
+          time12h,
+          time24h,
+          open: false,
+          spoken: false,
+          removedBy: "schedule_config",
+          reason: schedule.closed
+            ? `Closed on ${WEEKDAYS[new Date(`${options.date}T00:00:00Z`).getUTCDay()]}s`
+            : "Not returned by get_available_slots",
+          capacity: null,
+          bookedCount: null,
+          availableCount: null,
+        };
+      }
+
+      const path = [
+        rawSlot,
+        ...filtered.map(({ slots }) => slots.get(startMs) ?? rawSlot),
+      ];
+      const finalSlot = path[path.length - 1] ?? rawSlot;
+      const open = isOpenSlot(finalSlot);
+      const spoken = open && spokenLeft-- > 0;
+
+      let removal: { removedBy: AvailabilityLayer; reason: string } | null =
+        null;
+      if (!open) {
+        // Walk back from the end to the first layer of the closed run
+        let first = path.length - 1;
+        while (first > 0 && !isOpenSlot(path[first - 1] ?? rawSlot)) {
+          first--;
+        }
+
+        const layer = filtered[first - 1]?.layer;
+        const closedSlot = path[first] ?? rawSlot;
+        removal = layer
+          ? {
+              removedBy: layer,
+              reason:
+                closedSlot.block_reason ??
+                `${closedSlot.booked_count} of ${closedSlot.capacity} booked`,
+            }
+          : sqlRemoval(rawSlot);
+      }
+
+      return {
+        slotStart,
+        time12h,
+        time24h,
+        open,
+        spoken,
+        removedBy: removal?.removedBy ?? null,
+        reason: removal?.reason ?? null,
+        capacity: finalSlot.capacity,
+        bookedCount: finalSlot.booked_count,
+        availableCount: finalSlot.available_count,
+      };
+    });
+}
+
+/* ========================================
+   Loading
+   ======================================== */
+
+/**
+ * Run check_availability for a clinic and date and explain every slot
+ *
+ * @param clinicId - The availabilityClinicId (pims_clinic_id ?? clinic.id)
+ */
+export async function explainAvailability(
+  input: CheckAvailabilityInput,
+  options: {
+    supabase: SupabaseClient<Database>;
+    clinicId: string;
+    timezone: string;
+  },
+): Promise<AvailabilityExplanation> {
+  const { supabase, clinicId, timezone } = options;
+
+  const { data: config, error: configError } = await supabase
+    .from("clinic_schedule_config")
+    .select("open_time, close_time, slot_duration_minutes, daily_hours")
+    .eq("clinic_id", clinicId)
+    .maybeSingle();
+
+  if (configError) {
+    throw new Error(`Failed to load schedule config: ${configError.message}`);
+  }
+
+  const schedule = resolveScheduleWindow(config, input.date);
+  const { requestedDate, isPast } = parseRequestedDate(input.date, timezone);
+
+  const { stages, error } = await loadAvailabilityStages(input, {
+    supabase,
+    clinicId,
+    timezone,
+  });
+
+  if (error) {
+    throw new Error(`Failed to get available slots: ${error.message}`);
+  }
+
+  const slots = explainSlots(stages, { schedule, date: input.date, timezone });
+
+  return {
+    date: input.date,
+    timezone,
+    clinicId,
+    schedule,
+    appointmentType: stages.appointmentType
+      ? {
+          name: stages.appointmentType.name,
+          durationMinutes: stages.appointmentType.durationMinutes,
+        }
+      : null,
+    // The tool stops at a past date before reading the schedule
+    slots: isPast ? slots.map((slot) => ({ ...slot, spoken: false })) : slots,
+    result: isPast
+      ? PAST_DATE_RESULT
+      : buildAvailabilityResult(input, stages, requestedDate, timezone),
+  };
+}
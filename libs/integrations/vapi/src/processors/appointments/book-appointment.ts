@@ -5,12 +5,20 @@
  */
 
 import { fromZonedTime } from "date-fns-tz";
+import { hasPimsCapability } from "@odis-ai/shared/types";
 import type { ToolContext, ToolResult } from "../../core/types";
 import type { ClinicWithConfig } from "../../inbound-tools/find-clinic-by-assistant";
 import type {
   BookAppointmentInput,
   BookingResult,
 } from "../../schemas/appointments";
+import { createPimsWriteProvider } from "./pims-write-provider";
+import { checkBookingRules } from "./booking-rules";
+import {
+  checkAppointmentTypeFit,
+  loadAppointmentTypes,
+  resolveAppointmentType,
+} from "./appointment-types";
 
 const DEFAULT_TIMEZONE = "America/Los_Angeles";
 
@@ -328,30 +336,101 @@ export async function processBookAppointment(
   });
   const formattedTime = formatTime12Hour(parsedTime);
 
-  // === IDEXX Neo Clinics: Use IDEXX API ===
-  // For clinics using IDEXX Neo, use the appointment management API
-  if (clinic.pims_type === "idexx") {
-    try {
-      // Dynamic import to avoid loading IDEXX dependencies for non-IDEXX clinics
-      const { IdexxProvider } = await import("@odis-ai/integrations/idexx");
-      const { BrowserService } =
-        await import("@odis-ai/integrations/idexx/browser");
-
-      // Get IDEXX credentials from clinic config or environment
-      // TODO: Store IDEXX credentials in clinic settings
-      const credentials = {
-        username: process.env.IDEXX_USERNAME ?? "",
-        password: process.env.IDEXX_PASSWORD ?? "",
-        companyId: process.env.IDEXX_COMPANY_ID ?? "",
-      };
+  // === Clinic booking rules (checked against the shared schedule) ===
+  const ruleClinic = clinic as ClinicWithConfig & {
+    pims_clinic_id?: string | null;
+  };
+  const scheduleClinicId = ruleClinic.pims_clinic_id ?? clinic.id;
+  const ruleDecision = await checkBookingRules({
+    supabase,
+    clinicId: scheduleClinicId,
+    date: parsedDate,
+    time: parsedTime,
+    timezone: clinic.timezone ?? DEFAULT_TIMEZONE,
+    subject: {
+      isNewClient: input.is_new_client,
+      species: input.species,
+      reason: input.reason,
+    },
+  });
 
-      if (!credentials.username || !credentials.password) {
-        logger.error("IDEXX credentials not configured", {
-          clinicId: clinic.id,
-        });
-        throw new Error("IDEXX credentials not configured");
-      }
+  if (!ruleDecision.allowed) {
+    logger.info("Booking rejected by clinic booking rules", {
+      clinicId: clinic.id,
+      date: parsedDate,
+      time: parsedTime,
+      violations: ruleDecision.violations,
+    });
+    return {
+      success: false,
+      error: "booking_rule_violation",
+      message: `I'm sorry, ${formattedTime} on ${formattedDate} isn't available for this kind of visit. Would you like me to check other times?`,
+      data: {
+        rules: ruleDecision.violations.map((violation) => violation.ruleName),
+      },
+    };
+  }
+
+  // === Appointment type: visit length, room and provider ===
+  const appointmentType = resolveAppointmentType(
+    await loadAppointmentTypes(supabase, scheduleClinicId),
+    { appointmentType: input.appointment_type, reason: input.reason },
+  );
+  const typeFit = appointmentType
+    ? await checkAppointmentTypeFit({
+        supabase,
+        clinicId: scheduleClinicId,
+        date: parsedDate,
+        time: parsedTime,
+        timezone: clinic.timezone ?? DEFAULT_TIMEZONE,
+        type: appointmentType,
+      })
+    : null;
+
+  if (appointmentType && typeFit && !typeFit.fits) {
+    logger.info("Booking rejected: appointment type doesn't fit", {
+      clinicId: clinic.id,
+      date: parsedDate,
+      time: parsedTime,
+      appointmentType: appointmentType.name,
+      reason: typeFit.reason,
+    });
+    return {
+      success: false,
+      error: "appointment_type_unavailable",
+      message: `I'm sorry, ${formattedTime} on ${formattedDate} doesn't have enough time open for a ${appointmentType.name}. Would you like me to check other times?`,
+      data: {
+        appointment_type: appointmentType.name,
+        reason: typeFit.reason,
+      },
+    };
+  }
+
+  const assignedProvider =
+    ruleDecision.providerName ?? typeFit?.provider?.name ?? null;
+  const assignedRoom = typeFit?.room ?? null;
+  // ODIS-side records hold the buffer too so the next booking starts after it
+  const heldMinutes = appointmentType
+    ? appointmentType.durationMinutes + appointmentType.bufferMinutes
+    : null;
+
+  // === PIMS write-back: book directly in the clinic's PIMS ===
+  // Clinics whose PIMS can't create appointments (or have no PIMS
+  // integration) continue to the ODIS booking hold below
+  const provider = await createPimsWriteProvider(
+    clinic,
+    ctx,
+    "createAppointment",
+  ).catch((error: unknown) => {
+    logger.error("PIMS provider setup failed, falling back to ODIS hold", {
+      error,
+      clinicId: clinic.id,
+    });
+    return null;
+  });
 
+  if (provider) {
+    try {
       // Fetch clinic's slot duration from config (default 15 minutes if not configured)
       const { data: scheduleConfig } = await supabase
         .from("clinic_schedule_config")
@@ -359,33 +438,17 @@ export async function processBookAppointment(
         .eq("clinic_id", clinic.id)
         .single();
 
-      const slotDurationMinutes = scheduleConfig?.slot_duration_minutes ?? 15;
+      const slotDurationMinutes =
+        appointmentType?.durationMinutes ??
+        scheduleConfig?.slot_duration_minutes ??
+        15;
 
-      logger.info("Using clinic slot duration for IDEXX booking", {
+      logger.info("Using clinic slot duration for PIMS booking", {
         clinicId: clinic.id,
         slotDurationMinutes,
+        appointmentType: appointmentType?.name,
       });
 
-      // Initialize IDEXX provider
-      const browserService = new BrowserService({
-        headless: true,
-        defaultTimeout: 30000,
-      });
-
-      const provider = new IdexxProvider({
-        browserService,
-        debug: false,
-      });
-
-      // Authenticate
-      const authenticated = await provider.authenticate(credentials);
-      if (!authenticated) {
-        logger.error("IDEXX authentication failed", { clinicId: clinic.id });
-        throw new Error("IDEXX authentication failed");
-      }
-
-      logger.info("IDEXX provider authenticated", { clinicId: clinic.id });
-
       // Calculate end time using clinic-specific slot duration
       const calculateEndTime = (
         startTime: string,
@@ -404,87 +467,73 @@ export async function processBookAppointment(
       // Determine if this is a new client or existing
       const isNewClient = input.is_new_client ?? false;
 
+      const appointmentDetails = {
+        reason: input.reason ?? "Appointment",
+        date: parsedDate,
+        startTime: parsedTime,
+        endTime: calculateEndTime(parsedTime),
+        appointmentTypeId: appointmentType?.pimsAppointmentTypeId ?? undefined,
+        roomId: assignedRoom?.pimsResourceId ?? undefined,
+        note: `Booked via VAPI inbound call${callId ? ` (Call ID: ${callId})` : ""}${assignedProvider ? ` - book with ${assignedProvider}` : ""}`,
+      };
+
+      // Provider registers the client and patient before booking
+      const newClientAppointment = {
+        ...appointmentDetails,
+        newClient: {
+          firstName: input.client_name.split(" ")[0] ?? "",
+          lastName:
+            input.client_name.split(" ").slice(1).join(" ") ||
+            input.client_name,
+          phone: input.client_phone,
+        },
+        newPatient: {
+          name: input.patient_name,
+          species: input.species ?? "Unknown",
+          breed: input.breed,
+        },
+      };
+
       let result;
 
       if (isNewClient) {
         // Create appointment with new client and patient
-        result = await provider.createAppointmentWithNewClient({
-          newClient: {
-            firstName: input.client_name.split(" ")[0] ?? "",
-            lastName:
-              input.client_name.split(" ").slice(1).join(" ") ||
-              input.client_name,
-            phone: input.client_phone,
-          },
-          newPatient: {
-            name: input.patient_name,
-            species: input.species ?? "Unknown",
-            breed: input.breed,
-          },
-          reason: input.reason ?? "Appointment",
-          date: parsedDate,
-          startTime: parsedTime,
-          endTime: calculateEndTime(parsedTime),
-          note: `Booked via VAPI inbound call${callId ? ` (Call ID: ${callId})` : ""}`,
-        });
+        result = await provider.createAppointment(newClientAppointment);
       } else {
         // Search for existing patient first
-        const searchResult = await provider.searchPatient({
-          query: input.patient_name,
-          limit: 5,
-        });
+        const searchResult = hasPimsCapability(provider, "searchPatient")
+          ? await provider.searchPatient({
+              query: input.patient_name,
+              limit: 5,
+            })
+          : { patients: [], totalCount: 0 };
 
         if (searchResult.patients.length === 0) {
-          logger.warn("Patient not found in IDEXX, treating as new client", {
+          logger.warn("Patient not found in PIMS, treating as new client", {
             patientName: input.patient_name,
             clinicId: clinic.id,
           });
           // Fallback to new client workflow
-          result = await provider.createAppointmentWithNewClient({
-            newClient: {
-              firstName: input.client_name.split(" ")[0] ?? "",
-              lastName:
-                input.client_name.split(" ").slice(1).join(" ") ||
-                input.client_name,
-              phone: input.client_phone,
-            },
-            newPatient: {
-              name: input.patient_name,
-              species: input.species ?? "Unknown",
-              breed: input.breed,
-            },
-            reason: input.reason ?? "Appointment",
-            date: parsedDate,
-            startTime: parsedTime,
-            endTime: calculateEndTime(parsedTime),
-            note: `Booked via VAPI inbound call${callId ? ` (Call ID: ${callId})` : ""}`,
-          });
+          result = await provider.createAppointment(newClientAppointment);
         } else {
           // Use first matching patient
           const patient = searchResult.patients[0];
-          logger.info("Found matching patient in IDEXX", {
+          logger.info("Found matching patient in PIMS", {
             patientId: patient?.id,
             patientName: patient?.name,
             clinicId: clinic.id,
           });
 
           result = await provider.createAppointment({
+            ...appointmentDetails,
             patientId: patient?.id,
             clientId: patient?.clientId,
-            reason: input.reason ?? "Appointment",
-            date: parsedDate,
-            startTime: parsedTime,
-            endTime: calculateEndTime(parsedTime),
-            note: `Booked via VAPI inbound call${callId ? ` (Call ID: ${callId})` : ""}`,
           });
         }
       }
 
-      // Clean up browser resources
-      await provider.close();
-
       if (result.success) {
-        logger.info("IDEXX appointment created successfully", {
+        logger.info("PIMS appointment created successfully", {
           appointmentId: result.appointmentId,
           clinicId: clinic.id,
           clinicName: clinic.name,
@@ -533,7 +582,8 @@ export async function processBookAppointment(
           clinicTimezone,
         );
         const endTimestamp = new Date(
-          startTimestamp.getTime() + slotDurationMinutes * 60 * 1000,
+          startTimestamp.getTime() +
+            (heldMinutes ?? slotDurationMinutes) * 60 * 1000,
         );
 
         // Insert into pims_appointments so get_available_slots reflects booking immediately
@@ -547,8 +597,10 @@ export async function processBookAppointment(
               patient_name: input.patient_name,
               client_name: input.client_name,
               client_phone: input.client_phone,
-              provider_name: null,
-              appointment_type: input.reason ?? "Appointment",
+              provider_name: assignedProvider,
+              room_id: assignedRoom?.pimsResourceId ?? assignedRoom?.name,
+              appointment_type:
+                appointmentType?.name ?? input.reason ?? "Appointment",
               status: "scheduled",
               source: "vapi",
               last_synced_at: new Date().toISOString(),
@@ -557,12 +609,12 @@ export async function processBookAppointment(
           );
 
         if (v2Error) {
-          logger.warn("Failed to insert pims_appointment after IDEXX booking", {
+          logger.warn("Failed to insert pims_appointment after PIMS booking", {
             error: v2Error.message,
             clinicId: bookingClinicId,
           });
         } else {
-          logger.info("PIMS appointment tracked after IDEXX booking", {
+          logger.info("PIMS appointment tracked after PIMS booking", {
             clinicId: bookingClinicId,
             date: parsedDate,
             time: parsedTime,
@@ -584,29 +636,32 @@ export async function processBookAppointment(
               reason: input.reason,
             },
             clinic_name: clinic.name,
-            pims_type: "idexx",
+            pims_type: clinic.pims_type,
           },
         };
       } else {
-        // IDEXX API failed, fall back to schedule_slots
+        // PIMS write failed, fall back to ODIS hold
         logger.error(
-          "IDEXX appointment creation failed, falling back to schedule_slots",
+          "PIMS appointment creation failed, falling back to ODIS hold",
           {
             error: result.error,
             clinicId: clinic.id,
           },
         );
-        // Continue to schedule_slots fallback below
+        // Continue to ODIS hold fallback below
       }
     } catch (error) {
       logger.error(
-        "IDEXX appointment creation error, falling back to schedule_slots",
+        "PIMS appointment creation error, falling back to ODIS hold",
         {
           error,
           clinicId: clinic.id,
         },
       );
-      // Continue to schedule_slots fallback below
+      // Continue to ODIS hold fallback below
+    } finally {
+      // Clean up browser/API resources
+      await provider.close();
     }
   }
 
@@ -641,6 +696,8 @@ export async function processBookAppointment(
             species: input.species ?? null,
             breed: input.breed ?? null,
             is_new_client: input.is_new_client ?? false,
+            appointment_type: appointmentType?.name ?? null,
+            provider_name: assignedProvider,
             booked_at: new Date().toISOString(),
           },
         },
@@ -719,7 +776,7 @@ export async function processBookAppointment(
     clinicTimezone,
   );
   const endTimestamp = new Date(
-    startTimestamp.getTime() + defaultSlotDuration * 60 * 1000,
+    startTimestamp.getTime() + (heldMinutes ?? defaultSlotDuration) * 60 * 1000,
   );
 
   // Call the V2 booking function
@@ -788,9 +845,31 @@ export async function processBookAppointment(
     };
   }
 
+  // Record the provider, room and appointment type assigned to the booking
+  const assignment = {
+    ...(assignedProvider && { provider_name: assignedProvider }),
+    ...(assignedRoom && {
+      room_id: assignedRoom.pimsResourceId ?? assignedRoom.name,
+    }),
+    ...(appointmentType && { appointment_type: appointmentType.name }),
+  };
+  if (result.booking_id && Object.keys(assignment).length > 0) {
+    const { error: assignmentError } = await supabase
+      .from("appointment_bookings")
+      .update(assignment)
+      .eq("id", result.booking_id);
+
+    if (assignmentError) {
+      logger.warn("Failed to set provider, room or type on booking", {
+        error: assignmentError.message,
+        bookingId: result.booking_id,
+      });
+    }
+  }
+
   // Booking successful — write structured_data + outcome to inbound_vapi_calls
   // This prevents hallucinated dates from VAPI's end-of-call analysis overriding
-  // the actual booking date. Mirrors the Del Valle and IDEXX paths.
+  // the actual booking date. Mirrors the Del Valle and PIMS write-back paths.
   if (callId) {
     const { error: updateError } = await supabase
       .from("inbound_vapi_calls")
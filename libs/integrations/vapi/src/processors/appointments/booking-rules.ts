@@ -0,0 +1,596 @@
+/**
+ * Clinic Booking Rules
+ *
+ * Evaluates the declarative per-clinic rules in clinic_booking_rules (no new
+ * clients before 9am, surgeries only Tue/Thu mornings, max 2 sick visits per
+ * hour, hold the last slot for emergencies, exotics only with one doctor).
+ *
+ * Applied AFTER clinic-hours-filter.ts in the availability pipeline, and
+ * checked by book_appointment before anything is written:
+ *   SQL get_available_slots → applyRoomFilterToSlots → applyClinicHoursFilter
+ *     → applyBookingRulesToSlots
+ *
+ * A rule only applies when the booking definitely matches it, so a caller who
+ * hasn't said the visit reason still hears the slots; booking re-checks with
+ * the full details. If the caller never said whether they're a new client,
+ * the booking has to pass the rules either way.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+import type { Database } from "@odis-ai/shared/types";
+import {
+  bookingRuleConfigSchema,
+  type BookingRuleConfig,
+  type BookingRuleMatch,
+  type BookingRuleSubject,
+  type BookingRuleWindow,
+} from "@odis-ai/shared/validators";
+import {
+  parsePostgresTimeRange,
+  rangesOverlap,
+  type TimeRange,
+} from "@odis-ai/shared/util";
+import type { AvailableSlot } from "../../schemas/appointments";
+import {
+  applyClinicHoursFilter,
+  parseTimeToMinutes,
+} from "./clinic-hours-filter";
+import {
+  applyRoomFilterToSlots,
+  shiftDateByOne,
+} from "./room-availability-filter";
+
+const LOG_PREFIX = "[booking-rules]";
+
+const DEFAULT_SLOT_DURATION_MINUTES = 15;
+
+/**
+ * An active rule from clinic_booking_rules with its config validated
+ */
+export interface ClinicBookingRule {
+  id: string;
+  name: string;
+  priority: number;
+  config: BookingRuleConfig;
+}
+
+/**
+ * An existing appointment that hourly limits, provider rules and
+ * appointment type resource checks count
+ */
+export interface RuleAppointment extends BookingRuleSubject {
+  start: Date;
+  end: Date;
+  providerName: string | null;
+  roomId: string | null;
+}
+
+export interface BookingRuleResult {
+  ruleId: string;
+  ruleName: string;
+  type: BookingRuleConfig["type"];
+  /** The booking matches the rule's conditions */
+  applies: boolean;
+  passed: boolean;
+  reason: string | null;
+}
+
+export interface BookingRuleDecision {
+  allowed: boolean;
+  results: BookingRuleResult[];
+  violations: BookingRuleResult[];
+  /** Provider a provider_only rule assigned the booking to */
+  providerName: string | null;
+}
+
+export interface EvaluateBookingRulesInput {
+  rules: ClinicBookingRule[];
+  slot: TimeRange;
+  subject: BookingRuleSubject;
+  timezone: string;
+  appointments: RuleAppointment[];
+  /** Starts of the day's open slots, for reserve_last_slots */
+  openSlotStarts: Date[];
+}
+
+/* ========================================
+   Evaluation
+   ======================================== */
+
+/**
+ * Whether the booking definitely matches every condition that is set
+ * Unknown details (e.g. species not given yet) never match.
+ */
+export function matchesBookingRule(
+  match: BookingRuleMatch,
+  subject: BookingRuleSubject,
+): boolean {
+  if (
+    match.newClient !== undefined &&
+    subject.isNewClient !== match.newClient
+  ) {
+    return false;
+  }
+
+  if (match.species?.length) {
+    const species = subject.species?.trim().toLowerCase();
+    if (
+      !species ||
+      !match.species.some((value) => value.toLowerCase() === species)
+    ) {
+      return false;
+    }
+  }
+
+  if (match.reasonKeywords?.length) {
+    const reason = subject.reason?.toLowerCase();
+    if (
+      !reason ||
+      !match.reasonKeywords.some((keyword) =>
+        reason.includes(keyword.toLowerCase()),
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+interface LocalTime {
+  /** YYYY-MM-DD HH in clinic time, for per-hour counts */
+  hourKey: string;
+  day: number;
+  minutes: number;
+}
+
+function toLocalTime(date: Date, timezone: string): LocalTime {
+  const zoned = toZonedTime(date, timezone);
+  const hourKey = `${zoned.getFullYear()}-${zoned.getMonth()}-${zoned.getDate()} ${zoned.getHours()}`;
+  return {
+    hourKey,
+    day: zoned.getDay(),
+    minutes: zoned.getHours() * 60 + zoned.getMinutes(),
+  };
+}
+
+function inWindow(local: LocalTime, window: BookingRuleWindow): boolean {
+  return (
+    window.days.includes(local.day) &&
+    local.minutes >= parseTimeToMinutes(window.start) &&
+    local.minutes < parseTimeToMinutes(window.end)
+  );
+}
+
+/**
+ * Why the slot fails a rule the booking matches, or null if it passes
+ */
+function getViolation(
+  config: BookingRuleConfig,
+  input: EvaluateBookingRulesInput,
+  local: LocalTime,
+): string | null {
+  switch (config.type) {
+    case "block_window":
+      return inWindow(local, config.window)
+        ? `Starts inside the blocked window (${config.window.start}-${config.window.end})`
+        : null;
+
+    case "allowed_windows":
+      return config.windows.some((window) => inWindow(local, window))
+        ? null
+        : "Outside the allowed windows";
+
+    case "hourly_limit": {
+      const booked = input.appointments.filter(
+        (appointment) =>
+          toLocalTime(appointment.start, input.timezone).hourKey ===
+            local.hourKey && matchesBookingRule(config.match, appointment),
+      ).length;
+      return booked >= config.maxPerHour
+        ? `${booked} matching visits already booked this hour (max ${config.maxPerHour})`
+        : null;
+    }
+
+    case "reserve_last_slots": {
+      const held = [...input.openSlotStarts]
+        .sort((a, b) => a.getTime() - b.getTime())
+        .slice(-config.count);
+      return held.some(
+        (start) => start.getTime() === input.slot.start.getTime(),
+      )
+        ? `Held for reserved visits (last ${config.count} open slot${config.count === 1 ? "" : "s"} of the day)`
+        : null;
+    }
+
+    case "provider_only": {
+      if (
+        config.windows.length > 0 &&
+        !config.windows.some((window) => inWindow(local, window))
+      ) {
+        return `Outside ${config.providerName}'s windows`;
+      }
+      const provider = config.providerName.toLowerCase();
+      const busy = input.appointments.some(
+        (appointment) =>
+          appointment.providerName?.toLowerCase() === provider &&
+          rangesOverlap(input.slot, appointment),
+      );
+      return busy ? `${config.providerName} is already booked` : null;
+    }
+  }
+}
+
+/**
+ * Evaluate a clinic's rules for one slot and booking
+ */
+export function evaluateBookingRules(
+  input: EvaluateBookingRulesInput,
+): BookingRuleDecision {
+  const local = toLocalTime(input.slot.start, input.timezone);
+  let providerName: string | null = null;
+
+  const rules = [...input.rules].sort((a, b) => a.priority - b.priority);
+  const results = rules.map((rule): BookingRuleResult => {
+    const { config } = rule;
+
+    // Reserved slots are open to matching bookings and held from the rest
+    const applies =
+      config.type === "reserve_last_slots"
+        ? !matchesBookingRule(config.reservedFor, input.subject)
+        : matchesBookingRule(config.match, input.subject);
+
+    const reason = applies ? getViolation(config, input, local) : null;
+
+    if (applies && config.type === "provider_only" && !providerName) {
+      providerName = config.providerName;
+    }
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      type: config.type,
+      applies,
+      passed: reason === null,
+      reason,
+    };
+  });
+
+  const violations = results.filter((result) => !result.passed);
+
+  return {
+    allowed: violations.length === 0,
+    results,
+    violations,
+    providerName,
+  };
+}
+
+/**
+ * Block open slots that fail a rule for this booking
+ */
+export function filterSlotsByBookingRules(
+  slots: AvailableSlot[],
+  options: Omit<EvaluateBookingRulesInput, "slot" | "openSlotStarts">,
+): AvailableSlot[] {
+  const openSlotStarts = slots
+    .filter((slot) => !slot.is_blocked && slot.available_count > 0)
+    .map((slot) => new Date(slot.slot_start));
+
+  return slots.map((slot) => {
+    if (slot.is_blocked || slot.available_count <= 0) return slot;
+
+    const decision = evaluateBookingRules({
+      ...options,
+      slot: { start: new Date(slot.slot_start), end: new Date(slot.slot_end) },
+      openSlotStarts,
+    });
+    if (decision.allowed) return slot;
+
+    return {
+      ...slot,
+      is_blocked: true,
+      available_count: 0,
+      block_reason: decision.violations.map((v) => v.ruleName).join(", "),
+    };
+  });
+}
+
+/* ========================================
+   Loading
+   ======================================== */
+
+/**
+ * Validate a clinic_booking_rules row; invalid configs are skipped
+ */
+export function parseBookingRuleRow(row: {
+  id: string;
+  name: string;
+  rule_type: string;
+  config: unknown;
+  priority: number;
+}): ClinicBookingRule | null {
+  const config = row.config && typeof row.config === "object" ? row.config : {};
+  const parsed = bookingRuleConfigSchema.safeParse({
+    ...config,
+    type: row.rule_type,
+  });
+
+  if (!parsed.success) {
+    console.warn(
+      `${LOG_PREFIX} Skipping invalid rule ${row.id} (${row.name}): ${parsed.error.message}`,
+    );
+    return null;
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    priority: row.priority,
+    config: parsed.data,
+  };
+}
+
+/**
+ * Active rules for a clinic, in priority order
+ *
+ * A failed lookup is logged and treated as no rules so availability keeps
+ * working.
+ */
+export async function loadBookingRules(
+  supabase: SupabaseClient<Database>,
+  clinicId: string,
+): Promise<ClinicBookingRule[]> {
+  const { data, error } = await supabase
+    .from("clinic_booking_rules")
+    .select("id, name, rule_type, config, priority")
+    .eq("clinic_id", clinicId)
+    .eq("is_active", true)
+    .order("priority");
+
+  if (error) {
+    console.error(
+      `${LOG_PREFIX} Failed to load rules for clinic=${clinicId}: ${error.message}`,
+    );
+    return [];
+  }
+
+  return (data ?? [])
+    .map(parseBookingRuleRow)
+    .filter((rule): rule is ClinicBookingRule => rule !== null);
+}
+
+function needsAppointments(rules: ClinicBookingRule[]): boolean {
+  return rules.some(
+    (rule) =>
+      rule.config.type === "hourly_limit" ||
+      rule.config.type === "provider_only",
+  );
+}
+
+function parseRange(raw: unknown): TimeRange | null {
+  if (typeof raw !== "string") return null;
+  try {
+    return parsePostgresTimeRange(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Synced PIMS appointments and active ODIS bookings for a date
+ */
+export async function loadRuleAppointments(
+  supabase: SupabaseClient<Database>,
+  clinicId: string,
+  date: string,
+): Promise<RuleAppointment[]> {
+  // Late-afternoon Pacific appointments are stored with the next UTC date
+  const dates = [date, shiftDateByOne(date)];
+
+  const [pimsResult, bookingsResult] = await Promise.all([
+    supabase
+      .from("pims_appointments")
+      .select("time_range, provider_name, room_id, appointment_type")
+      .eq("clinic_id", clinicId)
+      .in("date", dates)
+      .is("deleted_at", null)
+      .not("status", "in", '("cancelled","no_show")'),
+    supabase
+      .from("appointment_bookings")
+      .select(
+        "time_range, provider_name, room_id, reason, species, is_new_client",
+      )
+      .eq("clinic_id", clinicId)
+      .in("date", dates)
+      .or(
+        "status.eq.confirmed,and(status.eq.pending,hold_expires_at.gt.now())",
+      ),
+  ]);
+
+  if (pimsResult.error ?? bookingsResult.error) {
+    console.error(
+      `${LOG_PREFIX} Failed to load appointments for clinic=${clinicId}, date=${date}`,
+    );
+  }
+
+  const appointments: RuleAppointment[] = [];
+
+  for (const row of pimsResult.data ?? []) {
+    const range = parseRange(row.time_range);
+    if (!range) continue;
+    appointments.push({
+      ...range,
+      providerName: row.provider_name,
+      roomId: row.room_id,
+      reason: row.appointment_type ?? undefined,
+    });
+  }
+
+  for (const row of bookingsResult.data ?? []) {
+    const range = parseRange(row.time_range);
+    if (!range) continue;
+    appointments.push({
+      ...range,
+      providerName: row.provider_name,
+      roomId: row.room_id,
+      reason: row.reason ?? undefined,
+      species: row.species ?? undefined,
+      isNewClient: row.is_new_client ?? undefined,
+    });
+  }
+
+  return appointments;
+}
+
+interface BookingRuleContext {
+  supabase: SupabaseClient<Database>;
+  /** The availabilityClinicId whose schedule is being booked */
+  clinicId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  timezone: string;
+  subject: BookingRuleSubject;
+  /** Evaluate these instead of the clinic's saved rules */
+  rules?: ClinicBookingRule[];
+}
+
+/**
+ * Block slots that fail the clinic's booking rules
+ * Clinics without rules get their slots back unchanged.
+ */
+export async function applyBookingRulesToSlots(
+  slots: AvailableSlot[],
+  context: BookingRuleContext,
+): Promise<AvailableSlot[]> {
+  if (slots.length === 0) return slots;
+
+  const rules =
+    context.rules ??
+    (await loadBookingRules(context.supabase, context.clinicId));
+  if (rules.length === 0) return slots;
+
+  const appointments = needsAppointments(rules)
+    ? await loadRuleAppointments(
+        context.supabase,
+        context.clinicId,
+        context.date,
+      )
+    : [];
+
+  const result = filterSlotsByBookingRules(slots, {
+    rules,
+    subject: context.subject,
+    timezone: context.timezone,
+    appointments,
+  });
+
+  console.log(
+    `${LOG_PREFIX} ${rules.length} rules for clinic=${context.clinicId}: ${result.filter((s) => s.is_blocked).length - slots.filter((s) => s.is_blocked).length} slots blocked`,
+  );
+
+  return result;
+}
+
+/**
+ * The day's slots after the room and hours filters (no booking rules)
+ */
+export async function loadFilteredSlots(
+  supabase: SupabaseClient<Database>,
+  clinicId: string,
+  date: string,
+  timezone: string,
+): Promise<AvailableSlot[]> {
+  const { data, error } = await supabase.rpc("get_available_slots", {
+    p_clinic_id: clinicId,
+    p_date: date,
+  });
+
+  if (error || !data) return [];
+
+  const roomFiltered = await applyRoomFilterToSlots(
+    data,
+    clinicId,
+    date,
+    supabase,
+  );
+  return applyClinicHoursFilter(roomFiltered, clinicId, timezone);
+}
+
+/**
+ * Starts of the day's open slots, after the room and hours filters
+ */
+async function loadOpenSlotStarts(
+  context: BookingRuleContext,
+): Promise<Date[]> {
+  const slots = await loadFilteredSlots(
+    context.supabase,
+    context.clinicId,
+    context.date,
+    context.timezone,
+  );
+  return slots
+    .filter((slot) => !slot.is_blocked && slot.available_count > 0)
+    .map((slot) => new Date(slot.slot_start));
+}
+
+/**
+ * Check one booking (date + clinic-local time) against the clinic's rules
+ *
+ * @param time - "HH:MM" or "HH:MM:SS" in clinic time
+ */
+export async function checkBookingRules(
+  context: BookingRuleContext & { time: string },
+): Promise<BookingRuleDecision> {
+  const rules =
+    context.rules ??
+    (await loadBookingRules(context.supabase, context.clinicId));
+
+  if (rules.length === 0) {
+    return { allowed: true, results: [], violations: [], providerName: null };
+  }
+
+  const { data: scheduleConfig } = await context.supabase
+    .from("clinic_schedule_config")
+    .select("slot_duration_minutes")
+    .eq("clinic_id", context.clinicId)
+    .maybeSingle();
+
+  const durationMinutes =
+    scheduleConfig?.slot_duration_minutes ?? DEFAULT_SLOT_DURATION_MINUTES;
+  const start = fromZonedTime(
+    `${context.date}T${context.time}`,
+    context.timezone,
+  );
+  const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+  const [appointments, openSlotStarts] = await Promise.all([
+    needsAppointments(rules)
+      ? loadRuleAppointments(context.supabase, context.clinicId, context.date)
+      : Promise.resolve([]),
+    rules.some((rule) => rule.config.type === "reserve_last_slots")
+      ? loadOpenSlotStarts(context)
+      : Promise.resolve([]),
+  ]);
+
+  const evaluate = (subject: BookingRuleSubject) =>
+    evaluateBookingRules({
+      rules,
+      slot: { start, end },
+      subject,
+      timezone: context.timezone,
+      appointments,
+      openSlotStarts,
+    });
+
+  if (context.subject.isNewClient !== undefined) {
+    return evaluate(context.subject);
+  }
+
+  // Unknown client status must pass as both a new and an existing client
+  const asNewClient = evaluate({ ...context.subject, isNewClient: true });
+  if (!asNewClient.allowed) return asNewClient;
+  const asExistingClient = evaluate({ ...context.subject, isNewClient: false });
+  return asExistingClient.allowed ? asNewClient : asExistingClient;
+}
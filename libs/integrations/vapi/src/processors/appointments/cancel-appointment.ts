@@ -5,17 +5,24 @@
  *
  * Two-step process:
  * 1. First call: Verifies appointment exists, returns details for confirmation
- * 2. Second call (confirmed=true): Updates local DB, queues IDEXX cancellation
+ * 2. Second call (confirmed=true): Updates local DB, queues PIMS cancellation
  *
  * Architecture: Sync-first, Background Operations
  * - During call: Updates local database (fast)
- * - After call: QStash job cancels in IDEXX (reliable)
+ * - After call: QStash job cancels in the PIMS (reliable), only when the
+ *   clinic's PIMS supports cancel write-back
+ * - After call: QStash job offers the freed slot to the clinic's waitlist
  */
 
 import type { ToolContext, ToolResult } from "../../core/types";
 import type { CancelAppointmentInput } from "../../schemas/appointments";
 import { processVerifyAppointment } from "./verify-appointment";
 import { parseDateToISO } from "./book-appointment";
+import { clinicSupportsPimsWrite } from "./pims-write-provider";
+import {
+  queueWaitlistOpening,
+  waitlistOpeningFromAppointment,
+} from "./waitlist";
 
 /**
  * Process cancel appointment request
@@ -135,6 +142,7 @@ export async function processCancelAppointment(
       .from("pims_appointments")
       .update({
         status: "cancelled",
+        confirmation_status: "cancelled",
         updated_at: new Date().toISOString(),
       })
       .eq("id", appointmentId);
@@ -187,8 +195,13 @@ export async function processCancelAppointment(
     performed_by: "vapi",
   });
 
-  // 3c. Queue background job to sync cancellation to IDEXX (if IDEXX clinic)
-  if (clinic.pims_type === "idexx" && verificationData.idexx_appointment_id) {
+  // 3c. Queue background job to sync cancellation to the PIMS (if it can write)
+  const pimsCanCancel = await clinicSupportsPimsWrite(
+    clinic,
+    "cancelAppointment",
+  ).catch(() => false);
+
+  if (pimsCanCancel && verificationData.idexx_appointment_id) {
     try {
       // Queue job via API route (QStash will handle retry/delivery)
       const baseUrl =
@@ -205,7 +218,7 @@ export async function processCancelAppointment(
         }),
       });
 
-      logger.info("Queued IDEXX cancellation job", {
+      logger.info("Queued PIMS cancellation job", {
         appointmentId,
         neoId: verificationData.idexx_appointment_id,
         clinicId: clinic.id,
@@ -213,14 +226,46 @@ export async function processCancelAppointment(
     } catch (queueError) {
       // Non-fatal: Log but don't fail the cancellation
       // The nightly sync will reconcile any discrepancies
-      logger.warn("Failed to queue IDEXX cancellation job", {
+      logger.warn("Failed to queue PIMS cancellation job", {
         error: queueError,
         appointmentId,
       });
     }
   }
 
-  // 3d. Update inbound call record with outcome and appointment data
+  // 3d. Offer the freed slot to the clinic's waitlist (background, non-fatal)
+  try {
+    const { data: freed } =
+      source === "pims_appointments"
+        ? await supabase
+            .from("pims_appointments")
+            .select("clinic_id, time_range, appointment_type")
+            .eq("id", appointmentId)
+            .maybeSingle()
+        : await supabase
+            .from("appointment_bookings")
+            .select("clinic_id, time_range, appointment_type")
+            .eq("id", appointmentId)
+            .maybeSingle();
+
+    const opening = freed
+      ? waitlistOpeningFromAppointment(clinic.id, freed, "cancellation")
+      : null;
+    if (opening) {
+      await queueWaitlistOpening(opening);
+      logger.info("Queued waitlist offer for freed slot", {
+        appointmentId,
+        slotStart: opening.slotStart,
+      });
+    }
+  } catch (waitlistError) {
+    logger.warn("Failed to queue waitlist offer", {
+      error: waitlistError,
+      appointmentId,
+    });
+  }
+
+  // 3e. Update inbound call record with outcome and appointment data
   // Store appointment details in structured_data.appointment so that
   // mergeStructuredDataWithToolData() can override VAPI's hallucinated dates
   if (callId) {
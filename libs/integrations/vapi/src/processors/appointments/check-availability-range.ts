@@ -12,6 +12,13 @@ import type {
 } from "../../schemas/appointments";
 import { applyRoomFilterToSlots } from "./room-availability-filter";
 import { applyClinicHoursFilter } from "./clinic-hours-filter";
+import { applyBookingRulesToSlots, loadBookingRules } from "./booking-rules";
+import {
+  applyAppointmentTypeToSlots,
+  loadAppointmentTypes,
+  loadClinicResources,
+  resolveAppointmentType,
+} from "./appointment-types";
 
 const DEFAULT_TIMEZONE = "America/Los_Angeles";
 
@@ -107,6 +114,28 @@ export async function processCheckAvailabilityRange(
   // Use pims_clinic_id for availability lookup if set (e.g., Happy Tails → Alum Rock)
   const availabilityClinicId = clinic.pims_clinic_id ?? clinic.id;
   const clinicTimezone = clinic.timezone ?? DEFAULT_TIMEZONE;
+  const bookingRules = await loadBookingRules(supabase, availabilityClinicId);
+
+  // Optional appointment type: only count starts with room for the whole visit
+  const appointmentType = input.appointment_type
+    ? resolveAppointmentType(
+        await loadAppointmentTypes(supabase, availabilityClinicId),
+        { appointmentType: input.appointment_type },
+      )
+    : null;
+  const resources = appointmentType
+    ? await loadClinicResources(supabase, availabilityClinicId)
+    : [];
+  const applyAppointmentType = async (slots: AvailableSlot[], date: string) =>
+    appointmentType
+      ? applyAppointmentTypeToSlots(slots, {
+          supabase,
+          clinicId: availabilityClinicId,
+          date,
+          type: appointmentType,
+          resources,
+        })
+      : slots;
 
   // Query availability for each date in range
   const availability: DayAvailability[] = [];
@@ -128,10 +157,23 @@ export async function processCheckAvailabilityRange(
         dateStr,
         supabase,
       );
-      const typedSlots = applyClinicHoursFilter(
-        roomFilteredSlots,
-        availabilityClinicId,
-        clinicTimezone,
+      const typedSlots = await applyAppointmentType(
+        await applyBookingRulesToSlots(
+          applyClinicHoursFilter(
+            roomFilteredSlots,
+            availabilityClinicId,
+            clinicTimezone,
+          ),
+          {
+            supabase,
+            clinicId: availabilityClinicId,
+            date: dateStr,
+            timezone: clinicTimezone,
+            subject: {},
+            rules: bookingRules,
+          },
+        ),
+        dateStr,
       );
       const openSlots = typedSlots.filter(
         (slot) => !slot.is_blocked && slot.available_count > 0,
@@ -191,10 +233,23 @@ export async function processCheckAvailabilityRange(
         firstAvailable.date,
         supabase,
       );
-      const filteredDetailedSlots = applyClinicHoursFilter(
-        roomFilteredDetailedSlots,
-        availabilityClinicId,
-        clinicTimezone,
+      const filteredDetailedSlots = await applyAppointmentType(
+        await applyBookingRulesToSlots(
+          applyClinicHoursFilter(
+            roomFilteredDetailedSlots,
+            availabilityClinicId,
+            clinicTimezone,
+          ),
+          {
+            supabase,
+            clinicId: availabilityClinicId,
+            date: firstAvailable.date,
+            timezone: clinicTimezone,
+            subject: {},
+            rules: bookingRules,
+          },
+        ),
+        firstAvailable.date,
       );
       const openSlots = filteredDetailedSlots.filter(
         (slot) => !slot.is_blocked && slot.available_count > 0,
@@ -236,7 +291,11 @@ export async function processCheckAvailabilityRange(
       firstAvailableTimes.length > 3 ? firstAvailableTimes.length - 3 : 0;
     const moreText = moreCount > 0 ? ` and ${moreCount} more times` : "";
 
-    message = `I have availability on ${firstAvailable.day_of_week}, ${firstAvailable.formatted_date}. Times include: ${timeList}${moreText}. We have ${daysWithAvailability.length} days with availability in the next ${input.days_ahead} days. Would you like to book one of these times?`;
+    const visitLabel = appointmentType
+      ? ` for a ${appointmentType.durationMinutes}-minute ${appointmentType.name}`
+      : "";
+
+    message = `I have availability${visitLabel} on ${firstAvailable.day_of_week}, ${firstAvailable.formatted_date}. Times include: ${timeList}${moreText}. We have ${daysWithAvailability.length} days with availability in the next ${input.days_ahead} days. Would you like to book one of these times?`;
   } else {
     message = `We have availability on ${daysWithAvailability.length} days over the next ${input.days_ahead} days. What day works best for you?`;
   }
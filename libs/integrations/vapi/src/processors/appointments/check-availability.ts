@@ -2,9 +2,15 @@
  * Check Availability Processor
  *
  * Pure business logic for checking appointment slot availability.
+ *
+ * The pipeline stages and the spoken result are exported so the admin
+ * availability explainer (availability-explain.ts) reports exactly what
+ * this tool would say.
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { toZonedTime } from "date-fns-tz";
+import type { Database } from "@odis-ai/shared/types";
 import type { ToolContext, ToolResult } from "../../core/types";
 import type {
   CheckAvailabilityInput,
@@ -12,13 +18,23 @@ import type {
 } from "../../schemas/appointments";
 import { applyRoomFilterToSlots } from "./room-availability-filter";
 import { applyClinicHoursFilter } from "./clinic-hours-filter";
+import { applyBookingRulesToSlots } from "./booking-rules";
+import {
+  applyAppointmentTypeToSlots,
+  loadAppointmentTypes,
+  resolveAppointmentType,
+  type ClinicAppointmentType,
+} from "./appointment-types";
 
 const DEFAULT_TIMEZONE = "America/Los_Angeles";
 
+/** How many open times the message reads out */
+export const SPOKEN_TIME_COUNT = 4;
+
 /**
  * Extract local time strings from a V2 timestamptz slot_start
  */
-function slotToLocalTime(
+export function slotToLocalTime(
   timestamp: string,
   timezone: string,
 ): { time24h: string; time12h: string } {
@@ -35,93 +51,162 @@ function slotToLocalTime(
   return { time24h, time12h };
 }
 
+export function isOpenSlot(slot: AvailableSlot): boolean {
+  return !slot.is_blocked && slot.available_count > 0;
+}
+
 /**
- * Process check availability request
- *
- * @param input - Validated input from schema
- * @param ctx - Tool context with clinic, supabase, logger
- * @returns Tool result with availability data
+ * Slots after each layer of the availability pipeline, in order
  */
-export async function processCheckAvailability(
-  input: CheckAvailabilityInput,
-  ctx: ToolContext,
-): Promise<ToolResult> {
-  const { clinic, supabase, logger } = ctx;
-
-  if (!clinic) {
-    return {
-      success: false,
-      error: "clinic_not_found",
-      message:
-        "I'm having trouble accessing the clinic schedule. Please try again later.",
-    };
-  }
+export interface AvailabilityStages {
+  /** SQL get_available_slots: schedule config, blocked periods, booked counts */
+  raw: AvailableSlot[];
+  roomFiltered: AvailableSlot[];
+  hoursFiltered: AvailableSlot[];
+  ruleFiltered: AvailableSlot[];
+  /** After the appointment type; the open ones are offered to the caller */
+  final: AvailableSlot[];
+  appointmentType: ClinicAppointmentType | null;
+}
 
+/**
+ * Parse the requested YYYY-MM-DD as local midnight and compare it with
+ * today in the clinic's timezone
+ */
+export function parseRequestedDate(
+  date: string,
+  timezone: string,
+): { requestedDate: Date; isPast: boolean } {
   // Timezone safety: prevent "Today" becoming "Tomorrow" due to UTC shift
-  const clinicTimezone = clinic.timezone ?? DEFAULT_TIMEZONE;
   const nowInClinic = new Date().toLocaleString("en-US", {
-    timeZone: clinicTimezone,
+    timeZone: timezone,
   });
 
   const todayClinic = new Date(nowInClinic);
   todayClinic.setHours(0, 0, 0, 0);
 
   // Parse requested date (YYYY-MM-DD -> Local Midnight)
-  const parts = input.date.split("-").map(Number);
+  const parts = date.split("-").map(Number);
   const requestedDate = new Date(
     parts[0] ?? 0,
     (parts[1] ?? 1) - 1,
     parts[2] ?? 1,
   );
 
-  if (requestedDate < todayClinic) {
-    return {
-      success: false,
-      error: "past_date",
-      message: "I can only check availability for today or future dates.",
-      data: { available: false },
-    };
-  }
+  return { requestedDate, isPast: requestedDate < todayClinic };
+}
 
-  // Use pims_clinic_id for availability lookup if set (e.g., Happy Tails → Alum Rock)
-  const availabilityClinicId = clinic.pims_clinic_id ?? clinic.id;
+export const PAST_DATE_RESULT: ToolResult = {
+  success: false,
+  error: "past_date",
+  message: "I can only check availability for today or future dates.",
+  data: { available: false },
+};
+
+/**
+ * Run the availability pipeline for one day
+ *
+ *   SQL get_available_slots → applyRoomFilterToSlots → applyClinicHoursFilter
+ *     → applyBookingRulesToSlots → applyAppointmentTypeToSlots
+ *
+ * @param clinicId - The availabilityClinicId (pims_clinic_id ?? clinic.id)
+ */
+export async function loadAvailabilityStages(
+  input: CheckAvailabilityInput,
+  options: {
+    supabase: SupabaseClient<Database>;
+    clinicId: string;
+    timezone: string;
+  },
+): Promise<
+  | { stages: AvailabilityStages; error: null }
+  | { stages: null; error: { message: string } }
+> {
+  const { supabase, clinicId, timezone } = options;
 
   // Call the V2 database function (time range-based)
   const { data: slots, error } = await supabase.rpc("get_available_slots", {
-    p_clinic_id: availabilityClinicId,
+    p_clinic_id: clinicId,
     p_date: input.date,
   });
 
   if (error) {
-    logger.error("Failed to get available slots", {
-      error,
-      clinicId: clinic.id,
-    });
-    return {
-      success: false,
-      error: "database_error",
-      message: "I'm having trouble seeing the calendar right now.",
-      data: { available: false },
-    };
+    return { stages: null, error };
   }
 
   // Apply room filter: for clinics like Masson that only use specific rooms,
   // re-query pims_appointments with provider_name filter and recalculate counts.
-  const rawSlots = (slots as AvailableSlot[]) ?? [];
-  const roomFilteredSlots = await applyRoomFilterToSlots(
-    rawSlots,
-    availabilityClinicId,
+  const raw = (slots as AvailableSlot[]) ?? [];
+  const roomFiltered = await applyRoomFilterToSlots(
+    raw,
+    clinicId,
     input.date,
     supabase,
   );
-  const availableSlots = applyClinicHoursFilter(
-    roomFilteredSlots,
-    availabilityClinicId,
-    clinicTimezone,
+  const hoursFiltered = applyClinicHoursFilter(
+    roomFiltered,
+    clinicId,
+    timezone,
   );
-  const openSlots = availableSlots.filter(
-    (slot) => !slot.is_blocked && slot.available_count > 0,
+  const ruleFiltered = await applyBookingRulesToSlots(hoursFiltered, {
+    supabase,
+    clinicId,
+    date: input.date,
+    timezone,
+    subject: {
+      isNewClient: input.is_new_client,
+      species: input.species,
+      reason: input.reason,
+    },
+  });
+
+  // Only offer starts with room for the whole visit of the requested type
+  const appointmentType = resolveAppointmentType(
+    await loadAppointmentTypes(supabase, clinicId),
+    { appointmentType: input.appointment_type, reason: input.reason },
   );
+  const final = appointmentType
+    ? await applyAppointmentTypeToSlots(ruleFiltered, {
+        supabase,
+        clinicId,
+        date: input.date,
+        type: appointmentType,
+      })
+    : ruleFiltered;
+
+  return {
+    stages: {
+      raw,
+      roomFiltered,
+      hoursFiltered,
+      ruleFiltered,
+      final,
+      appointmentType,
+    },
+    error: null,
+  };
+}
+
+/**
+ * The tool's spoken result for the final slots
+ */
+export function buildAvailabilityResult(
+  input: CheckAvailabilityInput,
+  stages: AvailabilityStages,
+  requestedDate: Date,
+  timezone: string,
+): ToolResult {
+  const { appointmentType } = stages;
+  const visitLabel = appointmentType
+    ? ` for a ${appointmentType.durationMinutes}-minute ${appointmentType.name}`
+    : "";
+  const appointmentTypeData = appointmentType
+    ? {
+        name: appointmentType.name,
+        duration_minutes: appointmentType.durationMinutes,
+      }
+    : null;
+  const openSlots = stages.final.filter(isOpenSlot);
 
   // Format date for voice response
   const dateForVoice = requestedDate.toLocaleDateString("en-US", {
@@ -134,11 +219,12 @@ export async function processCheckAvailability(
   if (openSlots.length === 0) {
     return {
       success: true,
-      message: `I don't have any appointments available on ${dateForVoice}. Would you like me to check the next day?`,
+      message: `I don't have any appointments available${visitLabel} on ${dateForVoice}. Would you like me to check the next day?`,
       data: {
         available: false,
         date: input.date,
         formatted_date: dateForVoice,
+        appointment_type: appointmentTypeData,
         times: [],
       },
     };
@@ -146,10 +232,7 @@ export async function processCheckAvailability(
 
   // Format slots for response (V2 returns timestamptz, convert to clinic local time)
   const times = openSlots.map((slot) => {
-    const { time24h, time12h } = slotToLocalTime(
-      slot.slot_start,
-      clinicTimezone,
-    );
+    const { time24h, time12h } = slotToLocalTime(slot.slot_start, timezone);
     return {
       time_12h: time12h,
       time_24h: time24h,
@@ -159,19 +242,77 @@ export async function processCheckAvailability(
   });
 
   const timeList = times
-    .slice(0, 4)
+    .slice(0, SPOKEN_TIME_COUNT)
     .map((t) => t.time_12h)
     .join(", ");
 
   return {
     success: true,
-    message: `I have availability on ${dateForVoice}. Times include ${timeList}. Which works best?`,
+    message: `I have availability${visitLabel} on ${dateForVoice}. Times include ${timeList}. Which works best?`,
     data: {
       available: true,
       date: input.date,
       formatted_date: dateForVoice,
+      appointment_type: appointmentTypeData,
       count: times.length,
       times,
     },
   };
 }
+
+/**
+ * Process check availability request
+ *
+ * @param input - Validated input from schema
+ * @param ctx - Tool context with clinic, supabase, logger
+ * @returns Tool result with availability data
+ */
+export async function processCheckAvailability(
+  input: CheckAvailabilityInput,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const { clinic, supabase, logger } = ctx;
+
+  if (!clinic) {
+    return {
+      success: false,
+      error: "clinic_not_found",
+      message:
+        "I'm having trouble accessing the clinic schedule. Please try again later.",
+    };
+  }
+
+  const clinicTimezone = clinic.timezone ?? DEFAULT_TIMEZONE;
+  const { requestedDate, isPast } = parseRequestedDate(
+    input.date,
+    clinicTimezone,
+  );
+
+  if (isPast) {
+    return PAST_DATE_RESULT;
+  }
+
+  // Use pims_clinic_id for availability lookup if set (e.g., Happy Tails → Alum Rock)
+  const availabilityClinicId = clinic.pims_clinic_id ?? clinic.id;
+
+  const { stages, error } = await loadAvailabilityStages(input, {
+    supabase,
+    clinicId: availabilityClinicId,
+    timezone: clinicTimezone,
+  });
+
+  if (error) {
+    logger.error("Failed to get available slots", {
+      error,
+      clinicId: clinic.id,
+    });
+    return {
+      success: false,
+      error: "database_error",
+      message: "I'm having trouble seeing the calendar right now.",
+      data: { available: false },
+    };
+  }
+
+  return buildAvailabilityResult(input, stages, requestedDate, clinicTimezone);
+}
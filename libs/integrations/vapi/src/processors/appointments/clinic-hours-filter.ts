@@ -87,7 +87,7 @@ const CLINIC_HOURS_CONFIG: Record<string, ClinicHoursConfig> = {
 /**
  * Parse "HH:MM" string into total minutes since midnight.
  */
-function parseTimeToMinutes(timeStr: string): number {
+export function parseTimeToMinutes(timeStr: string): number {
   const [h, m] = timeStr.split(":").map(Number);
   return (h ?? 0) * 60 + (m ?? 0);
 }
@@ -129,6 +129,7 @@ export function applyClinicHoursFilter(
         ...slot,
         is_blocked: true,
         available_count: 0,
+        block_reason: reason,
       };
     }
 
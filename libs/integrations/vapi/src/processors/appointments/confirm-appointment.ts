@@ -0,0 +1,142 @@
+/**
+ * Confirm Appointment Processor
+ *
+ * Used by the reminder assistant: records that the client will attend the
+ * synced appointment they were called about. The appointment id comes from
+ * the call's variables.
+ *
+ * The confirmation is written back to the PIMS in the background (QStash)
+ * when the clinic's PIMS supports confirmAppointment.
+ */
+
+import { parsePostgresTimeRange } from "@odis-ai/shared/util";
+import type { ToolContext, ToolResult } from "../../core/types";
+import type { ConfirmAppointmentInput } from "../../schemas/appointments";
+import { clinicSupportsPimsWrite } from "./pims-write-provider";
+import {
+  queuePimsConfirmation,
+  recordAppointmentConfirmation,
+} from "./reminders";
+import { formatSlotLabel } from "./waitlist";
+
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+/**
+ * Process appointment confirmation
+ *
+ * @param input - Validated input with appointment_id
+ * @param ctx - Tool context with clinic, supabase, logger
+ * @returns What to tell the client
+ */
+export async function processConfirmAppointment(
+  input: ConfirmAppointmentInput,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const { clinic, supabase, logger, callId } = ctx;
+
+  if (!clinic) {
+    return {
+      success: false,
+      error: "clinic_not_found",
+      message: "I couldn't identify the clinic. Please try again later.",
+    };
+  }
+
+  const { data: appointment, error: loadError } = await supabase
+    .from("pims_appointments")
+    .select("id, status, time_range, patient_name, neo_appointment_id")
+    .eq("id", input.appointment_id)
+    .eq("clinic_id", clinic.id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (loadError || !appointment) {
+    logger.warn("Appointment to confirm not found", {
+      appointmentId: input.appointment_id,
+      clinicId: clinic.id,
+      error: loadError,
+    });
+    return {
+      success: false,
+      error: "appointment_not_found",
+      message:
+        "I couldn't find that appointment. Please call the office to check on it.",
+    };
+  }
+
+  if (appointment.status === "cancelled") {
+    return {
+      success: false,
+      error: "appointment_cancelled",
+      message:
+        "It looks like that appointment has already been cancelled. Would you like to book a new one?",
+    };
+  }
+
+  try {
+    await recordAppointmentConfirmation(supabase, appointment.id, "confirmed");
+  } catch (error) {
+    logger.error("Failed to record appointment confirmation", {
+      error: error instanceof Error ? error.message : String(error),
+      appointmentId: appointment.id,
+    });
+    return {
+      success: false,
+      error: "database_error",
+      message:
+        "I'm having trouble saving that right now, but we'll still see you then. Please call the office if anything changes.",
+    };
+  }
+
+  await supabase.from("appointment_audit_log").insert({
+    clinic_id: clinic.id,
+    action: "confirm",
+    appointment_id: appointment.id,
+    idexx_appointment_id: appointment.neo_appointment_id,
+    reason: "Confirmed on reminder call",
+    vapi_call_id: callId,
+    performed_by: "vapi",
+  });
+
+  // Write the confirmation to the PIMS (background, non-fatal)
+  const pimsCanConfirm = await clinicSupportsPimsWrite(
+    clinic,
+    "confirmAppointment",
+  ).catch(() => false);
+
+  if (pimsCanConfirm && appointment.neo_appointment_id) {
+    try {
+      await queuePimsConfirmation(appointment.id);
+      logger.info("Queued PIMS confirmation job", {
+        appointmentId: appointment.id,
+        neoId: appointment.neo_appointment_id,
+      });
+    } catch (queueError) {
+      logger.warn("Failed to queue PIMS confirmation job", {
+        error: queueError,
+        appointmentId: appointment.id,
+      });
+    }
+  }
+
+  let when = "";
+  if (typeof appointment.time_range === "string") {
+    try {
+      const { start } = parsePostgresTimeRange(appointment.time_range);
+      when = ` for ${formatSlotLabel(start.toISOString(), clinic.timezone ?? DEFAULT_TIMEZONE)}`;
+    } catch {
+      // Leave the time out of the message
+    }
+  }
+
+  logger.info("Appointment confirmed", {
+    appointmentId: appointment.id,
+    callId,
+  });
+
+  return {
+    success: true,
+    message: `Great, ${appointment.patient_name ?? "your pet"} is confirmed${when}. We'll see you then!`,
+    data: { confirmed: true, appointment_id: appointment.id },
+  };
+}
@@ -7,11 +7,20 @@
  * - processCheckAvailability
  * - processCheckAvailabilityRange
  * - processVerifyAppointment
+ * - explainAvailability (admin: why each slot is or isn't offered)
  *
- * Write Operations (update local DB + queue IDEXX jobs):
+ * Write Operations (update local DB + PIMS write-back when supported):
  * - processBookAppointment
  * - processCancelAppointment
  * - processRescheduleAppointment
+ *
+ * Waitlist (offers freed slots to waiting clients):
+ * - processAddToWaitlist
+ * - processRespondToWaitlistOffer
+ *
+ * Reminders (confirmation calls for synced appointments):
+ * - processConfirmAppointment
+ * - runAppointmentReminders
  */
 
 // Read operations
@@ -28,3 +37,59 @@ export {
 } from "./book-appointment";
 export { processCancelAppointment } from "./cancel-appointment";
 export { processRescheduleAppointment } from "./reschedule-appointment";
+
+// Booking rules
+export {
+  evaluateBookingRules,
+  checkBookingRules,
+  parseBookingRuleRow,
+  type ClinicBookingRule,
+  type BookingRuleDecision,
+  type BookingRuleResult,
+} from "./booking-rules";
+
+// Appointment types
+export {
+  resolveAppointmentType,
+  fitAppointmentType,
+  checkAppointmentTypeFit,
+  type ClinicAppointmentType,
+  type ClinicResource,
+  type AppointmentTypeFit,
+} from "./appointment-types";
+
+// Availability explainer
+export {
+  explainAvailability,
+  type AvailabilityExplanation,
+  type AvailabilityLayer,
+  type ExplainedSlot,
+  type ScheduleWindow,
+} from "./availability-explain";
+
+// Cancellation waitlist
+export { processAddToWaitlist } from "./add-to-waitlist";
+export { processRespondToWaitlistOffer } from "./respond-to-waitlist-offer";
+export {
+  offerWaitlistOpening,
+  respondToWaitlistOffer,
+  expireWaitlistOffer,
+  findPendingSmsOffer,
+  queueWaitlistOpening,
+  waitlistOpeningFromAppointment,
+  type WaitlistOpening,
+  type WaitlistEntry,
+  type WaitlistOfferOutcome,
+  type WaitlistResponseResult,
+} from "./waitlist";
+
+// Appointment reminders
+export { processConfirmAppointment } from "./confirm-appointment";
+export {
+  runAppointmentReminders,
+  handleReminderCallEnd,
+  recordAppointmentConfirmation,
+  type AppointmentConfirmationStatus,
+  type ReminderOutcome,
+  type ReminderRunResult,
+} from "./reminders";
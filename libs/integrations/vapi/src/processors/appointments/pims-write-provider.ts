@@ -0,0 +1,181 @@
+/**
+ * PIMS Write Provider
+ *
+ * Resolves the clinic's PIMS provider for appointment write-back.
+ * Processors check the provider's capabilities and fall back to ODIS-side
+ * booking holds (appointment_bookings) when the PIMS can't do the write.
+ */
+
+import {
+  getPimsTypeCapabilities,
+  hasPimsCapability,
+  type IPimsProvider,
+  type PimsCredentials,
+  type PimsWriteCapability,
+} from "@odis-ai/shared/types";
+import type { ToolContext } from "../../core/types";
+import type { ClinicWithConfig } from "../../inbound-tools/find-clinic-by-assistant";
+
+/**
+ * How to build and authenticate the provider for one PIMS type
+ */
+interface PimsProviderFactory {
+  /** Create an unauthenticated provider (no browser launch or network) */
+  create: (clinic: ClinicWithConfig) => Promise<IPimsProvider>;
+  /** Load credentials for the clinic, null if not configured */
+  getCredentials: (
+    clinic: ClinicWithConfig,
+    ctx: ToolContext,
+  ) => Promise<PimsCredentials | null>;
+}
+
+const idexxFactory: PimsProviderFactory = {
+  create: async () => {
+    // Dynamic import to avoid loading IDEXX dependencies for non-IDEXX clinics
+    const { IdexxProvider } = await import("@odis-ai/integrations/idexx");
+    const { BrowserService } =
+      await import("@odis-ai/integrations/idexx/browser");
+
+    return new IdexxProvider({
+      browserService: new BrowserService({
+        headless: true,
+        defaultTimeout: 30000,
+      }),
+      debug: false,
+    });
+  },
+  // Only credentials stored for this clinic; never another clinic's account
+  getCredentials: async (clinic, ctx) => {
+    const clinicId = clinic.pims_clinic_id ?? clinic.id;
+
+    const { data: stored, error } = await ctx.supabase
+      .from("idexx_credentials")
+      .select("user_id")
+      .eq("clinic_id", clinicId)
+      .eq("is_active", true)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load IDEXX credentials: ${error.message}`);
+    }
+    if (!stored) {
+      return null;
+    }
+
+    const { IdexxCredentialManager } =
+      await import("@odis-ai/integrations/idexx");
+    return new IdexxCredentialManager(ctx.supabase).getCredentials(
+      stored.user_id,
+      clinicId,
+    );
+  },
+};
+
+const ezyvetFactory: PimsProviderFactory = {
+  create: async (clinic) => {
+    const { EzyvetProvider } =
+      await import("@odis-ai/integrations/ezyvet/provider");
+
+    return new EzyvetProvider({
+      baseUrl: process.env.EZYVET_API_URL,
+      timezone: clinic.timezone ?? undefined,
+    });
+  },
+  getCredentials: async (clinic, ctx) => {
+    const { EzyvetCredentialManager } =
+      await import("@odis-ai/integrations/ezyvet");
+
+    const credentials = await new EzyvetCredentialManager(
+      ctx.supabase,
+    ).getCredentials(clinic.pims_clinic_id ?? clinic.id);
+
+    return credentials
+      ? {
+          username: credentials.clientId,
+          password: credentials.clientSecret,
+          companyId: credentials.partnerId,
+        }
+      : null;
+  },
+};
+
+/**
+ * Provider factories keyed by clinics.pims_type
+ */
+const PIMS_PROVIDER_FACTORIES: Record<string, PimsProviderFactory> = {
+  idexx: idexxFactory,
+  idexx_neo: idexxFactory,
+  ezyvet: ezyvetFactory,
+};
+
+/**
+ * Check whether the clinic's PIMS supports a write operation
+ * Reads the PIMS type's static capabilities, so it's cheap enough to call
+ * mid-conversation.
+ */
+export async function clinicSupportsPimsWrite(
+  clinic: ClinicWithConfig,
+  capability: PimsWriteCapability,
+): Promise<boolean> {
+  return getPimsTypeCapabilities(clinic.pims_type).includes(capability);
+}
+
+/**
+ * Create an authenticated provider that supports `capability`
+ *
+ * @returns The provider (caller must close it), or null when the clinic has
+ *   no PIMS integration, no credentials, or a PIMS that can't do the write
+ * @throws Error if authentication fails
+ */
+export async function createPimsWriteProvider<C extends PimsWriteCapability>(
+  clinic: ClinicWithConfig,
+  ctx: ToolContext,
+  capability: C,
+): Promise<(IPimsProvider & Required<Pick<IPimsProvider, C>>) | null> {
+  const { logger } = ctx;
+  const factory = clinic.pims_type
+    ? PIMS_PROVIDER_FACTORIES[clinic.pims_type]
+    : undefined;
+  if (!factory) {
+    return null;
+  }
+
+  if (!(await clinicSupportsPimsWrite(clinic, capability))) {
+    logger.info("PIMS does not support write operation, using ODIS hold", {
+      clinicId: clinic.id,
+      pimsType: clinic.pims_type,
+      capability,
+    });
+    return null;
+  }
+
+  const credentials = await factory.getCredentials(clinic, ctx);
+  if (!credentials) {
+    logger.error("PIMS credentials not configured", {
+      clinicId: clinic.id,
+      pimsType: clinic.pims_type,
+    });
+    return null;
+  }
+
+  const provider = await factory.create(clinic);
+  if (!hasPimsCapability(provider, capability)) {
+    await provider.close();
+    return null;
+  }
+
+  const authenticated = await provider.authenticate(credentials);
+  if (!authenticated) {
+    await provider.close();
+    throw new Error(`${provider.name} authentication failed`);
+  }
+
+  logger.info("PIMS provider authenticated", {
+    clinicId: clinic.id,
+    provider: provider.name,
+  });
+
+  return provider;
+}
@@ -0,0 +1,599 @@
+/**
+ * Appointment Reminders
+ *
+ * Reminder/confirmation calls for synced PIMS appointments
+ * (pims_appointments). Each cron run (runAppointmentReminders):
+ *   1. Finds clinics with reminder_calls_enabled and a reminder assistant
+ *   2. Picks their unconfirmed appointments starting within
+ *      reminder_hours_before that haven't had a reminder call
+ *   3. Queues a call to the client during calling hours (clinic time) in
+ *      scheduled_discharge_calls (call_type "reminder"); the call executor
+ *      places it, so test mode and the clinic's retry policy apply. The
+ *      assistant uses confirm_appointment, cancel_appointment or
+ *      reschedule_appointment
+ *
+ * The answer is stored on the appointment (confirmation_status), and
+ * confirmations are written back to the PIMS when it supports
+ * confirmAppointment. When the call's last attempt ends, the reminder records
+ * the outcome (handleReminderCallEnd).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@odis-ai/shared/types";
+import { parsePostgresTimeRange } from "@odis-ai/shared/util";
+import { normalizeToE164 } from "@odis-ai/shared/util/phone";
+import { formatSlotLabel, toClinicDate } from "./waitlist";
+
+const LOG_PREFIX = "[reminders]";
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+/** Clinic-local hours reminder calls may be placed (start inclusive) */
+const CALLING_HOURS = { start: 9, end: 19 };
+/** Don't call about appointments starting sooner than this */
+const MIN_LEAD_MINUTES = 60;
+/** Calls queued per clinic per run, so a large schedule is spread out */
+const MAX_CALLS_PER_RUN = 25;
+/** Clinic roles preferred as the owner of reminder calls, in order */
+const CALLER_ROLES = ["owner", "admin", "member"];
+
+type Supabase = SupabaseClient<Database>;
+type AppointmentRow = Pick<
+  Database["public"]["Tables"]["pims_appointments"]["Row"],
+  | "id"
+  | "clinic_id"
+  | "time_range"
+  | "status"
+  | "confirmation_status"
+  | "client_name"
+  | "client_phone"
+  | "patient_name"
+  | "appointment_type"
+  | "provider_name"
+>;
+
+/**
+ * Confirmation status recorded on pims_appointments
+ */
+export type AppointmentConfirmationStatus =
+  "unconfirmed" | "confirmed" | "cancelled" | "rescheduled";
+
+/**
+ * What happened on a reminder call
+ */
+export type ReminderOutcome =
+  "confirmed" | "cancelled" | "rescheduled" | "no_answer" | "no_response";
+
+/**
+ * An appointment due for a reminder call
+ */
+export interface ReminderAppointment {
+  id: string;
+  clinicId: string;
+  slotStart: string;
+  clientName: string | null;
+  clientPhone: string;
+  patientName: string | null;
+  appointmentType: string | null;
+  providerName: string | null;
+}
+
+export interface ReminderRunResult {
+  clinicsProcessed: number;
+  callsQueued: number;
+  callsFailed: number;
+  /** Clinics skipped because it's outside calling hours there */
+  clinicsOutsideCallingHours: number;
+}
+
+interface ReminderClinic {
+  id: string;
+  name: string;
+  timezone: string;
+  assistantId: string;
+  outboundPhoneNumberId: string | null;
+  hoursBefore: number;
+}
+
+interface ReminderCaller {
+  userId: string;
+  testMode: boolean;
+  testContactPhone: string | null;
+}
+
+/* ========================================
+   Selection
+   ======================================== */
+
+/**
+ * Whether `now` is within reminder calling hours in clinic time
+ */
+export function isWithinCallingHours(now: Date, timezone: string): boolean {
+  const hour = Number(
+    new Intl.DateTimeFormat("en-US", {
+      hour: "numeric",
+      hourCycle: "h23",
+      timeZone: timezone,
+    }).format(now),
+  );
+  return hour >= CALLING_HOURS.start && hour < CALLING_HOURS.end;
+}
+
+/**
+ * Appointments that should get a reminder call now, soonest first
+ *
+ * Due means starting within `hoursBefore` (but not within the next hour),
+ * still booked and unconfirmed, with a phone number to call.
+ *
+ * @param remindedIds - Appointments that already had a reminder call
+ */
+export function selectDueAppointments(
+  rows: AppointmentRow[],
+  options: { now: Date; hoursBefore: number; remindedIds?: Iterable<string> },
+): ReminderAppointment[] {
+  const reminded = new Set(options.remindedIds ?? []);
+  const earliest = options.now.getTime() + MIN_LEAD_MINUTES * 60 * 1000;
+  const latest = options.now.getTime() + options.hoursBefore * 60 * 60 * 1000;
+
+  const due: ReminderAppointment[] = [];
+  for (const row of rows) {
+    if (
+      reminded.has(row.id) ||
+      row.status === "cancelled" ||
+      row.confirmation_status !== "unconfirmed" ||
+      !row.client_phone ||
+      typeof row.time_range !== "string"
+    ) {
+      continue;
+    }
+
+    let start: Date;
+    try {
+      start = parsePostgresTimeRange(row.time_range).start;
+    } catch {
+      continue;
+    }
+    const startMs = start.getTime();
+    if (isNaN(startMs) || startMs < earliest || startMs > latest) continue;
+
+    due.push({
+      id: row.id,
+      clinicId: row.clinic_id,
+      slotStart: start.toISOString(),
+      clientName: row.client_name,
+      clientPhone: row.client_phone,
+      patientName: row.patient_name,
+      appointmentType: row.appointment_type,
+      providerName: row.provider_name,
+    });
+  }
+
+  return due.sort((a, b) => a.slotStart.localeCompare(b.slotStart));
+}
+
+/**
+ * The reminder outcome once the call has ended
+ *
+ * @param confirmationStatus - The appointment's status after the call
+ * @param reachedClient - false when the call wasn't answered (or hit voicemail)
+ */
+export function reminderOutcomeFor(
+  confirmationStatus: string,
+  reachedClient: boolean,
+): ReminderOutcome {
+  switch (confirmationStatus) {
+    case "confirmed":
+    case "cancelled":
+    case "rescheduled":
+      return confirmationStatus;
+    default:
+      return reachedClient ? "no_response" : "no_answer";
+  }
+}
+
+/* ========================================
+   Confirmation
+   ======================================== */
+
+/**
+ * Record the client's answer on a synced appointment
+ */
+export async function recordAppointmentConfirmation(
+  supabase: Supabase,
+  appointmentId: string,
+  status: Exclude<AppointmentConfirmationStatus, "unconfirmed">,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("pims_appointments")
+    .update({
+      confirmation_status: status,
+      ...(status === "confirmed" && { confirmed_at: now }),
+      updated_at: now,
+    })
+    .eq("id", appointmentId);
+
+  if (error) {
+    throw new Error(`Failed to record confirmation: ${error.message}`);
+  }
+}
+
+/**
+ * Write a confirmation back to the PIMS in the background (QStash)
+ */
+export async function queuePimsConfirmation(
+  appointmentId: string,
+): Promise<void> {
+  const { schedulePimsConfirmation } =
+    await import("@odis-ai/integrations/qstash/client");
+  await schedulePimsConfirmation(appointmentId);
+}
+
+/* ========================================
+   Calling
+   ======================================== */
+
+async function loadReminderClinics(
+  supabase: Supabase,
+): Promise<ReminderClinic[]> {
+  const { data, error } = await supabase
+    .from("clinics")
+    .select(
+      "id, name, timezone, reminder_assistant_id, outbound_phone_number_id, reminder_hours_before",
+    )
+    .eq("is_active", true)
+    .eq("reminder_calls_enabled", true)
+    .not("reminder_assistant_id", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to load reminder clinics: ${error.message}`);
+  }
+
+  return (data ?? []).flatMap((clinic) =>
+    clinic.reminder_assistant_id
+      ? [
+          {
+            id: clinic.id,
+            name: clinic.name,
+            timezone: clinic.timezone ?? DEFAULT_TIMEZONE,
+            assistantId: clinic.reminder_assistant_id,
+            outboundPhoneNumberId: clinic.outbound_phone_number_id,
+            hoursBefore: clinic.reminder_hours_before,
+          },
+        ]
+      : [],
+  );
+}
+
+async function findDueAppointments(
+  supabase: Supabase,
+  clinic: ReminderClinic,
+  now: Date,
+): Promise<ReminderAppointment[]> {
+  const windowEnd = new Date(now.getTime() + clinic.hoursBefore * 3600 * 1000);
+
+  const { data: rows, error } = await supabase
+    .from("pims_appointments")
+    .select(
+      "id, clinic_id, time_range, status, confirmation_status, client_name, client_phone, patient_name, appointment_type, provider_name",
+    )
+    .eq("clinic_id", clinic.id)
+    .is("deleted_at", null)
+    .neq("status", "cancelled")
+    .eq("confirmation_status", "unconfirmed")
+    .not("client_phone", "is", null)
+    .gte("date", toClinicDate(now.toISOString(), clinic.timezone))
+    .lte("date", toClinicDate(windowEnd.toISOString(), clinic.timezone));
+
+  if (error) {
+    throw new Error(`Failed to load appointments: ${error.message}`);
+  }
+  if (!rows?.length) return [];
+
+  const { data: reminded, error: remindedError } = await supabase
+    .from("appointment_reminder_calls")
+    .select("appointment_id")
+    .in(
+      "appointment_id",
+      rows.map((row) => row.id),
+    );
+
+  if (remindedError) {
+    throw new Error(`Failed to load reminder calls: ${remindedError.message}`);
+  }
+
+  return selectDueAppointments(rows, {
+    now,
+    hoursBefore: clinic.hoursBefore,
+    remindedIds: (reminded ?? []).map((row) => row.appointment_id),
+  });
+}
+
+/**
+ * The clinic user reminder calls are queued under
+ *
+ * scheduled_discharge_calls rows need a user_id; it also decides test mode
+ * and (through the user's clinic) the retry policy. Prefers the user whose
+ * primary clinic this is, then owners over admins over members.
+ */
+async function loadReminderCaller(
+  supabase: Supabase,
+  clinicId: string,
+): Promise<ReminderCaller | null> {
+  const { data: access, error } = await supabase
+    .from("user_clinic_access")
+    .select("user_id, role, is_primary")
+    .eq("clinic_id", clinicId);
+
+  if (error) {
+    throw new Error(`Failed to load clinic users: ${error.message}`);
+  }
+
+  const [caller] = [...(access ?? [])]
+    .filter((row) => row.role !== "viewer")
+    .sort(
+      (a, b) =>
+        Number(b.is_primary) - Number(a.is_primary) ||
+        CALLER_ROLES.indexOf(a.role) - CALLER_ROLES.indexOf(b.role),
+    );
+  if (!caller) return null;
+
+  const { data: user } = await supabase
+    .from("users")
+    .select("test_mode_enabled, test_contact_phone")
+    .eq("id", caller.user_id)
+    .maybeSingle();
+
+  return {
+    userId: caller.user_id,
+    testMode: user?.test_mode_enabled ?? false,
+    testContactPhone: user?.test_contact_phone ?? null,
+  };
+}
+
+/**
+ * Queue one reminder call
+ *
+ * The call is stored in scheduled_discharge_calls (call_type "reminder") and
+ * placed by the call executor through QStash, like discharge and follow-up
+ * calls, so test mode and the clinic's retry policy apply.
+ *
+ * @returns false when the call couldn't be queued (recorded as failed)
+ */
+async function queueReminderCall(
+  supabase: Supabase,
+  clinic: ReminderClinic,
+  caller: ReminderCaller,
+  appointment: ReminderAppointment,
+  now: Date,
+): Promise<boolean> {
+  const { data: reminder, error: insertError } = await supabase
+    .from("appointment_reminder_calls")
+    .insert({
+      clinic_id: clinic.id,
+      appointment_id: appointment.id,
+      appointment_start: appointment.slotStart,
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !reminder) {
+    // Usually another run already reminded this appointment
+    console.warn(
+      `${LOG_PREFIX} Skipping appointment=${appointment.id}: ${insertError?.message ?? "no row"}`,
+    );
+    return true;
+  }
+
+  let scheduledCallId: string | null = null;
+  try {
+    const clientPhone = normalizeToE164(appointment.clientPhone);
+    if (!clientPhone) {
+      throw new Error(`Invalid phone number: ${appointment.clientPhone}`);
+    }
+
+    let customerPhone = clientPhone;
+    if (caller.testMode) {
+      const testPhone = caller.testContactPhone
+        ? normalizeToE164(caller.testContactPhone)
+        : null;
+      if (!testPhone) {
+        throw new Error(
+          "Test mode is enabled but test contact phone is not configured",
+        );
+      }
+      customerPhone = testPhone;
+    }
+
+    const phoneNumberId =
+      clinic.outboundPhoneNumberId ?? process.env.VAPI_PHONE_NUMBER_ID;
+    if (!phoneNumberId) {
+      throw new Error("No outbound phone number configured");
+    }
+
+    const metadata = {
+      reminder_id: reminder.id,
+      appointment_id: appointment.id,
+      timezone: clinic.timezone,
+      retry_count: 0,
+      max_retries: 1,
+      test_call: caller.testMode,
+    };
+    const { data: scheduledCall, error: callError } = await supabase
+      .from("scheduled_discharge_calls")
+      .insert({
+        user_id: caller.userId,
+        case_id: null,
+        call_type: "reminder",
+        assistant_id: clinic.assistantId,
+        outbound_phone_number_id: phoneNumberId,
+        customer_phone: customerPhone,
+        scheduled_for: now.toISOString(),
+        status: "queued",
+        dynamic_variables: {
+          reminder_id: reminder.id,
+          appointment_id: appointment.id,
+          clinic_name: clinic.name,
+          owner_name: appointment.clientName ?? "",
+          client_phone: clientPhone,
+          pet_name: appointment.patientName ?? "your pet",
+          appointment_date: toClinicDate(
+            appointment.slotStart,
+            clinic.timezone,
+          ),
+          appointment_slot: formatSlotLabel(
+            appointment.slotStart,
+            clinic.timezone,
+          ),
+          appointment_type: appointment.appointmentType ?? "",
+          provider_name: appointment.providerName ?? "",
+        },
+        metadata,
+      })
+      .select("id")
+      .single();
+
+    if (callError || !scheduledCall) {
+      throw new Error(
+        `Failed to queue call: ${callError?.message ?? "no row"}`,
+      );
+    }
+    scheduledCallId = scheduledCall.id;
+
+    const { scheduleCallExecution } =
+      await import("@odis-ai/integrations/qstash/client");
+    const messageId = await scheduleCallExecution(scheduledCall.id, now);
+
+    await supabase
+      .from("scheduled_discharge_calls")
+      .update({ metadata: { ...metadata, qstash_message_id: messageId } })
+      .eq("id", scheduledCall.id);
+
+    await supabase
+      .from("appointment_reminder_calls")
+      .update({ status: "in_progress" })
+      .eq("id", reminder.id);
+
+    return true;
+  } catch (callError) {
+    const message =
+      callError instanceof Error ? callError.message : String(callError);
+    console.warn(
+      `${LOG_PREFIX} Failed to queue call for appointment=${appointment.id}: ${message}`,
+    );
+    if (scheduledCallId) {
+      await supabase
+        .from("scheduled_discharge_calls")
+        .update({ status: "failed", ended_reason: message })
+        .eq("id", scheduledCallId);
+    }
+    await supabase
+      .from("appointment_reminder_calls")
+      .update({ status: "failed", error: message })
+      .eq("id", reminder.id);
+    return false;
+  }
+}
+
+/**
+ * Queue reminder calls for every clinic with reminders enabled
+ * Meant to run every 15-30 minutes; each appointment is called once.
+ */
+export async function runAppointmentReminders(
+  supabase: Supabase,
+  now: Date = new Date(),
+): Promise<ReminderRunResult> {
+  const clinics = await loadReminderClinics(supabase);
+  const result: ReminderRunResult = {
+    clinicsProcessed: 0,
+    callsQueued: 0,
+    callsFailed: 0,
+    clinicsOutsideCallingHours: 0,
+  };
+
+  for (const clinic of clinics) {
+    if (!isWithinCallingHours(now, clinic.timezone)) {
+      result.clinicsOutsideCallingHours++;
+      continue;
+    }
+
+    try {
+      const caller = await loadReminderCaller(supabase, clinic.id);
+      if (!caller) {
+        throw new Error("No clinic user to queue reminder calls under");
+      }
+
+      const due = await findDueAppointments(supabase, clinic, now);
+      console.log(
+        `${LOG_PREFIX} clinic=${clinic.id}: ${due.length} appointments due`,
+      );
+
+      for (const appointment of due.slice(0, MAX_CALLS_PER_RUN)) {
+        if (
+          await queueReminderCall(supabase, clinic, caller, appointment, now)
+        ) {
+          result.callsQueued++;
+        } else {
+          result.callsFailed++;
+        }
+      }
+      result.clinicsProcessed++;
+    } catch (error) {
+      console.error(
+        `${LOG_PREFIX} Failed to run reminders for clinic=${clinic.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return result;
+}
+
+/* ========================================
+   Call end
+   ======================================== */
+
+/**
+ * Record a reminder call's outcome when it ends
+ *
+ * Called from the outbound end-of-call processor for scheduled calls that
+ * carry a reminder_id, after any retry has been decided.
+ */
+export async function handleReminderCallEnd(
+  supabase: Supabase,
+  call: {
+    reminderId: string;
+    vapiCallId: string;
+    endedReason: string | null;
+    reachedClient: boolean;
+  },
+): Promise<void> {
+  const { data: reminder, error } = await supabase
+    .from("appointment_reminder_calls")
+    .select("id, pims_appointments(confirmation_status)")
+    .eq("id", call.reminderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load reminder call: ${error.message}`);
+  }
+  if (!reminder) {
+    console.warn(`${LOG_PREFIX} Reminder ${call.reminderId} not found`);
+    return;
+  }
+
+  const outcome = reminderOutcomeFor(
+    reminder.pims_appointments?.confirmation_status ?? "unconfirmed",
+    call.reachedClient,
+  );
+
+  await supabase
+    .from("appointment_reminder_calls")
+    .update({
+      status: "completed",
+      outcome,
+      vapi_call_id: call.vapiCallId,
+      ended_reason: call.endedReason,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", reminder.id);
+
+  console.log(`${LOG_PREFIX} Reminder ${reminder.id} ended: ${outcome}`);
+}
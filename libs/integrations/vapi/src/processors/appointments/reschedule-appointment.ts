@@ -9,7 +9,8 @@
  *
  * Architecture: Sync-first, Background Operations
  * - During call: Updates local database (fast)
- * - After call: QStash job handles IDEXX cancel+create (reliable)
+ * - After call: QStash job handles PIMS cancel+create (reliable), only when
+ *   the clinic's PIMS supports reschedule write-back
  *
  * GUARANTEE: Caller NEVER ends up without an appointment.
  * If new appointment creation fails, original is restored.
@@ -28,6 +29,7 @@ import {
   parseTimeToISO,
   formatTime12Hour,
 } from "./book-appointment";
+import { clinicSupportsPimsWrite } from "./pims-write-provider";
 
 /**
  * Process reschedule appointment request
@@ -433,6 +435,14 @@ export async function processRescheduleAppointment(
     })
     .eq("id", newBookingId);
 
+  // Mark the synced original as rescheduled (ends any reminder follow-up)
+  if (source === "pims_appointments") {
+    await supabase
+      .from("pims_appointments")
+      .update({ confirmation_status: "rescheduled" })
+      .eq("id", originalId);
+  }
+
   // Wrap in object for downstream compatibility
   const newBooking = { id: newBookingId };
 
@@ -450,8 +460,13 @@ export async function processRescheduleAppointment(
     performed_by: "vapi",
   });
 
-  // 4d. Queue background job to sync reschedule to IDEXX
-  if (clinic.pims_type === "idexx") {
+  // 4d. Queue background job to sync reschedule to the PIMS (if it can write)
+  const pimsCanReschedule = await clinicSupportsPimsWrite(
+    clinic,
+    "rescheduleAppointment",
+  ).catch(() => false);
+
+  if (pimsCanReschedule) {
     try {
       const baseUrl =
         process.env.NEXT_PUBLIC_APP_URL ?? process.env.VERCEL_URL ?? "";
@@ -476,14 +491,14 @@ export async function processRescheduleAppointment(
         }),
       });
 
-      logger.info("Queued IDEXX reschedule job", {
+      logger.info("Queued PIMS reschedule job", {
         originalId,
         newBookingId: newBooking.id,
         clinicId: clinic.id,
       });
     } catch (queueError) {
       // Non-fatal: The nightly sync will reconcile
-      logger.warn("Failed to queue IDEXX reschedule job", {
+      logger.warn("Failed to queue PIMS reschedule job", {
         error: queueError,
         originalId,
         newBookingId: newBooking.id,
@@ -0,0 +1,94 @@
+/**
+ * Respond to Waitlist Offer Processor
+ *
+ * Used by the waitlist offer assistant: records whether the client takes
+ * the slot they were called about. The offer id comes from the call's
+ * variables, and the offer must belong to this call.
+ */
+
+import type { ToolContext, ToolResult } from "../../core/types";
+import type { RespondToWaitlistOfferInput } from "../../schemas/appointments";
+import { respondToWaitlistOffer } from "./waitlist";
+
+/**
+ * Process a waitlist offer answer
+ *
+ * @param input - Validated input with offer_id and accepted
+ * @param ctx - Tool context with supabase, logger
+ * @returns What to tell the client
+ */
+export async function processRespondToWaitlistOffer(
+  input: RespondToWaitlistOfferInput,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const { supabase, logger, callId } = ctx;
+
+  let result;
+  try {
+    result = await respondToWaitlistOffer(
+      supabase,
+      input.offer_id,
+      input.accepted,
+      { vapiCallId: callId },
+    );
+  } catch (error) {
+    logger.error("Failed to record waitlist offer answer", {
+      error: error instanceof Error ? error.message : String(error),
+      offerId: input.offer_id,
+    });
+    return {
+      success: false,
+      error: "database_error",
+      message:
+        "I'm having trouble with that right now. Please call the office to book.",
+    };
+  }
+
+  logger.info("Waitlist offer answered", {
+    offerId: input.offer_id,
+    accepted: input.accepted,
+    status: result.status,
+    callId,
+  });
+
+  const pet = result.patientName ?? "your pet";
+
+  switch (result.status) {
+    case "accepted":
+      return {
+        success: true,
+        message: `You're all set! ${pet} is booked for ${result.slotLabel}.${result.confirmationNumber ? ` Your confirmation number is ${result.confirmationNumber}.` : ""} Is there anything else I can help you with?`,
+        data: {
+          booked: true,
+          confirmation_number: result.confirmationNumber,
+        },
+      };
+    case "declined":
+      return {
+        success: true,
+        message:
+          "No problem, I'll pass that time along. You're still on the waitlist, and we'll reach out if another time opens up.",
+        data: { booked: false },
+      };
+    case "expired":
+      return {
+        success: false,
+        error: "offer_expired",
+        message: `I'm sorry, the hold on ${result.slotLabel} ran out before I could book it. You're still on the waitlist, and we'll reach out if another time opens up.`,
+      };
+    case "not_pending":
+      return {
+        success: false,
+        error: "offer_not_pending",
+        message:
+          "It looks like that time has already been taken care of. Please call the office if you have any questions.",
+      };
+    default:
+      return {
+        success: false,
+        error: "offer_not_found",
+        message:
+          "I couldn't find that offer. Please call the office to book an appointment.",
+      };
+  }
+}
@@ -209,7 +209,7 @@ async function fetchBookingsForDate(
 }
 
 /** Shift a YYYY-MM-DD date string forward by one day */
-function shiftDateByOne(dateStr: string): string {
+export function shiftDateByOne(dateStr: string): string {
   const d = new Date(dateStr + "T12:00:00Z"); // noon UTC to avoid DST edge
   d.setUTCDate(d.getUTCDate() + 1);
   return d.toISOString().slice(0, 10);
@@ -0,0 +1,900 @@
+/**
+ * Cancellation Waitlist
+ *
+ * Offers freed slots to clients waiting for an earlier appointment
+ * (appointment_waitlist). When a slot opens (cancel_appointment or a PIMS
+ * sync that marks an appointment cancelled):
+ *   1. Waiting entries whose preferred dates cover the slot are tried in the
+ *      order they joined, skipping anyone already offered this slot
+ *   2. The clinic's booking rules and the entry's appointment type must allow
+ *      the slot, as in book_appointment
+ *   3. The slot is held with book_appointment_with_hold for the clinic's
+ *      offer window, and the client is called (waitlist assistant) or texted
+ *   4. A QStash job releases the hold when the window ends
+ *
+ * Accepting confirms the held booking. Declining or not answering cancels
+ * the hold and offers the slot to the next entry.
+ *
+ * Text offers are answered with BOOK or PASS rather than YES/NO: YES is a
+ * carrier opt-in keyword, so an owner who had opted out would be re-subscribed
+ * by accepting an offer.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@odis-ai/shared/types";
+import {
+  waitlistDateRangeSchema,
+  type WaitlistContactMethod,
+  type WaitlistDateRange,
+} from "@odis-ai/shared/validators";
+import { parsePostgresTimeRange } from "@odis-ai/shared/util";
+import type { BookingResult } from "../../schemas/appointments";
+import { checkBookingRules } from "./booking-rules";
+import {
+  checkAppointmentTypeFit,
+  loadAppointmentTypes,
+  resolveAppointmentType,
+} from "./appointment-types";
+import { slotToLocalTime } from "./check-availability";
+
+const LOG_PREFIX = "[waitlist]";
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+const DEFAULT_SLOT_DURATION_MINUTES = 15;
+const DEFAULT_OFFER_MINUTES = 30;
+/** Don't offer slots starting sooner than this */
+const MIN_LEAD_MINUTES = 15;
+
+type Supabase = SupabaseClient<Database>;
+type WaitlistRow = Database["public"]["Tables"]["appointment_waitlist"]["Row"];
+type OfferRow =
+  Database["public"]["Tables"]["appointment_waitlist_offers"]["Row"];
+
+/**
+ * Replies that answer a text offer
+ */
+export const WAITLIST_SMS_REPLIES = {
+  accept: "BOOK",
+  decline: "PASS",
+} as const;
+
+/**
+ * Sends an offer text and returns the provider message id
+ *
+ * Passed in by the caller so this module doesn't depend on the SMS
+ * integration.
+ */
+export type WaitlistTextSender = (to: string, body: string) => Promise<string>;
+
+export type WaitlistOpeningSource =
+  "cancellation" | "pims_sync" | "offer_released";
+
+/**
+ * A slot that just freed up
+ */
+export interface WaitlistOpening {
+  /** Clinic whose waitlist is offered the slot */
+  clinicId: string;
+  /** Clinic whose schedule the slot belongs to (pims_clinic_id ?? clinicId) */
+  scheduleClinicId: string;
+  /** ISO timestamps */
+  slotStart: string;
+  slotEnd: string;
+  appointmentType: string | null;
+  source: WaitlistOpeningSource;
+}
+
+/**
+ * A row from appointment_waitlist
+ */
+export interface WaitlistEntry {
+  id: string;
+  clinicId: string;
+  clientName: string;
+  clientPhone: string;
+  patientName: string;
+  species: string | null;
+  reason: string | null;
+  appointmentType: string | null;
+  isNewClient: boolean;
+  preferredRanges: WaitlistDateRange[];
+  contactMethod: WaitlistContactMethod;
+  createdAt: string;
+}
+
+export type WaitlistOfferOutcome =
+  | {
+      offered: true;
+      offerId: string;
+      waitlistId: string;
+      channel: WaitlistContactMethod;
+    }
+  | {
+      offered: false;
+      reason: "slot_started" | "slot_not_available" | "no_match";
+    };
+
+export interface WaitlistResponseResult {
+  status: "accepted" | "declined" | "expired" | "not_pending" | "not_found";
+  patientName: string | null;
+  /** e.g. "Tuesday, March 17 at 9:00 AM" in clinic time */
+  slotLabel: string | null;
+  confirmationNumber: string | null;
+}
+
+interface WaitlistClinic {
+  id: string;
+  name: string;
+  timezone: string;
+  waitlistAssistantId: string | null;
+  outboundPhoneNumberId: string | null;
+  offerMinutes: number;
+}
+
+/* ========================================
+   Matching
+   ======================================== */
+
+/**
+ * Valid ranges from appointment_waitlist.preferred_ranges
+ */
+export function parseWaitlistRanges(value: Json | null): WaitlistDateRange[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((range) => {
+    const parsed = waitlistDateRangeSchema.safeParse(range);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export function parseWaitlistEntryRow(row: WaitlistRow): WaitlistEntry {
+  return {
+    id: row.id,
+    clinicId: row.clinic_id,
+    clientName: row.client_name,
+    clientPhone: row.client_phone,
+    patientName: row.patient_name,
+    species: row.species,
+    reason: row.reason,
+    appointmentType: row.appointment_type,
+    isNewClient: row.is_new_client,
+    preferredRanges: parseWaitlistRanges(row.preferred_ranges),
+    contactMethod: row.contact_method === "sms" ? "sms" : "call",
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * YYYY-MM-DD of a timestamp in clinic time
+ */
+export function toClinicDate(timestamp: string, timezone: string): string {
+  return new Date(timestamp).toLocaleDateString("en-CA", {
+    timeZone: timezone,
+  });
+}
+
+/**
+ * Whether a clinic-local date falls in the entry's preferred ranges
+ * No ranges means any day.
+ */
+export function isWithinPreferredRanges(
+  ranges: WaitlistDateRange[],
+  date: string,
+): boolean {
+  if (ranges.length === 0) return true;
+  return ranges.some(
+    (range) => range.start_date <= date && date <= range.end_date,
+  );
+}
+
+/**
+ * Entries that could take a slot on `date`, first to join first
+ *
+ * @param excludeIds - Entries already offered this slot
+ */
+export function selectWaitlistCandidates(
+  entries: WaitlistEntry[],
+  options: { date: string; excludeIds?: Iterable<string> },
+): WaitlistEntry[] {
+  const excluded = new Set(options.excludeIds ?? []);
+  return entries
+    .filter(
+      (entry) =>
+        !excluded.has(entry.id) &&
+        isWithinPreferredRanges(entry.preferredRanges, options.date),
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The opening freed by a cancelled appointment row
+ *
+ * @param row - pims_appointments or appointment_bookings row; its clinic_id
+ *   is the schedule the slot belongs to
+ */
+export function waitlistOpeningFromAppointment(
+  clinicId: string,
+  row: {
+    clinic_id: string;
+    time_range: unknown;
+    appointment_type: string | null;
+  },
+  source: WaitlistOpeningSource,
+): WaitlistOpening | null {
+  if (typeof row.time_range !== "string") return null;
+
+  try {
+    const range = parsePostgresTimeRange(row.time_range);
+    if (isNaN(range.start.getTime()) || isNaN(range.end.getTime())) {
+      return null;
+    }
+    return {
+      clinicId,
+      scheduleClinicId: row.clinic_id,
+      slotStart: range.start.toISOString(),
+      slotEnd: range.end.toISOString(),
+      appointmentType: row.appointment_type,
+      source,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function formatSlotLabel(slotStart: string, timezone: string): string {
+  const date = new Date(slotStart).toLocaleDateString("en-US", {
+    timeZone: timezone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+  return `${date} at ${slotToLocalTime(slotStart, timezone).time12h}`;
+}
+
+/* ========================================
+   Queueing
+   ======================================== */
+
+/**
+ * Offer an opening to the waitlist in the background (QStash)
+ */
+export async function queueWaitlistOpening(
+  opening: WaitlistOpening,
+): Promise<void> {
+  const { scheduleWaitlistOpening } =
+    await import("@odis-ai/integrations/qstash/client");
+  await scheduleWaitlistOpening(opening);
+}
+
+async function cancelOfferTimeout(messageId: string | null): Promise<void> {
+  if (!messageId) return;
+  try {
+    const { cancelScheduledExecution } =
+      await import("@odis-ai/integrations/qstash/client");
+    await cancelScheduledExecution(messageId);
+  } catch (error) {
+    // The timeout finds the offer already answered and does nothing
+    console.warn(
+      `${LOG_PREFIX} Failed to cancel offer timeout ${messageId}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/* ========================================
+   Offering
+   ======================================== */
+
+async function loadWaitlistClinic(
+  supabase: Supabase,
+  clinicId: string,
+): Promise<WaitlistClinic> {
+  const { data, error } = await supabase
+    .from("clinics")
+    .select(
+      "id, name, timezone, waitlist_assistant_id, outbound_phone_number_id, waitlist_offer_minutes",
+    )
+    .eq("id", clinicId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(
+      `Failed to load clinic ${clinicId}: ${error?.message ?? "not found"}`,
+    );
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    timezone: data.timezone ?? DEFAULT_TIMEZONE,
+    waitlistAssistantId: data.waitlist_assistant_id,
+    outboundPhoneNumberId: data.outbound_phone_number_id,
+    offerMinutes: data.waitlist_offer_minutes ?? DEFAULT_OFFER_MINUTES,
+  };
+}
+
+/**
+ * Whether the clinic's rules and the entry's appointment type allow the slot
+ *
+ * @returns The minutes to hold, or null when the entry can't take the slot
+ */
+async function fitEntryToOpening(
+  supabase: Supabase,
+  entry: WaitlistEntry,
+  opening: WaitlistOpening,
+  context: {
+    timezone: string;
+    date: string;
+    time: string;
+    types: Awaited<ReturnType<typeof loadAppointmentTypes>>;
+    slotMinutes: number;
+  },
+): Promise<{
+  holdMinutes: number;
+  appointmentType: string | null;
+  providerName: string | null;
+  roomId: string | null;
+} | null> {
+  const rules = await checkBookingRules({
+    supabase,
+    clinicId: opening.scheduleClinicId,
+    date: context.date,
+    time: context.time,
+    timezone: context.timezone,
+    subject: {
+      isNewClient: entry.isNewClient,
+      species: entry.species ?? undefined,
+      reason: entry.reason ?? undefined,
+    },
+  });
+  if (!rules.allowed) return null;
+
+  const type = resolveAppointmentType(context.types, {
+    appointmentType: entry.appointmentType ?? undefined,
+    reason: entry.reason ?? undefined,
+  });
+  if (!type) {
+    return {
+      holdMinutes: context.slotMinutes,
+      appointmentType: entry.appointmentType,
+      providerName: rules.providerName,
+      roomId: null,
+    };
+  }
+
+  const fit = await checkAppointmentTypeFit({
+    supabase,
+    clinicId: opening.scheduleClinicId,
+    date: context.date,
+    time: context.time,
+    timezone: context.timezone,
+    type,
+  });
+  if (!fit.fits) return null;
+
+  return {
+    holdMinutes: type.durationMinutes + type.bufferMinutes,
+    appointmentType: type.name,
+    providerName: rules.providerName ?? fit.provider?.name ?? null,
+    roomId: fit.room ? (fit.room.pimsResourceId ?? fit.room.name) : null,
+  };
+}
+
+/**
+ * Call or text the client about the held slot
+ *
+ * @returns The VAPI call or provider message id
+ */
+async function contactWaitlistEntry(
+  supabase: Supabase,
+  entry: WaitlistEntry,
+  offer: { id: string; channel: WaitlistContactMethod; slotStart: string },
+  clinic: WaitlistClinic,
+  sendText: WaitlistTextSender,
+): Promise<{ vapiCallId: string | null; providerMessageId: string | null }> {
+  const slotLabel = formatSlotLabel(offer.slotStart, clinic.timezone);
+
+  if (offer.channel === "call" && clinic.waitlistAssistantId) {
+    const phoneNumberId =
+      clinic.outboundPhoneNumberId ?? process.env.VAPI_PHONE_NUMBER_ID;
+    if (!phoneNumberId) {
+      throw new Error("No outbound phone number configured");
+    }
+
+    const { createPhoneCall } = await import("../../client");
+    const call = await createPhoneCall({
+      phoneNumber: entry.clientPhone,
+      assistantId: clinic.waitlistAssistantId,
+      phoneNumberId,
+      assistantOverrides: {
+        variableValues: {
+          offer_id: offer.id,
+          clinic_name: clinic.name,
+          owner_name: entry.clientName,
+          pet_name: entry.patientName,
+          appointment_slot: slotLabel,
+          appointment_type: entry.appointmentType ?? "",
+          hold_minutes: String(clinic.offerMinutes),
+        },
+      },
+    });
+    return { vapiCallId: call.id, providerMessageId: null };
+  }
+
+  const { data: optOut } = await supabase
+    .from("sms_opt_outs")
+    .select("phone_number")
+    .eq("phone_number", entry.clientPhone)
+    .maybeSingle();
+  if (optOut) {
+    throw new Error("Client opted out of SMS");
+  }
+
+  const providerMessageId = await sendText(
+    entry.clientPhone,
+    `${clinic.name}: An appointment opened up for ${entry.patientName} on ${slotLabel}. Reply ${WAITLIST_SMS_REPLIES.accept} to book it or ${WAITLIST_SMS_REPLIES.decline} to pass. We'll hold it for ${clinic.offerMinutes} minutes.`,
+  );
+  return { vapiCallId: null, providerMessageId };
+}
+
+async function cancelHold(
+  supabase: Supabase,
+  bookingId: string | null,
+  reason: string,
+): Promise<void> {
+  if (!bookingId) return;
+  const { error } = await supabase.rpc("cancel_booking", {
+    p_booking_id: bookingId,
+    p_reason: reason,
+  });
+  if (error) {
+    console.error(
+      `${LOG_PREFIX} Failed to cancel hold ${bookingId}: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Offer a freed slot to the first waitlist entry that can take it
+ *
+ * Entries whose contact attempt fails are put back on the list and the next
+ * entry is tried.
+ *
+ * @param sendText - Delivers text offers
+ */
+export async function offerWaitlistOpening(
+  supabase: Supabase,
+  opening: WaitlistOpening,
+  sendText: WaitlistTextSender,
+): Promise<WaitlistOfferOutcome> {
+  const slotStart = new Date(opening.slotStart);
+  if (slotStart.getTime() < Date.now() + MIN_LEAD_MINUTES * 60 * 1000) {
+    return { offered: false, reason: "slot_started" };
+  }
+
+  const clinic = await loadWaitlistClinic(supabase, opening.clinicId);
+
+  const [entriesResult, offersResult, scheduleResult, types] =
+    await Promise.all([
+      supabase
+        .from("appointment_waitlist")
+        .select("*")
+        .eq("clinic_id", opening.clinicId)
+        .eq("status", "waiting")
+        .order("created_at"),
+      supabase
+        .from("appointment_waitlist_offers")
+        .select("waitlist_id")
+        .eq("clinic_id", opening.clinicId)
+        .eq("slot_start", slotStart.toISOString()),
+      supabase
+        .from("clinic_schedule_config")
+        .select("slot_duration_minutes")
+        .eq("clinic_id", opening.scheduleClinicId)
+        .maybeSingle(),
+      loadAppointmentTypes(supabase, opening.scheduleClinicId),
+    ]);
+
+  if (entriesResult.error) {
+    throw new Error(`Failed to load waitlist: ${entriesResult.error.message}`);
+  }
+  if (offersResult.error) {
+    throw new Error(
+      `Failed to load waitlist offers: ${offersResult.error.message}`,
+    );
+  }
+
+  const date = toClinicDate(opening.slotStart, clinic.timezone);
+  const candidates = selectWaitlistCandidates(
+    (entriesResult.data ?? []).map(parseWaitlistEntryRow),
+    {
+      date,
+      excludeIds: (offersResult.data ?? []).map((offer) => offer.waitlist_id),
+    },
+  );
+
+  console.log(
+    `${LOG_PREFIX} Opening ${opening.slotStart} (${opening.source}) for clinic=${opening.clinicId}: ${candidates.length} candidates`,
+  );
+
+  const fitContext = {
+    timezone: clinic.timezone,
+    date,
+    time: slotToLocalTime(opening.slotStart, clinic.timezone).time24h,
+    types,
+    slotMinutes:
+      scheduleResult.data?.slot_duration_minutes ??
+      DEFAULT_SLOT_DURATION_MINUTES,
+  };
+
+  for (const entry of candidates) {
+    const fit = await fitEntryToOpening(supabase, entry, opening, fitContext);
+    if (!fit) continue;
+
+    // Hold until the offer window ends, but never past the slot itself
+    const expiresAt = new Date(
+      Math.min(
+        Date.now() + clinic.offerMinutes * 60 * 1000,
+        slotStart.getTime(),
+      ),
+    );
+
+    const { data: holdData, error: holdError } = await supabase.rpc(
+      "book_appointment_with_hold",
+      {
+        p_clinic_id: opening.scheduleClinicId,
+        p_start_time: slotStart.toISOString(),
+        p_end_time: new Date(
+          slotStart.getTime() + fit.holdMinutes * 60 * 1000,
+        ).toISOString(),
+        p_client_name: entry.clientName,
+        p_client_phone: entry.clientPhone,
+        p_patient_name: entry.patientName,
+        p_species: entry.species ?? undefined,
+        p_reason: entry.reason ?? undefined,
+        p_is_new_client: entry.isNewClient,
+        p_hold_minutes: Math.ceil((expiresAt.getTime() - Date.now()) / 60000),
+      },
+    );
+
+    if (holdError) {
+      throw new Error(`Failed to hold slot: ${holdError.message}`);
+    }
+
+    const hold = holdData as unknown as BookingResult;
+    if (!hold.success || !hold.booking_id) {
+      // Someone booked the slot first; it's gone for every entry
+      return { offered: false, reason: "slot_not_available" };
+    }
+
+    const assignment = {
+      ...(fit.providerName && { provider_name: fit.providerName }),
+      ...(fit.roomId && { room_id: fit.roomId }),
+      ...(fit.appointmentType && { appointment_type: fit.appointmentType }),
+    };
+    if (Object.keys(assignment).length > 0) {
+      await supabase
+        .from("appointment_bookings")
+        .update(assignment)
+        .eq("id", hold.booking_id);
+    }
+
+    const channel: WaitlistContactMethod =
+      entry.contactMethod === "call" && clinic.waitlistAssistantId
+        ? "call"
+        : "sms";
+
+    const { data: offer, error: offerError } = await supabase
+      .from("appointment_waitlist_offers")
+      .insert({
+        waitlist_id: entry.id,
+        clinic_id: opening.clinicId,
+        schedule_clinic_id: opening.scheduleClinicId,
+        slot_start: slotStart.toISOString(),
+        slot_end: opening.slotEnd,
+        booking_id: hold.booking_id,
+        channel,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (offerError || !offer) {
+      // Usually a pending offer for this entry already exists
+      console.warn(
+        `${LOG_PREFIX} Failed to create offer for entry=${entry.id}: ${offerError?.message ?? "no row"}`,
+      );
+      await cancelHold(supabase, hold.booking_id, "Waitlist offer not created");
+      continue;
+    }
+
+    await supabase
+      .from("appointment_waitlist")
+      .update({ status: "offered" })
+      .eq("id", entry.id);
+
+    try {
+      const contact = await contactWaitlistEntry(
+        supabase,
+        entry,
+        { id: offer.id, channel, slotStart: slotStart.toISOString() },
+        clinic,
+        sendText,
+      );
+
+      await supabase
+        .from("appointment_waitlist_offers")
+        .update({
+          vapi_call_id: contact.vapiCallId,
+          provider_message_id: contact.providerMessageId,
+        })
+        .eq("id", offer.id);
+    } catch (contactError) {
+      const message =
+        contactError instanceof Error
+          ? contactError.message
+          : String(contactError);
+      console.warn(
+        `${LOG_PREFIX} Failed to contact entry=${entry.id} by ${channel}: ${message}`,
+      );
+
+      await Promise.all([
+        supabase
+          .from("appointment_waitlist_offers")
+          .update({ status: "failed", error: message })
+          .eq("id", offer.id),
+        supabase
+          .from("appointment_waitlist")
+          .update({ status: "waiting" })
+          .eq("id", entry.id),
+        cancelHold(supabase, hold.booking_id, "Waitlist offer not delivered"),
+      ]);
+      continue;
+    }
+
+    try {
+      const { scheduleWaitlistOfferTimeout } =
+        await import("@odis-ai/integrations/qstash/client");
+      const messageId = await scheduleWaitlistOfferTimeout(offer.id, expiresAt);
+      await supabase
+        .from("appointment_waitlist_offers")
+        .update({ qstash_message_id: messageId })
+        .eq("id", offer.id);
+    } catch (scheduleError) {
+      // The hold still lapses at expires_at; the slot just isn't re-offered
+      console.error(
+        `${LOG_PREFIX} Failed to schedule timeout for offer=${offer.id}: ${scheduleError instanceof Error ? scheduleError.message : String(scheduleError)}`,
+      );
+    }
+
+    console.log(
+      `${LOG_PREFIX} Offered ${opening.slotStart} to entry=${entry.id} by ${channel} (offer=${offer.id})`,
+    );
+
+    return { offered: true, offerId: offer.id, waitlistId: entry.id, channel };
+  }
+
+  return { offered: false, reason: "no_match" };
+}
+
+/* ========================================
+   Responses
+   ======================================== */
+
+type OfferWithEntry = OfferRow & {
+  appointment_waitlist: Pick<WaitlistRow, "patient_name"> | null;
+  clinics: { timezone: string | null } | null;
+};
+
+async function loadOffer(
+  supabase: Supabase,
+  offerId: string,
+): Promise<OfferWithEntry | null> {
+  const { data, error } = await supabase
+    .from("appointment_waitlist_offers")
+    .select("*, appointment_waitlist(patient_name), clinics(timezone)")
+    .eq("id", offerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load waitlist offer: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Move a pending offer to `status`
+ *
+ * @returns false when the offer was already answered or expired
+ */
+async function claimOffer(
+  supabase: Supabase,
+  offerId: string,
+  status: "accepted" | "declined" | "expired",
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("appointment_waitlist_offers")
+    .update({ status, responded_at: new Date().toISOString() })
+    .eq("id", offerId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to update waitlist offer: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Cancel a claimed offer's hold, put the entry back on the list and offer
+ * the slot to the next entry
+ */
+async function releaseOffer(
+  supabase: Supabase,
+  offer: OfferRow,
+  status: "declined" | "expired",
+): Promise<void> {
+  await Promise.all([
+    cancelHold(supabase, offer.booking_id, `Waitlist offer ${status}`),
+    supabase
+      .from("appointment_waitlist")
+      .update({ status: "waiting" })
+      .eq("id", offer.waitlist_id)
+      .eq("status", "offered"),
+  ]);
+
+  if (status === "declined") {
+    await cancelOfferTimeout(offer.qstash_message_id);
+  }
+
+  try {
+    await queueWaitlistOpening({
+      clinicId: offer.clinic_id,
+      scheduleClinicId: offer.schedule_clinic_id,
+      slotStart: offer.slot_start,
+      slotEnd: offer.slot_end,
+      appointmentType: null,
+      source: "offer_released",
+    });
+  } catch (queueError) {
+    console.error(
+      `${LOG_PREFIX} Failed to re-offer ${offer.slot_start} after offer=${offer.id} ${status}: ${queueError instanceof Error ? queueError.message : String(queueError)}`,
+    );
+  }
+}
+
+/**
+ * Record the client's answer to an offer
+ *
+ * @param options.vapiCallId - When answered on a call, the offer must belong to it
+ */
+export async function respondToWaitlistOffer(
+  supabase: Supabase,
+  offerId: string,
+  accepted: boolean,
+  options: { vapiCallId?: string } = {},
+): Promise<WaitlistResponseResult> {
+  const offer = await loadOffer(supabase, offerId);
+
+  if (
+    !offer ||
+    (options.vapiCallId &&
+      offer.vapi_call_id &&
+      offer.vapi_call_id !== options.vapiCallId)
+  ) {
+    return {
+      status: "not_found",
+      patientName: null,
+      slotLabel: null,
+      confirmationNumber: null,
+    };
+  }
+
+  const result = (
+    status: WaitlistResponseResult["status"],
+    confirmationNumber: string | null = null,
+  ): WaitlistResponseResult => ({
+    status,
+    patientName: offer.appointment_waitlist?.patient_name ?? null,
+    slotLabel: formatSlotLabel(
+      offer.slot_start,
+      offer.clinics?.timezone ?? DEFAULT_TIMEZONE,
+    ),
+    confirmationNumber,
+  });
+
+  if (!accepted) {
+    if (!(await claimOffer(supabase, offer.id, "declined"))) {
+      return result("not_pending");
+    }
+    await releaseOffer(supabase, offer, "declined");
+    return result("declined");
+  }
+
+  if (!(await claimOffer(supabase, offer.id, "accepted"))) {
+    return result("not_pending");
+  }
+
+  const { data, error } = offer.booking_id
+    ? await supabase.rpc("confirm_booking", { p_booking_id: offer.booking_id })
+    : { data: null, error: null };
+  const confirmation = data as unknown as BookingResult | null;
+
+  // The hold lapsed (or was removed) before the client answered
+  if (error || !confirmation?.success) {
+    console.warn(
+      `${LOG_PREFIX} Failed to confirm offer=${offer.id}: ${error?.message ?? confirmation?.error ?? "unknown"}`,
+    );
+    await supabase
+      .from("appointment_waitlist_offers")
+      .update({ status: "expired" })
+      .eq("id", offer.id);
+    await releaseOffer(supabase, offer, "expired");
+    return result("expired");
+  }
+
+  await supabase
+    .from("appointment_waitlist")
+    .update({ status: "booked", booking_id: offer.booking_id })
+    .eq("id", offer.waitlist_id);
+  await cancelOfferTimeout(offer.qstash_message_id);
+
+  console.log(
+    `${LOG_PREFIX} Offer ${offer.id} accepted (booking=${offer.booking_id})`,
+  );
+
+  return result("accepted", confirmation.confirmation_number ?? null);
+}
+
+/**
+ * End an unanswered offer and pass the slot on
+ * Offers that were already answered are left alone.
+ */
+export async function expireWaitlistOffer(
+  supabase: Supabase,
+  offerId: string,
+): Promise<{ expired: boolean }> {
+  const offer = await loadOffer(supabase, offerId);
+  if (!offer || !(await claimOffer(supabase, offer.id, "expired"))) {
+    return { expired: false };
+  }
+
+  console.log(`${LOG_PREFIX} Offer ${offer.id} expired`);
+  await releaseOffer(supabase, offer, "expired");
+  return { expired: true };
+}
+
+/**
+ * Read a reply to an offer text as accept (true), decline (false) or
+ * neither (null)
+ */
+export function parseWaitlistSmsReply(body: string): boolean | null {
+  const word = body
+    .trim()
+    .toUpperCase()
+    .replace(/[.!]+$/, "");
+  if (word === WAITLIST_SMS_REPLIES.accept) return true;
+  if (word === WAITLIST_SMS_REPLIES.decline) return false;
+  return null;
+}
+
+/**
+ * The pending text offer for a phone number, if any
+ * Used to treat BOOK/PASS replies as answers.
+ */
+export async function findPendingSmsOffer(
+  supabase: Supabase,
+  phone: string,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("appointment_waitlist_offers")
+    .select("id, appointment_waitlist!inner(client_phone)")
+    .eq("status", "pending")
+    .eq("channel", "sms")
+    .eq("appointment_waitlist.client_phone", phone)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load waitlist offer: ${error.message}`);
+  }
+  return data?.id ?? null;
+}
@@ -26,6 +26,42 @@ export {
   parseDateToISO,
   parseTimeToISO,
   formatTime12Hour,
+  evaluateBookingRules,
+  checkBookingRules,
+  parseBookingRuleRow,
+  type ClinicBookingRule,
+  type BookingRuleDecision,
+  type BookingRuleResult,
+  resolveAppointmentType,
+  fitAppointmentType,
+  checkAppointmentTypeFit,
+  type ClinicAppointmentType,
+  type ClinicResource,
+  type AppointmentTypeFit,
+  explainAvailability,
+  type AvailabilityExplanation,
+  type AvailabilityLayer,
+  type ExplainedSlot,
+  type ScheduleWindow,
+  processAddToWaitlist,
+  processRespondToWaitlistOffer,
+  offerWaitlistOpening,
+  respondToWaitlistOffer,
+  expireWaitlistOffer,
+  findPendingSmsOffer,
+  queueWaitlistOpening,
+  waitlistOpeningFromAppointment,
+  type WaitlistOpening,
+  type WaitlistEntry,
+  type WaitlistOfferOutcome,
+  type WaitlistResponseResult,
+  processConfirmAppointment,
+  runAppointmentReminders,
+  handleReminderCallEnd,
+  recordAppointmentConfirmation,
+  type AppointmentConfirmationStatus,
+  type ReminderOutcome,
+  type ReminderRunResult,
 } from "./appointments";
 
 // Messaging
@@ -77,6 +77,34 @@ export async function processLeaveMessage(
     isUrgent: input.is_urgent,
   });
 
+  // Send Slack notification for the callback request (fire-and-forget)
+  void (async () => {
+    try {
+      const { notifySlack } = await import("@odis-ai/integrations/slack");
+
+      notifySlack(
+        "callback_request",
+        {
+          clinicName: clinic.name,
+          callerName: input.client_name,
+          phone: input.client_phone,
+          message: fullMessage,
+          messageType: input.message_type ?? "general",
+          isUrgent: input.is_urgent,
+          petName: input.pet_name,
+          bestCallbackTime: input.best_callback_time,
+          callId: ctx.callId,
+          messageId: message.id,
+        },
+        { clinicId: clinic.id },
+      );
+    } catch (error) {
+      logger.error("Failed to send callback request Slack notification", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })();
+
   // Build response message
   let responseMessage = `Your message has been recorded and ${clinic.name} will call you back as soon as possible.`;
 
@@ -84,23 +84,23 @@ export async function processLogEmergencyTriage(
   // Send Slack notification for emergency triage (fire-and-forget)
   void (async () => {
     try {
-      const { notifySlack, isEnvSlackConfigured } =
-        await import("@odis-ai/integrations/slack");
+      const { notifySlack } = await import("@odis-ai/integrations/slack");
 
-      if (!isEnvSlackConfigured()) {
-        return;
-      }
-
-      notifySlack("emergency_triage", {
-        clinicName: clinic.name,
-        urgency: input.urgency as "critical" | "urgent" | "moderate",
-        petName: input.pet_name,
-        species: input.species,
-        symptoms: input.symptoms,
-        action: input.action_taken,
-        phone: input.caller_phone,
-        callId: ctx.callId,
-      });
+      notifySlack(
+        "emergency_triage",
+        {
+          clinicName: clinic.name,
+          urgency: input.urgency as "critical" | "urgent" | "moderate",
+          petName: input.pet_name,
+          species: input.species,
+          symptoms: input.symptoms,
+          action: input.action_taken,
+          phone: input.caller_phone,
+          callId: ctx.callId,
+          messageId: message.id,
+        },
+        { clinicId: clinic.id },
+      );
     } catch (error) {
       logger.error("Failed to send emergency triage Slack notification", {
         error: error instanceof Error ? error.message : String(error),
@@ -108,6 +108,30 @@ export async function processLogEmergencyTriage(
     }
   })();
 
+  // Push to subscribed on-call staff (fire-and-forget)
+  void (async () => {
+    try {
+      const { notifyPush } = await import("@odis-ai/integrations/push");
+
+      notifyPush(
+        "emergency_triage",
+        {
+          clinicName: clinic.name,
+          urgency: input.urgency,
+          petName: input.pet_name,
+          symptoms: input.symptoms,
+          phone: input.caller_phone,
+          messageId: message.id,
+        },
+        { clinicId: clinic.id },
+      );
+    } catch (error) {
+      logger.error("Failed to send emergency triage push notification", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })();
+
   // Build response message based on action taken
   let responseMessage: string;
   if (input.action_taken === "sent_to_er") {
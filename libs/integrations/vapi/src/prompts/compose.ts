@@ -8,6 +8,9 @@
 import { basePrompt } from "./templates/base";
 import { inboundPrompt } from "./templates/inbound";
 import { outboundDischargePrompt } from "./templates/outbound-discharge";
+import { outboundFollowupPrompt } from "./templates/outbound-followup";
+import { outboundWaitlistOfferPrompt } from "./templates/outbound-waitlist-offer";
+import { outboundAppointmentReminderPrompt } from "./templates/outbound-appointment-reminder";
 import {
   replaceVariables,
   validateVariables,
@@ -15,12 +18,19 @@ import {
   type PromptVariables,
 } from "./variables";
 
-export type CallType = "inbound" | "outbound_discharge" | "outbound_followup";
+export type CallType =
+  | "inbound"
+  | "outbound_discharge"
+  | "outbound_followup"
+  | "outbound_waitlist_offer"
+  | "outbound_appointment_reminder";
 
 const CALL_TYPE_TEMPLATES: Record<CallType, string> = {
   inbound: inboundPrompt,
   outbound_discharge: outboundDischargePrompt,
-  outbound_followup: "", // TODO: Add when needed
+  outbound_followup: outboundFollowupPrompt,
+  outbound_waitlist_offer: outboundWaitlistOfferPrompt,
+  outbound_appointment_reminder: outboundAppointmentReminderPrompt,
 };
 
 export interface ComposePromptOptions {
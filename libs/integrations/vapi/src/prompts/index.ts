@@ -51,3 +51,6 @@ export type { PromptVariables } from "./variables";
 export { basePrompt } from "./templates/base";
 export { inboundPrompt } from "./templates/inbound";
 export { outboundDischargePrompt } from "./templates/outbound-discharge";
+export { outboundFollowupPrompt } from "./templates/outbound-followup";
+export { outboundWaitlistOfferPrompt } from "./templates/outbound-waitlist-offer";
+export { outboundAppointmentReminderPrompt } from "./templates/outbound-appointment-reminder";
@@ -6,6 +6,7 @@
  */
 
 import { z } from "zod";
+import { FOLLOW_UP_CALL_REASONS } from "@odis-ai/shared/types";
 
 /**
  * All dynamic variables that can be used in prompts.
@@ -55,6 +56,23 @@ export const PromptVariablesSchema = z.object({
   recheck_required: z.string().optional(),
   recheck_date: z.string().optional(),
 
+  // Follow-up call (outbound_followup)
+  followup_reason: z.enum(FOLLOW_UP_CALL_REASONS).optional(),
+  days_since_visit: z.string().optional(),
+  lab_results_summary: z.string().optional(),
+  medication_names: z.string().optional(),
+
+  // Waitlist offer call (outbound_waitlist_offer)
+  offer_id: z.string().optional(),
+  appointment_slot: z.string().optional(),
+  appointment_type: z.string().optional(),
+  hold_minutes: z.string().optional(),
+
+  // Reminder call (outbound_appointment_reminder)
+  appointment_id: z.string().optional(),
+  client_phone: z.string().optional(),
+  provider_name: z.string().optional(),
+
   // Assessment intelligence (outbound)
   should_ask_clinical_questions: z.string().optional(),
   call_approach: z.string().optional(),
@@ -32,6 +32,14 @@ export const CheckAvailabilitySchema = z.object({
 
   // Optional: include blocked times in response
   include_blocked: z.boolean().optional().default(false),
+
+  // Optional: visit details so the clinic's booking rules can be applied
+  is_new_client: z.boolean().optional(),
+  species: z.string().optional(),
+  reason: z.string().optional(),
+
+  // Optional: clinic appointment type (name or description, e.g. "dental")
+  appointment_type: z.string().optional(),
 });
 
 export type CheckAvailabilityInput = z.infer<typeof CheckAvailabilitySchema>;
@@ -80,7 +88,8 @@ export const BookAppointmentSchema = z.object({
 
   // Visit details
   reason: z.string().optional(),
-  is_new_client: z.boolean().optional().default(false),
+  appointment_type: z.string().optional(),
+  is_new_client: z.boolean().optional(),
 });
 
 export type BookAppointmentInput = z.infer<typeof BookAppointmentSchema>;
@@ -246,8 +255,84 @@ export const CheckAvailabilityRangeSchema = z.object({
 
   // Optional: specific start date (YYYY-MM-DD, defaults to today)
   start_date: z.string().optional(),
+
+  // Optional: clinic appointment type (name or description, e.g. "dental")
+  appointment_type: z.string().optional(),
 });
 
 export type CheckAvailabilityRangeInput = z.infer<
   typeof CheckAvailabilityRangeSchema
 >;
+
+/* ========================================
+   Waitlist
+   ======================================== */
+
+/**
+ * Schema: add_to_waitlist
+ *
+ * Put a caller on the clinic's cancellation waitlist. If a matching slot
+ * opens, they're called or texted with an offer.
+ * Dates support natural language; one date alone opens a 30-day range.
+ */
+export const AddToWaitlistSchema = z.object({
+  // VAPI context
+  assistant_id: z.string().optional(),
+  clinic_id: z.string().uuid().optional(),
+  vapi_call_id: z.string().optional(),
+
+  // Client info
+  client_name: z.string().min(1, "client_name is required"),
+  client_phone: z.string().min(1, "client_phone is required"),
+
+  // Patient info
+  patient_name: z.string().min(1, "patient_name is required"),
+  species: z.string().optional(),
+
+  // Visit details
+  reason: z.string().optional(),
+  appointment_type: z.string().optional(),
+  is_new_client: z.boolean().optional(),
+
+  // Preferred dates (omit both for any day)
+  earliest_date: z.string().optional(),
+  latest_date: z.string().optional(),
+
+  // How to reach them when a slot opens
+  contact_method: z.enum(["call", "sms"]).optional().default("call"),
+});
+
+export type AddToWaitlistInput = z.infer<typeof AddToWaitlistSchema>;
+
+/**
+ * Schema: respond_to_waitlist_offer
+ *
+ * Used by the waitlist offer assistant to record the client's answer.
+ * offer_id is passed to the call as a variable.
+ */
+export const RespondToWaitlistOfferSchema = z.object({
+  offer_id: z.string().uuid("offer_id must be the offer's id"),
+  accepted: z.boolean(),
+});
+
+export type RespondToWaitlistOfferInput = z.infer<
+  typeof RespondToWaitlistOfferSchema
+>;
+
+/* ========================================
+   Reminders
+   ======================================== */
+
+/**
+ * Schema: confirm_appointment
+ *
+ * Used by the reminder assistant to record that the client will attend.
+ * appointment_id is passed to the call as a variable.
+ */
+export const ConfirmAppointmentSchema = z.object({
+  appointment_id: z
+    .string()
+    .uuid("appointment_id must be the appointment's id"),
+});
+
+export type ConfirmAppointmentInput = z.infer<typeof ConfirmAppointmentSchema>;
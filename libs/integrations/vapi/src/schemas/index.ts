@@ -24,6 +24,9 @@ export {
   VerifyAppointmentSchema,
   CancelAppointmentSchema,
   RescheduleAppointmentSchema,
+  AddToWaitlistSchema,
+  RespondToWaitlistOfferSchema,
+  ConfirmAppointmentSchema,
   type CheckAvailabilityInput,
   type CheckAvailabilityRangeInput,
   type BookAppointmentInput,
@@ -31,6 +34,9 @@ export {
   type VerifyAppointmentResult,
   type CancelAppointmentInput,
   type RescheduleAppointmentInput,
+  type AddToWaitlistInput,
+  type RespondToWaitlistOfferInput,
+  type ConfirmAppointmentInput,
   type AvailableSlot,
   type BookingResult,
 } from "./appointments";
@@ -78,6 +84,8 @@ export {
   OwnerSentimentSchema,
   EscalationSchema,
   FollowUpSchema,
+  FollowUpCheckInReasonEnum,
+  FollowUpCheckInSchema,
   AttentionClassificationSchema,
   STRUCTURED_OUTPUT_NAMES,
   type CallOutcome,
@@ -86,6 +94,7 @@ export {
   type OwnerSentiment,
   type Escalation,
   type FollowUp,
+  type FollowUpCheckIn,
   type AttentionClassification,
   type StructuredOutputName,
 } from "./structured-outputs";
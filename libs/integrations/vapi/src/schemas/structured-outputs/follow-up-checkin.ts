@@ -0,0 +1,89 @@
+/**
+ * Follow-Up Check-In Structured Output Schema
+ *
+ * Captures the outcome of a post-visit follow-up call (recheck, suture
+ * removal, lab results, medication course complete).
+ */
+
+import { z } from "zod";
+import { FOLLOW_UP_CALL_REASONS } from "@odis-ai/shared/types";
+
+export const FollowUpCheckInReasonEnum = z.enum(FOLLOW_UP_CALL_REASONS);
+
+export const FollowUpCheckInSchema = z.object({
+  checkin_reason: FollowUpCheckInReasonEnum.describe(
+    "Reason the follow-up call was placed",
+  ),
+
+  checkin_completed: z
+    .boolean()
+    .describe("Whether the owner was reached and the check-in was completed"),
+
+  pet_status: z
+    .enum(["improved", "same", "worse", "resolved", "unknown"])
+    .optional()
+    .describe("How the pet is doing compared to the visit"),
+
+  // Recheck
+  recheck_booked: z
+    .boolean()
+    .optional()
+    .describe("Whether a recheck appointment was booked or confirmed"),
+
+  recheck_declined_reason: z
+    .string()
+    .optional()
+    .describe("Why the owner did not want to book the recheck"),
+
+  // Suture removal
+  incision_status: z
+    .enum([
+      "healing_well",
+      "redness_or_swelling",
+      "discharge",
+      "open",
+      "unknown",
+    ])
+    .optional()
+    .describe("Owner-reported state of the incision"),
+
+  sutures_removed: z
+    .boolean()
+    .optional()
+    .describe("Whether the sutures have already been removed"),
+
+  // Lab results
+  lab_results_delivered: z
+    .boolean()
+    .optional()
+    .describe("Whether the lab results summary was relayed to the owner"),
+
+  owner_questions: z
+    .array(z.string())
+    .optional()
+    .describe("Questions the owner asked that need a doctor's answer"),
+
+  // Medication course complete
+  medication_course_completed: z
+    .boolean()
+    .optional()
+    .describe("Whether the full medication course was given"),
+
+  doses_missed: z
+    .boolean()
+    .optional()
+    .describe("Whether the owner reported missed doses"),
+
+  leftover_medication: z
+    .boolean()
+    .optional()
+    .describe("Whether medication is left over"),
+
+  needs_vet_callback: z
+    .boolean()
+    .describe("Whether a doctor or staff member should call the owner back"),
+
+  callback_reason: z.string().optional().describe("Why a callback is needed"),
+});
+
+export type FollowUpCheckIn = z.infer<typeof FollowUpCheckInSchema>;
@@ -16,6 +16,11 @@ export {
 export { OwnerSentimentSchema, type OwnerSentiment } from "./owner-sentiment";
 export { EscalationSchema, type Escalation } from "./escalation";
 export { FollowUpSchema, type FollowUp } from "./follow-up";
+export {
+  FollowUpCheckInReasonEnum,
+  FollowUpCheckInSchema,
+  type FollowUpCheckIn,
+} from "./follow-up-checkin";
 export {
   AttentionClassificationSchema,
   type AttentionClassification,
@@ -31,6 +36,7 @@ export const STRUCTURED_OUTPUT_NAMES = {
   OWNER_SENTIMENT: "owner_sentiment",
   ESCALATION: "escalation_tracking",
   FOLLOW_UP: "follow_up_status",
+  FOLLOW_UP_CHECKIN: "follow_up_checkin",
   ACTION_CARD: "action_card_output",
   ATTENTION: "attention_classification",
 } as const;
@@ -5,6 +5,7 @@
  */
 
 import { z } from "zod";
+import { URGENCY_LEVELS } from "@odis-ai/shared/types/triage";
 
 /* ========================================
    Enums
@@ -19,7 +20,7 @@ export type Species = z.infer<typeof SpeciesEnum>;
 /**
  * Urgency level for emergency triage
  */
-export const UrgencyLevelEnum = z.enum(["critical", "urgent", "monitor"]);
+export const UrgencyLevelEnum = z.enum(URGENCY_LEVELS);
 export type UrgencyLevel = z.infer<typeof UrgencyLevelEnum>;
 
 /**
@@ -0,0 +1,190 @@
+/**
+ * Tests for the push notifier background job
+ *
+ * Covers which push notification types an ended call produces, and that
+ * nothing is sent without a clinic.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const { notifyPush, getClinicByUserId, getClinicByInboundAssistantId } =
+  vi.hoisted(() => ({
+    notifyPush: vi.fn(),
+    getClinicByUserId: vi.fn(),
+    getClinicByInboundAssistantId: vi.fn(),
+  }));
+
+vi.mock("../../../../../push/src/index", () => ({ notifyPush }));
+vi.mock("../../../../../../domain/clinics/util/src/clinic-lookup", () => ({
+  getClinicByUserId,
+}));
+vi.mock("../../../../../../domain/clinics/util/src/index", () => ({
+  getClinicByInboundAssistantId,
+}));
+
+import {
+  notifyInboundCallPush,
+  notifyOutboundCallPush,
+  type CallPushNotificationOptions,
+} from "../push-notifier";
+
+const clinic = { id: "clinic-1", name: "Alum Rock" };
+
+function options(
+  updateData: Record<string, unknown>,
+): CallPushNotificationOptions {
+  return {
+    vapiCallId: "call-1",
+    updateData,
+    petName: "Max",
+    ownerName: "Jane Smith",
+    supabase: {} as SupabaseClient,
+  };
+}
+
+/**
+ * Let the fire-and-forget work settle
+ */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+function sentTypes(): string[] {
+  return notifyPush.mock.calls.map(([type]) => type as string);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getClinicByUserId.mockResolvedValue(clinic);
+  getClinicByInboundAssistantId.mockResolvedValue(clinic);
+});
+
+describe("notifyOutboundCallPush", () => {
+  it("sends attention_case for urgent and critical severities", async () => {
+    notifyOutboundCallPush(
+      options({
+        attention_severity: "critical",
+        attention_types: ["health_concern"],
+        attention_summary: "Incision is bleeding",
+      }),
+      "user-1",
+      "case-1",
+    );
+    await flush();
+
+    expect(notifyPush).toHaveBeenCalledTimes(1);
+    expect(notifyPush).toHaveBeenCalledWith(
+      "attention_case",
+      expect.objectContaining({
+        clinicName: "Alum Rock",
+        severity: "critical",
+        direction: "outbound",
+        attentionTypes: ["health_concern"],
+        summary: "Incision is bleeding",
+        caseId: "case-1",
+      }),
+      { clinicId: "clinic-1" },
+    );
+  });
+
+  it("sends call_failed for failed calls", async () => {
+    notifyOutboundCallPush(
+      options({ status: "failed", ended_reason: "customer-did-not-answer" }),
+      "user-1",
+      "case-1",
+    );
+    await flush();
+
+    expect(sentTypes()).toEqual(["call_failed"]);
+    expect(notifyPush).toHaveBeenCalledWith(
+      "call_failed",
+      expect.objectContaining({
+        endedReason: "customer-did-not-answer",
+        caseId: "case-1",
+      }),
+      { clinicId: "clinic-1" },
+    );
+  });
+
+  it("sends both when a failed call was also flagged", async () => {
+    notifyOutboundCallPush(
+      options({ status: "failed", attention_severity: "urgent" }),
+      "user-1",
+      "case-1",
+    );
+    await flush();
+
+    expect(sentTypes()).toEqual(["attention_case", "call_failed"]);
+  });
+
+  it("ignores routine severities and completed calls", async () => {
+    notifyOutboundCallPush(
+      options({ status: "completed", attention_severity: "routine" }),
+      "user-1",
+      "case-1",
+    );
+    await flush();
+
+    expect(getClinicByUserId).not.toHaveBeenCalled();
+    expect(notifyPush).not.toHaveBeenCalled();
+  });
+
+  it("skips calls without an owner or clinic", async () => {
+    notifyOutboundCallPush(options({ status: "failed" }), null, "case-1");
+    await flush();
+    expect(getClinicByUserId).not.toHaveBeenCalled();
+
+    getClinicByUserId.mockResolvedValue(null);
+    notifyOutboundCallPush(options({ status: "failed" }), "user-1", "case-1");
+    await flush();
+    expect(notifyPush).not.toHaveBeenCalled();
+  });
+});
+
+describe("notifyInboundCallPush", () => {
+  it("sends attention_case without a case link", async () => {
+    notifyInboundCallPush(
+      options({ attention_severity: "urgent", attention_types: [] }),
+      "assistant-1",
+    );
+    await flush();
+
+    expect(getClinicByInboundAssistantId).toHaveBeenCalledWith(
+      "assistant-1",
+      expect.anything(),
+    );
+    expect(notifyPush).toHaveBeenCalledWith(
+      "attention_case",
+      expect.objectContaining({ direction: "inbound", severity: "urgent" }),
+      { clinicId: "clinic-1" },
+    );
+    expect(notifyPush.mock.calls[0]?.[1]).not.toHaveProperty("caseId");
+  });
+
+  it("never sends call_failed for inbound calls", async () => {
+    notifyInboundCallPush(options({ status: "failed" }), "assistant-1");
+    await flush();
+
+    expect(notifyPush).not.toHaveBeenCalled();
+  });
+
+  it("skips calls without an assistant or clinic", async () => {
+    notifyInboundCallPush(
+      options({ attention_severity: "critical" }),
+      undefined,
+    );
+    await flush();
+    expect(getClinicByInboundAssistantId).not.toHaveBeenCalled();
+
+    getClinicByInboundAssistantId.mockResolvedValue(null);
+    notifyInboundCallPush(
+      options({ attention_severity: "critical" }),
+      "assistant-1",
+    );
+    await flush();
+    expect(notifyPush).not.toHaveBeenCalled();
+  });
+});
@@ -29,5 +29,12 @@ export {
   type AppointmentNotificationOptions,
 } from "./slack-notifier";
 
+// Push notifications
+export {
+  notifyInboundCallPush,
+  notifyOutboundCallPush,
+  type CallPushNotificationOptions,
+} from "./push-notifier";
+
 // Pipeline error alerting
 export { alertPipelineError, isPipelineError } from "./pipeline-error-alerter";
@@ -0,0 +1,171 @@
+/**
+ * Push Notifier Background Job
+ *
+ * Sends mobile push notifications for ended calls that need staff
+ * attention: urgent/critical attention cases and outbound discharge calls
+ * that failed after all retries.
+ *
+ * @module vapi/webhooks/background-jobs/push-notifier
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loggers } from "@odis-ai/shared/logger";
+
+const logger = loggers.webhook.child("push-notifier");
+
+/**
+ * Severities that page staff on their phones
+ */
+const PUSH_ATTENTION_SEVERITIES = ["urgent", "critical"] as const;
+
+type PushAttentionSeverity = (typeof PUSH_ATTENTION_SEVERITIES)[number];
+
+/**
+ * Options for call push notifications
+ */
+export interface CallPushNotificationOptions {
+  /** VAPI call ID (for logging) */
+  vapiCallId: string;
+  /** Update data saved for the call (status and attention fields) */
+  updateData: Record<string, unknown>;
+  /** Pet and owner names from the call context */
+  petName: string | null;
+  ownerName: string | null;
+  /** Supabase client */
+  supabase: SupabaseClient;
+}
+
+function getPushSeverity(
+  updateData: Record<string, unknown>,
+): PushAttentionSeverity | null {
+  const severity = updateData.attention_severity;
+  return PUSH_ATTENTION_SEVERITIES.find((s) => s === severity) ?? null;
+}
+
+/**
+ * Send push notifications for an ended outbound call
+ *
+ * Fire-and-forget. Resolves the clinic from the call's owner.
+ *
+ * @param options - Notification options
+ * @param userId - Owner of the outbound call
+ * @param caseId - Discharge case, used for the deep link
+ */
+export function notifyOutboundCallPush(
+  options: CallPushNotificationOptions,
+  userId: string | null | undefined,
+  caseId: string | null | undefined,
+): void {
+  const { vapiCallId, updateData, petName, ownerName, supabase } = options;
+  const severity = getPushSeverity(updateData);
+  const failed = updateData.status === "failed";
+
+  if ((!severity && !failed) || !userId) {
+    return;
+  }
+
+  void (async () => {
+    try {
+      // Dynamic import due to module boundary
+      const { getClinicByUserId } =
+        await import("@odis-ai/domain/clinics/clinic-lookup");
+      const clinic = await getClinicByUserId(userId, supabase);
+      if (!clinic) {
+        logger.debug("No clinic for outbound call push", { vapiCallId });
+        return;
+      }
+
+      const { notifyPush } = await import("@odis-ai/integrations/push");
+
+      if (severity) {
+        notifyPush(
+          "attention_case",
+          {
+            clinicName: clinic.name,
+            severity,
+            direction: "outbound",
+            attentionTypes: (updateData.attention_types as string[]) ?? [],
+            summary: (updateData.attention_summary as string) ?? undefined,
+            petName: petName ?? undefined,
+            ownerName: ownerName ?? undefined,
+            caseId: caseId ?? undefined,
+          },
+          { clinicId: clinic.id },
+        );
+      }
+
+      if (failed) {
+        notifyPush(
+          "call_failed",
+          {
+            clinicName: clinic.name,
+            petName: petName ?? undefined,
+            ownerName: ownerName ?? undefined,
+            endedReason: (updateData.ended_reason as string) ?? undefined,
+            caseId: caseId ?? undefined,
+          },
+          { clinicId: clinic.id },
+        );
+      }
+    } catch (error) {
+      logger.error("Failed to send outbound call push notification", {
+        vapiCallId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })();
+}
+
+/**
+ * Send push notifications for an ended inbound call
+ *
+ * Fire-and-forget. Resolves the clinic from the inbound assistant.
+ *
+ * @param options - Notification options
+ * @param assistantId - VAPI assistant ID (used to determine which clinic)
+ */
+export function notifyInboundCallPush(
+  options: CallPushNotificationOptions,
+  assistantId: string | undefined,
+): void {
+  const { vapiCallId, updateData, petName, ownerName, supabase } = options;
+  const severity = getPushSeverity(updateData);
+
+  if (!severity || !assistantId) {
+    return;
+  }
+
+  void (async () => {
+    try {
+      // Dynamic import to avoid circular dependencies
+      const { getClinicByInboundAssistantId } =
+        await import("@odis-ai/domain/clinics");
+      const clinic = await getClinicByInboundAssistantId(assistantId, supabase);
+      if (!clinic) {
+        logger.debug("No clinic for inbound call push", { vapiCallId });
+        return;
+      }
+
+      const { notifyPush } = await import("@odis-ai/integrations/push");
+
+      notifyPush(
+        "attention_case",
+        {
+          clinicName: clinic.name,
+          severity,
+          direction: "inbound",
+          attentionTypes: (updateData.attention_types as string[]) ?? [],
+          summary: (updateData.attention_summary as string) ?? undefined,
+          petName: petName ?? undefined,
+          ownerName: ownerName ?? undefined,
+        },
+        { clinicId: clinic.id },
+      );
+    } catch (error) {
+      logger.error("Failed to send inbound call push notification", {
+        vapiCallId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })();
+}
@@ -17,6 +17,7 @@ const logger = loggers.webhook.child("slack-notifier");
  */
 interface VapiBooking {
   id: string;
+  clinic_id: string | null;
   client_name: string;
   patient_name: string;
   date: string;
@@ -67,7 +68,8 @@ async function getClinicNameFromAssistant(
  * Send Slack notification for appointment booking
  *
  * This is a fire-and-forget operation that runs in the background.
- * Sends notifications for all clinics to the ODIS team Slack.
+ * Follows the clinic's Slack routing when it has one; otherwise sends to
+ * the ODIS team Slack.
  *
  * @param options - Notification options
  */
@@ -119,34 +121,28 @@ export function notifyAppointmentBookedBackground(
       });
 
       // Dynamic import to avoid circular dependencies
-      const { notifySlack, isEnvSlackConfigured } =
-        await import("@odis-ai/integrations/slack");
-
-      // Check if Slack is configured
-      if (!isEnvSlackConfigured()) {
-        logger.debug("Slack not configured, skipping notification", {
-          vapiCallId,
-          bookingId: booking.id,
-        });
-        return;
-      }
+      const { notifySlack } = await import("@odis-ai/integrations/slack");
 
       const vapiBooking = booking as VapiBooking;
 
       // Send notification using generic service
-      notifySlack("appointment_booked", {
-        clinicName,
-        clientName: vapiBooking.client_name,
-        petName: vapiBooking.patient_name,
-        date: vapiBooking.date,
-        time: vapiBooking.start_time,
-        phone: vapiBooking.client_phone,
-        reason: vapiBooking.reason ?? undefined,
-        species: vapiBooking.species ?? undefined,
-        breed: vapiBooking.breed ?? undefined,
-        isNewClient: vapiBooking.is_new_client ?? undefined,
-        bookingId: vapiBooking.id,
-      });
+      notifySlack(
+        "appointment_booked",
+        {
+          clinicName,
+          clientName: vapiBooking.client_name,
+          petName: vapiBooking.patient_name,
+          date: vapiBooking.date,
+          time: vapiBooking.start_time,
+          phone: vapiBooking.client_phone,
+          reason: vapiBooking.reason ?? undefined,
+          species: vapiBooking.species ?? undefined,
+          breed: vapiBooking.breed ?? undefined,
+          isNewClient: vapiBooking.is_new_client ?? undefined,
+          bookingId: vapiBooking.id,
+        },
+        { clinicId: vapiBooking.clinic_id ?? undefined },
+      );
 
       logger.info("Slack notification queued", {
         vapiCallId,
@@ -32,6 +32,7 @@ import {
   cleanInboundTranscript,
   extractAppointmentDateFromTranscript,
   notifyAppointmentBooked,
+  notifyInboundCallPush,
 } from "../../background-jobs";
 import type { ExistingCallRecord } from "../inbound-call-helpers";
 import { mapInboundCallToUser } from "../../../inbound-calls";
@@ -168,6 +169,16 @@ export async function handleInboundCallEnd(
   );
   extractAppointmentDateFromTranscript(call.id, callData.transcript, supabase);
   notifyAppointmentBooked(call.id, call.assistantId, supabase);
+  notifyInboundCallPush(
+    {
+      vapiCallId: call.id,
+      updateData,
+      petName: inboundCallContext.petName,
+      ownerName: inboundCallContext.ownerName,
+      supabase,
+    },
+    call.assistantId,
+  );
 }
 
 /**
@@ -10,6 +10,8 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { loggers } from "@odis-ai/shared/logger";
+import type { DailyHours } from "@odis-ai/shared/types";
+import type { CallRetryPolicy } from "@odis-ai/shared/validators";
 import type {
   EndOfCallReportMessage,
   VapiAnalysis,
@@ -18,17 +20,22 @@ import type {
 } from "../../types";
 import {
   calculateDuration,
-  calculateRetryDelay,
+  calculateNextRetryAt,
   calculateTotalCost,
-  DEFAULT_MAX_RETRIES,
   extractSentiment,
   mapEndedReasonToStatus,
+  resolveRetryPolicy,
   shouldRetry,
+  type RetryScheduleContext,
 } from "../../utils";
 import { parseAllStructuredOutputs } from "../../processors";
 import { handleOutboundAttentionCase } from "../../processors/attention-handler";
-import { cleanOutboundTranscript } from "../../background-jobs";
+import {
+  cleanOutboundTranscript,
+  notifyOutboundCallPush,
+} from "../../background-jobs";
 import type { ExistingCallRecord } from "../inbound-call-helpers";
+import { handleReminderCallEnd } from "../../../processors/appointments/reminders";
 
 const logger = loggers.webhook.child("outbound-processor");
 
@@ -39,9 +46,10 @@ const logger = loggers.webhook.child("outbound-processor");
  * 1. Calculates duration and cost
  * 2. Determines final status
  * 3. Extracts all call data
- * 4. Handles retry logic for failed calls
+ * 4. Handles retry logic for failed calls (per the clinic's retry policy)
  * 5. Updates the database
- * 6. Triggers background transcript cleaning
+ * 6. Records the outcome of appointment reminder calls once no retry is queued
+ * 7. Triggers background transcript cleaning and push notifications
  *
  * @param call - Enriched VAPI call object
  * @param message - End-of-call report message
@@ -127,9 +135,27 @@ export async function handleOutboundCallEnd(
     supabase,
   );
 
-  // Handle retry logic for failed calls
-  if (finalStatus === "failed" && shouldRetry(call.endedReason, metadata)) {
-    await handleRetryLogic(call, existingCall, updateData, metadata);
+  // Handle retry logic for failed calls (and voicemail, if the clinic opted in)
+  const reachedVoicemail =
+    call.endedReason?.toLowerCase().includes("voicemail") ?? false;
+  if (finalStatus === "failed" || reachedVoicemail) {
+    const { policy, schedule } = await loadRetryContext(
+      existingCall,
+      metadata,
+      supabase,
+    );
+
+    if (shouldRetry(call.endedReason, metadata, policy)) {
+      await handleRetryLogic(
+        call,
+        existingCall,
+        updateData,
+        metadata,
+        policy,
+        schedule,
+        reachedVoicemail,
+      );
+    }
   }
 
   // Save to database
@@ -146,6 +172,24 @@ export async function handleOutboundCallEnd(
     return;
   }
 
+  const reminderId = metadata.reminder_id;
+  if (typeof reminderId === "string" && updateData.status !== "queued") {
+    try {
+      await handleReminderCallEnd(supabase, {
+        reminderId,
+        vapiCallId: call.id,
+        endedReason: call.endedReason ?? null,
+        reachedClient: finalStatus !== "failed" && !reachedVoicemail,
+      });
+    } catch (error) {
+      logger.error("Failed to record reminder call outcome", {
+        callId: call.id,
+        reminderId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   // Clean transcript in background (fire-and-forget)
   cleanOutboundTranscript(
     transcript,
@@ -154,6 +198,19 @@ export async function handleOutboundCallEnd(
     call.id,
     supabase,
   );
+
+  // Push attention cases and final failures to on-call staff (fire-and-forget)
+  notifyOutboundCallPush(
+    {
+      vapiCallId: call.id,
+      updateData,
+      petName: callContext.petName,
+      ownerName: callContext.ownerName,
+      supabase,
+    },
+    existingCall.user_id,
+    existingCall.case_id,
+  );
 }
 
 /**
@@ -195,6 +252,7 @@ function buildOutboundUpdateData(
     owner_sentiment_data: structuredOutputs.ownerSentiment,
     escalation_data: structuredOutputs.escalation,
     follow_up_data: structuredOutputs.followUp,
+    follow_up_checkin_data: structuredOutputs.followUpCheckIn,
     // Metadata
     metadata: {
       ...metadata,
@@ -205,6 +263,54 @@ function buildOutboundUpdateData(
   };
 }
 
+/**
+ * Load the clinic's retry policy and schedule for an outbound call
+ *
+ * Falls back to the default policy (with the call's max_retries) when the
+ * clinic can't be resolved or has no policy configured.
+ */
+async function loadRetryContext(
+  existingCall: ExistingCallRecord,
+  metadata: Record<string, unknown>,
+  supabase: SupabaseClient,
+): Promise<{ policy: CallRetryPolicy; schedule?: RetryScheduleContext }> {
+  if (!existingCall.user_id) {
+    return { policy: resolveRetryPolicy(null, metadata) };
+  }
+
+  try {
+    // Dynamic import due to module boundary
+    const { getClinicByUserId } =
+      await import("@odis-ai/domain/clinics/clinic-lookup");
+
+    const clinic = await getClinicByUserId(existingCall.user_id, supabase);
+    if (!clinic) {
+      return { policy: resolveRetryPolicy(null, metadata) };
+    }
+
+    const policy = resolveRetryPolicy(clinic.call_retry_policy, metadata);
+
+    const { data: scheduleConfig } = await supabase
+      .from("clinic_schedule_config")
+      .select("timezone, daily_hours")
+      .eq("clinic_id", clinic.id)
+      .maybeSingle();
+
+    const schedule: RetryScheduleContext = {
+      timezone: scheduleConfig?.timezone ?? "America/Los_Angeles",
+      dailyHours: (scheduleConfig?.daily_hours as DailyHours | null) ?? null,
+    };
+
+    return { policy, schedule };
+  } catch (error) {
+    logger.warn("Failed to load clinic retry policy - using defaults", {
+      dbId: existingCall.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { policy: resolveRetryPolicy(null, metadata) };
+  }
+}
+
 /**
  * Handle retry logic for failed calls
  */
@@ -213,13 +319,19 @@ async function handleRetryLogic(
   existingCall: ExistingCallRecord,
   updateData: Record<string, unknown>,
   metadata: Record<string, unknown>,
+  policy: CallRetryPolicy,
+  schedule: RetryScheduleContext | undefined,
+  reachedVoicemail: boolean,
 ): Promise<void> {
   const retryCount = (metadata.retry_count as number) ?? 0;
-  const maxRetries = (metadata.max_retries as number) ?? DEFAULT_MAX_RETRIES;
+  const maxRetries = policy.maxRetries;
 
   if (retryCount < maxRetries) {
-    const delayMinutes = calculateRetryDelay(retryCount);
-    const nextRetryAt = new Date(Date.now() + delayMinutes * 60 * 1000);
+    const now = new Date();
+    const nextRetryAt = calculateNextRetryAt(now, retryCount, policy, schedule);
+    const delayMinutes = Math.round(
+      (nextRetryAt.getTime() - now.getTime()) / 60000,
+    );
 
     logger.info("Scheduling retry", {
       callId: call.id,
@@ -268,7 +380,7 @@ async function handleRetryLogic(
             ? qstashError.message
             : String(qstashError),
       });
-      updateData.status = "failed";
+      updateData.status = reachedVoicemail ? "completed" : "failed";
     }
   } else {
     logger.info("Max retries reached", {
@@ -278,6 +390,9 @@ async function handleRetryLogic(
       maxRetries,
     });
 
+    // A voicemail was left, so the call still counts as completed
+    if (reachedVoicemail) return;
+
     updateData.status = "failed";
     updateData.metadata = {
       ...metadata,
@@ -136,6 +136,8 @@ export interface ExistingCallRecord {
   id: string;
   metadata: unknown;
   case_id?: string | null;
+  /** Owner of the outbound call; used to resolve the clinic retry policy */
+  user_id?: string | null;
   /** Existing structured_data from tool calls (e.g., book_appointment stores correct dates here) */
   structured_data?: Record<string, unknown> | null;
   /** Tool-set outcome from during the call (e.g., cancel_appointment sets "Cancelled") */
@@ -155,13 +157,13 @@ export async function fetchExistingCall(
   tableName: string,
   supabase: SupabaseClient,
 ): Promise<ExistingCallRecord | null> {
-  // Only select case_id for outbound calls (scheduled_discharge_calls has it, inbound_vapi_calls doesn't)
+  // Only select case_id/user_id for outbound calls (scheduled_discharge_calls has them, inbound_vapi_calls doesn't)
   const isOutbound = tableName === "scheduled_discharge_calls";
 
   if (isOutbound) {
     const { data, error } = await supabase
       .from(tableName)
-      .select("id, metadata, case_id")
+      .select("id, metadata, case_id, user_id")
       .eq("vapi_call_id", vapiCallId)
       .single();
 
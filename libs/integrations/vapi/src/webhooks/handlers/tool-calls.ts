@@ -31,6 +31,12 @@ const KNOWN_TOOLS = [
   "check_availability",
   "check_availability_range",
   "book_appointment",
+  "confirm_appointment",
+  "cancel_appointment",
+  "reschedule_appointment",
+  // Waitlist tools
+  "add_to_waitlist",
+  "respond_to_waitlist_offer",
   // Messaging tools
   "leave_message",
   // Info tools
@@ -90,6 +90,8 @@ export interface ParsedStructuredOutputs {
   escalation: Record<string, unknown> | null;
   /** Follow-up scheduling data */
   followUp: Record<string, unknown> | null;
+  /** Follow-up call check-in (follow-up calls only) */
+  followUpCheckIn: Record<string, unknown> | null;
 }
 
 /**
@@ -104,6 +106,7 @@ export const STRUCTURED_OUTPUT_SCHEMAS = {
   OWNER_SENTIMENT: "owner_sentiment",
   ESCALATION: "escalation_tracking",
   FOLLOW_UP: "follow_up_status",
+  FOLLOW_UP_CHECKIN: "follow_up_checkin",
   ATTENTION_CLASSIFICATION: "attention_classification",
 } as const;
 
@@ -250,6 +253,12 @@ export function extractStructuredOutputByName(
     ) {
       return output;
     }
+    if (
+      schemaName === STRUCTURED_OUTPUT_SCHEMAS.FOLLOW_UP_CHECKIN &&
+      "checkin_reason" in output
+    ) {
+      return output;
+    }
   }
 
   return null;
@@ -296,6 +305,10 @@ export function parseAllStructuredOutputs(
       structuredOutputs,
       STRUCTURED_OUTPUT_SCHEMAS.FOLLOW_UP,
     ),
+    followUpCheckIn: extractStructuredOutputByName(
+      structuredOutputs,
+      STRUCTURED_OUTPUT_SCHEMAS.FOLLOW_UP_CHECKIN,
+    ),
   };
 }
 
@@ -317,6 +330,7 @@ export function logStructuredOutputAvailability(
     hasOwnerSentiment: !!outputs.ownerSentiment,
     hasEscalation: !!outputs.escalation,
     hasFollowUp: !!outputs.followUp,
+    hasFollowUpCheckIn: !!outputs.followUpCheckIn,
     hasAttentionClassification:
       Object.keys(outputs.attentionClassification).length > 0,
   });
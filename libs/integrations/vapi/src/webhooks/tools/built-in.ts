@@ -15,12 +15,24 @@ import {
   processCheckAvailability,
   processCheckAvailabilityRange,
   processBookAppointment,
+  processAddToWaitlist,
+  processRespondToWaitlistOffer,
+  processConfirmAppointment,
+  processCancelAppointment,
+  processRescheduleAppointment,
 } from "../../processors/appointments";
 import { processLeaveMessage } from "../../processors/messaging";
 import { processLogEmergencyTriage } from "../../processors/triage";
 import { LeaveMessageSchema } from "../../schemas/messaging";
 import { LogEmergencyTriageSchema } from "../../schemas/triage";
-import { BookAppointmentSchema } from "../../schemas/appointments";
+import {
+  AddToWaitlistSchema,
+  BookAppointmentSchema,
+  CancelAppointmentSchema,
+  ConfirmAppointmentSchema,
+  RescheduleAppointmentSchema,
+  RespondToWaitlistOfferSchema,
+} from "../../schemas/appointments";
 
 const logger = loggers.webhook.child("built-in-tools");
 
@@ -211,11 +223,17 @@ export function registerBuiltInTools(): void {
   // Check appointment availability tool
   registerTool({
     name: "check_availability",
-    description: "Check appointment availability for a specific date",
+    description:
+      "Check appointment availability for a specific date. Pass is_new_client, species and reason when known so the clinic's booking rules apply, and appointment_type so only times long enough for the visit are offered.",
     handler: async (params, context) => {
-      const { date } = params as {
-        date?: string;
-      };
+      const { date, is_new_client, species, reason, appointment_type } =
+        params as {
+          date?: string;
+          is_new_client?: boolean;
+          species?: string;
+          reason?: string;
+          appointment_type?: string;
+        };
 
       logger.info("Check availability called", {
         callId: context.callId,
@@ -246,7 +264,14 @@ export function registerBuiltInTools(): void {
 
       // Call the processor directly (no HTTP roundtrip)
       const result = await processCheckAvailability(
-        { date, include_blocked: false },
+        {
+          date,
+          include_blocked: false,
+          is_new_client,
+          species,
+          reason,
+          appointment_type,
+        },
         {
           callId: context.callId,
           toolCallId: context.toolCallId,
@@ -274,8 +299,9 @@ export function registerBuiltInTools(): void {
     description:
       "Check appointment availability for the next 1-14 days. Returns which days have openings and the first available times.",
     handler: async (params, context) => {
-      const { days_ahead = 14 } = params as {
+      const { days_ahead = 14, appointment_type } = params as {
         days_ahead?: number;
+        appointment_type?: string;
       };
 
       logger.info("Check availability range called", {
@@ -299,7 +325,10 @@ export function registerBuiltInTools(): void {
 
       // Call the processor directly (no HTTP roundtrip)
       const result = await processCheckAvailabilityRange(
-        { days_ahead: Math.min(Math.max(1, days_ahead), 14) },
+        {
+          days_ahead: Math.min(Math.max(1, days_ahead), 14),
+          appointment_type,
+        },
         {
           callId: context.callId,
           toolCallId: context.toolCallId,
@@ -321,6 +350,278 @@ export function registerBuiltInTools(): void {
     },
   });
 
+  // Add to waitlist tool - offers the caller a slot if one opens up
+  registerTool({
+    name: "add_to_waitlist",
+    description:
+      "Add the caller to the cancellation waitlist with preferred dates. They are called or texted if a matching slot opens.",
+    handler: async (params, context) => {
+      logger.info("Add to waitlist called", {
+        callId: context.callId,
+        assistantId: context.assistantId,
+      });
+
+      if (!context.assistantId) {
+        return {
+          error: "Assistant ID not available",
+          message:
+            "Unable to add to the waitlist. Assistant context not found.",
+        };
+      }
+
+      const parsed = AddToWaitlistSchema.safeParse(params);
+      if (!parsed.success) {
+        logger.warn("Add to waitlist validation failed", {
+          callId: context.callId,
+          errors: parsed.error.flatten(),
+        });
+        return {
+          error: "validation_error",
+          message:
+            "I need your name, phone number, and your pet's name to add you to the waitlist.",
+        };
+      }
+
+      const supabase = await createServiceClient();
+      const clinic = await findClinicWithConfigByAssistantId(
+        supabase,
+        context.assistantId,
+      );
+
+      const result = await processAddToWaitlist(parsed.data, {
+        callId: context.callId,
+        toolCallId: context.toolCallId,
+        assistantId: context.assistantId,
+        clinic,
+        supabase,
+        logger,
+      });
+
+      logger.info("Add to waitlist completed", {
+        success: result.success,
+        callId: context.callId,
+        clinicId: clinic?.id,
+      });
+
+      return { ...result };
+    },
+  });
+
+  // Respond to waitlist offer tool - used on outbound waitlist offer calls
+  registerTool({
+    name: "respond_to_waitlist_offer",
+    description:
+      "Record whether the client accepts the appointment slot offered from the waitlist (offer_id comes from the call variables).",
+    handler: async (params, context) => {
+      logger.info("Respond to waitlist offer called", {
+        callId: context.callId,
+        assistantId: context.assistantId,
+      });
+
+      const parsed = RespondToWaitlistOfferSchema.safeParse(params);
+      if (!parsed.success) {
+        logger.warn("Respond to waitlist offer validation failed", {
+          callId: context.callId,
+          errors: parsed.error.flatten(),
+        });
+        return {
+          error: "validation_error",
+          message:
+            "I couldn't record that answer. Please call the office to book.",
+        };
+      }
+
+      // The offer identifies the clinic; no assistant lookup needed
+      const supabase = await createServiceClient();
+      const result = await processRespondToWaitlistOffer(parsed.data, {
+        callId: context.callId,
+        toolCallId: context.toolCallId,
+        assistantId: context.assistantId,
+        clinic: null,
+        supabase,
+        logger,
+      });
+
+      logger.info("Respond to waitlist offer completed", {
+        success: result.success,
+        callId: context.callId,
+      });
+
+      return { ...result };
+    },
+  });
+
+  // Confirm appointment tool - used on outbound reminder calls
+  registerTool({
+    name: "confirm_appointment",
+    description:
+      "Confirm the client will attend the appointment the reminder call is about (appointment_id comes from the call variables).",
+    handler: async (params, context) => {
+      logger.info("Confirm appointment called", {
+        callId: context.callId,
+        assistantId: context.assistantId,
+      });
+
+      if (!context.assistantId) {
+        return {
+          error: "Assistant ID not available",
+          message:
+            "Unable to confirm the appointment. Assistant context not found.",
+        };
+      }
+
+      const parsed = ConfirmAppointmentSchema.safeParse(params);
+      if (!parsed.success) {
+        logger.warn("Confirm appointment validation failed", {
+          callId: context.callId,
+          errors: parsed.error.flatten(),
+        });
+        return {
+          error: "validation_error",
+          message:
+            "I couldn't confirm that appointment. Please call the office to confirm.",
+        };
+      }
+
+      const supabase = await createServiceClient();
+      const clinic = await findClinicWithConfigByAssistantId(
+        supabase,
+        context.assistantId,
+      );
+
+      const result = await processConfirmAppointment(parsed.data, {
+        callId: context.callId,
+        toolCallId: context.toolCallId,
+        assistantId: context.assistantId,
+        clinic,
+        supabase,
+        logger,
+      });
+
+      logger.info("Confirm appointment completed", {
+        success: result.success,
+        callId: context.callId,
+        clinicId: clinic?.id,
+      });
+
+      return { ...result };
+    },
+  });
+
+  // Cancel appointment tool - two-step, requires confirmed=true to cancel
+  registerTool({
+    name: "cancel_appointment",
+    description:
+      "Cancel an existing appointment. Call first without confirmed to look it up, then with confirmed=true after the client agrees.",
+    handler: async (params, context) => {
+      logger.info("Cancel appointment called", {
+        callId: context.callId,
+        assistantId: context.assistantId,
+      });
+
+      if (!context.assistantId) {
+        return {
+          error: "Assistant ID not available",
+          message:
+            "Unable to cancel the appointment. Assistant context not found.",
+        };
+      }
+
+      const parsed = CancelAppointmentSchema.safeParse(params);
+      if (!parsed.success) {
+        logger.warn("Cancel appointment validation failed", {
+          callId: context.callId,
+          errors: parsed.error.flatten(),
+        });
+        return {
+          error: "validation_error",
+          message:
+            "I need your name, phone number, your pet's name, and the appointment date to cancel.",
+        };
+      }
+
+      const supabase = await createServiceClient();
+      const clinic = await findClinicWithConfigByAssistantId(
+        supabase,
+        context.assistantId,
+      );
+
+      const result = await processCancelAppointment(parsed.data, {
+        callId: context.callId,
+        toolCallId: context.toolCallId,
+        assistantId: context.assistantId,
+        clinic,
+        supabase,
+        logger,
+      });
+
+      logger.info("Cancel appointment completed", {
+        success: result.success,
+        callId: context.callId,
+        clinicId: clinic?.id,
+      });
+
+      return { ...result };
+    },
+  });
+
+  // Reschedule appointment tool - two-step, requires confirmed=true to move it
+  registerTool({
+    name: "reschedule_appointment",
+    description:
+      "Move an existing appointment to a new date/time. Call first without confirmed to check availability, then with confirmed=true after the client agrees.",
+    handler: async (params, context) => {
+      logger.info("Reschedule appointment called", {
+        callId: context.callId,
+        assistantId: context.assistantId,
+      });
+
+      if (!context.assistantId) {
+        return {
+          error: "Assistant ID not available",
+          message:
+            "Unable to reschedule the appointment. Assistant context not found.",
+        };
+      }
+
+      const parsed = RescheduleAppointmentSchema.safeParse(params);
+      if (!parsed.success) {
+        logger.warn("Reschedule appointment validation failed", {
+          callId: context.callId,
+          errors: parsed.error.flatten(),
+        });
+        return {
+          error: "validation_error",
+          message:
+            "I need your name, phone number, your pet's name, the current appointment date, and the new date you'd like.",
+        };
+      }
+
+      const supabase = await createServiceClient();
+      const clinic = await findClinicWithConfigByAssistantId(
+        supabase,
+        context.assistantId,
+      );
+
+      const result = await processRescheduleAppointment(parsed.data, {
+        callId: context.callId,
+        toolCallId: context.toolCallId,
+        assistantId: context.assistantId,
+        clinic,
+        supabase,
+        logger,
+      });
+
+      logger.info("Reschedule appointment completed", {
+        success: result.success,
+        callId: context.callId,
+        clinicId: clinic?.id,
+      });
+
+      return { ...result };
+    },
+  });
+
   // Leave message tool - records callback requests for clinic staff
   registerTool({
     name: "leave_message",
@@ -443,6 +744,11 @@ export function registerBuiltInTools(): void {
       "get_clinic_hours",
       "check_availability",
       "check_availability_range",
+      "add_to_waitlist",
+      "respond_to_waitlist_offer",
+      "confirm_appointment",
+      "cancel_appointment",
+      "reschedule_appointment",
       "leave_message",
       "log_emergency_triage",
     ],
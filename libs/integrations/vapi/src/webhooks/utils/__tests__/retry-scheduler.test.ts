@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateNextRetryAt,
+  calculateRetryDelay,
+  resolveRetryPolicy,
+  shouldRetry,
+} from "../retry-scheduler";
+
+const DEFAULT_POLICY = resolveRetryPolicy(null);
+
+describe("resolveRetryPolicy", () => {
+  it("falls back to defaults with the call's max_retries", () => {
+    const policy = resolveRetryPolicy(null, { max_retries: 3 });
+    expect(policy.maxRetries).toBe(3);
+    expect(policy.initialDelayMinutes).toBe(10);
+  });
+
+  it("fills missing fields of a stored policy with defaults", () => {
+    const policy = resolveRetryPolicy({ backoff: "exponential" });
+    expect(policy.backoff).toBe("exponential");
+    expect(policy.maxRetries).toBe(1);
+  });
+
+  it("ignores an invalid stored policy", () => {
+    const policy = resolveRetryPolicy({ maxRetries: -1 });
+    expect(policy).toEqual(DEFAULT_POLICY);
+  });
+});
+
+describe("shouldRetry", () => {
+  it("retries configured ended reasons", () => {
+    expect(shouldRetry("customer-busy")).toBe(false);
+    expect(shouldRetry("dial-busy")).toBe(true);
+  });
+
+  it("retries voicemail only when the policy allows it", () => {
+    expect(shouldRetry("voicemail")).toBe(false);
+    expect(
+      shouldRetry("voicemail", undefined, {
+        ...DEFAULT_POLICY,
+        retryAfterVoicemail: true,
+      }),
+    ).toBe(true);
+  });
+});
+
+describe("calculateRetryDelay", () => {
+  it("applies the backoff curve and caps the delay", () => {
+    const exponential = {
+      ...DEFAULT_POLICY,
+      backoff: "exponential" as const,
+      initialDelayMinutes: 30,
+      maxDelayMinutes: 100,
+    };
+    expect(calculateRetryDelay(0, exponential)).toBe(30);
+    expect(calculateRetryDelay(1, exponential)).toBe(60);
+    expect(calculateRetryDelay(2, exponential)).toBe(100);
+    expect(calculateRetryDelay(2)).toBe(10);
+  });
+});
+
+describe("calculateNextRetryAt", () => {
+  const schedule = { timezone: "America/Los_Angeles" };
+
+  it("moves a retry out of quiet hours that wrap midnight", () => {
+    // 20:55 PDT + 10 minutes lands in 21:00-08:00 quiet hours
+    const from = new Date("2026-06-01T03:55:00Z");
+    const next = calculateNextRetryAt(
+      from,
+      0,
+      {
+        ...DEFAULT_POLICY,
+        quietHours: { start: "21:00", end: "08:00" },
+      },
+      schedule,
+    );
+    expect(next.toISOString()).toBe("2026-06-01T15:05:00.000Z");
+  });
+
+  it("snaps to the next retry time of day", () => {
+    // 18:00 PDT; next 10:00 PDT is the following morning
+    const from = new Date("2026-06-01T01:00:00Z");
+    const next = calculateNextRetryAt(
+      from,
+      0,
+      { ...DEFAULT_POLICY, retryAtTime: "10:00" },
+      schedule,
+    );
+    expect(next.toISOString()).toBe("2026-06-01T17:00:00.000Z");
+  });
+});
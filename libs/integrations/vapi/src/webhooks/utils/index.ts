@@ -21,10 +21,13 @@ export {
 export {
   shouldRetry,
   calculateRetryDelay,
+  calculateNextRetryAt,
   evaluateRetry,
+  resolveRetryPolicy,
   DEFAULT_MAX_RETRIES,
   RETRYABLE_REASONS,
   type RetryDecision,
+  type RetryScheduleContext,
 } from "./retry-scheduler";
 
 // Cost and duration calculation
@@ -2,60 +2,108 @@
  * Retry Scheduling Utilities
  *
  * Handles retry logic for failed calls including eligibility
- * determination and exponential backoff timing.
+ * determination and backoff timing. Behavior comes from the clinic's
+ * call retry policy (clinics.call_retry_policy); without one, a call is
+ * retried once after 10 minutes.
  *
  * @module vapi/webhooks/utils/retry-scheduler
  */
 
+import { toZonedTime } from "date-fns-tz";
 import { loggers } from "@odis-ai/shared/logger";
+import type { DailyHours } from "@odis-ai/shared/types";
+import { isWithinBusinessHoursPerDay } from "@odis-ai/shared/util/business-hours";
+import {
+  callRetryPolicySchema,
+  DEFAULT_CALL_RETRY_POLICY,
+  type CallRetryPolicy,
+} from "@odis-ai/shared/validators";
 
 const logger = loggers.webhook.child("retry-scheduler");
 
 /**
- * Reasons that should trigger a retry
+ * Reasons that trigger a retry when the clinic has no policy
  * These are transient failures where trying again later might succeed
- *
- * NOTE: "voicemail" is intentionally excluded - we do NOT retry voicemail calls.
- * If voicemail detection is enabled and hangup is configured, the call is marked
- * as completed (voicemail reached) rather than failed, so no retry is needed.
  */
-export const RETRYABLE_REASONS = [
-  "dial-busy",
-  "dial-no-answer",
-  "silence-timed-out",
-  "customer-did-not-answer",
-];
+export const RETRYABLE_REASONS = DEFAULT_CALL_RETRY_POLICY.retryOnEndedReasons;
 
 /**
  * Default maximum number of retries
  */
-export const DEFAULT_MAX_RETRIES = 1;
+export const DEFAULT_MAX_RETRIES = DEFAULT_CALL_RETRY_POLICY.maxRetries;
+
+/**
+ * How far ahead to look for an allowed retry time
+ */
+const MAX_SEARCH_DAYS = 7;
+const SEARCH_STEP_MINUTES = 15;
+
+/**
+ * Clinic schedule used to place retries
+ */
+export interface RetryScheduleContext {
+  /** IANA timezone of the clinic */
+  timezone: string;
+  /** Per-day business hours (clinic_schedule_config.daily_hours) */
+  dailyHours?: DailyHours | null;
+}
+
+/**
+ * Resolve the retry policy for a call
+ *
+ * Uses the clinic's stored policy when present. Otherwise falls back to the
+ * defaults with the call's own max_retries metadata.
+ *
+ * @param clinicPolicy - clinics.call_retry_policy (unvalidated JSON)
+ * @param metadata - Call metadata
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(
+  clinicPolicy: unknown,
+  metadata?: Record<string, unknown>,
+): CallRetryPolicy {
+  if (clinicPolicy) {
+    const parsed = callRetryPolicySchema.safeParse(clinicPolicy);
+    if (parsed.success) return parsed.data;
+
+    logger.warn("Invalid clinic retry policy - using defaults", {
+      issues: parsed.error.issues.map((issue) => issue.message),
+    });
+  }
+
+  return {
+    ...DEFAULT_CALL_RETRY_POLICY,
+    maxRetries: (metadata?.max_retries as number) ?? DEFAULT_MAX_RETRIES,
+  };
+}
 
 /**
  * Determine if a call should be retried based on ended reason
  *
  * @param endedReason - VAPI ended reason
  * @param metadata - Call metadata including voicemail settings
+ * @param policy - Clinic retry policy
  * @returns True if call should be retried
  */
 export function shouldRetry(
   endedReason?: string,
   metadata?: Record<string, unknown>,
+  policy: CallRetryPolicy = DEFAULT_CALL_RETRY_POLICY,
 ): boolean {
-  // Never retry voicemail calls - voicemail is considered a successful outcome
-  // whether we left a message or hung up. The customer has been reached.
+  // Voicemail counts as reaching the customer unless the clinic opted into
+  // voicemail-then-retry
   if (endedReason?.toLowerCase().includes("voicemail")) {
-    logger.debug("Voicemail detected - no retry", {
+    logger.debug("Voicemail detected", {
       endedReason,
       voicemailDetectionEnabled: metadata?.voicemail_detection_enabled,
       hangupOnVoicemail: metadata?.voicemail_hangup_on_detection,
-      reason: "Voicemail calls are never retried",
+      retryAfterVoicemail: policy.retryAfterVoicemail,
     });
 
-    return false;
+    return policy.retryAfterVoicemail;
   }
 
-  return RETRYABLE_REASONS.some((reason) =>
+  return policy.retryOnEndedReasons.some((reason) =>
     endedReason?.toLowerCase().includes(reason.toLowerCase()),
   );
 }
@@ -63,11 +111,72 @@ export function shouldRetry(
 /**
  * Calculate retry delay
  *
- * @param _retryCount - Current retry count (0-indexed), unused since we only retry once
- * @returns Delay in minutes (fixed 10 minutes)
+ * @param retryCount - Current retry count (0-indexed)
+ * @param policy - Clinic retry policy
+ * @returns Delay in minutes, capped at policy.maxDelayMinutes
+ */
+export function calculateRetryDelay(
+  retryCount: number,
+  policy: CallRetryPolicy = DEFAULT_CALL_RETRY_POLICY,
+): number {
+  const base = policy.initialDelayMinutes;
+  let delay: number;
+
+  switch (policy.backoff) {
+    case "linear":
+      delay = base * (retryCount + 1);
+      break;
+    case "exponential":
+      delay = base * 2 ** retryCount;
+      break;
+    default:
+      delay = base;
+  }
+
+  return Math.min(delay, policy.maxDelayMinutes);
+}
+
+/**
+ * Calculate when the next retry should run
+ *
+ * Applies the backoff delay, then moves forward to the policy's retry time
+ * of day and out of quiet hours / closed hours. Without a schedule context
+ * only the delay is applied.
+ *
+ * @param from - Time the call ended
+ * @param retryCount - Current retry count (0-indexed)
+ * @param policy - Clinic retry policy
+ * @param schedule - Clinic timezone and business hours
+ * @returns Time to run the retry
  */
-export function calculateRetryDelay(_retryCount: number): number {
-  return 10;
+export function calculateNextRetryAt(
+  from: Date,
+  retryCount: number,
+  policy: CallRetryPolicy = DEFAULT_CALL_RETRY_POLICY,
+  schedule?: RetryScheduleContext,
+): Date {
+  let candidate = new Date(
+    from.getTime() + calculateRetryDelay(retryCount, policy) * 60 * 1000,
+  );
+  if (!schedule) return candidate;
+
+  if (policy.retryAtTime) {
+    candidate = nextLocalTime(candidate, policy.retryAtTime, schedule.timezone);
+  }
+
+  const maxSteps = (MAX_SEARCH_DAYS * 24 * 60) / SEARCH_STEP_MINUTES;
+  for (let step = 0; step < maxSteps; step++) {
+    if (isAllowedRetryTime(candidate, policy, schedule)) return candidate;
+    candidate = new Date(candidate.getTime() + SEARCH_STEP_MINUTES * 60 * 1000);
+  }
+
+  logger.warn("No allowed retry time found - using delay only", {
+    timezone: schedule.timezone,
+    searchDays: MAX_SEARCH_DAYS,
+  });
+  return new Date(
+    from.getTime() + calculateRetryDelay(retryCount, policy) * 60 * 1000,
+  );
 }
 
 /**
@@ -87,16 +196,20 @@ export interface RetryDecision {
  *
  * @param endedReason - VAPI ended reason
  * @param metadata - Call metadata including retry count
+ * @param policy - Clinic retry policy (defaults from metadata when omitted)
+ * @param schedule - Clinic timezone and business hours
  * @returns Retry decision with timing
  */
 export function evaluateRetry(
   endedReason: string | undefined,
   metadata?: Record<string, unknown>,
+  policy: CallRetryPolicy = resolveRetryPolicy(null, metadata),
+  schedule?: RetryScheduleContext,
 ): RetryDecision {
   const retryCount = (metadata?.retry_count as number) ?? 0;
-  const maxRetries = (metadata?.max_retries as number) ?? DEFAULT_MAX_RETRIES;
+  const maxRetries = policy.maxRetries;
 
-  if (!shouldRetry(endedReason, metadata)) {
+  if (!shouldRetry(endedReason, metadata, policy)) {
     return {
       shouldRetry: false,
       delayMs: 0,
@@ -112,10 +225,62 @@ export function evaluateRetry(
     };
   }
 
-  const delayMinutes = calculateRetryDelay(retryCount);
+  const now = new Date();
+  const delayMs =
+    calculateNextRetryAt(now, retryCount, policy, schedule).getTime() -
+    now.getTime();
+  const delayMinutes = Math.round(delayMs / 60000);
   return {
     shouldRetry: true,
-    delayMs: delayMinutes * 60 * 1000,
+    delayMs,
     reason: `Scheduling retry ${retryCount + 1} of ${maxRetries} in ${delayMinutes} minutes`,
   };
 }
+
+function isAllowedRetryTime(
+  time: Date,
+  policy: CallRetryPolicy,
+  schedule: RetryScheduleContext,
+): boolean {
+  if (policy.quietHours) {
+    const minute = localMinuteOfDay(time, schedule.timezone);
+    const start = parseTimeOfDay(policy.quietHours.start);
+    const end = parseTimeOfDay(policy.quietHours.end);
+    const inQuietHours =
+      start <= end
+        ? minute >= start && minute < end
+        : minute >= start || minute < end;
+    if (inQuietHours) return false;
+  }
+
+  if (policy.respectBusinessHours && schedule.dailyHours) {
+    return isWithinBusinessHoursPerDay(
+      time,
+      schedule.dailyHours,
+      schedule.timezone,
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Next occurrence of a clinic-local HH:mm at or after `from`
+ */
+function nextLocalTime(from: Date, timeOfDay: string, timezone: string): Date {
+  let diff = parseTimeOfDay(timeOfDay) - localMinuteOfDay(from, timezone);
+  if (diff < 0) diff += 24 * 60;
+  const next = new Date(from.getTime() + diff * 60 * 1000);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
+
+function localMinuteOfDay(time: Date, timezone: string): number {
+  const zoned = toZonedTime(time, timezone);
+  return zoned.getHours() * 60 + zoned.getMinutes();
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours = 0, minutes = 0] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,15 @@
+/**
+ * @odis-ai/shared/api-types
+ *
+ * Type-only surface of the web app's tRPC API for clients built outside
+ * apps/web (the mobile app and the Chrome extension). Nothing is exported
+ * at runtime, so importing this never bundles server code.
+ */
+
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "~/server/api/root";
+
+export type { AppRouter };
+
+export type RouterInputs = inferRouterInputs<AppRouter>;
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
@@ -50,6 +50,12 @@ export const env = createEnv({
     SLACK_CHANNEL_APPOINTMENTS: z.string().default("appointments"),
     SLACK_CHANNEL_EMERGENCIES: z.string().default("emergencies"),
     SLACK_CHANNEL_SYSTEM: z.string().default("system-alerts"),
+    // SMS Configuration (Twilio); without credentials a fake provider is used outside production
+    SMS_PROVIDER: z.enum(["twilio", "fake"]).optional(),
+    TWILIO_ACCOUNT_SID: z.string().trim().optional(),
+    TWILIO_AUTH_TOKEN: z.string().trim().optional(),
+    TWILIO_FROM_NUMBER: z.string().trim().optional(),
+    TWILIO_MESSAGING_SERVICE_SID: z.string().trim().optional(),
     // Environment identifier
     APP_ENV: z
       .enum(["development", "staging", "production"])
@@ -109,6 +115,11 @@ export const env = createEnv({
     SLACK_CHANNEL_APPOINTMENTS: process.env.SLACK_CHANNEL_APPOINTMENTS,
     SLACK_CHANNEL_EMERGENCIES: process.env.SLACK_CHANNEL_EMERGENCIES,
     SLACK_CHANNEL_SYSTEM: process.env.SLACK_CHANNEL_SYSTEM,
+    SMS_PROVIDER: process.env.SMS_PROVIDER,
+    TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID,
+    TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
+    TWILIO_FROM_NUMBER: process.env.TWILIO_FROM_NUMBER,
+    TWILIO_MESSAGING_SERVICE_SID: process.env.TWILIO_MESSAGING_SERVICE_SID,
     NEXT_PUBLIC_POSTHOG_KEY: process.env.NEXT_PUBLIC_POSTHOG_KEY,
     NEXT_PUBLIC_POSTHOG_HOST: process.env.NEXT_PUBLIC_POSTHOG_HOST,
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
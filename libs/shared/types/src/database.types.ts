@@ -227,6 +227,229 @@ export type Database = {
           },
         ];
       };
+      appointment_reminder_calls: {
+        Row: {
+          appointment_id: string;
+          appointment_start: string;
+          clinic_id: string;
+          completed_at: string | null;
+          created_at: string;
+          ended_reason: string | null;
+          error: string | null;
+          id: string;
+          outcome: string | null;
+          status: string;
+          updated_at: string;
+          vapi_call_id: string | null;
+        };
+        Insert: {
+          appointment_id: string;
+          appointment_start: string;
+          clinic_id: string;
+          completed_at?: string | null;
+          created_at?: string;
+          ended_reason?: string | null;
+          error?: string | null;
+          id?: string;
+          outcome?: string | null;
+          status?: string;
+          updated_at?: string;
+          vapi_call_id?: string | null;
+        };
+        Update: {
+          appointment_id?: string;
+          appointment_start?: string;
+          clinic_id?: string;
+          completed_at?: string | null;
+          created_at?: string;
+          ended_reason?: string | null;
+          error?: string | null;
+          id?: string;
+          outcome?: string | null;
+          status?: string;
+          updated_at?: string;
+          vapi_call_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminder_calls_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: true;
+            referencedRelation: "pims_appointments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointment_reminder_calls_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      appointment_waitlist: {
+        Row: {
+          appointment_type: string | null;
+          booking_id: string | null;
+          client_name: string;
+          client_phone: string;
+          clinic_id: string;
+          contact_method: string;
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          is_new_client: boolean;
+          notes: string | null;
+          patient_name: string;
+          preferred_ranges: Json;
+          reason: string | null;
+          source: string;
+          species: string | null;
+          status: string;
+          updated_at: string;
+          vapi_call_id: string | null;
+        };
+        Insert: {
+          appointment_type?: string | null;
+          booking_id?: string | null;
+          client_name: string;
+          client_phone: string;
+          clinic_id: string;
+          contact_method?: string;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          is_new_client?: boolean;
+          notes?: string | null;
+          patient_name: string;
+          preferred_ranges?: Json;
+          reason?: string | null;
+          source?: string;
+          species?: string | null;
+          status?: string;
+          updated_at?: string;
+          vapi_call_id?: string | null;
+        };
+        Update: {
+          appointment_type?: string | null;
+          booking_id?: string | null;
+          client_name?: string;
+          client_phone?: string;
+          clinic_id?: string;
+          contact_method?: string;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          is_new_client?: boolean;
+          notes?: string | null;
+          patient_name?: string;
+          preferred_ranges?: Json;
+          reason?: string | null;
+          source?: string;
+          species?: string | null;
+          status?: string;
+          updated_at?: string;
+          vapi_call_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "appointment_waitlist_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "appointment_bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointment_waitlist_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      appointment_waitlist_offers: {
+        Row: {
+          booking_id: string | null;
+          channel: string;
+          clinic_id: string;
+          created_at: string;
+          error: string | null;
+          expires_at: string;
+          id: string;
+          provider_message_id: string | null;
+          qstash_message_id: string | null;
+          responded_at: string | null;
+          schedule_clinic_id: string;
+          slot_end: string;
+          slot_start: string;
+          status: string;
+          updated_at: string;
+          vapi_call_id: string | null;
+          waitlist_id: string;
+        };
+        Insert: {
+          booking_id?: string | null;
+          channel: string;
+          clinic_id: string;
+          created_at?: string;
+          error?: string | null;
+          expires_at: string;
+          id?: string;
+          provider_message_id?: string | null;
+          qstash_message_id?: string | null;
+          responded_at?: string | null;
+          schedule_clinic_id: string;
+          slot_end: string;
+          slot_start: string;
+          status?: string;
+          updated_at?: string;
+          vapi_call_id?: string | null;
+          waitlist_id: string;
+        };
+        Update: {
+          booking_id?: string | null;
+          channel?: string;
+          clinic_id?: string;
+          created_at?: string;
+          error?: string | null;
+          expires_at?: string;
+          id?: string;
+          provider_message_id?: string | null;
+          qstash_message_id?: string | null;
+          responded_at?: string | null;
+          schedule_clinic_id?: string;
+          slot_end?: string;
+          slot_start?: string;
+          status?: string;
+          updated_at?: string;
+          vapi_call_id?: string | null;
+          waitlist_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "appointment_waitlist_offers_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "appointment_bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointment_waitlist_offers_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointment_waitlist_offers_waitlist_id_fkey";
+            columns: ["waitlist_id"];
+            isOneToOne: false;
+            referencedRelation: "appointment_waitlist";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       audio_files: {
         Row: {
           bit_rate: number | null;
@@ -894,6 +1117,59 @@ export type Database = {
         };
         Relationships: [];
       };
+      clinic_appointment_types: {
+        Row: {
+          buffer_minutes: number;
+          clinic_id: string;
+          created_at: string;
+          duration_minutes: number;
+          id: string;
+          is_active: boolean;
+          keywords: string[];
+          name: string;
+          pims_appointment_type_id: string | null;
+          required_provider_role: string | null;
+          required_room_type: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          buffer_minutes?: number;
+          clinic_id: string;
+          created_at?: string;
+          duration_minutes: number;
+          id?: string;
+          is_active?: boolean;
+          keywords?: string[];
+          name: string;
+          pims_appointment_type_id?: string | null;
+          required_provider_role?: string | null;
+          required_room_type?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          buffer_minutes?: number;
+          clinic_id?: string;
+          created_at?: string;
+          duration_minutes?: number;
+          id?: string;
+          is_active?: boolean;
+          keywords?: string[];
+          name?: string;
+          pims_appointment_type_id?: string | null;
+          required_provider_role?: string | null;
+          required_room_type?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "clinic_appointment_types_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       clinic_assistants: {
         Row: {
           assistant_id: string;
@@ -968,6 +1244,50 @@ export type Database = {
           },
         ];
       };
+      clinic_booking_rules: {
+        Row: {
+          clinic_id: string;
+          config: Json;
+          created_at: string;
+          id: string;
+          is_active: boolean;
+          name: string;
+          priority: number;
+          rule_type: string;
+          updated_at: string;
+        };
+        Insert: {
+          clinic_id: string;
+          config?: Json;
+          created_at?: string;
+          id?: string;
+          is_active?: boolean;
+          name: string;
+          priority?: number;
+          rule_type: string;
+          updated_at?: string;
+        };
+        Update: {
+          clinic_id?: string;
+          config?: Json;
+          created_at?: string;
+          id?: string;
+          is_active?: boolean;
+          name?: string;
+          priority?: number;
+          rule_type?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "clinic_booking_rules_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       clinic_case_type_cadence: {
         Row: {
           auto_schedule_call: boolean | null;
@@ -1140,41 +1460,88 @@ export type Database = {
           },
         ];
       };
-      clinic_schedule_config: {
+      clinic_resources: {
         Row: {
           clinic_id: string;
-          close_time: string;
           created_at: string;
-          daily_hours: Json | null;
-          days_of_week: number[];
-          default_capacity: number;
           id: string;
-          idexx_config_snapshot: Json | null;
-          open_time: string;
-          slot_duration_minutes: number;
-          stale_threshold_minutes: number;
-          sync_horizon_days: number;
-          sync_schedules: Json | null;
-          target_room_id: string | null;
-          target_room_name: string | null;
-          timezone: string;
+          is_active: boolean;
+          kind: string;
+          name: string;
+          pims_resource_id: string | null;
+          provider_role: string | null;
+          room_type: string | null;
           updated_at: string;
-          vapi_availability_end_time: string | null;
-          vapi_availability_start_time: string | null;
         };
         Insert: {
           clinic_id: string;
-          close_time?: string;
           created_at?: string;
-          daily_hours?: Json | null;
-          days_of_week?: number[];
-          default_capacity?: number;
           id?: string;
-          idexx_config_snapshot?: Json | null;
-          open_time?: string;
-          slot_duration_minutes?: number;
-          stale_threshold_minutes?: number;
-          sync_horizon_days?: number;
+          is_active?: boolean;
+          kind: string;
+          name: string;
+          pims_resource_id?: string | null;
+          provider_role?: string | null;
+          room_type?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          clinic_id?: string;
+          created_at?: string;
+          id?: string;
+          is_active?: boolean;
+          kind?: string;
+          name?: string;
+          pims_resource_id?: string | null;
+          provider_role?: string | null;
+          room_type?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "clinic_resources_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      clinic_schedule_config: {
+        Row: {
+          clinic_id: string;
+          close_time: string;
+          created_at: string;
+          daily_hours: Json | null;
+          days_of_week: number[];
+          default_capacity: number;
+          id: string;
+          idexx_config_snapshot: Json | null;
+          open_time: string;
+          slot_duration_minutes: number;
+          stale_threshold_minutes: number;
+          sync_horizon_days: number;
+          sync_schedules: Json | null;
+          target_room_id: string | null;
+          target_room_name: string | null;
+          timezone: string;
+          updated_at: string;
+          vapi_availability_end_time: string | null;
+          vapi_availability_start_time: string | null;
+        };
+        Insert: {
+          clinic_id: string;
+          close_time?: string;
+          created_at?: string;
+          daily_hours?: Json | null;
+          days_of_week?: number[];
+          default_capacity?: number;
+          id?: string;
+          idexx_config_snapshot?: Json | null;
+          open_time?: string;
+          slot_duration_minutes?: number;
+          stale_threshold_minutes?: number;
+          sync_horizon_days?: number;
           sync_schedules?: Json | null;
           target_room_id?: string | null;
           target_room_name?: string | null;
@@ -1219,6 +1586,7 @@ export type Database = {
           address: string | null;
           address_config: Json | null;
           business_hours: Json | null;
+          call_retry_policy: Json | null;
           clerk_org_id: string | null;
           created_at: string;
           current_period_end: string | null;
@@ -1227,6 +1595,7 @@ export type Database = {
           email_footer_text: string | null;
           email_header_text: string | null;
           er_config: Json | null;
+          followup_assistant_id: string | null;
           id: string;
           inbound_assistant_id: string | null;
           inbound_phone_number_id: string | null;
@@ -1238,6 +1607,10 @@ export type Database = {
           phone: string | null;
           pims_type: string;
           primary_color: string | null;
+          reminder_assistant_id: string | null;
+          reminder_calls_enabled: boolean;
+          reminder_hours_before: number;
+          slack_notification_preferences: Json | null;
           slug: string;
           stripe_customer_id: string | null;
           stripe_subscription_id: string | null;
@@ -1245,11 +1618,14 @@ export type Database = {
           subscription_tier: string | null;
           timezone: string | null;
           updated_at: string;
+          waitlist_assistant_id: string | null;
+          waitlist_offer_minutes: number;
         };
         Insert: {
           address?: string | null;
           address_config?: Json | null;
           business_hours?: Json | null;
+          call_retry_policy?: Json | null;
           clerk_org_id?: string | null;
           created_at?: string;
           current_period_end?: string | null;
@@ -1258,6 +1634,7 @@ export type Database = {
           email_footer_text?: string | null;
           email_header_text?: string | null;
           er_config?: Json | null;
+          followup_assistant_id?: string | null;
           id?: string;
           inbound_assistant_id?: string | null;
           inbound_phone_number_id?: string | null;
@@ -1269,6 +1646,10 @@ export type Database = {
           phone?: string | null;
           pims_type?: string;
           primary_color?: string | null;
+          reminder_assistant_id?: string | null;
+          reminder_calls_enabled?: boolean;
+          reminder_hours_before?: number;
+          slack_notification_preferences?: Json | null;
           slug: string;
           stripe_customer_id?: string | null;
           stripe_subscription_id?: string | null;
@@ -1276,11 +1657,14 @@ export type Database = {
           subscription_tier?: string | null;
           timezone?: string | null;
           updated_at?: string;
+          waitlist_assistant_id?: string | null;
+          waitlist_offer_minutes?: number;
         };
         Update: {
           address?: string | null;
           address_config?: Json | null;
           business_hours?: Json | null;
+          call_retry_policy?: Json | null;
           clerk_org_id?: string | null;
           created_at?: string;
           current_period_end?: string | null;
@@ -1289,6 +1673,7 @@ export type Database = {
           email_footer_text?: string | null;
           email_header_text?: string | null;
           er_config?: Json | null;
+          followup_assistant_id?: string | null;
           id?: string;
           inbound_assistant_id?: string | null;
           inbound_phone_number_id?: string | null;
@@ -1300,6 +1685,10 @@ export type Database = {
           phone?: string | null;
           pims_type?: string;
           primary_color?: string | null;
+          reminder_assistant_id?: string | null;
+          reminder_calls_enabled?: boolean;
+          reminder_hours_before?: number;
+          slack_notification_preferences?: Json | null;
           slug?: string;
           stripe_customer_id?: string | null;
           stripe_subscription_id?: string | null;
@@ -1307,6 +1696,8 @@ export type Database = {
           subscription_tier?: string | null;
           timezone?: string | null;
           updated_at?: string;
+          waitlist_assistant_id?: string | null;
+          waitlist_offer_minutes?: number;
         };
         Relationships: [];
       };
@@ -1544,6 +1935,100 @@ export type Database = {
         };
         Relationships: [];
       };
+      discharge_orchestration_runs: {
+        Row: {
+          case_id: string | null;
+          created_at: string;
+          finished_at: string | null;
+          id: string;
+          request: Json;
+          resume_count: number;
+          status: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          case_id?: string | null;
+          created_at?: string;
+          finished_at?: string | null;
+          id?: string;
+          request: Json;
+          resume_count?: number;
+          status?: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          case_id?: string | null;
+          created_at?: string;
+          finished_at?: string | null;
+          id?: string;
+          request?: Json;
+          resume_count?: number;
+          status?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "discharge_orchestration_runs_case_id_fkey";
+            columns: ["case_id"];
+            isOneToOne: false;
+            referencedRelation: "cases";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      discharge_orchestration_steps: {
+        Row: {
+          attempt: number;
+          data: Json | null;
+          duration_ms: number | null;
+          error: string | null;
+          finished_at: string | null;
+          id: string;
+          idempotency_key: string;
+          run_id: string;
+          started_at: string;
+          status: string;
+          step: string;
+        };
+        Insert: {
+          attempt: number;
+          data?: Json | null;
+          duration_ms?: number | null;
+          error?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          idempotency_key: string;
+          run_id: string;
+          started_at?: string;
+          status?: string;
+          step: string;
+        };
+        Update: {
+          attempt?: number;
+          data?: Json | null;
+          duration_ms?: number | null;
+          error?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          idempotency_key?: string;
+          run_id?: string;
+          started_at?: string;
+          status?: string;
+          step?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "discharge_orchestration_steps_run_id_fkey";
+            columns: ["run_id"];
+            isOneToOne: false;
+            referencedRelation: "discharge_orchestration_runs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       discharge_summaries: {
         Row: {
           case_id: string;
@@ -1729,6 +2214,56 @@ export type Database = {
           },
         ];
       };
+      ezyvet_credentials: {
+        Row: {
+          client_id_encrypted: string;
+          client_secret_encrypted: string;
+          clinic_id: string;
+          created_at: string;
+          encryption_key_id: string;
+          id: string;
+          is_active: boolean;
+          last_used_at: string | null;
+          partner_id: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          client_id_encrypted: string;
+          client_secret_encrypted: string;
+          clinic_id: string;
+          created_at?: string;
+          encryption_key_id?: string;
+          id?: string;
+          is_active?: boolean;
+          last_used_at?: string | null;
+          partner_id: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          client_id_encrypted?: string;
+          client_secret_encrypted?: string;
+          clinic_id?: string;
+          created_at?: string;
+          encryption_key_id?: string;
+          id?: string;
+          is_active?: boolean;
+          last_used_at?: string | null;
+          partner_id?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ezyvet_credentials_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       feature_usage: {
         Row: {
           created_at: string | null;
@@ -2170,6 +2705,54 @@ export type Database = {
         };
         Relationships: [];
       };
+      on_call_shifts: {
+        Row: {
+          clinic_id: string;
+          created_at: string;
+          day_of_week: number;
+          end_time: string;
+          id: string;
+          start_time: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          clinic_id: string;
+          created_at?: string;
+          day_of_week: number;
+          end_time: string;
+          id?: string;
+          start_time: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          clinic_id?: string;
+          created_at?: string;
+          day_of_week?: number;
+          end_time?: string;
+          id?: string;
+          start_time?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "on_call_shifts_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "on_call_shifts_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       patients: {
         Row: {
           breed: string | null;
@@ -2287,6 +2870,9 @@ export type Database = {
           client_name: string | null;
           client_phone: string | null;
           clinic_id: string;
+          confirmation_status: string;
+          confirmation_synced_at: string | null;
+          confirmed_at: string | null;
           created_at: string;
           date: string | null;
           deleted_at: string | null;
@@ -2307,6 +2893,9 @@ export type Database = {
           client_name?: string | null;
           client_phone?: string | null;
           clinic_id: string;
+          confirmation_status?: string;
+          confirmation_synced_at?: string | null;
+          confirmed_at?: string | null;
           created_at?: string;
           date?: string | null;
           deleted_at?: string | null;
@@ -2327,6 +2916,9 @@ export type Database = {
           client_name?: string | null;
           client_phone?: string | null;
           clinic_id?: string;
+          confirmation_status?: string;
+          confirmation_synced_at?: string | null;
+          confirmed_at?: string | null;
           created_at?: string;
           date?: string | null;
           deleted_at?: string | null;
@@ -2391,6 +2983,178 @@ export type Database = {
         };
         Relationships: [];
       };
+      pims_sync_cursors: {
+        Row: {
+          clinic_id: string;
+          created_at: string;
+          days: Json;
+          last_synced_at: string | null;
+          updated_at: string;
+          window_end: string | null;
+          window_start: string | null;
+        };
+        Insert: {
+          clinic_id: string;
+          created_at?: string;
+          days?: Json;
+          last_synced_at?: string | null;
+          updated_at?: string;
+          window_end?: string | null;
+          window_start?: string | null;
+        };
+        Update: {
+          clinic_id?: string;
+          created_at?: string;
+          days?: Json;
+          last_synced_at?: string | null;
+          updated_at?: string;
+          window_end?: string | null;
+          window_start?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "pims_sync_cursors_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: true;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      pims_sync_job_history: {
+        Row: {
+          attempt: number;
+          clinic_id: string;
+          created_at: string;
+          duration_ms: number | null;
+          error: string | null;
+          finished_at: string;
+          id: string;
+          job_id: string;
+          job_type: string;
+          started_at: string | null;
+          status: string;
+          worker_id: string | null;
+        };
+        Insert: {
+          attempt: number;
+          clinic_id: string;
+          created_at?: string;
+          duration_ms?: number | null;
+          error?: string | null;
+          finished_at?: string;
+          id?: string;
+          job_id: string;
+          job_type: string;
+          started_at?: string | null;
+          status: string;
+          worker_id?: string | null;
+        };
+        Update: {
+          attempt?: number;
+          clinic_id?: string;
+          created_at?: string;
+          duration_ms?: number | null;
+          error?: string | null;
+          finished_at?: string;
+          id?: string;
+          job_id?: string;
+          job_type?: string;
+          started_at?: string | null;
+          status?: string;
+          worker_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "pims_sync_job_history_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "pims_sync_job_history_job_id_fkey";
+            columns: ["job_id"];
+            isOneToOne: false;
+            referencedRelation: "pims_sync_jobs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      pims_sync_jobs: {
+        Row: {
+          attempts: number;
+          clinic_id: string;
+          created_at: string;
+          dedupe_key: string | null;
+          finished_at: string | null;
+          id: string;
+          job_type: string;
+          last_error: string | null;
+          locked_by: string | null;
+          locked_until: string | null;
+          max_attempts: number;
+          payload: Json;
+          progress: Json | null;
+          result: Json | null;
+          run_after: string;
+          source: string;
+          started_at: string | null;
+          status: string;
+          updated_at: string;
+        };
+        Insert: {
+          attempts?: number;
+          clinic_id: string;
+          created_at?: string;
+          dedupe_key?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          job_type: string;
+          last_error?: string | null;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          max_attempts?: number;
+          payload?: Json;
+          progress?: Json | null;
+          result?: Json | null;
+          run_after?: string;
+          source?: string;
+          started_at?: string | null;
+          status?: string;
+          updated_at?: string;
+        };
+        Update: {
+          attempts?: number;
+          clinic_id?: string;
+          created_at?: string;
+          dedupe_key?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          job_type?: string;
+          last_error?: string | null;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          max_attempts?: number;
+          payload?: Json;
+          progress?: Json | null;
+          result?: Json | null;
+          run_after?: string;
+          source?: string;
+          started_at?: string | null;
+          status?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "pims_sync_jobs_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       providers: {
         Row: {
           clinic_id: string;
@@ -2424,12 +3188,107 @@ export type Database = {
         };
         Relationships: [
           {
-            foreignKeyName: "providers_clinic_id_fkey";
+            foreignKeyName: "providers_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      push_devices: {
+        Row: {
+          created_at: string;
+          device_name: string | null;
+          disabled_at: string | null;
+          disabled_reason: string | null;
+          id: string;
+          last_registered_at: string;
+          platform: string;
+          token: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          device_name?: string | null;
+          disabled_at?: string | null;
+          disabled_reason?: string | null;
+          id?: string;
+          last_registered_at?: string;
+          platform: string;
+          token: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          device_name?: string | null;
+          disabled_at?: string | null;
+          disabled_reason?: string | null;
+          id?: string;
+          last_registered_at?: string;
+          platform?: string;
+          token?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "push_devices_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      push_notification_subscriptions: {
+        Row: {
+          clinic_id: string;
+          created_at: string;
+          id: string;
+          is_enabled: boolean;
+          notification_types: string[];
+          only_when_on_call: boolean;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          clinic_id: string;
+          created_at?: string;
+          id?: string;
+          is_enabled?: boolean;
+          notification_types?: string[];
+          only_when_on_call?: boolean;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          clinic_id?: string;
+          created_at?: string;
+          id?: string;
+          is_enabled?: boolean;
+          notification_types?: string[];
+          only_when_on_call?: boolean;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "push_notification_subscriptions_clinic_id_fkey";
             columns: ["clinic_id"];
             isOneToOne: false;
             referencedRelation: "clinics";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "push_notification_subscriptions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
         ];
       };
       refill_requests: {
@@ -2699,6 +3558,7 @@ export type Database = {
           attention_types: string[] | null;
           call_analysis: Json | null;
           call_outcome_data: Json | null;
+          call_type: string;
           case_id: string | null;
           cleaned_transcript: string | null;
           condition_category: string | null;
@@ -2710,6 +3570,7 @@ export type Database = {
           ended_at: string | null;
           ended_reason: string | null;
           escalation_data: Json | null;
+          follow_up_checkin_data: Json | null;
           follow_up_data: Json | null;
           id: string;
           knowledge_base_used: string | null;
@@ -2721,6 +3582,8 @@ export type Database = {
           qstash_message_id: string | null;
           recording_url: string | null;
           review_category: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
           scheduled_for: string | null;
           started_at: string | null;
           status: string;
@@ -2744,6 +3607,7 @@ export type Database = {
           attention_types?: string[] | null;
           call_analysis?: Json | null;
           call_outcome_data?: Json | null;
+          call_type?: string;
           case_id?: string | null;
           cleaned_transcript?: string | null;
           condition_category?: string | null;
@@ -2755,6 +3619,7 @@ export type Database = {
           ended_at?: string | null;
           ended_reason?: string | null;
           escalation_data?: Json | null;
+          follow_up_checkin_data?: Json | null;
           follow_up_data?: Json | null;
           id?: string;
           knowledge_base_used?: string | null;
@@ -2766,6 +3631,8 @@ export type Database = {
           qstash_message_id?: string | null;
           recording_url?: string | null;
           review_category?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
           scheduled_for?: string | null;
           started_at?: string | null;
           status?: string;
@@ -2789,6 +3656,7 @@ export type Database = {
           attention_types?: string[] | null;
           call_analysis?: Json | null;
           call_outcome_data?: Json | null;
+          call_type?: string;
           case_id?: string | null;
           cleaned_transcript?: string | null;
           condition_category?: string | null;
@@ -2800,6 +3668,7 @@ export type Database = {
           ended_at?: string | null;
           ended_reason?: string | null;
           escalation_data?: Json | null;
+          follow_up_checkin_data?: Json | null;
           follow_up_data?: Json | null;
           id?: string;
           knowledge_base_used?: string | null;
@@ -2811,6 +3680,8 @@ export type Database = {
           qstash_message_id?: string | null;
           recording_url?: string | null;
           review_category?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
           scheduled_for?: string | null;
           started_at?: string | null;
           status?: string;
@@ -2834,6 +3705,13 @@ export type Database = {
             referencedRelation: "cases";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "scheduled_discharge_calls_reviewed_by_fkey";
+            columns: ["reviewed_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
         ];
       };
       scheduled_discharge_emails: {
@@ -2901,6 +3779,71 @@ export type Database = {
           },
         ];
       };
+      scheduled_discharge_sms: {
+        Row: {
+          body: string;
+          case_id: string | null;
+          created_at: string;
+          delivered_at: string | null;
+          id: string;
+          metadata: Json | null;
+          provider: string | null;
+          provider_message_id: string | null;
+          qstash_message_id: string | null;
+          recipient_name: string | null;
+          recipient_phone: string;
+          scheduled_for: string;
+          sent_at: string | null;
+          status: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          body: string;
+          case_id?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          qstash_message_id?: string | null;
+          recipient_name?: string | null;
+          recipient_phone: string;
+          scheduled_for: string;
+          sent_at?: string | null;
+          status?: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          body?: string;
+          case_id?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          qstash_message_id?: string | null;
+          recipient_name?: string | null;
+          recipient_phone?: string;
+          scheduled_for?: string;
+          sent_at?: string | null;
+          status?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_discharge_sms_case_id_fkey";
+            columns: ["case_id"];
+            isOneToOne: false;
+            referencedRelation: "cases";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       session_analytics: {
         Row: {
           actions_performed: string[] | null;
@@ -2994,6 +3937,114 @@ export type Database = {
         };
         Relationships: [];
       };
+      slack_notification_queue: {
+        Row: {
+          clinic_id: string;
+          created_at: string;
+          delivered_at: string | null;
+          id: string;
+          notification_type: string;
+          payload: Json;
+          reason: string;
+          route_id: string;
+          severity: string;
+        };
+        Insert: {
+          clinic_id: string;
+          created_at?: string;
+          delivered_at?: string | null;
+          id?: string;
+          notification_type: string;
+          payload: Json;
+          reason: string;
+          route_id: string;
+          severity: string;
+        };
+        Update: {
+          clinic_id?: string;
+          created_at?: string;
+          delivered_at?: string | null;
+          id?: string;
+          notification_type?: string;
+          payload?: Json;
+          reason?: string;
+          route_id?: string;
+          severity?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "slack_notification_queue_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slack_notification_queue_route_id_fkey";
+            columns: ["route_id"];
+            isOneToOne: false;
+            referencedRelation: "slack_notification_routes";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      slack_notification_routes: {
+        Row: {
+          channel_id: string;
+          channel_name: string | null;
+          clinic_id: string;
+          created_at: string;
+          delivery_mode: string;
+          id: string;
+          is_enabled: boolean;
+          min_severity: string;
+          notification_type: string;
+          updated_at: string;
+          workspace_id: string;
+        };
+        Insert: {
+          channel_id: string;
+          channel_name?: string | null;
+          clinic_id: string;
+          created_at?: string;
+          delivery_mode?: string;
+          id?: string;
+          is_enabled?: boolean;
+          min_severity?: string;
+          notification_type: string;
+          updated_at?: string;
+          workspace_id: string;
+        };
+        Update: {
+          channel_id?: string;
+          channel_name?: string | null;
+          clinic_id?: string;
+          created_at?: string;
+          delivery_mode?: string;
+          id?: string;
+          is_enabled?: boolean;
+          min_severity?: string;
+          notification_type?: string;
+          updated_at?: string;
+          workspace_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "slack_notification_routes_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slack_notification_routes_workspace_id_fkey";
+            columns: ["workspace_id"];
+            isOneToOne: false;
+            referencedRelation: "slack_workspaces";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       slack_reminder_channels: {
         Row: {
           added_by_user_id: string;
@@ -3040,6 +4091,7 @@ export type Database = {
       };
       slack_task_completions: {
         Row: {
+          action: string | null;
           completed_at: string | null;
           completed_by_user_id: string;
           completed_by_username: string | null;
@@ -3049,6 +4101,7 @@ export type Database = {
           task_id: string | null;
         };
         Insert: {
+          action?: string | null;
           completed_at?: string | null;
           completed_by_user_id: string;
           completed_by_username?: string | null;
@@ -3058,6 +4111,7 @@ export type Database = {
           task_id?: string | null;
         };
         Update: {
+          action?: string | null;
           completed_at?: string | null;
           completed_by_user_id?: string;
           completed_by_username?: string | null;
@@ -3078,39 +4132,87 @@ export type Database = {
       };
       slack_tasks: {
         Row: {
+          assigned_to_slack_user_id: string | null;
+          assigned_to_slack_username: string | null;
+          callback_scheduled_for: string | null;
           channel_id: string | null;
+          clinic_id: string | null;
+          clinic_message_id: string | null;
           created_at: string | null;
           created_by_user_id: string;
           description: string | null;
           id: string;
+          inbound_call_id: string | null;
           is_active: boolean | null;
-          reminder_time: string;
+          reminder_time: string | null;
+          slack_channel_id: string | null;
+          slack_message_ts: string | null;
+          status: string | null;
           title: string;
           updated_at: string | null;
         };
         Insert: {
+          assigned_to_slack_user_id?: string | null;
+          assigned_to_slack_username?: string | null;
+          callback_scheduled_for?: string | null;
           channel_id?: string | null;
+          clinic_id?: string | null;
+          clinic_message_id?: string | null;
           created_at?: string | null;
           created_by_user_id: string;
           description?: string | null;
           id?: string;
+          inbound_call_id?: string | null;
           is_active?: boolean | null;
-          reminder_time: string;
+          reminder_time?: string | null;
+          slack_channel_id?: string | null;
+          slack_message_ts?: string | null;
+          status?: string | null;
           title: string;
           updated_at?: string | null;
         };
         Update: {
+          assigned_to_slack_user_id?: string | null;
+          assigned_to_slack_username?: string | null;
+          callback_scheduled_for?: string | null;
           channel_id?: string | null;
+          clinic_id?: string | null;
+          clinic_message_id?: string | null;
           created_at?: string | null;
           created_by_user_id?: string;
           description?: string | null;
           id?: string;
+          inbound_call_id?: string | null;
           is_active?: boolean | null;
-          reminder_time?: string;
+          reminder_time?: string | null;
+          slack_channel_id?: string | null;
+          slack_message_ts?: string | null;
+          status?: string | null;
           title?: string;
           updated_at?: string | null;
         };
         Relationships: [
+          {
+            foreignKeyName: "slack_tasks_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slack_tasks_clinic_message_id_fkey";
+            columns: ["clinic_message_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_messages";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slack_tasks_inbound_call_id_fkey";
+            columns: ["inbound_call_id"];
+            isOneToOne: false;
+            referencedRelation: "inbound_vapi_calls";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "slack_tasks_channel_id_fkey";
             columns: ["channel_id"];
@@ -3162,6 +4264,164 @@ export type Database = {
         };
         Relationships: [];
       };
+      sms_conversations: {
+        Row: {
+          case_id: string | null;
+          client_id: string | null;
+          clinic_id: string;
+          created_at: string;
+          id: string;
+          last_message_at: string | null;
+          last_message_preview: string | null;
+          owner_name: string | null;
+          owner_phone: string;
+          patient_id: string | null;
+          status: string;
+          unread_count: number;
+          updated_at: string;
+          urgency: string | null;
+        };
+        Insert: {
+          case_id?: string | null;
+          client_id?: string | null;
+          clinic_id: string;
+          created_at?: string;
+          id?: string;
+          last_message_at?: string | null;
+          last_message_preview?: string | null;
+          owner_name?: string | null;
+          owner_phone: string;
+          patient_id?: string | null;
+          status?: string;
+          unread_count?: number;
+          updated_at?: string;
+          urgency?: string | null;
+        };
+        Update: {
+          case_id?: string | null;
+          client_id?: string | null;
+          clinic_id?: string;
+          created_at?: string;
+          id?: string;
+          last_message_at?: string | null;
+          last_message_preview?: string | null;
+          owner_name?: string | null;
+          owner_phone?: string;
+          patient_id?: string | null;
+          status?: string;
+          unread_count?: number;
+          updated_at?: string;
+          urgency?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sms_conversations_case_id_fkey";
+            columns: ["case_id"];
+            isOneToOne: false;
+            referencedRelation: "cases";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sms_conversations_client_id_fkey";
+            columns: ["client_id"];
+            isOneToOne: false;
+            referencedRelation: "clients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sms_conversations_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinics";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sms_conversations_patient_id_fkey";
+            columns: ["patient_id"];
+            isOneToOne: false;
+            referencedRelation: "patients";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      sms_messages: {
+        Row: {
+          ai_suggested: boolean;
+          body: string;
+          conversation_id: string;
+          created_at: string;
+          direction: string;
+          id: string;
+          provider_message_id: string | null;
+          scheduled_sms_id: string | null;
+          sent_by_user_id: string | null;
+          status: string;
+          urgency: string | null;
+          urgency_keywords: string[] | null;
+        };
+        Insert: {
+          ai_suggested?: boolean;
+          body: string;
+          conversation_id: string;
+          created_at?: string;
+          direction: string;
+          id?: string;
+          provider_message_id?: string | null;
+          scheduled_sms_id?: string | null;
+          sent_by_user_id?: string | null;
+          status?: string;
+          urgency?: string | null;
+          urgency_keywords?: string[] | null;
+        };
+        Update: {
+          ai_suggested?: boolean;
+          body?: string;
+          conversation_id?: string;
+          created_at?: string;
+          direction?: string;
+          id?: string;
+          provider_message_id?: string | null;
+          scheduled_sms_id?: string | null;
+          sent_by_user_id?: string | null;
+          status?: string;
+          urgency?: string | null;
+          urgency_keywords?: string[] | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sms_messages_conversation_id_fkey";
+            columns: ["conversation_id"];
+            isOneToOne: false;
+            referencedRelation: "sms_conversations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "sms_messages_scheduled_sms_id_fkey";
+            columns: ["scheduled_sms_id"];
+            isOneToOne: false;
+            referencedRelation: "scheduled_discharge_sms";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      sms_opt_outs: {
+        Row: {
+          keyword: string;
+          opted_out_at: string;
+          phone_number: string;
+        };
+        Insert: {
+          keyword: string;
+          opted_out_at?: string;
+          phone_number: string;
+        };
+        Update: {
+          keyword?: string;
+          opted_out_at?: string;
+          phone_number?: string;
+        };
+        Relationships: [];
+      };
       soap_notes: {
         Row: {
           assessment: string | null;
@@ -4156,6 +5416,30 @@ export type Database = {
         Args: { resource: string; user_uuid: string };
         Returns: boolean;
       };
+      claim_pims_sync_job: {
+        Args: { p_lease_seconds?: number; p_worker_id: string };
+        Returns: {
+          attempts: number;
+          clinic_id: string;
+          created_at: string;
+          dedupe_key: string | null;
+          finished_at: string | null;
+          id: string;
+          job_type: string;
+          last_error: string | null;
+          locked_by: string | null;
+          locked_until: string | null;
+          max_attempts: number;
+          payload: Json;
+          progress: Json | null;
+          result: Json | null;
+          run_after: string;
+          source: string;
+          started_at: string | null;
+          status: string;
+          updated_at: string;
+        }[];
+      };
       cleanup_expired_holds: { Args: never; Returns: number };
       confirm_booking: { Args: { p_booking_id: string }; Returns: Json };
       count_booked_in_range: {
@@ -4220,6 +5504,14 @@ export type Database = {
       is_org_owner_or_admin: { Args: never; Returns: boolean };
       is_super_admin: { Args: never; Returns: boolean };
       is_veterinarian: { Args: never; Returns: boolean };
+      record_sms_conversation_inbound: {
+        Args: {
+          p_conversation_id: string;
+          p_preview: string;
+          p_urgency?: string;
+        };
+        Returns: string;
+      };
       safe_uid: { Args: never; Returns: string };
       set_user_default_soap_template: {
         Args: { template_uuid: string; user_uuid: string };
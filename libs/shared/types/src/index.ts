@@ -22,16 +22,22 @@ export * from "./pims";
 export * from "./schedule";
 export * from "./services";
 export * from "./supabase";
+export * from "./triage";
 
 // Orchestration exports (avoid name collisions)
 export type {
+  BuiltInStepName,
   CallResult,
+  CustomStepNames,
   EmailResult,
   EmailScheduleResult,
   ExecutionContext,
   ExtractEntitiesResult,
   IngestResult as OrchestrationIngestResult,
   OrchestrationResult,
+  OrchestrationRun,
+  OrchestrationRunStatus,
+  OrchestrationStepAttempt,
   StepName,
   StepResult,
   SummaryResult,
@@ -14,15 +14,39 @@ import type { NormalizedEntities } from "./entities";
    ======================================== */
 
 /**
- * Step names in the orchestration workflow
+ * Built-in steps of the discharge workflow
  */
-export type StepName =
+export type BuiltInStepName =
   | "ingest"
   | "extractEntities"
   | "generateSummary"
   | "prepareEmail"
   | "scheduleEmail"
-  | "scheduleCall";
+  | "scheduleCall"
+  | "scheduleSms";
+
+/**
+ * Names of steps registered on top of the built-ins
+ *
+ * Empty by default. Code that registers a custom step declares its name
+ * here so StepName stays a closed union:
+ *
+ * @example
+ * ```ts
+ * declare module "@odis-ai/shared/types/orchestration" {
+ *   interface CustomStepNames {
+ *     postToSlack: true;
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface CustomStepNames {}
+
+/**
+ * Step names in the orchestration workflow
+ */
+export type StepName = keyof (Record<BuiltInStepName, true> & CustomStepNames);
 
 /* ========================================
    Execution Context
@@ -109,6 +133,14 @@ export interface CallResult {
   scheduledFor: string;
 }
 
+/**
+ * Result data for SMS scheduling step
+ */
+export interface SmsScheduleResult {
+  smsId: string;
+  scheduledFor: string;
+}
+
 /* ========================================
    Orchestration Result
    ======================================== */
@@ -129,11 +161,53 @@ export interface OrchestrationResult {
     email?: EmailResult;
     emailSchedule?: EmailScheduleResult;
     call?: CallResult;
+    sms?: SmsScheduleResult;
+    /** Data returned by registered (non built-in) steps, by step name */
+    steps?: Record<string, unknown>;
   };
   metadata: {
+    /** Persisted run; pass to resume or retry failed steps */
+    runId?: string;
     totalProcessingTime: number;
     stepTimings: Record<string, number>;
     warnings?: string[];
     errors?: Array<{ step: StepName; error: string }>;
   };
 }
+
+/* ========================================
+   Orchestration Runs
+   ======================================== */
+
+export type OrchestrationRunStatus = "running" | "completed" | "failed";
+
+/**
+ * One attempt of a step within a persisted run
+ */
+export interface OrchestrationStepAttempt {
+  step: StepName;
+  attempt: number;
+  status: StepResult["status"] | "running";
+  idempotencyKey: string;
+  data?: unknown;
+  error?: string;
+  duration: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * A persisted orchestration run with its step attempts (oldest first)
+ */
+export interface OrchestrationRun {
+  id: string;
+  userId: string;
+  caseId: string | null;
+  status: OrchestrationRunStatus;
+  request: unknown;
+  resumeCount: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  steps: OrchestrationStepAttempt[];
+}
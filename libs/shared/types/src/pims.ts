@@ -27,6 +27,7 @@ export interface IPimsProvider {
 
   /**
    * Fetch appointments for a date range
+   * Throws when the PIMS can't be read; an empty array means no appointments.
    */
   fetchAppointments(startDate: Date, endDate: Date): Promise<PimsAppointment[]>;
 
@@ -35,12 +36,144 @@ export interface IPimsProvider {
    */
   fetchConsultation(consultationId: string): Promise<PimsConsultation | null>;
 
+  /**
+   * Write operations this provider supports
+   * Omitted or empty means the provider is read-only. Check with
+   * `hasPimsCapability()` before calling any of the optional write methods.
+   */
+  readonly capabilities?: readonly PimsWriteCapability[];
+
+  /**
+   * Search for patients by name or ID
+   */
+  searchPatient?(
+    params: PimsPatientSearchParams,
+  ): Promise<PimsPatientSearchResult>;
+
+  /**
+   * Create an appointment for an existing patient, or for a new client and
+   * patient when `newClient`/`newPatient` are given instead of `patientId`
+   */
+  createAppointment?(
+    input: PimsCreateAppointmentInput,
+  ): Promise<PimsWriteResult>;
+
+  /**
+   * Cancel an appointment
+   */
+  cancelAppointment?(
+    input: PimsCancelAppointmentInput,
+  ): Promise<PimsWriteResult>;
+
+  /**
+   * Move an appointment to a new time
+   * `appointmentId` in the result is the appointment at the new time, which
+   * may differ from the original if the PIMS reschedules by cancel + create.
+   */
+  rescheduleAppointment?(
+    input: PimsRescheduleAppointmentInput,
+  ): Promise<PimsWriteResult>;
+
+  /**
+   * Mark an appointment as confirmed by the client
+   */
+  confirmAppointment?(
+    input: PimsConfirmAppointmentInput,
+  ): Promise<PimsWriteResult>;
+
+  /**
+   * Create a client (owner) record
+   */
+  createClient?(input: PimsNewClient): Promise<PimsWriteResult>;
+
+  /**
+   * Create a patient record under an existing client
+   */
+  createPatient?(input: PimsCreatePatientInput): Promise<PimsWriteResult>;
+
   /**
    * Cleanup resources (close browser, etc.)
    */
   close(): Promise<void>;
 }
 
+/**
+ * Optional write operations a PIMS provider can support
+ * Each value is also the name of the IPimsProvider method that performs it.
+ */
+export type PimsWriteCapability =
+  | "searchPatient"
+  | "createAppointment"
+  | "cancelAppointment"
+  | "rescheduleAppointment"
+  | "confirmAppointment"
+  | "createClient"
+  | "createPatient";
+
+/**
+ * Check whether a provider supports a write operation
+ * Requires both the declared capability and the method, so callers can
+ * safely call the method afterwards.
+ */
+export function hasPimsCapability<C extends PimsWriteCapability>(
+  provider: IPimsProvider,
+  capability: C,
+): provider is IPimsProvider & Required<Pick<IPimsProvider, C>> {
+  return (
+    (provider.capabilities?.includes(capability) ?? false) &&
+    typeof provider[capability] === "function"
+  );
+}
+
+/**
+ * Write operations of the IDEXX Neo provider
+ */
+export const IDEXX_NEO_CAPABILITIES: readonly PimsWriteCapability[] = [
+  "searchPatient",
+  "createAppointment",
+  "cancelAppointment",
+  "rescheduleAppointment",
+  // confirmAppointment stays off until discovery confirms the status endpoint
+  "createClient",
+  "createPatient",
+];
+
+/**
+ * Write operations of the ezyVet provider (read-only today)
+ */
+export const EZYVET_CAPABILITIES: readonly PimsWriteCapability[] = [];
+
+/**
+ * Provider write operations keyed by clinics.pims_type
+ * Lets callers check capabilities without constructing a provider.
+ */
+const PIMS_TYPE_CAPABILITIES: Record<string, readonly PimsWriteCapability[]> = {
+  idexx: IDEXX_NEO_CAPABILITIES,
+  idexx_neo: IDEXX_NEO_CAPABILITIES,
+  ezyvet: EZYVET_CAPABILITIES,
+};
+
+/**
+ * List the write operations a PIMS type supports
+ * Unknown or missing types support none.
+ */
+export function getPimsTypeCapabilities(
+  pimsType: string | null | undefined,
+): readonly PimsWriteCapability[] {
+  return (pimsType ? PIMS_TYPE_CAPABILITIES[pimsType] : undefined) ?? [];
+}
+
+/**
+ * List the write operations a provider supports
+ */
+export function getPimsCapabilities(
+  provider: IPimsProvider,
+): PimsWriteCapability[] {
+  return (provider.capabilities ?? []).filter((capability) =>
+    hasPimsCapability(provider, capability),
+  );
+}
+
 /**
  * PIMS authentication credentials
  */
@@ -94,6 +227,139 @@ export interface PimsAppointment {
   reason: string | null;
 }
 
+/**
+ * New client (owner) details for PIMS write operations
+ */
+export interface PimsNewClient {
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+/**
+ * New patient details for PIMS write operations
+ */
+export interface PimsNewPatient {
+  name: string;
+  species: string;
+  breed?: string;
+  age?: string;
+  color?: string;
+  sex?: string;
+  weight?: string;
+}
+
+/**
+ * Input for creating a patient under an existing client
+ */
+export interface PimsCreatePatientInput extends PimsNewPatient {
+  clientId: string;
+}
+
+/**
+ * Input for creating an appointment
+ */
+export interface PimsCreateAppointmentInput {
+  // Existing patient workflow
+  patientId?: string;
+  patientName?: string;
+  clientName?: string;
+  clientId?: string;
+
+  // New client/patient workflow
+  newClient?: PimsNewClient;
+  newPatient?: PimsNewPatient;
+
+  // Appointment details
+  providerId?: string;
+  providerName?: string;
+  reason: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  roomId?: string;
+  note?: string;
+  appointmentTypeId?: string;
+}
+
+/**
+ * Input for cancelling an appointment
+ */
+export interface PimsCancelAppointmentInput {
+  appointmentId: string;
+  reason?: string;
+}
+
+/**
+ * Input for rescheduling an appointment
+ * Carries the full new appointment so providers without a native
+ * reschedule can cancel + create.
+ */
+export interface PimsRescheduleAppointmentInput extends PimsCreateAppointmentInput {
+  /** Appointment being moved */
+  appointmentId: string;
+  /** Reason recorded against the original appointment */
+  cancelReason?: string;
+}
+
+/**
+ * Input for confirming an appointment
+ */
+export interface PimsConfirmAppointmentInput {
+  appointmentId: string;
+  /** Recorded against the appointment (e.g., "Confirmed via reminder call") */
+  note?: string;
+}
+
+/**
+ * Result of a PIMS write operation
+ */
+export interface PimsWriteResult {
+  success: boolean;
+  appointmentId?: string;
+  clientId?: string;
+  patientId?: string;
+  message?: string;
+  error?: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
+
+/**
+ * Patient search parameters
+ */
+export interface PimsPatientSearchParams {
+  query: string; // Name or ID
+  limit?: number;
+}
+
+/**
+ * Patient returned by a PIMS patient search
+ */
+export interface PimsPatientMatch {
+  id: string;
+  name: string;
+  clientId: string;
+  clientName: string;
+  species: string;
+  breed?: string;
+}
+
+/**
+ * Patient search result
+ */
+export interface PimsPatientSearchResult {
+  patients: PimsPatientMatch[];
+  totalCount: number;
+}
+
 /**
  * PIMS consultation details
  */
@@ -139,6 +405,8 @@ export interface SyncStats {
   skipped: number;
   failed: number;
   deleted?: number; // Reconciliation only
+  moved?: number; // Inbound only: rescheduled to a new date/time
+  cancelled?: number; // Inbound only: newly cancelled or removed from the PIMS
 }
 
 /**
@@ -148,10 +416,87 @@ export interface ReconciliationResult extends SyncResult {
   stats: SyncStats & {
     deleted: number;
     reconciled: number;
+    restored?: number;
+    relinked?: number;
   };
   deletedCases?: string[]; // Case IDs that were soft-deleted
+  /** Planned (dry run) or applied actions */
+  plan?: ReconciliationPlan;
 }
 
+/**
+ * Change the reconciler makes to a single case
+ * - delete: soft-delete, appointment no longer in the PIMS
+ * - restore: undo an earlier soft-delete, appointment is back in the PIMS
+ * - relink: point the case at the appointment it was rebooked as
+ * - update_status: case status follows the PIMS appointment status
+ */
+export type ReconciliationActionType =
+  "delete" | "restore" | "relink" | "update_status";
+
+/**
+ * Scheduled call or email attached to a case the reconciler would change
+ */
+export interface ReconciliationLinkedItem {
+  id: string;
+  status: string;
+  scheduledFor: string | null;
+}
+
+export interface ReconciliationAction {
+  /** Stable ID for selecting actions to apply (`<type>:<caseId>`) */
+  id: string;
+  type: ReconciliationActionType;
+  caseId: string;
+  externalId: string | null;
+  patientName: string | null;
+  scheduledAt: string | null;
+  /** Machine-readable reason (e.g. removed_from_pims, rebooked_in_pims) */
+  reason: string;
+  /** Human-readable explanation for reviewers */
+  description: string;
+  /** Case status when the plan was built */
+  fromStatus: string | null;
+  toStatus: string | null;
+  /** relink only: the appointment the case moves to */
+  relinkTo?: {
+    externalId: string;
+    appointmentId: string;
+    scheduledAt: string | null;
+    appointment: PimsAppointment;
+  };
+  /** delete only: the case already created for the rebooked appointment */
+  replacementCaseId?: string;
+  linkedCalls: ReconciliationLinkedItem[];
+  linkedEmails: ReconciliationLinkedItem[];
+}
+
+/**
+ * Full diff produced by a reconciliation run
+ */
+export interface ReconciliationPlan {
+  clinicId: string;
+  generatedAt: string;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  casesChecked: number;
+  actions: ReconciliationAction[];
+}
+
+/**
+ * Progress snapshot reported while a sync runs
+ */
+export interface SyncProgress {
+  syncId: string;
+  processed: number;
+  total: number;
+  percentage: number;
+}
+
+export type SyncProgressCallback = (progress: SyncProgress) => void;
+
 /**
  * Sync options
  */
@@ -171,6 +516,12 @@ export interface InboundSyncOptions {
     end: Date;
   };
   forceFullSync?: boolean;
+  onProgress?: SyncProgressCallback;
+  /**
+   * Aborted when the caller gives up on the run
+   * The sync stops before its next write and leaves the cursor alone.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -187,6 +538,9 @@ export interface CaseSyncOptions {
    * Default: false (inline processing for backward compatibility)
    */
   backgroundAIGeneration?: boolean;
+  onProgress?: SyncProgressCallback;
+  /** Stops enriching the remaining cases once aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -194,4 +548,9 @@ export interface CaseSyncOptions {
  */
 export interface ReconciliationOptions {
   lookbackDays?: number; // Default: 7
+  /** Build the plan without changing any cases */
+  dryRun?: boolean;
+  onProgress?: SyncProgressCallback;
+  /** Stops before changing any more cases once aborted */
+  signal?: AbortSignal;
 }
@@ -63,6 +63,29 @@ export interface CaseScheduleOptions {
   summaryContent?: string;
 }
 
+/**
+ * Reasons a clinic schedules a post-visit follow-up call
+ */
+export const FOLLOW_UP_CALL_REASONS = [
+  "recheck",
+  "suture_removal",
+  "lab_results",
+  "medication_complete",
+] as const;
+
+export type FollowUpCallReason = (typeof FOLLOW_UP_CALL_REASONS)[number];
+
+/**
+ * Options for scheduling a follow-up call, separate from the discharge call
+ */
+export interface FollowUpScheduleOptions extends CaseScheduleOptions {
+  reason: FollowUpCallReason;
+  /** Days after the visit to call; ignored when scheduledAt is set */
+  daysAfterVisit: number;
+  /** Results to relay on lab_results follow-ups */
+  labResultsSummary?: string;
+}
+
 /**
  * Result of case ingestion
  */
@@ -76,6 +99,11 @@ export interface IngestResult {
    Scheduled Call Types
    ======================================== */
 
+/**
+ * Kind of outbound call stored in scheduled_discharge_calls
+ */
+export type ScheduledCallType = "discharge" | "follow-up" | "reminder";
+
 /**
  * Metadata structure for scheduled calls
  */
@@ -95,6 +123,7 @@ export interface ScheduledDischargeCall {
   id: string;
   user_id: string;
   case_id: string | null;
+  call_type: ScheduledCallType;
   assistant_id: string;
   outbound_phone_number_id: string;
   customer_phone: string;
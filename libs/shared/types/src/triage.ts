@@ -0,0 +1,13 @@
+/**
+ * Triage Types
+ *
+ * Urgency levels shared by emergency triage calls and inbound texts, so both
+ * sort the same way in the dashboard.
+ */
+
+/**
+ * Urgency levels, most severe first
+ */
+export const URGENCY_LEVELS = ["critical", "urgent", "monitor"] as const;
+
+export type UrgencyLevel = (typeof URGENCY_LEVELS)[number];
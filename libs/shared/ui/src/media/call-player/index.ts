@@ -7,7 +7,16 @@ export { WaveformScrubber } from "./waveform-scrubber";
 export { TranscriptPanel } from "./transcript-panel";
 export { PlainTranscriptPanel } from "./plain-transcript-panel";
 export { useAudioPlayer } from "./use-audio-player";
-export { formatTime, parseTranscript } from "./utils";
+export {
+  formatTime,
+  parseTranscript,
+  PLAYBACK_RATES,
+  getNextPlaybackRate,
+  clampTime,
+  generateWaveformBars,
+  getMessageStartTime,
+  findActiveMessageIndex,
+} from "./utils";
 
 export type {
   CallPlayerProps,
@@ -16,4 +25,5 @@ export type {
   PlainTranscriptPanelProps,
   UseAudioPlayerOptions,
   UseAudioPlayerReturn,
+  AudioPlayerState,
 } from "./types";
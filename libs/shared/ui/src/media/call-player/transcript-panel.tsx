@@ -4,7 +4,11 @@ import { useRef, useEffect, useMemo, useCallback, useState } from "react";
 import { motion } from "framer-motion";
 import { Bot, User } from "lucide-react";
 import { cn } from "@odis-ai/shared/util";
-import { formatTime } from "./utils";
+import {
+  findActiveMessageIndex,
+  formatTime,
+  getMessageStartTime,
+} from "./utils";
 import type { TranscriptPanelProps } from "./types";
 
 export function TranscriptPanel({
@@ -19,14 +23,10 @@ export function TranscriptPanel({
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Find active message
-  const activeIndex = useMemo(() => {
-    return messages.findIndex((msg, index) => {
-      const nextMsg = messages[index + 1];
-      const startTime = msg.time ?? msg.secondsFromStart ?? 0;
-      const endTime = nextMsg?.time ?? nextMsg?.secondsFromStart ?? Infinity;
-      return currentTime >= startTime && currentTime < endTime;
-    });
-  }, [messages, currentTime]);
+  const activeIndex = useMemo(
+    () => findActiveMessageIndex(messages, currentTime),
+    [messages, currentTime]
+  );
 
   // Auto-scroll to active message
   useEffect(() => {
@@ -76,7 +76,7 @@ export function TranscriptPanel({
         {messages.map((msg, index) => {
           const isActive = index === activeIndex;
           const isAssistant = msg.role === "assistant";
-          const time = msg.time ?? msg.secondsFromStart ?? 0;
+          const time = getMessageStartTime(msg);
 
           return (
             <motion.div
@@ -43,8 +43,11 @@ export interface UseAudioPlayerOptions {
   onTimeUpdate?: (currentTime: number) => void;
 }
 
-export interface UseAudioPlayerReturn {
-  audioRef: React.RefObject<HTMLAudioElement | null>;
+/**
+ * Playback state and controls, independent of the audio backend
+ * (HTMLAudioElement on web, expo-audio on mobile)
+ */
+export interface AudioPlayerState {
   isPlaying: boolean;
   currentTime: number;
   duration: number;
@@ -57,3 +60,7 @@ export interface UseAudioPlayerReturn {
   toggleMute: () => void;
   cyclePlaybackRate: () => void;
 }
+
+export interface UseAudioPlayerReturn extends AudioPlayerState {
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+}
@@ -2,8 +2,7 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import type { UseAudioPlayerOptions, UseAudioPlayerReturn } from "./types";
-
-const PLAYBACK_RATES = [1, 1.25, 1.5, 2, 0.75] as const;
+import { clampTime, getNextPlaybackRate } from "./utils";
 
 export function useAudioPlayer({
   audioUrl,
@@ -115,9 +114,9 @@ export function useAudioPlayer({
   const skip = useCallback(
     (seconds: number) => {
       if (audioRef.current) {
-        const newTime = Math.max(
-          0,
-          Math.min(audioRef.current.currentTime + seconds, duration)
+        const newTime = clampTime(
+          audioRef.current.currentTime + seconds,
+          duration
         );
         audioRef.current.currentTime = newTime;
         setCurrentTime(newTime);
@@ -136,11 +135,7 @@ export function useAudioPlayer({
 
   const cyclePlaybackRate = useCallback(() => {
     if (audioRef.current) {
-      const currentIndex = PLAYBACK_RATES.indexOf(
-        playbackRate as (typeof PLAYBACK_RATES)[number]
-      );
-      const nextRate =
-        PLAYBACK_RATES[(currentIndex + 1) % PLAYBACK_RATES.length] ?? 1;
+      const nextRate = getNextPlaybackRate(playbackRate);
       audioRef.current.playbackRate = nextRate;
       setPlaybackRate(nextRate);
     }
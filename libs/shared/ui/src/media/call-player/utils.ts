@@ -1,3 +1,5 @@
+import type { TranscriptMessage } from "@odis-ai/shared/types";
+
 /**
  * Format seconds into MM:SS display string
  */
@@ -60,3 +62,67 @@ export function parseTranscript(
 
   return parsed;
 }
+
+/**
+ * Deterministic bar heights (0.25-0.75) for a decorative waveform
+ *
+ * Seeded by duration so the same recording always draws the same shape.
+ */
+export function generateWaveformBars(
+  duration: number,
+  barCount: number
+): number[] {
+  const seed = duration > 0 ? Math.floor(duration * 1000) : 12345;
+  return Array.from({ length: barCount }, (_, i) => {
+    const x = Math.sin(seed * (i + 1) * 0.1) * 10000;
+    return (x - Math.floor(x)) * 0.5 + 0.25;
+  });
+}
+
+/**
+ * Playback speeds cycled by the speed control
+ */
+export const PLAYBACK_RATES = [1, 1.25, 1.5, 2, 0.75] as const;
+
+/**
+ * Next speed after `rate` (wraps around; unknown rates restart the cycle)
+ */
+export function getNextPlaybackRate(rate: number): number {
+  const currentIndex = PLAYBACK_RATES.indexOf(
+    rate as (typeof PLAYBACK_RATES)[number]
+  );
+  return PLAYBACK_RATES[(currentIndex + 1) % PLAYBACK_RATES.length] ?? 1;
+}
+
+/**
+ * Keep a seek target within the recording
+ */
+export function clampTime(time: number, duration: number): number {
+  return Math.max(0, Math.min(time, duration));
+}
+
+/**
+ * Seconds into the recording at which a transcript message starts
+ */
+export function getMessageStartTime(
+  message: Pick<TranscriptMessage, "time" | "secondsFromStart">
+): number {
+  return message.time ?? message.secondsFromStart ?? 0;
+}
+
+/**
+ * Index of the message being spoken at `currentTime`, or -1
+ *
+ * A message lasts until the next one starts.
+ */
+export function findActiveMessageIndex(
+  messages: Pick<TranscriptMessage, "time" | "secondsFromStart">[],
+  currentTime: number
+): number {
+  return messages.findIndex((msg, index) => {
+    const nextMsg = messages[index + 1];
+    const startTime = getMessageStartTime(msg);
+    const endTime = nextMsg?.time ?? nextMsg?.secondsFromStart ?? Infinity;
+    return currentTime >= startTime && currentTime < endTime;
+  });
+}
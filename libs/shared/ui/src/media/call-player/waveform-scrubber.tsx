@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect, useMemo, forwardRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@odis-ai/shared/util";
-import { formatTime } from "./utils";
+import { formatTime, generateWaveformBars } from "./utils";
 import type { WaveformScrubberProps } from "./types";
 
 export const WaveformScrubber = forwardRef<HTMLDivElement, WaveformScrubberProps>(
@@ -19,14 +19,10 @@ export const WaveformScrubber = forwardRef<HTMLDivElement, WaveformScrubberProps
     const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
 
     // Generate deterministic waveform bars
-    const waveformBars = useMemo(() => {
-      const barCount = 64;
-      const seed = duration > 0 ? Math.floor(duration * 1000) : 12345;
-      return Array.from({ length: barCount }, (_, i) => {
-        const x = Math.sin(seed * (i + 1) * 0.1) * 10000;
-        return (x - Math.floor(x)) * 0.5 + 0.25;
-      });
-    }, [duration]);
+    const waveformBars = useMemo(
+      () => generateWaveformBars(duration, 64),
+      [duration]
+    );
 
     // ResizeObserver to track canvas dimensions
     useEffect(() => {
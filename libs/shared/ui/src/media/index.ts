@@ -10,6 +10,12 @@ export {
   useAudioPlayer,
   formatTime,
   parseTranscript,
+  PLAYBACK_RATES,
+  getNextPlaybackRate,
+  clampTime,
+  generateWaveformBars,
+  getMessageStartTime,
+  findActiveMessageIndex,
 } from "./call-player";
 
 export type {
@@ -19,4 +25,5 @@ export type {
   PlainTranscriptPanelProps,
   UseAudioPlayerOptions,
   UseAudioPlayerReturn,
+  AudioPlayerState,
 } from "./call-player";
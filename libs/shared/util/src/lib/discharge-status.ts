@@ -119,6 +119,7 @@ export function deriveDeliveryStatus(
   switch (status) {
     case "completed":
     case "sent":
+    case "delivered":
       return "sent";
     case "queued":
     case "ringing":
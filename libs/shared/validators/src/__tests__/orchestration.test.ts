@@ -3,7 +3,11 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { OrchestrationRequestSchema } from "../orchestration";
+import { z } from "zod";
+import {
+  OrchestrationRequestSchema,
+  OrchestrationStepsSchema,
+} from "../orchestration";
 
 describe("OrchestrationRequestSchema", () => {
   describe("raw data input", () => {
@@ -420,6 +424,36 @@ describe("OrchestrationRequestSchema", () => {
         expect(result.success).toBe(true);
       });
     });
+
+    describe("unknown steps", () => {
+      it("rejects steps that aren't built in", () => {
+        const result = OrchestrationRequestSchema.safeParse({
+          input: {
+            existingCase: {
+              caseId: "123e4567-e89b-12d3-a456-426614174000",
+            },
+          },
+          steps: { ingest: true, sendFax: true },
+        });
+        expect(result.success).toBe(false);
+      });
+
+      it("accepts custom steps added by extending the steps schema", () => {
+        const result = OrchestrationRequestSchema.extend({
+          steps: OrchestrationStepsSchema.extend({
+            postToSlack: z.boolean().optional(),
+          }),
+        }).safeParse({
+          input: {
+            existingCase: {
+              caseId: "123e4567-e89b-12d3-a456-426614174000",
+            },
+          },
+          steps: { ingest: true, postToSlack: true },
+        });
+        expect(result.success).toBe(true);
+      });
+    });
   });
 
   describe("options", () => {
@@ -27,5 +27,20 @@ export * from "./lib/call-scheduling";
 // IDEXX ingest schemas
 export * from "./lib/idexx-ingest";
 
+// Slack notification routing schemas
+export * from "./lib/slack-notifications";
+
+// Mobile push notification schemas
+export * from "./lib/push-notifications";
+
+// Clinic booking rule schemas
+export * from "./lib/booking-rules";
+
+// Appointment type and resource schemas
+export * from "./lib/appointment-types";
+
+// Cancellation waitlist schemas
+export * from "./lib/waitlist";
+
 // Subscription schemas
 export * from "./subscription";
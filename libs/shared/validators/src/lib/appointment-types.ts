@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+const optionalLabel = z
+  .string()
+  .trim()
+  .max(60)
+  .transform((value) => value || null)
+  .nullable()
+  .default(null);
+
+/**
+ * A bookable appointment type (e.g. "Dental consult", 60 minutes in a
+ * dental room with a veterinarian)
+ */
+export const appointmentTypeSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  /** PIMS appointment type id (IDEXX `IdexxAppointmentType.id`) */
+  pimsAppointmentTypeId: optionalLabel,
+  durationMinutes: z.number().int().min(5).max(480),
+  /** Time held after the visit (cleanup, notes) */
+  bufferMinutes: z.number().int().min(0).max(120).default(0),
+  /** Room type a free room must have (e.g. "exam", "dental", "surgery") */
+  requiredRoomType: optionalLabel,
+  /** Role a free provider must have (e.g. "veterinarian", "technician") */
+  requiredProviderRole: optionalLabel,
+  /** Visit reasons containing any keyword resolve to this type */
+  keywords: z.array(z.string().trim().min(1)).default([]),
+  isActive: z.boolean().default(true),
+});
+
+export const clinicResourceKindSchema = z.enum(["room", "provider"]);
+
+/**
+ * A room or provider that appointment types can require
+ */
+export const clinicResourceSchema = z.object({
+  kind: clinicResourceKindSchema,
+  /** Room name, or provider name as it appears on PIMS appointments */
+  name: z.string().trim().min(1, "Name is required").max(120),
+  /** PIMS room or provider id (e.g. IDEXX room id) */
+  pimsResourceId: optionalLabel,
+  /** Rooms only: the room type appointment types match against */
+  roomType: optionalLabel,
+  /** Providers only: the role appointment types match against */
+  providerRole: optionalLabel,
+  isActive: z.boolean().default(true),
+});
+
+export type AppointmentTypeInput = z.input<typeof appointmentTypeSchema>;
+export type AppointmentTypeSettings = z.infer<typeof appointmentTypeSchema>;
+export type ClinicResourceKind = z.infer<typeof clinicResourceKindSchema>;
+export type ClinicResourceInput = z.input<typeof clinicResourceSchema>;
+export type ClinicResourceSettings = z.infer<typeof clinicResourceSchema>;
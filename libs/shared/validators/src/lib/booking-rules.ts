@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm format (e.g., 09:00)");
+
+/**
+ * Booking rule types
+ */
+export const bookingRuleTypeSchema = z.enum([
+  "block_window",
+  "allowed_windows",
+  "hourly_limit",
+  "reserve_last_slots",
+  "provider_only",
+]);
+
+/**
+ * Which bookings a rule applies to; every field that is set must match.
+ * An empty match applies to all bookings.
+ */
+export const bookingRuleMatchSchema = z.object({
+  newClient: z.boolean().optional(),
+  /** Case-insensitive species names (e.g. "rabbit") */
+  species: z.array(z.string().trim().min(1)).optional(),
+  /** Matches when the visit reason contains any keyword (e.g. "surgery") */
+  reasonKeywords: z.array(z.string().trim().min(1)).optional(),
+});
+
+/**
+ * Weekly window in clinic-local time; slots starting inside it are covered
+ */
+export const bookingRuleWindowSchema = z
+  .object({
+    /** 0 = Sunday ... 6 = Saturday */
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  })
+  .refine((window) => window.start < window.end, {
+    message: "Window must end after it starts",
+    path: ["end"],
+  });
+
+/**
+ * Rule settings, keyed by rule type
+ * Stored in clinic_booking_rules (rule_type + config).
+ */
+export const bookingRuleConfigSchema = z.discriminatedUnion("type", [
+  /** Matching bookings can't start inside the window ("no new clients before 9am") */
+  z.object({
+    type: z.literal("block_window"),
+    match: bookingRuleMatchSchema.default({}),
+    window: bookingRuleWindowSchema,
+  }),
+  /** Matching bookings must start inside one of the windows ("surgeries only Tue/Thu mornings") */
+  z.object({
+    type: z.literal("allowed_windows"),
+    match: bookingRuleMatchSchema.default({}),
+    windows: z.array(bookingRuleWindowSchema).min(1),
+  }),
+  /** At most N matching bookings per clock hour ("max 2 sick visits per hour") */
+  z.object({
+    type: z.literal("hourly_limit"),
+    match: bookingRuleMatchSchema.default({}),
+    maxPerHour: z.number().int().min(1).max(50),
+  }),
+  /** The day's last N open slots are held for matching bookings ("hold last slot for emergencies") */
+  z.object({
+    type: z.literal("reserve_last_slots"),
+    reservedFor: bookingRuleMatchSchema,
+    count: z.number().int().min(1).max(10).default(1),
+  }),
+  /**
+   * Matching bookings go to one provider, who must be free and inside their
+   * windows, if any ("exotics only with Dr. Lee")
+   */
+  z.object({
+    type: z.literal("provider_only"),
+    match: bookingRuleMatchSchema,
+    providerName: z.string().trim().min(1),
+    windows: z.array(bookingRuleWindowSchema).default([]),
+  }),
+]);
+
+/**
+ * A named, orderable booking rule as edited in settings
+ */
+export const bookingRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  config: bookingRuleConfigSchema,
+  /** Lower runs first; decides which provider_only rule wins */
+  priority: z.number().int().min(0).default(100),
+  isActive: z.boolean().default(true),
+});
+
+/**
+ * The booking a rule test (or live booking) is checked against
+ */
+export const bookingRuleSubjectSchema = z.object({
+  isNewClient: z.boolean().optional(),
+  species: z.string().trim().min(1).optional(),
+  reason: z.string().trim().min(1).optional(),
+});
+
+export type BookingRuleType = z.infer<typeof bookingRuleTypeSchema>;
+export type BookingRuleMatch = z.infer<typeof bookingRuleMatchSchema>;
+export type BookingRuleWindow = z.infer<typeof bookingRuleWindowSchema>;
+export type BookingRuleConfig = z.infer<typeof bookingRuleConfigSchema>;
+export type BookingRuleConfigInput = z.input<typeof bookingRuleConfigSchema>;
+export type BookingRuleInput = z.input<typeof bookingRuleSchema>;
+export type BookingRuleSubject = z.infer<typeof bookingRuleSubjectSchema>;
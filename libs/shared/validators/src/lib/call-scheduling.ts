@@ -121,3 +121,49 @@ export const scheduleCallSchema = z
   );
 
 export type ScheduleCallInput = z.infer<typeof scheduleCallSchema>;
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm format (e.g., 17:00)");
+
+/**
+ * Per-clinic retry policy for failed outbound calls
+ * Stored in clinics.call_retry_policy; missing fields take the defaults,
+ * which match the original behavior (one retry after 10 minutes).
+ */
+export const callRetryPolicySchema = z.object({
+  /** Retries after the first attempt */
+  maxRetries: z.number().int().min(0).max(10).default(1),
+  /** How the delay grows between retries */
+  backoff: z.enum(["fixed", "linear", "exponential"]).default("fixed"),
+  /** Delay before the first retry */
+  initialDelayMinutes: z.number().int().min(1).max(2880).default(10),
+  /** Cap on any single delay */
+  maxDelayMinutes: z.number().int().min(1).max(10080).default(1440),
+  /** Retry at the next occurrence of this clinic-local time after the delay */
+  retryAtTime: timeOfDaySchema.nullable().default(null),
+  /** Only retry while the clinic is open */
+  respectBusinessHours: z.boolean().default(false),
+  /** Clinic-local window with no calls; may wrap midnight (20:00-09:00) */
+  quietHours: z
+    .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+    .nullable()
+    .default(null),
+  /** VAPI ended reasons that trigger a retry */
+  retryOnEndedReasons: z
+    .array(z.string().min(1))
+    .default([
+      "dial-busy",
+      "dial-no-answer",
+      "silence-timed-out",
+      "customer-did-not-answer",
+    ]),
+  /** Retry after reaching voicemail (otherwise voicemail completes the call) */
+  retryAfterVoicemail: z.boolean().default(false),
+});
+
+export type CallRetryPolicy = z.infer<typeof callRetryPolicySchema>;
+export type CallRetryPolicyInput = z.input<typeof callRetryPolicySchema>;
+
+export const DEFAULT_CALL_RETRY_POLICY: CallRetryPolicy =
+  callRetryPolicySchema.parse({});
@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm format (e.g., 22:00)");
+
+/**
+ * Push notification types (mirrors PushNotificationType)
+ */
+export const pushNotificationTypeSchema = z.enum([
+  "emergency_triage",
+  "attention_case",
+  "call_failed",
+]);
+
+/**
+ * Register the mobile app's Expo push token
+ */
+export const pushDeviceRegistrationSchema = z.object({
+  token: z
+    .string()
+    .regex(/^(Exponent|Expo)PushToken\[.+\]$/, "Expected an Expo push token"),
+  platform: z.enum(["ios", "android"]),
+  deviceName: z.string().max(200).nullable().default(null),
+});
+
+/**
+ * A user's push preferences for one clinic
+ * Stored in push_notification_subscriptions.
+ */
+export const pushSubscriptionSchema = z.object({
+  notificationTypes: z
+    .array(pushNotificationTypeSchema)
+    .default(["emergency_triage", "attention_case", "call_failed"]),
+  /** Only push during the user's on-call shifts */
+  onlyWhenOnCall: z.boolean().default(false),
+  isEnabled: z.boolean().default(true),
+});
+
+/**
+ * Weekly on-call window in clinic-local time
+ * A shift whose end is before its start runs overnight.
+ */
+export const onCallShiftSchema = z
+  .object({
+    /** 0 = Sunday ... 6 = Saturday (day the shift starts) */
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: timeOfDaySchema,
+    endTime: timeOfDaySchema,
+  })
+  .refine((shift) => shift.startTime !== shift.endTime, {
+    message: "Shift start and end must differ",
+    path: ["endTime"],
+  });
+
+export type PushNotificationType = z.infer<typeof pushNotificationTypeSchema>;
+export type PushDeviceRegistration = z.infer<
+  typeof pushDeviceRegistrationSchema
+>;
+export type PushSubscriptionPreferences = z.infer<
+  typeof pushSubscriptionSchema
+>;
+export type OnCallShift = z.infer<typeof onCallShiftSchema>;
+
+export const DEFAULT_PUSH_SUBSCRIPTION: PushSubscriptionPreferences =
+  pushSubscriptionSchema.parse({});
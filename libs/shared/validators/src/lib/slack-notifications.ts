@@ -0,0 +1,76 @@
+import { z } from "zod";
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm format (e.g., 22:00)");
+
+/**
+ * Slack notification types (mirrors SlackNotificationType)
+ */
+export const slackNotificationTypeSchema = z.enum([
+  "appointment_booked",
+  "emergency_triage",
+  "callback_request",
+  "call_failed",
+  "sync_error",
+  "admin_alert",
+  "morning_digest",
+]);
+
+/**
+ * Notification severity, least to most severe
+ */
+export const slackSeveritySchema = z.enum([
+  "info",
+  "warning",
+  "error",
+  "critical",
+]);
+
+/**
+ * Route one notification type to a channel in an installed workspace
+ * Stored in slack_notification_routes (one per clinic and type).
+ */
+export const slackNotificationRouteSchema = z.object({
+  notificationType: slackNotificationTypeSchema,
+  /** slack_workspaces.id */
+  workspaceId: z.string().uuid(),
+  channelId: z.string().min(1),
+  channelName: z.string().nullable().default(null),
+  /** Notifications below this severity are dropped */
+  minSeverity: slackSeveritySchema.default("info"),
+  /** "digest" batches notifications into the hourly digest */
+  deliveryMode: z.enum(["immediate", "digest"]).default("immediate"),
+  isEnabled: z.boolean().default(true),
+});
+
+/**
+ * Per-clinic Slack notification preferences
+ * Stored in clinics.slack_notification_preferences; missing fields take
+ * the defaults (no quiet hours).
+ */
+export const slackNotificationPreferencesSchema = z.object({
+  /** Clinic-local window with no pings; may wrap midnight (22:00-07:00) */
+  quietHours: z
+    .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+    .nullable()
+    .default(null),
+  /** Notifications at or above this severity still go out in quiet hours */
+  quietHoursBypassSeverity: slackSeveritySchema.default("critical"),
+  /** Clinic-local time the morning digest goes out (needs a morning_digest route) */
+  morningDigestTime: timeOfDaySchema.default("07:00"),
+});
+
+export type SlackSeverity = z.infer<typeof slackSeveritySchema>;
+export type SlackNotificationRoute = z.infer<
+  typeof slackNotificationRouteSchema
+>;
+export type SlackNotificationRouteInput = z.input<
+  typeof slackNotificationRouteSchema
+>;
+export type SlackNotificationPreferences = z.infer<
+  typeof slackNotificationPreferencesSchema
+>;
+
+export const DEFAULT_SLACK_NOTIFICATION_PREFERENCES: SlackNotificationPreferences =
+  slackNotificationPreferencesSchema.parse({});
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD format");
+
+/**
+ * Days a waitlisted client can come in (inclusive, clinic-local dates)
+ */
+export const waitlistDateRangeSchema = z
+  .object({
+    start_date: dateSchema,
+    end_date: dateSchema,
+  })
+  .refine((range) => range.start_date <= range.end_date, {
+    message: "Range must end on or after its start",
+    path: ["end_date"],
+  });
+
+export const waitlistContactMethodSchema = z.enum(["call", "sms"]);
+
+export const waitlistStatusSchema = z.enum([
+  "waiting",
+  "offered",
+  "booked",
+  "removed",
+]);
+
+/**
+ * A client waiting for a cancellation (stored in appointment_waitlist)
+ */
+export const waitlistEntrySchema = z.object({
+  clientName: z.string().trim().min(1, "Client name is required").max(120),
+  clientPhone: z.string().trim().min(7, "Phone number is required").max(30),
+  patientName: z.string().trim().min(1, "Pet name is required").max(120),
+  species: z.string().trim().max(60).optional(),
+  reason: z.string().trim().max(500).optional(),
+  /** Clinic appointment type name (e.g. "Dental consult") */
+  appointmentType: z.string().trim().max(120).optional(),
+  isNewClient: z.boolean().default(false),
+  /** Empty means any day */
+  preferredRanges: z.array(waitlistDateRangeSchema).max(10).default([]),
+  contactMethod: waitlistContactMethodSchema.default("call"),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export type WaitlistDateRange = z.infer<typeof waitlistDateRangeSchema>;
+export type WaitlistContactMethod = z.infer<typeof waitlistContactMethodSchema>;
+export type WaitlistStatus = z.infer<typeof waitlistStatusSchema>;
+export type WaitlistEntryInput = z.input<typeof waitlistEntrySchema>;
+export type WaitlistEntrySettings = z.infer<typeof waitlistEntrySchema>;
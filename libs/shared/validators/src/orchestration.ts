@@ -123,24 +123,50 @@ const ScheduleCallStepSchema = z.union([
   }),
 ]);
 
+/**
+ * Schema for schedule SMS step configuration
+ * phoneNumber defaults to the patient's owner phone; onlyIfCallMissed
+ * cancels the text at send time if the discharge call reached the owner
+ */
+const ScheduleSmsStepSchema = z.union([
+  z.boolean(),
+  z.object({
+    phoneNumber: z.string().optional(),
+    scheduledFor: z.coerce.date().optional(),
+    body: z.string().min(1).max(1600).optional(),
+    onlyIfCallMissed: z.boolean().optional(),
+  }),
+]);
+
 /* ========================================
    Main Orchestration Request Schema
    ======================================== */
 
 /**
- * Main orchestration request schema
- * Validates the complete orchestration request including input, steps, and options
+ * Step configurations for the built-in steps
+ * Unknown steps are rejected. Callers that register custom steps extend
+ * this with their own entries, e.g.
+ * `OrchestrationStepsSchema.extend({ postToSlack: z.boolean().optional() })`.
  */
-export const OrchestrationRequestSchema = z.object({
-  input: z.union([RawDataInputSchema, ExistingCaseInputSchema]),
-  steps: z.object({
+export const OrchestrationStepsSchema = z
+  .object({
     ingest: IngestStepSchema.optional(),
     extractEntities: ExtractEntitiesStepSchema.optional(),
     generateSummary: GenerateSummaryStepSchema.optional(),
     prepareEmail: PrepareEmailStepSchema.optional(),
     scheduleEmail: ScheduleEmailStepSchema.optional(),
     scheduleCall: ScheduleCallStepSchema.optional(),
-  }),
+    scheduleSms: ScheduleSmsStepSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Main orchestration request schema
+ * Validates the complete orchestration request including input, steps, and options
+ */
+export const OrchestrationRequestSchema = z.object({
+  input: z.union([RawDataInputSchema, ExistingCaseInputSchema]),
+  steps: OrchestrationStepsSchema,
   options: z
     .object({
       stopOnError: z.boolean().optional().default(false),
@@ -167,3 +193,4 @@ export type GenerateSummaryStepConfig = z.infer<
 export type PrepareEmailStepConfig = z.infer<typeof PrepareEmailStepSchema>;
 export type ScheduleEmailStepConfig = z.infer<typeof ScheduleEmailStepSchema>;
 export type ScheduleCallStepConfig = z.infer<typeof ScheduleCallStepSchema>;
+export type ScheduleSmsStepConfig = z.infer<typeof ScheduleSmsStepSchema>;
@@ -0,0 +1,47 @@
+-- Migration: Create ezyVet credentials table
+-- Stores encrypted ezyVet OAuth client credentials for clinics on ezyVet (clinics.pims_type = 'ezyvet')
+
+CREATE TABLE IF NOT EXISTS ezyvet_credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  partner_id TEXT NOT NULL,
+  client_id_encrypted BYTEA NOT NULL,
+  client_secret_encrypted BYTEA NOT NULL,
+  encryption_key_id TEXT NOT NULL DEFAULT 'default',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create indexes for common query patterns
+CREATE INDEX IF NOT EXISTS idx_ezyvet_credentials_clinic_id ON ezyvet_credentials(clinic_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ezyvet_credentials_active_clinic ON ezyvet_credentials(clinic_id) WHERE is_active = true;
+
+-- Enable Row Level Security
+ALTER TABLE ezyvet_credentials ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own credentials
+CREATE POLICY "Users can view their own ezyvet credentials"
+  ON ezyvet_credentials FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own ezyvet credentials"
+  ON ezyvet_credentials FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own ezyvet credentials"
+  ON ezyvet_credentials FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Service role bypass for pims-sync
+CREATE POLICY "Service role has full access to ezyvet credentials"
+  ON ezyvet_credentials FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE ezyvet_credentials IS 'Stores encrypted ezyVet OAuth client credentials per clinic';
+COMMENT ON COLUMN ezyvet_credentials.partner_id IS 'ezyVet partner ID issued to ODIS (not secret)';
+COMMENT ON COLUMN ezyvet_credentials.client_id_encrypted IS 'AES-256-GCM encrypted ezyVet client_id';
+COMMENT ON COLUMN ezyvet_credentials.client_secret_encrypted IS 'AES-256-GCM encrypted ezyVet client_secret';
+COMMENT ON COLUMN ezyvet_credentials.encryption_key_id IS 'Identifier for the encryption key used';
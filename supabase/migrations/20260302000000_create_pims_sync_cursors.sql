@@ -0,0 +1,26 @@
+-- Migration: Create pims_sync_cursors table
+-- Per-clinic inbound sync cursor so each run only re-fetches days that may
+-- have changed and skips appointments whose content hash is unchanged
+
+CREATE TABLE IF NOT EXISTS pims_sync_cursors (
+  clinic_id UUID PRIMARY KEY REFERENCES clinics(id) ON DELETE CASCADE,
+  window_start DATE,
+  window_end DATE,
+  last_synced_at TIMESTAMPTZ,
+  days JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE pims_sync_cursors ENABLE ROW LEVEL SECURITY;
+
+-- Service role bypass for pims-sync (no user-facing access)
+CREATE POLICY "Service role has full access to pims sync cursors"
+  ON pims_sync_cursors FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE pims_sync_cursors IS 'Inbound PIMS sync state per clinic: last successful window plus per-day fetch times and appointment content hashes';
+COMMENT ON COLUMN pims_sync_cursors.window_start IS 'First clinic-local day of the last successful inbound sync window';
+COMMENT ON COLUMN pims_sync_cursors.window_end IS 'Last clinic-local day of the last successful inbound sync window';
+COMMENT ON COLUMN pims_sync_cursors.days IS 'Map of YYYY-MM-DD to {syncedAt, appointments: {appointmentId: sha256}}';
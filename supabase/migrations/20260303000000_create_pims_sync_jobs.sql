@@ -0,0 +1,184 @@
+-- Migration: Durable job queue for pims-sync
+--
+-- Replaces in-memory node-cron execution. Sync requests and scheduled ticks
+-- are enqueued here and run by any pims-sync replica that leases them.
+--
+-- - Leasing: workers claim a job for a limited time and extend it while
+--   running; jobs whose lease expires (crashed/restarted worker) are requeued
+-- - Per-clinic mutual exclusion: at most one running job per clinic
+-- - Retries with exponential backoff (run_after), then dead-lettering
+-- - History: one pims_sync_job_history row per attempt
+
+-- ============================================================================
+-- TABLE: pims_sync_jobs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pims_sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'dead_letter')),
+  source TEXT NOT NULL DEFAULT 'api'
+    CHECK (source IN ('api', 'schedule')),
+  -- Collapses duplicate enqueues (e.g. the same cron tick on two replicas)
+  dedupe_key TEXT UNIQUE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  result JSONB,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One running job per clinic (enforced even if two workers race the claim)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pims_sync_jobs_running_clinic
+  ON pims_sync_jobs(clinic_id)
+  WHERE status = 'running';
+
+-- Claim scan
+CREATE INDEX IF NOT EXISTS idx_pims_sync_jobs_queued
+  ON pims_sync_jobs(run_after, created_at)
+  WHERE status = 'queued';
+
+-- Per-clinic job listing
+CREATE INDEX IF NOT EXISTS idx_pims_sync_jobs_clinic_created
+  ON pims_sync_jobs(clinic_id, created_at DESC);
+
+ALTER TABLE pims_sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to pims sync jobs"
+  ON pims_sync_jobs FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE pims_sync_jobs IS 'Durable pims-sync job queue with leasing, per-clinic mutual exclusion, retries and dead-lettering';
+COMMENT ON COLUMN pims_sync_jobs.status IS 'queued | running | succeeded | failed (sync reported errors) | dead_letter (gave up)';
+COMMENT ON COLUMN pims_sync_jobs.locked_until IS 'Lease expiry; running jobs past this are requeued by the next claim';
+
+-- ============================================================================
+-- TABLE: pims_sync_job_history
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pims_sync_job_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES pims_sync_jobs(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  worker_id TEXT,
+  status TEXT NOT NULL
+    CHECK (status IN ('succeeded', 'failed', 'retrying', 'dead_letter', 'lease_expired')),
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pims_sync_job_history_job
+  ON pims_sync_job_history(job_id, attempt);
+
+CREATE INDEX IF NOT EXISTS idx_pims_sync_job_history_clinic_created
+  ON pims_sync_job_history(clinic_id, created_at DESC);
+
+ALTER TABLE pims_sync_job_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to pims sync job history"
+  ON pims_sync_job_history FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE pims_sync_job_history IS 'One row per pims-sync job attempt';
+
+-- ============================================================================
+-- FUNCTION: claim_pims_sync_job
+-- ============================================================================
+-- Leases the next runnable job to a worker. Returns no rows when nothing is
+-- runnable. First recovers jobs whose lease expired so they can be retried.
+
+CREATE OR REPLACE FUNCTION claim_pims_sync_job(
+  p_worker_id text,
+  p_lease_seconds int DEFAULT 300
+)
+RETURNS SETOF pims_sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_job pims_sync_jobs%ROWTYPE;
+BEGIN
+  -- Recover jobs from workers that stopped heartbeating
+  WITH expired AS (
+    UPDATE pims_sync_jobs
+    SET
+      status = CASE
+        WHEN attempts >= max_attempts THEN 'dead_letter'
+        ELSE 'queued'
+      END,
+      last_error = 'Lease expired on worker ' || COALESCE(locked_by, 'unknown'),
+      locked_by = NULL,
+      locked_until = NULL,
+      finished_at = CASE WHEN attempts >= max_attempts THEN now() END,
+      updated_at = now()
+    WHERE status = 'running'
+      AND locked_until < now()
+    RETURNING *
+  )
+  INSERT INTO pims_sync_job_history (
+    job_id, clinic_id, job_type, attempt, status, error, started_at
+  )
+  SELECT
+    e.id,
+    e.clinic_id,
+    e.job_type,
+    e.attempts,
+    CASE WHEN e.status = 'dead_letter' THEN 'dead_letter' ELSE 'lease_expired' END,
+    e.last_error,
+    e.started_at
+  FROM expired e;
+
+  -- Oldest runnable job for a clinic with nothing running
+  SELECT j.* INTO v_job
+  FROM pims_sync_jobs j
+  WHERE j.status = 'queued'
+    AND j.run_after <= now()
+    AND NOT EXISTS (
+      SELECT 1
+      FROM pims_sync_jobs r
+      WHERE r.clinic_id = j.clinic_id
+        AND r.status = 'running'
+    )
+  ORDER BY j.run_after, j.created_at
+  FOR UPDATE SKIP LOCKED
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  BEGIN
+    UPDATE pims_sync_jobs
+    SET
+      status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      started_at = now(),
+      updated_at = now()
+    WHERE id = v_job.id
+    RETURNING * INTO v_job;
+  EXCEPTION WHEN unique_violation THEN
+    -- Another worker started a job for this clinic concurrently
+    RETURN;
+  END;
+
+  RETURN NEXT v_job;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_pims_sync_job IS 'Lease the next runnable pims-sync job (one running job per clinic)';
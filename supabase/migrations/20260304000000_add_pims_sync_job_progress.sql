@@ -0,0 +1,23 @@
+-- Migration: Live progress for pims-sync jobs
+--
+-- Per-phase progress (inbound, enrichment, reconciliation) written by the
+-- worker while a job runs. Read by GET /api/sync/jobs/:id and its SSE stream.
+--
+-- Shape:
+-- {
+--   "percentage": 42,
+--   "etaSeconds": 95,
+--   "currentPhase": "enrichment",
+--   "updatedAt": "...",
+--   "phases": [
+--     { "phase": "inbound", "status": "completed", "processed": 40,
+--       "total": 40, "percentage": 100, "etaSeconds": 0, ... },
+--     ...
+--   ]
+-- }
+
+ALTER TABLE pims_sync_jobs
+  ADD COLUMN IF NOT EXISTS progress JSONB;
+
+COMMENT ON COLUMN pims_sync_jobs.progress IS
+  'Per-phase progress of the current attempt (counts, percentage, ETA)';
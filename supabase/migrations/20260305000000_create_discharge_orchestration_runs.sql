@@ -0,0 +1,123 @@
+-- Migration: Persisted discharge orchestration runs
+--
+-- Each POST /api/discharge/orchestrate call becomes a run with one row per
+-- step attempt, so a run that failed part-way (e.g. summary generation after
+-- ingestion) can be resumed from the first failed step instead of re-sent.
+--
+-- - discharge_orchestration_runs: the request and overall outcome
+-- - discharge_orchestration_steps: one row per step attempt; the
+--   (run_id, idempotency_key) unique constraint makes retries idempotent
+
+-- ============================================================================
+-- TABLE: discharge_orchestration_runs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS discharge_orchestration_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Known up front for existing cases, set after ingestion for raw data
+  case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  -- The validated OrchestrationRequest, replayed on resume
+  request JSONB NOT NULL,
+  resume_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_discharge_orchestration_runs_case
+  ON discharge_orchestration_runs(case_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_discharge_orchestration_runs_user
+  ON discharge_orchestration_runs(user_id, created_at DESC);
+
+ALTER TABLE discharge_orchestration_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own orchestration runs"
+  ON discharge_orchestration_runs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own orchestration runs"
+  ON discharge_orchestration_runs
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own orchestration runs"
+  ON discharge_orchestration_runs
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role has full access to orchestration runs"
+  ON discharge_orchestration_runs FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE discharge_orchestration_runs IS 'Discharge orchestration runs, resumable from the first failed step';
+COMMENT ON COLUMN discharge_orchestration_runs.status IS 'running | completed (no failed steps) | failed (resumable)';
+
+-- ============================================================================
+-- TABLE: discharge_orchestration_steps
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS discharge_orchestration_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES discharge_orchestration_runs(id) ON DELETE CASCADE,
+  step TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'skipped', 'failed')),
+  -- '<step>:<attempt>' for orchestrated attempts, caller-supplied for retries
+  idempotency_key TEXT NOT NULL,
+  -- StepResult.data, used to rebuild results on resume
+  data JSONB,
+  error TEXT,
+  duration_ms INTEGER,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  UNIQUE (run_id, idempotency_key),
+  UNIQUE (run_id, step, attempt)
+);
+
+ALTER TABLE discharge_orchestration_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own orchestration steps"
+  ON discharge_orchestration_steps
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM discharge_orchestration_runs r
+      WHERE r.id = discharge_orchestration_steps.run_id
+      AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create own orchestration steps"
+  ON discharge_orchestration_steps
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM discharge_orchestration_runs r
+      WHERE r.id = discharge_orchestration_steps.run_id
+      AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own orchestration steps"
+  ON discharge_orchestration_steps
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM discharge_orchestration_runs r
+      WHERE r.id = discharge_orchestration_steps.run_id
+      AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to orchestration steps"
+  ON discharge_orchestration_steps FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE discharge_orchestration_steps IS 'One row per step attempt of a discharge orchestration run';
+COMMENT ON COLUMN discharge_orchestration_steps.idempotency_key IS 'Unique per run; a retry with a used key returns the recorded attempt instead of re-running the step';
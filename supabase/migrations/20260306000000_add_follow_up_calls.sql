@@ -0,0 +1,33 @@
+-- Migration: Follow-up (non-discharge) outbound calls
+--
+-- Clinics can schedule an N-day post-visit follow-up call (recheck, suture
+-- removal, lab results, medication course complete) alongside the discharge
+-- call for the same case.
+--
+-- - scheduled_discharge_calls.call_type: discharge | follow-up, so a case can
+--   hold one of each without rescheduling overwriting the other
+-- - scheduled_discharge_calls.follow_up_checkin_data: follow_up_checkin
+--   structured output
+-- - clinics.followup_assistant_id: VAPI assistant configured with the
+--   outbound_followup prompt
+
+ALTER TABLE scheduled_discharge_calls
+  ADD COLUMN IF NOT EXISTS call_type TEXT NOT NULL DEFAULT 'discharge'
+    CHECK (call_type IN ('discharge', 'follow-up'));
+
+ALTER TABLE scheduled_discharge_calls
+  ADD COLUMN IF NOT EXISTS follow_up_checkin_data JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_discharge_calls_case_call_type
+  ON scheduled_discharge_calls(case_id, call_type, created_at DESC);
+
+COMMENT ON COLUMN scheduled_discharge_calls.call_type IS
+  'discharge (post-visit check-in) | follow-up (recheck, suture removal, lab results, medication complete)';
+COMMENT ON COLUMN scheduled_discharge_calls.follow_up_checkin_data IS
+  'follow_up_checkin structured output for follow-up calls';
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS followup_assistant_id TEXT;
+
+COMMENT ON COLUMN clinics.followup_assistant_id IS
+  'VAPI assistant for follow-up calls; required to schedule them';
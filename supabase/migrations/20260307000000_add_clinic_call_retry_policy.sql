@@ -0,0 +1,15 @@
+-- Migration: Per-clinic retry policy for failed outbound calls
+--
+-- Replaces the hard-coded retry behavior (one retry after 10 minutes for
+-- busy / no-answer / silence) with a policy each clinic can edit in settings:
+-- max retries, backoff curve, retry time of day, business hours, quiet hours,
+-- which ended reasons retry, and whether voicemail triggers a retry.
+--
+-- NULL keeps the original behavior. Shape is validated in the app
+-- (callRetryPolicySchema); missing fields take the defaults.
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS call_retry_policy JSONB;
+
+COMMENT ON COLUMN clinics.call_retry_policy IS
+  'Retry policy for failed outbound calls (maxRetries, backoff, initialDelayMinutes, maxDelayMinutes, retryAtTime, respectBusinessHours, quietHours, retryOnEndedReasons, retryAfterVoicemail); NULL uses defaults';
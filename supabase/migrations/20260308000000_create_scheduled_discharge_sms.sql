@@ -0,0 +1,117 @@
+-- Migration: SMS discharge channel
+--
+-- Adds SMS alongside VAPI calls and Resend emails so owners who never pick
+-- up still get a text.
+--
+-- - scheduled_discharge_sms: one scheduled text per case, sent via QStash ->
+--   /api/webhooks/execute-discharge-sms, with delivery status from the
+--   provider's status callback
+-- - sms_opt_outs: numbers that replied STOP (and friends); checked before
+--   every send, cleared by START
+
+-- ============================================================================
+-- TABLE: scheduled_discharge_sms
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scheduled_discharge_sms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES cases(id) ON DELETE CASCADE,
+
+  -- Message details
+  recipient_phone TEXT NOT NULL,
+  recipient_name TEXT,
+  body TEXT NOT NULL,
+
+  -- Scheduling
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sent', 'delivered', 'failed', 'cancelled')),
+
+  -- Execution tracking
+  provider TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+
+  -- Metadata and tracking
+  metadata JSONB DEFAULT '{}'::jsonb,
+  qstash_message_id TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_sms_status ON scheduled_discharge_sms(status);
+CREATE INDEX IF NOT EXISTS idx_scheduled_sms_scheduled_for ON scheduled_discharge_sms(scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_scheduled_sms_user_id ON scheduled_discharge_sms(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_sms_case_id ON scheduled_discharge_sms(case_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_sms_provider_message_id
+  ON scheduled_discharge_sms(provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+ALTER TABLE scheduled_discharge_sms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scheduled sms"
+  ON scheduled_discharge_sms
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own scheduled sms"
+  ON scheduled_discharge_sms
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own scheduled sms"
+  ON scheduled_discharge_sms
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own scheduled sms"
+  ON scheduled_discharge_sms
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role has full access to scheduled sms"
+  ON scheduled_discharge_sms FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE OR REPLACE FUNCTION update_scheduled_discharge_sms_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_scheduled_discharge_sms_updated_at
+  BEFORE UPDATE ON scheduled_discharge_sms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_scheduled_discharge_sms_updated_at();
+
+COMMENT ON TABLE scheduled_discharge_sms IS 'Scheduled discharge text messages (third channel next to calls and emails)';
+COMMENT ON COLUMN scheduled_discharge_sms.status IS 'queued | sent (accepted by provider) | delivered (carrier confirmed) | failed | cancelled (blocked, opted out, or owner reached by phone)';
+
+-- ============================================================================
+-- TABLE: sms_opt_outs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_opt_outs (
+  phone_number TEXT PRIMARY KEY,
+  -- Keyword the owner sent (STOP, UNSUBSCRIBE, ...)
+  keyword TEXT NOT NULL,
+  opted_out_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE sms_opt_outs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view sms opt-outs"
+  ON sms_opt_outs
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Service role has full access to sms opt-outs"
+  ON sms_opt_outs FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE sms_opt_outs IS 'E.164 numbers that opted out of texts by keyword; START removes the row';
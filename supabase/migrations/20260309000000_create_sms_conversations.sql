@@ -0,0 +1,146 @@
+-- Migration: Two-way SMS conversation inbox
+--
+-- Owners reply to discharge texts. Replies land in a per-clinic thread for
+-- the owner's number, linked to the client/patient/case the last discharge
+-- text was about, so staff can answer from the dashboard.
+--
+-- - sms_conversations: one thread per (clinic, owner phone)
+-- - sms_messages: inbound replies, staff replies, and discharge texts
+
+-- ============================================================================
+-- TABLE: sms_conversations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+
+  -- Who we're texting with (E.164)
+  owner_phone TEXT NOT NULL,
+  owner_name TEXT,
+
+  -- Latest context the thread is about
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  patient_id UUID REFERENCES patients(id) ON DELETE SET NULL,
+  case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'closed')),
+  -- Highest unresolved urgency from inbound messages (triage levels)
+  urgency TEXT CHECK (urgency IN ('critical', 'urgent', 'monitor')),
+  unread_count INTEGER NOT NULL DEFAULT 0,
+  last_message_at TIMESTAMPTZ,
+  last_message_preview TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  UNIQUE (clinic_id, owner_phone)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_clinic_last_message
+  ON sms_conversations(clinic_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_owner_phone
+  ON sms_conversations(owner_phone);
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_case_id
+  ON sms_conversations(case_id);
+
+-- ============================================================================
+-- TABLE: sms_messages
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES sms_conversations(id) ON DELETE CASCADE,
+
+  direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'queued', 'sent', 'delivered', 'failed')),
+
+  provider_message_id TEXT,
+  -- Staff member who sent an outbound reply (null for discharge texts)
+  sent_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Discharge text this message mirrors, if any
+  scheduled_sms_id UUID REFERENCES scheduled_discharge_sms(id) ON DELETE SET NULL,
+  -- Reply was sent from an AI suggestion
+  ai_suggested BOOLEAN NOT NULL DEFAULT false,
+
+  -- Keyword urgency detection for inbound messages
+  urgency TEXT CHECK (urgency IN ('critical', 'urgent', 'monitor')),
+  urgency_keywords TEXT[],
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_conversation_created
+  ON sms_messages(conversation_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sms_messages_provider_message_id
+  ON sms_messages(provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE sms_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sms conversations for their clinic"
+  ON sms_conversations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = sms_conversations.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM users WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update sms conversations for their clinic"
+  ON sms_conversations
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = sms_conversations.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM users WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can view sms messages for their clinic"
+  ON sms_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM sms_conversations
+      JOIN clinics ON clinics.id = sms_conversations.clinic_id
+      WHERE sms_conversations.id = sms_messages.conversation_id
+      AND clinics.name = (SELECT clinic_name FROM users WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Service role can manage sms conversations"
+  ON sms_conversations FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage sms messages"
+  ON sms_messages FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE OR REPLACE FUNCTION update_sms_conversations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_sms_conversations_updated_at
+  BEFORE UPDATE ON sms_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sms_conversations_updated_at();
+
+COMMENT ON TABLE sms_conversations IS 'Two-way SMS threads between a clinic and a pet owner, linked to the latest case';
+COMMENT ON COLUMN sms_conversations.urgency IS 'Highest urgency detected in unread inbound messages (critical | urgent | monitor); cleared when staff reply or close';
+COMMENT ON TABLE sms_messages IS 'Messages in an SMS thread (owner replies, staff replies, discharge texts)';
@@ -0,0 +1,112 @@
+-- Migration: Per-clinic Slack notification routing
+--
+-- Notifications used to go to one global channel per type (SLACK_CHANNEL_*
+-- env vars), so every clinic's appointments and emergencies landed in the
+-- same place. Clinics can now route each notification type to a channel in
+-- one of their installed workspaces, with:
+-- - a minimum severity per route
+-- - digest delivery (batched by the hourly slack-digest cron)
+-- - quiet hours (clinics.slack_notification_preferences); notifications
+--   below the bypass severity are held and delivered when quiet hours end
+--
+-- Clinics without a route for a type keep the env-based behavior.
+
+-- ============================================================================
+-- TABLE: slack_notification_routes
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS slack_notification_routes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL
+    CHECK (notification_type IN (
+      'appointment_booked', 'emergency_triage', 'call_failed', 'sync_error', 'admin_alert'
+    )),
+
+  workspace_id UUID NOT NULL REFERENCES slack_workspaces(id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL,
+  channel_name TEXT,
+
+  min_severity TEXT NOT NULL DEFAULT 'info'
+    CHECK (min_severity IN ('info', 'warning', 'error', 'critical')),
+  delivery_mode TEXT NOT NULL DEFAULT 'immediate'
+    CHECK (delivery_mode IN ('immediate', 'digest')),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  UNIQUE (clinic_id, notification_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_notification_routes_workspace_id
+  ON slack_notification_routes(workspace_id);
+
+-- ============================================================================
+-- TABLE: slack_notification_queue
+-- ============================================================================
+
+-- Notifications held for a digest or until quiet hours end
+CREATE TABLE IF NOT EXISTS slack_notification_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  route_id UUID NOT NULL REFERENCES slack_notification_routes(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  severity TEXT NOT NULL
+    CHECK (severity IN ('info', 'warning', 'error', 'critical')),
+  payload JSONB NOT NULL,
+  -- 'digest' (route is in digest mode) or 'quiet_hours'
+  reason TEXT NOT NULL CHECK (reason IN ('digest', 'quiet_hours')),
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_notification_queue_pending
+  ON slack_notification_queue(route_id, created_at)
+  WHERE delivered_at IS NULL;
+
+-- ============================================================================
+-- CLINIC PREFERENCES
+-- ============================================================================
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS slack_notification_preferences JSONB;
+
+COMMENT ON COLUMN clinics.slack_notification_preferences IS
+  'Slack notification preferences (quietHours, quietHoursBypassSeverity); NULL uses defaults';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE slack_notification_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE slack_notification_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage slack routes for their clinic"
+  ON slack_notification_routes
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = slack_notification_routes.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM users WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Service role can manage slack routes"
+  ON slack_notification_routes FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage slack notification queue"
+  ON slack_notification_queue FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_slack_notification_routes_updated_at
+  BEFORE UPDATE ON slack_notification_routes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE slack_notification_routes IS
+  'Per-clinic routing of Slack notification types to a workspace channel';
+COMMENT ON TABLE slack_notification_queue IS
+  'Slack notifications held for digest delivery or until quiet hours end';
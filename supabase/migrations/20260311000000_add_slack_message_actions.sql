@@ -0,0 +1,67 @@
+-- Migration: Slack message actions
+--
+-- Emergency and callback request notifications now carry "Acknowledge",
+-- "Assign to me", "Mark resolved" and "Schedule callback" buttons. Each
+-- clinic message acted on from Slack gets a slack_tasks row (tracking its
+-- current state), and every action is logged in slack_task_completions.
+--
+-- slack_tasks previously only held daily reminder tasks for
+-- slack_reminder_channels; message tasks have no reminder_time.
+
+-- ============================================================================
+-- slack_tasks: link to clinic messages
+-- ============================================================================
+
+ALTER TABLE slack_tasks
+  ALTER COLUMN reminder_time DROP NOT NULL;
+
+ALTER TABLE slack_tasks
+  ADD COLUMN IF NOT EXISTS clinic_id UUID REFERENCES clinics(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS clinic_message_id UUID REFERENCES clinic_messages(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS inbound_call_id UUID REFERENCES inbound_vapi_calls(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS slack_channel_id TEXT,
+  ADD COLUMN IF NOT EXISTS slack_message_ts TEXT,
+  ADD COLUMN IF NOT EXISTS status TEXT
+    CHECK (status IN ('acknowledged', 'assigned', 'callback_scheduled', 'resolved')),
+  ADD COLUMN IF NOT EXISTS assigned_to_slack_user_id TEXT,
+  ADD COLUMN IF NOT EXISTS assigned_to_slack_username TEXT,
+  ADD COLUMN IF NOT EXISTS callback_scheduled_for TIMESTAMPTZ;
+
+-- One task per clinic message
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slack_tasks_clinic_message_id
+  ON slack_tasks(clinic_message_id)
+  WHERE clinic_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_slack_tasks_clinic_id
+  ON slack_tasks(clinic_id)
+  WHERE clinic_id IS NOT NULL;
+
+COMMENT ON COLUMN slack_tasks.clinic_message_id IS
+  'Clinic message handled from Slack; NULL for reminder tasks';
+COMMENT ON COLUMN slack_tasks.status IS
+  'Latest Slack action on the message (resolved is final)';
+
+-- ============================================================================
+-- slack_task_completions: which action was taken
+-- ============================================================================
+
+ALTER TABLE slack_task_completions
+  ADD COLUMN IF NOT EXISTS action TEXT
+    CHECK (action IN ('acknowledge', 'assign', 'resolve', 'schedule_callback'));
+
+COMMENT ON COLUMN slack_task_completions.action IS
+  'Message action taken from Slack; NULL for reminder completions';
+
+-- ============================================================================
+-- slack_notification_routes: callback request notifications
+-- ============================================================================
+
+ALTER TABLE slack_notification_routes
+  DROP CONSTRAINT IF EXISTS slack_notification_routes_notification_type_check;
+
+ALTER TABLE slack_notification_routes
+  ADD CONSTRAINT slack_notification_routes_notification_type_check
+    CHECK (notification_type IN (
+      'appointment_booked', 'emergency_triage', 'callback_request',
+      'call_failed', 'sync_error', 'admin_alert'
+    ));
@@ -0,0 +1,19 @@
+-- Migration: Slack morning digest
+--
+-- Clinics can route the new morning_digest notification type to a channel.
+-- The hourly slack-morning-digest cron posts yesterday's call outcomes,
+-- items needing attention and today's scheduled outreach at the clinic's
+-- morningDigestTime (clinics.slack_notification_preferences, default 07:00).
+
+ALTER TABLE slack_notification_routes
+  DROP CONSTRAINT IF EXISTS slack_notification_routes_notification_type_check;
+
+ALTER TABLE slack_notification_routes
+  ADD CONSTRAINT slack_notification_routes_notification_type_check
+    CHECK (notification_type IN (
+      'appointment_booked', 'emergency_triage', 'callback_request',
+      'call_failed', 'sync_error', 'admin_alert', 'morning_digest'
+    ));
+
+COMMENT ON COLUMN clinics.slack_notification_preferences IS
+  'Slack notification preferences (quietHours, quietHoursBypassSeverity, morningDigestTime); NULL uses defaults';
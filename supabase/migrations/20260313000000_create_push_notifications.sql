@@ -0,0 +1,150 @@
+-- Migration: Mobile push notifications
+--
+-- Vets on call aren't watching Slack or the dashboard at night. The mobile
+-- app registers its Expo push token, and emergencies, urgent attention cases
+-- and failed discharge calls fan out to the devices of users subscribed to
+-- the clinic:
+-- - push_devices: one row per app install (Expo push token)
+-- - push_notification_subscriptions: per-user, per-clinic preferences
+--   (notification types, only-while-on-call)
+-- - on_call_shifts: weekly on-call windows in clinic-local time
+
+-- ============================================================================
+-- TABLE: push_devices
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS push_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- ExponentPushToken[...]
+  token TEXT NOT NULL UNIQUE,
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+  device_name TEXT,
+  last_registered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Set when the provider reports the token as no longer registered
+  disabled_at TIMESTAMPTZ,
+  disabled_reason TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_devices_user_id
+  ON push_devices(user_id)
+  WHERE disabled_at IS NULL;
+
+-- ============================================================================
+-- TABLE: push_notification_subscriptions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS push_notification_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  notification_types TEXT[] NOT NULL
+    DEFAULT ARRAY['emergency_triage', 'attention_case', 'call_failed']
+    CHECK (notification_types <@ ARRAY['emergency_triage', 'attention_case', 'call_failed']),
+  -- Only push while the user has an on-call shift (emergencies still reach
+  -- everyone subscribed when nobody is on call)
+  only_when_on_call BOOLEAN NOT NULL DEFAULT false,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  UNIQUE (user_id, clinic_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_notification_subscriptions_clinic_id
+  ON push_notification_subscriptions(clinic_id)
+  WHERE is_enabled;
+
+-- ============================================================================
+-- TABLE: on_call_shifts
+-- ============================================================================
+
+-- Weekly recurring on-call windows in the clinic's timezone. A shift whose
+-- end is before its start runs overnight into the next day.
+CREATE TABLE IF NOT EXISTS on_call_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- 0 = Sunday ... 6 = Saturday (day the shift starts)
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_call_shifts_clinic_id
+  ON on_call_shifts(clinic_id, user_id);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE push_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_notification_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE on_call_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own push devices"
+  ON push_devices
+  FOR ALL
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage push devices"
+  ON push_devices FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can manage their own push subscriptions"
+  ON push_notification_subscriptions
+  FOR ALL
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage push subscriptions"
+  ON push_notification_subscriptions FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view on-call shifts for their clinic"
+  ON on_call_shifts
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = on_call_shifts.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM users WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can manage their own on-call shifts"
+  ON on_call_shifts
+  FOR ALL
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage on-call shifts"
+  ON on_call_shifts FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_push_devices_updated_at
+  BEFORE UPDATE ON push_devices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_push_notification_subscriptions_updated_at
+  BEFORE UPDATE ON push_notification_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_on_call_shifts_updated_at
+  BEFORE UPDATE ON on_call_shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE push_devices IS
+  'Mobile app installs registered for push notifications (Expo push tokens)';
+COMMENT ON TABLE push_notification_subscriptions IS
+  'Per-user, per-clinic push notification preferences';
+COMMENT ON TABLE on_call_shifts IS
+  'Weekly on-call windows (clinic-local time) used to target push notifications';
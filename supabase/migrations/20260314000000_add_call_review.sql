@@ -0,0 +1,18 @@
+-- Migration: Call review state
+--
+-- Staff review discharge calls (recording, transcript, structured outputs)
+-- from the dashboard or the mobile app and mark them reviewed.
+--
+-- - scheduled_discharge_calls.reviewed_at / reviewed_by: who reviewed the
+--   call and when; NULL until reviewed
+
+ALTER TABLE scheduled_discharge_calls
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+ALTER TABLE scheduled_discharge_calls
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN scheduled_discharge_calls.reviewed_at IS
+  'When a staff member marked the call reviewed';
+COMMENT ON COLUMN scheduled_discharge_calls.reviewed_by IS
+  'User who marked the call reviewed';
@@ -0,0 +1,126 @@
+-- Migration: Declarative per-clinic booking rules
+--
+-- Clinic-specific booking restrictions used to ship as one-off migrations
+-- inserting clinic_blocked_periods rows by clinic name (e.g.
+-- 20260210000000_block_alum_rock_before_9am.sql). Clinics now keep rules in
+-- clinic_booking_rules, editable from scheduling settings. The VAPI
+-- check_availability and book_appointment tools evaluate them:
+-- - block_window: matching bookings can't start inside a window
+-- - allowed_windows: matching bookings must start inside a window
+-- - hourly_limit: at most N matching bookings per clock hour
+-- - reserve_last_slots: the day's last N open slots are held for matching bookings
+-- - provider_only: matching bookings go to one provider
+--
+-- config holds the type-specific settings (see bookingRuleConfigSchema in
+-- @odis-ai/shared/validators). The Alum Rock VAPI blocks move here.
+
+-- ============================================================================
+-- TABLE: clinic_booking_rules
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS clinic_booking_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL
+    CHECK (rule_type IN (
+      'block_window', 'allowed_windows', 'hourly_limit', 'reserve_last_slots', 'provider_only'
+    )),
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinic_booking_rules_active
+  ON clinic_booking_rules(clinic_id, priority)
+  WHERE is_active = true;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE clinic_booking_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view booking rules for their clinic"
+  ON clinic_booking_rules
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = clinic_booking_rules.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM public.users WHERE id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Admins can manage booking rules"
+  ON clinic_booking_rules
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Service role can manage booking rules"
+  ON clinic_booking_rules FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_clinic_booking_rules_updated_at
+  BEFORE UPDATE ON clinic_booking_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE clinic_booking_rules IS
+  'Per-clinic booking rules evaluated by the VAPI availability and booking tools';
+COMMENT ON COLUMN clinic_booking_rules.config IS
+  'Type-specific rule settings (match, window(s), maxPerHour, count, providerName)';
+COMMENT ON COLUMN clinic_booking_rules.priority IS
+  'Evaluation order, lowest first; the first matching provider_only rule assigns the provider';
+
+-- ============================================================================
+-- MIGRATE ALUM ROCK VAPI BLOCKS
+-- ============================================================================
+
+INSERT INTO clinic_booking_rules (clinic_id, name, rule_type, config, priority)
+SELECT
+  bp.clinic_id,
+  bp.name,
+  'block_window',
+  jsonb_build_object(
+    'match', '{}'::jsonb,
+    'window', jsonb_build_object(
+      'days', to_jsonb(bp.days_of_week),
+      'start', to_char(bp.start_time, 'HH24:MI'),
+      'end', to_char(bp.end_time, 'HH24:MI')
+    )
+  ),
+  100
+FROM clinic_blocked_periods bp
+JOIN clinics c ON c.id = bp.clinic_id
+WHERE c.name = 'Alum Rock Animal Hospital'
+  AND bp.name IN ('Early Morning - No VAPI Booking', 'After 5:30 PM - No VAPI Booking')
+  AND bp.is_active = true;
+
+UPDATE clinic_blocked_periods bp
+SET is_active = false
+FROM clinics c
+WHERE c.id = bp.clinic_id
+  AND c.name = 'Alum Rock Animal Hospital'
+  AND bp.name IN ('Early Morning - No VAPI Booking', 'After 5:30 PM - No VAPI Booking');
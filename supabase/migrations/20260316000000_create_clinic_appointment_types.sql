@@ -0,0 +1,170 @@
+-- Migration: Appointment types and schedulable resources
+--
+-- get_available_slots treats every slot the same, so a 60-minute dental
+-- consult could be offered in a 15-minute gap. Clinics now define:
+-- - clinic_appointment_types: duration, buffer, required room type and
+--   provider role, mapped to the PIMS appointment type (IDEXX
+--   IdexxAppointmentType.id) used when writing the booking back
+-- - clinic_resources: the rooms and providers those requirements match
+--
+-- The VAPI availability tools only offer starts with enough contiguous open
+-- slots for the type, and a room and provider of the required kind free for
+-- the whole visit. book_appointment books that duration and resource.
+
+-- ============================================================================
+-- TABLE: clinic_appointment_types
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS clinic_appointment_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  pims_appointment_type_id TEXT,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 5 AND 480),
+  buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 120),
+  required_room_type TEXT,
+  required_provider_role TEXT,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  UNIQUE (clinic_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinic_appointment_types_active
+  ON clinic_appointment_types(clinic_id)
+  WHERE is_active = true;
+
+-- ============================================================================
+-- TABLE: clinic_resources
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS clinic_resources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('room', 'provider')),
+  name TEXT NOT NULL,
+  pims_resource_id TEXT,
+  room_type TEXT,
+  provider_role TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  UNIQUE (clinic_id, kind, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinic_resources_active
+  ON clinic_resources(clinic_id, kind)
+  WHERE is_active = true;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE clinic_appointment_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clinic_resources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view appointment types for their clinic"
+  ON clinic_appointment_types
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = clinic_appointment_types.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM public.users WHERE id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Admins can manage appointment types"
+  ON clinic_appointment_types
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Service role can manage appointment types"
+  ON clinic_appointment_types FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view resources for their clinic"
+  ON clinic_resources
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = clinic_resources.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM public.users WHERE id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Admins can manage resources"
+  ON clinic_resources
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Service role can manage resources"
+  ON clinic_resources FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_clinic_appointment_types_updated_at
+  BEFORE UPDATE ON clinic_appointment_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_clinic_resources_updated_at
+  BEFORE UPDATE ON clinic_resources
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE clinic_appointment_types IS
+  'Bookable visit types with duration and resource requirements, used by the VAPI availability and booking tools';
+COMMENT ON COLUMN clinic_appointment_types.pims_appointment_type_id IS
+  'PIMS appointment type id sent on write-back (IDEXX appointment type id)';
+COMMENT ON COLUMN clinic_appointment_types.buffer_minutes IS
+  'Minutes held after the visit; the next booking can start after duration + buffer';
+COMMENT ON COLUMN clinic_appointment_types.keywords IS
+  'Visit reasons containing any keyword resolve to this type';
+COMMENT ON TABLE clinic_resources IS
+  'Rooms and providers matched against appointment type requirements';
+COMMENT ON COLUMN clinic_resources.name IS
+  'Room name, or provider name as it appears on pims_appointments.provider_name';
+COMMENT ON COLUMN clinic_resources.pims_resource_id IS
+  'PIMS room or provider id; rooms match pims_appointments.room_id';
@@ -0,0 +1,181 @@
+-- Migration: Cancellation waitlist
+--
+-- A cancelled appointment used to free its slot silently. Clients can now be
+-- put on a waitlist (by the inbound assistant's add_to_waitlist tool or from
+-- the dashboard) with preferred date ranges and an appointment type.
+--
+-- When a matching slot opens (cancel_appointment or a PIMS sync that marks an
+-- appointment cancelled), the first waiting client gets an offer:
+-- - the slot is held with book_appointment_with_hold for the offer window
+-- - the client is called (clinics.waitlist_assistant_id) or texted
+-- - accepting confirms the held booking; declining or not answering before
+--   expires_at cancels the hold and offers the slot to the next client
+--
+-- - appointment_waitlist: one row per waiting client
+-- - appointment_waitlist_offers: each slot offered to an entry
+-- - clinics.waitlist_assistant_id / waitlist_offer_minutes
+
+-- ============================================================================
+-- TABLE: appointment_waitlist
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS appointment_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  client_name TEXT NOT NULL,
+  client_phone TEXT NOT NULL,
+  patient_name TEXT NOT NULL,
+  species TEXT,
+  reason TEXT,
+  appointment_type TEXT,
+  is_new_client BOOLEAN NOT NULL DEFAULT false,
+  -- [{ "start_date": "YYYY-MM-DD", "end_date": "YYYY-MM-DD" }], empty = any day
+  preferred_ranges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  contact_method TEXT NOT NULL DEFAULT 'call'
+    CHECK (contact_method IN ('call', 'sms')),
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'removed')),
+  source TEXT NOT NULL DEFAULT 'dashboard'
+    CHECK (source IN ('phone', 'dashboard')),
+  notes TEXT,
+  vapi_call_id TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  booking_id UUID REFERENCES appointment_bookings(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_waiting
+  ON appointment_waitlist(clinic_id, created_at)
+  WHERE status = 'waiting';
+
+-- ============================================================================
+-- TABLE: appointment_waitlist_offers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS appointment_waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  waitlist_id UUID NOT NULL REFERENCES appointment_waitlist(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  -- Clinic whose schedule the slot belongs to (pims_clinic_id ?? clinic_id)
+  schedule_clinic_id UUID NOT NULL,
+  slot_start TIMESTAMPTZ NOT NULL,
+  slot_end TIMESTAMPTZ NOT NULL,
+  booking_id UUID REFERENCES appointment_bookings(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('call', 'sms')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'failed')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  vapi_call_id TEXT,
+  provider_message_id TEXT,
+  qstash_message_id TEXT,
+  error TEXT,
+  responded_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- An entry is offered one slot at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointment_waitlist_offers_one_pending
+  ON appointment_waitlist_offers(waitlist_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_offers_slot
+  ON appointment_waitlist_offers(clinic_id, slot_start);
+
+-- ============================================================================
+-- CLINIC SETTINGS
+-- ============================================================================
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS waitlist_assistant_id TEXT;
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS waitlist_offer_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (waitlist_offer_minutes BETWEEN 5 AND 1440);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE appointment_waitlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointment_waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage the waitlist for their clinic"
+  ON appointment_waitlist
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = appointment_waitlist.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM public.users WHERE id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = appointment_waitlist.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM public.users WHERE id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Service role can manage the waitlist"
+  ON appointment_waitlist FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view waitlist offers for their clinic"
+  ON appointment_waitlist_offers
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = appointment_waitlist_offers.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM public.users WHERE id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Service role can manage waitlist offers"
+  ON appointment_waitlist_offers FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_appointment_waitlist_updated_at
+  BEFORE UPDATE ON appointment_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_appointment_waitlist_offers_updated_at
+  BEFORE UPDATE ON appointment_waitlist_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE appointment_waitlist IS
+  'Clients waiting for an earlier slot; offered openings from cancellations in created_at order';
+COMMENT ON COLUMN appointment_waitlist.preferred_ranges IS
+  'Date ranges [{start_date, end_date}] the client can come in; empty means any day';
+COMMENT ON COLUMN appointment_waitlist.appointment_type IS
+  'Requested appointment type; an opening must fit its duration, room and provider';
+COMMENT ON TABLE appointment_waitlist_offers IS
+  'A slot held for a waitlist entry while the client decides';
+COMMENT ON COLUMN appointment_waitlist_offers.booking_id IS
+  'Pending appointment_bookings hold from book_appointment_with_hold; confirmed on accept';
+COMMENT ON COLUMN clinics.waitlist_assistant_id IS
+  'VAPI assistant for waitlist offer calls; without one offers are sent by text';
+COMMENT ON COLUMN clinics.waitlist_offer_minutes IS
+  'How long an offered slot is held before it goes to the next client';
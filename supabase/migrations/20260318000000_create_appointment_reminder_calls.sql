@@ -0,0 +1,121 @@
+-- Migration: Appointment reminder and confirmation calls
+--
+-- pims_appointments (filled by the PIMS schedule sync) was only used for
+-- availability. Clinics can now have synced appointments called a set number
+-- of hours ahead (clinics.reminder_hours_before) by a reminder assistant
+-- that asks the client to confirm, cancel or reschedule:
+-- - confirm_appointment records the confirmation
+-- - cancel_appointment / reschedule_appointment work as on inbound calls
+--
+-- The answer is stored on the appointment (confirmation_status) and, when the
+-- clinic's PIMS supports it, written back to the PIMS.
+--
+-- - appointment_reminder_calls: one reminder call per appointment
+-- - pims_appointments.confirmation_status / confirmed_at / confirmation_synced_at
+-- - clinics.reminder_calls_enabled / reminder_assistant_id / reminder_hours_before
+
+-- ============================================================================
+-- TABLE: appointment_reminder_calls
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS appointment_reminder_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL REFERENCES pims_appointments(id) ON DELETE CASCADE,
+  appointment_start TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'in_progress', 'completed', 'failed')),
+  -- What the client did; null until the call ends
+  outcome TEXT
+    CHECK (outcome IN ('confirmed', 'cancelled', 'rescheduled', 'no_answer', 'no_response')),
+  vapi_call_id TEXT,
+  ended_reason TEXT,
+  error TEXT,
+  completed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- An appointment is reminded once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointment_reminder_calls_appointment
+  ON appointment_reminder_calls(appointment_id);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminder_calls_vapi_call
+  ON appointment_reminder_calls(vapi_call_id)
+  WHERE vapi_call_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminder_calls_clinic
+  ON appointment_reminder_calls(clinic_id, appointment_start);
+
+-- ============================================================================
+-- APPOINTMENT CONFIRMATION
+-- ============================================================================
+
+ALTER TABLE pims_appointments
+  ADD COLUMN IF NOT EXISTS confirmation_status TEXT NOT NULL DEFAULT 'unconfirmed'
+    CHECK (confirmation_status IN ('unconfirmed', 'confirmed', 'cancelled', 'rescheduled'));
+
+ALTER TABLE pims_appointments
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+
+ALTER TABLE pims_appointments
+  ADD COLUMN IF NOT EXISTS confirmation_synced_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- CLINIC SETTINGS
+-- ============================================================================
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS reminder_calls_enabled BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS reminder_assistant_id TEXT;
+
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS reminder_hours_before INTEGER NOT NULL DEFAULT 24
+    CHECK (reminder_hours_before BETWEEN 2 AND 168);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE appointment_reminder_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reminder calls for their clinic"
+  ON appointment_reminder_calls
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinics
+      WHERE clinics.id = appointment_reminder_calls.clinic_id
+      AND clinics.name = (SELECT clinic_name FROM public.users WHERE id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'practice_owner')
+    )
+  );
+
+CREATE POLICY "Service role can manage reminder calls"
+  ON appointment_reminder_calls FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_appointment_reminder_calls_updated_at
+  BEFORE UPDATE ON appointment_reminder_calls
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE appointment_reminder_calls IS
+  'Reminder/confirmation call placed for a synced PIMS appointment';
+COMMENT ON COLUMN appointment_reminder_calls.outcome IS
+  'confirmed/cancelled/rescheduled from the appointment; no_answer when the call did not connect';
+COMMENT ON COLUMN pims_appointments.confirmation_status IS
+  'Client answer to the reminder call; not overwritten by PIMS syncs';
+COMMENT ON COLUMN pims_appointments.confirmation_synced_at IS
+  'When the confirmation was written back to the PIMS';
+COMMENT ON COLUMN clinics.reminder_assistant_id IS
+  'VAPI assistant for reminder calls; also map it in vapi_assistant_mappings so its tools resolve the clinic';
+COMMENT ON COLUMN clinics.reminder_hours_before IS
+  'How many hours before a synced appointment the reminder call is placed';
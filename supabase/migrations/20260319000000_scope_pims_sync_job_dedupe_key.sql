@@ -0,0 +1,12 @@
+-- Migration: Scope pims-sync job dedupe keys per clinic and job type
+--
+-- dedupe_key was unique across the whole table, so a key reused by another
+-- clinic or job type collapsed into an unrelated job. Duplicate enqueues now
+-- only match a job for the same clinic and job type.
+
+ALTER TABLE pims_sync_jobs
+  DROP CONSTRAINT IF EXISTS pims_sync_jobs_dedupe_key_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pims_sync_jobs_dedupe_key
+  ON pims_sync_jobs (clinic_id, job_type, dedupe_key)
+  WHERE dedupe_key IS NOT NULL;
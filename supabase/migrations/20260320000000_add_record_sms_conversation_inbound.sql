@@ -0,0 +1,35 @@
+-- Migration: Atomic inbound update for SMS conversations
+--
+-- recordInboundSms read unread_count and wrote back count + 1, so two
+-- replies arriving together could both write the same count. The increment
+-- (and the urgency escalation, which had the same read-then-write race) now
+-- happens in a single UPDATE.
+
+-- record_sms_conversation_inbound: Count an inbound text against its thread
+-- Returns the thread's case_id (null if the thread has none or doesn't exist)
+CREATE OR REPLACE FUNCTION record_sms_conversation_inbound(
+  p_conversation_id uuid,
+  p_preview text,
+  p_urgency text DEFAULT NULL
+) RETURNS uuid
+LANGUAGE sql
+AS $$
+  UPDATE sms_conversations
+  SET status = 'open',
+      unread_count = unread_count + 1,
+      -- Keep the more severe of the current and new level
+      urgency = CASE
+        WHEN p_urgency IS NULL THEN urgency
+        WHEN urgency IS NULL THEN p_urgency
+        WHEN array_position(ARRAY['critical', 'urgent', 'monitor'], p_urgency)
+          < array_position(ARRAY['critical', 'urgent', 'monitor'], urgency)
+          THEN p_urgency
+        ELSE urgency
+      END,
+      last_message_at = now(),
+      last_message_preview = p_preview
+  WHERE id = p_conversation_id
+  RETURNING case_id;
+$$;
+
+COMMENT ON FUNCTION record_sms_conversation_inbound(uuid, text, text) IS 'Open an SMS thread for a new inbound text: increments unread_count, escalates urgency, and updates the preview';
@@ -0,0 +1,18 @@
+-- Migration: Reminder calls go through scheduled_discharge_calls
+--
+-- Appointment reminder calls were placed straight from the cron run, so they
+-- skipped test mode, the clinic's retry policy and the call executor. They
+-- are now queued like every other outbound call, with call_type 'reminder'
+-- and no case. appointment_reminder_calls still holds one row per
+-- appointment (dedupe and outcome); the scheduled call's metadata.reminder_id
+-- points back to it.
+
+ALTER TABLE scheduled_discharge_calls
+  DROP CONSTRAINT IF EXISTS scheduled_discharge_calls_call_type_check;
+
+ALTER TABLE scheduled_discharge_calls
+  ADD CONSTRAINT scheduled_discharge_calls_call_type_check
+    CHECK (call_type IN ('discharge', 'follow-up', 'reminder'));
+
+COMMENT ON COLUMN scheduled_discharge_calls.call_type IS
+  'discharge (post-visit check-in) | follow-up (recheck, suture removal, lab results, medication complete) | reminder (appointment confirmation, no case)';